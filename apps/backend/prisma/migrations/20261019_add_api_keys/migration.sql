@@ -0,0 +1,26 @@
+-- Migration: tenant API keys for the public REST API
+CREATE TABLE IF NOT EXISTS "api_keys" (
+    "id"                 TEXT NOT NULL,
+    "tenantId"           TEXT NOT NULL,
+    "name"               TEXT NOT NULL,
+    "prefix"             TEXT NOT NULL,
+    "keyHash"            TEXT NOT NULL,
+    "scopes"             TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "rateLimitPerMinute" INTEGER NOT NULL DEFAULT 60,
+    "lastUsedAt"         TIMESTAMP(3),
+    "lastUsedIp"         TEXT,
+    "createdById"        TEXT,
+    "revokedAt"          TIMESTAMP(3),
+    "createdAt"          TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"          TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "api_keys_keyHash_key" ON "api_keys"("keyHash");
+CREATE INDEX IF NOT EXISTS "api_keys_tenantId_idx" ON "api_keys"("tenantId");
+
+ALTER TABLE "api_keys"
+    ADD CONSTRAINT "api_keys_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- Migration: tenant audit log of configuration and operator actions
+CREATE TABLE IF NOT EXISTS "audit_logs" (
+    "id"         TEXT NOT NULL,
+    "tenantId"   TEXT NOT NULL,
+    "userId"     TEXT,
+    "userEmail"  TEXT,
+    "action"     TEXT NOT NULL,
+    "resource"   TEXT NOT NULL,
+    "resourceId" TEXT,
+    "before"     JSONB,
+    "after"      JSONB,
+    "changes"    JSONB,
+    "ip"         TEXT,
+    "userAgent"  TEXT,
+    "requestId"  TEXT,
+    "method"     TEXT NOT NULL,
+    "path"       TEXT NOT NULL,
+    "createdAt"  TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "audit_logs_tenantId_createdAt_idx" ON "audit_logs"("tenantId", "createdAt");
+CREATE INDEX IF NOT EXISTS "audit_logs_tenantId_resource_resourceId_idx"
+    ON "audit_logs"("tenantId", "resource", "resourceId");
+
+ALTER TABLE "audit_logs"
+    ADD CONSTRAINT "audit_logs_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
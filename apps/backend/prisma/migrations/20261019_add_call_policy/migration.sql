@@ -0,0 +1,5 @@
+-- Migration: per-session incoming call policy and inbox system messages
+ALTER TABLE "whatsapp_sessions" ADD COLUMN IF NOT EXISTS "callPolicy" TEXT NOT NULL DEFAULT 'ignore';
+ALTER TABLE "whatsapp_sessions" ADD COLUMN IF NOT EXISTS "callRejectMessage" TEXT;
+
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "isSystem" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,51 @@
+-- Migration: COMMAND node policy (per tenant, disabled by default) and audit log
+ALTER TABLE "workflows" ADD COLUMN IF NOT EXISTS "updatedById" TEXT;
+
+CREATE TABLE IF NOT EXISTS "command_policies" (
+    "id"              TEXT NOT NULL,
+    "tenantId"        TEXT NOT NULL,
+    "enabled"         BOOLEAN NOT NULL DEFAULT false,
+    "allowedBinaries" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "updatedById"     TEXT,
+    "createdAt"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"       TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "command_policies_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "command_policies_tenantId_key"
+    ON "command_policies"("tenantId");
+
+ALTER TABLE "command_policies"
+    ADD CONSTRAINT "command_policies_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE IF NOT EXISTS "command_audit_logs" (
+    "id"          TEXT NOT NULL,
+    "tenantId"    TEXT NOT NULL,
+    "workflowId"  TEXT,
+    "executionId" TEXT,
+    "nodeId"      TEXT,
+    "userId"      TEXT,
+    "binary"      TEXT NOT NULL,
+    "args"        JSONB NOT NULL DEFAULT '[]',
+    "status"      TEXT NOT NULL,
+    "exitCode"    INTEGER,
+    "durationMs"  INTEGER,
+    "error"       TEXT,
+    "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "command_audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "command_audit_logs_tenantId_createdAt_idx"
+    ON "command_audit_logs"("tenantId", "createdAt");
+
+CREATE INDEX IF NOT EXISTS "command_audit_logs_workflowId_idx"
+    ON "command_audit_logs"("workflowId");
+
+ALTER TABLE "command_audit_logs"
+    ADD CONSTRAINT "command_audit_logs_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- Migration: unified contacts with tenant-defined custom fields
+CREATE TABLE IF NOT EXISTS "contacts" (
+    "id"         TEXT NOT NULL,
+    "tenantId"   TEXT NOT NULL,
+    "phone"      TEXT NOT NULL,
+    "name"       TEXT,
+    "avatarUrl"  TEXT,
+    "fields"     JSONB NOT NULL DEFAULT '{}',
+    "createdAt"  TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"  TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contacts_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "contacts_tenantId_phone_key" ON "contacts"("tenantId", "phone");
+CREATE INDEX IF NOT EXISTS "contacts_tenantId_idx" ON "contacts"("tenantId");
+
+CREATE TABLE IF NOT EXISTS "contact_fields" (
+    "id"         TEXT NOT NULL,
+    "tenantId"   TEXT NOT NULL,
+    "key"        TEXT NOT NULL,
+    "label"      TEXT NOT NULL,
+    "type"       TEXT NOT NULL DEFAULT 'text',
+    "options"    TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "order"      INTEGER NOT NULL DEFAULT 0,
+    "createdAt"  TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"  TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contact_fields_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "contact_fields_tenantId_key_key" ON "contact_fields"("tenantId", "key");
+CREATE INDEX IF NOT EXISTS "contact_fields_tenantId_idx" ON "contact_fields"("tenantId");
+
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "contactId" TEXT;
+CREATE INDEX IF NOT EXISTS "conversations_contactId_idx" ON "conversations"("contactId");
+
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_contactId_fkey"
+    FOREIGN KEY ("contactId") REFERENCES "contacts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill one contact per tenant + number from existing conversations
+INSERT INTO "contacts" ("id", "tenantId", "phone", "name", "avatarUrl", "createdAt", "updatedAt")
+SELECT DISTINCT ON (c."tenantId", p.phone)
+    'ct' || md5(c."tenantId" || ':' || p.phone), c."tenantId", p.phone, c."contactName", c."contactAvatar",
+    c."createdAt", CURRENT_TIMESTAMP
+FROM "conversations" c
+CROSS JOIN LATERAL (
+    SELECT regexp_replace(split_part(split_part(c."contactPhone", '@', 1), ':', 1), '\D', '', 'g') AS phone
+) p
+WHERE c."isGroup" = false AND p.phone <> ''
+ORDER BY c."tenantId", p.phone, (c."contactName" IS NULL), c."lastMessageAt" DESC NULLS LAST
+ON CONFLICT ("tenantId", "phone") DO NOTHING;
+
+UPDATE "conversations" c
+SET "contactId" = ct."id"
+FROM "contacts" ct
+WHERE c."contactId" IS NULL
+  AND c."isGroup" = false
+  AND ct."tenantId" = c."tenantId"
+  AND ct."phone" = regexp_replace(split_part(split_part(c."contactPhone", '@', 1), ':', 1), '\D', '', 'g');
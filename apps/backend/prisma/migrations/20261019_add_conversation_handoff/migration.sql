@@ -0,0 +1,35 @@
+-- Migration: conversation assignment, human handoff and assignment history
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "assignedToId" TEXT;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "handoffQueue" TEXT;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "handoffAt" TIMESTAMP(3);
+
+ALTER TABLE "conversations"
+    ADD CONSTRAINT "conversations_assignedToId_fkey"
+    FOREIGN KEY ("assignedToId") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS "conversations_tenantId_assignedToId_idx" ON "conversations"("tenantId", "assignedToId");
+
+CREATE TABLE IF NOT EXISTS "conversation_assignments" (
+    "id"             TEXT NOT NULL,
+    "tenantId"       TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "action"         TEXT NOT NULL,
+    "userId"         TEXT,
+    "queue"          TEXT,
+    "byUserId"       TEXT,
+    "executionId"    TEXT,
+    "createdAt"      TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "conversation_assignments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "conversation_assignments_conversationId_createdAt_idx"
+    ON "conversation_assignments"("conversationId", "createdAt");
+CREATE INDEX IF NOT EXISTS "conversation_assignments_tenantId_idx"
+    ON "conversation_assignments"("tenantId");
+
+ALTER TABLE "conversation_assignments"
+    ADD CONSTRAINT "conversation_assignments_conversationId_fkey"
+    FOREIGN KEY ("conversationId") REFERENCES "conversations"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
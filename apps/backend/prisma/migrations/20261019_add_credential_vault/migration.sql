@@ -0,0 +1,26 @@
+-- Migration: encrypted credential vault for tenant secrets
+-- Plaintext secrets are moved into "credentials" by the backend on startup
+-- (encryption needs VAULT_MASTER_KEY, so it cannot happen in SQL).
+CREATE TABLE IF NOT EXISTS "credentials" (
+    "id"            TEXT NOT NULL,
+    "tenantId"      TEXT NOT NULL,
+    "name"          TEXT NOT NULL,
+    "type"          TEXT NOT NULL DEFAULT 'generic',
+    "ciphertext"    TEXT NOT NULL,
+    "encryptedKey"  TEXT NOT NULL,
+    "keyId"         TEXT NOT NULL,
+    "hint"          TEXT,
+    "createdAt"     TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"     TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credentials_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "credentials_tenantId_idx" ON "credentials"("tenantId");
+CREATE INDEX IF NOT EXISTS "credentials_keyId_idx" ON "credentials"("keyId");
+
+ALTER TABLE "tenant_api_configs" ADD COLUMN IF NOT EXISTS "credentialId" TEXT;
+ALTER TABLE "tenant_api_configs" ALTER COLUMN "secret" SET DEFAULT '';
+
+ALTER TABLE "tenant_pixel_configs" ADD COLUMN IF NOT EXISTS "credentialId" TEXT;
+ALTER TABLE "tenant_pixel_configs" ALTER COLUMN "accessToken" SET DEFAULT '';
@@ -0,0 +1,20 @@
+-- Migration: record which integration created a credential
+-- VaultService.store() only overwrites a credential created for the same owner.
+ALTER TABLE "credentials" ADD COLUMN IF NOT EXISTS "owner" TEXT;
+
+-- Credentials the vault created for API configs and pixels before this column existed
+UPDATE "credentials" c
+SET "owner" = 'api_config:' || a."provider"
+FROM "tenant_api_configs" a
+WHERE a."credentialId" = c."id"
+  AND a."tenantId" = c."tenantId"
+  AND c."name" = 'API ' || a."provider"
+  AND c."owner" IS NULL;
+
+UPDATE "credentials" c
+SET "owner" = 'pixel:' || p."pixelId"
+FROM "tenant_pixel_configs" p
+WHERE p."credentialId" = c."id"
+  AND p."tenantId" = c."tenantId"
+  AND c."name" = 'Pixel ' || p."name"
+  AND c."owner" IS NULL;
@@ -0,0 +1,30 @@
+-- Migration: per-tenant custom roles with resource:action permissions
+CREATE TABLE IF NOT EXISTS "custom_roles" (
+    "id"          TEXT NOT NULL,
+    "tenantId"    TEXT NOT NULL,
+    "name"        TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"   TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "custom_roles_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "custom_roles_tenantId_name_key"
+    ON "custom_roles"("tenantId", "name");
+CREATE INDEX IF NOT EXISTS "custom_roles_tenantId_idx" ON "custom_roles"("tenantId");
+
+ALTER TABLE "custom_roles"
+    ADD CONSTRAINT "custom_roles_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "customRoleId" TEXT;
+
+ALTER TABLE "users"
+    ADD CONSTRAINT "users_customRoleId_fkey"
+    FOREIGN KEY ("customRoleId") REFERENCES "custom_roles"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS "users_customRoleId_idx" ON "users"("customRoleId");
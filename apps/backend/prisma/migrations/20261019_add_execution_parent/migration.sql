@@ -0,0 +1,4 @@
+-- Migration: link sub-workflow executions (CALL_WORKFLOW) to their caller
+ALTER TABLE "workflow_executions" ADD COLUMN IF NOT EXISTS "parentExecutionId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "workflow_executions_parentExecutionId_idx" ON "workflow_executions"("parentExecutionId");
@@ -0,0 +1,18 @@
+-- Migration: Group participant join/leave/promote/demote history
+CREATE TABLE IF NOT EXISTS "group_membership_events" (
+    "id"             TEXT NOT NULL,
+    "tenantId"       TEXT NOT NULL,
+    "sessionId"      TEXT NOT NULL,
+    "groupJid"       TEXT NOT NULL,
+    "participantJid" TEXT NOT NULL,
+    "action"         TEXT NOT NULL,
+    "authorJid"      TEXT,
+    "createdAt"      TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "group_membership_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "group_membership_events_groupJid_participantJid_createdAt_idx"
+    ON "group_membership_events"("groupJid", "participantJid", "createdAt");
+CREATE INDEX IF NOT EXISTS "group_membership_events_tenantId_groupJid_createdAt_idx"
+    ON "group_membership_events"("tenantId", "groupJid", "createdAt");
@@ -0,0 +1,10 @@
+-- Migration: full-text search over message content and contact names
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('portuguese', coalesce("content", ''))) STORED;
+
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('simple', coalesce("contactName", '') || ' ' || coalesce("phoneNumber", ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS "messages_searchVector_idx" ON "messages" USING GIN ("searchVector");
+CREATE INDEX IF NOT EXISTS "conversations_searchVector_idx" ON "conversations" USING GIN ("searchVector");
+CREATE INDEX IF NOT EXISTS "messages_conversationId_timestamp_idx" ON "messages"("conversationId", "timestamp");
@@ -0,0 +1,5 @@
+-- Migration: message edits, revokes (soft delete) and reactions
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "editedAt" TIMESTAMP(3);
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "originalContent" TEXT;
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMP(3);
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "reactions" JSONB;
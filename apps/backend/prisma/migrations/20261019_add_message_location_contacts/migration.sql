@@ -0,0 +1,3 @@
+-- Migration: structured location and contact card messages
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "location" JSONB;
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "contacts" JSONB;
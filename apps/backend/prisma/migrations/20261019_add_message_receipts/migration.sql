@@ -0,0 +1,9 @@
+-- Migration: Track delivery/read receipts on messages and campaign logs
+CREATE INDEX IF NOT EXISTS "messages_whatsappMessageId_idx" ON "messages"("whatsappMessageId");
+
+ALTER TABLE "CampaignLog"
+    ADD COLUMN IF NOT EXISTS "whatsappMessageId" TEXT,
+    ADD COLUMN IF NOT EXISTS "deliveredAt" TIMESTAMP(3),
+    ADD COLUMN IF NOT EXISTS "readAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "CampaignLog_whatsappMessageId_idx" ON "CampaignLog"("whatsappMessageId");
@@ -0,0 +1,47 @@
+-- Migration: Sent polls and per-voter latest selections
+CREATE TABLE IF NOT EXISTS "polls" (
+    "id"              TEXT NOT NULL,
+    "tenantId"        TEXT NOT NULL,
+    "sessionId"       TEXT NOT NULL,
+    "chatJid"         TEXT NOT NULL,
+    "messageId"       TEXT NOT NULL,
+    "creatorJid"      TEXT,
+    "messageSecret"   TEXT,
+    "name"            TEXT NOT NULL,
+    "options"         JSONB NOT NULL DEFAULT '[]',
+    "selectableCount" INTEGER NOT NULL DEFAULT 1,
+    "executionId"     TEXT,
+    "nodeId"          TEXT,
+    "createdAt"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "polls_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "polls_sessionId_messageId_key"
+    ON "polls"("sessionId", "messageId");
+CREATE INDEX IF NOT EXISTS "polls_tenantId_createdAt_idx"
+    ON "polls"("tenantId", "createdAt");
+
+ALTER TABLE "polls"
+    ADD CONSTRAINT "polls_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE IF NOT EXISTS "poll_votes" (
+    "id"              TEXT NOT NULL,
+    "pollId"          TEXT NOT NULL,
+    "voterJid"        TEXT NOT NULL,
+    "selectedOptions" JSONB NOT NULL DEFAULT '[]',
+    "createdAt"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"       TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "poll_votes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "poll_votes_pollId_voterJid_key"
+    ON "poll_votes"("pollId", "voterJid");
+
+ALTER TABLE "poll_votes"
+    ADD CONSTRAINT "poll_votes_pollId_fkey"
+    FOREIGN KEY ("pollId") REFERENCES "polls"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
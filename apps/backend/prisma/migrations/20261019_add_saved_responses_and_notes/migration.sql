@@ -0,0 +1,20 @@
+-- Migration: inbox saved responses and internal notes
+CREATE TABLE IF NOT EXISTS "saved_responses" (
+    "id"          TEXT NOT NULL,
+    "tenantId"    TEXT NOT NULL,
+    "shortcut"    TEXT NOT NULL,
+    "title"       TEXT NOT NULL,
+    "content"     TEXT NOT NULL,
+    "mediaFileId" TEXT,
+    "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "saved_responses_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "saved_responses_tenantId_shortcut_key"
+    ON "saved_responses"("tenantId", "shortcut");
+CREATE INDEX IF NOT EXISTS "saved_responses_tenantId_idx" ON "saved_responses"("tenantId");
+
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "isInternal" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "authorId" TEXT;
@@ -0,0 +1,24 @@
+-- Migration: per-tenant dead letters of outgoing webhook deliveries
+CREATE TABLE IF NOT EXISTS "webhook_dead_letters" (
+    "id"           TEXT NOT NULL,
+    "tenantId"     TEXT NOT NULL,
+    "webhookId"    TEXT NOT NULL,
+    "jobId"        TEXT NOT NULL,
+    "eventType"    TEXT,
+    "event"        JSONB NOT NULL,
+    "attemptsMade" INTEGER NOT NULL,
+    "failedReason" TEXT,
+    "queuedAt"     TIMESTAMP(3) NOT NULL,
+    "createdAt"    TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webhook_dead_letters_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "webhook_dead_letters_tenantId_createdAt_idx"
+    ON "webhook_dead_letters"("tenantId", "createdAt");
+CREATE INDEX IF NOT EXISTS "webhook_dead_letters_webhookId_idx" ON "webhook_dead_letters"("webhookId");
+
+ALTER TABLE "webhook_dead_letters"
+    ADD CONSTRAINT "webhook_dead_letters_webhookId_fkey"
+    FOREIGN KEY ("webhookId") REFERENCES "external_webhooks"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
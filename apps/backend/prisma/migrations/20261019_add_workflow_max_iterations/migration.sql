@@ -0,0 +1,2 @@
+-- Migration: per-workflow node budget for loop-heavy runs
+ALTER TABLE "workflows" ADD COLUMN IF NOT EXISTS "maxIterations" INTEGER;
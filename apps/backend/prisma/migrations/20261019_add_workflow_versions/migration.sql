@@ -0,0 +1,37 @@
+-- Migration: immutable workflow versions, draft/published split and per-execution version pin
+ALTER TABLE "workflows" ADD COLUMN IF NOT EXISTS "draftNodes" JSONB;
+ALTER TABLE "workflows" ADD COLUMN IF NOT EXISTS "draftEdges" JSONB;
+ALTER TABLE "workflows" ADD COLUMN IF NOT EXISTS "publishedVersion" INTEGER;
+
+ALTER TABLE "workflow_executions" ADD COLUMN IF NOT EXISTS "workflowVersion" INTEGER;
+
+CREATE TABLE IF NOT EXISTS "workflow_versions" (
+    "id"          TEXT NOT NULL,
+    "workflowId"  TEXT NOT NULL,
+    "version"     INTEGER NOT NULL,
+    "nodes"       JSONB NOT NULL,
+    "edges"       JSONB NOT NULL,
+    "note"        TEXT,
+    "createdById" TEXT,
+    "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_versions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "workflow_versions_workflowId_version_key"
+    ON "workflow_versions"("workflowId", "version");
+
+ALTER TABLE "workflow_versions"
+    ADD CONSTRAINT "workflow_versions_workflowId_fkey"
+    FOREIGN KEY ("workflowId") REFERENCES "workflows"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing workflows start with their current graph published as version 1
+INSERT INTO "workflow_versions" ("id", "workflowId", "version", "nodes", "edges", "note")
+SELECT 'wfv_' || md5("id" || random()::text), "id", 1, "nodes", "edges", 'Initial version'
+FROM "workflows"
+WHERE NOT EXISTS (
+    SELECT 1 FROM "workflow_versions" v WHERE v."workflowId" = "workflows"."id"
+);
+
+UPDATE "workflows" SET "publishedVersion" = 1 WHERE "publishedVersion" IS NULL;
@@ -0,0 +1,3 @@
+-- Migration: Add per-workflow HMAC secret for inbound webhook triggers
+ALTER TABLE "workflows"
+    ADD COLUMN IF NOT EXISTS "webhookSecret" TEXT;
@@ -1,9 +1,13 @@
 import { Controller, Get, Post, Delete, Patch, Body, Param, UseGuards, Request } from '@nestjs/common';
 import { ApiConfigsService } from './api-configs.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Audit } from '../audit/audit.decorator';
 
 @Controller('api-configs')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('settings:view')
 export class ApiConfigsController {
     constructor(private service: ApiConfigsService) {}
 
@@ -13,24 +17,28 @@ export class ApiConfigsController {
         return this.service.getAll(req.user.tenantId);
     }
 
-    /** Get config for a specific provider (with secret) — for internal use / testing */
+    /** Get config for a specific provider (secret omitted — it lives in the vault) */
     @Get(':provider')
     getByProvider(@Request() req: any, @Param('provider') provider: string) {
-        return this.service.getByProvider(req.user.tenantId, provider);
+        return this.service.getSummary(req.user.tenantId, provider);
     }
 
-    /** Create or update credentials for a provider */
+    /** Create or update credentials for a provider: a new secret or an existing credential */
     @Post(':provider')
+    @RequirePermissions('settings:edit')
+    @Audit('api_config.upsert', { param: 'provider' })
     upsert(
         @Request() req: any,
         @Param('provider') provider: string,
-        @Body() body: { appId: string; secret: string },
+        @Body() body: { appId: string; secret?: string; credentialId?: string },
     ) {
-        return this.service.upsert(req.user.tenantId, provider, body.appId, body.secret);
+        return this.service.upsert(req.user.tenantId, provider, body.appId, body.secret || '__keep__', body.credentialId);
     }
 
     /** Enable/disable a provider */
     @Patch(':provider/active')
+    @RequirePermissions('settings:edit')
+    @Audit('api_config.set_active', { param: 'provider' })
     setActive(
         @Request() req: any,
         @Param('provider') provider: string,
@@ -41,24 +49,29 @@ export class ApiConfigsController {
 
     /** Remove credentials for a provider */
     @Delete(':provider')
+    @RequirePermissions('settings:edit')
+    @Audit('api_config.delete', { param: 'provider' })
     delete(@Request() req: any, @Param('provider') provider: string) {
         return this.service.delete(req.user.tenantId, provider);
     }
 
     /** Proxy to fetch Pushcut notifications */
     @Get('pushcut/notifications')
+    @RequirePermissions('settings:view', 'workflows:edit')
     getPushcutNotifications(@Request() req: any) {
         return this.service.getPushcutNotifications(req.user.tenantId);
     }
 
     /** Proxy to fetch Pushcut devices */
     @Get('pushcut/devices')
+    @RequirePermissions('settings:view', 'workflows:edit')
     getPushcutDevices(@Request() req: any) {
         return this.service.getPushcutDevices(req.user.tenantId);
     }
 
     /** Proxy to fetch OpenRouter vision models */
     @Get('openrouter/models')
+    @RequirePermissions('settings:view', 'workflows:edit')
     getOpenRouterModels(@Request() req: any) {
         return this.service.getOpenRouterModels(req.user.tenantId);
     }
@@ -1,23 +1,48 @@
 import { Injectable } from '@nestjs/common';
+import { TenantApiConfig } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { VaultService, CREDENTIAL_TYPES, apiConfigOwner } from '../vault/vault.service';
+
+const API_CONFIG_SUMMARY = {
+    id: true,
+    provider: true,
+    appId: true,
+    credentialId: true,
+    isActive: true,
+    createdAt: true,
+    updatedAt: true,
+};
 
 @Injectable()
 export class ApiConfigsService {
-    constructor(private prisma: PrismaService) {}
+    constructor(
+        private prisma: PrismaService,
+        private vault: VaultService,
+    ) {}
 
     async getAll(tenantId: string) {
         return this.prisma.tenantApiConfig.findMany({
             where: { tenantId },
             orderBy: { provider: 'asc' },
-            select: { id: true, provider: true, appId: true, isActive: true, createdAt: true, updatedAt: true },
+            select: API_CONFIG_SUMMARY,
             // never return secret in list
         });
     }
 
-    async getByProvider(tenantId: string, provider: string) {
+    /** Config without its secret, for the settings UI */
+    async getSummary(tenantId: string, provider: string) {
         return this.prisma.tenantApiConfig.findUnique({
             where: { tenantId_provider: { tenantId, provider } },
+            select: API_CONFIG_SUMMARY,
+        });
+    }
+
+    /** Config with its secret decrypted from the vault — server-side use only */
+    async getByProvider(tenantId: string, provider: string) {
+        const config = await this.prisma.tenantApiConfig.findUnique({
+            where: { tenantId_provider: { tenantId, provider } },
         });
+        return this.withSecret(config);
     }
 
     async findByProviderFlexible(tenantId: string, provider: string) {
@@ -37,23 +62,37 @@ export class ApiConfigsService {
         });
 
         // Return the first active one, or just the first one
-        return configs.find(c => c.isActive) || configs[0] || null;
+        return this.withSecret(configs.find(c => c.isActive) || configs[0] || null);
     }
 
-    async upsert(tenantId: string, provider: string, appId: string, secret: string) {
-        const keepSecret = secret === '__keep__';
-        if (keepSecret) {
-            // Update only appId, keep existing secret
-            return this.prisma.tenantApiConfig.upsert({
-                where: { tenantId_provider: { tenantId, provider } },
-                update: { appId, isActive: true, updatedAt: new Date() },
-                create: { tenantId, provider, appId, secret: '' },
+    /**
+     * The secret goes to the vault: either a new value ('__keep__' keeps the
+     * current one) or an existing credential picked by id.
+     */
+    async upsert(tenantId: string, provider: string, appId: string, secret: string, credentialId?: string) {
+        const existing = await this.prisma.tenantApiConfig.findUnique({
+            where: { tenantId_provider: { tenantId, provider } },
+        });
+
+        let resolvedCredentialId = existing?.credentialId ?? null;
+        if (credentialId) {
+            await this.vault.assertOwned(tenantId, credentialId);
+            resolvedCredentialId = credentialId;
+        } else if (secret && secret !== '__keep__') {
+            resolvedCredentialId = await this.vault.store(tenantId, {
+                id: existing?.credentialId,
+                owner: apiConfigOwner(provider),
+                name: `API ${provider}`,
+                type: CREDENTIAL_TYPES.includes(provider) ? provider : 'generic',
+                value: secret,
             });
         }
+
         return this.prisma.tenantApiConfig.upsert({
             where: { tenantId_provider: { tenantId, provider } },
-            update: { appId, secret, isActive: true, updatedAt: new Date() },
-            create: { tenantId, provider, appId, secret },
+            update: { appId, credentialId: resolvedCredentialId, isActive: true, updatedAt: new Date() },
+            create: { tenantId, provider, appId, credentialId: resolvedCredentialId },
+            select: API_CONFIG_SUMMARY,
         });
     }
 
@@ -61,12 +100,15 @@ export class ApiConfigsService {
         return this.prisma.tenantApiConfig.update({
             where: { tenantId_provider: { tenantId, provider } },
             data: { isActive },
+            select: API_CONFIG_SUMMARY,
         });
     }
 
+    /** The credential stays in the vault; it can be removed from Credenciais */
     async delete(tenantId: string, provider: string) {
         return this.prisma.tenantApiConfig.delete({
             where: { tenantId_provider: { tenantId, provider } },
+            select: API_CONFIG_SUMMARY,
         });
     }
 
@@ -114,6 +156,12 @@ export class ApiConfigsService {
         }
     }
 
+    private async withSecret(config: TenantApiConfig | null) {
+        if (!config) return null;
+        const secret = config.credentialId ? await this.vault.resolve(config.tenantId, config.credentialId) : null;
+        return { ...config, secret: secret || '' };
+    }
+
     async getOpenRouterModels(tenantId: string) {
         // Models list from OpenRouter doesn't require an API Key to fetch.
         // We fetch public available list with price!
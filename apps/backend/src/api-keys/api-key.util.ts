@@ -0,0 +1,38 @@
+import { createHash, randomBytes } from 'crypto';
+import { ApiKeyScope } from '@n9n/shared';
+
+export const API_KEY_PREFIX = 'x1b_';
+
+const ALL_SCOPES = Object.values(ApiKeyScope);
+
+/** A new key: the full value is returned to the caller once, only its hash is stored */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+    const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 6), hash: hashApiKey(key) };
+}
+
+/** Keys are random 192-bit values, so a plain SHA-256 is enough to store them */
+export function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * API key sent with a request: the X-API-Key header, or a Bearer token that
+ * carries the key prefix (JWTs never do).
+ */
+export function extractApiKey(headers: Record<string, string | string[] | undefined>): string | null {
+    const header = headers['x-api-key'];
+    if (typeof header === 'string' && header.trim()) return header.trim();
+
+    const authorization = headers.authorization;
+    if (typeof authorization === 'string' && authorization.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+        return authorization.slice('Bearer '.length).trim();
+    }
+    return null;
+}
+
+/** Known scopes only, deduplicated, in catalogue order */
+export function normalizeScopes(values: unknown): ApiKeyScope[] {
+    const requested = new Set(Array.isArray(values) ? values.map((v) => String(v).trim()) : []);
+    return ALL_SCOPES.filter((scope) => requested.has(scope));
+}
@@ -0,0 +1,50 @@
+import { Controller, Get, Post, Put, Delete, Param, Body, UseGuards, Request } from '@nestjs/common';
+import { ApiKeysService, ApiKeyInput } from './api-keys.service';
+import { PUBLIC_API_DOCUMENT } from './public-api.openapi';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import { UserRole } from '../auth/types/roles.enum';
+import { Audit } from '../audit/audit.decorator';
+
+/** Keys act on the whole workspace, so only its admins manage them */
+@Controller('api-keys')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+export class ApiKeysController {
+    constructor(private readonly apiKeysService: ApiKeysService) { }
+
+    @Get()
+    async list(@Request() req: any) {
+        return this.apiKeysService.list(req.user.tenantId);
+    }
+
+    @Post()
+    @Audit('api_key.create')
+    async create(@Request() req: any, @Body() body: ApiKeyInput) {
+        return this.apiKeysService.create(req.user.tenantId, body, req.user.id);
+    }
+
+    @Put(':id')
+    @Audit('api_key.update')
+    async update(@Request() req: any, @Param('id') id: string, @Body() body: ApiKeyInput) {
+        return this.apiKeysService.update(req.user.tenantId, id, body);
+    }
+
+    @Delete(':id')
+    @Audit('api_key.revoke')
+    async revoke(@Request() req: any, @Param('id') id: string) {
+        return this.apiKeysService.revoke(req.user.tenantId, id);
+    }
+}
+
+@Controller('public-api')
+export class PublicApiController {
+    /** OpenAPI 3 description of the routes callable with an API key */
+    @Get('openapi.json')
+    @Public()
+    getOpenApiDocument() {
+        return PUBLIC_API_DOCUMENT;
+    }
+}
@@ -0,0 +1,11 @@
+import { Module, Global } from '@nestjs/common';
+import { ApiKeysController, PublicApiController } from './api-keys.controller';
+import { ApiKeysService } from './api-keys.service';
+
+@Global()
+@Module({
+    controllers: [ApiKeysController, PublicApiController],
+    providers: [ApiKeysService],
+    exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
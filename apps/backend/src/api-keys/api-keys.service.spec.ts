@@ -0,0 +1,107 @@
+import { BadRequestException, ForbiddenException, HttpException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ApiKeyScope } from '@n9n/shared';
+import { ApiKeysService } from './api-keys.service';
+import { hashApiKey } from './api-key.util';
+
+describe('ApiKeysService', () => {
+    let prisma: {
+        apiKey: { create: jest.Mock; findUnique: jest.Mock; findFirst: jest.Mock; update: jest.Mock };
+    };
+    let redisClient: { incr: jest.Mock; expire: jest.Mock };
+    let service: ApiKeysService;
+
+    const storedKey = (overrides: Record<string, any> = {}) => ({
+        id: 'key-1',
+        tenantId: 'tenant-1',
+        name: 'CRM',
+        scopes: [ApiKeyScope.MESSAGES_SEND],
+        rateLimitPerMinute: 2,
+        revokedAt: null,
+        lastUsedAt: null,
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        prisma = {
+            apiKey: {
+                create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'key-1', name: data.name })),
+                findUnique: jest.fn().mockResolvedValue(storedKey()),
+                findFirst: jest.fn().mockResolvedValue(storedKey()),
+                update: jest.fn().mockResolvedValue(storedKey()),
+            },
+        };
+        redisClient = { incr: jest.fn().mockResolvedValue(1), expire: jest.fn().mockResolvedValue(1) };
+        service = new ApiKeysService(prisma as any, { getClient: () => redisClient } as any);
+    });
+
+    describe('create', () => {
+        it('should store only the hash and return the key once', async () => {
+            const result = await service.create('tenant-1', { name: ' CRM ', scopes: ['messages:send', 'nope'] }, 'user-1');
+
+            const { data } = prisma.apiKey.create.mock.calls[0][0];
+            expect(data).toEqual(expect.objectContaining({
+                tenantId: 'tenant-1',
+                name: 'CRM',
+                scopes: [ApiKeyScope.MESSAGES_SEND],
+                rateLimitPerMinute: 60,
+                createdById: 'user-1',
+            }));
+            expect(data).not.toHaveProperty('key');
+            expect(data.keyHash).toBe(hashApiKey(result.key));
+            expect(result.key.startsWith(data.prefix)).toBe(true);
+        });
+
+        it('should reject keys without a name, a known scope or a sane rate limit', async () => {
+            await expect(service.create('tenant-1', { scopes: ['messages:send'] })).rejects.toThrow(BadRequestException);
+            await expect(service.create('tenant-1', { name: 'x', scopes: ['admin'] })).rejects.toThrow('at least one scope');
+            await expect(service.create('tenant-1', { name: 'x', scopes: ['messages:send'], rateLimitPerMinute: 0 }))
+                .rejects.toThrow('rateLimitPerMinute');
+        });
+    });
+
+    it('should not revoke keys of another tenant', async () => {
+        prisma.apiKey.findFirst.mockResolvedValue(null);
+
+        await expect(service.revoke('tenant-2', 'key-1')).rejects.toThrow(NotFoundException);
+        expect(prisma.apiKey.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'key-1', tenantId: 'tenant-2' } }));
+        expect(prisma.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    describe('authenticate', () => {
+        it('should resolve the key to a principal of its tenant', async () => {
+            const principal = await service.authenticate('x1b_secret', ApiKeyScope.MESSAGES_SEND, '1.2.3.4');
+
+            expect(prisma.apiKey.findUnique).toHaveBeenCalledWith({ where: { keyHash: hashApiKey('x1b_secret') } });
+            expect(principal).toEqual(expect.objectContaining({
+                id: null,
+                tenantId: 'tenant-1',
+                apiKey: { id: 'key-1', name: 'CRM', scopes: [ApiKeyScope.MESSAGES_SEND] },
+            }));
+            expect(prisma.apiKey.update).toHaveBeenCalledWith({
+                where: { id: 'key-1' },
+                data: { lastUsedAt: expect.any(Date), lastUsedIp: '1.2.3.4' },
+            });
+        });
+
+        it('should reject unknown and revoked keys', async () => {
+            prisma.apiKey.findUnique.mockResolvedValueOnce(null);
+            await expect(service.authenticate('x1b_bad', ApiKeyScope.MESSAGES_SEND)).rejects.toThrow(UnauthorizedException);
+
+            prisma.apiKey.findUnique.mockResolvedValueOnce(storedKey({ revokedAt: new Date() }));
+            await expect(service.authenticate('x1b_old', ApiKeyScope.MESSAGES_SEND)).rejects.toThrow(UnauthorizedException);
+        });
+
+        it('should reject routes outside the key scopes without counting the call', async () => {
+            await expect(service.authenticate('x1b_secret', ApiKeyScope.CONTACTS_MANAGE)).rejects.toThrow(ForbiddenException);
+            expect(redisClient.incr).not.toHaveBeenCalled();
+        });
+
+        it('should answer 429 once the per-minute limit is used up', async () => {
+            redisClient.incr.mockResolvedValue(3);
+
+            await expect(service.authenticate('x1b_secret', ApiKeyScope.MESSAGES_SEND)).rejects.toThrow(HttpException);
+            expect(redisClient.incr).toHaveBeenCalledWith(expect.stringMatching(/^apikey:rate:key-1:\d+$/));
+            expect(redisClient.expire).not.toHaveBeenCalled();
+        });
+    });
+});
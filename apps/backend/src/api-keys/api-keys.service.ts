@@ -0,0 +1,162 @@
+import {
+    Injectable,
+    NotFoundException,
+    BadRequestException,
+    UnauthorizedException,
+    ForbiddenException,
+    HttpException,
+    HttpStatus,
+} from '@nestjs/common';
+import { ApiKeyScope } from '@n9n/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { UserRole } from '../auth/types/roles.enum';
+import { generateApiKey, hashApiKey, normalizeScopes } from './api-key.util';
+
+export interface ApiKeyInput {
+    name?: string;
+    scopes?: string[];
+    rateLimitPerMinute?: number;
+}
+
+/** What request.user holds for calls made with an API key */
+export interface ApiKeyPrincipal {
+    id: null;
+    email: null;
+    tenantId: string;
+    role: UserRole;
+    customRoleId: null;
+    apiKey: { id: string; name: string; scopes: string[] };
+}
+
+// Never return the hash
+const API_KEY_SUMMARY = {
+    id: true,
+    name: true,
+    prefix: true,
+    scopes: true,
+    rateLimitPerMinute: true,
+    lastUsedAt: true,
+    lastUsedIp: true,
+    revokedAt: true,
+    createdAt: true,
+};
+
+const MAX_RATE_LIMIT = 600;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Tenant-issued keys for the public REST API. Keys are stored as hashes,
+ * limited to their scopes and rate-limited per minute in Redis.
+ */
+@Injectable()
+export class ApiKeysService {
+    constructor(
+        private prisma: PrismaService,
+        private redis: RedisService,
+    ) { }
+
+    async list(tenantId: string) {
+        return this.prisma.apiKey.findMany({
+            where: { tenantId },
+            select: API_KEY_SUMMARY,
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /** The only response that contains the full key */
+    async create(tenantId: string, input: ApiKeyInput, createdById?: string) {
+        const data = this.validateKey(input);
+        const { key, prefix, hash } = generateApiKey();
+        const apiKey = await this.prisma.apiKey.create({
+            data: { tenantId, ...data, prefix, keyHash: hash, createdById: createdById ?? null },
+            select: API_KEY_SUMMARY,
+        });
+        return { ...apiKey, key };
+    }
+
+    async update(tenantId: string, id: string, input: ApiKeyInput) {
+        await this.getKey(tenantId, id);
+        return this.prisma.apiKey.update({
+            where: { id },
+            data: this.validateKey(input),
+            select: API_KEY_SUMMARY,
+        });
+    }
+
+    /** Revoked keys stay listed so their usage remains traceable */
+    async revoke(tenantId: string, id: string) {
+        const apiKey = await this.getKey(tenantId, id);
+        if (apiKey.revokedAt) return apiKey;
+        return this.prisma.apiKey.update({
+            where: { id },
+            data: { revokedAt: new Date() },
+            select: API_KEY_SUMMARY,
+        });
+    }
+
+    /**
+     * Resolve a key for a route that requires `scope`, counting the call
+     * against the key's per-minute limit.
+     */
+    async authenticate(rawKey: string, scope: ApiKeyScope, ip?: string): Promise<ApiKeyPrincipal> {
+        const apiKey = await this.prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(rawKey) } });
+        if (!apiKey || apiKey.revokedAt) {
+            throw new UnauthorizedException('Invalid API key');
+        }
+        if (!apiKey.scopes.includes(scope)) {
+            throw new ForbiddenException(`API key is missing the "${scope}" scope`);
+        }
+
+        await this.consumeRateLimit(apiKey.id, apiKey.rateLimitPerMinute);
+
+        if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+            this.prisma.apiKey.update({
+                where: { id: apiKey.id },
+                data: { lastUsedAt: new Date(), lastUsedIp: ip ?? null },
+            }).catch((error) => console.warn(`[API KEYS] Failed to record usage of ${apiKey.id}: ${error.message}`));
+        }
+
+        return {
+            id: null,
+            email: null,
+            tenantId: apiKey.tenantId,
+            role: UserRole.USER,
+            customRoleId: null,
+            apiKey: { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes },
+        };
+    }
+
+    /** Fixed one-minute windows shared by every replica */
+    private async consumeRateLimit(id: string, limit: number) {
+        const client = this.redis.getClient();
+        const key = `apikey:rate:${id}:${Math.floor(Date.now() / 60000)}`;
+        const count = await client.incr(key);
+        if (count === 1) await client.expire(key, 60);
+
+        if (count > limit) {
+            throw new HttpException('API key rate limit exceeded', HttpStatus.TOO_MANY_REQUESTS);
+        }
+    }
+
+    private async getKey(tenantId: string, id: string) {
+        const apiKey = await this.prisma.apiKey.findFirst({ where: { id, tenantId }, select: API_KEY_SUMMARY });
+        if (!apiKey) throw new NotFoundException('API key not found');
+        return apiKey;
+    }
+
+    private validateKey(input: ApiKeyInput) {
+        const name = input.name?.trim();
+        if (!name) throw new BadRequestException('name is required');
+
+        const scopes = normalizeScopes(input.scopes);
+        if (!scopes.length) throw new BadRequestException('Select at least one scope');
+
+        const rateLimitPerMinute = input.rateLimitPerMinute === undefined ? 60 : Number(input.rateLimitPerMinute);
+        if (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1 || rateLimitPerMinute > MAX_RATE_LIMIT) {
+            throw new BadRequestException(`rateLimitPerMinute must be between 1 and ${MAX_RATE_LIMIT}`);
+        }
+
+        return { name, scopes, rateLimitPerMinute };
+    }
+}
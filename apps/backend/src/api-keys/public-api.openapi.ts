@@ -0,0 +1,205 @@
+import { ApiKeyScope, ExecutionStatus } from '@n9n/shared';
+
+const errorResponses = {
+    401: { description: 'Missing, invalid or revoked API key' },
+    403: { description: 'The API key lacks the scope of this route' },
+    404: { description: 'Not found in the key\'s workspace' },
+    429: { description: 'Per-key rate limit exceeded; retry in the next minute' },
+};
+
+const idParam = (name: string, description: string) => ({
+    name,
+    in: 'path',
+    required: true,
+    description,
+    schema: { type: 'string' },
+});
+
+const operation = (scope: ApiKeyScope, spec: Record<string, any>) => ({
+    ...spec,
+    'x-scope': scope,
+    description: `${spec.description ? `${spec.description}\n\n` : ''}Requires the \`${scope}\` scope.`,
+    responses: { ...spec.responses, ...errorResponses },
+});
+
+const jsonBody = (schema: Record<string, any>) => ({
+    required: true,
+    content: { 'application/json': { schema } },
+});
+
+const jsonResponse = (description: string, schema: Record<string, any> = { type: 'object' }) => ({
+    description,
+    content: { 'application/json': { schema } },
+});
+
+/**
+ * Routes callable with a tenant API key. Keep in sync with the
+ * @AllowApiKey decorators on the controllers.
+ */
+export const PUBLIC_API_DOCUMENT = {
+    openapi: '3.0.3',
+    info: {
+        title: 'x1bot Public API',
+        version: '1.0.0',
+        description: 'Send WhatsApp messages, trigger workflows, read executions and manage contacts with '
+            + 'a workspace API key. Create keys under Settings > API keys; each key only reaches the '
+            + 'routes of its scopes and is rate-limited per minute.',
+    },
+    servers: [{ url: '/api' }],
+    security: [{ ApiKeyHeader: [] }, { BearerApiKey: [] }],
+    components: {
+        securitySchemes: {
+            ApiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+            BearerApiKey: { type: 'http', scheme: 'bearer', description: 'The API key (x1b_...) as a Bearer token' },
+        },
+        schemas: {
+            Success: { type: 'object', properties: { success: { type: 'boolean' } } },
+            Contact: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string' },
+                    phone: { type: 'string' },
+                    name: { type: 'string', nullable: true },
+                    fields: { type: 'object', additionalProperties: true },
+                    updatedAt: { type: 'string', format: 'date-time' },
+                },
+            },
+            Execution: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string' },
+                    workflowId: { type: 'string' },
+                    sessionId: { type: 'string' },
+                    contactPhone: { type: 'string' },
+                    status: { type: 'string', enum: Object.values(ExecutionStatus) },
+                    currentNodeId: { type: 'string', nullable: true },
+                    startedAt: { type: 'string', format: 'date-time' },
+                    updatedAt: { type: 'string', format: 'date-time' },
+                    completedAt: { type: 'string', format: 'date-time', nullable: true },
+                    error: { type: 'string', nullable: true },
+                },
+            },
+        },
+    },
+    paths: {
+        '/whatsapp/sessions/{id}/send': {
+            post: operation(ApiKeyScope.MESSAGES_SEND, {
+                summary: 'Send a text message',
+                parameters: [idParam('id', 'WhatsApp session id')],
+                requestBody: jsonBody({
+                    type: 'object',
+                    required: ['contactPhone', 'message'],
+                    properties: {
+                        contactPhone: { type: 'string', example: '5511999999999' },
+                        message: { type: 'string' },
+                    },
+                }),
+                responses: { 201: jsonResponse('Message sent', { $ref: '#/components/schemas/Success' }) },
+            }),
+        },
+        '/whatsapp/sessions/{id}/send-media': {
+            post: operation(ApiKeyScope.MESSAGES_SEND, {
+                summary: 'Send an image, video, audio or document',
+                parameters: [idParam('id', 'WhatsApp session id')],
+                requestBody: jsonBody({
+                    type: 'object',
+                    required: ['contactPhone', 'mediaType', 'mediaUrl'],
+                    properties: {
+                        contactPhone: { type: 'string' },
+                        mediaType: { type: 'string', enum: ['image', 'video', 'audio', 'document'] },
+                        mediaUrl: { type: 'string', format: 'uri' },
+                        caption: { type: 'string' },
+                        fileName: { type: 'string' },
+                        sendAudioAsVoice: { type: 'boolean' },
+                    },
+                }),
+                responses: { 201: jsonResponse('Media sent', { $ref: '#/components/schemas/Success' }) },
+            }),
+        },
+        '/workflows/{id}/trigger-manual': {
+            post: operation(ApiKeyScope.WORKFLOWS_TRIGGER, {
+                summary: 'Run a workflow from a manual trigger node',
+                description: 'The node\'s own configuration decides the session and destination.',
+                parameters: [idParam('id', 'Workflow id')],
+                requestBody: jsonBody({
+                    type: 'object',
+                    required: ['nodeId'],
+                    properties: { nodeId: { type: 'string', description: 'TRIGGER_MANUAL or LOOP node id' } },
+                }),
+                responses: { 201: jsonResponse('Execution started', { $ref: '#/components/schemas/Execution' }) },
+            }),
+        },
+        '/workflows/{workflowId}/executions': {
+            get: operation(ApiKeyScope.EXECUTIONS_READ, {
+                summary: 'List the executions of a workflow',
+                parameters: [idParam('workflowId', 'Workflow id')],
+                responses: {
+                    200: jsonResponse('Executions, newest first', {
+                        type: 'array',
+                        items: { $ref: '#/components/schemas/Execution' },
+                    }),
+                },
+            }),
+        },
+        '/executions/{id}': {
+            get: operation(ApiKeyScope.EXECUTIONS_READ, {
+                summary: 'Get an execution',
+                parameters: [idParam('id', 'Execution id')],
+                responses: { 200: jsonResponse('Execution', { $ref: '#/components/schemas/Execution' }) },
+            }),
+        },
+        '/executions/{id}/logs': {
+            get: operation(ApiKeyScope.EXECUTIONS_READ, {
+                summary: 'Get the event log of an execution',
+                parameters: [idParam('id', 'Execution id')],
+                responses: { 200: jsonResponse('Execution events', { type: 'array', items: { type: 'object' } }) },
+            }),
+        },
+        '/contacts': {
+            get: operation(ApiKeyScope.CONTACTS_MANAGE, {
+                summary: 'List contacts',
+                parameters: [
+                    { name: 'search', in: 'query', schema: { type: 'string' }, description: 'Name or phone' },
+                    { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+                    { name: 'limit', in: 'query', schema: { type: 'integer', default: 50, maximum: 100 } },
+                ],
+                responses: {
+                    200: jsonResponse('A page of contacts', {
+                        type: 'object',
+                        properties: {
+                            data: { type: 'array', items: { $ref: '#/components/schemas/Contact' } },
+                            meta: {
+                                type: 'object',
+                                properties: {
+                                    total: { type: 'integer' },
+                                    page: { type: 'integer' },
+                                    limit: { type: 'integer' },
+                                    totalPages: { type: 'integer' },
+                                },
+                            },
+                        },
+                    }),
+                },
+            }),
+        },
+        '/contacts/{id}': {
+            get: operation(ApiKeyScope.CONTACTS_MANAGE, {
+                summary: 'Get a contact with its conversations, tags and lists',
+                parameters: [idParam('id', 'Contact id')],
+                responses: { 200: jsonResponse('Contact', { $ref: '#/components/schemas/Contact' }) },
+            }),
+            patch: operation(ApiKeyScope.CONTACTS_MANAGE, {
+                summary: 'Update a contact\'s name or custom fields',
+                parameters: [idParam('id', 'Contact id')],
+                requestBody: jsonBody({
+                    type: 'object',
+                    properties: {
+                        name: { type: 'string', nullable: true },
+                        fields: { type: 'object', additionalProperties: true, description: 'Values by custom field key' },
+                    },
+                }),
+                responses: { 200: jsonResponse('Updated contact', { $ref: '#/components/schemas/Contact' }) },
+            }),
+        },
+    },
+};
@@ -19,6 +19,14 @@ import { LeadsModule } from './leads/leads.module';
 import { ApiConfigsModule } from './api-configs/api-configs.module';
 import { CampaignsModule } from './campaigns/campaigns.module';
 import { ProductsModule } from './products/products.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { CommandPolicyModule } from './command-policy/command-policy.module';
+import { PollModule } from './poll/poll.module';
+import { ContactsModule } from './contacts/contacts.module';
+import { VaultModule } from './vault/vault.module';
+import { RolesModule } from './roles/roles.module';
+import { AuditModule } from './audit/audit.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
 import { BullModule } from '@nestjs/bullmq';
 import { SecurityModule } from './security/security.module';
 
@@ -47,6 +55,14 @@ import { SecurityModule } from './security/security.module';
     ApiConfigsModule,
     CampaignsModule,
     ProductsModule,
+    WebhooksModule,
+    CommandPolicyModule,
+    PollModule,
+    ContactsModule,
+    VaultModule,
+    RolesModule,
+    AuditModule,
+    ApiKeysModule,
     BullModule.forRootAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
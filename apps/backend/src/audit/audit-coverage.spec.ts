@@ -0,0 +1,97 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join, relative } from 'path';
+import * as ts from 'typescript';
+
+// Mutating routes that change nothing worth auditing, or that run before there is a user to attribute
+const NOT_AUDITED = new Set([
+    // Sessions of the caller, not tenant data
+    'AuthController.register',
+    'AuthController.login',
+    'AuthController.refresh',
+    'AuthController.logout',
+    'PushController.subscribe',
+    'PushController.unsubscribe',
+    // Computations and dry runs that store nothing
+    'WebhooksController.sendTest',
+    'WorkflowController.validateWorkflow',
+    'WorkflowController.previewSchedule',
+    'WorkflowController.testNodeFromContext',
+    'WorkflowController.executeGroupTest',
+    'InboxController.expandResponse',
+    // Executions, recorded in their own history
+    'WorkflowController.triggerManualExecution',
+    'WorkflowHooksController.triggerWebhook',
+    // Refreshes of data mirrored from WhatsApp or caches
+    'WorkflowController.reconnectSession',
+    'WorkflowController.syncGroups',
+    'CampaignsController.syncGroups',
+    'CampaignsController.triggerListHealthCalculation',
+    'InboxController.markAsRead',
+    'InboxController.syncProfile',
+    'MlOffersController.refresh',
+    'ProductsController.clearCache',
+]);
+
+const MUTATING = new Set(['Post', 'Put', 'Patch', 'Delete']);
+
+interface Route {
+    name: string;
+    file: string;
+    audited: boolean;
+}
+
+const decoratorName = (decorator: ts.Decorator): string | undefined => {
+    const expression = ts.isCallExpression(decorator.expression) ? decorator.expression.expression : decorator.expression;
+    return ts.isIdentifier(expression) ? expression.text : undefined;
+};
+
+const decoratorNames = (node: ts.Node): string[] =>
+    (ts.canHaveDecorators(node) ? ts.getDecorators(node) || [] : []).map(decoratorName).filter((n): n is string => !!n);
+
+const controllerFiles = (dir: string): string[] =>
+    readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) return controllerFiles(path);
+        return entry.name.endsWith('.controller.ts') ? [path] : [];
+    });
+
+// Read from the source so every controller is checked without booting its module
+const mutatingRoutes = (file: string): Route[] => {
+    const source = ts.createSourceFile(file, readFileSync(file, 'utf8'), ts.ScriptTarget.Latest, true);
+    const routes: Route[] = [];
+
+    source.statements.filter(ts.isClassDeclaration).forEach((controller) => {
+        if (!controller.name || !decoratorNames(controller).includes('Controller')) return;
+
+        controller.members.filter(ts.isMethodDeclaration).forEach((method) => {
+            const decorators = decoratorNames(method);
+            if (!decorators.some((d) => MUTATING.has(d))) return;
+
+            routes.push({
+                name: `${controller.name!.text}.${method.name.getText(source)}`,
+                file: relative(join(__dirname, '..'), file),
+                audited: decorators.includes('Audit'),
+            });
+        });
+    });
+
+    return routes;
+};
+
+describe('Audit coverage', () => {
+    const routes = controllerFiles(join(__dirname, '..')).flatMap(mutatingRoutes);
+
+    it('should find the mutating routes of every controller', () => {
+        expect(routes.length).toBeGreaterThan(100);
+        expect(routes.map((r) => r.file)).toEqual(expect.arrayContaining(['tenant/tenant.controller.ts', 'leads/leads.controller.ts']));
+    });
+
+    it('should only opt out routes that exist', () => {
+        const names = new Set(routes.map((r) => r.name));
+        expect(Array.from(NOT_AUDITED).filter((name) => !names.has(name))).toEqual([]);
+    });
+
+    it.each(routes.filter((r) => !NOT_AUDITED.has(r.name)).map((r) => [r.name, r]))('%s should carry @Audit', (_name, route) => {
+        expect(route).toEqual(expect.objectContaining({ audited: true }));
+    });
+});
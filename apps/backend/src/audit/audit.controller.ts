@@ -0,0 +1,40 @@
+import { Controller, Get, Query, UseGuards, Request, Header } from '@nestjs/common';
+import { AuditService, AuditLogFilters } from './audit.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../auth/types/roles.enum';
+
+@Controller('audit-logs')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+export class AuditController {
+    constructor(private readonly auditService: AuditService) { }
+
+    @Get()
+    async list(
+        @Request() req: any,
+        @Query() filters: AuditLogFilters,
+        @Query('page') page: string = '1',
+        @Query('limit') limit: string = '50',
+    ) {
+        return this.auditService.list(
+            req.user.tenantId,
+            filters,
+            Math.max(1, Number(page) || 1),
+            Math.min(200, Math.max(1, Number(limit) || 50)),
+        );
+    }
+
+    @Get('facets')
+    async facets(@Request() req: any) {
+        return this.auditService.facets(req.user.tenantId);
+    }
+
+    @Get('export')
+    @Header('Content-Type', 'text/csv; charset=utf-8')
+    @Header('Content-Disposition', 'attachment; filename="audit-log.csv"')
+    async export(@Request() req: any, @Query() filters: AuditLogFilters) {
+        return this.auditService.exportCsv(req.user.tenantId, filters);
+    }
+}
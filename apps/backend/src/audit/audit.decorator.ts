@@ -0,0 +1,21 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const AUDIT_KEY = 'audit';
+
+export interface AuditOptions {
+    /** Route param holding the resource id (default "id") */
+    param?: string;
+    /** Body field holding the resource id, for routes without one in the path */
+    body?: string;
+    /** Take the id from the handler result, for routes that copy the resource in the path */
+    resultId?: boolean;
+}
+
+export interface AuditMetadata extends AuditOptions {
+    action: string;
+    resource: string;
+}
+
+/** Record successful calls to this route in the tenant audit log; action is "<resource>.<verb>" */
+export const Audit = (action: string, options: AuditOptions = {}) =>
+    SetMetadata(AUDIT_KEY, { action, resource: action.split('.')[0], ...options } as AuditMetadata);
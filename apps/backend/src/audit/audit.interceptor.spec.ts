@@ -0,0 +1,142 @@
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { AuditInterceptor } from './audit.interceptor';
+import { Audit } from './audit.decorator';
+import { UserRole } from '../auth/types/roles.enum';
+
+class WorkflowsController {
+    @Audit('workflow.update')
+    update() { return null; }
+
+    @Audit('workflow.create')
+    create() { return null; }
+
+    @Audit('workflow.duplicate', { resultId: true })
+    duplicate() { return null; }
+
+    @Audit('api_config.upsert', { param: 'provider' })
+    upsertConfig() { return null; }
+
+    list() { return []; }
+}
+
+describe('AuditInterceptor', () => {
+    let auditService: { snapshot: jest.Mock; hasSnapshot: jest.Mock; record: jest.Mock };
+    let interceptor: AuditInterceptor;
+
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    const request = (overrides: Record<string, any> = {}) => ({
+        user: { id: 'u1', email: 'ana@example.com', tenantId: 't1', role: UserRole.ADMIN },
+        params: { id: 'w1' },
+        query: {},
+        body: {},
+        method: 'PUT',
+        originalUrl: '/api/workflows/w1?tenantId=t1',
+        ip: '10.0.0.1',
+        headers: { 'user-agent': 'jest' },
+        ...overrides,
+    });
+
+    const run = (handler: keyof WorkflowsController, req: any, result: any = { id: 'w1' }) =>
+        lastValueFrom(interceptor.intercept({
+            getType: () => 'http',
+            getHandler: () => WorkflowsController.prototype[handler],
+            switchToHttp: () => ({ getRequest: () => req }),
+        } as any, { handle: () => (result instanceof Error ? throwError(() => result) : of(result)) }));
+
+    beforeEach(() => {
+        auditService = {
+            snapshot: jest.fn()
+                .mockResolvedValueOnce({ name: 'Old', isActive: true })
+                .mockResolvedValueOnce({ name: 'New', isActive: true }),
+            hasSnapshot: jest.fn((resource: string) => resource === 'workflow'),
+            record: jest.fn().mockResolvedValue(undefined),
+        };
+        interceptor = new AuditInterceptor(new Reflector(), auditService as any);
+    });
+
+    it('should record the snapshot before and after a successful change', async () => {
+        await run('update', request());
+        await flush();
+
+        expect(auditService.snapshot).toHaveBeenNthCalledWith(1, 'workflow', 't1', 'w1');
+        expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+            tenantId: 't1',
+            userId: 'u1',
+            action: 'workflow.update',
+            resource: 'workflow',
+            resourceId: 'w1',
+            before: { name: 'Old', isActive: true },
+            after: { name: 'New', isActive: true },
+            method: 'PUT',
+            path: '/api/workflows/w1',
+        }));
+    });
+
+    it('should skip saves that change no audited field', async () => {
+        auditService.snapshot.mockReset().mockResolvedValue({ name: 'Same' });
+
+        await run('update', request());
+        await flush();
+
+        expect(auditService.record).not.toHaveBeenCalled();
+    });
+
+    it('should take the id of created resources from the response', async () => {
+        auditService.snapshot.mockReset().mockResolvedValueOnce(null).mockResolvedValueOnce({ name: 'New' });
+
+        await run('create', request({ params: {}, method: 'POST' }), { id: 'w2' });
+        await flush();
+
+        expect(auditService.snapshot).toHaveBeenLastCalledWith('workflow', 't1', 'w2');
+        expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({ resourceId: 'w2', before: null }));
+    });
+
+    it('should record copies under the id of the copy, not the source in the path', async () => {
+        auditService.snapshot.mockReset().mockResolvedValueOnce(null).mockResolvedValueOnce({ name: 'Old (cópia)' });
+
+        await run('duplicate', request({ method: 'POST' }), { id: 'w2' });
+        await flush();
+
+        expect(auditService.snapshot).toHaveBeenNthCalledWith(1, 'workflow', 't1', undefined);
+        expect(auditService.snapshot).toHaveBeenLastCalledWith('workflow', 't1', 'w2');
+        expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+            action: 'workflow.duplicate',
+            resourceId: 'w2',
+            before: null,
+            after: { name: 'Old (cópia)' },
+        }));
+    });
+
+    it('should keep the redacted body of resources without a snapshot', async () => {
+        auditService.snapshot.mockReset().mockResolvedValue(null);
+
+        await run('upsertConfig', request({ params: { provider: 'shopee' }, body: { appId: '123', secret: 'plain' } }));
+        await flush();
+
+        expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+            resourceId: 'shopee',
+            after: { appId: '123', secret: '[REDACTED]' },
+        }));
+    });
+
+    it('should log SUPER_ADMIN changes in the tenant they target', async () => {
+        await run('update', request({
+            user: { id: 'root', tenantId: 't-admin', role: UserRole.SUPER_ADMIN },
+            query: { tenantId: 't1' },
+        }));
+        await flush();
+
+        expect(auditService.snapshot).toHaveBeenNthCalledWith(1, 'workflow', 't1', 'w1');
+        expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({ tenantId: 't1', userId: 'root' }));
+    });
+
+    it('should record nothing when the handler fails or the route is not audited', async () => {
+        await expect(run('update', request(), new Error('boom'))).rejects.toThrow('boom');
+        await run('list', request({ method: 'GET' }), []);
+        await flush();
+
+        expect(auditService.record).not.toHaveBeenCalled();
+    });
+});
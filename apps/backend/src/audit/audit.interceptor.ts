@@ -0,0 +1,88 @@
+import {
+    Injectable,
+    NestInterceptor,
+    ExecutionContext,
+    CallHandler,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, from } from 'rxjs';
+import { switchMap, tap } from 'rxjs/operators';
+import { AuditService } from './audit.service';
+import { AUDIT_KEY, AuditMetadata } from './audit.decorator';
+import { redactAuditValue, diffSnapshots } from './audit.util';
+import { resolveRequestTenant } from '../auth/decorators/tenant.decorator';
+
+/**
+ * Writes an audit entry for routes marked with @Audit once they succeed.
+ * The resource is read before the handler runs and again afterwards so the
+ * entry carries what changed; resources without a snapshot keep the
+ * (redacted) request body instead.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly auditService: AuditService,
+    ) { }
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+        const meta = this.reflector.get<AuditMetadata>(AUDIT_KEY, context.getHandler());
+        if (!meta || context.getType() !== 'http') return next.handle();
+
+        const request = context.switchToHttp().getRequest();
+        // SUPER_ADMIN changes made with ?tenantId land in that tenant's log
+        const tenantId = resolveRequestTenant(request);
+        if (!tenantId) return next.handle();
+
+        const rawId = meta.resultId
+            ? undefined
+            : meta.body ? request.body?.[meta.body] : request.params?.[meta.param || 'id'];
+        const id = typeof rawId === 'string' && rawId ? rawId : undefined;
+
+        const before = this.auditService.snapshot(meta.resource, tenantId, id).catch(() => null);
+        return from(before).pipe(
+            switchMap((snapshot) => next.handle().pipe(
+                tap((result) => {
+                    void this.recordAfter(meta, request, tenantId, id, snapshot, result);
+                }),
+            )),
+        );
+    }
+
+    private async recordAfter(
+        meta: AuditMetadata,
+        request: any,
+        tenantId: string,
+        id: string | undefined,
+        before: Record<string, unknown> | null,
+        result: any,
+    ): Promise<void> {
+        // Create routes only know the id once the handler returns it
+        const resourceId = id ?? (typeof result?.id === 'string' ? result.id : undefined);
+
+        let after: Record<string, unknown> | null = null;
+        if (this.auditService.hasSnapshot(meta.resource)) {
+            after = await this.auditService.snapshot(meta.resource, tenantId, resourceId).catch(() => null);
+            // Saves that leave every audited field as it was (e.g. graph-only workflow edits) are not recorded
+            if (before && after && !diffSnapshots(before, after)) return;
+        } else if (request.body && typeof request.body === 'object' && Object.keys(request.body).length) {
+            after = redactAuditValue(request.body) as Record<string, unknown>;
+        }
+
+        await this.auditService.record({
+            tenantId,
+            userId: request.user?.id ?? null,
+            userEmail: request.user?.email ?? null,
+            action: meta.action,
+            resource: meta.resource,
+            resourceId: resourceId ?? null,
+            before,
+            after,
+            ip: request.ip ?? null,
+            userAgent: request.headers?.['user-agent'] ?? null,
+            requestId: request.id ?? null,
+            method: request.method,
+            path: (request.originalUrl || request.url || '').split('?')[0],
+        });
+    }
+}
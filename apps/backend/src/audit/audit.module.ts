@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { AuditController } from './audit.controller';
+import { AuditService } from './audit.service';
+import { AuditInterceptor } from './audit.interceptor';
+
+@Module({
+    controllers: [AuditController],
+    providers: [
+        AuditService,
+        { provide: APP_INTERCEPTOR, useClass: AuditInterceptor },
+    ],
+    exports: [AuditService],
+})
+export class AuditModule {}
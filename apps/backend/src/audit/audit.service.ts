@@ -0,0 +1,257 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { diffSnapshots, toCsv } from './audit.util';
+
+type Snapshot = Record<string, unknown> | null;
+
+export interface AuditEntry {
+    tenantId: string;
+    userId?: string | null;
+    userEmail?: string | null;
+    action: string;
+    resource: string;
+    resourceId?: string | null;
+    before?: Snapshot;
+    after?: Snapshot;
+    ip?: string | null;
+    userAgent?: string | null;
+    requestId?: string | null;
+    method: string;
+    path: string;
+}
+
+export interface AuditLogFilters {
+    resource?: string;
+    action?: string;
+    userId?: string;
+    resourceId?: string;
+    from?: string;
+    to?: string;
+}
+
+const EXPORT_COLUMNS = [
+    'createdAt', 'userEmail', 'userId', 'action', 'resource', 'resourceId',
+    'changes', 'ip', 'requestId', 'method', 'path',
+];
+
+const EXPORT_LIMIT = 10000;
+
+@Injectable()
+export class AuditService {
+    /**
+     * Audited fields of each resource, read before and after the route runs.
+     * Secrets (credential values, webhook secrets, API key hashes) are never
+     * selected.
+     */
+    private readonly snapshots: Record<string, (tenantId: string, id?: string) => Promise<Snapshot> | null> = {
+        workflow: (tenantId, id) => id ? this.prisma.workflow.findFirst({
+            where: { id, tenantId },
+            select: { name: true, description: true, isActive: true, publishedVersion: true, maxIterations: true },
+        }) : null,
+        campaign: (tenantId, id) => id ? this.prisma.campaign.findFirst({
+            where: { id, tenantId },
+            select: {
+                name: true, status: true, scheduledAt: true, limitPerSession: true, limitType: true,
+                delayMin: true, delayMax: true, maxPerHour: true, maxPerMinute: true, errorThreshold: true,
+                randomOrder: true, excludeBlocked: true, allowedDays: true, workflowId: true,
+            },
+        }) : null,
+        campaign_settings: (tenantId) => this.prisma.campaignSettings.findUnique({
+            where: { tenantId },
+            select: {
+                autoBlacklistOptOut: true, autoBlacklistBadNumbers: true, exposureLimitsEnabled: true,
+                reputationQuarantineEnabled: true, sessionHealthFilterEnabled: true, timingOptimizationEnabled: true,
+            },
+        }),
+        blacklist: (tenantId, phone) => phone ? this.prisma.campaignBlacklist.findFirst({
+            where: { tenantId, phone },
+            select: { phone: true, reason: true },
+        }) : null,
+        emergency: (tenantId) => this.prisma.tenant.findUnique({
+            where: { id: tenantId },
+            select: {
+                emergencyMode: true, emergencyReason: true, emergencyExpiresAt: true, emergencyCapacity: true,
+            },
+        }),
+        session: (tenantId, id) => id ? this.prisma.whatsappSession.findFirst({
+            where: { id, tenantId },
+            select: { name: true, warmupOverride: true, warmupOverriddenBy: true, callPolicy: true, callRejectMessage: true },
+        }) : null,
+        credential: (tenantId, id) => id ? this.prisma.credential.findFirst({
+            where: { id, tenantId },
+            select: { name: true, type: true, hint: true, keyId: true },
+        }) : null,
+        role: (tenantId, id) => id ? this.prisma.customRole.findFirst({
+            where: { id, tenantId },
+            select: { name: true, description: true, permissions: true },
+        }) : null,
+        member: (tenantId, id) => id ? this.prisma.user.findFirst({
+            where: { id, tenantId },
+            select: { email: true, name: true, role: true, customRoleId: true, isActive: true },
+        }) : null,
+        api_key: (tenantId, id) => id ? this.prisma.apiKey.findFirst({
+            where: { id, tenantId },
+            select: { name: true, prefix: true, scopes: true, rateLimitPerMinute: true, revokedAt: true },
+        }) : null,
+        webhook: (tenantId, id) => id ? this.prisma.externalWebhook.findFirst({
+            where: { id, tenantId },
+            select: { sessionId: true, url: true, events: true, isActive: true },
+        }) : null,
+        command_policy: (tenantId) => this.prisma.commandPolicy.findUnique({
+            where: { tenantId },
+            select: { enabled: true, allowedBinaries: true },
+        }),
+        contact: (tenantId, id) => id ? this.prisma.contact.findFirst({
+            where: { id, tenantId },
+            select: { phone: true, name: true, fields: true },
+        }) : null,
+        contact_field: (tenantId, id) => id ? this.prisma.contactField.findFirst({
+            where: { id, tenantId },
+            select: { key: true, label: true, type: true, options: true, order: true },
+        }) : null,
+        saved_response: (tenantId, id) => id ? this.prisma.savedResponse.findFirst({
+            where: { id, tenantId },
+            select: { shortcut: true, title: true, content: true, mediaFileId: true },
+        }) : null,
+        // The access token itself lives in the vault; its hint and rotation time show that it changed
+        pixel: async (tenantId, id) => {
+            if (!id) return null;
+            const pixel = await this.prisma.tenantPixelConfig.findFirst({
+                where: { id, tenantId },
+                select: {
+                    name: true, pixelId: true, testEventCode: true, autoSendLead: true,
+                    includeState: true, isDefault: true, credentialId: true,
+                },
+            });
+            if (!pixel?.credentialId) return pixel;
+            const credential = await this.prisma.credential.findFirst({
+                where: { id: pixel.credentialId, tenantId },
+                select: { hint: true, updatedAt: true },
+            });
+            return { ...pixel, accessTokenHint: credential?.hint ?? null, accessTokenUpdatedAt: credential?.updatedAt ?? null };
+        },
+        // Managed by SUPER_ADMIN across tenants, so looked up by id alone
+        tenant: (_tenantId, id) => id ? this.prisma.tenant.findUnique({
+            where: { id },
+            select: { name: true, email: true, isActive: true },
+        }) : null,
+        conversation: (tenantId, id) => id ? this.prisma.conversation.findFirst({
+            where: { id, tenantId },
+            select: { status: true, assignedToId: true, handoffQueue: true, handoffAt: true },
+        }) : null,
+        tag: (tenantId, id) => id ? this.prisma.tag.findFirst({
+            where: { id, tenantId },
+            select: { name: true, color: true, description: true },
+        }) : null,
+        contact_list: (tenantId, id) => id ? this.prisma.contactList.findFirst({
+            where: { id, tenantId },
+            select: { name: true, description: true },
+        }) : null,
+        // The graph is not copied into the log; the save time marks each change
+        campaign_workflow: (tenantId, campaignId) => campaignId ? this.prisma.campaignWorkflow.findFirst({
+            where: { campaignId, campaign: { tenantId } },
+            select: { updatedAt: true },
+        }) : null,
+        group_config: (tenantId, id) => id ? this.prisma.whatsappGroupConfig.findFirst({
+            where: { id, whatsappSession: { tenantId } },
+            select: { name: true, enabled: true, workflowIds: true },
+        }) : null,
+        media: (tenantId, id) => id ? this.prisma.mediaFile.findFirst({
+            where: { id, tenantId },
+            select: { originalName: true, mimeType: true, size: true, workflowId: true },
+        }) : null,
+    };
+
+    constructor(private readonly prisma: PrismaService) { }
+
+    hasSnapshot(resource: string): boolean {
+        return !!this.snapshots[resource];
+    }
+
+    /** Plain JSON (dates as ISO strings), ready to store and compare */
+    async snapshot(resource: string, tenantId: string, id?: string): Promise<Snapshot> {
+        const load = this.snapshots[resource];
+        const value = load ? await load(tenantId, id) : null;
+        return value ? JSON.parse(JSON.stringify(value)) : null;
+    }
+
+    /** Audit writes never fail the request they describe */
+    async record(entry: AuditEntry): Promise<void> {
+        try {
+            const changes = diffSnapshots(entry.before, entry.after);
+            await this.prisma.auditLog.create({
+                data: {
+                    ...entry,
+                    before: (entry.before as Prisma.InputJsonValue) ?? Prisma.DbNull,
+                    after: (entry.after as Prisma.InputJsonValue) ?? Prisma.DbNull,
+                    changes: (changes as Prisma.InputJsonValue) ?? Prisma.DbNull,
+                    userAgent: entry.userAgent?.slice(0, 500),
+                },
+            });
+        } catch (error) {
+            console.error(`[AUDIT] Failed to record ${entry.action}:`, error.message);
+        }
+    }
+
+    async list(tenantId: string, filters: AuditLogFilters, page: number, limit: number) {
+        const where = this.buildWhere(tenantId, filters);
+        const [data, total] = await Promise.all([
+            this.prisma.auditLog.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            this.prisma.auditLog.count({ where }),
+        ]);
+
+        return {
+            data,
+            meta: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    }
+
+    /** Newest entries matching the filters, capped at EXPORT_LIMIT rows */
+    async exportCsv(tenantId: string, filters: AuditLogFilters): Promise<string> {
+        const rows = await this.prisma.auditLog.findMany({
+            where: this.buildWhere(tenantId, filters),
+            orderBy: { createdAt: 'desc' },
+            take: EXPORT_LIMIT,
+        });
+        return toCsv(rows as Record<string, unknown>[], EXPORT_COLUMNS);
+    }
+
+    /** Distinct resources and actions recorded for the tenant, for the page filters */
+    async facets(tenantId: string) {
+        const rows = await this.prisma.auditLog.groupBy({
+            by: ['resource', 'action'],
+            where: { tenantId },
+            orderBy: { action: 'asc' },
+        });
+        return {
+            resources: [...new Set(rows.map((r) => r.resource))].sort(),
+            actions: rows.map((r) => r.action),
+        };
+    }
+
+    private buildWhere(tenantId: string, filters: AuditLogFilters): Prisma.AuditLogWhereInput {
+        const createdAt: Prisma.DateTimeFilter = {};
+        if (filters.from && !isNaN(Date.parse(filters.from))) createdAt.gte = new Date(filters.from);
+        if (filters.to && !isNaN(Date.parse(filters.to))) createdAt.lte = new Date(filters.to);
+
+        return {
+            tenantId,
+            ...(filters.resource ? { resource: filters.resource } : {}),
+            ...(filters.action ? { action: filters.action } : {}),
+            ...(filters.userId ? { userId: filters.userId } : {}),
+            ...(filters.resourceId ? { resourceId: filters.resourceId } : {}),
+            ...(Object.keys(createdAt).length ? { createdAt } : {}),
+        };
+    }
+}
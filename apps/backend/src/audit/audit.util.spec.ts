@@ -0,0 +1,44 @@
+import { redactAuditValue, diffSnapshots, toCsv } from './audit.util';
+
+describe('audit.util', () => {
+    describe('redactAuditValue', () => {
+        it('should redact secrets at any depth', () => {
+            expect(redactAuditValue({ name: 'OpenRouter', value: 'sk-1', config: { apiKey: 'k', model: 'x' } })).toEqual({
+                name: 'OpenRouter', value: '[REDACTED]', config: { apiKey: '[REDACTED]', model: 'x' },
+            });
+            expect(redactAuditValue([{ accessToken: 't' }])).toEqual([{ accessToken: '[REDACTED]' }]);
+        });
+    });
+
+    describe('diffSnapshots', () => {
+        it('should list changed fields only', () => {
+            expect(diffSnapshots(
+                { status: 'DRAFT', name: 'Black Friday', limit: 50 },
+                { status: 'RUNNING', name: 'Black Friday', limit: 50 },
+            )).toEqual({ status: { from: 'DRAFT', to: 'RUNNING' } });
+        });
+
+        it('should treat a missing side as created or deleted', () => {
+            expect(diffSnapshots(null, { phone: '5511999999999' })).toEqual({ phone: { from: null, to: '5511999999999' } });
+            expect(diffSnapshots({ phone: '5511999999999' }, null)).toEqual({ phone: { from: '5511999999999', to: null } });
+        });
+
+        it('should return null when nothing changed', () => {
+            expect(diffSnapshots({ isActive: true }, { isActive: true })).toBeNull();
+            expect(diffSnapshots(null, null)).toBeNull();
+        });
+    });
+
+    describe('toCsv', () => {
+        it('should quote separators and serialize objects', () => {
+            expect(toCsv(
+                [{ action: 'campaign.start', changes: { status: { from: 'DRAFT', to: 'RUNNING' } }, ip: null }],
+                ['action', 'changes', 'ip'],
+            )).toBe('action,changes,ip\ncampaign.start,"{""status"":{""from"":""DRAFT"",""to"":""RUNNING""}}",');
+        });
+
+        it('should neutralize cells that spreadsheets would run as formulas', () => {
+            expect(toCsv([{ reason: '=HYPERLINK("x")' }], ['reason'])).toBe('reason\n"\'=HYPERLINK(""x"")"');
+        });
+    });
+});
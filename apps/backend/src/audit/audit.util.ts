@@ -0,0 +1,58 @@
+const SENSITIVE_KEYS = ['password', 'token', 'secret', 'apikey', 'authorization', 'value'];
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+/** Request bodies are stored only when a resource has no snapshot; never keep secrets from them */
+export function redactAuditValue(data: unknown): unknown {
+    if (Array.isArray(data)) return data.map(redactAuditValue);
+    if (!data || typeof data !== 'object') return data;
+
+    const clone: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+        clone[key] = SENSITIVE_KEYS.some((sk) => key.toLowerCase().includes(sk))
+            ? '[REDACTED]'
+            : redactAuditValue(value);
+    }
+    return clone;
+}
+
+/**
+ * Top-level fields that differ between two snapshots. Null when nothing
+ * changed or neither side exists.
+ */
+export function diffSnapshots(
+    before: Record<string, unknown> | null | undefined,
+    after: Record<string, unknown> | null | undefined,
+): AuditChanges | null {
+    if (!before && !after) return null;
+
+    const changes: AuditChanges = {};
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    for (const key of keys) {
+        const from = before?.[key] ?? null;
+        const to = after?.[key] ?? null;
+        if (JSON.stringify(from) !== JSON.stringify(to)) {
+            changes[key] = { from, to };
+        }
+    }
+    return Object.keys(changes).length ? changes : null;
+}
+
+function csvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    let text = value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    // Spreadsheet apps run cells starting with these as formulas
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Record<string, unknown>[], columns: string[]): string {
+    const lines = [columns.join(',')];
+    for (const row of rows) {
+        lines.push(columns.map((column) => csvCell(row[column])).join(','));
+    }
+    return lines.join('\n');
+}
@@ -1,12 +1,17 @@
-import { Controller, Post, Body, HttpCode, HttpStatus, ForbiddenException } from '@nestjs/common';
+import { Controller, Get, Post, Body, HttpCode, HttpStatus, ForbiddenException } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 import { Public } from './decorators/public.decorator';
+import { CurrentUser } from './decorators/user.decorator';
+import { RolesService } from '../roles/roles.service';
 
 @Controller('auth')
 export class AuthController {
-  constructor(private authService: AuthService) { }
+  constructor(
+    private authService: AuthService,
+    private rolesService: RolesService,
+  ) { }
 
   @Post('register')
   @Public()
@@ -35,6 +40,18 @@ export class AuthController {
   async logout(@Body('userId') userId: string, @Body('refreshTokenId') rtid?: string) {
     return this.authService.logout(userId, rtid);
   }
+
+  /**
+   * Effective permissions of the current user, for UI gating
+   */
+  @Get('permissions')
+  async getPermissions(@CurrentUser() user: any) {
+    return {
+      role: user.role,
+      customRoleId: user.customRoleId || null,
+      permissions: await this.rolesService.permissionsFor(user),
+    };
+  }
 }
 
 
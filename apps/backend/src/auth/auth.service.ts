@@ -8,6 +8,8 @@ import { v4 as uuidv4 } from 'uuid';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 import { UserRole } from './types/roles.enum';
+import { RolesService } from '../roles/roles.service';
+import { permissionsForRole } from './permissions.util';
 
 @Injectable()
 export class AuthService {
@@ -16,6 +18,7 @@ export class AuthService {
     private jwtService: JwtService,
     private redisService: RedisService,
     private configService: ConfigService,
+    private rolesService: RolesService,
   ) { }
 
   async register(registerDto: RegisterDto) {
@@ -79,6 +82,7 @@ export class AuthService {
         name: result.user.name,
         tenantId: result.tenant.id,
         role: (result.user as any).role || UserRole.ADMIN,
+        permissions: permissionsForRole((result.user as any).role || UserRole.ADMIN),
       },
       tenant: {
         id: result.tenant.id,
@@ -153,6 +157,7 @@ export class AuthService {
         name: user.name,
         tenantId: user.tenantId,
         role: (user as any).role || UserRole.ADMIN,
+        permissions: await this.rolesService.permissionsFor({ ...user, role: (user as any).role || UserRole.ADMIN }),
       },
       tenant: {
         id: user.tenant.id,
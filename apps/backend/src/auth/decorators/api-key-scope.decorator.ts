@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '@n9n/shared';
+
+export const API_KEY_SCOPE_KEY = 'apiKeyScope';
+export const AllowApiKey = (scope: ApiKeyScope) => SetMetadata(API_KEY_SCOPE_KEY, scope);
@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '@n9n/shared';
+
+export const PERMISSIONS_KEY = 'permissions';
+export const RequirePermissions = (...permissions: Permission[]) => SetMetadata(PERMISSIONS_KEY, permissions);
@@ -1,24 +1,26 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 import { UserRole } from '../types/roles.enum';
 
-export const Tenant = createParamDecorator(
-  (data: unknown, ctx: ExecutionContext) => {
-    const request = ctx.switchToHttp().getRequest();
-    const user = request.user;
+/** Tenant a request acts on; also used by the audit interceptor */
+export function resolveRequestTenant(request: any): string | null {
+  const user = request.user;
+
+  if (!user) {
+    return null;
+  }
 
-    if (!user) {
-      return null;
-    }
+  // SUPER_ADMIN can access any tenant via query param or use their own
+  if (user.role === UserRole.SUPER_ADMIN) {
+    const requestedTenantId = request.query?.tenantId || request.params?.tenantId;
+    return requestedTenantId || user.tenantId;
+  }
 
-    // SUPER_ADMIN can access any tenant via query param or use their own
-    if (user.role === UserRole.SUPER_ADMIN) {
-      const requestedTenantId = request.query?.tenantId || request.params?.tenantId;
-      return requestedTenantId || user.tenantId;
-    }
+  // ADMIN can only access their own tenant
+  return user.tenantId;
+}
 
-    // ADMIN can only access their own tenant
-    return user.tenantId;
-  },
+export const Tenant = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext) => resolveRequestTenant(ctx.switchToHttp().getRequest()),
 );
 
 
@@ -1,10 +1,21 @@
-import { Injectable, ExecutionContext } from '@nestjs/common';
+import { Injectable, ExecutionContext, UnauthorizedException } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Reflector } from '@nestjs/core';
+import { ApiKeyScope } from '@n9n/shared';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+import { extractApiKey } from '../../api-keys/api-key.util';
+import { API_KEY_SCOPE_KEY } from '../decorators/api-key-scope.decorator';
 
+/**
+ * User JWTs everywhere; tenant API keys only on routes marked with
+ * @AllowApiKey(scope), and only when the key holds that scope.
+ */
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
-  constructor(private reflector: Reflector) {
+  constructor(
+    private reflector: Reflector,
+    private apiKeys: ApiKeysService,
+  ) {
     super();
   }
 
@@ -18,8 +29,28 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       return true;
     }
 
+    const request = context.switchToHttp().getRequest();
+    const apiKey = extractApiKey(request.headers || {});
+    if (apiKey) {
+      return this.authenticateApiKey(context, request, apiKey);
+    }
+
     return super.canActivate(context);
   }
-}
 
+  private async authenticateApiKey(context: ExecutionContext, request: any, apiKey: string): Promise<boolean> {
+    // Already resolved by the global guard; don't count the call twice
+    if (request.user?.apiKey) return true;
+
+    const scope = this.reflector.getAllAndOverride<ApiKeyScope>(API_KEY_SCOPE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!scope) {
+      throw new UnauthorizedException('API keys are not accepted on this route');
+    }
 
+    request.user = await this.apiKeys.authenticate(apiKey, scope, request.ip);
+    return true;
+  }
+}
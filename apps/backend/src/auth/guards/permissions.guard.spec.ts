@@ -0,0 +1,126 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from './permissions.guard';
+import { RolesService } from '../../roles/roles.service';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { Roles } from '../decorators/roles.decorator';
+import { UserRole } from '../types/roles.enum';
+import { WhatsappController } from '../../whatsapp/whatsapp.controller';
+
+// Only the route metadata of the controller is used; its services pull Baileys
+jest.mock('../../whatsapp/whatsapp.service', () => ({ WhatsappService: class {} }));
+jest.mock('../../whatsapp/session-health-monitor.service', () => ({ SessionHealthMonitorService: class {} }));
+jest.mock('../../whatsapp/group-participants.service', () => ({ GroupParticipantsService: class {} }));
+
+@RequirePermissions('inbox:view')
+class InboxController {
+  list() { return []; }
+
+  @RequirePermissions('settings:edit')
+  createField() { return {}; }
+
+  @Roles(UserRole.SUPER_ADMIN)
+  updatePolicy() { return {}; }
+}
+
+class OpenController {
+  health() { return 'ok'; }
+}
+
+describe('PermissionsGuard', () => {
+  let prisma: { customRole: { findFirst: jest.Mock } };
+  let guard: PermissionsGuard;
+
+  const context = (controller: any, handler: string, user: any) => ({
+    getHandler: () => controller.prototype[handler],
+    getClass: () => controller,
+    switchToHttp: () => ({ getRequest: () => ({ user }) }),
+  }) as any;
+
+  const member = (customRoleId: string | null = 'role-1') => ({
+    id: 'u1', tenantId: 't1', role: UserRole.USER, customRoleId,
+  });
+
+  beforeEach(() => {
+    prisma = { customRole: { findFirst: jest.fn().mockResolvedValue({ permissions: ['inbox:edit'] }) } };
+    guard = new PermissionsGuard(new Reflector(), new RolesService(prisma as any));
+  });
+
+  it('should let routes without metadata through', async () => {
+    await expect(guard.canActivate(context(OpenController, 'health', undefined))).resolves.toBe(true);
+  });
+
+  it('should grant view through an edit permission of the custom role', async () => {
+    await expect(guard.canActivate(context(InboxController, 'list', member()))).resolves.toBe(true);
+    expect(prisma.customRole.findFirst).toHaveBeenCalledWith({
+      where: { id: 'role-1', tenantId: 't1' },
+      select: { permissions: true },
+    });
+  });
+
+  it('should let handler permissions override the controller', async () => {
+    await expect(guard.canActivate(context(InboxController, 'createField', member())))
+      .rejects.toThrow(new ForbiddenException('Missing permission: settings:edit'));
+  });
+
+  it('should deny a role from another tenant', async () => {
+    prisma.customRole.findFirst.mockResolvedValue(null);
+
+    await expect(guard.canActivate(context(InboxController, 'list', member()))).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should give admins every permission without a lookup', async () => {
+    const admin = { ...member(), role: UserRole.ADMIN };
+
+    await expect(guard.canActivate(context(InboxController, 'createField', admin))).resolves.toBe(true);
+    expect(prisma.customRole.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('should restrict @Roles routes to the base role', async () => {
+    const admin = { ...member(), role: UserRole.ADMIN };
+
+    await expect(guard.canActivate(context(InboxController, 'updatePolicy', admin)))
+      .rejects.toThrow('Insufficient permissions');
+    await expect(guard.canActivate(context(InboxController, 'updatePolicy', { ...admin, role: UserRole.SUPER_ADMIN })))
+      .resolves.toBe(true);
+  });
+
+  describe('WhatsappController', () => {
+    const editRoutes = [
+      'getGlobalConfig',
+      'updateGlobalConfig',
+      'createGroupLink',
+      'deleteGroupLink',
+      'setWarmupOverride',
+      'setCallPolicy',
+    ];
+
+    it.each(editRoutes)('should let a custom role with sessions:edit call %s', async (handler) => {
+      prisma.customRole.findFirst.mockResolvedValue({ permissions: ['sessions:edit'] });
+
+      await expect(guard.canActivate(context(WhatsappController, handler, member()))).resolves.toBe(true);
+    });
+
+    it.each(editRoutes)('should refuse %s to a role that may only view sessions', async (handler) => {
+      prisma.customRole.findFirst.mockResolvedValue({ permissions: ['sessions:view'] });
+
+      await expect(guard.canActivate(context(WhatsappController, handler, member())))
+        .rejects.toThrow('Missing permission: sessions:edit');
+    });
+
+    it.each(['getGroupLinks', 'getGroupOffers', 'getSessionHealth'])('should let session viewers call %s', async (handler) => {
+      prisma.customRole.findFirst.mockResolvedValue({ permissions: ['sessions:view'] });
+
+      await expect(guard.canActivate(context(WhatsappController, handler, member()))).resolves.toBe(true);
+    });
+  });
+
+  it('should leave API keys to the scope check of JwtAuthGuard', async () => {
+    await expect(guard.canActivate(context(InboxController, 'createField', { tenantId: 't1', apiKey: { id: 'k1' } })))
+      .resolves.toBe(true);
+  });
+
+  it('should reject unauthenticated requests on protected routes', async () => {
+    await expect(guard.canActivate(context(InboxController, 'list', undefined))).rejects.toThrow('User not authenticated');
+  });
+});
@@ -0,0 +1,58 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Permission } from '@n9n/shared';
+import { RolesService } from '../../roles/roles.service';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { UserRole } from '../types/roles.enum';
+import { hasPermission } from '../permissions.util';
+
+/**
+ * @RequirePermissions('resource:action', ...) on workspace resources: the
+ * user needs at least one of them, resolved from their custom role.
+ * @Roles still restricts platform-level endpoints (tenants, licenses, user
+ * and role management) to a base role. Handler metadata overrides the
+ * controller's.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private roles: RolesService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, targets);
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, targets);
+
+    if (!requiredRoles && !requiredPermissions) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+
+    if (!user) {
+      throw new ForbiddenException('User not authenticated');
+    }
+
+    // API keys only reach @AllowApiKey routes, where JwtAuthGuard checked the scope
+    if (user.apiKey) {
+      return true;
+    }
+
+    if (requiredRoles && !requiredRoles.some((role) => user.role === role)) {
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    if (requiredPermissions?.length) {
+      const granted = await this.roles.permissionsFor(user);
+      if (!requiredPermissions.some((permission) => hasPermission(granted, permission))) {
+        throw new ForbiddenException(`Missing permission: ${requiredPermissions.join(' or ')}`);
+      }
+    }
+
+    return true;
+  }
+}
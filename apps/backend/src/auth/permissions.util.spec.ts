@@ -0,0 +1,34 @@
+import { ALL_PERMISSIONS, normalizePermissions, permissionsForRole, hasPermission } from './permissions.util';
+
+describe('permissions.util', () => {
+  describe('normalizePermissions', () => {
+    it('should keep known permissions only, without duplicates', () => {
+      expect(normalizePermissions(['inbox:edit', 'inbox:edit', 'inbox:execute', 'users:edit', 'workflows:view'])).toEqual([
+        'workflows:view', 'inbox:edit',
+      ]);
+      expect(normalizePermissions('inbox:edit')).toEqual([]);
+    });
+  });
+
+  describe('permissionsForRole', () => {
+    it('should give admins every permission, even with a custom role', () => {
+      expect(permissionsForRole('ADMIN', ['inbox:view'])).toEqual(ALL_PERMISSIONS);
+      expect(permissionsForRole('SUPER_ADMIN')).toEqual(ALL_PERMISSIONS);
+    });
+
+    it('should use the custom role of other users', () => {
+      expect(permissionsForRole('USER', ['inbox:view', 'inbox:edit'])).toEqual(['inbox:view', 'inbox:edit']);
+      expect(permissionsForRole('USER', [])).toEqual([]);
+      expect(permissionsForRole('VIP', null)).toEqual(ALL_PERMISSIONS);
+    });
+  });
+
+  describe('hasPermission', () => {
+    it('should treat edit and execute as implying view', () => {
+      expect(hasPermission(['campaigns:execute'], 'campaigns:view')).toBe(true);
+      expect(hasPermission(['campaigns:execute'], 'campaigns:edit')).toBe(false);
+      expect(hasPermission(['inbox:view'], 'inbox:edit')).toBe(false);
+      expect(hasPermission(['inbox:edit'], 'workflows:view')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { Permission, PermissionAction, PermissionResource, PERMISSION_ACTIONS } from '@n9n/shared';
+import { UserRole } from './types/roles.enum';
+
+export const ALL_PERMISSIONS: Permission[] = (Object.keys(PERMISSION_ACTIONS) as PermissionResource[])
+  .flatMap((resource) => PERMISSION_ACTIONS[resource].map((action) => `${resource}:${action}` as Permission));
+
+/**
+ * Known "resource:action" values only, deduplicated, in catalogue order
+ */
+export function normalizePermissions(values: unknown): Permission[] {
+  const requested = new Set(Array.isArray(values) ? values.map((v) => String(v).trim()) : []);
+  return ALL_PERMISSIONS.filter((permission) => requested.has(permission));
+}
+
+/**
+ * Admins always have every permission. A custom role replaces the built-in
+ * USER/VIP access, which keeps full access to the workspace.
+ */
+export function permissionsForRole(role: string, customPermissions?: string[] | null): Permission[] {
+  if (role === UserRole.SUPER_ADMIN || role === UserRole.ADMIN) return ALL_PERMISSIONS;
+  if (customPermissions) return normalizePermissions(customPermissions);
+  return ALL_PERMISSIONS;
+}
+
+/** Edit and execute on a resource imply view */
+export function hasPermission(granted: readonly string[], required: Permission): boolean {
+  if (granted.includes(required)) return true;
+
+  const [resource, action] = required.split(':');
+  return action === PermissionAction.VIEW && granted.some((p) => p.startsWith(`${resource}:`));
+}
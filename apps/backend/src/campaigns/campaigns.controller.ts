@@ -9,10 +9,14 @@ import { CampaignSettingsService } from './campaign-settings.service';
 import { QueueDiagnosticService } from './queue-diagnostic.service';
 import { EmergencyModeService } from './emergency-mode.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Audit } from '../audit/audit.decorator';
 import { CampaignType } from '@prisma/client';
 
 @Controller('campaigns')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('campaigns:view')
 export class CampaignsController {
   constructor(
     private readonly campaignsService: CampaignsService,
@@ -25,6 +29,8 @@ export class CampaignsController {
   // ─── CAMPAIGN CRUD ────────────────────────────────────────────────────────────
 
   @Post()
+  @RequirePermissions('campaigns:edit')
+  @Audit('campaign.create')
   createCampaign(@Request() req: any, @Body() body: any) {
     return this.campaignsService.createCampaign(req.user.tenantId, body);
   }
@@ -66,6 +72,7 @@ export class CampaignsController {
   }
 
   @Post('groups/sync')
+  @RequirePermissions('campaigns:edit')
   syncGroups(@Tenant() tenantId: string, @Body('sessionId') sessionId: string) {
     return this.campaignsService.syncGroups(tenantId, sessionId);
   }
@@ -81,11 +88,15 @@ export class CampaignsController {
   }
 
   @Post('blacklist')
+  @RequirePermissions('campaigns:edit')
+  @Audit('blacklist.add', { body: 'phone' })
   addToBlacklist(@Request() req: any, @Body() body: { phone: string; reason?: string }) {
     return this.campaignsService.addToBlacklist(req.user.tenantId, body.phone, body.reason);
   }
 
   @Delete('blacklist/:phone')
+  @RequirePermissions('campaigns:edit')
+  @Audit('blacklist.remove', { param: 'phone' })
   removeFromBlacklist(@Request() req: any, @Param('phone') phone: string) {
     return this.campaignsService.removeFromBlacklist(req.user.tenantId, phone);
   }
@@ -96,6 +107,8 @@ export class CampaignsController {
   }
 
   @Put('settings')
+  @RequirePermissions('campaigns:edit')
+  @Audit('campaign_settings.update')
   updateCampaignSettings(@Request() req: any, @Body() body: any) {
     return this.campaignSettingsService.updateSettings(req.user.tenantId, body);
   }
@@ -108,11 +121,15 @@ export class CampaignsController {
   }
 
   @Post('emergency/activate')
+  @RequirePermissions('campaigns:execute')
+  @Audit('emergency.activate')
   activateEmergency(@Tenant() tenantId: string, @Body('reason') reason: string) {
     return this.emergencyModeService.activate(tenantId, reason);
   }
 
   @Post('emergency/deactivate')
+  @RequirePermissions('campaigns:execute')
+  @Audit('emergency.deactivate')
   deactivateEmergency(@Tenant() tenantId: string) {
     return this.emergencyModeService.deactivate(tenantId);
   }
@@ -123,11 +140,15 @@ export class CampaignsController {
   }
 
   @Put(':id')
+  @RequirePermissions('campaigns:edit')
+  @Audit('campaign.update')
   updateCampaign(@Request() req: any, @Param('id') id: string, @Body() body: any) {
     return this.campaignsService.updateCampaign(req.user.tenantId, id, body);
   }
 
   @Delete(':id')
+  @RequirePermissions('campaigns:edit')
+  @Audit('campaign.delete')
   deleteCampaign(@Request() req: any, @Param('id') id: string) {
     return this.campaignsService.deleteCampaign(req.user.tenantId, id);
   }
@@ -135,26 +156,36 @@ export class CampaignsController {
   // ─── ACTIONS ─────────────────────────────────────────────────────────────────
 
   @Post(':id/start')
+  @RequirePermissions('campaigns:execute')
+  @Audit('campaign.start')
   startCampaign(@Request() req: any, @Param('id') id: string) {
     return this.campaignsService.startCampaign(req.user.tenantId, id);
   }
 
   @Post(':id/pause')
+  @RequirePermissions('campaigns:execute')
+  @Audit('campaign.pause')
   pauseCampaign(@Request() req: any, @Param('id') id: string) {
     return this.campaignsService.pauseCampaign(req.user.tenantId, id);
   }
 
   @Post(':id/resume')
+  @RequirePermissions('campaigns:execute')
+  @Audit('campaign.resume')
   resumeCampaign(@Request() req: any, @Param('id') id: string) {
     return this.campaignsService.resumeCampaign(req.user.tenantId, id);
   }
 
   @Post(':id/duplicate')
+  @RequirePermissions('campaigns:edit')
+  @Audit('campaign.duplicate', { resultId: true })
   duplicateCampaign(@Request() req: any, @Param('id') id: string) {
     return this.campaignsService.duplicateCampaign(req.user.tenantId, id);
   }
 
   @Post(':id/reset')
+  @RequirePermissions('campaigns:execute')
+  @Audit('campaign.reset')
   resetCampaign(@Request() req: any, @Param('id') id: string) {
     return this.campaignsService.resetCampaign(req.user.tenantId, id);
   }
@@ -185,6 +216,7 @@ export class CampaignsController {
    * Triggers async list health calculation.
    */
   @Post(':id/list-health/calculate')
+  @RequirePermissions('campaigns:edit')
   triggerListHealthCalculation(@Request() req: any, @Param('id') id: string) {
     this.campaignsService.triggerListHealthCalculation(req.user.tenantId, id);
     return { status: 'calculating' };
@@ -202,26 +234,36 @@ export class CampaignsController {
   // ─── RECIPIENTS ──────────────────────────────────────────────────────────────
 
   @Post(':id/recipients/contacts')
+  @RequirePermissions('campaigns:edit')
+  @Audit('campaign_recipients.add_contacts')
   addFromContacts(@Request() req: any, @Param('id') id: string, @Body() body: { tags?: string[]; whatsappLabelIds?: string[] }) {
     return this.campaignsService.addRecipientsFromContacts(id, req.user.tenantId, { tags: body.tags, whatsappLabelIds: body.whatsappLabelIds });
   }
 
   @Post(':id/recipients/csv')
+  @RequirePermissions('campaigns:edit')
+  @Audit('campaign_recipients.add_csv')
   addFromCsv(@Param('id') id: string, @Body() body: { csv: string }) {
     return this.campaignsService.addRecipientsFromCsv(id, body.csv);
   }
 
   @Post(':id/recipients/phones')
+  @RequirePermissions('campaigns:edit')
+  @Audit('campaign_recipients.add_phones')
   addFromPhones(@Param('id') id: string, @Body() body: { phones: string[] }) {
     return this.campaignsService.addRecipientsFromPhones(id, body.phones);
   }
 
   @Post(':id/recipients/list')
+  @RequirePermissions('campaigns:edit')
+  @Audit('campaign_recipients.add_list')
   addFromList(@Param('id') id: string, @Body() body: { contactListId: string }) {
     return this.campaignsService.addRecipientsFromContactList(id, body.contactListId);
   }
 
   @Post(':id/recipients/group')
+  @RequirePermissions('campaigns:edit')
+  @Audit('campaign_recipients.add_group')
   addFromGroup(
     @Request() req: any,
     @Param('id') id: string,
@@ -258,17 +300,22 @@ export class CampaignsController {
   }
 
   @Put(':id/workflow')
+  @RequirePermissions('campaigns:edit')
+  @Audit('campaign_workflow.update')
   saveWorkflow(@Request() req: any, @Param('id') id: string, @Body() body: { nodes: any[]; edges: any[] }) {
     return this.campaignsService.saveWorkflow(id, req.user.tenantId, body.nodes, body.edges);
   }
 }
 
 @Controller('contact-lists')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('campaigns:view')
 export class ContactListsController {
   constructor(private readonly contactListsService: ContactListsService) {}
 
   @Post()
+  @RequirePermissions('campaigns:edit')
+  @Audit('contact_list.create')
   createList(@Request() req: any, @Body() body: { name: string; description?: string }) {
     return this.contactListsService.createList(req.user.tenantId, body);
   }
@@ -284,31 +331,43 @@ export class ContactListsController {
   }
 
   @Put(':id')
+  @RequirePermissions('campaigns:edit')
+  @Audit('contact_list.update')
   updateList(@Request() req: any, @Param('id') id: string, @Body() body: { name?: string; description?: string }) {
     return this.contactListsService.updateList(req.user.tenantId, id, body);
   }
 
   @Delete(':id')
+  @RequirePermissions('campaigns:edit')
+  @Audit('contact_list.delete')
   deleteList(@Request() req: any, @Param('id') id: string) {
     return this.contactListsService.deleteList(req.user.tenantId, id);
   }
 
   @Post(':id/contacts/csv')
+  @RequirePermissions('campaigns:edit')
+  @Audit('contact_list_contacts.add_csv')
   addFromCsv(@Param('id') id: string, @Body() body: { csv: string }) {
     return this.contactListsService.addContactsFromCsv(id, body.csv);
   }
 
   @Post(':id/contacts/inbox')
+  @RequirePermissions('campaigns:edit')
+  @Audit('contact_list_contacts.add_inbox')
   addFromInbox(@Request() req: any, @Param('id') id: string, @Body() body: { tags?: string[] }) {
     return this.contactListsService.addContactsFromInbox(id, req.user.tenantId, { tags: body.tags });
   }
 
   @Post(':id/contacts/manual')
+  @RequirePermissions('campaigns:edit')
+  @Audit('contact_list_contacts.add')
   addManually(@Param('id') id: string, @Body() body: { contacts: { phone: string; name?: string }[] }) {
     return this.contactListsService.addContactsManually(id, body.contacts);
   }
 
   @Delete(':id/contacts/:contactId')
+  @RequirePermissions('campaigns:edit')
+  @Audit('contact_list_contacts.remove')
   removeContact(@Param('id') _listId: string, @Param('contactId') contactId: string) {
     return this.contactListsService.removeContact(_listId, contactId);
   }
@@ -15,6 +15,7 @@ import { RedisService } from '../redis/redis.service';
 import { QueueDiagnosticService } from './queue-diagnostic.service';
 import { EmergencyModeService } from './emergency-mode.service';
 import { PushNotificationService } from '../whatsapp/push-notification.service';
+import { VaultService } from '../vault/vault.service';
 
 // ─── Absolute safety ceilings (user config is applied up to these limits) ────
 // These must be >= schema defaults (limitPerSession=50, maxPerHour=100, maxPerMinute=5)
@@ -42,6 +43,7 @@ export class CampaignsService {
     private readonly queueDiagnostic: QueueDiagnosticService,
     private readonly emergencyMode: EmergencyModeService,
     private readonly pushNotification: PushNotificationService,
+    private readonly vault: VaultService,
   ) { }
 
   private processingCampaigns = new Set<string>();
@@ -550,6 +552,9 @@ export class CampaignsService {
     // Cleanup orphaned media before saving
     await this.cleanupOrphanedMedia(tenantId, campaignId, nodes);
 
+    // Inline secrets are replaced by vault credentials
+    ({ nodes } = await this.vault.moveNodeSecrets(tenantId, nodes));
+
     return this.prisma.campaignWorkflow.upsert({
       where: { campaignId },
       update: { nodes, edges },
@@ -677,7 +682,25 @@ export class CampaignsService {
     ]);
     const pending = total - sent - failed - blocked;
     const progress = total > 0 ? Math.round(((sent + failed + blocked) / total) * 100) : 0;
-    return { total, sent, failed, blocked, pending, progress };
+    return { total, sent, failed, blocked, pending, progress, ...(await this.getReceiptStats(campaignId)) };
+  }
+
+  /**
+   * Delivered/read counts from receipts. Rates are over sends that carry a
+   * message id, since only those can receive receipts.
+   */
+  private async getReceiptStats(campaignId: string) {
+    const [tracked, delivered, read] = await Promise.all([
+      this.prisma.campaignLog.count({ where: { campaignId, status: 'sent', whatsappMessageId: { not: null } } }),
+      this.prisma.campaignLog.count({ where: { campaignId, deliveredAt: { not: null } } }),
+      this.prisma.campaignLog.count({ where: { campaignId, readAt: { not: null } } }),
+    ]);
+    return {
+      delivered,
+      read,
+      deliveryRate: tracked > 0 ? (delivered / tracked) * 100 : 0,
+      readRate: tracked > 0 ? (read / tracked) * 100 : 0,
+    };
   }
 
   async getCampaignInsights(tenantId: string, campaignId: string) {
@@ -697,13 +720,14 @@ export class CampaignsService {
 
     if (!campaign) throw new NotFoundException('Campaign not found');
 
-    const [sentCount, interactedCount] = await Promise.all([
+    const [sentCount, interactedCount, receipts] = await Promise.all([
       this.prisma.campaignRecipient.count({
         where: { campaignId, status: 'sent' }
       }),
       this.prisma.workflowExecution.count({
         where: { campaignId, interactionCount: { gt: 0 } }
-      })
+      }),
+      this.getReceiptStats(campaignId),
     ]);
 
     const nodeStatsMap: Record<string, any> = {};
@@ -899,6 +923,10 @@ export class CampaignsService {
       totalSent: sentCount,
       totalInteracted: interactedCount,
       conversionRate: sentCount > 0 ? (interactedCount / sentCount) * 100 : 0,
+      totalDelivered: receipts.delivered,
+      totalRead: receipts.read,
+      deliveryRate: receipts.deliveryRate,
+      readRate: receipts.readRate,
       // Sort by workflow execution order; nodes not in sequence fall to the end
       nodeStats: Object.values(nodeStatsMap).sort((a: any, b: any) => a.nodeOrder - b.nodeOrder),
       workflow: campaign.workflow,
@@ -1401,6 +1429,8 @@ export class CampaignsService {
           );
         } else {
           // Simple campaign: send messages with humanization enabled
+          // The last message id is logged so receipts can be counted per recipient
+          let lastMessageId: string | undefined;
           for (const msg of campaign.messages) {
             // NOTE: Variable substitution ({nome}, {empresa}, {telefone}) must happen
           // BEFORE spintax parsing ([[opt1|opt2]]). If variable substitution is added
@@ -1426,20 +1456,20 @@ export class CampaignsService {
             }
 
             if (msg.mediaUrl && msg.type !== 'text') {
-              await this.whatsappSessionManager.sendMedia(
+              lastMessageId = await this.whatsappSessionManager.sendMedia(
                 session.sessionId,
                 recipient.phone,
                 msg.type as 'image' | 'video' | 'audio' | 'document',
                 msg.mediaUrl,
                 { caption: msgCaption ?? undefined, bypassDelay: false },
-              );
+              ) ?? lastMessageId;
             } else if (msgContent) {
-              await this.whatsappSessionManager.sendMessage(session.sessionId, recipient.phone, msgContent, false);
+              lastMessageId = await this.whatsappSessionManager.sendMessage(session.sessionId, recipient.phone, msgContent, false) ?? lastMessageId;
             }
           }
           // Only mark as sent directly for simple campaigns
           await this.prisma.campaignRecipient.update({ where: { id: recipient.id }, data: { status: 'sent', sentAt: new Date() } });
-          await this.prisma.campaignLog.create({ data: { campaignId, phone: recipient.phone, sessionId: session.sessionId, status: 'sent' } });
+          await this.prisma.campaignLog.create({ data: { campaignId, phone: recipient.phone, sessionId: session.sessionId, status: 'sent', whatsappMessageId: lastMessageId } });
         }
 
         // Record this dispatch in both sliding-window sorted sets
@@ -0,0 +1,71 @@
+import {
+    splitCommandLine,
+    escapeCommandValue,
+    interpolateCommandArgs,
+    isValidBinary,
+} from './command-args.util';
+
+describe('command-args.util', () => {
+    describe('splitCommandLine', () => {
+        it('should split on whitespace and honour quotes', () => {
+            expect(splitCommandLine(`curl -H "Accept: application/json" 'https://x.test/a b'`)).toEqual([
+                'curl', '-H', 'Accept: application/json', 'https://x.test/a b',
+            ]);
+        });
+
+        it('should keep placeholders with spaces in one token', () => {
+            expect(splitCommandLine('echo {{ variables.name }}')).toEqual(['echo', '{{ variables.name }}']);
+        });
+
+        it('should keep empty quoted arguments', () => {
+            expect(splitCommandLine(`printf ''`)).toEqual(['printf', '']);
+        });
+
+        it('should reject shell operators outside quotes', () => {
+            expect(() => splitCommandLine('ls; rm -rf /')).toThrow();
+            expect(() => splitCommandLine('cat a | sh')).toThrow();
+            expect(() => splitCommandLine('echo $(id)')).toThrow();
+            expect(() => splitCommandLine('echo `id`')).toThrow();
+            expect(() => splitCommandLine('echo a > /etc/passwd')).toThrow();
+        });
+
+        it('should allow shell operators inside quotes', () => {
+            expect(splitCommandLine(`echo "a; b | c"`)).toEqual(['echo', 'a; b | c']);
+        });
+
+        it('should reject unterminated quotes', () => {
+            expect(() => splitCommandLine(`echo "oops`)).toThrow();
+        });
+    });
+
+    describe('escapeCommandValue', () => {
+        it('should strip control characters but keep tabs and newlines', () => {
+            expect(escapeCommandValue('a\u0000b\u001bc\td\ne')).toBe('abc\td\ne');
+        });
+    });
+
+    describe('interpolateCommandArgs', () => {
+        const values: Record<string, string> = { url: 'https://x.test', evil: '--output=/etc/passwd' };
+        const interpolate = (template: string) =>
+            template.replace(/\{\{(\w+)\}\}/g, (_, key) => values[key]);
+
+        it('should interpolate each argument separately', () => {
+            expect(interpolateCommandArgs(['-s', '{{url}}'], interpolate)).toEqual(['-s', 'https://x.test']);
+        });
+
+        it('should not let interpolated values inject options', () => {
+            expect(() => interpolateCommandArgs(['{{evil}}'], interpolate)).toThrow();
+            expect(interpolateCommandArgs(['--data={{evil}}'], interpolate)).toEqual(['--data=--output=/etc/passwd']);
+        });
+    });
+
+    describe('isValidBinary', () => {
+        it('should accept names and absolute paths only', () => {
+            expect(isValidBinary('curl')).toBe(true);
+            expect(isValidBinary('/usr/bin/curl')).toBe(true);
+            expect(isValidBinary('../bin/sh')).toBe(false);
+            expect(isValidBinary('/usr/../bin/sh')).toBe(false);
+            expect(isValidBinary('curl; id')).toBe(false);
+        });
+    });
+});
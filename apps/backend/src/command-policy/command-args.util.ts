@@ -0,0 +1,120 @@
+/**
+ * Argument handling for the COMMAND node. Commands run without a shell, so a
+ * command is always a binary plus an argv array.
+ */
+
+/** Binary names (`curl`) or absolute paths (`/usr/bin/curl`) */
+const BINARY_PATTERN = /^(?:[\w.+-]+|\/[\w.+\-/]+)$/;
+
+export function isValidBinary(binary: string): boolean {
+    return BINARY_PATTERN.test(binary) && !binary.split('/').includes('..');
+}
+
+/**
+ * Split a legacy command line into tokens, honouring quotes and keeping
+ * `{{ placeholders }}` intact. Shell operators are rejected instead of
+ * being passed along, since nothing runs through a shell anymore.
+ */
+export function splitCommandLine(line: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    let hasToken = false;
+    let quote: '"' | "'" | null = null;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+
+        // Keep placeholders verbatim (they may contain spaces)
+        if (char === '{' && line[i + 1] === '{') {
+            const end = line.indexOf('}}', i + 2);
+            if (end !== -1) {
+                current += line.slice(i, end + 2);
+                hasToken = true;
+                i = end + 1;
+                continue;
+            }
+        }
+
+        if (quote === "'") {
+            if (char === "'") quote = null;
+            else current += char;
+            continue;
+        }
+
+        if (quote === '"') {
+            if (char === '"') {
+                quote = null;
+            } else if (char === '\\' && (line[i + 1] === '"' || line[i + 1] === '\\')) {
+                current += line[++i];
+            } else {
+                current += char;
+            }
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            quote = char;
+            hasToken = true;
+            continue;
+        }
+
+        if (char === '\\') {
+            // Line continuation
+            if (line[i + 1] === '\n') {
+                i++;
+                continue;
+            }
+            if (i + 1 < line.length) {
+                current += line[++i];
+                hasToken = true;
+            }
+            continue;
+        }
+
+        if (/[|;&<>`\n]/.test(char) || (char === '$' && line[i + 1] === '(')) {
+            throw new Error(`Shell operator "${char === '\n' ? '\\n' : char}" is not supported — use one binary with arguments`);
+        }
+
+        if (/\s/.test(char)) {
+            if (hasToken) {
+                tokens.push(current);
+                current = '';
+                hasToken = false;
+            }
+            continue;
+        }
+
+        current += char;
+        hasToken = true;
+    }
+
+    if (quote) {
+        throw new Error('Unterminated quote in command');
+    }
+    if (hasToken) tokens.push(current);
+
+    return tokens;
+}
+
+/** Strip control characters (NUL breaks argv; others have no business in arguments) */
+export function escapeCommandValue(value: string): string {
+    return value.replace(/[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/g, '');
+}
+
+/**
+ * Interpolate each argument on its own. An interpolated value can never
+ * become a new option: an argument whose template does not start with "-"
+ * may not start with "-" after interpolation.
+ */
+export function interpolateCommandArgs(
+    templates: string[],
+    interpolate: (template: string) => string,
+): string[] {
+    return templates.map((template, index) => {
+        const value = interpolate(template);
+        if (template.includes('{{') && !template.startsWith('-') && value.startsWith('-')) {
+            throw new Error(`Interpolated value in argument ${index + 1} cannot start with "-"`);
+        }
+        return value;
+    });
+}
@@ -0,0 +1,47 @@
+import { Controller, Get, Put, Body, Query, UseGuards } from '@nestjs/common';
+import { CommandPolicyService, CommandPolicyInput } from './command-policy.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { UserRole } from '../auth/types/roles.enum';
+import { Tenant } from '../auth/decorators/tenant.decorator';
+import { CurrentUser } from '../auth/decorators/user.decorator';
+import { Audit } from '../audit/audit.decorator';
+
+@Controller('command-policy')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class CommandPolicyController {
+    constructor(private service: CommandPolicyService) {}
+
+    /** Current tenant policy (read-only for tenant users, shown in the editor) */
+    @Get()
+    @RequirePermissions('workflows:view')
+    getPolicy(@Tenant() tenantId: string) {
+        return this.service.getPolicy(tenantId);
+    }
+
+    /** Enable/disable the COMMAND node and set the allow-list — pass ?tenantId */
+    @Put()
+    @Roles(UserRole.SUPER_ADMIN)
+    @Audit('command_policy.update')
+    updatePolicy(
+        @Tenant() tenantId: string,
+        @CurrentUser() user: any,
+        @Body() body: CommandPolicyInput,
+    ) {
+        return this.service.updatePolicy(tenantId, body, user?.id);
+    }
+
+    /** COMMAND invocations, newest first */
+    @Get('audit')
+    @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+    getAuditLogs(
+        @Tenant() tenantId: string,
+        @Query('workflowId') workflowId?: string,
+        @Query('status') status?: string,
+        @Query('limit') limit: string = '100',
+    ) {
+        return this.service.getAuditLogs(tenantId, { workflowId, status, limit: Number(limit) });
+    }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { CommandPolicyController } from './command-policy.controller';
+import { CommandPolicyService } from './command-policy.service';
+
+@Module({
+    controllers: [CommandPolicyController],
+    providers: [CommandPolicyService],
+    exports: [CommandPolicyService],
+})
+export class CommandPolicyModule {}
@@ -0,0 +1,138 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { isValidBinary } from './command-args.util';
+
+export type CommandAuditStatus = 'EXECUTED' | 'FAILED' | 'DENIED';
+
+export interface CommandPolicyInput {
+    enabled?: boolean;
+    allowedBinaries?: string[];
+}
+
+export interface CommandAuditEntry {
+    tenantId?: string;
+    workflowId?: string;
+    executionId?: string;
+    nodeId?: string;
+    binary: string;
+    args: string[];
+    status: CommandAuditStatus;
+    exitCode?: number | null;
+    durationMs?: number;
+    error?: string;
+}
+
+@Injectable()
+export class CommandPolicyService {
+    constructor(private prisma: PrismaService) {}
+
+    /** Tenant policy; tenants without one have the COMMAND node disabled */
+    async getPolicy(tenantId: string) {
+        const policy = await this.prisma.commandPolicy.findUnique({ where: { tenantId } });
+        return policy ?? {
+            tenantId,
+            enabled: false,
+            allowedBinaries: [] as string[],
+            updatedById: null,
+            updatedAt: null,
+        };
+    }
+
+    /** Super admin only — see CommandPolicyController */
+    async updatePolicy(tenantId: string, data: CommandPolicyInput, userId?: string) {
+        const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId }, select: { id: true } });
+        if (!tenant) throw new NotFoundException('Tenant not found');
+
+        const updateData: { enabled?: boolean; allowedBinaries?: string[] } = {};
+        if (data.enabled !== undefined) updateData.enabled = !!data.enabled;
+        if (data.allowedBinaries !== undefined) {
+            updateData.allowedBinaries = this.validateBinaries(data.allowedBinaries);
+        }
+
+        return this.prisma.commandPolicy.upsert({
+            where: { tenantId },
+            create: { tenantId, ...updateData, updatedById: userId },
+            update: { ...updateData, updatedById: userId },
+        });
+    }
+
+    /**
+     * Check a COMMAND invocation against the tenant policy.
+     * Returns the reason when it is not allowed, null otherwise.
+     */
+    async getDenialReason(tenantId: string, binary: string): Promise<string | null> {
+        const policy = await this.getPolicy(tenantId);
+        if (!policy.enabled) {
+            return 'COMMAND node is disabled for this tenant';
+        }
+        if (!isValidBinary(binary)) {
+            return `Invalid binary "${binary}"`;
+        }
+        if (!policy.allowedBinaries.includes(binary)) {
+            return `Binary "${binary}" is not on the allow-list`;
+        }
+        return null;
+    }
+
+    /**
+     * Write an audit row. The acting user is the last editor of the workflow.
+     * Failures are logged and never break the execution.
+     */
+    async recordAudit(entry: CommandAuditEntry): Promise<void> {
+        if (!entry.tenantId) return;
+        try {
+            const workflow = entry.workflowId
+                ? await this.prisma.workflow.findUnique({
+                    where: { id: entry.workflowId },
+                    select: { updatedById: true },
+                })
+                : null;
+
+            await this.prisma.commandAuditLog.create({
+                data: {
+                    tenantId: entry.tenantId,
+                    workflowId: entry.workflowId,
+                    executionId: entry.executionId,
+                    nodeId: entry.nodeId,
+                    userId: workflow?.updatedById ?? null,
+                    binary: entry.binary,
+                    args: entry.args,
+                    status: entry.status,
+                    exitCode: entry.exitCode ?? null,
+                    durationMs: entry.durationMs,
+                    error: entry.error?.slice(0, 2000),
+                },
+            });
+        } catch (error) {
+            console.error('[COMMAND POLICY] Failed to write audit log:', error.message);
+        }
+    }
+
+    async getAuditLogs(
+        tenantId: string,
+        filters: { workflowId?: string; status?: string; limit?: number } = {},
+    ) {
+        const take = Math.min(Math.max(Number(filters.limit) || 100, 1), 500);
+        return this.prisma.commandAuditLog.findMany({
+            where: {
+                tenantId,
+                ...(filters.workflowId ? { workflowId: filters.workflowId } : {}),
+                ...(filters.status ? { status: filters.status } : {}),
+            },
+            orderBy: { createdAt: 'desc' },
+            take,
+        });
+    }
+
+    private validateBinaries(binaries: string[]): string[] {
+        if (!Array.isArray(binaries)) {
+            throw new BadRequestException('allowedBinaries must be an array');
+        }
+        const normalized = Array.from(new Set(binaries.map(b => String(b).trim()).filter(Boolean)));
+        const invalid = normalized.filter(b => !isValidBinary(b));
+        if (invalid.length > 0) {
+            throw new BadRequestException(`Invalid binaries: ${invalid.join(', ')}`);
+        }
+        return normalized;
+    }
+}
@@ -12,13 +12,21 @@ import { createHmac, timingSafeEqual } from 'crypto';
 export class HmacGuard implements CanActivate {
     private readonly logger = new Logger(HmacGuard.name);
 
-    constructor(private configService: ConfigService) { }
+    constructor(protected configService: ConfigService) { }
+
+    /**
+     * Resolve the signing secret for this request. Subclasses can override
+     * to use per-resource secrets instead of the global WEBHOOK_SECRET.
+     */
+    protected async resolveSecret(_request: any): Promise<string | null | undefined> {
+        return this.configService.get<string>('WEBHOOK_SECRET');
+    }
 
     async canActivate(context: ExecutionContext): Promise<boolean> {
         const request = context.switchToHttp().getRequest();
         const signature = request.headers['x-hmac-signature'];
         const timestamp = request.headers['x-timestamp'];
-        const secret = this.configService.get<string>('WEBHOOK_SECRET');
+        const secret = await this.resolveSecret(request);
 
         if (!signature || !timestamp || !secret) {
             this.logger.warn('HMAC validation failed: Missing signature, timestamp, or secret');
@@ -50,10 +58,11 @@ export class HmacGuard implements CanActivate {
             .digest('hex');
 
         // Constant-time comparison to prevent timing attacks
-        const isMatched = timingSafeEqual(
-            Buffer.from(signature, 'hex'),
-            Buffer.from(expectedSignature, 'hex')
-        );
+        // (timingSafeEqual throws on length mismatch, so check that first)
+        const signatureBuffer = Buffer.from(String(signature), 'hex');
+        const expectedBuffer = Buffer.from(expectedSignature, 'hex');
+        const isMatched = signatureBuffer.length === expectedBuffer.length &&
+            timingSafeEqual(signatureBuffer, expectedBuffer);
 
         if (!isMatched) {
             this.logger.warn('HMAC validation failed: Invalid signature match');
@@ -0,0 +1,43 @@
+import { normalizeFieldKey, contactPhoneKey, coerceFieldValue, applyFieldValues } from './contact-fields.util';
+
+describe('contact-fields.util', () => {
+    const fields = [
+        { key: 'cidade', label: 'Cidade', type: 'text', options: [] },
+        { key: 'pontos', label: 'Pontos', type: 'number', options: [] },
+        { key: 'nascimento', label: 'Nascimento', type: 'date', options: [] },
+        { key: 'plano', label: 'Plano', type: 'select', options: ['Básico', 'Pro'] },
+    ];
+
+    it('should normalize field keys', () => {
+        expect(normalizeFieldKey('Data de Nascimento')).toBe('data_de_nascimento');
+        expect(normalizeFieldKey('  Cidade! ')).toBe('cidade');
+        expect(normalizeFieldKey('1campo')).toBeNull();
+        expect(normalizeFieldKey('name')).toBeNull();
+        expect(normalizeFieldKey('')).toBeNull();
+    });
+
+    it('should key contacts by the number part of the JID', () => {
+        expect(contactPhoneKey('5511999999999@s.whatsapp.net')).toBe('5511999999999');
+        expect(contactPhoneKey('5511999999999:12@s.whatsapp.net')).toBe('5511999999999');
+        expect(contactPhoneKey('123456@lid')).toBe('123456');
+        expect(contactPhoneKey('1203630@g.us')).toBeNull();
+    });
+
+    it('should coerce values by field type', () => {
+        expect(coerceFieldValue(fields[1], '1.234,5')).toBe(1234.5);
+        expect(coerceFieldValue(fields[1], '42')).toBe(42);
+        expect(coerceFieldValue(fields[2], '31/12/1990')).toBe('1990-12-31');
+        expect(coerceFieldValue(fields[2], '1990-12-31T10:00:00Z')).toBe('1990-12-31');
+        expect(coerceFieldValue(fields[3], 'pro')).toBe('Pro');
+        expect(coerceFieldValue(fields[0], '  ')).toBeNull();
+        expect(() => coerceFieldValue(fields[1], 'abc')).toThrow('expects a number');
+        expect(() => coerceFieldValue(fields[2], '31/02/1990')).toThrow('expects a date');
+        expect(() => coerceFieldValue(fields[3], 'Gold')).toThrow('Básico, Pro');
+    });
+
+    it('should apply updates and clear empty values', () => {
+        const result = applyFieldValues(fields, { cidade: 'Recife', pontos: 3 }, { pontos: '10', cidade: '' });
+        expect(result).toEqual({ pontos: 10 });
+        expect(() => applyFieldValues(fields, {}, { outro: 'x' })).toThrow('Unknown contact field "outro"');
+    });
+});
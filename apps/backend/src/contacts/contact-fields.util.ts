@@ -0,0 +1,105 @@
+/**
+ * Custom contact fields: key normalization and typed value coercion.
+ * Values are stored in Contact.fields keyed by ContactField.key.
+ */
+
+export const CONTACT_FIELD_TYPES = ['text', 'number', 'date', 'select'] as const;
+export type ContactFieldType = typeof CONTACT_FIELD_TYPES[number];
+
+export interface ContactFieldDefinition {
+    key: string;
+    label: string;
+    type: string;
+    options: string[];
+}
+
+/** Built-in keys of {{contact.*}}; custom fields cannot shadow them */
+export const RESERVED_CONTACT_KEYS = ['id', 'name', 'phone', 'phoneNumber', 'avatarUrl', 'tags', 'stage'];
+
+/**
+ * "Data de Nascimento" -> "data_de_nascimento". Returns null when the key is
+ * empty, does not start with a letter or is reserved.
+ */
+export function normalizeFieldKey(raw: string | undefined | null): string | null {
+    const key = (raw || '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '');
+
+    if (!/^[a-z][a-z0-9_]{0,39}$/.test(key)) return null;
+    if (RESERVED_CONTACT_KEYS.some((k) => k.toLowerCase() === key)) return null;
+    return key;
+}
+
+/**
+ * Number part of a WhatsApp JID, used as the contact key.
+ * Groups have no contact.
+ */
+export function contactPhoneKey(contactPhone: string | undefined | null): string | null {
+    if (!contactPhone || contactPhone.endsWith('@g.us')) return null;
+    const phone = contactPhone.split('@')[0].split(':')[0].replace(/\D/g, '');
+    return phone || null;
+}
+
+/**
+ * Coerce a raw value to the field type. Empty values return null (clears
+ * the field); invalid values throw with a message fit for the user.
+ */
+export function coerceFieldValue(field: ContactFieldDefinition, value: unknown): string | number | null {
+    if (value === undefined || value === null) return null;
+    const text = String(value).trim();
+    if (!text) return null;
+
+    switch (field.type) {
+        case 'number': {
+            // Accept "1.234,56" as well as "1234.56"
+            const normalized = text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text;
+            const num = Number(normalized);
+            if (!Number.isFinite(num)) throw new Error(`Field "${field.label}" expects a number`);
+            return num;
+        }
+
+        case 'date': {
+            const br = text.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+            const iso = br ? `${br[3]}-${br[2]}-${br[1]}` : text.slice(0, 10);
+            const date = new Date(`${iso}T00:00:00Z`);
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(iso) || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== iso) {
+                throw new Error(`Field "${field.label}" expects a date (YYYY-MM-DD or DD/MM/YYYY)`);
+            }
+            return iso;
+        }
+
+        case 'select': {
+            const option = field.options.find((o) => o.toLowerCase() === text.toLowerCase());
+            if (!option) throw new Error(`Field "${field.label}" expects one of: ${field.options.join(', ')}`);
+            return option;
+        }
+
+        default:
+            return text;
+    }
+}
+
+/**
+ * Apply updates (key -> raw value) to the stored values. Unknown keys throw;
+ * empty values remove the key.
+ */
+export function applyFieldValues(
+    definitions: ContactFieldDefinition[],
+    current: Record<string, any>,
+    updates: Record<string, unknown>,
+): Record<string, any> {
+    const result = { ...current };
+    for (const [key, raw] of Object.entries(updates)) {
+        const field = definitions.find((f) => f.key === key);
+        if (!field) throw new Error(`Unknown contact field "${key}"`);
+
+        const value = coerceFieldValue(field, raw);
+        if (value === null) delete result[key];
+        else result[key] = value;
+    }
+    return result;
+}
@@ -0,0 +1,71 @@
+import { Controller, Get, Post, Put, Patch, Delete, Param, Body, Query, UseGuards, Request } from '@nestjs/common';
+import { ApiKeyScope } from '@n9n/shared';
+import { ContactsService, ContactFieldInput, ContactUpdateInput } from './contacts.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { AllowApiKey } from '../auth/decorators/api-key-scope.decorator';
+import { Audit } from '../audit/audit.decorator';
+
+@Controller('contacts')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('inbox:view')
+export class ContactsController {
+    constructor(private readonly contactsService: ContactsService) { }
+
+    @Get()
+    @AllowApiKey(ApiKeyScope.CONTACTS_MANAGE)
+    async list(
+        @Request() req: any,
+        @Query('search') search?: string,
+        @Query('page') page: string = '1',
+        @Query('limit') limit: string = '50',
+    ) {
+        return this.contactsService.list(req.user.tenantId, {
+            search,
+            page: Math.max(1, Number(page) || 1),
+            limit: Math.min(100, Math.max(1, Number(limit) || 50)),
+        });
+    }
+
+    @Get('fields')
+    @RequirePermissions('inbox:view', 'settings:view', 'workflows:edit')
+    async listFields(@Request() req: any) {
+        return this.contactsService.listFields(req.user.tenantId);
+    }
+
+    @Post('fields')
+    @RequirePermissions('settings:edit')
+    @Audit('contact_field.create')
+    async createField(@Request() req: any, @Body() body: ContactFieldInput) {
+        return this.contactsService.createField(req.user.tenantId, body);
+    }
+
+    @Put('fields/:id')
+    @RequirePermissions('settings:edit')
+    @Audit('contact_field.update')
+    async updateField(@Request() req: any, @Param('id') id: string, @Body() body: ContactFieldInput) {
+        return this.contactsService.updateField(req.user.tenantId, id, body);
+    }
+
+    @Delete('fields/:id')
+    @RequirePermissions('settings:edit')
+    @Audit('contact_field.delete')
+    async removeField(@Request() req: any, @Param('id') id: string) {
+        return this.contactsService.removeField(req.user.tenantId, id);
+    }
+
+    @Get(':id')
+    @AllowApiKey(ApiKeyScope.CONTACTS_MANAGE)
+    async get(@Request() req: any, @Param('id') id: string) {
+        return this.contactsService.get(req.user.tenantId, id);
+    }
+
+    @Patch(':id')
+    @RequirePermissions('inbox:edit')
+    @AllowApiKey(ApiKeyScope.CONTACTS_MANAGE)
+    @Audit('contact.update')
+    async update(@Request() req: any, @Param('id') id: string, @Body() body: ContactUpdateInput) {
+        return this.contactsService.update(req.user.tenantId, id, body);
+    }
+}
@@ -0,0 +1,288 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { Contact, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+    CONTACT_FIELD_TYPES,
+    ContactFieldType,
+    ContactFieldDefinition,
+    normalizeFieldKey,
+    contactPhoneKey,
+    applyFieldValues,
+} from './contact-fields.util';
+
+export interface ContactFieldInput {
+    key?: string;
+    label: string;
+    type?: ContactFieldType;
+    options?: string[];
+    order?: number;
+}
+
+export interface ContactUpdateInput {
+    name?: string | null;
+    fields?: Record<string, unknown>;
+}
+
+export interface ContactListOptions {
+    search?: string;
+    page: number;
+    limit: number;
+}
+
+/**
+ * One contact per tenant + number. Conversations link to it; tags, stage,
+ * reputation, lead origin and list memberships are looked up by number.
+ */
+@Injectable()
+export class ContactsService {
+    constructor(private prisma: PrismaService) { }
+
+    async list(tenantId: string, options: ContactListOptions) {
+        const { page, limit } = options;
+        const search = options.search?.trim();
+        const where: Prisma.ContactWhereInput = { tenantId };
+        if (search) {
+            where.OR = [
+                { name: { contains: search, mode: 'insensitive' } },
+                { phone: { contains: search.replace(/\D/g, '') || search } },
+            ];
+        }
+
+        const [contacts, total] = await Promise.all([
+            this.prisma.contact.findMany({
+                where,
+                orderBy: { updatedAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            this.prisma.contact.count({ where }),
+        ]);
+
+        return {
+            data: contacts,
+            meta: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    }
+
+    /**
+     * Contact with everything linked to its number
+     */
+    async get(tenantId: string, id: string) {
+        const contact = await this.getContact(tenantId, id);
+        const phone = contact.phone;
+        const jidMatch = { startsWith: `${phone}@` };
+
+        const [conversations, tags, reputation, leadOrigins, listItems] = await Promise.all([
+            this.prisma.conversation.findMany({
+                where: { tenantId, contactId: contact.id },
+                select: {
+                    id: true, sessionId: true, contactPhone: true, status: true, lastMessage: true, lastMessageAt: true,
+                    session: { select: { name: true } },
+                },
+                orderBy: { lastMessageAt: 'desc' },
+            }),
+            this.prisma.contactTag.findMany({
+                where: { tenantId, contactPhone: jidMatch },
+                select: { sessionId: true, tags: true, stage: true },
+            }),
+            this.prisma.contactReputation.findFirst({
+                where: { tenantId, phone: { in: [phone, `${phone}@s.whatsapp.net`] } },
+            }),
+            this.prisma.leadOrigin.findMany({
+                where: { tenantId, OR: [{ contactPhone: phone }, { contactPhone: jidMatch }] },
+                orderBy: { receivedAt: 'desc' },
+                take: 10,
+            }),
+            this.prisma.contactListItem.findMany({
+                where: { contactList: { tenantId }, OR: [{ phone }, { phone: jidMatch }] },
+                select: { contactList: { select: { id: true, name: true } } },
+            }),
+        ]);
+
+        return {
+            ...contact,
+            conversations,
+            tags,
+            reputation: reputation
+                ? { score: reputation.score, quarantineUntil: reputation.quarantineUntil, lastRespondedAt: reputation.lastRespondedAt }
+                : null,
+            leadOrigins,
+            lists: listItems.map((i) => i.contactList),
+        };
+    }
+
+    async update(tenantId: string, id: string, input: ContactUpdateInput) {
+        const contact = await this.getContact(tenantId, id);
+        const definitions = await this.listFields(tenantId);
+        try {
+            return await this.applyUpdate(contact, input, definitions);
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError) throw error;
+            throw new BadRequestException(error.message);
+        }
+    }
+
+    // ── Field definitions ────────────────────────────────────────────────────
+
+    async listFields(tenantId: string) {
+        return this.prisma.contactField.findMany({
+            where: { tenantId },
+            orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+        });
+    }
+
+    async createField(tenantId: string, input: ContactFieldInput) {
+        const key = normalizeFieldKey(input?.key || input?.label);
+        if (!key) {
+            throw new BadRequestException('Key must start with a letter and cannot be a built-in contact field');
+        }
+
+        const existing = await this.prisma.contactField.findUnique({ where: { tenantId_key: { tenantId, key } } });
+        if (existing) throw new ConflictException(`Field "${key}" already exists`);
+
+        return this.prisma.contactField.create({
+            data: { tenantId, key, ...this.validateField(input) },
+        });
+    }
+
+    /** The key is fixed once created: flows reference it as {{contact.key}} */
+    async updateField(tenantId: string, id: string, input: ContactFieldInput) {
+        await this.getField(tenantId, id);
+        return this.prisma.contactField.update({
+            where: { id },
+            data: this.validateField(input),
+        });
+    }
+
+    async removeField(tenantId: string, id: string) {
+        const field = await this.getField(tenantId, id);
+        await this.prisma.contactField.delete({ where: { id } });
+        await this.prisma.$executeRaw`
+            UPDATE contacts SET fields = fields - ${field.key}
+            WHERE "tenantId" = ${tenantId}
+        `;
+        return { success: true };
+    }
+
+    // ── Inbox and flows ──────────────────────────────────────────────────────
+
+    /**
+     * Link a conversation's contact, creating it on first sight.
+     * WhatsApp names only fill contacts that have no name yet.
+     */
+    async syncFromConversation(
+        tenantId: string,
+        contactPhone: string,
+        data: { name?: string | null; avatarUrl?: string | null },
+    ): Promise<string | null> {
+        const phone = contactPhoneKey(contactPhone);
+        if (!phone) return null;
+
+        const contact = await this.prisma.contact.upsert({
+            where: { tenantId_phone: { tenantId, phone } },
+            update: {},
+            create: { tenantId, phone, name: data.name || null, avatarUrl: data.avatarUrl || null },
+        });
+
+        if ((data.name && !contact.name) || (data.avatarUrl && !contact.avatarUrl)) {
+            await this.prisma.contact.update({
+                where: { id: contact.id },
+                data: {
+                    ...(data.name && !contact.name ? { name: data.name } : {}),
+                    ...(data.avatarUrl && !contact.avatarUrl ? { avatarUrl: data.avatarUrl } : {}),
+                },
+            });
+        }
+
+        return contact.id;
+    }
+
+    /**
+     * {{contact.*}} values for a flow: custom fields plus id and name.
+     * Null when the contact has no record yet.
+     */
+    async getForFlow(tenantId: string, contactPhone: string): Promise<Record<string, any> | null> {
+        const phone = contactPhoneKey(contactPhone);
+        if (!phone) return null;
+
+        const contact = await this.prisma.contact.findUnique({ where: { tenantId_phone: { tenantId, phone } } });
+        return contact ? this.toFlowContact(contact) : null;
+    }
+
+    /**
+     * UPDATE_CONTACT node. Creates the contact when missing; invalid values throw.
+     */
+    async updateFromFlow(tenantId: string, contactPhone: string, input: ContactUpdateInput): Promise<Record<string, any>> {
+        const phone = contactPhoneKey(contactPhone);
+        if (!phone) throw new Error('Contacts are not available for groups');
+
+        const contact = await this.prisma.contact.upsert({
+            where: { tenantId_phone: { tenantId, phone } },
+            update: {},
+            create: { tenantId, phone },
+        });
+        const updated = await this.applyUpdate(contact, input, await this.listFields(tenantId));
+        return this.toFlowContact(updated);
+    }
+
+    /** Field values are validated before anything is written; invalid ones throw */
+    private async applyUpdate(contact: Contact, input: ContactUpdateInput, definitions: ContactFieldDefinition[]) {
+        const data: Prisma.ContactUpdateInput = {};
+        if (input.name !== undefined) data.name = input.name?.trim() || null;
+
+        if (input.fields && Object.keys(input.fields).length) {
+            data.fields = applyFieldValues(definitions, (contact.fields as Record<string, any>) || {}, input.fields);
+        }
+
+        return this.prisma.contact.update({ where: { id: contact.id }, data });
+    }
+
+    private toFlowContact(contact: Contact): Record<string, any> {
+        return {
+            ...((contact.fields as Record<string, any>) || {}),
+            id: contact.id,
+            name: contact.name || '',
+            phone: contact.phone,
+        };
+    }
+
+    private async getContact(tenantId: string, id: string) {
+        const contact = await this.prisma.contact.findFirst({ where: { id, tenantId } });
+        if (!contact) throw new NotFoundException('Contact not found');
+        return contact;
+    }
+
+    private async getField(tenantId: string, id: string) {
+        const field = await this.prisma.contactField.findFirst({ where: { id, tenantId } });
+        if (!field) throw new NotFoundException('Contact field not found');
+        return field;
+    }
+
+    private validateField(input: ContactFieldInput) {
+        if (!input?.label?.trim()) throw new BadRequestException('Label is required');
+
+        const type = input.type || 'text';
+        if (!CONTACT_FIELD_TYPES.includes(type)) {
+            throw new BadRequestException(`Type must be one of: ${CONTACT_FIELD_TYPES.join(', ')}`);
+        }
+
+        const options = type === 'select'
+            ? [...new Set((input.options || []).map((o) => String(o).trim()).filter(Boolean))]
+            : [];
+        if (type === 'select' && !options.length) {
+            throw new BadRequestException('Select fields need at least one option');
+        }
+
+        return {
+            label: input.label.trim(),
+            type,
+            options,
+            ...(input.order !== undefined ? { order: Number(input.order) || 0 } : {}),
+        };
+    }
+}
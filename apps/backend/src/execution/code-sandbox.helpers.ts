@@ -0,0 +1,252 @@
+/**
+ * Helpers exposed to CODE nodes inside the sandbox worker. Nothing here may
+ * hand out Node APIs — only plain data and DOM objects.
+ */
+
+/** Build the HTML helpers (parseHTML, createHelpers, ...) on top of a JSDOM constructor */
+export function createHtmlHelpers(JSDOM: any) {
+  const parseHTML = (htmlString: string) => {
+    const dom = new JSDOM(htmlString);
+    return dom.window.document;
+  };
+
+  const getHTMLDocument = (htmlString: string) => parseHTML(htmlString);
+
+  const nodeListToArray = (nodeList: any) => Array.from(nodeList);
+
+  const createHelpers = (htmlString: string) => {
+    const doc = parseHTML(htmlString);
+
+    return {
+      // querySelector shortcut - returns first matching element
+      $: (selector: string) => doc.querySelector(selector),
+
+      // querySelectorAll shortcut - returns array of matching elements
+      $$: (selector: string) => Array.from(doc.querySelectorAll(selector)),
+
+      // Get text content from selector or element
+      getText: (selectorOrElement: string | any) => {
+        const el = typeof selectorOrElement === 'string'
+          ? doc.querySelector(selectorOrElement)
+          : selectorOrElement;
+        return el?.textContent?.trim() || '';
+      },
+
+      // Get attribute from selector or element
+      getAttr: (selectorOrElement: string | any, attrName: string) => {
+        const el = typeof selectorOrElement === 'string'
+          ? doc.querySelector(selectorOrElement)
+          : selectorOrElement;
+        return el?.getAttribute(attrName) || '';
+      },
+
+      // Map over elements and extract data
+      mapElements: (selector: string, mapFn: (el: any, index: number) => any) => {
+        const elements = Array.from(doc.querySelectorAll(selector));
+        return elements.map(mapFn);
+      },
+
+      // Get all text from multiple elements
+      getAllText: (selector: string) => {
+        const elements = Array.from(doc.querySelectorAll(selector));
+        return elements.map((el: any) => el.textContent?.trim() || '');
+      },
+
+      // Get all attributes from multiple elements
+      getAllAttrs: (selector: string, attrName: string) => {
+        const elements = Array.from(doc.querySelectorAll(selector));
+        return elements.map((el: any) => el.getAttribute(attrName) || '');
+      },
+
+      // Direct access to document for advanced queries
+      doc,
+    };
+  };
+
+  return { parseHTML, getHTMLDocument, nodeListToArray, createHelpers };
+}
+
+/** Placeholders used when jsdom is not loaded for the run */
+export function createUnavailableHtmlHelpers() {
+  const unavailable = () => {
+    throw new Error('HTML helpers are not available in this run');
+  };
+  return {
+    parseHTML: unavailable,
+    getHTMLDocument: unavailable,
+    nodeListToArray: (nodeList: any) => Array.from(nodeList),
+    createHelpers: unavailable,
+  };
+}
+
+const toPath = (path: string | Array<string | number>): Array<string | number> =>
+  Array.isArray(path) ? path : String(path).replace(/\[(\w+)\]/g, '.$1').split('.').filter(Boolean);
+
+const iteratee = (fn: any) => (typeof fn === 'function' ? fn : (item: any) => get(item, fn));
+
+function get(obj: any, path: string | Array<string | number>, defaultValue?: any) {
+  let current = obj;
+  for (const key of toPath(path)) {
+    if (current === null || current === undefined) return defaultValue;
+    current = current[key];
+  }
+  return current === undefined ? defaultValue : current;
+}
+
+/** Small lodash-style utility belt, exposed as `_` */
+export const sandboxUtils = Object.freeze({
+  get,
+  has: (obj: any, path: string | Array<string | number>) => get(obj, path) !== undefined,
+  pick: (obj: any, keys: string[]) =>
+    Object.fromEntries(keys.filter(key => obj && key in obj).map(key => [key, obj[key]])),
+  omit: (obj: any, keys: string[]) =>
+    Object.fromEntries(Object.entries(obj || {}).filter(([key]) => !keys.includes(key))),
+  chunk: <T>(array: T[], size: number = 1): T[][] => {
+    const result: T[][] = [];
+    const step = Math.max(1, Math.floor(size));
+    for (let i = 0; i < (array || []).length; i += step) result.push(array.slice(i, i + step));
+    return result;
+  },
+  uniq: <T>(array: T[]): T[] => Array.from(new Set(array || [])),
+  uniqBy: <T>(array: T[], fn: any): T[] => {
+    const seen = new Set();
+    const by = iteratee(fn);
+    return (array || []).filter(item => {
+      const key = by(item);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  },
+  flatten: (array: any[]) => (array || []).flat(),
+  compact: <T>(array: T[]): T[] => (array || []).filter(Boolean),
+  groupBy: (array: any[], fn: any) => {
+    const by = iteratee(fn);
+    return (array || []).reduce((groups: Record<string, any[]>, item) => {
+      const key = String(by(item));
+      (groups[key] = groups[key] || []).push(item);
+      return groups;
+    }, {});
+  },
+  keyBy: (array: any[], fn: any) => {
+    const by = iteratee(fn);
+    return Object.fromEntries((array || []).map(item => [String(by(item)), item]));
+  },
+  sortBy: (array: any[], fn: any) => {
+    const by = iteratee(fn);
+    return [...(array || [])].sort((a, b) => {
+      const va = by(a);
+      const vb = by(b);
+      return va < vb ? -1 : va > vb ? 1 : 0;
+    });
+  },
+  sum: (array: number[]) => (array || []).reduce((total, n) => total + (Number(n) || 0), 0),
+  sumBy: (array: any[], fn: any) => {
+    const by = iteratee(fn);
+    return (array || []).reduce((total, item) => total + (Number(by(item)) || 0), 0);
+  },
+  mean: (array: number[]) => (array?.length ? array.reduce((t, n) => t + Number(n), 0) / array.length : NaN),
+  min: (array: number[]) => (array?.length ? Math.min(...array) : undefined),
+  max: (array: number[]) => (array?.length ? Math.max(...array) : undefined),
+  range: (start: number, end?: number, step: number = 1) => {
+    const [from, to] = end === undefined ? [0, start] : [start, end];
+    const result: number[] = [];
+    if (!step) return result;
+    for (let i = from; step > 0 ? i < to : i > to; i += step) result.push(i);
+    return result;
+  },
+  capitalize: (value: string) => {
+    const str = String(value ?? '').toLowerCase();
+    return str.charAt(0).toUpperCase() + str.slice(1);
+  },
+  isEmpty: (value: any) =>
+    value === null || value === undefined ||
+    (typeof value === 'string' || Array.isArray(value) ? value.length === 0 : typeof value === 'object' && Object.keys(value).length === 0),
+});
+
+/**
+ * Convert a value into something that can be structured-cloned back to the
+ * main thread (DOM nodes, functions and cycles are flattened).
+ */
+export function sanitizeForSerialization(value: any, visited = new WeakSet()): any {
+  // Handle null/undefined
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  // Handle functions
+  if (typeof value === 'function') {
+    return '[Function]';
+  }
+
+  // Handle primitives
+  if (typeof value !== 'object') {
+    return value;
+  }
+
+  // Prevent circular references
+  if (visited.has(value)) {
+    return '[Circular]';
+  }
+
+  // Handle DOM nodes and window objects
+  if (value.nodeType !== undefined || value.document !== undefined || value.window !== undefined) {
+    // If it's a document, try to extract useful information
+    if (value.documentElement) {
+      return {
+        type: 'Document',
+        title: value.title || null,
+        url: value.URL || value.location?.href || null,
+        html: value.documentElement.outerHTML || null,
+      };
+    }
+    // If it's a DOM element, extract useful properties
+    if (value.tagName) {
+      return {
+        type: 'Element',
+        tagName: value.tagName || null,
+        textContent: value.textContent || null,
+        innerHTML: value.innerHTML || null,
+        outerHTML: value.outerHTML || null,
+        attributes: value.attributes ? Array.from(value.attributes).map((attr: any) => ({
+          name: attr.name,
+          value: attr.value,
+        })) : [],
+      };
+    }
+    // For other DOM objects (like location), extract string properties
+    const sanitized: any = { type: value.constructor?.name || 'DOMObject' };
+    for (const key in value) {
+      if (typeof value[key] === 'string' || typeof value[key] === 'number' || typeof value[key] === 'boolean') {
+        sanitized[key] = value[key];
+      }
+    }
+    return sanitized;
+  }
+
+  // Handle Date (values from the vm context belong to another realm, so no instanceof)
+  if (Object.prototype.toString.call(value) === '[object Date]') {
+    return isNaN(value.getTime()) ? null : value.toISOString();
+  }
+
+  // Handle arrays
+  if (Array.isArray(value)) {
+    visited.add(value);
+    return value.map((item) => sanitizeForSerialization(item, visited));
+  }
+
+  // Handle plain objects
+  visited.add(value);
+  const sanitized: any = {};
+  for (const key in value) {
+    if (Object.prototype.hasOwnProperty.call(value, key)) {
+      const propValue = value[key];
+      // Skip functions
+      if (typeof propValue === 'function') {
+        continue;
+      }
+      sanitized[key] = sanitizeForSerialization(propValue, visited);
+    }
+  }
+  return sanitized;
+}
@@ -0,0 +1,86 @@
+import * as vm from 'vm';
+import { buildSandboxSource, locateSandboxError, SANDBOX_FILENAME } from './code-sandbox';
+import { sandboxUtils, sanitizeForSerialization } from './code-sandbox.helpers';
+
+describe('code-sandbox', () => {
+  describe('buildSandboxSource', () => {
+    it('should inject only valid, non-conflicting variable names', () => {
+      const { source } = buildSandboxSource('return 1;', ['name', 'bad-key', 'class', 'input', 'scrapeResponse']);
+      expect(source).toContain('const name = variables["name"];');
+      expect(source).not.toContain('bad-key');
+      expect(source).not.toContain('const class');
+      expect(source).not.toContain('const input = variables');
+    });
+
+    it('should place user code right after the prelude', () => {
+      const { source, lineOffset } = buildSandboxSource('return 42;', ['a']);
+      expect(source.split('\n')[lineOffset]).toBe('return 42;');
+    });
+  });
+
+  describe('locateSandboxError', () => {
+    it('should map runtime errors back to user code lines', () => {
+      const { source, lineOffset } = buildSandboxSource('const a = 1;\nreturn missing + a;', []);
+      const context = vm.createContext({
+        __payload: JSON.stringify({ variables: {}, globals: {}, input: {} }),
+        createHelpers: () => ({}),
+      });
+
+      let stack: string | undefined;
+      try {
+        new vm.Script(source, { filename: SANDBOX_FILENAME }).runInContext(context);
+      } catch (error) {
+        stack = error.stack;
+      }
+
+      expect(locateSandboxError(stack, lineOffset).line).toBe(2);
+    });
+
+    it('should map syntax errors back to user code lines', () => {
+      const { source, lineOffset } = buildSandboxSource('const a = 1;\nconst b = ;', []);
+
+      let stack: string | undefined;
+      try {
+        new vm.Script(source, { filename: SANDBOX_FILENAME });
+      } catch (error) {
+        stack = error.stack;
+      }
+
+      expect(locateSandboxError(stack, lineOffset).line).toBe(2);
+    });
+
+    it('should ignore frames outside the user code', () => {
+      expect(locateSandboxError(`Error\n    at ${SANDBOX_FILENAME}:3:5`, 10)).toEqual({});
+      expect(locateSandboxError(undefined, 10)).toEqual({});
+    });
+  });
+
+  describe('sandboxUtils', () => {
+    it('should read nested paths', () => {
+      expect(sandboxUtils.get({ a: { b: [{ c: 1 }] } }, 'a.b[0].c')).toBe(1);
+      expect(sandboxUtils.get({}, 'a.b', 'fallback')).toBe('fallback');
+    });
+
+    it('should group, chunk and sum', () => {
+      expect(sandboxUtils.groupBy([{ t: 'x' }, { t: 'y' }, { t: 'x' }], 't')).toEqual({
+        x: [{ t: 'x' }, { t: 'x' }],
+        y: [{ t: 'y' }],
+      });
+      expect(sandboxUtils.chunk([1, 2, 3], 2)).toEqual([[1, 2], [3]]);
+      expect(sandboxUtils.sumBy([{ v: 1 }, { v: 2 }], 'v')).toBe(3);
+    });
+  });
+
+  describe('sanitizeForSerialization', () => {
+    it('should flatten functions, dates and cycles', () => {
+      const value: any = { fn: () => 1, when: new Date(0), list: [() => 2] };
+      value.self = value;
+
+      expect(sanitizeForSerialization(value)).toEqual({
+        when: '1970-01-01T00:00:00.000Z',
+        list: ['[Function]'],
+        self: '[Circular]',
+      });
+    });
+  });
+});
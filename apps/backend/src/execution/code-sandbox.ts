@@ -0,0 +1,198 @@
+import { Worker } from 'worker_threads';
+import * as path from 'path';
+
+/** Filename user code is compiled under — stack frames carry it */
+export const SANDBOX_FILENAME = 'code-node.js';
+
+/** Extra wall-clock time for worker boot (jsdom load) on top of the CPU timeout */
+const WORKER_BOOT_GRACE_MS = 5000;
+
+/** Names declared by the wrapper itself; variables with these names are not re-injected */
+const WRAPPER_NAMES = new Set([
+  'variables', 'globals', 'input', 'scrapeResponse', 'contactTags', 'triggerMessage',
+  'html', 'helpers', '$', '$$', 'getText', 'getAttr', 'mapElements', 'getAllText',
+  'getAllAttrs', 'doc', 'parseHTML', 'getHTMLDocument', 'nodeListToArray', 'createHelpers',
+  '_', 'console', 'JSON',
+]);
+
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+  'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if',
+  'import', 'in', 'instanceof', 'let', 'new', 'null', 'return', 'static', 'super', 'switch',
+  'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield', 'await',
+  'implements', 'interface', 'package', 'private', 'protected', 'public', 'arguments', 'eval',
+]);
+
+export interface CodeSandboxOptions {
+  timeoutMs: number;
+  memoryLimitMb: number;
+}
+
+export interface CodeSandboxData {
+  variables: Record<string, any>;
+  globals: Record<string, any>;
+  input: Record<string, any>;
+}
+
+export interface CodeSandboxResult {
+  result: any;
+  logs: string[];
+}
+
+/** Worker → main thread message */
+export type CodeSandboxMessage =
+  | { ok: true; result: any; logs: string[] }
+  | { ok: false; error: { name: string; message: string; line?: number; column?: number }; logs: string[] };
+
+export class CodeSandboxError extends Error {
+  constructor(
+    message: string,
+    name: string = 'Error',
+    public readonly line?: number,
+    public readonly column?: number,
+    public readonly logs: string[] = [],
+  ) {
+    super(line ? `Line ${line}${column ? `:${column}` : ''}: ${message}` : message);
+    this.name = name;
+  }
+}
+
+/**
+ * Wrap user code with the helper/variable prelude. Everything is read from
+ * context globals so the code runs (and is timed) inside `runInContext`.
+ * `lineOffset` is the number of prelude lines before the first user line.
+ */
+export function buildSandboxSource(code: string, variableNames: string[]): { source: string; lineOffset: number } {
+  const injected = variableNames
+    .filter(name => /^[A-Za-z_$][\w$]*$/.test(name) && !WRAPPER_NAMES.has(name) && !RESERVED_WORDS.has(name))
+    .map(name => `  const ${name} = variables[${JSON.stringify(name)}];`);
+
+  const prelude = [
+    '(function () {',
+    '  const { variables, globals, input } = JSON.parse(__payload);',
+    '  const scrapeResponse = variables.scrapeResponse || null;',
+    '  const contactTags = variables.contactTags || [];',
+    "  const triggerMessage = variables.triggerMessage || '';",
+    '  const html = (scrapeResponse && scrapeResponse.html) || null;',
+    '  const helpers = html ? createHelpers(html) : {',
+    "    $: () => null, $$: () => [], getText: () => '', getAttr: () => '',",
+    '    mapElements: () => [], getAllText: () => [], getAllAttrs: () => [], doc: null,',
+    '  };',
+    '  const { $, $$, getText, getAttr, mapElements, getAllText, getAllAttrs, doc } = helpers;',
+    ...injected,
+    '  return (function () {',
+  ];
+
+  const source = [...prelude, code, '  })();', '})()'].join('\n');
+  return { source, lineOffset: prelude.length };
+}
+
+/**
+ * Find the user-code position of an error from its stack
+ * (`code-node.js:LINE:COL` frames), relative to the start of the user code.
+ */
+export function locateSandboxError(stack: string | undefined, lineOffset: number): { line?: number; column?: number } {
+  if (!stack) return {};
+  const escaped = SANDBOX_FILENAME.replace(/\./g, '\\.');
+  // Prefer a call frame (line:column); syntax errors only carry the line
+  const match = stack.match(new RegExp(`${escaped}:(\\d+):(\\d+)`))
+    || stack.match(new RegExp(`${escaped}:(\\d+)`));
+  if (!match) return {};
+
+  const line = Number(match[1]) - lineOffset;
+  if (line < 1) return {};
+  return { line, column: match[2] ? Number(match[2]) : undefined };
+}
+
+/**
+ * Built code runs the compiled .js worker. Under the `dev` script
+ * (ts-node-dev) this module is a .ts source, so the worker is the .ts
+ * source too and needs ts-node registered in its thread.
+ */
+function resolveWorkerEntry(): { filename: string; execArgv: string[] } {
+  if (path.extname(__filename) === '.ts') {
+    return {
+      filename: path.join(__dirname, 'code-sandbox.worker.ts'),
+      execArgv: ['-r', 'ts-node/register/transpile-only'],
+    };
+  }
+  return { filename: path.join(__dirname, 'code-sandbox.worker.js'), execArgv: [] };
+}
+
+/** Whether the run needs jsdom loaded in the worker */
+function needsDom(code: string, variables: Record<string, any>): boolean {
+  return !!variables?.scrapeResponse?.html || /\b(parseHTML|getHTMLDocument|createHelpers)\b/.test(code);
+}
+
+/**
+ * Run CODE node JavaScript in a dedicated worker thread. The worker has an
+ * empty environment and a heap cap; the code itself runs in a `vm` context
+ * without Node globals or string code generation. A hung worker is
+ * terminated once the timeout (plus boot grace) passes.
+ */
+export function runCodeInSandbox(
+  code: string,
+  data: CodeSandboxData,
+  options: CodeSandboxOptions,
+): Promise<CodeSandboxResult> {
+  const { source, lineOffset } = buildSandboxSource(code, Object.keys(data.variables || {}));
+
+  const entry = resolveWorkerEntry();
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(entry.filename, {
+      execArgv: entry.execArgv,
+      workerData: {
+        source,
+        lineOffset,
+        payload: JSON.stringify(data),
+        needsDom: needsDom(code, data.variables),
+        timeoutMs: options.timeoutMs,
+      },
+      env: {},
+      resourceLimits: {
+        maxOldGenerationSizeMb: options.memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.min(16, options.memoryLimitMb),
+        stackSizeMb: 4,
+      },
+    });
+
+    let settled = false;
+    const finish = (settle: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.terminate().catch(() => undefined);
+      settle();
+    };
+
+    const timer = setTimeout(() => {
+      finish(() => reject(new CodeSandboxError(`Code execution timed out after ${options.timeoutMs}ms`, 'TimeoutError')));
+    }, options.timeoutMs + WORKER_BOOT_GRACE_MS);
+
+    worker.once('message', (message: CodeSandboxMessage) => {
+      finish(() => {
+        if (message.ok) {
+          resolve({ result: message.result, logs: message.logs });
+        } else {
+          const { name, message: text, line, column } = message.error;
+          reject(new CodeSandboxError(text, name, line, column, message.logs));
+        }
+      });
+    });
+
+    worker.once('error', (error: any) => {
+      finish(() => {
+        if (error?.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+          reject(new CodeSandboxError(`Code exceeded the ${options.memoryLimitMb}MB memory limit`, 'MemoryLimitError'));
+        } else {
+          reject(new CodeSandboxError(error?.message || 'Code sandbox failed', error?.name));
+        }
+      });
+    });
+
+    worker.once('exit', (exitCode) => {
+      finish(() => reject(new CodeSandboxError(`Code sandbox exited unexpectedly (code ${exitCode})`)));
+    });
+  });
+}
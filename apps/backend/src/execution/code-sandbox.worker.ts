@@ -0,0 +1,102 @@
+import { parentPort, workerData } from 'worker_threads';
+import * as vm from 'vm';
+import { inspect } from 'util';
+import { SANDBOX_FILENAME, CodeSandboxMessage, locateSandboxError } from './code-sandbox';
+import {
+  createHtmlHelpers,
+  createUnavailableHtmlHelpers,
+  sandboxUtils,
+  sanitizeForSerialization,
+} from './code-sandbox.helpers';
+
+/**
+ * Worker entry for CODE nodes (see runCodeInSandbox). One worker per run;
+ * it is terminated by the main thread as soon as a message arrives.
+ */
+
+const MAX_LOG_ENTRIES = 100;
+const MAX_LOG_LENGTH = 1000;
+
+const { source, lineOffset, payload, needsDom, timeoutMs } = workerData as {
+  source: string;
+  lineOffset: number;
+  payload: string;
+  needsDom: boolean;
+  timeoutMs: number;
+};
+
+/**
+ * Helper functions belong to this worker's realm, so anything reachable
+ * through their prototypes must be harmless: swap `process` for an inert
+ * stub and drop network access.
+ */
+function lockDownRealm() {
+  const realProcess = process;
+  (globalThis as any).process = Object.freeze({
+    version: realProcess.version,
+    versions: Object.freeze({ ...realProcess.versions }),
+    platform: realProcess.platform,
+    env: Object.freeze({}),
+    nextTick: (fn: (...args: any[]) => void, ...args: any[]) => queueMicrotask(() => fn(...args)),
+  });
+  for (const name of ['fetch', 'WebSocket', 'EventSource', 'Request', 'Response', 'Headers', 'FormData']) {
+    delete (globalThis as any)[name];
+  }
+}
+
+function post(message: CodeSandboxMessage) {
+  parentPort!.postMessage(message);
+}
+
+async function run() {
+  const logs: string[] = [];
+  const log = (...args: any[]) => {
+    if (logs.length >= MAX_LOG_ENTRIES) return;
+    const line = args.map(arg => (typeof arg === 'string' ? arg : inspect(arg, { depth: 3 }))).join(' ');
+    logs.push(line.slice(0, MAX_LOG_LENGTH));
+  };
+
+  // jsdom is only loaded when needed, and must be loaded before the realm is locked down
+  const htmlHelpers = needsDom
+    ? createHtmlHelpers((await import('jsdom')).JSDOM)
+    : createUnavailableHtmlHelpers();
+
+  lockDownRealm();
+
+  const context = vm.createContext(
+    {
+      __payload: payload,
+      ...htmlHelpers,
+      _: sandboxUtils,
+      console: Object.freeze({ log, info: log, warn: log, error: log, debug: log }),
+    },
+    {
+      name: 'code-node',
+      codeGeneration: { strings: false, wasm: false },
+    },
+  );
+
+  try {
+    const script = new vm.Script(source, { filename: SANDBOX_FILENAME });
+    let result = script.runInContext(context, { timeout: timeoutMs, breakOnSigint: false });
+    if (result && typeof result.then === 'function') {
+      result = await result;
+    }
+    post({ ok: true, result: sanitizeForSerialization(result), logs });
+  } catch (error: any) {
+    const isTimeout = error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT';
+    const { line, column } = isTimeout ? {} : locateSandboxError(error?.stack, lineOffset);
+    post({
+      ok: false,
+      error: {
+        name: isTimeout ? 'TimeoutError' : String(error?.name || 'Error'),
+        message: isTimeout ? `Code execution timed out after ${timeoutMs}ms` : String(error?.message ?? error),
+        line,
+        column,
+      },
+      logs,
+    });
+  }
+}
+
+run();
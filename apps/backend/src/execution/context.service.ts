@@ -7,12 +7,14 @@ export class ContextService {
   /**
    * Interpolate template string with variables
    * Example: "Hello {{variables.name}}" -> "Hello John"
+   * `escape` is applied to each substituted value, never to the template itself
    */
-  interpolate(template: string, context: ExecutionContext): string {
+  interpolate(template: string, context: ExecutionContext, escape?: (value: string) => string): string {
     if (!template) return '';
     return template.replace(/\{\{([^}]+)\}\}/g, (match, path) => {
       const value = this.getValueByPath(context, path.trim());
-      return value !== undefined ? String(value) : match;
+      if (value === undefined) return match;
+      return escape ? escape(String(value)) : String(value);
     });
   }
 
@@ -1,4 +1,4 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConflictException, Injectable, OnModuleInit } from '@nestjs/common';
 import {
   Workflow,
   WorkflowExecution,
@@ -9,6 +9,8 @@ import {
   RmktConfig,
   PixConfig,
   WaitReplyConfig,
+  CallWorkflowConfig,
+  WaitPollVoteConfig,
 } from '@n9n/shared';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
@@ -19,7 +21,24 @@ import { ExecutionService } from './execution.service';
 import { NodeExecutorService } from './node-executor.service';
 import { WhatsappSenderService } from './whatsapp-sender.service';
 import { ContactTagsService } from './contact-tags.service';
+import { ContactsService } from '../contacts/contacts.service';
 import { ContextService } from './context.service';
+import {
+  DEFAULT_MAX_ITERATIONS,
+  MAX_ITERATIONS_LIMIT,
+  findLoopFrame,
+  getLoopStack,
+  migrateLegacyLoopState,
+  resolveLoopTransition,
+} from './loop-frames';
+import {
+  CALL_STACK_VARIABLE,
+  getCallStack,
+  getCallDenialReason,
+  mergeSubWorkflowOutput,
+} from './sub-workflow.util';
+import { matchPollOption } from '../poll/poll.util';
+import { matchesExpectedReplyType } from './reply-type.util';
 
 // ── Normalize response helper ──────────────────────────────────────────────
 const DEFAULT_POSITIVE_WORDS = ['sim', 's', 'quero', 'claro', 'pode', 'yes', 'quero sim', 'com certeza', 'vai', 'bora', '✅', '👍'];
@@ -34,9 +53,22 @@ function normalizeWaitReplyResponse(messages: string[], positiveWords: string[],
 }
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** BullMQ queue holding delayed WAIT / WAIT_REPLY timers */
+export const WAIT_TIMER_QUEUE = 'wait-timers';
+
+export type WaitTimerJobName = 'wait-resume' | 'wait-reply-timeout';
+
+export interface WaitTimerJobData {
+  executionId: string;
+  tenantId: string;
+  onTimeout?: 'END' | 'GOTO_NODE';
+  timeoutTargetNodeId?: string;
+  config?: any;
+  isRemarketingPhase?: boolean;
+}
+
 @Injectable()
 export class ExecutionEngineService implements OnModuleInit {
-  private activeTimeouts: Map<string, NodeJS.Timeout> = new Map();
   private activeBuffers: Map<string, { messages: string[]; timeoutId: NodeJS.Timeout }> = new Map();
   private static readonly STALE_EXECUTION_MINUTES = 30; // Max time before an execution is considered stale
 
@@ -48,13 +80,15 @@ export class ExecutionEngineService implements OnModuleInit {
     private nodeExecutor: NodeExecutorService,
     private whatsappSender: WhatsappSenderService,
     private contactTagsService: ContactTagsService,
+    private contactsService: ContactsService,
     private contextService: ContextService,
     @InjectQueue('rmkt') private rmktQueue: Queue,
+    @InjectQueue(WAIT_TIMER_QUEUE) private waitTimerQueue: Queue,
   ) { }
 
   /**
-   * On startup: restore pending WAIT timers and clean up truly stale executions
-   * (e.g., from a previous container crash/redeploy)
+   * On startup: reconcile WAITING executions whose timer jobs are missing
+   * and clean up truly stale executions (e.g., from a previous container crash/redeploy)
    */
   async onModuleInit() {
     try {
@@ -80,6 +114,7 @@ export class ExecutionEngineService implements OnModuleInit {
       for (const exec of pendingExecutions) {
         const ctx = exec.context as any;
         const waitResumeAt = ctx?.variables?._waitResumeAt;
+        const waitReplyTimeout = ctx?.variables?._waitReplyTimeout;
 
         if (exec.status === ExecutionStatus.WAITING && waitResumeAt) {
           // This is a legitimate WAIT node with a scheduled resume time
@@ -98,18 +133,51 @@ export class ExecutionEngineService implements OnModuleInit {
             continue;
           }
 
+          if (await this.hasPendingWaitTimer(exec.id)) {
+            continue;
+          }
+
+          // Job is missing (e.g. Redis was flushed) — schedule it again
           const remainingMs = resumeTime - now;
-          if (remainingMs > 0) {
-            // Resume time is in the future — schedule a new timer
-            console.log(`[STARTUP] Restoring WAIT timer for execution ${exec.id}, resuming in ${Math.ceil(remainingMs / 1000)}s`);
-            this.scheduleWaitResume(exec.id, exec.tenantId, remainingMs);
-          } else {
-            // Resume time has already passed — resume immediately
-            console.log(`[STARTUP] WAIT timer expired for execution ${exec.id}, resuming immediately`);
-            this.scheduleWaitResume(exec.id, exec.tenantId, 0);
+          console.log(`[STARTUP] Restoring WAIT timer for execution ${exec.id}, resuming in ${Math.max(0, Math.ceil(remainingMs / 1000))}s`);
+          await this.scheduleWaitResume(exec.id, exec.tenantId, remainingMs);
+        } else if (exec.status === ExecutionStatus.WAITING && waitReplyTimeout?.at) {
+          if (await this.hasPendingWaitTimer(exec.id)) {
+            continue;
           }
+
+          const workflow = await this.getExecutionWorkflow(exec);
+          const node = (workflow?.nodes || []).find((n: any) => n.id === exec.currentNodeId);
+          const remainingMs = new Date(waitReplyTimeout.at).getTime() - now;
+
+          console.log(`[STARTUP] Restoring WAIT_REPLY timeout for execution ${exec.id}, firing in ${Math.max(0, Math.ceil(remainingMs / 1000))}s`);
+          await this.scheduleWaitReplyTimeout(
+            exec.id,
+            exec.tenantId,
+            isNaN(remainingMs) ? 0 : remainingMs,
+            waitReplyTimeout.onTimeout || 'END',
+            waitReplyTimeout.timeoutTargetNodeId,
+            node?.config,
+            !!waitReplyTimeout.isRemarketingPhase,
+          );
         } else if (exec.updatedAt < staleThreshold) {
-          // Truly stale execution (RUNNING stuck or WAITING without _waitResumeAt)
+          // WAITING on a reply (no timeout) is legitimate as long as the flow state is alive
+          if (exec.status === ExecutionStatus.WAITING) {
+            const flowState = await this.prisma.contactFlowState.findFirst({
+              where: { executionId: exec.id, expiresAt: { gt: new Date() } },
+              select: { id: true },
+            });
+            if (flowState) continue;
+
+            // Waiting on a sub-workflow that is still active
+            const activeChild = await this.prisma.workflowExecution.findFirst({
+              where: { parentExecutionId: exec.id, status: { in: [ExecutionStatus.RUNNING, ExecutionStatus.WAITING] } },
+              select: { id: true },
+            });
+            if (activeChild) continue;
+          }
+
+          // Truly stale execution (RUNNING stuck or WAITING without any pending wait)
           await this.prisma.workflowExecution.update({
             where: { id: exec.id },
             data: {
@@ -143,11 +211,14 @@ export class ExecutionEngineService implements OnModuleInit {
       triggerNodeId?: string;
       triggerType?: string;
       campaignId?: string;
+      parentExecutionId?: string;
     }
   ): Promise<WorkflowExecution> {
     // Acquire lock to prevent duplicate executions
+    // (sub-workflows start while their caller already holds it)
     const lockKey = `execution:lock:${tenantId}:${sessionId}:${contactPhone}`;
-    const lockAcquired = await this.redis.acquireLock(lockKey, 30);
+    const ownsLock = !options?.parentExecutionId;
+    const lockAcquired = ownsLock ? await this.redis.acquireLock(lockKey, 30) : true;
 
     if (!lockAcquired) {
       throw new Error('Another execution is already in progress for this contact');
@@ -176,7 +247,7 @@ export class ExecutionEngineService implements OnModuleInit {
 
             console.log(`[STALE_DETECTION] Marking stale execution ${existingExecution.id} as EXPIRED`);
             // Clean up any active timeout for this execution
-            this.cleanupExecutionTimeouts(existingExecution.id);
+            await this.cleanupExecutionTimeouts(existingExecution.id);
             await this.prisma.workflowExecution.update({
               where: { id: existingExecution.id },
               data: {
@@ -253,7 +324,8 @@ export class ExecutionEngineService implements OnModuleInit {
             n.type === WorkflowNodeType.TRIGGER_KEYWORD ||
             n.type === WorkflowNodeType.TRIGGER_SCHEDULE ||
             n.type === WorkflowNodeType.TRIGGER_MANUAL ||
-            n.type === WorkflowNodeType.TRIGGER_GRUPO,
+            n.type === WorkflowNodeType.TRIGGER_GRUPO ||
+            n.type === WorkflowNodeType.TRIGGER_WEBHOOK,
         );
       }
 
@@ -296,6 +368,10 @@ export class ExecutionEngineService implements OnModuleInit {
         media: null,
         timestamp: Date.now(),
       };
+      if (triggerPayload?.type === 'reaction') {
+        baseContext.variables.lastReaction = triggerPayload.reaction;
+        baseContext.variables.lastReactionMessageId = triggerPayload.targetMessageId;
+      }
       baseContext.variables.contactTags = contactTags; // Make tags available in all nodes
       baseContext.variables._tenantId = tenantId; // Nodes like PROMO_SHOPEE need this
       baseContext.variables._sessionId = sessionId;
@@ -310,9 +386,15 @@ export class ExecutionEngineService implements OnModuleInit {
         baseContext.variables.pushName    = contactNameFromPayload;
       }
 
-      // Populate {{contact.name}} and {{contact.phoneNumber}} for use in templates
+      // Populate {{contact.name}}, {{contact.phoneNumber}} and the contact's custom fields ({{contact.key}})
+      const storedContact = await this.contactsService.getForFlow(tenantId, contactPhone)
+        .catch((err) => {
+          console.warn(`[EXECUTION] Could not load contact ${contactPhone}: ${err.message}`);
+          return null;
+        });
       baseContext.variables.contact = {
-        name: contactNameFromPayload || '',
+        ...(storedContact || {}),
+        name: storedContact?.name || contactNameFromPayload || '',
         phoneNumber: contactPhone ? contactPhone.replace('@s.whatsapp.net', '').replace('@lid', '') : '',
       };
 
@@ -353,6 +435,8 @@ export class ExecutionEngineService implements OnModuleInit {
           sessionId,
           contactPhone,
           campaignId: options?.campaignId,
+          parentExecutionId: options?.parentExecutionId,
+          workflowVersion: workflowData.publishedVersion ?? undefined,
           currentNodeId: triggerNode.id,
           status: ExecutionStatus.RUNNING,
           context: baseContext, // Use the prepared context
@@ -409,11 +493,14 @@ export class ExecutionEngineService implements OnModuleInit {
         await this.executionService.updateExecution(execution.id, {
           status: ExecutionStatus.COMPLETED,
         });
+        await this.returnToParentExecution(execution, { output: {} });
       }
 
       return execution;
     } finally {
-      await this.redis.releaseLock(lockKey);
+      if (ownsLock) {
+        await this.redis.releaseLock(lockKey);
+      }
     }
   }
 
@@ -434,15 +521,30 @@ export class ExecutionEngineService implements OnModuleInit {
     }
 
     try {
+      // A message that answers nothing on a pending poll must not cancel its timeout
+      const pollWait = execution.context?.variables?._pollWait;
+      if (pollWait && triggerPayload?.type !== 'poll_vote' && matchPollOption(pollWait.options || [], message) === null) {
+        console.log(`[RESUME] Execution ${execution.id} is waiting for a poll vote, ignoring message "${message}"`);
+        return;
+      }
+
+      // A reply of the wrong kind with no "invalid" branch keeps the WAIT_REPLY waiting
+      const replyWait = execution.context?.variables?._replyWait;
+      if (replyWait && !replyWait.hasFallback && !matchesExpectedReplyType(replyWait.expectedType, triggerPayload)) {
+        console.log(`[RESUME] Execution ${execution.id} expects a ${replyWait.expectedType} reply, ignoring ${triggerPayload?.type || 'text'} message`);
+        return;
+      }
+
       // Cancel any active WAIT or WAIT_REPLY timeout for this execution
       // This prevents double-execution when a user message arrives during a WAIT timer
-      this.cleanupExecutionTimeouts(execution.id);
+      await this.cleanupExecutionTimeouts(execution.id);
 
       // Clean up _waitResumeAt if it was set by a WAIT node
       if (execution.context?.variables?._waitResumeAt) {
         console.log(`[RESUME] Cancelling active WAIT timer for execution ${execution.id}`);
         delete execution.context.variables._waitResumeAt;
       }
+      delete execution.context?.variables?._waitReplyTimeout;
 
       // Clear out ContactFlowState if we are resuming
       await this.prisma.contactFlowState.deleteMany({
@@ -470,26 +572,21 @@ export class ExecutionEngineService implements OnModuleInit {
       }
 
       // Get workflow
-      const workflowData = await this.prisma.workflow.findFirst({
-        where: { id: execution.workflowId, tenantId: execution.tenantId },
-      });
+      const workflow = await this.getExecutionWorkflow(execution);
 
-      if (!workflowData) {
+      if (!workflow) {
         throw new Error('Workflow not found');
       }
 
-      const workflow: Workflow = {
-        ...workflowData,
-        description: workflowData.description || undefined,
-        nodes: workflowData.nodes as any,
-        edges: workflowData.edges as any,
-      };
-
       // Update context with new message and payload
       if (triggerPayload) {
         execution.context.variables.triggerPayload = triggerPayload;
       }
       execution.context.variables.triggerMessage = message;
+      if (triggerPayload?.type === 'reaction') {
+        execution.context.variables.lastReaction = triggerPayload.reaction;
+        execution.context.variables.lastReactionMessageId = triggerPayload.targetMessageId;
+      }
 
       // Get current node
       const currentNode = workflow.nodes.find((n) => n.id === execution.currentNodeId);
@@ -501,6 +598,12 @@ export class ExecutionEngineService implements OnModuleInit {
         return;
       }
 
+      // Waiting on a sub-workflow: replies belong to the child execution
+      if (currentNode.type === WorkflowNodeType.CALL_WORKFLOW) {
+        console.log(`[RESUME] Execution ${execution.id} is waiting on a sub-workflow, ignoring message`);
+        return;
+      }
+
       // Process RMKT cancellation if current node is RMKT and cancelOnReply is true
       if (currentNode.type === WorkflowNodeType.RMKT) {
         const config = currentNode.config as RmktConfig;
@@ -534,8 +637,15 @@ export class ExecutionEngineService implements OnModuleInit {
       // Process reply if current node is WAIT_REPLY
       if (currentNode.type === WorkflowNodeType.WAIT_REPLY) {
         const waitReplyConfig = currentNode.config as WaitReplyConfig;
-
-        if (waitReplyConfig.normalizeResponse) {
+        delete execution.context.variables._replyWait;
+
+        // Wrong kind of reply (e.g. text when a location was asked): take the "invalid" branch
+        if (!matchesExpectedReplyType(waitReplyConfig.expectedType, triggerPayload)) {
+          await this.redis.delete(`execution:timeout:${execution.id}`).catch(() => { });
+          const invalidEdge = workflow.edges.find((e) => e.source === currentNode.id && e.condition === 'invalid');
+          console.log(`[RESUME] WAIT_REPLY node ${currentNode.id} expected ${waitReplyConfig.expectedType}, got ${triggerPayload?.type || 'text'}`);
+          execution.currentNodeId = invalidEdge ? invalidEdge.target : null;
+        } else if (waitReplyConfig.normalizeResponse) {
           // ── Buffer mode: collect messages for bufferTime seconds then normalize ──
           const bufferKey = execution.id;
           const existing = this.activeBuffers.get(bufferKey);
@@ -565,31 +675,31 @@ export class ExecutionEngineService implements OnModuleInit {
           }
           // Return early — execution stays WAITING until buffer flushes
           return;
-        }
-
-        // ── Normal mode (no normalization) ──
-        const timeoutKey = `execution:timeout:${execution.id}`;
-        await this.redis.delete(timeoutKey).catch(() => { });
+        } else {
+          // ── Normal mode (no normalization) ──
+          const timeoutKey = `execution:timeout:${execution.id}`;
+          await this.redis.delete(timeoutKey).catch(() => { });
 
-        this.nodeExecutor.processReply(currentNode, message, execution.context);
+          this.nodeExecutor.processReply(currentNode, message, execution.context, triggerPayload);
 
-        // Check phase for output
-        const hasRemarketingFired = execution.context.variables._waitReplyRemarketingFired;
-        const condition = hasRemarketingFired ? 'remarketing' : 'success';
+          // Check phase for output
+          const hasRemarketingFired = execution.context.variables._waitReplyRemarketingFired;
+          const condition = hasRemarketingFired ? 'remarketing' : 'success';
 
-        // Move to next node after processing reply
-        const nextEdge = workflow.edges.find((e) => e.source === currentNode.id && e.condition === condition);
-        if (nextEdge) {
-          execution.currentNodeId = nextEdge.target;
-        } else {
-          // Fallback legacy without edge conditions
-          const fallbackEdge = workflow.edges.find((e) => e.source === currentNode.id && !e.condition);
-          if (fallbackEdge) {
-            execution.currentNodeId = fallbackEdge.target;
+          // Move to next node after processing reply
+          const nextEdge = workflow.edges.find((e) => e.source === currentNode.id && e.condition === condition);
+          if (nextEdge) {
+            execution.currentNodeId = nextEdge.target;
           } else {
-            // No outgoing edge from WAIT_REPLY — flow ends here
-            console.log(`[RESUME] WAIT_REPLY node ${currentNode.id} has no outgoing edge, completing execution ${execution.id}`);
-            execution.currentNodeId = null;
+            // Fallback legacy without edge conditions
+            const fallbackEdge = workflow.edges.find((e) => e.source === currentNode.id && !e.condition);
+            if (fallbackEdge) {
+              execution.currentNodeId = fallbackEdge.target;
+            } else {
+              // No outgoing edge from WAIT_REPLY — flow ends here
+              console.log(`[RESUME] WAIT_REPLY node ${currentNode.id} has no outgoing edge, completing execution ${execution.id}`);
+              execution.currentNodeId = null;
+            }
           }
         }
       }
@@ -702,6 +812,46 @@ export class ExecutionEngineService implements OnModuleInit {
         }
       }
 
+      // Process vote (or typed option) if current node is WAIT_POLL_VOTE
+      if (currentNode.type === WorkflowNodeType.WAIT_POLL_VOTE) {
+        const config = currentNode.config as WaitPollVoteConfig;
+        const options: string[] = execution.context.variables._pollWait?.options || config.opcoes || [];
+
+        let selected: string[] = [];
+        if (triggerPayload?.type === 'poll_vote') {
+          selected = (triggerPayload.selectedOptions || []).filter((opt: string) => options.includes(opt));
+        } else {
+          const index = matchPollOption(options, message);
+          if (index !== null) selected = [options[index]];
+        }
+
+        if (selected.length === 0) {
+          // Not an answer to the poll, keep waiting
+          console.log(`[RESUME] WAIT_POLL_VOTE message "${message}" did not match any option, staying in node`);
+          await this.redis.releaseLock(lockKey);
+          return;
+        }
+
+        const timeoutKey = `execution:timeout:${execution.id}`;
+        await this.redis.delete(timeoutKey).catch(() => { });
+        delete execution.context.variables._pollWait;
+
+        if (config.saveAs) {
+          execution.context.variables[config.saveAs] = config.multiplas ? selected : selected[0];
+        }
+
+        // Route on the first option picked (poll order)
+        const optionIndex = String(options.indexOf(selected[0]));
+        const nextEdge = workflow.edges.find((e) => e.source === currentNode.id && e.condition === optionIndex)
+          || workflow.edges.find((e) => e.source === currentNode.id && !e.condition);
+        console.log(`[RESUME] WAIT_POLL_VOTE picked "${selected[0]}" (option ${optionIndex}) for execution ${execution.id}`);
+        execution.currentNodeId = nextEdge ? nextEdge.target : null;
+      }
+
+      // A reply inside a loop follows the same loop rules as any other transition
+      migrateLegacyLoopState(execution.context);
+      execution.currentNodeId = resolveLoopTransition(execution.context, workflow.edges, currentNode.id, execution.currentNodeId ?? null);
+
       // Update status to RUNNING
       execution.status = ExecutionStatus.RUNNING;
       console.log(`[RESUME] Resuming execution ${execution.id} → nextNodeId: ${execution.currentNodeId ?? 'null (will complete)'}`);
@@ -738,17 +888,19 @@ export class ExecutionEngineService implements OnModuleInit {
     workflow: Workflow,
   ): Promise<void> {
     let iterationCount = 0;
-    const MAX_ITERATIONS = 100; // Safety limit to prevent infinite loops (reduced from 10000)
+    const maxIterations = this.getMaxIterations(workflow); // Safety limit to prevent infinite loops
     console.log(`[ENGINE] continueExecution start — exec ${execution.id}, currentNodeId: ${execution.currentNodeId}, status: ${execution.status}`);
 
+    migrateLegacyLoopState(execution.context);
+
     while (execution.status === ExecutionStatus.RUNNING && execution.currentNodeId) {
       iterationCount++;
-      if (iterationCount > MAX_ITERATIONS) {
-        await this.failExecution(execution, `Execution exceeded maximum iterations (${MAX_ITERATIONS}). Possible infinite loop detected.`);
+      if (iterationCount > maxIterations) {
+        await this.failExecution(execution, `Execution exceeded maximum iterations (${maxIterations}). Possible infinite loop detected.`);
         return;
       }
 
-      if (iterationCount % 10 === 0) {
+      if (iterationCount % 100 === 0) {
         console.warn(`[EXECUTION LOOP] High iteration count: ${iterationCount}, currentNodeId: ${execution.currentNodeId}, workflowId: ${execution.workflowId}`);
       }
 
@@ -770,137 +922,29 @@ export class ExecutionEngineService implements OnModuleInit {
         }
       }).catch(err => console.error('[EXECUTION LOG] Failed to log node execution:', err));
 
-      // If we're inside a loop and current node is the loop node itself, skip it
-      // (loop node should only execute once at the start)
-      // Only skip if we've already executed the loop node at least once (indicated by _loopCurrentIndex being set)
-      const loopNodeId = this.contextService.getVariable(execution.context, '_loopNodeId');
-      const loopCurrentIndex = this.contextService.getVariable(execution.context, '_loopCurrentIndex');
-
-      if (loopNodeId && currentNode.id === loopNodeId && currentNode.type === WorkflowNodeType.LOOP) {
-        console.log(`[LOOP DEBUG] Returning to loop node ${loopNodeId}, currentIndex: ${loopCurrentIndex}, iterationCount: ${iterationCount}`);
-        // Only skip if loop has already been initialized (currentIndex is set)
-        // This means we're returning to the loop node after an iteration, not executing it for the first time
-        if (loopCurrentIndex !== undefined) {
-          // We're returning to the loop node - skip execution and go directly to loop body
-          // Note: sourceHandle from React Flow is saved as 'condition' in WorkflowEdge
-          const loopEdge = workflow.edges.find((e) => e.source === loopNodeId && e.condition === 'loop');
-          const nextNodeId = loopEdge ? loopEdge.target : null;
-
-          if (nextNodeId) {
-            execution.currentNodeId = nextNodeId;
-            await this.executionService.updateExecution(execution.id, {
-              currentNodeId: nextNodeId,
-              context: execution.context,
-            });
-            // Reload execution to ensure we have latest sessionId and contactPhone
-            const updatedExecution = await this.executionService.getExecution(execution.tenantId, execution.id);
-            if (updatedExecution) {
-              execution.sessionId = updatedExecution.sessionId;
-              execution.contactPhone = updatedExecution.contactPhone;
-            }
-            continue;
-          } else {
-            // No loop edge - go to done
-            // Note: sourceHandle from React Flow is saved as 'condition' in WorkflowEdge
-            const doneEdge = workflow.edges.find((e) => e.source === loopNodeId && e.condition === 'done');
-            const doneNodeId = doneEdge ? doneEdge.target : null;
-
-            if (doneNodeId) {
-              execution.currentNodeId = doneNodeId;
-              await this.executionService.updateExecution(execution.id, {
-                currentNodeId: doneNodeId,
-                context: execution.context,
-              });
-              continue;
-            } else {
-              await this.completeExecution(execution);
-              return;
-            }
-          }
-        }
-        // If loopCurrentIndex is undefined, this is the first execution - let it execute normally
-      }
-
-      // Check if we're inside a loop and current node is END - skip execution and continue iteration
-      if (loopNodeId && currentNode.type === WorkflowNodeType.END) {
-        // We're inside a loop and reached END - continue to next iteration without executing END
-        const loopDataEnd = this.contextService.getVariable(execution.context, '_loopData');
-        const loopCurrentIndexEnd = this.contextService.getVariable(execution.context, '_loopCurrentIndex');
-
-        console.log(`[LOOP DEBUG] END node reached in loop, currentIndex: ${loopCurrentIndexEnd}, totalItems: ${Array.isArray(loopDataEnd) ? loopDataEnd.length : 'N/A'}, iterationCount: ${iterationCount}`);
-
-        if (Array.isArray(loopDataEnd) && loopCurrentIndexEnd !== undefined) {
-          const nextIndex = loopCurrentIndexEnd + 1;
-
-          if (nextIndex < loopDataEnd.length) {
-            console.log(`[LOOP DEBUG] Continuing to next iteration: ${nextIndex}/${loopDataEnd.length}`);
-            // Continue to next iteration
-            const itemVariableName = this.contextService.getVariable(execution.context, '_loopItemVariable') || 'item';
-            const indexVariableName = this.contextService.getVariable(execution.context, '_loopIndexVariable') || 'index';
+      // Reaching END or an active LOOP node inside a loop finishes the iteration
+      // instead of executing the node (the LOOP node only runs when a loop starts)
+      const isLoopControlNode = currentNode.type === WorkflowNodeType.END
+        || (currentNode.type === WorkflowNodeType.LOOP && !!findLoopFrame(execution.context, currentNode.id));
 
-            // Update loop variables for next iteration
-            this.contextService.setVariable(execution.context, '_loopCurrentIndex', nextIndex);
-            this.contextService.setVariable(execution.context, itemVariableName, loopDataEnd[nextIndex]);
-            this.contextService.setVariable(execution.context, indexVariableName, nextIndex);
+      if (isLoopControlNode && getLoopStack(execution.context).length > 0) {
+        const nextNodeId = currentNode.type === WorkflowNodeType.END
+          ? resolveLoopTransition(execution.context, workflow.edges, currentNode.id, null)
+          : resolveLoopTransition(execution.context, workflow.edges, currentNode.id, currentNode.id);
 
-            // Increment iteration count
-            const currentIterations = this.contextService.getVariable(execution.context, '_loopIterationsExecuted') || 0;
-            this.contextService.setVariable(execution.context, '_loopIterationsExecuted', currentIterations + 1);
+        console.log(`[LOOP] ${currentNode.type} ${currentNode.id} reached inside loop, next: ${nextNodeId}, iterationCount: ${iterationCount}`);
 
-            // Find the loop edge to go back to loop body
-            // Note: sourceHandle from React Flow is saved as 'condition' in WorkflowEdge
-            const loopEdge = workflow.edges.find((e) => e.source === loopNodeId && e.condition === 'loop');
-            const nextNodeId = loopEdge ? loopEdge.target : null;
+        execution.currentNodeId = nextNodeId;
+        await this.executionService.updateExecution(execution.id, {
+          currentNodeId: nextNodeId,
+          context: execution.context,
+        });
 
-            if (nextNodeId) {
-              execution.currentNodeId = nextNodeId;
-              await this.executionService.updateExecution(execution.id, {
-                currentNodeId: nextNodeId,
-                context: execution.context,
-              });
-              // Reload execution to ensure we have latest sessionId and contactPhone
-              const updatedExecution = await this.executionService.getExecution(execution.tenantId, execution.id);
-              if (updatedExecution) {
-                execution.sessionId = updatedExecution.sessionId;
-                execution.contactPhone = updatedExecution.contactPhone;
-              }
-              // Continue execution with next iteration
-              continue;
-            }
-          } else {
-            // Loop completed - go to 'done' edge
-            // Note: sourceHandle from React Flow is saved as 'condition' in WorkflowEdge
-            const doneEdge = workflow.edges.find((e) => e.source === loopNodeId && e.condition === 'done');
-            const doneNodeId = doneEdge ? doneEdge.target : null;
-
-            // Clear loop variables
-            delete execution.context.variables['_loopNodeId'];
-            delete execution.context.variables['_loopData'];
-            delete execution.context.variables['_loopCurrentIndex'];
-            delete execution.context.variables['_loopItemVariable'];
-            delete execution.context.variables['_loopIndexVariable'];
-
-            if (doneNodeId) {
-              execution.currentNodeId = doneNodeId;
-              await this.executionService.updateExecution(execution.id, {
-                currentNodeId: doneNodeId,
-                context: execution.context,
-              });
-              // Reload execution to ensure we have latest sessionId and contactPhone
-              const updatedExecution = await this.executionService.getExecution(execution.tenantId, execution.id);
-              if (updatedExecution) {
-                execution.sessionId = updatedExecution.sessionId;
-                execution.contactPhone = updatedExecution.contactPhone;
-              }
-              // Continue execution after loop
-              continue;
-            } else {
-              // No done edge - complete execution
-              await this.completeExecution(execution);
-              return;
-            }
-          }
+        if (!nextNodeId) {
+          await this.completeExecution(execution);
+          return;
         }
+        continue;
       }
 
       const startTime = Date.now();
@@ -931,6 +975,7 @@ export class ExecutionEngineService implements OnModuleInit {
           execution.contactPhone,
           execution.workflowId,
           execution.id,
+          execution.tenantId,
         );
       } catch (nodeError: any) {
         console.error(`[EXECUTION] Node ${currentNode.id} (${currentNode.type}) failed:`, nodeError.message);
@@ -944,11 +989,16 @@ export class ExecutionEngineService implements OnModuleInit {
         // Find next node and continue (don't stop the entire flow for a single node error)
         const nextEdgeOnError = workflow.edges.find((e: any) => e.source === currentNode.id);
         if (nextEdgeOnError?.target) {
+          const nextNodeOnError = resolveLoopTransition(execution.context, workflow.edges, currentNode.id, nextEdgeOnError.target);
           await this.executionService.updateExecution(execution.id, {
-            currentNodeId: nextEdgeOnError.target,
+            currentNodeId: nextNodeOnError,
             context: execution.context,
           });
-          execution.currentNodeId = nextEdgeOnError.target;
+          execution.currentNodeId = nextNodeOnError;
+          if (!nextNodeOnError) {
+            await this.completeExecution(execution);
+            return;
+          }
           continue;
         }
         
@@ -999,6 +1049,19 @@ export class ExecutionEngineService implements OnModuleInit {
         }
       }
 
+      // Hand over to a sub-workflow; this execution resumes when the child ends
+      if (result.callWorkflow) {
+        await this.startSubWorkflow(execution, workflow, currentNode, result.callWorkflow);
+        return;
+      }
+
+      // HANDOFF: pause until an agent returns the contact to the bot
+      if (result.handoff) {
+        execution.currentNodeId = resolveLoopTransition(execution.context, workflow.edges, currentNode.id, result.nextNodeId ?? null);
+        await this.pauseExecution(execution);
+        return;
+      }
+
       // Handle wait
       if (result.shouldWait) {
         execution.status = ExecutionStatus.WAITING;
@@ -1013,15 +1076,16 @@ export class ExecutionEngineService implements OnModuleInit {
           execution.context.variables._waitResumeAt = waitResumeAt;
 
           // For WAIT nodes, move to next node immediately in DB but schedule resume
+          const resumeNodeId = resolveLoopTransition(execution.context, workflow.edges, currentNode.id, result.nextNodeId ?? null);
           await this.executionService.updateExecution(execution.id, {
             status: ExecutionStatus.WAITING,
-            currentNodeId: result.nextNodeId, // Move to next node (may be null)
+            currentNodeId: resumeNodeId, // Move to next node (may be null)
             context: execution.context,
           });
 
           // Schedule automatic resume after wait time
           const effectiveWaitMs = waitMs > 0 ? waitMs : 1000; // At least 1s
-          this.scheduleWaitResume(execution.id, execution.tenantId, effectiveWaitMs);
+          await this.scheduleWaitResume(execution.id, execution.tenantId, effectiveWaitMs);
         } else {
           // For WAIT_REPLY and others, save to ContactFlowState
           const waitMs = (result.waitTimeoutSeconds || 24 * 60 * 60) * 1000; // default 24h
@@ -1049,6 +1113,18 @@ export class ExecutionEngineService implements OnModuleInit {
             },
           });
 
+          // Persist the timeout so it can be reconciled after a restart
+          if (result.waitTimeoutSeconds) {
+            execution.context.variables._waitReplyTimeout = {
+              at: new Date(Date.now() + result.waitTimeoutSeconds * 1000).toISOString(),
+              onTimeout: result.onTimeout || 'END',
+              timeoutTargetNodeId: result.timeoutTargetNodeId,
+              isRemarketingPhase: false,
+            };
+          } else {
+            delete execution.context.variables._waitReplyTimeout;
+          }
+
           // For WAIT_REPLY, keep currentNodeId as the WAIT_REPLY node
           // This is important so we can process the reply when resumed
           await this.executionService.updateExecution(execution.id, {
@@ -1057,7 +1133,7 @@ export class ExecutionEngineService implements OnModuleInit {
             context: execution.context,
           });
 
-          // Schedule WAIT_REPLY timeout via setTimeout (Redis TTL alone doesn't trigger actions)
+          // Schedule WAIT_REPLY timeout as a delayed job (Redis TTL alone doesn't trigger actions)
           if (result.waitTimeoutSeconds) {
             // Also store in Redis for metadata/debugging
             const timeoutKey = `execution:timeout:${execution.id}`;
@@ -1072,8 +1148,8 @@ export class ExecutionEngineService implements OnModuleInit {
               result.waitTimeoutSeconds,
             );
 
-            // Schedule actual timeout handler via setTimeout
-            this.scheduleWaitReplyTimeout(
+            // Schedule actual timeout handler as a delayed job
+            await this.scheduleWaitReplyTimeout(
               execution.id,
               execution.tenantId,
               result.waitTimeoutSeconds * 1000,
@@ -1101,186 +1177,25 @@ export class ExecutionEngineService implements OnModuleInit {
         return;
       }
 
-      // Check if END node (this check happens after node execution, so we already have result)
-      // The check before execution (line 305) handles END nodes before they're executed
-      // This check handles END nodes that were reached via nextNodeId from previous node
+      // END inside a loop is handled before execution, so this always ends the run
       if (currentNode.type === WorkflowNodeType.END) {
-        // Check if we're inside a loop - if so, continue to next iteration instead of completing
-        if (loopNodeId) {
-          // We're inside a loop - continue iteration
-          const loopDataEndCheck = this.contextService.getVariable(execution.context, '_loopData');
-          const loopCurrentIndexEndCheck = this.contextService.getVariable(execution.context, '_loopCurrentIndex');
-
-          console.log(`[LOOP DEBUG] END node reached (after execution), currentIndex: ${loopCurrentIndexEndCheck}, totalItems: ${Array.isArray(loopDataEndCheck) ? loopDataEndCheck.length : 'N/A'}, iterationCount: ${iterationCount}`);
-
-          if (Array.isArray(loopDataEndCheck) && loopCurrentIndexEndCheck !== undefined) {
-            const nextIndex = loopCurrentIndexEndCheck + 1;
-
-            if (nextIndex < loopDataEndCheck.length) {
-              console.log(`[LOOP DEBUG] Continuing to next iteration from END: ${nextIndex}/${loopDataEndCheck.length}`);
-              // Continue to next iteration
-              const itemVariableName = this.contextService.getVariable(execution.context, '_loopItemVariable') || 'item';
-              const indexVariableName = this.contextService.getVariable(execution.context, '_loopIndexVariable') || 'index';
-
-              // Update loop variables for next iteration
-              this.contextService.setVariable(execution.context, '_loopCurrentIndex', nextIndex);
-              this.contextService.setVariable(execution.context, itemVariableName, loopDataEndCheck[nextIndex]);
-              this.contextService.setVariable(execution.context, indexVariableName, nextIndex);
-
-              // Increment iteration count
-              const currentIterations = this.contextService.getVariable(execution.context, '_loopIterationsExecuted') || 0;
-              this.contextService.setVariable(execution.context, '_loopIterationsExecuted', currentIterations + 1);
-
-              // Find the loop edge to go back to loop body
-              // Note: sourceHandle from React Flow is saved as 'condition' in WorkflowEdge
-              const loopEdge = workflow.edges.find((e) => e.source === loopNodeId && e.condition === 'loop');
-              const nextNodeId = loopEdge ? loopEdge.target : null;
-
-              if (nextNodeId) {
-                execution.currentNodeId = nextNodeId;
-                await this.executionService.updateExecution(execution.id, {
-                  currentNodeId: nextNodeId,
-                  context: execution.context,
-                });
-                // Reload execution to ensure we have latest sessionId and contactPhone
-                const updatedExecution = await this.executionService.getExecution(execution.tenantId, execution.id);
-                if (updatedExecution) {
-                  execution.sessionId = updatedExecution.sessionId;
-                  execution.contactPhone = updatedExecution.contactPhone;
-                }
-                // Continue execution with next iteration
-                continue;
-              }
-            } else {
-              // Loop completed - go to 'done' edge
-              // Note: sourceHandle from React Flow is saved as 'condition' in WorkflowEdge
-              const doneEdge = workflow.edges.find((e) => e.source === loopNodeId && e.condition === 'done');
-              const doneNodeId = doneEdge ? doneEdge.target : null;
-
-              // Clear loop variables
-              delete execution.context.variables['_loopNodeId'];
-              delete execution.context.variables['_loopData'];
-              delete execution.context.variables['_loopCurrentIndex'];
-              delete execution.context.variables['_loopItemVariable'];
-              delete execution.context.variables['_loopIndexVariable'];
-
-              if (doneNodeId) {
-                execution.currentNodeId = doneNodeId;
-                await this.executionService.updateExecution(execution.id, {
-                  currentNodeId: doneNodeId,
-                  context: execution.context,
-                });
-                // Continue execution after loop
-                continue;
-              } else {
-                // No done edge - complete execution
-                await this.completeExecution(execution);
-                return;
-              }
-            }
-          }
-        } else {
-          // Not in a loop - complete execution normally
-          await this.completeExecution(execution);
-          return;
-        }
+        await this.completeExecution(execution, undefined, result.output);
+        return;
       }
 
-      // Check if we're inside a loop and reached end of iteration (no next node)
-      const loopDataNoNext = this.contextService.getVariable(execution.context, '_loopData');
-      const loopCurrentIndexNoNext = this.contextService.getVariable(execution.context, '_loopCurrentIndex');
-
-      // If we're in a loop and reached a node with no next, continue loop iteration
-      if (loopNodeId && Array.isArray(loopDataNoNext) && loopCurrentIndexNoNext !== undefined && !result.nextNodeId) {
-        const loopNode = workflow.nodes.find((n) => n.id === loopNodeId);
-
-        console.log(`[LOOP DEBUG] Node with no next in loop, currentIndex: ${loopCurrentIndexNoNext}, totalItems: ${loopDataNoNext.length}, currentNodeId: ${execution.currentNodeId}, iterationCount: ${iterationCount}`);
-
-        if (loopNode) {
-          // Check if we've processed all items
-          const nextIndex = loopCurrentIndexNoNext + 1;
-
-          if (nextIndex < loopDataNoNext.length) {
-            console.log(`[LOOP DEBUG] Continuing iteration: ${nextIndex}/${loopDataNoNext.length}`);
-            // Continue to next iteration
-            const itemVariableName = this.contextService.getVariable(execution.context, '_loopItemVariable') || 'item';
-            const indexVariableName = this.contextService.getVariable(execution.context, '_loopIndexVariable') || 'index';
-
-            // Update loop variables for next iteration
-            this.contextService.setVariable(execution.context, '_loopCurrentIndex', nextIndex);
-            this.contextService.setVariable(execution.context, itemVariableName, loopDataNoNext[nextIndex]);
-            this.contextService.setVariable(execution.context, indexVariableName, nextIndex);
-
-            // Increment iteration count
-            const currentIterations = this.contextService.getVariable(execution.context, '_loopIterationsExecuted') || 0;
-            this.contextService.setVariable(execution.context, '_loopIterationsExecuted', currentIterations + 1);
-
-            // Find the loop edge to go back to loop body
-            // Note: sourceHandle from React Flow is saved as 'condition' in WorkflowEdge
-            const loopEdge = workflow.edges.find((e) => e.source === loopNodeId && e.condition === 'loop');
-            const nextNodeId = loopEdge ? loopEdge.target : null;
-
-            if (nextNodeId) {
-              execution.currentNodeId = nextNodeId;
-              await this.executionService.updateExecution(execution.id, {
-                currentNodeId: nextNodeId,
-                context: execution.context,
-              });
-              // Reload execution to ensure we have latest sessionId and contactPhone
-              const updatedExecution = await this.executionService.getExecution(execution.tenantId, execution.id);
-              if (updatedExecution) {
-                execution.sessionId = updatedExecution.sessionId;
-                execution.contactPhone = updatedExecution.contactPhone;
-              }
-              // Continue execution with next iteration
-              continue;
-            }
-          } else {
-            // Loop completed - go to 'done' edge
-            // Note: sourceHandle from React Flow is saved as 'condition' in WorkflowEdge
-            const doneEdge = workflow.edges.find((e) => e.source === loopNodeId && e.condition === 'done');
-            const doneNodeId = doneEdge ? doneEdge.target : null;
-
-            // Clear loop variables
-            delete execution.context.variables['_loopNodeId'];
-            delete execution.context.variables['_loopData'];
-            delete execution.context.variables['_loopCurrentIndex'];
-            delete execution.context.variables['_loopItemVariable'];
-            delete execution.context.variables['_loopIndexVariable'];
-
-            if (doneNodeId) {
-              execution.currentNodeId = doneNodeId;
-              await this.executionService.updateExecution(execution.id, {
-                currentNodeId: doneNodeId,
-                context: execution.context,
-              });
-              // Reload execution to ensure we have latest sessionId and contactPhone
-              const updatedExecution = await this.executionService.getExecution(execution.tenantId, execution.id);
-              if (updatedExecution) {
-                execution.sessionId = updatedExecution.sessionId;
-                execution.contactPhone = updatedExecution.contactPhone;
-              }
-              // Continue execution after loop
-              continue;
-            } else {
-              // No done edge - complete execution
-              await this.completeExecution(execution);
-              return;
-            }
-          }
-        }
-      }
+      // Apply loop frames: back edges continue or break, dead ends finish the iteration
+      const nextNodeId = resolveLoopTransition(execution.context, workflow.edges, currentNode.id, result.nextNodeId ?? null);
 
       // Move to next node
-      execution.currentNodeId = result.nextNodeId;
+      execution.currentNodeId = nextNodeId;
 
       await this.executionService.updateExecution(execution.id, {
-        currentNodeId: result.nextNodeId,
+        currentNodeId: nextNodeId,
         context: execution.context,
       });
 
       // If no next node, complete
-      if (!result.nextNodeId) {
+      if (!nextNodeId) {
         console.log(`[ENGINE] No next node after ${currentNode.type} (${currentNode.id}), completing execution ${execution.id}`);
         await this.completeExecution(execution);
         return;
@@ -1295,12 +1210,60 @@ export class ExecutionEngineService implements OnModuleInit {
     }
   }
 
+  /**
+   * Load the graph an execution runs on: the version it was pinned to at
+   * start, or the live graph for executions from before versioning
+   */
+  async getExecutionWorkflow(execution: {
+    workflowId: string;
+    tenantId: string;
+    workflowVersion?: number | null;
+  }): Promise<Workflow | null> {
+    const workflowData = await this.prisma.workflow.findFirst({
+      where: { id: execution.workflowId, tenantId: execution.tenantId },
+    });
+    if (!workflowData) return null;
+
+    const workflow: Workflow = {
+      ...workflowData,
+      description: workflowData.description || undefined,
+      nodes: workflowData.nodes as any,
+      edges: workflowData.edges as any,
+    };
+
+    if (execution.workflowVersion && execution.workflowVersion !== workflowData.publishedVersion) {
+      const version = await this.prisma.workflowVersion.findUnique({
+        where: { workflowId_version: { workflowId: execution.workflowId, version: execution.workflowVersion } },
+      });
+      if (version) {
+        workflow.nodes = version.nodes as any;
+        workflow.edges = version.edges as any;
+      } else {
+        console.warn(`[EXECUTION] Version ${execution.workflowVersion} of workflow ${execution.workflowId} not found, using the published graph`);
+      }
+    }
+
+    return workflow;
+  }
+
+  /**
+   * Node budget for one continueExecution run (workflow setting, capped)
+   */
+  private getMaxIterations(workflow: Workflow): number {
+    const configured = Number(workflow.maxIterations);
+    if (!Number.isInteger(configured) || configured <= 0) {
+      return DEFAULT_MAX_ITERATIONS;
+    }
+    return Math.min(configured, MAX_ITERATIONS_LIMIT);
+  }
+
   /**
    * Complete execution
    */
   private async completeExecution(
     execution: WorkflowExecution,
     reason?: string,
+    endOutput?: Record<string, any>,
   ): Promise<void> {
     // Idempotency guard: skip if already completed
     if (execution.status === ExecutionStatus.COMPLETED) {
@@ -1312,7 +1275,7 @@ export class ExecutionEngineService implements OnModuleInit {
     console.log(`[ENGINE] Completing execution ${execution.id} for ${execution.contactPhone}${reason ? ` (${reason})` : ''}`);
 
     // Clean up any active timeouts
-    this.cleanupExecutionTimeouts(execution.id);
+    await this.cleanupExecutionTimeouts(execution.id);
 
     // Clean up ContactFlowState
     await this.prisma.contactFlowState.deleteMany({
@@ -1354,6 +1317,8 @@ export class ExecutionEngineService implements OnModuleInit {
         }
       }).catch(() => { });
     }
+
+    await this.returnToParentExecution(execution, { output: endOutput || {} });
   }
 
   /**
@@ -1361,7 +1326,7 @@ export class ExecutionEngineService implements OnModuleInit {
    */
   async expireExecution(execution: WorkflowExecution): Promise<void> {
     // Clean up any active timeouts
-    this.cleanupExecutionTimeouts(execution.id);
+    await this.cleanupExecutionTimeouts(execution.id);
 
     // Clean up ContactFlowState
     await this.prisma.contactFlowState.deleteMany({
@@ -1385,6 +1350,9 @@ export class ExecutionEngineService implements OnModuleInit {
       currentNodeId: execution.currentNodeId,
       timestamp: new Date(),
     });
+
+    await this.cancelChildExecutions(execution);
+    await this.returnToParentExecution(execution, { error: 'Sub-workflow expired' });
   }
 
   /**
@@ -1392,7 +1360,7 @@ export class ExecutionEngineService implements OnModuleInit {
    */
   private async failExecution(execution: WorkflowExecution, error: string): Promise<void> {
     // Clean up any active timeouts
-    this.cleanupExecutionTimeouts(execution.id);
+    await this.cleanupExecutionTimeouts(execution.id);
 
     // Clean up ContactFlowState
     await this.prisma.contactFlowState.deleteMany({
@@ -1439,6 +1407,8 @@ export class ExecutionEngineService implements OnModuleInit {
         }
       }).catch(() => { });
     }
+
+    await this.returnToParentExecution(execution, { error });
   }
 
   /**
@@ -1463,6 +1433,7 @@ export class ExecutionEngineService implements OnModuleInit {
         name: string;
         values: string[];
         selectableCount: number;
+        track?: { executionId?: string; nodeId?: string };
       };
       mentions?: string[];
       simulateTyping?: boolean;
@@ -1502,7 +1473,7 @@ export class ExecutionEngineService implements OnModuleInit {
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
         if (poll) {
-          await this.whatsappSender.sendPoll(sessionId, contactPhone, poll.name, poll.values, poll.selectableCount);
+          await this.whatsappSender.sendPoll(sessionId, contactPhone, poll.name, poll.values, poll.selectableCount, poll.track);
         } else if (mentions && mentions.length > 0 && message) {
           await this.whatsappSender.sendMessageWithMentions(sessionId, contactPhone, message, mentions);
         } else if (pixConfig) {
@@ -1580,12 +1551,8 @@ export class ExecutionEngineService implements OnModuleInit {
   /**
    * Clean up timeouts for an execution
    */
-  private cleanupExecutionTimeouts(executionId: string): void {
-    const timeoutId = this.activeTimeouts.get(executionId);
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-      this.activeTimeouts.delete(executionId);
-    }
+  private async cleanupExecutionTimeouts(executionId: string): Promise<void> {
+    await this.cancelWaitTimer(executionId);
     // Also cancel any in-progress normalize buffer
     const buffer = this.activeBuffers.get(executionId);
     if (buffer) {
@@ -1626,19 +1593,11 @@ export class ExecutionEngineService implements OnModuleInit {
       return;
     }
 
-    const workflowData = await this.prisma.workflow.findFirst({
-      where: { id: execution.workflowId, tenantId: execution.tenantId },
-    });
-    if (!workflowData) {
+    const workflow = await this.getExecutionWorkflow(execution);
+    if (!workflow) {
       console.error(`[NORMALIZE] Workflow not found for execution ${executionId}`);
       return;
     }
-    const workflow: Workflow = {
-      ...workflowData,
-      description: workflowData.description || undefined,
-      nodes: workflowData.nodes as any,
-      edges: workflowData.edges as any,
-    };
 
     const lockKey = `execution:lock:${execution.tenantId}:${execution.sessionId}:${execution.contactPhone}`;
     const lockAcquired = await this.redis.acquireLock(lockKey, 30);
@@ -1677,159 +1636,149 @@ export class ExecutionEngineService implements OnModuleInit {
   }
 
   /**
-   * Schedule automatic WAIT resume after a delay.
+   * Schedule automatic WAIT resume after a delay as a delayed BullMQ job.
    * This method is used both during normal WAIT execution and to restore
    * pending WAIT timers after a server restart.
    */
-  private scheduleWaitResume(executionId: string, tenantId: string, delayMs: number): void {
+  private async scheduleWaitResume(executionId: string, tenantId: string, delayMs: number): Promise<void> {
     const safeDelay = Math.max(0, delayMs);
     console.log(`[WAIT] Scheduling auto-resume in ${safeDelay}ms for execution ${executionId}`);
 
-    const timeoutId = setTimeout(async () => {
-      // Remove from active timeouts
-      this.activeTimeouts.delete(executionId);
+    await this.enqueueWaitTimer('wait-resume', { executionId, tenantId }, safeDelay);
+  }
 
-      let lockAcquired = false;
-      let lockKey = '';
+  /**
+   * Resume an execution whose WAIT elapsed. Called by WaitTimerProcessor.
+   */
+  async handleWaitResume(executionId: string, tenantId: string): Promise<void> {
+    let lockAcquired = false;
+    let lockKey = '';
 
-      try {
-        console.log(`[WAIT] Auto-resuming execution ${executionId}`);
+    try {
+      console.log(`[WAIT] Auto-resuming execution ${executionId}`);
 
-        // Get the execution from DB
-        const updatedExecution = await this.executionService.getExecution(
-          tenantId,
-          executionId,
-        );
+      // Get the execution from DB
+      const updatedExecution = await this.executionService.getExecution(
+        tenantId,
+        executionId,
+      );
 
-        if (!updatedExecution) {
-          console.error(`[WAIT] Execution ${executionId} not found`);
-          return;
-        }
+      if (!updatedExecution) {
+        console.error(`[WAIT] Execution ${executionId} not found`);
+        return;
+      }
 
-        if (updatedExecution.status !== ExecutionStatus.WAITING) {
-          console.log(`[WAIT] Execution ${executionId} is no longer waiting (${updatedExecution.status}), skipping`);
-          return;
-        }
+      if (updatedExecution.status !== ExecutionStatus.WAITING) {
+        console.log(`[WAIT] Execution ${executionId} is no longer waiting (${updatedExecution.status}), skipping`);
+        return;
+      }
 
-        // Acquire lock before resuming to prevent race conditions
-        lockKey = `execution:lock:${updatedExecution.tenantId}:${updatedExecution.sessionId}:${updatedExecution.contactPhone}`;
+      // Acquire lock before resuming to prevent race conditions
+      lockKey = `execution:lock:${updatedExecution.tenantId}:${updatedExecution.sessionId}:${updatedExecution.contactPhone}`;
+      lockAcquired = await this.redis.acquireLock(lockKey, 120);
+      if (!lockAcquired) {
+        console.warn(`[WAIT] Could not acquire lock for execution ${executionId}, retrying in 2s...`);
+        await new Promise(r => setTimeout(r, 2000));
         lockAcquired = await this.redis.acquireLock(lockKey, 120);
         if (!lockAcquired) {
-          console.warn(`[WAIT] Could not acquire lock for execution ${executionId}, retrying in 2s...`);
-          await new Promise(r => setTimeout(r, 2000));
-          lockAcquired = await this.redis.acquireLock(lockKey, 120);
-          if (!lockAcquired) {
-            console.error(`[WAIT] Failed to acquire lock after retry for execution ${executionId}`);
-            try {
-              await this.executionService.updateExecution(executionId, {
-                status: ExecutionStatus.ERROR,
-                error: 'WAIT auto-resume failed: could not acquire lock',
-              });
-            } catch (e) { /* best effort */ }
-            return;
-          }
-        }
-
-        // Re-check status after acquiring lock (could have changed)
-        const recheckExecution = await this.executionService.getExecution(tenantId, executionId);
-        if (!recheckExecution || recheckExecution.status !== ExecutionStatus.WAITING) {
-          console.log(`[WAIT] Execution ${executionId} status changed after lock, skipping`);
+          console.error(`[WAIT] Failed to acquire lock after retry for execution ${executionId}`);
+          try {
+            await this.executionService.updateExecution(executionId, {
+              status: ExecutionStatus.ERROR,
+              error: 'WAIT auto-resume failed: could not acquire lock',
+            });
+          } catch (e) { /* best effort */ }
           return;
         }
+      }
 
-        // Get workflow
-        const workflowData = await this.prisma.workflow.findFirst({
-          where: { id: recheckExecution.workflowId, tenantId: recheckExecution.tenantId },
-        });
-
-        if (!workflowData) {
-          console.error(`[WAIT] Workflow not found for execution ${executionId}, marking as ERROR`);
-          await this.executionService.updateExecution(executionId, {
-            status: ExecutionStatus.ERROR,
-            error: 'WAIT auto-resume failed: workflow not found',
-          });
-          return;
-        }
+      // Re-check status after acquiring lock (could have changed)
+      const recheckExecution = await this.executionService.getExecution(tenantId, executionId);
+      if (!recheckExecution || recheckExecution.status !== ExecutionStatus.WAITING) {
+        console.log(`[WAIT] Execution ${executionId} status changed after lock, skipping`);
+        return;
+      }
 
-        const workflow: Workflow = {
-          ...workflowData,
-          description: workflowData.description || undefined,
-          nodes: workflowData.nodes as any,
-          edges: workflowData.edges as any,
-        };
+      // Get workflow
+      const workflow = await this.getExecutionWorkflow(recheckExecution);
 
-        // Clean up _waitResumeAt from context
-        delete recheckExecution.context.variables._waitResumeAt;
+      if (!workflow) {
+        console.error(`[WAIT] Workflow not found for execution ${executionId}, marking as ERROR`);
+        await this.executionService.updateExecution(executionId, {
+          status: ExecutionStatus.ERROR,
+          error: 'WAIT auto-resume failed: workflow not found',
+        });
+        return;
+      }
 
-        // If currentNodeId is null (WAIT node with no next edge), complete the execution
-        if (!recheckExecution.currentNodeId) {
-          console.log(`[WAIT] No next node after WAIT, completing execution ${executionId}`);
-          await this.executionService.updateExecution(executionId, {
-            status: ExecutionStatus.COMPLETED,
-            context: recheckExecution.context,
-          });
-          await this.eventBus.emit({
-            type: EventType.EXECUTION_COMPLETED,
-            tenantId: recheckExecution.tenantId,
-            executionId: recheckExecution.id,
-            workflowId: recheckExecution.workflowId,
-            sessionId: recheckExecution.sessionId,
-            contactPhone: recheckExecution.contactPhone,
-            output: recheckExecution.context.output,
-            timestamp: new Date(),
-          });
-          return;
-        }
+      // Clean up _waitResumeAt from context
+      delete recheckExecution.context.variables._waitResumeAt;
 
-        // Update status to RUNNING
-        recheckExecution.status = ExecutionStatus.RUNNING;
+      // If currentNodeId is null (WAIT node with no next edge), complete the execution
+      if (!recheckExecution.currentNodeId) {
+        console.log(`[WAIT] No next node after WAIT, completing execution ${executionId}`);
         await this.executionService.updateExecution(executionId, {
-          status: ExecutionStatus.RUNNING,
+          status: ExecutionStatus.COMPLETED,
           context: recheckExecution.context,
         });
-
-        // Emit resumed event
         await this.eventBus.emit({
-          type: EventType.EXECUTION_RESUMED,
+          type: EventType.EXECUTION_COMPLETED,
           tenantId: recheckExecution.tenantId,
           executionId: recheckExecution.id,
           workflowId: recheckExecution.workflowId,
           sessionId: recheckExecution.sessionId,
           contactPhone: recheckExecution.contactPhone,
-          previousStatus: ExecutionStatus.WAITING,
+          output: recheckExecution.context.output,
           timestamp: new Date(),
         });
-
-        // Continue execution from the next node
-        await this.continueExecution(recheckExecution, workflow);
-      } catch (error: any) {
-        console.error(`[WAIT] Error auto-resuming execution ${executionId}:`, error);
-        try {
-          await this.executionService.updateExecution(executionId, {
-            status: ExecutionStatus.ERROR,
-            error: `WAIT auto-resume failed: ${error.message || 'unknown error'}`,
-          });
-        } catch (updateError) {
-          console.error(`[WAIT] Failed to mark execution ${executionId} as ERROR:`, updateError);
-        }
-      } finally {
-        if (lockAcquired && lockKey) {
-          await this.redis.releaseLock(lockKey).catch((err: any) =>
-            console.error('[WAIT] Error releasing lock:', err)
-          );
-        }
+        return;
       }
-    }, safeDelay);
-
-    // Store timeout for cleanup
-    this.activeTimeouts.set(executionId, timeoutId);
-  }
+
+      // Update status to RUNNING
+      recheckExecution.status = ExecutionStatus.RUNNING;
+      await this.executionService.updateExecution(executionId, {
+        status: ExecutionStatus.RUNNING,
+        context: recheckExecution.context,
+      });
+
+      // Emit resumed event
+      await this.eventBus.emit({
+        type: EventType.EXECUTION_RESUMED,
+        tenantId: recheckExecution.tenantId,
+        executionId: recheckExecution.id,
+        workflowId: recheckExecution.workflowId,
+        sessionId: recheckExecution.sessionId,
+        contactPhone: recheckExecution.contactPhone,
+        previousStatus: ExecutionStatus.WAITING,
+        timestamp: new Date(),
+      });
+
+      // Continue execution from the next node
+      await this.continueExecution(recheckExecution, workflow);
+    } catch (error: any) {
+      console.error(`[WAIT] Error auto-resuming execution ${executionId}:`, error);
+      try {
+        await this.executionService.updateExecution(executionId, {
+          status: ExecutionStatus.ERROR,
+          error: `WAIT auto-resume failed: ${error.message || 'unknown error'}`,
+        });
+      } catch (updateError) {
+        console.error(`[WAIT] Failed to mark execution ${executionId} as ERROR:`, updateError);
+      }
+    } finally {
+      if (lockAcquired && lockKey) {
+        await this.redis.releaseLock(lockKey).catch((err: any) =>
+          console.error('[WAIT] Error releasing lock:', err)
+        );
+      }
+    }
+  }
 
   /**
-   * Schedule WAIT_REPLY timeout.
-   * When the timer fires, if the execution is still WAITING, either END it or GOTO a specific node.
+   * Schedule WAIT_REPLY timeout as a delayed BullMQ job.
+   * When the job fires, if the execution is still WAITING, either END it or GOTO a specific node.
    */
-  private scheduleWaitReplyTimeout(
+  private async scheduleWaitReplyTimeout(
     executionId: string,
     tenantId: string,
     delayMs: number,
@@ -1837,255 +1786,626 @@ export class ExecutionEngineService implements OnModuleInit {
     timeoutTargetNodeId?: string,
     config?: any,
     isRemarketingPhase: boolean = false
-  ): void {
+  ): Promise<void> {
     const safeDelay = Math.max(0, delayMs);
     console.log(`[WAIT_REPLY] Scheduling timeout in ${safeDelay}ms for execution ${executionId} (action: ${onTimeout})`);
 
-    const timeoutId = setTimeout(async () => {
-      // Remove from active timeouts
-      this.activeTimeouts.delete(executionId);
+    await this.enqueueWaitTimer(
+      'wait-reply-timeout',
+      { executionId, tenantId, onTimeout, timeoutTargetNodeId, config, isRemarketingPhase },
+      safeDelay,
+    );
+  }
 
-      let lockAcquired = false;
-      let lockKey = '';
+  /**
+   * Handle an elapsed WAIT_REPLY timeout. Called by WaitTimerProcessor.
+   */
+  async handleWaitReplyTimeout(
+    executionId: string,
+    tenantId: string,
+    onTimeout: 'END' | 'GOTO_NODE',
+    timeoutTargetNodeId?: string,
+    config?: any,
+    isRemarketingPhase: boolean = false
+  ): Promise<void> {
+    let lockAcquired = false;
+    let lockKey = '';
 
-      try {
-        console.log(`[WAIT_REPLY] Timeout fired for execution ${executionId}`);
+    try {
+      console.log(`[WAIT_REPLY] Timeout fired for execution ${executionId}`);
 
-        // Get execution from DB
-        const execution = await this.executionService.getExecution(tenantId, executionId);
-        if (!execution) {
-          console.error(`[WAIT_REPLY] Execution ${executionId} not found`);
-          return;
-        }
+      // Get execution from DB
+      const execution = await this.executionService.getExecution(tenantId, executionId);
+      if (!execution) {
+        console.error(`[WAIT_REPLY] Execution ${executionId} not found`);
+        return;
+      }
 
-        if (execution.status !== ExecutionStatus.WAITING) {
-          console.log(`[WAIT_REPLY] Execution ${executionId} is no longer waiting (${execution.status}), skipping timeout`);
-          return;
-        }
+      if (execution.status !== ExecutionStatus.WAITING) {
+        console.log(`[WAIT_REPLY] Execution ${executionId} is no longer waiting (${execution.status}), skipping timeout`);
+        return;
+      }
 
-        // Acquire lock
-        lockKey = `execution:lock:${execution.tenantId}:${execution.sessionId}:${execution.contactPhone}`;
+      // Acquire lock
+      lockKey = `execution:lock:${execution.tenantId}:${execution.sessionId}:${execution.contactPhone}`;
+      lockAcquired = await this.redis.acquireLock(lockKey, 120);
+      if (!lockAcquired) {
+        console.warn(`[WAIT_REPLY] Could not acquire lock for execution ${executionId}, retrying in 2s...`);
+        await new Promise(r => setTimeout(r, 2000));
         lockAcquired = await this.redis.acquireLock(lockKey, 120);
         if (!lockAcquired) {
-          console.warn(`[WAIT_REPLY] Could not acquire lock for execution ${executionId}, retrying in 2s...`);
-          await new Promise(r => setTimeout(r, 2000));
-          lockAcquired = await this.redis.acquireLock(lockKey, 120);
-          if (!lockAcquired) {
-            console.error(`[WAIT_REPLY] Failed to acquire lock after retry for execution ${executionId}`);
-            return;
-          }
-        }
-
-        // Re-check status after lock
-        const recheckExecution = await this.executionService.getExecution(tenantId, executionId);
-        if (!recheckExecution || recheckExecution.status !== ExecutionStatus.WAITING) {
-          console.log(`[WAIT_REPLY] Execution ${executionId} status changed after lock, skipping timeout`);
+          console.error(`[WAIT_REPLY] Failed to acquire lock after retry for execution ${executionId}`);
           return;
         }
+      }
 
-        // Clean up Redis timeout key
-        const timeoutKey = `execution:timeout:${executionId}`;
-        await this.redis.delete(timeoutKey).catch(() => { });
-
-        if (!isRemarketingPhase && config && config.enableRemarketing) {
-          // Phase 1 timeout -> Fire Remarketing
-          console.log(`[WAIT_REPLY] Sending Remarketing for execution ${executionId}`);
-
-          recheckExecution.context.variables._waitReplyRemarketingFired = true;
-          await this.executionService.updateExecution(executionId, {
-            context: recheckExecution.context
-          });
+      // Re-check status after lock
+      const recheckExecution = await this.executionService.getExecution(tenantId, executionId);
+      if (!recheckExecution || recheckExecution.status !== ExecutionStatus.WAITING) {
+        console.log(`[WAIT_REPLY] Execution ${executionId} status changed after lock, skipping timeout`);
+        return;
+      }
 
-          if (config.remarketingMessage && (!config.remarketingMessageType || config.remarketingMessageType === 'text')) {
-            await this.whatsappSender.sendMessage(
-              recheckExecution.sessionId,
-              recheckExecution.contactPhone,
-              config.remarketingMessage
-            ).catch(e => console.error('[WAIT_REPLY] Remarketing SendMessage Error:', e));
-          } else if (config.remarketingMediaUrl) {
-            await this.whatsappSender.sendMedia(
-              recheckExecution.sessionId,
-              recheckExecution.contactPhone,
-              config.remarketingMessageType || 'image',
-              config.remarketingMediaUrl,
-              { caption: config.remarketingMessage }
-            ).catch(e => console.error('[WAIT_REPLY] Remarketing SendMedia Error:', e));
-          }
+      // Clean up Redis timeout key
+      const timeoutKey = `execution:timeout:${executionId}`;
+      await this.redis.delete(timeoutKey).catch(() => { });
+
+      if (!isRemarketingPhase && config && config.enableRemarketing) {
+        // Phase 1 timeout -> Fire Remarketing
+        console.log(`[WAIT_REPLY] Sending Remarketing for execution ${executionId}`);
+
+        // Reschedule second timeout
+        const remarketingAmount = config.remarketingTimeoutAmount || 1;
+        const remarketingUnit = config.remarketingTimeoutUnit || 'hours';
+        const multipliers: Record<string, number> = { seconds: 1, minutes: 60, hours: 3600, days: 86400 };
+        const remarketingDelay = remarketingAmount * (multipliers[remarketingUnit] || 3600);
+
+        recheckExecution.context.variables._waitReplyRemarketingFired = true;
+        recheckExecution.context.variables._waitReplyTimeout = {
+          at: new Date(Date.now() + remarketingDelay * 1000).toISOString(),
+          onTimeout,
+          timeoutTargetNodeId,
+          isRemarketingPhase: true,
+        };
+        await this.executionService.updateExecution(executionId, {
+          context: recheckExecution.context
+        });
 
-          // Reschedule second timeout
-          const remarketingAmount = config.remarketingTimeoutAmount || 1;
-          const remarketingUnit = config.remarketingTimeoutUnit || 'hours';
-          const multipliers: Record<string, number> = { seconds: 1, minutes: 60, hours: 3600, days: 86400 };
-          const remarketingDelay = remarketingAmount * (multipliers[remarketingUnit] || 3600);
-
-          await this.redis.setWithTTL(
-            `execution:timeout:${executionId}`,
-            JSON.stringify({
-              onTimeout,
-              timeoutTargetNodeId,
-              nodeConfig: config,
-              isRemarketingPhase: true
-            }),
-            remarketingDelay
-          );
+        if (config.remarketingMessage && (!config.remarketingMessageType || config.remarketingMessageType === 'text')) {
+          await this.whatsappSender.sendMessage(
+            recheckExecution.sessionId,
+            recheckExecution.contactPhone,
+            config.remarketingMessage
+          ).catch(e => console.error('[WAIT_REPLY] Remarketing SendMessage Error:', e));
+        } else if (config.remarketingMediaUrl) {
+          await this.whatsappSender.sendMedia(
+            recheckExecution.sessionId,
+            recheckExecution.contactPhone,
+            config.remarketingMessageType || 'image',
+            config.remarketingMediaUrl,
+            { caption: config.remarketingMessage }
+          ).catch(e => console.error('[WAIT_REPLY] Remarketing SendMedia Error:', e));
+        }
 
-          this.scheduleWaitReplyTimeout(
-            executionId,
-            tenantId,
-            remarketingDelay * 1000,
+        await this.redis.setWithTTL(
+          `execution:timeout:${executionId}`,
+          JSON.stringify({
             onTimeout,
             timeoutTargetNodeId,
-            config,
-            true
-          );
-        } else {
-          // Final Timeout Logic
-          if (onTimeout === 'END' && !timeoutTargetNodeId) {
-            // End the execution on timeout
-            console.log(`[WAIT_REPLY] Ending execution ${executionId} due to timeout`);
-            await this.executionService.updateExecution(executionId, {
-              status: ExecutionStatus.COMPLETED,
-              context: recheckExecution.context,
-            });
-            await this.eventBus.emit({
-              type: EventType.EXECUTION_COMPLETED,
-              tenantId: recheckExecution.tenantId,
-              executionId: recheckExecution.id,
-              workflowId: recheckExecution.workflowId,
-              sessionId: recheckExecution.sessionId,
-              contactPhone: recheckExecution.contactPhone,
-              output: recheckExecution.context.output,
-              timestamp: new Date(),
-            });
-          } else {
-            // GOTO_NODE: resume execution from the specified target node
-            console.log(`[WAIT_REPLY] Timeout GOTO_NODE logic for execution ${executionId}`);
+            nodeConfig: config,
+            isRemarketingPhase: true
+          }),
+          remarketingDelay
+        );
 
-            const workflowData = await this.prisma.workflow.findFirst({
-              where: { id: recheckExecution.workflowId, tenantId: recheckExecution.tenantId },
-            });
+        await this.scheduleWaitReplyTimeout(
+          executionId,
+          tenantId,
+          remarketingDelay * 1000,
+          onTimeout,
+          timeoutTargetNodeId,
+          config,
+          true
+        );
+      } else {
+        // Final Timeout Logic
+        delete recheckExecution.context.variables._waitReplyTimeout;
+        if (onTimeout === 'END' && !timeoutTargetNodeId) {
+          // End the execution on timeout
+          console.log(`[WAIT_REPLY] Ending execution ${executionId} due to timeout`);
+          await this.executionService.updateExecution(executionId, {
+            status: ExecutionStatus.COMPLETED,
+            context: recheckExecution.context,
+          });
+          await this.eventBus.emit({
+            type: EventType.EXECUTION_COMPLETED,
+            tenantId: recheckExecution.tenantId,
+            executionId: recheckExecution.id,
+            workflowId: recheckExecution.workflowId,
+            sessionId: recheckExecution.sessionId,
+            contactPhone: recheckExecution.contactPhone,
+            output: recheckExecution.context.output,
+            timestamp: new Date(),
+          });
+        } else {
+          // GOTO_NODE: resume execution from the specified target node
+          console.log(`[WAIT_REPLY] Timeout GOTO_NODE logic for execution ${executionId}`);
 
-            if (!workflowData) {
-              console.error(`[WAIT_REPLY] Workflow not found for execution ${executionId}`);
-              await this.executionService.updateExecution(executionId, {
-                status: ExecutionStatus.ERROR,
-                error: 'WAIT_REPLY timeout: workflow not found',
-              });
-              return;
-            }
+          const workflow = await this.getExecutionWorkflow(recheckExecution);
 
-            const workflow: Workflow = {
-              ...workflowData,
-              description: workflowData.description || undefined,
-              nodes: workflowData.nodes as any,
-              edges: workflowData.edges as any,
-            };
+          if (!workflow) {
+            console.error(`[WAIT_REPLY] Workflow not found for execution ${executionId}`);
+            await this.executionService.updateExecution(executionId, {
+              status: ExecutionStatus.ERROR,
+              error: 'WAIT_REPLY timeout: workflow not found',
+            });
+            return;
+          }
 
-            // Determine target node ID
-            let finalTargetNodeId = timeoutTargetNodeId;
-            const currentNode = workflow.nodes.find(n => n.id === recheckExecution.currentNodeId);
+          // Determine target node ID
+          let finalTargetNodeId = timeoutTargetNodeId;
+          const currentNode = workflow.nodes.find(n => n.id === recheckExecution.currentNodeId);
 
-            if (currentNode?.type === WorkflowNodeType.SEND_PIX) {
-              const config = currentNode.config as PixConfig;
+          if (currentNode?.type === WorkflowNodeType.SEND_PIX) {
+            const config = currentNode.config as PixConfig;
 
-              // Handle Auto-Retry
-              if (config.autoRetry) {
-                const currentRetry = (recheckExecution.context.variables as any)._pixRetryCount || 0;
-                const maxRetry = config.retryCount || 1;
+            // Handle Auto-Retry
+            if (config.autoRetry) {
+              const currentRetry = (recheckExecution.context.variables as any)._pixRetryCount || 0;
+              const maxRetry = config.retryCount || 1;
 
-                if (currentRetry < maxRetry) {
-                  console.log(`[WAIT_REPLY] SEND_PIX auto-retry ${currentRetry + 1}/${maxRetry} for execution ${executionId}`);
+              if (currentRetry < maxRetry) {
+                console.log(`[WAIT_REPLY] SEND_PIX auto-retry ${currentRetry + 1}/${maxRetry} for execution ${executionId}`);
 
-                  // Increment retry count
-                  recheckExecution.context.variables._pixRetryCount = currentRetry + 1;
+                // Increment retry count
+                recheckExecution.context.variables._pixRetryCount = currentRetry + 1;
 
-                  // Restart node execution
-                  recheckExecution.status = ExecutionStatus.RUNNING;
-                  await this.executionService.updateExecution(executionId, {
-                    status: ExecutionStatus.RUNNING,
-                    context: recheckExecution.context,
-                  });
+                // Restart node execution
+                recheckExecution.status = ExecutionStatus.RUNNING;
+                await this.executionService.updateExecution(executionId, {
+                  status: ExecutionStatus.RUNNING,
+                  context: recheckExecution.context,
+                });
 
-                  await this.continueExecution(recheckExecution, workflow);
-                  return;
-                }
+                await this.continueExecution(recheckExecution, workflow);
+                return;
               }
+            }
 
-              const timeoutEdge = workflow.edges.find(e => e.source === currentNode.id && e.condition === 'timeout');
+            const timeoutEdge = workflow.edges.find(e => e.source === currentNode.id && e.condition === 'timeout');
 
-              if (timeoutEdge) {
-                finalTargetNodeId = timeoutEdge.target;
-                console.log(`[WAIT_REPLY] SEND_PIX timeout routing to edge: ${finalTargetNodeId}`);
+            if (timeoutEdge) {
+              finalTargetNodeId = timeoutEdge.target;
+              console.log(`[WAIT_REPLY] SEND_PIX timeout routing to edge: ${finalTargetNodeId}`);
 
-                // Send timeout message if configured and enabled
-                if (config.enviarMensagensAutomaticas && config.mensagemTimeout) {
-                  await this.sendMessageWithRetry({
-                    sessionId: recheckExecution.sessionId,
-                    contactPhone: recheckExecution.contactPhone,
-                    message: config.mensagemTimeout
-                  });
-                }
-              }
-            } else if (currentNode?.type === WorkflowNodeType.WAIT_REPLY) {
-              const timeoutEdge = workflow.edges.find(e => e.source === currentNode.id && e.condition === 'timeout');
-              if (timeoutEdge) {
-                finalTargetNodeId = timeoutEdge.target;
-              } else {
-                const fallbackEdge = workflow.edges.find((e) => e.source === currentNode.id && !e.condition);
-                if (fallbackEdge) finalTargetNodeId = fallbackEdge.target;
+              // Send timeout message if configured and enabled
+              if (config.enviarMensagensAutomaticas && config.mensagemTimeout) {
+                await this.sendMessageWithRetry({
+                  sessionId: recheckExecution.sessionId,
+                  contactPhone: recheckExecution.contactPhone,
+                  message: config.mensagemTimeout
+                });
               }
             }
-
-            if (!finalTargetNodeId) {
-              console.log(`[WAIT_REPLY] No target node for timeout, completing execution ${executionId}`);
-              await this.completeExecution(recheckExecution, 'Timeout reached (no target node)');
-              return;
+          } else if (currentNode?.type === WorkflowNodeType.WAIT_REPLY) {
+            delete recheckExecution.context.variables._replyWait;
+            const timeoutEdge = workflow.edges.find(e => e.source === currentNode.id && e.condition === 'timeout');
+            if (timeoutEdge) {
+              finalTargetNodeId = timeoutEdge.target;
+            } else {
+              const fallbackEdge = workflow.edges.find((e) => e.source === currentNode.id && !e.condition);
+              if (fallbackEdge) finalTargetNodeId = fallbackEdge.target;
             }
+          } else if (currentNode?.type === WorkflowNodeType.WAIT_POLL_VOTE) {
+            // Option edges are conditioned, so only an explicit timeout edge applies
+            delete recheckExecution.context.variables._pollWait;
+            const timeoutEdge = workflow.edges.find(e => e.source === currentNode.id && e.condition === 'timeout');
+            if (timeoutEdge) finalTargetNodeId = timeoutEdge.target;
+          }
 
-            // Update execution to point to the timeout target node
-            recheckExecution.currentNodeId = finalTargetNodeId;
-            recheckExecution.status = ExecutionStatus.RUNNING;
-            await this.executionService.updateExecution(executionId, {
-              status: ExecutionStatus.RUNNING,
-              currentNodeId: finalTargetNodeId,
-              context: recheckExecution.context,
-            });
-
-            await this.eventBus.emit({
-              type: EventType.EXECUTION_RESUMED,
-              tenantId: recheckExecution.tenantId,
-              executionId: recheckExecution.id,
-              workflowId: recheckExecution.workflowId,
-              sessionId: recheckExecution.sessionId,
-              contactPhone: recheckExecution.contactPhone,
-              previousStatus: ExecutionStatus.WAITING,
-              timestamp: new Date(),
-            });
-
-            await this.continueExecution(recheckExecution, workflow);
+          if (!finalTargetNodeId) {
+            console.log(`[WAIT_REPLY] No target node for timeout, completing execution ${executionId}`);
+            await this.completeExecution(recheckExecution, 'Timeout reached (no target node)');
+            return;
           }
-        }
-      } catch (error: any) {
-        console.error(`[WAIT_REPLY] Error handling timeout for execution ${executionId}:`, error);
-        try {
+
+          // Update execution to point to the timeout target node
+          recheckExecution.currentNodeId = finalTargetNodeId;
+          recheckExecution.status = ExecutionStatus.RUNNING;
           await this.executionService.updateExecution(executionId, {
-            status: ExecutionStatus.ERROR,
-            error: `WAIT_REPLY timeout failed: ${error.message || 'unknown error'}`,
+            status: ExecutionStatus.RUNNING,
+            currentNodeId: finalTargetNodeId,
+            context: recheckExecution.context,
           });
-        } catch (updateError) {
-          console.error(`[WAIT_REPLY] Failed to mark execution ${executionId} as ERROR:`, updateError);
-        }
-      } finally {
-        if (lockAcquired && lockKey) {
-          await this.redis.releaseLock(lockKey).catch((err: any) =>
-            console.error('[WAIT_REPLY] Error releasing lock:', err)
-          );
+
+          await this.eventBus.emit({
+            type: EventType.EXECUTION_RESUMED,
+            tenantId: recheckExecution.tenantId,
+            executionId: recheckExecution.id,
+            workflowId: recheckExecution.workflowId,
+            sessionId: recheckExecution.sessionId,
+            contactPhone: recheckExecution.contactPhone,
+            previousStatus: ExecutionStatus.WAITING,
+            timestamp: new Date(),
+          });
+
+          await this.continueExecution(recheckExecution, workflow);
         }
       }
-    }, safeDelay);
+    } catch (error: any) {
+      console.error(`[WAIT_REPLY] Error handling timeout for execution ${executionId}:`, error);
+      try {
+        await this.executionService.updateExecution(executionId, {
+          status: ExecutionStatus.ERROR,
+          error: `WAIT_REPLY timeout failed: ${error.message || 'unknown error'}`,
+        });
+      } catch (updateError) {
+        console.error(`[WAIT_REPLY] Failed to mark execution ${executionId} as ERROR:`, updateError);
+      }
+    } finally {
+      if (lockAcquired && lockKey) {
+        await this.redis.releaseLock(lockKey).catch((err: any) =>
+          console.error('[WAIT_REPLY] Error releasing lock:', err)
+        );
+      }
+    }
+  }
+
+  /**
+   * Enqueue a WAIT / WAIT_REPLY timer. Each execution has at most one pending
+   * timer: the current job id is tracked in Redis and any previous job is removed.
+   */
+  private async enqueueWaitTimer(name: WaitTimerJobName, data: WaitTimerJobData, delayMs: number): Promise<void> {
+    await this.cancelWaitTimer(data.executionId);
+
+    const jobId = `wait-${data.executionId}-${Date.now()}`;
+    await this.waitTimerQueue.add(name, data, {
+      jobId,
+      delay: delayMs,
+      removeOnComplete: true,
+      removeOnFail: 100,
+    });
+
+    // Keep the pointer a day past the due time so stale jobs can be told apart
+    await this.redis.setWithTTL(
+      `execution:timer:${data.executionId}`,
+      jobId,
+      Math.ceil(delayMs / 1000) + 24 * 60 * 60,
+    );
+  }
+
+  /**
+   * Remove the pending timer job for an execution (no-op if none)
+   */
+  private async cancelWaitTimer(executionId: string): Promise<void> {
+    const pointerKey = `execution:timer:${executionId}`;
+    try {
+      const jobId = await this.redis.get(pointerKey);
+      if (!jobId) return;
+
+      await this.redis.delete(pointerKey);
+      const job = await this.waitTimerQueue.getJob(jobId);
+      // Active jobs are locked by a worker; dropping the pointer makes them no-ops
+      if (job && !(await job.isActive())) {
+        await job.remove();
+      }
+    } catch (error: any) {
+      console.error(`[TIMER] Failed to cancel timer for execution ${executionId}:`, error.message);
+    }
+  }
+
+  /**
+   * Whether the execution still has a scheduled (delayed/waiting/active) timer job
+   */
+  private async hasPendingWaitTimer(executionId: string): Promise<boolean> {
+    const jobId = await this.redis.get(`execution:timer:${executionId}`);
+    if (!jobId) return false;
+
+    const job = await this.waitTimerQueue.getJob(jobId);
+    if (!job) return false;
+
+    const state = await job.getState();
+    return state === 'delayed' || state === 'waiting' || state === 'active' || state === 'prioritized';
+  }
+
+  /**
+   * Called by WaitTimerProcessor before handling a job. Returns false for
+   * superseded or cancelled timers. The pointer is left in place so a job
+   * retried after a worker crash is still recognised as current.
+   */
+  async isCurrentWaitTimer(executionId: string, jobId: string): Promise<boolean> {
+    return (await this.redis.get(`execution:timer:${executionId}`)) === jobId;
+  }
+
+  /**
+   * Called by WaitTimerProcessor once a job was handled. Keeps the pointer
+   * if handling scheduled a newer timer.
+   */
+  async releaseWaitTimer(executionId: string, jobId: string): Promise<void> {
+    await this.redis.deleteIfEquals(`execution:timer:${executionId}`, jobId);
+  }
+
+  /**
+   * Cancel an active execution: drops its timer job and flow state
+   */
+  async cancelExecution(execution: WorkflowExecution): Promise<void> {
+    await this.cleanupExecutionTimeouts(execution.id);
+
+    await this.prisma.contactFlowState.deleteMany({
+      where: { executionId: execution.id },
+    });
+
+    await this.executionService.updateExecution(execution.id, {
+      status: ExecutionStatus.CANCELLED,
+    });
+
+    await this.cancelChildExecutions(execution);
+    await this.returnToParentExecution(execution, { error: 'Sub-workflow cancelled' });
+  }
+
+  /**
+   * Pause an execution while a human handles the contact. Timers and flow
+   * state are dropped; currentNodeId is kept so the bot can pick up from it.
+   */
+  async pauseExecution(execution: WorkflowExecution): Promise<void> {
+    await this.cleanupExecutionTimeouts(execution.id);
+
+    await this.prisma.contactFlowState.deleteMany({
+      where: { executionId: execution.id },
+    });
+
+    delete execution.context.variables._waitResumeAt;
+    delete execution.context.variables._waitReplyTimeout;
+    delete execution.context.variables._replyWait;
+    delete execution.context.variables._pollWait;
+
+    execution.status = ExecutionStatus.PAUSED;
+    await this.executionService.updateExecution(execution.id, {
+      status: ExecutionStatus.PAUSED,
+      currentNodeId: execution.currentNodeId,
+      context: execution.context,
+    });
+
+    console.log(`[HANDOFF] Paused execution ${execution.id} at node ${execution.currentNodeId ?? 'none'}`);
+  }
+
+  /**
+   * Return a paused execution to the bot, at the given node or where it stopped.
+   * beforeResume runs once the contact lock is held, so callers can change
+   * state that must not be touched when the execution is busy.
+   */
+  async resumePausedExecution(
+    execution: WorkflowExecution,
+    nodeId?: string,
+    beforeResume?: () => Promise<void>,
+  ): Promise<void> {
+    const lockKey = `execution:lock:${execution.tenantId}:${execution.sessionId}:${execution.contactPhone}`;
+    const lockAcquired = await this.redis.acquireLock(lockKey, 30);
+
+    if (!lockAcquired) {
+      throw new ConflictException('Execution is locked');
+    }
+
+    try {
+      if (beforeResume) {
+        await beforeResume();
+      }
+
+      const workflow = await this.getExecutionWorkflow(execution);
+      if (!workflow) {
+        await this.failExecution(execution, 'Workflow not found');
+        return;
+      }
+
+      execution.status = ExecutionStatus.RUNNING;
+      execution.currentNodeId = nodeId || execution.currentNodeId;
+      console.log(`[HANDOFF] Returning execution ${execution.id} to the bot at node ${execution.currentNodeId ?? 'none'}`);
+
+      await this.executionService.updateExecution(execution.id, {
+        status: ExecutionStatus.RUNNING,
+        currentNodeId: execution.currentNodeId,
+        context: execution.context,
+        expiresAt: this.executionService.getDefaultExpiresAt(),
+      });
 
-    // Store timeout for cleanup (same map as WAIT timeouts)
-    this.activeTimeouts.set(executionId, timeoutId);
+      await this.eventBus.emit({
+        type: EventType.EXECUTION_RESUMED,
+        tenantId: execution.tenantId,
+        executionId: execution.id,
+        workflowId: execution.workflowId,
+        sessionId: execution.sessionId,
+        contactPhone: execution.contactPhone,
+        previousStatus: ExecutionStatus.PAUSED,
+        timestamp: new Date(),
+      });
+
+      if (!execution.currentNodeId) {
+        await this.completeExecution(execution);
+        return;
+      }
+
+      await this.continueExecution(execution, workflow);
+    } finally {
+      await this.redis.releaseLock(lockKey);
+    }
+  }
+
+  /**
+   * Cancel running or waiting sub-workflows started by this execution
+   */
+  private async cancelChildExecutions(execution: WorkflowExecution): Promise<void> {
+    const children = await this.prisma.workflowExecution.findMany({
+      where: {
+        parentExecutionId: execution.id,
+        status: { in: [ExecutionStatus.RUNNING, ExecutionStatus.WAITING] },
+      },
+      select: { id: true },
+    });
+
+    for (const { id } of children) {
+      const child = await this.executionService.getExecution(execution.tenantId, id);
+      if (child) {
+        await this.cancelExecution(child);
+      }
+    }
+  }
+
+  /**
+   * CALL_WORKFLOW: pause this execution and start the child workflow for the
+   * same contact. The child runs inline until it waits or ends; when it ends,
+   * returnToParentExecution continues this execution.
+   */
+  private async startSubWorkflow(
+    execution: WorkflowExecution,
+    workflow: Workflow,
+    node: WorkflowNode,
+    call: { workflowId: string; variables: Record<string, any> },
+  ): Promise<void> {
+    const callStack = getCallStack(execution.context, execution.workflowId);
+    const denial = getCallDenialReason(callStack, call.workflowId);
+    if (denial) {
+      console.warn(`[CALL_WORKFLOW] ${denial} (execution ${execution.id})`);
+      await this.continueAfterSubWorkflow(execution, workflow, node, { error: denial });
+      return;
+    }
+
+    execution.status = ExecutionStatus.WAITING;
+    execution.currentNodeId = node.id;
+    await this.executionService.updateExecution(execution.id, {
+      status: ExecutionStatus.WAITING,
+      currentNodeId: node.id,
+      context: execution.context,
+    });
+
+    await this.eventBus.emit({
+      type: EventType.EXECUTION_WAITING,
+      tenantId: execution.tenantId,
+      executionId: execution.id,
+      workflowId: execution.workflowId,
+      sessionId: execution.sessionId,
+      contactPhone: execution.contactPhone,
+      currentNodeId: node.id,
+      timeoutSeconds: 0,
+      timestamp: new Date(),
+    });
+
+    console.log(`[CALL_WORKFLOW] Execution ${execution.id} calling workflow ${call.workflowId} (depth ${callStack.length + 1})`);
+
+    try {
+      await this.startExecution(
+        execution.tenantId,
+        call.workflowId,
+        execution.sessionId,
+        execution.contactPhone,
+        execution.context.variables?.triggerMessage,
+        execution.context.variables?.triggerPayload,
+        {
+          force: true,
+          parentExecutionId: execution.id,
+          initialContext: {
+            globals: { ...(execution.context.globals || {}) },
+            input: {},
+            output: {},
+            variables: {
+              ...call.variables,
+              [CALL_STACK_VARIABLE]: [...callStack, call.workflowId],
+            },
+            tenantId: execution.tenantId,
+          },
+        },
+      );
+    } catch (error: any) {
+      console.error(`[CALL_WORKFLOW] Failed to start workflow ${call.workflowId}:`, error.message);
+      const current = await this.executionService.getExecution(execution.tenantId, execution.id);
+      if (current?.status === ExecutionStatus.WAITING && current.currentNodeId === node.id) {
+        await this.continueAfterSubWorkflow(current, workflow, node, { error: error.message });
+      }
+    }
+  }
+
+  /**
+   * A sub-workflow ended: continue the execution that called it.
+   * Runs under the contact lock already held by whoever ended the child.
+   */
+  private async returnToParentExecution(
+    child: WorkflowExecution,
+    outcome: { output?: Record<string, any>; error?: string },
+  ): Promise<void> {
+    if (!child.parentExecutionId) return;
+
+    const parent = await this.executionService.getExecution(child.tenantId, child.parentExecutionId);
+    if (!parent || parent.status !== ExecutionStatus.WAITING) return;
+
+    const workflow = await this.getExecutionWorkflow(parent);
+    if (!workflow) {
+      await this.failExecution(parent, 'Workflow not found');
+      return;
+    }
+
+    const node = workflow.nodes.find((n) => n.id === parent.currentNodeId);
+    if (node?.type !== WorkflowNodeType.CALL_WORKFLOW) return;
+
+    console.log(`[CALL_WORKFLOW] Sub-workflow execution ${child.id} ended${outcome.error ? ` with error: ${outcome.error}` : ''}, resuming ${parent.id}`);
+    await this.continueAfterSubWorkflow(parent, workflow, node, outcome);
+  }
+
+  /**
+   * Leave a CALL_WORKFLOW node: merge the child's output and follow 'success',
+   * or follow 'error' (failing the execution when there is no such edge)
+   */
+  private async continueAfterSubWorkflow(
+    execution: WorkflowExecution,
+    workflow: Workflow,
+    node: WorkflowNode,
+    outcome: { output?: Record<string, any>; error?: string },
+  ): Promise<void> {
+    const config = node.config as CallWorkflowConfig;
+    const previousStatus = execution.status;
+    let nextEdge;
+
+    if (outcome.error) {
+      execution.context.variables._lastNodeError = outcome.error;
+      execution.context.variables._lastNodeErrorType = node.type;
+      nextEdge = workflow.edges.find((e) => e.source === node.id && e.condition === 'error');
+      if (!nextEdge) {
+        await this.failExecution(execution, `Sub-workflow failed: ${outcome.error}`);
+        return;
+      }
+    } else {
+      mergeSubWorkflowOutput(execution.context, outcome.output || {}, config?.saveOutputAs);
+      nextEdge = workflow.edges.find((e) => e.source === node.id && e.condition === 'success')
+        || workflow.edges.find((e) => e.source === node.id && !e.condition);
+    }
+
+    const nextNodeId = resolveLoopTransition(execution.context, workflow.edges, node.id, nextEdge?.target ?? null);
+
+    execution.status = ExecutionStatus.RUNNING;
+    execution.currentNodeId = nextNodeId;
+    await this.executionService.updateExecution(execution.id, {
+      status: ExecutionStatus.RUNNING,
+      currentNodeId: nextNodeId,
+      context: execution.context,
+    });
+
+    if (previousStatus === ExecutionStatus.WAITING) {
+      await this.eventBus.emit({
+        type: EventType.EXECUTION_RESUMED,
+        tenantId: execution.tenantId,
+        executionId: execution.id,
+        workflowId: execution.workflowId,
+        sessionId: execution.sessionId,
+        contactPhone: execution.contactPhone,
+        previousStatus: ExecutionStatus.WAITING,
+        timestamp: new Date(),
+      });
+    }
+
+    if (!nextNodeId) {
+      await this.completeExecution(execution);
+      return;
+    }
+
+    await this.continueExecution(execution, workflow);
   }
 
   /**
@@ -0,0 +1,103 @@
+import { ConfigService } from '@nestjs/config';
+import { WorkflowNodeType, ExecutionStatus, WorkflowExecution, WorkflowNode } from '@n9n/shared';
+import { ExecutionEngineService } from './execution-engine.service';
+import { NodeExecutorService } from './node-executor.service';
+import { ContextService } from './context.service';
+
+describe('ExecutionEngineService - WAIT_REPLY expectations', () => {
+  let engine: ExecutionEngineService;
+  let nodeExecutor: NodeExecutorService;
+  let prisma: { contactFlowState: { deleteMany: jest.Mock } };
+  let executionService: { updateExecution: jest.Mock };
+
+  const waitReply = (id: string, expectedType?: string): WorkflowNode => ({
+    id,
+    type: WorkflowNodeType.WAIT_REPLY,
+    config: { saveAs: 'answer', timeoutSeconds: 60, expectedType },
+    position: { x: 0, y: 0 },
+  }) as any;
+
+  const execution = (): WorkflowExecution => ({
+    id: 'exec-1',
+    tenantId: 'tenant-1',
+    workflowId: 'wf-1',
+    sessionId: 'session-1',
+    contactPhone: '5511999999999',
+    status: ExecutionStatus.WAITING,
+    currentNodeId: 'ask-image',
+    context: { globals: {}, input: {}, output: {}, variables: {} },
+    interactionCount: 0,
+    startedAt: new Date(),
+    updatedAt: new Date(),
+    // Already expired, so resumeExecution stops right after its reply checks
+    expiresAt: new Date(Date.now() - 1000),
+  }) as any;
+
+  beforeEach(() => {
+    nodeExecutor = new NodeExecutorService(
+      new ContextService(),
+      new ConfigService(),
+      {} as any, {} as any, {} as any, {} as any, {} as any, {} as any,
+      {} as any, {} as any, {} as any, {} as any, {} as any, {} as any, {} as any,
+    );
+    prisma = { contactFlowState: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) } };
+    executionService = { updateExecution: jest.fn().mockResolvedValue(undefined) };
+    const redis = {
+      acquireLock: jest.fn().mockResolvedValue(true),
+      releaseLock: jest.fn().mockResolvedValue(undefined),
+      get: jest.fn().mockResolvedValue(null),
+    };
+
+    engine = new ExecutionEngineService(
+      prisma as any,
+      redis as any,
+      { emit: jest.fn() } as any,
+      executionService as any,
+      nodeExecutor,
+      {} as any,
+      {} as any,
+      {} as any,
+      new ContextService(),
+      {} as any,
+      {} as any,
+    );
+    jest.spyOn(engine, 'expireExecution').mockResolvedValue(undefined);
+  });
+
+  it('should drop a text reply while an image is expected', async () => {
+    const exec = execution();
+    await nodeExecutor.executeNode(waitReply('ask-image', 'image'), exec.context, []);
+
+    await engine.resumeExecution(exec, 'hello', { type: 'text' });
+
+    expect(exec.context.variables._replyWait).toEqual({ expectedType: 'image', hasFallback: false });
+    expect(engine.expireExecution).not.toHaveBeenCalled();
+  });
+
+  it('should accept any reply on an untyped WAIT_REPLY that follows a typed one', async () => {
+    const exec = execution();
+    await nodeExecutor.executeNode(waitReply('ask-image', 'image'), exec.context, []);
+    exec.context.variables._pollWait = { options: ['Sim', 'Não'] };
+
+    await nodeExecutor.executeNode(waitReply('ask-anything'), exec.context, []);
+    await engine.resumeExecution(exec, 'hello', { type: 'text' });
+
+    expect(exec.context.variables._replyWait).toBeUndefined();
+    expect(exec.context.variables._pollWait).toBeUndefined();
+    expect(engine.expireExecution).toHaveBeenCalledWith(exec);
+  });
+
+  it('should forget the pending expectation when the execution is paused for a human', async () => {
+    const exec = execution();
+    await nodeExecutor.executeNode(waitReply('ask-image', 'image'), exec.context, []);
+
+    await engine.pauseExecution(exec);
+    await engine.resumeExecution(exec, 'hello', { type: 'text' });
+
+    expect(executionService.updateExecution).toHaveBeenCalledWith('exec-1', expect.objectContaining({
+      status: ExecutionStatus.PAUSED,
+      context: expect.objectContaining({ variables: {} }),
+    }));
+    expect(engine.expireExecution).toHaveBeenCalledWith(exec);
+  });
+});
@@ -5,17 +5,22 @@ import { NodeExecutorService } from './node-executor.service';
 import { ContextService } from './context.service';
 import { WhatsappSenderService } from './whatsapp-sender.service';
 import { ContactTagsService } from './contact-tags.service';
-import { ScheduleWorker } from '../worker/schedule.worker';
+import { ScheduleWorker, SCHEDULE_QUEUE } from '../worker/schedule.worker';
+import { ScheduleProcessor } from '../worker/schedule.processor';
 import { OCRService } from './ocr.service';
 import { AiOcrService } from './ai-ocr.service';
 import { BullModule } from '@nestjs/bullmq';
 import { RmktProcessor } from './rmkt.processor';
+import { WaitTimerProcessor } from './wait-timer.processor';
+import { WAIT_TIMER_QUEUE } from './execution-engine.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { MlOffersService } from './ml-offers.service';
 import { ScheduleModule } from '@nestjs/schedule';
 import { MlOffersController } from './ml-offers.controller';
 import { ApiConfigsModule } from '../api-configs/api-configs.module';
 import { StorageModule } from '../storage/storage.module';
+import { CommandPolicyModule } from '../command-policy/command-policy.module';
+import { ContactsModule } from '../contacts/contacts.module';
 
 @Global()
 @Module({
@@ -23,10 +28,18 @@ import { StorageModule } from '../storage/storage.module';
     BullModule.registerQueue({
       name: 'rmkt',
     }),
+    BullModule.registerQueue({
+      name: WAIT_TIMER_QUEUE,
+    }),
+    BullModule.registerQueue({
+      name: SCHEDULE_QUEUE,
+    }),
     PrismaModule,
     ScheduleModule.forRoot(),
     StorageModule,
     ApiConfigsModule,
+    CommandPolicyModule,
+    ContactsModule,
   ],
   controllers: [MlOffersController],
   providers: [
@@ -37,8 +50,10 @@ import { StorageModule } from '../storage/storage.module';
     WhatsappSenderService,
     ContactTagsService,
     ScheduleWorker,
+    ScheduleProcessor,
     OCRService,
     RmktProcessor,
+    WaitTimerProcessor,
     MlOffersService,
     AiOcrService,
   ],
@@ -46,6 +61,7 @@ import { StorageModule } from '../storage/storage.module';
     ExecutionService,
     ExecutionEngineService,
     NodeExecutorService,
+    ContextService,
     WhatsappSenderService,
     ContactTagsService,
     OCRService,
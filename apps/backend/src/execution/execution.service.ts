@@ -20,8 +20,7 @@ export class ExecutionService {
     contactPhone: string,
     initialContext: Partial<ExecutionContext> = {},
   ): Promise<WorkflowExecution> {
-    const ttlHours = this.configService.get('EXECUTION_DEFAULT_TTL_HOURS', 24);
-    const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+    const expiresAt = this.getDefaultExpiresAt();
 
     const context: ExecutionContext = {
       tenantId,
@@ -103,6 +102,7 @@ export class ExecutionService {
       context: ExecutionContext;
       interactionCount: number;
       error: string;
+      expiresAt: Date;
     }>,
   ): Promise<WorkflowExecution> {
     const execution = await this.prisma.workflowExecution.update({
@@ -157,6 +157,14 @@ export class ExecutionService {
     return mapped;
   }
 
+  /**
+   * Expiry for an execution starting (or restarting) now
+   */
+  getDefaultExpiresAt(): Date {
+    const ttlHours = this.configService.get('EXECUTION_DEFAULT_TTL_HOURS', 24);
+    return new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+  }
+
   /**
    * Get expired executions
    */
@@ -207,6 +215,8 @@ export class ExecutionService {
       sessionId: data.sessionId,
       contactPhone: data.contactPhone,
       campaignId: data.campaignId,
+      parentExecutionId: data.parentExecutionId ?? undefined,
+      workflowVersion: data.workflowVersion ?? undefined,
       currentNodeId: data.currentNodeId,
       status: data.status as ExecutionStatus,
       context: data.context as ExecutionContext,
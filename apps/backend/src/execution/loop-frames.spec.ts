@@ -0,0 +1,107 @@
+import { ExecutionContext, WorkflowEdge } from '@n9n/shared';
+import {
+  getLoopStack,
+  pushLoopFrame,
+  resolveLoopTransition,
+  migrateLegacyLoopState,
+} from './loop-frames';
+
+describe('loop-frames', () => {
+  let context: ExecutionContext;
+
+  // outer -> (loop) inner -> (loop) body; inner (done) -> after-inner; outer (done) -> finish
+  const edges: WorkflowEdge[] = [
+    { id: 'e1', source: 'outer', target: 'inner', condition: 'loop' },
+    { id: 'e2', source: 'outer', target: 'finish', condition: 'done' },
+    { id: 'e3', source: 'inner', target: 'body', condition: 'loop' },
+    { id: 'e4', source: 'inner', target: 'after-inner', condition: 'done' },
+    { id: 'e5', source: 'body', target: 'inner', targetHandle: 'continue' },
+    { id: 'e6', source: 'check', target: 'inner', targetHandle: 'break' },
+  ];
+
+  const startOuter = () => pushLoopFrame(context, { nodeId: 'outer', items: ['a', 'b'], itemVariable: 'row', indexVariable: 'i' });
+  const startInner = () => pushLoopFrame(context, { nodeId: 'inner', items: [1, 2, 3], itemVariable: 'cell', indexVariable: 'j' });
+
+  beforeEach(() => {
+    context = { globals: {}, input: {}, output: {}, variables: {}, tenantId: 't1' };
+  });
+
+  it('should keep separate positions for nested loops', () => {
+    startOuter();
+    startInner();
+
+    expect(resolveLoopTransition(context, edges, 'body', 'inner')).toBe('body');
+    expect(context.variables.cell).toBe(2);
+    expect(context.variables.row).toBe('a');
+    expect(getLoopStack(context).map((f) => f.index)).toEqual([0, 1]);
+  });
+
+  it('should restore the outer item when the inner loop finishes', () => {
+    startOuter();
+    startInner();
+
+    resolveLoopTransition(context, edges, 'body', 'inner');
+    resolveLoopTransition(context, edges, 'body', 'inner');
+    expect(resolveLoopTransition(context, edges, 'body', 'inner')).toBe('after-inner');
+
+    expect(getLoopStack(context).map((f) => f.nodeId)).toEqual(['outer']);
+    expect(context.variables.row).toBe('a');
+    expect(context.variables.i).toBe(0);
+  });
+
+  it('should treat a dead end as the end of the iteration', () => {
+    startOuter();
+    expect(resolveLoopTransition(context, edges, 'inner', null)).toBe('inner');
+    expect(context.variables.row).toBe('b');
+    expect(resolveLoopTransition(context, edges, 'inner', null)).toBe('finish');
+    expect(getLoopStack(context)).toEqual([]);
+  });
+
+  it('should leave the loop through the break handle', () => {
+    startOuter();
+    startInner();
+
+    expect(resolveLoopTransition(context, edges, 'check', 'inner')).toBe('after-inner');
+    expect(getLoopStack(context).map((f) => f.nodeId)).toEqual(['outer']);
+  });
+
+  it('should continue the outer loop when a loop has no done edge', () => {
+    const noDone = edges.filter((e) => e.id !== 'e4');
+    startOuter();
+    startInner();
+
+    expect(resolveLoopTransition(context, noDone, 'check', 'inner')).toBe('inner');
+    expect(context.variables.row).toBe('b');
+  });
+
+  it('should drop inner frames when jumping back to the outer loop', () => {
+    startOuter();
+    startInner();
+
+    expect(resolveLoopTransition(context, edges, 'body', 'outer')).toBe('inner');
+    expect(getLoopStack(context).map((f) => f.nodeId)).toEqual(['outer']);
+    expect(context.variables.row).toBe('b');
+  });
+
+  it('should pass transitions through when no loop is active', () => {
+    expect(resolveLoopTransition(context, edges, 'a', 'b')).toBe('b');
+    expect(resolveLoopTransition(context, edges, 'a', null)).toBeNull();
+  });
+
+  it('should migrate the legacy flat loop variables', () => {
+    context.variables = {
+      _loopNodeId: 'outer',
+      _loopData: ['a', 'b'],
+      _loopCurrentIndex: 1,
+      _loopItemVariable: 'row',
+      _loopIndexVariable: 'i',
+    };
+
+    migrateLegacyLoopState(context);
+
+    expect(getLoopStack(context)).toEqual([
+      { nodeId: 'outer', items: ['a', 'b'], index: 1, itemVariable: 'row', indexVariable: 'i' },
+    ]);
+    expect(context.variables._loopNodeId).toBeUndefined();
+  });
+});
@@ -0,0 +1,196 @@
+import { ExecutionContext, WorkflowEdge } from '@n9n/shared';
+
+/**
+ * LOOP state is a stack of frames in `variables._loopStack`, innermost last,
+ * so loops can be nested without clobbering each other.
+ */
+export const LOOP_STACK_VARIABLE = '_loopStack';
+
+/** Default per-run node budget when the workflow does not set `maxIterations` */
+export const DEFAULT_MAX_ITERATIONS = 1000;
+export const MAX_ITERATIONS_LIMIT = 100000;
+
+export interface LoopFrame {
+  nodeId: string;
+  items: any[];
+  index: number;
+  itemVariable: string;
+  indexVariable: string;
+}
+
+/** How a transition back into a loop node affects it */
+export type LoopAction = 'continue' | 'break';
+
+export function getLoopStack(context: ExecutionContext): LoopFrame[] {
+  const stack = context.variables?.[LOOP_STACK_VARIABLE];
+  return Array.isArray(stack) ? stack : [];
+}
+
+function setLoopStack(context: ExecutionContext, stack: LoopFrame[]): void {
+  if (!context.variables) context.variables = {};
+  if (stack.length > 0) {
+    context.variables[LOOP_STACK_VARIABLE] = stack;
+  } else {
+    delete context.variables[LOOP_STACK_VARIABLE];
+  }
+}
+
+export function findLoopFrame(context: ExecutionContext, nodeId: string): LoopFrame | undefined {
+  return getLoopStack(context).find((frame) => frame.nodeId === nodeId);
+}
+
+/** Expose the frame's current item and index under the configured variable names */
+function applyFrameVariables(context: ExecutionContext, frame: LoopFrame): void {
+  context.variables[frame.itemVariable] = frame.items[frame.index];
+  context.variables[frame.indexVariable] = frame.index;
+}
+
+/**
+ * Start a loop. Entering a loop that is already on the stack (e.g. an outer
+ * iteration reaching the inner loop again) restarts it and drops anything above.
+ */
+export function pushLoopFrame(
+  context: ExecutionContext,
+  frame: Omit<LoopFrame, 'index'>,
+): LoopFrame {
+  const stack = getLoopStack(context);
+  const existing = stack.findIndex((f) => f.nodeId === frame.nodeId);
+  const base = existing === -1 ? stack : stack.slice(0, existing);
+  const newFrame: LoopFrame = { ...frame, index: 0 };
+
+  setLoopStack(context, [...base, newFrame]);
+  if (newFrame.items.length > 0) {
+    applyFrameVariables(context, newFrame);
+  }
+  return newFrame;
+}
+
+/** Drop frames opened inside the given loop (jumping back to it leaves them) */
+export function unwindLoopStack(context: ExecutionContext, nodeId: string): void {
+  const stack = getLoopStack(context);
+  const index = stack.findIndex((f) => f.nodeId === nodeId);
+  if (index !== -1 && index < stack.length - 1) {
+    setLoopStack(context, stack.slice(0, index + 1));
+  }
+}
+
+/** Remove the innermost frame and restore the enclosing loop's item/index */
+function popLoopFrame(context: ExecutionContext): LoopFrame | undefined {
+  const stack = getLoopStack(context);
+  const frame = stack[stack.length - 1];
+  if (!frame) return undefined;
+
+  const rest = stack.slice(0, -1);
+  setLoopStack(context, rest);
+
+  const outer = rest[rest.length - 1];
+  if (outer) {
+    applyFrameVariables(context, outer);
+  }
+  return frame;
+}
+
+/**
+ * Finish the current iteration of the innermost loop.
+ *
+ * `continue` moves to the next item (or leaves the loop after the last one),
+ * `break` leaves it right away. Leaving a loop follows its 'done' edge; a loop
+ * without one ends the enclosing loop's iteration in turn.
+ *
+ * Returns the edge to follow, or null when the execution should complete.
+ */
+function advanceLoop(
+  context: ExecutionContext,
+  edges: WorkflowEdge[],
+  action: LoopAction,
+): WorkflowEdge | null {
+  let currentAction = action;
+
+  for (;;) {
+    const stack = getLoopStack(context);
+    const frame = stack[stack.length - 1];
+    if (!frame) return null;
+
+    if (currentAction === 'continue' && frame.index + 1 < frame.items.length) {
+      const loopEdge = edges.find((e) => e.source === frame.nodeId && e.condition === 'loop');
+      if (loopEdge) {
+        frame.index += 1;
+        setLoopStack(context, stack);
+        applyFrameVariables(context, frame);
+        return loopEdge;
+      }
+    }
+
+    popLoopFrame(context);
+    const doneEdge = edges.find((e) => e.source === frame.nodeId && e.condition === 'done');
+    if (doneEdge) return doneEdge;
+
+    currentAction = 'continue';
+  }
+}
+
+/**
+ * Apply the loop stack to a transition from `sourceNodeId` to `nextNodeId`.
+ *
+ * - An edge back into an active LOOP node continues it, or breaks out of it
+ *   when the edge ends on the node's 'break' handle. Inner loops are dropped.
+ * - A dead end (no next node) inside a loop finishes the iteration.
+ *
+ * Returns the node to run next, or null when the execution should complete.
+ */
+export function resolveLoopTransition(
+  context: ExecutionContext,
+  edges: WorkflowEdge[],
+  sourceNodeId: string,
+  nextNodeId: string | null,
+): string | null {
+  let source = sourceNodeId;
+  let next = nextNodeId;
+
+  while (getLoopStack(context).length > 0) {
+    let action: LoopAction = 'continue';
+
+    if (next) {
+      if (!findLoopFrame(context, next)) return next;
+
+      const target = next;
+      const breakEdge = edges.find(
+        (e) => e.source === source && e.target === target && e.targetHandle === 'break',
+      );
+      action = breakEdge ? 'break' : 'continue';
+      unwindLoopStack(context, target);
+    }
+
+    const edge = advanceLoop(context, edges, action);
+    if (!edge) return null;
+
+    // A 'done' edge may itself lead back into an enclosing loop
+    source = edge.source;
+    next = edge.target;
+  }
+
+  return next;
+}
+
+/**
+ * Convert the flat `_loop*` variables used before loop frames existed, so
+ * executions that were waiting inside a loop across a deploy keep iterating.
+ */
+export function migrateLegacyLoopState(context: ExecutionContext): void {
+  const variables = context.variables;
+  if (!variables?._loopNodeId) return;
+
+  if (!Array.isArray(variables[LOOP_STACK_VARIABLE]) && Array.isArray(variables._loopData)) {
+    setLoopStack(context, [{
+      nodeId: variables._loopNodeId,
+      items: variables._loopData,
+      index: variables._loopCurrentIndex ?? 0,
+      itemVariable: variables._loopItemVariable || 'item',
+      indexVariable: variables._loopIndexVariable || 'index',
+    }]);
+  }
+
+  for (const key of ['_loopNodeId', '_loopData', '_loopCurrentIndex', '_loopItemVariable', '_loopIndexVariable', '_loopResults', '_loopIterationsExecuted']) {
+    delete variables[key];
+  }
+}
@@ -33,6 +33,7 @@ import {
   OfertaRelampagoConfig,
   LembreteRecorrenteConfig,
   EnqueteGrupoConfig,
+  WaitPollVoteConfig,
   SequenciaLancamentoConfig,
   PromoMLApiConfig,
   GrupoWaitConfig,
@@ -42,14 +43,17 @@ import {
   NotificacaoConfig,
   SendPwaNotificationConfig,
   AiOcrPixConfig,
+  CallWorkflowConfig,
+  HandoffConfig,
+  UpdateContactConfig,
+  TriggerMessagePayload,
 } from '@n9n/shared';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 import { ContextService } from './context.service';
 import { ContactTagsService } from './contact-tags.service';
-import { JSDOM } from 'jsdom';
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
 import { PixParser } from './pix-parser.util';
 import { OCRService } from './ocr.service';
@@ -60,6 +64,19 @@ import { MlOffersService } from './ml-offers.service';
 import { ApiConfigsService } from '../api-configs/api-configs.service';
 import { StorageService } from '../storage/storage.service';
 import { AiOcrService } from './ai-ocr.service';
+import { runCodeInSandbox, CodeSandboxError } from './code-sandbox';
+import { pushLoopFrame, getLoopStack } from './loop-frames';
+import { getStructuredReply } from './reply-type.util';
+import { CommandPolicyService } from '../command-policy/command-policy.service';
+import { ContactsService } from '../contacts/contacts.service';
+import { VaultService } from '../vault/vault.service';
+import {
+  splitCommandLine,
+  interpolateCommandArgs,
+  escapeCommandValue,
+} from '../command-policy/command-args.util';
+
+const execFileAsync = promisify(execFile);
 
 export interface NodeExecutionResult {
   nextNodeId: string | null;
@@ -86,9 +103,17 @@ export interface NodeExecutionResult {
       name: string;
       values: string[];
       selectableCount: number;
+      track?: { executionId?: string; nodeId?: string };
     };
     mentions?: string[];
   };
+  callWorkflow?: {
+    workflowId: string;
+    variables: Record<string, any>;
+  };
+  handoff?: {
+    queue: string | null;
+  };
 }
 
 @Injectable()
@@ -108,6 +133,9 @@ export class NodeExecutorService {
     private storageService: StorageService,
     private eventEmitter: EventEmitter2,
     private aiOcrService: AiOcrService,
+    private commandPolicy: CommandPolicyService,
+    private contactsService: ContactsService,
+    private vault: VaultService,
   ) { }
 
   /**
@@ -131,6 +159,22 @@ export class NodeExecutorService {
     return fallbackUrl;
   }
 
+  /**
+   * Secret for a node: the referenced vault credential, else the inline value.
+   * Inline values left after the vault migration are {{templates}} only.
+   */
+  private async resolveNodeSecret(
+    tenantId: string | undefined,
+    context: ExecutionContext,
+    credentialId?: string,
+    inline?: string,
+  ): Promise<string | undefined> {
+    if (credentialId) {
+      return (await this.vault.resolve(tenantId, credentialId)) || undefined;
+    }
+    return inline ? this.contextService.interpolate(inline, context) : undefined;
+  }
+
   setWhatsappSessionManager(manager: any) {
     this.whatsappSessionManager = manager;
   }
@@ -273,6 +317,7 @@ export class NodeExecutorService {
     contactPhone?: string,
     workflowId?: string,
     executionId?: string,
+    tenantId?: string,
   ): Promise<NodeExecutionResult> {
     switch (node.type) {
       case WorkflowNodeType.SEND_MESSAGE:
@@ -311,6 +356,9 @@ export class NodeExecutorService {
       case WorkflowNodeType.WAIT_REPLY:
         return this.executeWaitReply(node, context, edges);
 
+      case WorkflowNodeType.WAIT_POLL_VOTE:
+        return this.executeWaitPollVote(node, context, edges, sessionId, contactPhone, executionId);
+
       case WorkflowNodeType.WAIT:
         return this.executeWait(node, context, edges);
 
@@ -325,7 +373,7 @@ export class NodeExecutorService {
 
       case WorkflowNodeType.COMMAND:
       case 'COMMAND':
-        return await this.executeCommand(node, context, edges);
+        return await this.executeCommand(node, context, edges, tenantId, workflowId, executionId);
 
       case WorkflowNodeType.PIX_RECOGNITION:
         return await this.executePixRecognition(node, context, edges);
@@ -390,6 +438,15 @@ export class NodeExecutorService {
       case WorkflowNodeType.SEND_PWA_NOTIFICATION:
         return this.executeSendPwaNotification(node, context, edges, sessionId, contactPhone);
 
+      case WorkflowNodeType.CALL_WORKFLOW:
+        return this.executeCallWorkflow(node, context);
+
+      case WorkflowNodeType.HANDOFF:
+        return this.executeHandoff(node, context, edges, sessionId, contactPhone, executionId);
+
+      case WorkflowNodeType.UPDATE_CONTACT:
+        return this.executeUpdateContact(node, context, edges, contactPhone);
+
       case WorkflowNodeType.END:
         return this.executeEnd(node, context);
 
@@ -442,11 +499,9 @@ export class NodeExecutorService {
       const tenantId = context.globals.tenantId || (context.variables as any)?._tenantId || (context.variables as any)?.tenantId;
       if (tenantId) {
         try {
-          const apiConfig = await this.prisma.tenantApiConfig.findFirst({
-            where: { tenantId, provider: 'pushcut', isActive: true },
-          });
+          const apiConfig = await this.apiConfigsService.getByProvider(tenantId, 'pushcut');
           
-          if (apiConfig && apiConfig.secret) {
+          if (apiConfig?.isActive && apiConfig.secret) {
             const body: any = {};
             if (title) body.title = title;
             if (text) body.text = text;
@@ -1156,6 +1211,17 @@ export class NodeExecutorService {
       timeoutSeconds = config.timeoutAmount * (multipliers[config.timeoutUnit] || 1);
     }
 
+    // Expected reply kind, checked by the engine on resume. Expectations left
+    // by an earlier WAIT_REPLY or poll must not apply to this one.
+    delete (context.variables as any)._replyWait;
+    delete (context.variables as any)._pollWait;
+    if (config.expectedType && config.expectedType !== 'any') {
+      (context.variables as any)._replyWait = {
+        expectedType: config.expectedType,
+        hasFallback: edges.some((e) => e.source === node.id && e.condition === 'invalid'),
+      };
+    }
+
     // Find next node (will be used when resumed) - engine handles this now, we keep for fallback
     const nextEdge = edges.find((e) => e.source === node.id && (e.condition === 'success' || !e.condition));
     const nextNodeId = nextEdge ? nextEdge.target : null;
@@ -1169,103 +1235,168 @@ export class NodeExecutorService {
     };
   }
 
+  /**
+   * Execute WAIT_POLL_VOTE node
+   * Sends a poll and waits for the contact's vote; the engine routes on the
+   * option picked (edge condition = option index).
+   */
+  private executeWaitPollVote(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    edges: any[],
+    sessionId?: string,
+    contactPhone?: string,
+    executionId?: string,
+  ): NodeExecutionResult {
+    const config = node.config as WaitPollVoteConfig;
+    if (!sessionId || !contactPhone) throw new Error('Session and Contact are required for WAIT_POLL_VOTE');
+
+    const question = this.contextService.interpolate(config.pergunta || '', context);
+    const options = (config.opcoes || []).map((opt) => this.contextService.interpolate(opt, context)).filter((opt) => opt.trim());
+    if (!question || options.length < 2) throw new Error('WAIT_POLL_VOTE needs a question and at least 2 options');
+
+    const poll = {
+      name: question,
+      values: options,
+      selectableCount: config.multiplas ? options.length : 1,
+    };
+
+    // Votes in groups come from many people; send the poll and move on
+    const isGroupFlow = !!(context.variables as any)?.groupJid;
+    if (isGroupFlow) {
+      console.log(`[WAIT_POLL_VOTE] Skipping wait in group flow for node ${node.id}`);
+      const nextEdge = edges.find((e) => e.source === node.id && e.condition !== 'timeout');
+      return { nextNodeId: nextEdge ? nextEdge.target : null, shouldWait: false, messageToSend: { sessionId, contactPhone, poll } };
+    }
+
+    let timeoutSeconds = this.configService.get('WAIT_REPLY_DEFAULT_TIMEOUT_SECONDS', 300);
+    if (config.timeoutAmount && config.timeoutUnit) {
+      const multipliers: Record<string, number> = { seconds: 1, minutes: 60, hours: 3600, days: 86400 };
+      timeoutSeconds = config.timeoutAmount * (multipliers[config.timeoutUnit] || 1);
+    }
+
+    // Interpolated options, used by the engine to match the vote
+    (context.variables as any)._pollWait = { options };
+
+    return {
+      nextNodeId: null,
+      shouldWait: true,
+      waitTimeoutSeconds: timeoutSeconds,
+      onTimeout: 'GOTO_NODE',
+      messageToSend: {
+        sessionId,
+        contactPhone,
+        poll: { ...poll, track: { executionId, nodeId: node.id } },
+      },
+    };
+  }
+
   /**
    * Execute COMMAND node
+   * Runs one allow-listed binary with an argv array (no shell). Every
+   * invocation, including denied ones, is written to the command audit log.
+   * The tenant comes from the execution row: flow variables are writable by
+   * nodes and must not pick the policy.
    */
   private async executeCommand(
     node: WorkflowNode,
     context: ExecutionContext,
     edges: any[],
+    tenantId?: string,
+    workflowId?: string,
+    executionId?: string,
   ): Promise<NodeExecutionResult> {
     const config = node.config as CommandConfig;
 
-    // Interpolate command (can include full command with arguments)
-    const fullCommand = this.contextService.interpolate(config.command, context);
+    // Set timeout (default 30 seconds, capped at 5 minutes)
+    const timeout = Math.min(config.timeout || 30000, 5 * 60 * 1000);
 
-    // Set timeout (default 30 seconds)
-    const timeout = config.timeout || 30000;
+    const outputVarName = config.saveOutputAs || 'commandOutput';
+    const errorVarName = config.saveErrorAs || 'commandError';
+    const exitCodeVarName = config.saveExitCodeAs || 'commandExitCode';
 
-    // Execute command
-    const execAsync = promisify(exec);
+    // Find next node
+    const nextEdge = edges.find((e) => e.source === node.id);
+    const nextNodeId = nextEdge ? nextEdge.target : null;
 
-    try {
-      const options: any = {
-        timeout,
-        maxBuffer: 10 * 1024 * 1024, // 10MB max output
-      };
+    const finish = (stdout: string, stderr: string, exitCode: number, command: string, error?: string): NodeExecutionResult => {
+      this.contextService.setVariable(context, outputVarName, stdout);
+      this.contextService.setVariable(context, errorVarName, stderr);
+      this.contextService.setVariable(context, exitCodeVarName, exitCode);
 
-      const { stdout, stderr } = await execAsync(fullCommand, options);
+      const output = { stdout, stderr, exitCode, command, ...(error ? { error } : {}) };
+      this.contextService.setOutput(context, output);
 
-      // Save outputs to context variables
-      const outputVarName = config.saveOutputAs || 'commandOutput';
-      const errorVarName = config.saveErrorAs || 'commandError';
-      const exitCodeVarName = config.saveExitCodeAs || 'commandExitCode';
+      return { nextNodeId, shouldWait: false, output };
+    };
 
-      this.contextService.setVariable(context, outputVarName, stdout);
-      this.contextService.setVariable(context, errorVarName, stderr || '');
-      this.contextService.setVariable(context, exitCodeVarName, 0);
+    // Resolve binary + argv; legacy configs carry one command line
+    let binary = '';
+    let args: string[] = [];
+    try {
+      let argTemplates: string[];
+      if (config.binary) {
+        binary = config.binary.trim();
+        argTemplates = (config.args || []).map(arg => String(arg ?? ''));
+      } else {
+        [binary = '', ...argTemplates] = splitCommandLine(config.command || '');
+      }
+      if (binary.includes('{{')) {
+        throw new Error('The binary cannot contain variables');
+      }
+      args = interpolateCommandArgs(argTemplates, template =>
+        this.contextService.interpolate(template, context, escapeCommandValue),
+      );
+    } catch (error: any) {
+      await this.commandPolicy.recordAudit({
+        tenantId, workflowId, executionId, nodeId: node.id,
+        binary: binary || '(invalid)', args, status: 'DENIED', error: error.message,
+      });
+      return finish('', error.message, 126, config.command || binary, error.message);
+    }
 
-      // Store in output
-      this.contextService.setOutput(context, {
-        stdout,
-        stderr: stderr || '',
-        exitCode: 0,
-        command: fullCommand,
+    const commandLine = [binary, ...args].join(' ');
+
+    const denialReason = tenantId
+      ? await this.commandPolicy.getDenialReason(tenantId, binary)
+      : 'Missing tenant context';
+    if (denialReason) {
+      console.warn(`[COMMAND] Denied "${binary}" in workflow ${workflowId}: ${denialReason}`);
+      await this.commandPolicy.recordAudit({
+        tenantId, workflowId, executionId, nodeId: node.id,
+        binary, args, status: 'DENIED', error: denialReason,
       });
+      return finish('', denialReason, 126, commandLine, denialReason);
+    }
 
-      // Find next node
-      const nextEdge = edges.find((e) => e.source === node.id);
-      const nextNodeId = nextEdge ? nextEdge.target : null;
+    const startedAt = Date.now();
+    try {
+      const { stdout, stderr } = await execFileAsync(binary, args, {
+        timeout,
+        maxBuffer: 10 * 1024 * 1024, // 10MB max output
+        // Only PATH — the backend's secrets never reach the child process
+        env: { PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin' },
+        windowsHide: true,
+      });
 
-      return {
-        nextNodeId,
-        shouldWait: false,
-        output: {
-          stdout,
-          stderr: stderr || '',
-          exitCode: 0,
-          command: fullCommand,
-        },
-      };
+      await this.commandPolicy.recordAudit({
+        tenantId, workflowId, executionId, nodeId: node.id,
+        binary, args, status: 'EXECUTED', exitCode: 0, durationMs: Date.now() - startedAt,
+      });
+
+      return finish(String(stdout), String(stderr || ''), 0, commandLine);
     } catch (error: any) {
       // Handle timeout or other errors
-      const exitCode = error.code === 'ETIMEDOUT' ? -1 : error.code || 1;
-      const stderr = error.stderr || error.message || '';
-      const stdout = error.stdout || '';
+      const exitCode = error.killed ? -1 : typeof error.code === 'number' ? error.code : 1;
+      const stderr = String(error.stderr || error.message || '');
+      const stdout = String(error.stdout || '');
 
-      // Save outputs to context variables
-      const outputVarName = config.saveOutputAs || 'commandOutput';
-      const errorVarName = config.saveErrorAs || 'commandError';
-      const exitCodeVarName = config.saveExitCodeAs || 'commandExitCode';
-
-      this.contextService.setVariable(context, outputVarName, stdout);
-      this.contextService.setVariable(context, errorVarName, stderr);
-      this.contextService.setVariable(context, exitCodeVarName, exitCode);
-
-      // Store in output
-      this.contextService.setOutput(context, {
-        stdout,
-        stderr,
-        exitCode,
-        command: fullCommand,
-        error: error.message,
+      await this.commandPolicy.recordAudit({
+        tenantId, workflowId, executionId, nodeId: node.id,
+        binary, args, status: 'FAILED', exitCode, durationMs: Date.now() - startedAt, error: error.message,
       });
 
-      // Find next node
-      const nextEdge = edges.find((e) => e.source === node.id);
-      const nextNodeId = nextEdge ? nextEdge.target : null;
-
-      return {
-        nextNodeId,
-        shouldWait: false,
-        output: {
-          stdout,
-          stderr,
-          exitCode,
-          command: fullCommand,
-          error: error.message,
-        },
-      };
+      return finish(stdout, stderr, exitCode, commandLine, error.message);
     }
   }
 
@@ -1279,7 +1410,7 @@ export class NodeExecutorService {
     const output: Record<string, any> = {};
 
     if (config.outputVariables) {
-      config.outputVariables.forEach((varName) => {
+      config.outputVariables.filter(Boolean).forEach((varName) => {
         output[varName] = this.contextService.getVariable(context, varName);
       });
     }
@@ -1293,6 +1424,120 @@ export class NodeExecutorService {
     };
   }
 
+  /**
+   * Execute HANDOFF node - move the conversation to a queue and pause the bot.
+   * The execution engine pauses this execution; an agent returns it to the bot.
+   */
+  private executeHandoff(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    edges: any[],
+    sessionId?: string,
+    contactPhone?: string,
+    executionId?: string,
+  ): NodeExecutionResult {
+    const config = (node.config || {}) as HandoffConfig;
+    const queue = this.contextService.interpolate(config.queue || '', context).trim() || null;
+    const message = this.contextService.interpolate(config.message || '', context).trim();
+    const tenantId = context.globals?.tenantId || (context.variables as any)?._tenantId || (context.variables as any)?.tenantId;
+
+    this.eventEmitter.emit('conversation.handoff', { tenantId, sessionId, contactPhone, queue, executionId });
+    this.contextService.setOutput(context, { queue });
+
+    const nextEdge = edges.find((e) => e.source === node.id);
+    return {
+      nextNodeId: nextEdge ? nextEdge.target : null,
+      shouldWait: false,
+      handoff: { queue },
+      messageToSend: message && sessionId && contactPhone ? { sessionId, contactPhone, message } : undefined,
+      output: { queue },
+    };
+  }
+
+  /**
+   * Execute UPDATE_CONTACT node - set the contact name and custom fields.
+   * Invalid values (wrong type, unknown field) fail the node.
+   */
+  private async executeUpdateContact(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    edges: any[],
+    contactPhone?: string,
+  ): Promise<NodeExecutionResult> {
+    const config = (node.config || {}) as UpdateContactConfig;
+    const tenantId = context.globals?.tenantId || (context.variables as any)?._tenantId;
+    const destination = context.contactId || contactPhone;
+
+    if (!tenantId || !destination) {
+      throw new Error('UPDATE_CONTACT node requires a contact');
+    }
+
+    const name = this.contextService.interpolate(config.name || '', context).trim();
+    const fields: Record<string, string> = {};
+    for (const mapping of config.fields || []) {
+      if (!mapping?.key) continue;
+      fields[mapping.key] = this.contextService.interpolate(mapping.value || '', context);
+    }
+
+    const contact = await this.contactsService.updateFromFlow(tenantId, destination, {
+      ...(name ? { name } : {}),
+      fields,
+    });
+
+    // Keep {{contact.*}} current for the rest of the flow
+    const current = (context.variables as any).contact || {};
+    this.contextService.setVariable(context, 'contact', {
+      ...contact,
+      name: contact.name || current.name || '',
+      phoneNumber: current.phoneNumber,
+    });
+    this.contextService.setOutput(context, { contact });
+
+    const nextEdge = edges.find((e) => e.source === node.id);
+    return {
+      nextNodeId: nextEdge ? nextEdge.target : null,
+      shouldWait: false,
+      output: { contact },
+    };
+  }
+
+  /**
+   * Execute CALL_WORKFLOW node - resolve the child's input variables.
+   * The execution engine starts the child and pauses this execution until it ends.
+   */
+  private executeCallWorkflow(node: WorkflowNode, context: ExecutionContext): NodeExecutionResult {
+    const config = node.config as CallWorkflowConfig;
+
+    if (!config?.workflowId) {
+      throw new Error('CALL_WORKFLOW node requires a workflow');
+    }
+
+    const variables: Record<string, any> = {};
+    for (const mapping of config.inputMappings || []) {
+      const name = mapping?.name?.trim();
+      if (!name) continue;
+
+      // A lone placeholder keeps the original type (arrays, objects, numbers)
+      const single = typeof mapping.value === 'string' ? mapping.value.trim().match(/^\{\{([^}]+)\}\}$/) : null;
+      variables[name] = single
+        ? this.contextService.getVariable(context, single[1].trim())
+        : this.contextService.interpolate(String(mapping.value ?? ''), context);
+    }
+
+    const output = { workflowId: config.workflowId, inputs: variables };
+    this.contextService.setOutput(context, output);
+
+    return {
+      nextNodeId: null,
+      shouldWait: false,
+      callWorkflow: {
+        workflowId: config.workflowId,
+        variables,
+      },
+      output,
+    };
+  }
+
   /**
    * Execute HTTP_REQUEST node
    */
@@ -1873,89 +2118,22 @@ export class NodeExecutorService {
   }
 
   /**
-   * Execute CODE node
-   */
-  /**
-   * Execute CODE node - runs user-provided JavaScript code
-   * Updated: 2026-01-02 - Fixed helper functions to always be available
+   * Execute CODE node - runs user-provided JavaScript in the sandbox worker
+   * (no Node globals, CPU timeout and memory cap; see code-sandbox.ts)
    */
-  private executeCode(
+  private async executeCode(
     node: WorkflowNode,
     context: ExecutionContext,
     edges: any[],
-  ): NodeExecutionResult {
+  ): Promise<NodeExecutionResult> {
     const config = node.config as CodeConfig;
 
+    // Find next node — CODE continues on success and on error
+    const nextEdge = edges.find((e) => e.source === node.id);
+    const nextNodeId = nextEdge ? nextEdge.target : null;
+
     try {
-      // Prepare the execution context for the code
       const variables = context.variables || {};
-      const globals = context.globals || {};
-      const input = context.input || {};
-
-      // Helper function to parse HTML string (for manipulating scrapeResponse.html)
-      // This will be injected into the code execution context
-      const parseHTML = (htmlString: string) => {
-        const dom = new JSDOM(htmlString);
-        return dom.window.document;
-      };
-
-      const getHTMLDocument = (htmlString: string) => {
-        return parseHTML(htmlString);
-      };
-
-      const nodeListToArray = (nodeList: any) => {
-        return Array.from(nodeList);
-      };
-
-      // Enhanced helper functions for easier HTML manipulation
-      const createHelpers = (htmlString: string) => {
-        const doc = parseHTML(htmlString);
-
-        return {
-          // querySelector shortcut - returns first matching element
-          $: (selector: string) => doc.querySelector(selector),
-
-          // querySelectorAll shortcut - returns array of matching elements
-          $$: (selector: string) => Array.from(doc.querySelectorAll(selector)),
-
-          // Get text content from selector or element
-          getText: (selectorOrElement: string | any) => {
-            const el = typeof selectorOrElement === 'string'
-              ? doc.querySelector(selectorOrElement)
-              : selectorOrElement;
-            return el?.textContent?.trim() || '';
-          },
-
-          // Get attribute from selector or element
-          getAttr: (selectorOrElement: string | any, attrName: string) => {
-            const el = typeof selectorOrElement === 'string'
-              ? doc.querySelector(selectorOrElement)
-              : selectorOrElement;
-            return el?.getAttribute(attrName) || '';
-          },
-
-          // Map over elements and extract data
-          mapElements: (selector: string, mapFn: (el: any, index: number) => any) => {
-            const elements = Array.from(doc.querySelectorAll(selector));
-            return elements.map(mapFn);
-          },
-
-          // Get all text from multiple elements
-          getAllText: (selector: string) => {
-            const elements = Array.from(doc.querySelectorAll(selector));
-            return elements.map((el: any) => el.textContent?.trim() || '');
-          },
-
-          // Get all attributes from multiple elements
-          getAllAttrs: (selector: string, attrName: string) => {
-            const elements = Array.from(doc.querySelectorAll(selector));
-            return elements.map((el: any) => el.getAttribute(attrName) || '');
-          },
-
-          // Direct access to document for advanced queries
-          doc,
-        };
-      };
 
       // Inject variables directly into scope (similar to HTTP_SCRAPE node)
       // This allows users to access variables like scrapeResponse directly
@@ -1970,130 +2148,64 @@ export class NodeExecutorService {
         // Include all other variables from context (variables take precedence over output)
         ...variables,
       };
-      // Create a safe execution function with HTML parsing support
-      // Inject helper functions and variables for HTML manipulation (similar to HTTP_SCRAPE)
-      // Use IIFE to ensure helper functions are available in scope
-      const userCodeWrapper = `
-        return (function(parseHTMLParam, getHTMLDocumentParam, nodeListToArrayParam, createHelpersParam) {
-          // Make helper functions available in this scope with their expected names
-          const parseHTML = parseHTMLParam;
-          const getHTMLDocument = getHTMLDocumentParam;
-          const nodeListToArray = nodeListToArrayParam;
-          
-          // Inject variables directly into scope for easier access
-          const scrapeResponse = variables.scrapeResponse || null;
-          const contactTags = variables.contactTags || [];
-          const triggerMessage = variables.triggerMessage || '';
-          
-          // Create HTML helpers if scrapeResponse.html exists
-          const html = scrapeResponse?.html || null;
-          const helpers = html ? createHelpersParam(html) : {
-            $: () => null,
-            $$: () => [],
-            getText: () => '',
-            getAttr: () => '',
-            mapElements: () => [],
-            getAllText: () => [],
-            getAllAttrs: () => [],
-            doc: null
-          };
-          
-          // Destructure helpers for easy access (always available now)
-          const $ = helpers.$;
-          const $$ = helpers.$$;
-          const getText = helpers.getText;
-          const getAttr = helpers.getAttr;
-          const mapElements = helpers.mapElements;
-          const getAllText = helpers.getAllText;
-          const getAllAttrs = helpers.getAllAttrs;
-          const doc = helpers.doc;
-          
-          // Make all variables available at root level
-          ${Object.keys(variablesToInject).map(key => {
-        // Skip if already defined above
-        if (['scrapeResponse', 'contactTags', 'triggerMessage'].includes(key)) {
-          return '';
-        }
-        return `const ${key} = variables.${key};`;
-      }).filter(Boolean).join('\n')}
-          
-          // User's code - all helper functions are now available in this scope
-          ${config.code}
-        })(parseHTML, getHTMLDocument, nodeListToArray, createHelpers);
-      `;
-
-
-      const executeUserCode = new Function(
-        'variables',
-        'globals',
-        'input',
-        'parseHTML',
-        'getHTMLDocument',
-        'nodeListToArray',
-        'createHelpers',
-        userCodeWrapper,
-      );
 
-      // Execute the code with helper functions and variables available
-      // The functions are passed as parameters and will be available in the code scope
-      const result = executeUserCode(
-        variablesToInject,
-        globals,
-        input,
-        parseHTML,
-        getHTMLDocument,
-        nodeListToArray,
-        createHelpers,
+      const { result, logs } = await runCodeInSandbox(
+        config.code || '',
+        {
+          variables: variablesToInject,
+          globals: context.globals || {},
+          input: context.input || {},
+        },
+        {
+          timeoutMs: Number(this.configService.get('CODE_SANDBOX_TIMEOUT_MS', 5000)),
+          memoryLimitMb: Number(this.configService.get('CODE_SANDBOX_MEMORY_MB', 64)),
+        },
       );
-
-      // Sanitize result to remove non-serializable objects (DOM nodes, functions, etc.)
-      const sanitizedResult = this.sanitizeForSerialization(result);
+      logs.forEach(line => console.log(`[CODE] ${node.id}: ${line}`));
 
       // Save result to context — both keys for compatibility
       // codeOutput: legacy key (existing workflows keep working)
       // code: new canonical key — use {{code.varName}} in SEND MESSAGE
-      this.contextService.setVariable(context, 'codeOutput', sanitizedResult);
-      this.contextService.setVariable(context, 'code', sanitizedResult);
+      this.contextService.setVariable(context, 'codeOutput', result);
+      this.contextService.setVariable(context, 'code', result);
 
       // Set output - the output should be the result of the JavaScript code
       // If result is an object, spread it; otherwise, wrap it in codeOutput
       let outputValue: any;
-      if (sanitizedResult && typeof sanitizedResult === 'object' && !Array.isArray(sanitizedResult) && sanitizedResult.constructor === Object) {
+      if (result && typeof result === 'object' && !Array.isArray(result) && result.constructor === Object) {
         // If result is a plain object, use it directly as output
-        outputValue = sanitizedResult;
+        outputValue = result;
       } else {
         // Otherwise, wrap in codeOutput for backward compatibility
-        outputValue = { codeOutput: sanitizedResult };
+        outputValue = { codeOutput: result };
       }
 
       this.contextService.setOutput(context, outputValue);
 
-      // Find next node
-      const nextEdge = edges.find((e) => e.source === node.id);
-      const nextNodeId = nextEdge ? nextEdge.target : null;
-
       return {
         nextNodeId,
         shouldWait: false,
         output: outputValue,
       };
     } catch (error) {
-      console.error('[CODE] Error executing code:', error);
+      console.error(`[CODE] Error executing code in node ${node.id}:`, error.message);
 
-      // Save error to context
+      // Save error to context (line/column point into the node's code)
       const errorResult = {
         error: true,
         message: error.message,
         name: error.name,
+        ...(error instanceof CodeSandboxError
+          ? { line: error.line ?? null, column: error.column ?? null, logs: error.logs }
+          : {}),
       };
 
       this.contextService.setVariable(context, 'codeOutput', errorResult);
+      this.contextService.setVariable(context, '_lastNodeError', error.message);
+      this.contextService.setVariable(context, '_lastNodeErrorType', node.type);
       this.contextService.setOutput(context, { codeOutput: errorResult });
 
       // Continue to next node even on error
-      const nextEdge = edges.find((e) => e.source === node.id);
-      const nextNodeId = nextEdge ? nextEdge.target : null;
-
       return {
         nextNodeId,
         shouldWait: false,
@@ -2109,6 +2221,7 @@ export class NodeExecutorService {
     node: WorkflowNode,
     message: string,
     context: ExecutionContext,
+    payload?: TriggerMessagePayload,
   ): void {
     const config = node.config as WaitReplyConfig;
 
@@ -2116,7 +2229,7 @@ export class NodeExecutorService {
     const buttonMapping = this.contextService.getVariable(context, '_buttonMapping');
     const listMapping = this.contextService.getVariable(context, '_listMapping');
 
-    let finalValue = message;
+    let finalValue: any = message;
 
     // If user replied with a number and we have a mapping, convert it
     if (buttonMapping && buttonMapping[message]) {
@@ -2125,6 +2238,12 @@ export class NodeExecutorService {
       finalValue = listMapping[message];
     }
 
+    // Locations, contact cards and stickers are saved structured
+    const structured = getStructuredReply(payload);
+    if (structured !== undefined) {
+      finalValue = structured;
+    }
+
     // Save reply to variable
     this.contextService.setVariable(context, config.saveAs, finalValue);
 
@@ -2334,41 +2453,34 @@ export class NodeExecutorService {
         throw new Error(`Invalid loop mode: ${config.loopMode}`);
       }
 
-      // Store loop metadata in context for the execution engine to use
-      this.contextService.setVariable(context, '_loopData', loopData);
-      this.contextService.setVariable(context, '_loopItemVariable', itemVariableName);
-      this.contextService.setVariable(context, '_loopIndexVariable', indexVariableName);
-      this.contextService.setVariable(context, '_loopNodeId', node.id);
-      this.contextService.setVariable(context, '_loopCurrentIndex', 0);
-      this.contextService.setVariable(context, '_loopResults', []);
-
-      // Set initial item and index
-      if (loopData.length > 0) {
-        this.contextService.setVariable(context, itemVariableName, loopData[0]);
-        this.contextService.setVariable(context, indexVariableName, 0);
-      }
-
       // Find the 'loop' edge (for iteration) - this connects to nodes executed during each iteration
       // The 'done' edge will be used by the execution engine after all iterations complete
       // Note: sourceHandle from React Flow is saved as 'condition' in WorkflowEdge
       const loopEdge = edges.find((e) => e.source === node.id && e.condition === 'loop');
-      const nextNodeId = loopEdge ? loopEdge.target : null;
-
-
-      // Get current iteration count (if loop was already started)
-      // If _loopIterationsExecuted doesn't exist, this is the first execution, so start at 1
-      const currentIterations = this.contextService.getVariable(context, '_loopIterationsExecuted');
-      const iterationsExecuted = currentIterations !== undefined ? currentIterations + 1 : 1;
+      const doneEdge = edges.find((e) => e.source === node.id && e.condition === 'done');
 
-      // Store updated iteration count
-      this.contextService.setVariable(context, '_loopIterationsExecuted', iterationsExecuted);
+      // Start a frame for this loop unless there is nothing to iterate; the
+      // execution engine advances it (see loop-frames.ts), so nested loops
+      // keep their own position
+      const frame = loopData.length > 0
+        ? pushLoopFrame(context, {
+          nodeId: node.id,
+          items: loopData,
+          itemVariable: itemVariableName,
+          indexVariable: indexVariableName,
+        })
+        : null;
+      const nextNodeId = frame
+        ? (loopEdge ? loopEdge.target : null)
+        : (doneEdge ? doneEdge.target : null);
+      const depth = getLoopStack(context).length;
 
       // Set output with loop info
       this.contextService.setOutput(context, {
         loopMode: config.loopMode,
         totalItems: loopData.length,
-        currentIndex: 0,
-        iterationsExecuted,
+        currentIndex: frame ? frame.index : null,
+        depth,
       });
 
       return {
@@ -2377,8 +2489,8 @@ export class NodeExecutorService {
         output: {
           loopMode: config.loopMode,
           totalItems: loopData.length,
-          currentIndex: 0,
-          iterationsExecuted,
+          currentIndex: frame ? frame.index : null,
+          depth,
         },
       };
     } catch (error) {
@@ -2592,12 +2704,16 @@ export class NodeExecutorService {
       
       let pixData: any;
       let usedFallback = false;
+      const apiKey = await this.resolveNodeSecret(context.tenantId, context, config.credentialId, config.apiKey);
+      const fallbackApiKey = config.useFallback
+        ? await this.resolveNodeSecret(context.tenantId, context, config.fallbackCredentialId, config.fallbackApiKey)
+        : undefined;
 
       try {
         pixData = await this.aiOcrService.analyzeReceipt(imageUrl, {
           tenantId: context.tenantId,
           model: config.model,
-          apiKey: config.apiKey
+          apiKey
         });
       } catch (err) {
         if (config.useFallback && config.fallbackModel) {
@@ -2606,7 +2722,7 @@ export class NodeExecutorService {
           pixData = await this.aiOcrService.analyzeReceipt(imageUrl, {
             tenantId: context.tenantId,
             model: config.fallbackModel,
-            apiKey: config.fallbackApiKey
+            apiKey: fallbackApiKey
           });
         } else {
           throw err;
@@ -2619,7 +2735,7 @@ export class NodeExecutorService {
          const fallbackData = await this.aiOcrService.analyzeReceipt(imageUrl, {
            tenantId: context.tenantId,
            model: config.fallbackModel,
-           apiKey: config.fallbackApiKey
+           apiKey: fallbackApiKey
          });
          if (fallbackData.is_payment) {
            pixData = fallbackData;
@@ -2767,95 +2883,6 @@ export class NodeExecutorService {
     return isNaN(d.getTime()) ? null : d;
   }
 
-
-  /**
-   * Sanitize an object to make it safe for serialization (remove circular refs, etc.)
-functions, etc.)
-   * This ensures the result can be safely stored in the database
-   */
-  private sanitizeForSerialization(value: any, visited = new WeakSet()): any {
-    // Handle null/undefined
-    if (value === null || value === undefined) {
-      return value;
-    }
-
-    // Handle primitives
-    if (typeof value !== 'object') {
-      return value;
-    }
-
-    // Prevent circular references
-    if (visited.has(value)) {
-      return '[Circular]';
-    }
-
-    // Handle DOM nodes and window objects
-    if (value.nodeType !== undefined || value.document !== undefined || value.window !== undefined) {
-      // If it's a document, try to extract useful information
-      if (value.documentElement) {
-        return {
-          type: 'Document',
-          title: value.title || null,
-          url: value.URL || value.location?.href || null,
-          html: value.documentElement.outerHTML || null,
-        };
-      }
-      // If it's a DOM element, extract useful properties
-      if (value.tagName) {
-        return {
-          type: 'Element',
-          tagName: value.tagName || null,
-          textContent: value.textContent || null,
-          innerHTML: value.innerHTML || null,
-          outerHTML: value.outerHTML || null,
-          attributes: value.attributes ? Array.from(value.attributes).map((attr: any) => ({
-            name: attr.name,
-            value: attr.value,
-          })) : [],
-        };
-      }
-      // For other DOM objects (like location), extract string properties
-      const sanitized: any = { type: value.constructor?.name || 'DOMObject' };
-      for (const key in value) {
-        if (typeof value[key] === 'string' || typeof value[key] === 'number' || typeof value[key] === 'boolean') {
-          sanitized[key] = value[key];
-        }
-      }
-      return sanitized;
-    }
-
-    // Handle functions
-    if (typeof value === 'function') {
-      return '[Function]';
-    }
-
-    // Handle Date
-    if (value instanceof Date) {
-      return value.toISOString();
-    }
-
-    // Handle arrays
-    if (Array.isArray(value)) {
-      visited.add(value);
-      return value.map((item) => this.sanitizeForSerialization(item, visited));
-    }
-
-    // Handle plain objects
-    visited.add(value);
-    const sanitized: any = {};
-    for (const key in value) {
-      if (Object.prototype.hasOwnProperty.call(value, key)) {
-        const propValue = value[key];
-        // Skip functions
-        if (typeof propValue === 'function') {
-          continue;
-        }
-        sanitized[key] = this.sanitizeForSerialization(propValue, visited);
-      }
-    }
-    return sanitized;
-  }
-
   /**
    * Execute RMKT node
    */
@@ -4323,7 +4350,7 @@ ${config.footerText || ''}`;
 
       if (pixelConfig) {
         resolvedPixelId = pixelConfig.pixelId;
-        resolvedAccessToken = pixelConfig.accessToken;
+        resolvedAccessToken = (await this.vault.resolve(tenantId, pixelConfig.credentialId)) || '';
         // If the node doesn't have a manual test code, use the one from pixel config
         if (!resolvedTestEventCode) {
           resolvedTestEventCode = pixelConfig.testEventCode;
@@ -4333,9 +4360,9 @@ ${config.footerText || ''}`;
 
     // 2. Fallback to manual config or default pixel if still empty
     if (!resolvedPixelId || !resolvedAccessToken) {
-      if (config.pixelId && config.accessToken) {
+      if (config.pixelId && (config.credentialId || config.accessToken)) {
         resolvedPixelId = this.contextService.interpolate(config.pixelId, context);
-        resolvedAccessToken = this.contextService.interpolate(config.accessToken, context);
+        resolvedAccessToken = (await this.resolveNodeSecret(tenantId, context, config.credentialId, config.accessToken)) || '';
       } else {
         // Find default pixel for tenant
         const defaultPixel = await (this.prisma as any).tenantPixelConfig.findFirst({
@@ -4344,7 +4371,7 @@ ${config.footerText || ''}`;
 
         if (defaultPixel) {
           resolvedPixelId = defaultPixel.pixelId;
-          resolvedAccessToken = defaultPixel.accessToken;
+          resolvedAccessToken = (await this.vault.resolve(tenantId, defaultPixel.credentialId)) || '';
           if (!resolvedTestEventCode) {
             resolvedTestEventCode = defaultPixel.testEventCode;
           }
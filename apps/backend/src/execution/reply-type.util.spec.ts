@@ -0,0 +1,24 @@
+import { matchesExpectedReplyType, getStructuredReply } from './reply-type.util';
+
+describe('reply-type.util', () => {
+  it('should accept anything when no type is expected', () => {
+    expect(matchesExpectedReplyType(undefined, { type: 'sticker' })).toBe(true);
+    expect(matchesExpectedReplyType('any', { type: 'location' })).toBe(true);
+  });
+
+  it('should compare the reply kind, treating plain resumes as text', () => {
+    expect(matchesExpectedReplyType('location', { type: 'location' })).toBe(true);
+    expect(matchesExpectedReplyType('location', { type: 'text' })).toBe(false);
+    expect(matchesExpectedReplyType('text', null)).toBe(true);
+    expect(matchesExpectedReplyType('media', undefined)).toBe(false);
+  });
+
+  it('should return structured values for locations, contacts and stickers', () => {
+    const location = { latitude: 1, longitude: 2 };
+    expect(getStructuredReply({ type: 'location', location })).toEqual(location);
+    expect(getStructuredReply({ type: 'contacts', contacts: [{ name: 'A', phones: ['55'], vcard: '' }] })).toHaveLength(1);
+    expect(getStructuredReply({ type: 'sticker', sticker: { mimeType: 'image/webp', url: 'http://s' } })).toBe('http://s');
+    expect(getStructuredReply({ type: 'text', text: 'oi' })).toBeUndefined();
+    expect(getStructuredReply(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,21 @@
+import { TriggerMessagePayload, WaitReplyExpectedType } from '@n9n/shared';
+
+/** Whether a reply is of the kind a WAIT_REPLY expects; plain resumes count as text */
+export function matchesExpectedReplyType(
+  expected: WaitReplyExpectedType | undefined,
+  payload?: Pick<TriggerMessagePayload, 'type'> | null,
+): boolean {
+  if (!expected || expected === 'any') return true;
+  return (payload?.type || 'text') === expected;
+}
+
+/**
+ * Structured value of a location, contact card or sticker reply;
+ * undefined when the reply is saved as text.
+ */
+export function getStructuredReply(payload?: Partial<TriggerMessagePayload> | null): any {
+  if (payload?.type === 'location' && payload.location) return payload.location;
+  if (payload?.type === 'contacts' && payload.contacts) return payload.contacts;
+  if (payload?.type === 'sticker' && payload.sticker) return payload.sticker.url;
+  return undefined;
+}
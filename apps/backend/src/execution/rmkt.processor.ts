@@ -117,16 +117,9 @@ export class RmktProcessor extends WorkerHost {
             await this.updateRmktStatus(executionId, 'ENVIADO', context);
 
             // 5. Resume execution
-            const workflowData = await this.prisma.workflow.findUnique({
-                where: { id: execution.workflowId },
-            });
+            const workflow = await this.executionEngine.getExecutionWorkflow(execution) as any;
 
-            if (workflowData) {
-                const workflow = {
-                    ...workflowData,
-                    nodes: workflowData.nodes as any,
-                    edges: workflowData.edges as any,
-                } as any;
+            if (workflow) {
 
                 // Move to next node
                 const edges = workflow.edges;
@@ -0,0 +1,71 @@
+import { ExecutionContext, WorkflowNode, WorkflowNodeType } from '@n9n/shared';
+import {
+  MAX_CALL_DEPTH,
+  getCallStack,
+  getCallDenialReason,
+  mergeSubWorkflowOutput,
+  getCalledWorkflowIds,
+  findCallCycle,
+  getCallChainDepth,
+} from './sub-workflow.util';
+
+describe('sub-workflow.util', () => {
+  let context: ExecutionContext;
+
+  beforeEach(() => {
+    context = { globals: {}, input: {}, output: {}, variables: {}, tenantId: 't1' };
+  });
+
+  it('should start the call stack at the running workflow', () => {
+    expect(getCallStack(context, 'wf-a')).toEqual(['wf-a']);
+
+    context.variables._callStack = ['wf-a', 'wf-b'];
+    expect(getCallStack(context, 'wf-b')).toEqual(['wf-a', 'wf-b']);
+  });
+
+  it('should deny calls back into the chain', () => {
+    expect(getCallDenialReason(['wf-a', 'wf-b'], 'wf-a')).toBe('Sub-workflow cycle detected: wf-a → wf-b → wf-a');
+    expect(getCallDenialReason(['wf-a', 'wf-b'], 'wf-c')).toBeNull();
+  });
+
+  it('should deny calls beyond the depth limit', () => {
+    const stack = Array.from({ length: MAX_CALL_DEPTH }, (_, i) => `wf-${i}`);
+    expect(getCallDenialReason(stack, 'wf-next')).toContain('depth limit');
+    expect(getCallDenialReason(stack.slice(1), 'wf-next')).toBeNull();
+  });
+
+  it('should merge output into variables or under saveOutputAs', () => {
+    context.variables.name = 'old';
+    mergeSubWorkflowOutput(context, { name: 'new', total: 3 });
+    expect(context.variables).toEqual({ name: 'new', total: 3 });
+
+    mergeSubWorkflowOutput(context, { ok: true }, 'child');
+    expect(context.variables.child).toEqual({ ok: true });
+    expect(context.variables.ok).toBeUndefined();
+  });
+
+  it('should collect distinct called workflow ids', () => {
+    const nodes = [
+      { id: 'n1', type: WorkflowNodeType.CALL_WORKFLOW, config: { workflowId: 'wf-b' }, position: { x: 0, y: 0 } },
+      { id: 'n2', type: WorkflowNodeType.CALL_WORKFLOW, config: { workflowId: 'wf-b' }, position: { x: 0, y: 0 } },
+      { id: 'n3', type: WorkflowNodeType.CALL_WORKFLOW, config: {}, position: { x: 0, y: 0 } },
+      { id: 'n4', type: WorkflowNodeType.END, config: {}, position: { x: 0, y: 0 } },
+    ] as WorkflowNode[];
+
+    expect(getCalledWorkflowIds(nodes)).toEqual(['wf-b']);
+  });
+
+  it('should find call cycles and chain depth', () => {
+    const calls = new Map<string, string[]>([
+      ['a', ['b', 'c']],
+      ['b', ['c']],
+      ['c', []],
+    ]);
+
+    expect(findCallCycle(calls, 'a')).toBeNull();
+    expect(getCallChainDepth(calls, 'a')).toBe(3);
+
+    calls.set('c', ['a']);
+    expect(findCallCycle(calls, 'a')).toEqual(['a', 'b', 'c', 'a']);
+  });
+});
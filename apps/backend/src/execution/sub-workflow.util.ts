@@ -0,0 +1,91 @@
+import { ExecutionContext, WorkflowNode, WorkflowNodeType } from '@n9n/shared';
+
+/**
+ * Helpers for CALL_WORKFLOW. A child execution carries the ids of the
+ * workflows above it in `variables._callStack` (root first, itself last).
+ */
+export const CALL_STACK_VARIABLE = '_callStack';
+
+/** Max number of nested workflows in one call chain (root included) */
+export const MAX_CALL_DEPTH = 5;
+
+export function getCallStack(context: ExecutionContext, workflowId: string): string[] {
+  const stack = context.variables?.[CALL_STACK_VARIABLE];
+  return Array.isArray(stack) && stack.length > 0 ? stack : [workflowId];
+}
+
+/**
+ * Check a call against the current chain.
+ * Returns the reason when it is not allowed, null otherwise.
+ */
+export function getCallDenialReason(callStack: string[], targetWorkflowId: string): string | null {
+  if (callStack.includes(targetWorkflowId)) {
+    return `Sub-workflow cycle detected: ${[...callStack, targetWorkflowId].join(' → ')}`;
+  }
+  if (callStack.length >= MAX_CALL_DEPTH) {
+    return `Sub-workflow depth limit reached (${MAX_CALL_DEPTH})`;
+  }
+  return null;
+}
+
+/** Merge the child's END output into the parent, optionally under one variable */
+export function mergeSubWorkflowOutput(
+  context: ExecutionContext,
+  output: Record<string, any>,
+  saveOutputAs?: string,
+): void {
+  if (!context.variables) context.variables = {};
+  if (saveOutputAs) {
+    context.variables[saveOutputAs] = { ...output };
+  } else {
+    Object.assign(context.variables, output);
+  }
+}
+
+export function getCalledWorkflowIds(nodes: WorkflowNode[]): string[] {
+  const ids = nodes
+    .filter((n) => n.type === WorkflowNodeType.CALL_WORKFLOW && n.config?.workflowId)
+    .map((n) => n.config.workflowId as string);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Find a CALL_WORKFLOW cycle reachable from `start` in a workflowId → called
+ * workflowIds graph. Returns the cycle path (first id repeated at the end) or null.
+ */
+export function findCallCycle(calls: Map<string, string[]>, start: string): string[] | null {
+  const path: string[] = [];
+  const done = new Set<string>();
+
+  const visit = (id: string): string[] | null => {
+    const index = path.indexOf(id);
+    if (index !== -1) return [...path.slice(index), id];
+    if (done.has(id)) return null;
+
+    path.push(id);
+    for (const next of calls.get(id) || []) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    done.add(id);
+    return null;
+  };
+
+  return visit(start);
+}
+
+/** Longest call chain starting at `start`, counting `start` itself (graph must be acyclic) */
+export function getCallChainDepth(calls: Map<string, string[]>, start: string): number {
+  const memo = new Map<string, number>();
+
+  const depth = (id: string): number => {
+    if (memo.has(id)) return memo.get(id)!;
+    const children = calls.get(id) || [];
+    const value = 1 + (children.length ? Math.max(...children.map(depth)) : 0);
+    memo.set(id, value);
+    return value;
+  };
+
+  return depth(start);
+}
@@ -0,0 +1,52 @@
+import { WaitTimerProcessor } from './wait-timer.processor';
+
+describe('WaitTimerProcessor', () => {
+    let engine: {
+        isCurrentWaitTimer: jest.Mock;
+        releaseWaitTimer: jest.Mock;
+        handleWaitResume: jest.Mock;
+        handleWaitReplyTimeout: jest.Mock;
+    };
+    let processor: WaitTimerProcessor;
+
+    const job = (name: string, data: Record<string, any> = {}) => ({
+        id: 'wait-exec-1-1',
+        name,
+        data: { executionId: 'exec-1', tenantId: 'tenant-1', ...data },
+    }) as any;
+
+    beforeEach(() => {
+        engine = {
+            isCurrentWaitTimer: jest.fn().mockResolvedValue(true),
+            releaseWaitTimer: jest.fn().mockResolvedValue(undefined),
+            handleWaitResume: jest.fn().mockResolvedValue(undefined),
+            handleWaitReplyTimeout: jest.fn().mockResolvedValue(undefined),
+        };
+        processor = new WaitTimerProcessor(engine as any);
+    });
+
+    it('should skip superseded timers without touching the pointer', async () => {
+        engine.isCurrentWaitTimer.mockResolvedValue(false);
+
+        await processor.process(job('wait-resume'));
+
+        expect(engine.handleWaitResume).not.toHaveBeenCalled();
+        expect(engine.releaseWaitTimer).not.toHaveBeenCalled();
+    });
+
+    it('should release the pointer after the timeout was handled', async () => {
+        await processor.process(job('wait-reply-timeout', { onTimeout: 'GOTO_NODE', timeoutTargetNodeId: 'n2' }));
+
+        expect(engine.handleWaitReplyTimeout).toHaveBeenCalledWith('exec-1', 'tenant-1', 'GOTO_NODE', 'n2', undefined, false);
+        expect(engine.releaseWaitTimer).toHaveBeenCalledWith('exec-1', 'wait-exec-1-1');
+        expect(engine.handleWaitReplyTimeout.mock.invocationCallOrder[0])
+            .toBeLessThan(engine.releaseWaitTimer.mock.invocationCallOrder[0]);
+    });
+
+    it('should keep the pointer when handling fails so a retry still finds it', async () => {
+        engine.handleWaitResume.mockRejectedValue(new Error('worker died'));
+
+        await expect(processor.process(job('wait-resume'))).rejects.toThrow('worker died');
+        expect(engine.releaseWaitTimer).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,59 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import {
+    ExecutionEngineService,
+    WAIT_TIMER_QUEUE,
+    WaitTimerJobData,
+    WaitTimerJobName,
+} from './execution-engine.service';
+
+/**
+ * Fires delayed WAIT / WAIT_REPLY timers. Jobs live in Redis, so pending
+ * waits survive restarts and are processed by exactly one replica.
+ */
+@Processor(WAIT_TIMER_QUEUE, { concurrency: 20 })
+@Injectable()
+export class WaitTimerProcessor extends WorkerHost {
+    private readonly logger = new Logger(WaitTimerProcessor.name);
+
+    constructor(
+        @Inject(forwardRef(() => ExecutionEngineService))
+        private executionEngine: ExecutionEngineService,
+    ) {
+        super();
+    }
+
+    async process(job: Job<WaitTimerJobData, any, WaitTimerJobName>): Promise<any> {
+        const { executionId, tenantId } = job.data;
+
+        // Superseded (rescheduled) or cancelled timers are ignored
+        const isCurrent = await this.executionEngine.isCurrentWaitTimer(executionId, String(job.id));
+        if (!isCurrent) {
+            this.logger.log(`Timer ${job.id} for execution ${executionId} is no longer current, skipping`);
+            return;
+        }
+
+        switch (job.name) {
+            case 'wait-resume':
+                await this.executionEngine.handleWaitResume(executionId, tenantId);
+                break;
+            case 'wait-reply-timeout':
+                await this.executionEngine.handleWaitReplyTimeout(
+                    executionId,
+                    tenantId,
+                    job.data.onTimeout || 'END',
+                    job.data.timeoutTargetNodeId,
+                    job.data.config,
+                    !!job.data.isRemarketingPhase,
+                );
+                break;
+            default:
+                this.logger.warn(`Unknown timer job ${job.name} for execution ${executionId}`);
+        }
+
+        // Only after handling succeeded: a crash before this point leaves the
+        // pointer for BullMQ's stalled-job retry
+        await this.executionEngine.releaseWaitTimer(executionId, String(job.id));
+    }
+}
@@ -25,13 +25,13 @@ export interface MediaData {
 
 @Injectable()
 export class WhatsappSenderService {
-  private sendMessageCallback: ((sessionId: string, contactPhone: string, message: string) => Promise<void>) | null = null;
+  private sendMessageCallback: ((sessionId: string, contactPhone: string, message: string) => Promise<string | undefined>) | null = null;
   private sendButtonsCallback: ((sessionId: string, contactPhone: string, message: string, buttons: ButtonData[], footer?: string) => Promise<void>) | null = null;
   private sendListCallback: ((sessionId: string, contactPhone: string, message: string, buttonText: string, sections: ListSection[], footer?: string) => Promise<void>) | null = null;
-  private sendMediaCallback: ((sessionId: string, contactPhone: string, mediaType: 'image' | 'video' | 'audio' | 'document', mediaUrl: string, options?: { caption?: string; fileName?: string; sendAudioAsVoice?: boolean; mentions?: string[]; mimetype?: string; ptt?: boolean }) => Promise<void>) | null = null;
+  private sendMediaCallback: ((sessionId: string, contactPhone: string, mediaType: 'image' | 'video' | 'audio' | 'document', mediaUrl: string, options?: { caption?: string; fileName?: string; sendAudioAsVoice?: boolean; mentions?: string[]; mimetype?: string; ptt?: boolean }) => Promise<string | undefined>) | null = null;
   private sendPresenceCallback: ((sessionId: string, contactPhone: string, presence: 'composing' | 'recording' | 'paused') => Promise<void>) | null = null;
   private sendPixCallback: ((sessionId: string, contactPhone: string, config: PixConfig) => Promise<void>) | null = null;
-  private sendPollCallback: ((sessionId: string, contactPhone: string, name: string, values: string[], selectableCount: number) => Promise<void>) | null = null;
+  private sendPollCallback: ((sessionId: string, contactPhone: string, name: string, values: string[], selectableCount: number, track?: { executionId?: string; nodeId?: string }) => Promise<string | undefined>) | null = null;
   private sendMessageWithMentionsCallback: ((sessionId: string, contactPhone: string, message: string, mentions: string[]) => Promise<void>) | null = null;
 
   /**
@@ -44,7 +44,7 @@ export class WhatsappSenderService {
   /**
    * Register the send message callback
    */
-  registerSendMessage(callback: (sessionId: string, contactPhone: string, message: string) => Promise<void>) {
+  registerSendMessage(callback: (sessionId: string, contactPhone: string, message: string) => Promise<string | undefined>) {
     this.sendMessageCallback = callback;
   }
 
@@ -65,7 +65,7 @@ export class WhatsappSenderService {
   /**
    * Register the send media callback
    */
-  registerSendMedia(callback: (sessionId: string, contactPhone: string, mediaType: 'image' | 'video' | 'audio' | 'document', mediaUrl: string, options?: { caption?: string; fileName?: string; sendAudioAsVoice?: boolean; mentions?: string[]; mimetype?: string; ptt?: boolean }) => Promise<void>) {
+  registerSendMedia(callback: (sessionId: string, contactPhone: string, mediaType: 'image' | 'video' | 'audio' | 'document', mediaUrl: string, options?: { caption?: string; fileName?: string; sendAudioAsVoice?: boolean; mentions?: string[]; mimetype?: string; ptt?: boolean }) => Promise<string | undefined>) {
     this.sendMediaCallback = callback;
   }
 
@@ -194,21 +194,21 @@ export class WhatsappSenderService {
   /**
    * Register the send poll callback
    */
-  registerSendPoll(callback: (sessionId: string, contactPhone: string, name: string, values: string[], selectableCount: number) => Promise<void>) {
+  registerSendPoll(callback: (sessionId: string, contactPhone: string, name: string, values: string[], selectableCount: number, track?: { executionId?: string; nodeId?: string }) => Promise<string | undefined>) {
     this.sendPollCallback = callback;
   }
 
   /**
    * Send WhatsApp poll message
    */
-  async sendPoll(sessionId: string, contactPhone: string, name: string, values: string[], selectableCount: number): Promise<void> {
+  async sendPoll(sessionId: string, contactPhone: string, name: string, values: string[], selectableCount: number, track?: { executionId?: string; nodeId?: string }): Promise<string | undefined> {
     if (!this.sendPollCallback) {
       console.warn('WhatsApp send poll callback not registered yet');
       return;
     }
 
     try {
-      await this.sendPollCallback(sessionId, contactPhone, name, values, selectableCount);
+      return await this.sendPollCallback(sessionId, contactPhone, name, values, selectableCount, track);
     } catch (error) {
       console.error('Error sending WhatsApp poll:', error);
       throw error;
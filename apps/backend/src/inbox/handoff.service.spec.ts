@@ -0,0 +1,224 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConversationStatus } from '@prisma/client';
+import { EventType, ExecutionStatus, WorkflowExecution, WorkflowNodeType } from '@n9n/shared';
+import { HandoffService } from './handoff.service';
+import { ExecutionEngineService } from '../execution/execution-engine.service';
+import { NodeExecutorService } from '../execution/node-executor.service';
+import { ContextService } from '../execution/context.service';
+
+describe('HandoffService', () => {
+    let prisma: {
+        conversation: { findFirst: jest.Mock; findUnique: jest.Mock; update: jest.Mock; upsert: jest.Mock };
+        conversationAssignment: { create: jest.Mock };
+        user: { findFirst: jest.Mock };
+        workflow: { findFirst: jest.Mock };
+        workflowExecution: { findFirst: jest.Mock };
+        contactFlowState: { deleteMany: jest.Mock };
+    };
+    let redis: { acquireLock: jest.Mock; releaseLock: jest.Mock; get: jest.Mock };
+    let eventBus: { emit: jest.Mock };
+    let executionService: {
+        getActiveExecution: jest.Mock;
+        getExecution: jest.Mock;
+        updateExecution: jest.Mock;
+        getDefaultExpiresAt: jest.Mock;
+    };
+    let engine: ExecutionEngineService;
+    let service: HandoffService;
+
+    const conversation = {
+        id: 'conv-1',
+        tenantId: 'tenant-1',
+        sessionId: 'session-1',
+        contactPhone: '5511999999999@s.whatsapp.net',
+        assignedToId: null,
+        handoffAt: new Date('2026-10-19T10:00:00Z'),
+        handoffQueue: 'vendas',
+    };
+
+    const execution = (overrides: Partial<WorkflowExecution> = {}): WorkflowExecution => ({
+        id: 'exec-1',
+        tenantId: 'tenant-1',
+        workflowId: 'wf-1',
+        sessionId: 'session-1',
+        contactPhone: conversation.contactPhone,
+        status: ExecutionStatus.PAUSED,
+        currentNodeId: 'ask-name',
+        context: { globals: {}, input: {}, output: {}, variables: {} },
+        interactionCount: 0,
+        startedAt: new Date(),
+        updatedAt: new Date(),
+        expiresAt: new Date(Date.now() + 60000),
+        ...overrides,
+    }) as any;
+
+    beforeEach(() => {
+        prisma = {
+            conversation: {
+                findFirst: jest.fn().mockResolvedValue(conversation),
+                findUnique: jest.fn().mockResolvedValue(null),
+                update: jest.fn().mockResolvedValue(conversation),
+                upsert: jest.fn().mockResolvedValue(conversation),
+            },
+            conversationAssignment: { create: jest.fn().mockResolvedValue({}) },
+            user: { findFirst: jest.fn().mockResolvedValue({ id: 'agent-1' }) },
+            workflow: {
+                findFirst: jest.fn().mockResolvedValue({
+                    id: 'wf-1',
+                    tenantId: 'tenant-1',
+                    description: null,
+                    nodes: [{ id: 'trigger', type: 'TRIGGER_MESSAGE' }, { id: 'ask-name', type: 'WAIT_REPLY' }, { id: 'menu', type: 'SEND_MESSAGE' }],
+                    edges: [],
+                }),
+            },
+            workflowExecution: { findFirst: jest.fn().mockResolvedValue({ id: 'exec-1' }) },
+            contactFlowState: { deleteMany: jest.fn().mockResolvedValue({ count: 1 }) },
+        };
+        redis = {
+            acquireLock: jest.fn().mockResolvedValue(true),
+            releaseLock: jest.fn().mockResolvedValue(undefined),
+            get: jest.fn().mockResolvedValue(null),
+        };
+        eventBus = { emit: jest.fn().mockResolvedValue(undefined) };
+        executionService = {
+            getActiveExecution: jest.fn().mockResolvedValue(null),
+            getExecution: jest.fn().mockResolvedValue(execution()),
+            updateExecution: jest.fn().mockResolvedValue(undefined),
+            getDefaultExpiresAt: jest.fn().mockReturnValue(new Date()),
+        };
+
+        engine = new ExecutionEngineService(
+            prisma as any,
+            redis as any,
+            eventBus as any,
+            executionService as any,
+            {} as any,
+            {} as any,
+            {} as any,
+            {} as any,
+            new ContextService(),
+            {} as any,
+            {} as any,
+        );
+        jest.spyOn(engine, 'continueExecution').mockResolvedValue(undefined);
+        service = new HandoffService(prisma as any, eventBus as any, executionService as any, engine);
+    });
+
+    it('should pause the WAITING execution when a conversation is assigned', async () => {
+        const waiting = execution({ status: ExecutionStatus.WAITING });
+        waiting.context.variables._replyWait = { expectedType: 'image', hasFallback: false };
+        executionService.getActiveExecution.mockResolvedValue(waiting);
+
+        await service.assign('tenant-1', 'conv-1', 'agent-1', 'admin-1');
+
+        expect(prisma.contactFlowState.deleteMany).toHaveBeenCalledWith({ where: { executionId: 'exec-1' } });
+        expect(executionService.updateExecution).toHaveBeenCalledWith('exec-1', expect.objectContaining({
+            status: ExecutionStatus.PAUSED,
+            currentNodeId: 'ask-name',
+        }));
+        expect(waiting.context.variables._replyWait).toBeUndefined();
+        expect(prisma.conversation.update).toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.objectContaining({ assignedToId: 'agent-1', status: ConversationStatus.OPEN }),
+        }));
+        expect(prisma.conversationAssignment.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ action: 'assign', userId: 'agent-1', executionId: 'exec-1' }),
+        });
+    });
+
+    describe('returnToBot', () => {
+        it('should resume the paused execution at the node where it stopped', async () => {
+            await expect(service.returnToBot('tenant-1', 'conv-1', undefined, 'agent-1'))
+                .resolves.toEqual({ success: true, resumedExecutionId: 'exec-1' });
+
+            expect(prisma.conversation.update).toHaveBeenCalledWith({
+                where: { id: 'conv-1' },
+                data: { assignedToId: null, handoffQueue: null, handoffAt: null, status: ConversationStatus.BOT },
+            });
+            expect(executionService.updateExecution).toHaveBeenCalledWith('exec-1', expect.objectContaining({
+                status: ExecutionStatus.RUNNING,
+                currentNodeId: 'ask-name',
+            }));
+            expect(eventBus.emit).toHaveBeenCalledWith(expect.objectContaining({
+                type: EventType.EXECUTION_RESUMED,
+                previousStatus: ExecutionStatus.PAUSED,
+            }));
+            expect(engine.continueExecution).toHaveBeenCalledWith(expect.objectContaining({ currentNodeId: 'ask-name' }), expect.any(Object));
+        });
+
+        it('should resume at the node the agent picked', async () => {
+            await service.returnToBot('tenant-1', 'conv-1', 'menu');
+
+            expect(engine.continueExecution).toHaveBeenCalledWith(expect.objectContaining({ currentNodeId: 'menu' }), expect.any(Object));
+        });
+
+        it('should reject a node that is not in the paused workflow', async () => {
+            await expect(service.returnToBot('tenant-1', 'conv-1', 'ghost')).rejects.toThrow(BadRequestException);
+
+            expect(prisma.conversation.update).not.toHaveBeenCalled();
+            expect(engine.continueExecution).not.toHaveBeenCalled();
+        });
+
+        it('should leave the conversation with the humans while the execution is locked', async () => {
+            redis.acquireLock.mockResolvedValue(false);
+
+            await expect(service.returnToBot('tenant-1', 'conv-1', undefined)).rejects.toThrow(ConflictException);
+
+            expect(prisma.conversation.update).not.toHaveBeenCalled();
+            expect(prisma.conversationAssignment.create).not.toHaveBeenCalled();
+            expect(executionService.updateExecution).not.toHaveBeenCalled();
+        });
+
+        it('should just reopen the conversation when no flow is paused', async () => {
+            prisma.workflowExecution.findFirst.mockResolvedValue(null);
+
+            await expect(service.returnToBot('tenant-1', 'conv-1', undefined))
+                .resolves.toEqual({ success: true, resumedExecutionId: null });
+
+            expect(prisma.conversation.update).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({ handoffAt: null, status: ConversationStatus.OPEN }),
+            }));
+            expect(redis.acquireLock).not.toHaveBeenCalled();
+        });
+    });
+
+    it('should create the conversation in the queue when a HANDOFF node is reached', async () => {
+        const eventEmitter = new EventEmitter2();
+        eventEmitter.on('conversation.handoff', (event) => service.handleFlowHandoff(event));
+        const nodeExecutor = new NodeExecutorService(
+            new ContextService(),
+            new ConfigService(),
+            {} as any, {} as any, {} as any, {} as any, {} as any, {} as any, {} as any, {} as any,
+            eventEmitter,
+            {} as any, {} as any, {} as any, {} as any,
+        );
+
+        const result = await nodeExecutor.executeNode(
+            { id: 'handoff', type: WorkflowNodeType.HANDOFF, config: { queue: 'suporte' }, position: { x: 0, y: 0 } } as any,
+            { globals: { tenantId: 'tenant-1' }, input: {}, output: {}, variables: {} } as any,
+            [],
+            'session-1',
+            '5511888888888@s.whatsapp.net',
+            'wf-1',
+            'exec-2',
+        );
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(result.handoff).toBeTruthy();
+
+        expect(prisma.conversation.upsert).toHaveBeenCalledWith(expect.objectContaining({
+            where: { sessionId_contactPhone: { sessionId: 'session-1', contactPhone: '5511888888888@s.whatsapp.net' } },
+            create: expect.objectContaining({
+                tenantId: 'tenant-1',
+                phoneNumber: '5511888888888',
+                status: ConversationStatus.PENDING,
+                handoffQueue: 'suporte',
+                handoffAt: expect.any(Date),
+            }),
+        }));
+        expect(prisma.conversationAssignment.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ action: 'handoff', queue: 'suporte', executionId: 'exec-2' }),
+        });
+    });
+});
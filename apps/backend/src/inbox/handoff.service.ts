@@ -0,0 +1,250 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { ConversationStatus as PrismaConvStatus } from '@prisma/client';
+import { EventType, ExecutionStatus } from '@n9n/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { EventBusService } from '../event-bus/event-bus.service';
+import { ExecutionService } from '../execution/execution.service';
+import { ExecutionEngineService } from '../execution/execution-engine.service';
+
+export type AssignmentAction = 'handoff' | 'assign' | 'unassign' | 'return_to_bot';
+
+/** Emitted by the HANDOFF node */
+export interface ConversationHandoffEvent {
+    tenantId?: string;
+    sessionId?: string;
+    contactPhone?: string;
+    queue: string | null;
+    executionId?: string;
+}
+
+/**
+ * Human handoff: assigns conversations to agents, keeps the bot paused while
+ * a human owns the conversation and hands it back to the bot.
+ */
+@Injectable()
+export class HandoffService {
+    constructor(
+        private prisma: PrismaService,
+        private eventBus: EventBusService,
+        private executionService: ExecutionService,
+        private executionEngine: ExecutionEngineService,
+    ) { }
+
+    /**
+     * Whether a human currently owns the conversation (bot must not trigger or resume)
+     */
+    async isHumanHandling(sessionId: string, contactPhone: string): Promise<boolean> {
+        const conversation = await this.prisma.conversation.findUnique({
+            where: { sessionId_contactPhone: { sessionId, contactPhone } },
+            select: { handoffAt: true },
+        });
+        return !!conversation?.handoffAt;
+    }
+
+    /**
+     * HANDOFF node reached: move the conversation to the queue.
+     * The engine pauses the execution itself.
+     */
+    @OnEvent('conversation.handoff')
+    async handleFlowHandoff(event: ConversationHandoffEvent): Promise<void> {
+        const { tenantId, sessionId, contactPhone, queue, executionId } = event;
+        if (!tenantId || !sessionId || !contactPhone) return;
+
+        try {
+            const conversation = await this.prisma.conversation.upsert({
+                where: { sessionId_contactPhone: { sessionId, contactPhone } },
+                update: { status: PrismaConvStatus.PENDING, handoffQueue: queue, handoffAt: new Date() },
+                create: {
+                    tenantId,
+                    sessionId,
+                    contactPhone,
+                    phoneNumber: contactPhone.split('@')[0],
+                    isGroup: contactPhone.endsWith('@g.us'),
+                    status: PrismaConvStatus.PENDING,
+                    handoffQueue: queue,
+                    handoffAt: new Date(),
+                },
+            });
+
+            await this.record(tenantId, conversation.id, 'handoff', { queue, executionId });
+            console.log(`[HANDOFF] ${contactPhone} moved to queue ${queue || '(none)'} by execution ${executionId}`);
+            await this.emitUpdated(tenantId, conversation.id);
+        } catch (error) {
+            console.error(`[HANDOFF] Failed to hand off ${contactPhone}:`, error.message);
+        }
+    }
+
+    /**
+     * Assign the conversation to an agent (or unassign with null).
+     * Assigning pauses the bot: any waiting execution for the contact is paused.
+     */
+    async assign(tenantId: string, conversationId: string, userId: string | null, byUserId?: string) {
+        const conversation = await this.getConversation(tenantId, conversationId);
+
+        if (userId) {
+            const user = await this.prisma.user.findFirst({
+                where: { id: userId, tenantId, isActive: true },
+                select: { id: true },
+            });
+            if (!user) throw new NotFoundException('User not found');
+        }
+
+        let pausedExecutionId: string | undefined;
+        if (userId) {
+            const active = await this.executionService.getActiveExecution(tenantId, conversation.sessionId, conversation.contactPhone);
+            if (active?.status === ExecutionStatus.WAITING) {
+                await this.executionEngine.pauseExecution(active);
+                pausedExecutionId = active.id;
+            }
+        }
+
+        const updated = await this.prisma.conversation.update({
+            where: { id: conversation.id },
+            data: {
+                assignedToId: userId,
+                // Unassigning keeps the conversation with the humans (queue) until it is returned to the bot
+                ...(userId ? { handoffAt: conversation.handoffAt || new Date(), status: PrismaConvStatus.OPEN } : {}),
+            },
+            include: { assignedTo: { select: { id: true, name: true, email: true } } },
+        });
+
+        await this.record(tenantId, conversation.id, userId ? 'assign' : 'unassign', {
+            userId,
+            byUserId,
+            executionId: pausedExecutionId,
+        });
+        await this.emitUpdated(tenantId, conversation.id);
+
+        return updated;
+    }
+
+    /**
+     * Hand the conversation back to the bot. The paused execution resumes at
+     * nodeId, or at the node where it stopped.
+     * Throws ConflictException while the execution is locked.
+     */
+    async returnToBot(tenantId: string, conversationId: string, nodeId: string | undefined, byUserId?: string) {
+        const conversation = await this.getConversation(tenantId, conversationId);
+        const paused = await this.getPausedExecution(tenantId, conversation.sessionId, conversation.contactPhone);
+
+        if (nodeId) {
+            if (!paused) throw new BadRequestException('There is no paused flow to resume');
+            const workflow = await this.executionEngine.getExecutionWorkflow(paused);
+            if (!workflow?.nodes.some((n) => n.id === nodeId)) {
+                throw new BadRequestException('Node not found in the paused workflow');
+            }
+        }
+
+        const handBack = async () => {
+            await this.prisma.conversation.update({
+                where: { id: conversation.id },
+                data: {
+                    assignedToId: null,
+                    handoffQueue: null,
+                    handoffAt: null,
+                    status: paused ? PrismaConvStatus.BOT : PrismaConvStatus.OPEN,
+                },
+            });
+
+            await this.record(tenantId, conversation.id, 'return_to_bot', { byUserId, executionId: paused?.id });
+            await this.emitUpdated(tenantId, conversation.id);
+        };
+
+        // The conversation only leaves the humans once the execution lock is held
+        // (a locked execution answers 409 and nothing changes)
+        if (paused) {
+            await this.executionEngine.resumePausedExecution(paused, nodeId, handBack);
+        } else {
+            await handBack();
+        }
+
+        return { success: true, resumedExecutionId: paused?.id || null };
+    }
+
+    /**
+     * Handoff state of a conversation: assignee, queue, paused execution and history
+     */
+    async getHandoff(tenantId: string, conversationId: string) {
+        const conversation = await this.getConversation(tenantId, conversationId);
+        const paused = await this.getPausedExecution(tenantId, conversation.sessionId, conversation.contactPhone);
+        const workflow = paused ? await this.executionEngine.getExecutionWorkflow(paused) : null;
+
+        const history = await this.prisma.conversationAssignment.findMany({
+            where: { conversationId: conversation.id },
+            orderBy: { createdAt: 'desc' },
+            take: 50,
+        });
+
+        return {
+            assignedToId: conversation.assignedToId,
+            queue: conversation.handoffQueue,
+            handoffAt: conversation.handoffAt,
+            pausedExecution: paused
+                ? {
+                    id: paused.id,
+                    workflowId: paused.workflowId,
+                    currentNodeId: paused.currentNodeId,
+                    nodes: (workflow?.nodes || [])
+                        .filter((n) => !n.type.startsWith('TRIGGER_'))
+                        .map((n) => ({ id: n.id, type: n.type })),
+                }
+                : null,
+            history,
+        };
+    }
+
+    /**
+     * Active users of the tenant that conversations can be assigned to
+     */
+    async listAgents(tenantId: string) {
+        return this.prisma.user.findMany({
+            where: { tenantId, isActive: true },
+            select: { id: true, name: true, email: true },
+            orderBy: { name: 'asc' },
+        });
+    }
+
+    private async getConversation(tenantId: string, id: string) {
+        const conversation = await this.prisma.conversation.findFirst({ where: { id, tenantId } });
+        if (!conversation) throw new NotFoundException('Conversation not found');
+        return conversation;
+    }
+
+    private async getPausedExecution(tenantId: string, sessionId: string, contactPhone: string) {
+        const execution = await this.prisma.workflowExecution.findFirst({
+            where: { tenantId, sessionId, contactPhone, status: ExecutionStatus.PAUSED },
+            orderBy: { updatedAt: 'desc' },
+            select: { id: true },
+        });
+        return execution ? this.executionService.getExecution(tenantId, execution.id) : null;
+    }
+
+    private async record(
+        tenantId: string,
+        conversationId: string,
+        action: AssignmentAction,
+        data: { userId?: string | null; queue?: string | null; byUserId?: string; executionId?: string },
+    ) {
+        await this.prisma.conversationAssignment.create({
+            data: {
+                tenantId,
+                conversationId,
+                action,
+                userId: data.userId || null,
+                queue: data.queue || null,
+                byUserId: data.byUserId || null,
+                executionId: data.executionId || null,
+            },
+        });
+    }
+
+    private async emitUpdated(tenantId: string, conversationId: string) {
+        await this.eventBus.emit({
+            type: EventType.INBOX_CONVERSATION_UPDATED,
+            tenantId,
+            conversationId,
+            timestamp: new Date(),
+        } as any);
+    }
+}
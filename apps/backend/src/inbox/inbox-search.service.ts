@@ -0,0 +1,144 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { InboxSearchQuery, InboxSearchFilters, parseSearchQuery } from './inbox-search.util';
+
+interface MessageHitRow {
+    id: string;
+    conversationId: string;
+    content: string;
+    snippet: string;
+    fromMe: boolean;
+    isInternal: boolean;
+    timestamp: Date;
+    rank: number;
+    contactName: string | null;
+    contactPhone: string;
+    phoneNumber: string;
+    sessionId: string;
+    status: string;
+    prevContent: string | null;
+    prevFromMe: boolean | null;
+    nextContent: string | null;
+    nextFromMe: boolean | null;
+}
+
+// ts_headline markers; the frontend highlights the text between them
+const HEADLINE_OPTIONS = 'StartSel=<<, StopSel=>>, MaxWords=30, MinWords=10, MaxFragments=2';
+
+/**
+ * Postgres full-text search over message content and contact names.
+ * Messages carry no tenantId, so every query goes through conversations.
+ */
+@Injectable()
+export class InboxSearchService {
+    constructor(private prisma: PrismaService) { }
+
+    async search(tenantId: string, query: InboxSearchQuery) {
+        const filters = parseSearchQuery(query);
+        if (!filters) {
+            return { conversations: [], messages: [], meta: { page: 1, limit: 0, hasMore: false } };
+        }
+
+        const [conversations, rows] = await Promise.all([
+            filters.offset === 0 ? this.searchConversations(tenantId, filters) : Promise.resolve([]),
+            this.searchMessages(tenantId, filters),
+        ]);
+
+        const hasMore = rows.length > filters.limit;
+        const messages = rows.slice(0, filters.limit).map((r) => ({
+            id: r.id,
+            conversationId: r.conversationId,
+            snippet: r.snippet,
+            fromMe: r.fromMe,
+            isInternal: r.isInternal,
+            timestamp: r.timestamp,
+            rank: Number(r.rank),
+            conversation: {
+                id: r.conversationId,
+                contactName: r.contactName,
+                contactPhone: r.contactPhone,
+                phoneNumber: r.phoneNumber,
+                sessionId: r.sessionId,
+                status: r.status,
+            },
+            context: {
+                before: r.prevContent !== null ? { content: r.prevContent, fromMe: r.prevFromMe } : null,
+                after: r.nextContent !== null ? { content: r.nextContent, fromMe: r.nextFromMe } : null,
+            },
+        }));
+
+        return {
+            conversations,
+            messages,
+            meta: { page: filters.offset / filters.limit + 1, limit: filters.limit, hasMore },
+        };
+    }
+
+    /**
+     * Contacts whose name or number matches, on the first page only
+     */
+    private async searchConversations(tenantId: string, filters: InboxSearchFilters) {
+        return this.prisma.$queryRaw<any[]>`
+            SELECT c.id, c."contactName", c."contactPhone", c."phoneNumber", c."sessionId", c.status,
+                   c."lastMessage", c."lastMessageAt"
+            FROM conversations c, plainto_tsquery('simple', ${filters.text}) q
+            WHERE c."tenantId" = ${tenantId}
+              AND c."searchVector" @@ q
+              ${this.conversationFilters(filters)}
+            ORDER BY ts_rank(c."searchVector", q) DESC, c."lastMessageAt" DESC NULLS LAST
+            LIMIT 5
+        `;
+    }
+
+    /**
+     * Ranked message hits with the message before and after each one.
+     * Fetches one extra row to know whether there is another page.
+     */
+    private async searchMessages(tenantId: string, filters: InboxSearchFilters) {
+        return this.prisma.$queryRaw<MessageHitRow[]>`
+            SELECT m.id, m."conversationId", m.content, m."fromMe", m."isInternal", m.timestamp,
+                   ts_rank(m."searchVector", q) AS rank,
+                   ts_headline('portuguese', m.content, q, ${HEADLINE_OPTIONS}) AS snippet,
+                   c."contactName", c."contactPhone", c."phoneNumber", c."sessionId", c.status,
+                   before_msg.content AS "prevContent", before_msg."fromMe" AS "prevFromMe",
+                   after_msg.content AS "nextContent", after_msg."fromMe" AS "nextFromMe"
+            FROM messages m
+            JOIN conversations c ON c.id = m."conversationId"
+            CROSS JOIN websearch_to_tsquery('portuguese', ${filters.text}) q
+            LEFT JOIN LATERAL (
+                SELECT p.content, p."fromMe" FROM messages p
+                WHERE p."conversationId" = m."conversationId" AND p.timestamp < m.timestamp AND p."deletedAt" IS NULL
+                ORDER BY p.timestamp DESC LIMIT 1
+            ) before_msg ON true
+            LEFT JOIN LATERAL (
+                SELECT n.content, n."fromMe" FROM messages n
+                WHERE n."conversationId" = m."conversationId" AND n.timestamp > m.timestamp AND n."deletedAt" IS NULL
+                ORDER BY n.timestamp ASC LIMIT 1
+            ) after_msg ON true
+            WHERE c."tenantId" = ${tenantId}
+              AND m."searchVector" @@ q
+              AND m."deletedAt" IS NULL
+              ${filters.from ? Prisma.sql`AND m.timestamp >= ${filters.from}` : Prisma.empty}
+              ${filters.to ? Prisma.sql`AND m.timestamp <= ${filters.to}` : Prisma.empty}
+              ${this.conversationFilters(filters)}
+            ORDER BY rank DESC, m.timestamp DESC
+            LIMIT ${filters.limit + 1} OFFSET ${filters.offset}
+        `;
+    }
+
+    /** Session, status and contact tag filters on the conversation alias "c" */
+    private conversationFilters(filters: InboxSearchFilters): Prisma.Sql {
+        const clauses: Prisma.Sql[] = [];
+        if (filters.sessionId) clauses.push(Prisma.sql`AND c."sessionId" = ${filters.sessionId}`);
+        if (filters.status) clauses.push(Prisma.sql`AND c.status::text = ${filters.status}`);
+        if (filters.tag) {
+            clauses.push(Prisma.sql`AND EXISTS (
+                SELECT 1 FROM contact_tags t
+                WHERE t."tenantId" = c."tenantId" AND t."sessionId" = c."sessionId"
+                  AND t."contactPhone" = c."contactPhone" AND ${filters.tag} = ANY(t.tags)
+            )`);
+        }
+        return clauses.length ? Prisma.join(clauses, ' ') : Prisma.empty;
+    }
+}
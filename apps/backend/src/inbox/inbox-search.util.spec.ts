@@ -0,0 +1,25 @@
+import { parseSearchQuery } from './inbox-search.util';
+
+describe('inbox-search.util', () => {
+    it('should refuse texts that are too short', () => {
+        expect(parseSearchQuery({ q: ' a ' })).toBeNull();
+        expect(parseSearchQuery({})).toBeNull();
+    });
+
+    it('should normalize text, paging and filters', () => {
+        const filters = parseSearchQuery({ q: '  comprovante   97 ', status: 'OPEN', tag: ' vip ', page: '3', limit: '500' })!;
+        expect(filters.text).toBe('comprovante 97');
+        expect(filters.status).toBe('OPEN');
+        expect(filters.tag).toBe('vip');
+        expect(filters.limit).toBe(50);
+        expect(filters.offset).toBe(100);
+        expect(parseSearchQuery({ q: 'pix', status: 'DELETED' })!.status).toBeNull();
+    });
+
+    it('should make a bare "to" date inclusive of the whole day', () => {
+        const filters = parseSearchQuery({ q: 'pix', from: '2026-10-13', to: '2026-10-13' })!;
+        expect(filters.from!.toISOString()).toBe('2026-10-13T00:00:00.000Z');
+        expect(filters.to!.toISOString()).toBe('2026-10-13T23:59:59.999Z');
+        expect(parseSearchQuery({ q: 'pix', from: 'ontem' })!.from).toBeNull();
+    });
+});
@@ -0,0 +1,57 @@
+export const SEARCH_STATUSES = ['OPEN', 'PENDING', 'RESOLVED', 'BOT'];
+
+export interface InboxSearchQuery {
+    q?: string;
+    sessionId?: string;
+    status?: string;
+    tag?: string;
+    from?: string;
+    to?: string;
+    page?: string | number;
+    limit?: string | number;
+}
+
+export interface InboxSearchFilters {
+    text: string;
+    sessionId: string | null;
+    status: string | null;
+    tag: string | null;
+    from: Date | null;
+    to: Date | null;
+    limit: number;
+    offset: number;
+}
+
+/** Date filter from a query string; a bare YYYY-MM-DD "to" covers the whole day */
+function parseDate(value: string | undefined, endOfDay: boolean): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return null;
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+}
+
+/**
+ * Normalize GET /inbox/search parameters; null when the text is too short to search
+ */
+export function parseSearchQuery(query: InboxSearchQuery): InboxSearchFilters | null {
+    const text = (query.q || '').replace(/\s+/g, ' ').trim().slice(0, 200);
+    if (text.length < 2) return null;
+
+    const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 50);
+    const page = Math.max(Number(query.page) || 1, 1);
+    const status = query.status && SEARCH_STATUSES.includes(query.status) ? query.status : null;
+
+    return {
+        text,
+        sessionId: query.sessionId || null,
+        status,
+        tag: query.tag?.trim() || null,
+        from: parseDate(query.from, false),
+        to: parseDate(query.to, true),
+        limit,
+        offset: (page - 1) * limit,
+    };
+}
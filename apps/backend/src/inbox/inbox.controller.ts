@@ -1,12 +1,23 @@
 import { Controller, Get, Post, Patch, Param, Body, Query, UseGuards, Request } from '@nestjs/common';
 import { InboxService } from './inbox.service';
+import { HandoffService } from './handoff.service';
+import { InboxSearchService } from './inbox-search.service';
+import { InboxSearchQuery } from './inbox-search.util';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Audit } from '../audit/audit.decorator';
 import { ConversationStatus } from '@prisma/client';
 
 @Controller('inbox')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('inbox:view')
 export class InboxController {
-    constructor(private readonly inboxService: InboxService) { }
+    constructor(
+        private readonly inboxService: InboxService,
+        private readonly handoffService: HandoffService,
+        private readonly inboxSearchService: InboxSearchService,
+    ) { }
 
     @Get('stats')
     async getStats(@Request() req: any) {
@@ -20,13 +31,25 @@ export class InboxController {
         @Query('status') status?: ConversationStatus,
         @Query('label') label?: string,
         @Query('type') type?: 'individual' | 'group',
+        @Query('assignedTo') assignedTo?: string,
         @Query('page') page: string = '1',
         @Query('limit') limit: string = '20',
     ) {
-        const filters = { sessionId, status, label, type, page: Number(page), limit: Number(limit) };
+        const assignedToId = assignedTo === 'me' ? req.user.id : assignedTo;
+        const filters = { sessionId, status, label, type, assignedToId, page: Number(page), limit: Number(limit) };
         return this.inboxService.getConversations(req.user.tenantId, filters);
     }
 
+    @Get('search')
+    async search(@Request() req: any, @Query() query: InboxSearchQuery) {
+        return this.inboxSearchService.search(req.user.tenantId, query);
+    }
+
+    @Get('agents')
+    async getAgents(@Request() req: any) {
+        return this.handoffService.listAgents(req.user.tenantId);
+    }
+
     @Get(':id')
     async getConversation(@Request() req: any, @Param('id') conversationId: string) {
         return this.inboxService.getConversation(req.user.tenantId, conversationId);
@@ -38,20 +61,47 @@ export class InboxController {
         @Param('id') conversationId: string,
         @Query('cursor') cursor?: string,
         @Query('limit') limit: string = '50',
+        @Query('around') around?: string,
+        @Query('after') after?: string,
     ) {
-        return this.inboxService.getMessages(req.user.tenantId, conversationId, { cursor, limit: Number(limit) });
+        return this.inboxService.getMessages(req.user.tenantId, conversationId, { cursor, limit: Number(limit), around, after });
     }
 
     @Post(':id/send')
+    @RequirePermissions('inbox:edit')
+    @Audit('message.send')
     async sendMessage(
         @Request() req: any,
         @Param('id') conversationId: string,
-        @Body() body: { text?: string; mediaUrl?: string; mediaType?: 'image' | 'video' | 'audio' | 'document' }
+        @Body() body: { text?: string; mediaUrl?: string; mediaType?: 'image' | 'video' | 'audio' | 'document'; fileName?: string }
     ) {
         return this.inboxService.sendMessage(req.user.tenantId, conversationId, body);
     }
 
+    @Post(':id/notes')
+    @RequirePermissions('inbox:edit')
+    @Audit('note.create')
+    async addNote(
+        @Request() req: any,
+        @Param('id') conversationId: string,
+        @Body('text') text: string,
+    ) {
+        return this.inboxService.addNote(req.user.tenantId, conversationId, text, req.user.id);
+    }
+
+    @Post(':id/expand-response')
+    @RequirePermissions('inbox:edit')
+    async expandResponse(
+        @Request() req: any,
+        @Param('id') conversationId: string,
+        @Body('response') response: string,
+    ) {
+        return this.inboxService.expandSavedResponse(req.user.tenantId, conversationId, response);
+    }
+
     @Post(':id/trigger-flow')
+    @RequirePermissions('inbox:edit')
+    @Audit('conversation_flow.trigger')
     async triggerFlow(
         @Request() req: any,
         @Param('id') conversationId: string,
@@ -61,6 +111,8 @@ export class InboxController {
     }
 
     @Patch(':id/status')
+    @RequirePermissions('inbox:edit')
+    @Audit('conversation.status')
     async updateStatus(
         @Request() req: any,
         @Param('id') conversationId: string,
@@ -69,12 +121,40 @@ export class InboxController {
         return this.inboxService.updateStatus(req.user.tenantId, conversationId, status);
     }
 
+    @Get(':id/handoff')
+    async getHandoff(@Request() req: any, @Param('id') conversationId: string) {
+        return this.handoffService.getHandoff(req.user.tenantId, conversationId);
+    }
+
+    @Post(':id/assign')
+    @RequirePermissions('inbox:edit')
+    @Audit('conversation.assign')
+    async assign(
+        @Request() req: any,
+        @Param('id') conversationId: string,
+        @Body('userId') userId: string | null,
+    ) {
+        return this.handoffService.assign(req.user.tenantId, conversationId, userId || null, req.user.id);
+    }
+
+    @Post(':id/return-to-bot')
+    @RequirePermissions('inbox:edit')
+    @Audit('conversation.return_to_bot')
+    async returnToBot(
+        @Request() req: any,
+        @Param('id') conversationId: string,
+        @Body('nodeId') nodeId?: string,
+    ) {
+        return this.handoffService.returnToBot(req.user.tenantId, conversationId, nodeId || undefined, req.user.id);
+    }
+
     @Patch(':id/read')
     async markAsRead(@Request() req: any, @Param('id') conversationId: string) {
         return this.inboxService.markAsRead(req.user.tenantId, conversationId);
     }
 
     @Post(':id/sync-profile')
+    @RequirePermissions('inbox:edit')
     async syncProfile(@Request() req: any, @Param('id') conversationId: string) {
         return this.inboxService.syncConversationProfile(req.user.tenantId, conversationId);
     }
@@ -1,18 +1,24 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { InboxController } from './inbox.controller';
 import { InboxService } from './inbox.service';
+import { HandoffService } from './handoff.service';
+import { InboxSearchService } from './inbox-search.service';
+import { SavedResponsesController } from './saved-responses.controller';
+import { SavedResponsesService } from './saved-responses.service';
 import { WhatsappModule } from '../whatsapp/whatsapp.module';
 import { ExecutionModule } from '../execution/execution.module';
 import { EventBusModule } from '../event-bus/event-bus.module';
+import { ContactsModule } from '../contacts/contacts.module';
 
 @Module({
     imports: [
         forwardRef(() => WhatsappModule),
         ExecutionModule,
-        EventBusModule
+        EventBusModule,
+        ContactsModule,
     ],
-    controllers: [InboxController],
-    providers: [InboxService],
-    exports: [InboxService],
+    controllers: [InboxController, SavedResponsesController],
+    providers: [InboxService, HandoffService, SavedResponsesService, InboxSearchService],
+    exports: [InboxService, HandoffService],
 })
 export class InboxModule { }
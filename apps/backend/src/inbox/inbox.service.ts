@@ -1,20 +1,26 @@
-import { Injectable, NotFoundException, Inject, forwardRef } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, Inject, forwardRef } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { WhatsappService } from '../whatsapp/whatsapp.service';
 import { WhatsappSessionManager } from '../whatsapp/whatsapp-session-manager.service';
 import { EventBusService } from '../event-bus/event-bus.service';
 import { ExecutionService } from '../execution/execution.service';
 import { ExecutionEngineService } from '../execution/execution-engine.service';
-import { EventType } from '@n9n/shared';
+import { EventType, TriggerMessagePayload } from '@n9n/shared';
 // We assume we cast the Prisma Enums or matching @n9n/shared enums.
 // The Prisma schemas use String for statuses or Enums. Let's use the Prisma generated enum format.
 import { ConversationStatus as PrismaConvStatus, MessageStatus as PrismaMsgStatus, Conversation, Message } from '@prisma/client';
+import { getStatusesBefore } from '../whatsapp/message-receipt.util';
+import { applyReaction } from '../whatsapp/message-event.util';
+import { SavedResponsesService } from './saved-responses.service';
+import { parseShortcut } from './saved-response.util';
+import { ContactsService } from '../contacts/contacts.service';
 
 export interface GetConversationsOptions {
     sessionId?: string;
     status?: PrismaConvStatus;
     label?: string;
     type?: 'individual' | 'group';
+    assignedToId?: string;
     page: number;
     limit: number;
 }
@@ -29,6 +35,8 @@ export class InboxService {
         private eventBus: EventBusService,
         private executionService: ExecutionService,
         private executionEngine: ExecutionEngineService,
+        private savedResponses: SavedResponsesService,
+        private contactsService: ContactsService,
     ) { }
 
     async getInboxStats(tenantId: string) {
@@ -49,7 +57,7 @@ export class InboxService {
     }
 
     async getConversations(tenantId: string, filters: GetConversationsOptions) {
-        const { sessionId, status, label, type, page, limit } = filters;
+        const { sessionId, status, label, type, assignedToId, page, limit } = filters;
 
         // Build where clause
         const where: any = { tenantId };
@@ -58,6 +66,7 @@ export class InboxService {
         if (type === 'group') where.isGroup = true;
         if (type === 'individual') where.isGroup = false;
         if (label) where.labels = { has: label };
+        if (assignedToId) where.assignedToId = assignedToId;
 
         const skip = (page - 1) * limit;
 
@@ -66,6 +75,7 @@ export class InboxService {
                 where,
                 include: {
                     session: { select: { name: true } },
+                    assignedTo: { select: { id: true, name: true, email: true } },
                 },
                 orderBy: { lastMessageAt: 'desc' },
                 skip,
@@ -90,6 +100,7 @@ export class InboxService {
             where: { id, tenantId },
             include: {
                 session: { select: { name: true } },
+                assignedTo: { select: { id: true, name: true, email: true } },
             },
         });
 
@@ -100,10 +111,17 @@ export class InboxService {
         return conversation;
     }
 
-    async getMessages(tenantId: string, conversationId: string, options: { cursor?: string; limit: number }) {
+    async getMessages(tenantId: string, conversationId: string, options: { cursor?: string; limit: number; around?: string; after?: string }) {
         // Verify conversation belongs to tenant
         await this.getConversation(tenantId, conversationId);
 
+        if (options.around) {
+            return this.getMessagesAround(conversationId, options.around, options.limit);
+        }
+        if (options.after) {
+            return this.getMessagesAfter(conversationId, options.after, options.limit);
+        }
+
         const findOptions: any = {
             where: { conversationId },
             take: options.limit,
@@ -131,19 +149,90 @@ export class InboxService {
         };
     }
 
-    async sendMessage(tenantId: string, conversationId: string, body: { text?: string; mediaUrl?: string; mediaType?: 'image' | 'video' | 'audio' | 'document' }) {
+    /**
+     * A page of history around the target: `limit` messages before it and
+     * `limit` from it onwards. newerCursor pages forward towards the live thread.
+     */
+    private async getMessagesAround(conversationId: string, messageId: string, limit: number) {
+        const target = await this.prisma.message.findFirst({ where: { id: messageId, conversationId } });
+        if (!target) throw new NotFoundException('Message not found');
+
+        const [older, newer] = await Promise.all([
+            this.prisma.message.findMany({
+                where: { conversationId, timestamp: { lt: target.timestamp } },
+                orderBy: { timestamp: 'desc' },
+                take: limit + 1,
+            }),
+            this.prisma.message.findMany({
+                where: { conversationId, timestamp: { gte: target.timestamp } },
+                orderBy: { timestamp: 'asc' },
+                take: limit + 1,
+            }),
+        ]);
+
+        let nextCursor: string | undefined = undefined;
+        if (older.length > limit) {
+            older.pop();
+            nextCursor = older[older.length - 1].id;
+        }
+
+        let newerCursor: string | undefined = undefined;
+        if (newer.length > limit) {
+            newer.pop();
+            newerCursor = newer[newer.length - 1].id;
+        }
+
+        return {
+            data: [...older.reverse(), ...newer],
+            nextCursor,
+            newerCursor,
+        };
+    }
+
+    /**
+     * The page of messages right after the cursor, oldest first
+     */
+    private async getMessagesAfter(conversationId: string, cursor: string, limit: number) {
+        const messages = await this.prisma.message.findMany({
+            where: { conversationId },
+            orderBy: { timestamp: 'asc' },
+            cursor: { id: cursor },
+            skip: 1, // Skip the cursor itself
+            take: limit + 1,
+        });
+
+        let newerCursor: string | undefined = undefined;
+        if (messages.length > limit) {
+            messages.pop();
+            newerCursor = messages[messages.length - 1].id;
+        }
+
+        return {
+            data: messages,
+            newerCursor,
+        };
+    }
+
+    async sendMessage(tenantId: string, conversationId: string, body: { text?: string; mediaUrl?: string; mediaType?: 'image' | 'video' | 'audio' | 'document'; fileName?: string }) {
         const conversation = await this.getConversation(tenantId, conversationId);
 
+        // A lone "/shortcut" sends the saved response instead
+        const shortcut = !body.mediaUrl ? parseShortcut(body.text) : null;
+        if (shortcut && await this.savedResponses.findByShortcut(tenantId, shortcut)) {
+            body = await this.savedResponses.expand(tenantId, conversation, shortcut);
+        }
+
+        let whatsappMessageId: string | undefined;
         if (body.mediaUrl && body.mediaType) {
-            await this.whatsappSessionManager.sendMedia(
+            whatsappMessageId = await this.whatsappSessionManager.sendMedia(
                 conversation.sessionId,
                 conversation.contactPhone,
                 body.mediaType,
                 body.mediaUrl,
-                { caption: body.text, bypassDelay: true }
+                { caption: body.text, fileName: body.fileName, bypassDelay: true }
             );
         } else if (body.text) {
-            await this.whatsappSessionManager.sendMessage(
+            whatsappMessageId = await this.whatsappSessionManager.sendMessage(
                 conversation.sessionId,
                 conversation.contactPhone,
                 body.text,
@@ -156,6 +245,7 @@ export class InboxService {
         const newMessage = await this.prisma.message.create({
             data: {
                 conversationId,
+                whatsappMessageId,
                 content: body.text || '',
                 mediaUrl: body.mediaUrl,
                 mediaType: body.mediaType,
@@ -186,6 +276,41 @@ export class InboxService {
         return newMessage;
     }
 
+    /**
+     * Private note on the conversation; stored in the timeline, never sent to WhatsApp
+     */
+    async addNote(tenantId: string, conversationId: string, text: string, authorId?: string) {
+        const conversation = await this.getConversation(tenantId, conversationId);
+        if (!text?.trim()) throw new BadRequestException('Note text is required');
+
+        const note = await this.prisma.message.create({
+            data: {
+                conversationId: conversation.id,
+                content: text.trim(),
+                fromMe: true,
+                isInternal: true,
+                authorId,
+                timestamp: new Date(),
+                status: PrismaMsgStatus.SENT,
+            },
+        });
+
+        await this.eventBus.emit({
+            type: EventType.INBOX_NOTE_ADDED,
+            tenantId,
+            conversationId: conversation.id,
+            message: note,
+            timestamp: new Date(),
+        } as any);
+
+        return note;
+    }
+
+    async expandSavedResponse(tenantId: string, conversationId: string, response: string) {
+        const conversation = await this.getConversation(tenantId, conversationId);
+        return this.savedResponses.expand(tenantId, conversation, response);
+    }
+
     async triggerFlow(tenantId: string, conversationId: string, workflowId: string) {
         const conversation = await this.getConversation(tenantId, conversationId);
 
@@ -237,6 +362,9 @@ export class InboxService {
             data: {
                 status: PrismaConvStatus.BOT,
                 activeFlowId: workflowId,
+                // A flow started by hand takes the conversation back from the humans
+                handoffQueue: null,
+                handoffAt: null,
             },
         });
 
@@ -253,7 +381,8 @@ export class InboxService {
     async updateStatus(tenantId: string, conversationId: string, status: PrismaConvStatus) {
         const conversation = await this.prisma.conversation.updateMany({
             where: { id: conversationId, tenantId },
-            data: { status },
+            // Resolving closes the human handoff; the bot answers this contact again
+            data: status === PrismaConvStatus.RESOLVED ? { status, handoffQueue: null, handoffAt: null } : { status },
         });
 
         if (conversation.count === 0) throw new NotFoundException();
@@ -324,6 +453,12 @@ export class InboxService {
             },
         });
 
+        // Link the unified contact (created on first sight, name filled from WhatsApp)
+        if (!conversation.isGroup && (!conversation.contactId || data.contactName || data.contactAvatar)) {
+            await this.linkContact(conversation).catch((e) =>
+                console.error(`[INBOX] Failed to link contact for ${contactPhone}:`, e.message));
+        }
+
         // Proactively sync profile picture if missing or if it's an old placeholder
         if (!conversation.contactAvatar || conversation.contactAvatar.includes('placeholder') || conversation.contactAvatar.includes('default')) {
             this.syncProfilePicture(tenantId, conversation.id, sessionId, contactPhone).catch(() => { });
@@ -339,6 +474,17 @@ export class InboxService {
         return conversation;
     }
 
+    private async linkContact(conversation: Conversation) {
+        const contactId = await this.contactsService.syncFromConversation(conversation.tenantId, conversation.contactPhone, {
+            name: conversation.contactName,
+            avatarUrl: conversation.contactAvatar,
+        });
+        if (contactId && conversation.contactId !== contactId) {
+            await this.prisma.conversation.update({ where: { id: conversation.id }, data: { contactId } });
+            conversation.contactId = contactId;
+        }
+    }
+
     async saveMessage(conversationId: string, data: Partial<Message> & { whatsappMessageId?: string }) {
         const conversation = await this.prisma.conversation.findUnique({
             where: { id: conversationId },
@@ -363,8 +509,11 @@ export class InboxService {
                 mediaUrl: data.mediaUrl,
                 mediaType: data.mediaType,
                 fromMe: data.fromMe ?? false,
+                isSystem: data.isSystem ?? false,
                 timestamp: data.timestamp || new Date(),
                 status: data.status || PrismaMsgStatus.SENT,
+                location: (data.location as any) ?? undefined,
+                contacts: (data.contacts as any) ?? undefined,
             },
         });
 
@@ -379,6 +528,83 @@ export class InboxService {
         return message;
     }
 
+    /**
+     * Apply a delivery/read receipt to our outgoing messages. Status only moves
+     * forward, so late or duplicate receipts are ignored.
+     */
+    async updateMessageStatus(sessionId: string, whatsappMessageId: string, status: PrismaMsgStatus) {
+        const where = {
+            whatsappMessageId,
+            fromMe: true,
+            status: { in: getStatusesBefore(status) },
+            conversation: { sessionId },
+        };
+
+        const messages = await this.prisma.message.findMany({
+            where,
+            select: { id: true, conversationId: true, conversation: { select: { tenantId: true } } },
+        });
+        if (messages.length === 0) return;
+
+        await this.prisma.message.updateMany({ where, data: { status } });
+
+        for (const message of messages) {
+            await this.eventBus.emit({
+                type: EventType.INBOX_MESSAGE_STATUS,
+                tenantId: message.conversation.tenantId,
+                conversationId: message.conversationId,
+                messageId: message.id,
+                status,
+                timestamp: new Date(),
+            } as any);
+        }
+    }
+
+    /**
+     * Apply a reaction, edit or revoke to the message it targets. Revoked
+     * messages are soft-deleted; edits keep the first version in originalContent.
+     */
+    async applyMessageEvent(sessionId: string, payload: TriggerMessagePayload, reactor: string) {
+        if (!payload.targetMessageId) return null;
+
+        const message = await this.prisma.message.findFirst({
+            where: { whatsappMessageId: payload.targetMessageId, conversation: { sessionId } },
+            include: { conversation: { select: { tenantId: true } } },
+        });
+        if (!message) return null;
+
+        let data: Record<string, any>;
+        if (payload.type === 'reaction') {
+            data = { reactions: applyReaction(message.reactions as Record<string, string>, reactor, payload.reaction || '') };
+        } else if (payload.type === 'edit') {
+            data = {
+                content: payload.text || '',
+                originalContent: message.originalContent ?? message.content,
+                editedAt: new Date(payload.timestamp),
+            };
+        } else if (payload.type === 'delete') {
+            data = { deletedAt: new Date(payload.timestamp) };
+        } else {
+            return null;
+        }
+
+        const { conversation, ...updated } = await this.prisma.message.update({
+            where: { id: message.id },
+            data,
+            include: { conversation: { select: { tenantId: true } } },
+        });
+
+        await this.eventBus.emit({
+            type: EventType.INBOX_MESSAGE_UPDATED,
+            tenantId: conversation.tenantId,
+            conversationId: message.conversationId,
+            message: updated,
+            timestamp: new Date(),
+        } as any);
+
+        return updated;
+    }
+
     async syncConversationProfile(tenantId: string, conversationId: string) {
         const conversation = await this.prisma.conversation.findFirst({
             where: { id: conversationId, tenantId },
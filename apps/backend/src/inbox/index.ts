@@ -1,3 +1,5 @@
 export * from './inbox.service';
+export * from './handoff.service';
+export * from './saved-responses.service';
 export * from './inbox.controller';
 export * from './inbox.module';
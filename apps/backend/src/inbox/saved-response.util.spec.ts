@@ -0,0 +1,39 @@
+import { normalizeShortcut, parseShortcut, mediaTypeFromMime, buildResponseContext } from './saved-response.util';
+
+describe('saved-response.util', () => {
+    it('should normalize shortcuts and reject invalid ones', () => {
+        expect(normalizeShortcut('/PIX')).toBe('pix');
+        expect(normalizeShortcut('boas-vindas_2')).toBe('boas-vindas_2');
+        expect(normalizeShortcut('com espaço')).toBeNull();
+        expect(normalizeShortcut('')).toBeNull();
+    });
+
+    it('should only parse a composer text that is a lone shortcut', () => {
+        expect(parseShortcut(' /pix ')).toBe('pix');
+        expect(parseShortcut('/pix agora')).toBeNull();
+        expect(parseShortcut('pix')).toBeNull();
+        expect(parseShortcut(undefined)).toBeNull();
+    });
+
+    it('should map mime types to send types', () => {
+        expect(mediaTypeFromMime('image/png')).toBe('image');
+        expect(mediaTypeFromMime('audio/ogg')).toBe('audio');
+        expect(mediaTypeFromMime('application/pdf')).toBe('document');
+    });
+
+    it('should layer the contact over the last execution context', () => {
+        const context = buildResponseContext(
+            't1',
+            { variables: { pedido: '42', contact: { name: 'Antigo', phoneNumber: '55' } } },
+            { name: 'Ana', phoneNumber: '5511999', tags: ['vip'], stage: 'lead' },
+        );
+        expect(context.tenantId).toBe('t1');
+        expect(context.variables.pedido).toBe('42');
+        expect(context.variables.contact).toEqual({ name: 'Ana', phoneNumber: '5511999' });
+        expect(context.variables.contactTags).toEqual(['vip']);
+        expect(context.variables.etapa).toBe('lead');
+        expect(buildResponseContext('t1', null, { phoneNumber: '55', tags: [] }).variables.contact).toEqual({ phoneNumber: '55' });
+        expect(buildResponseContext('t1', null, { phoneNumber: '55', tags: [], fields: { plano: 'Pro' } }).variables.contact)
+            .toEqual({ plano: 'Pro', phoneNumber: '55' });
+    });
+});
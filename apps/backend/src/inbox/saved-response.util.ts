@@ -0,0 +1,53 @@
+import { ExecutionContext } from '@n9n/shared';
+
+export type SavedResponseMediaType = 'image' | 'video' | 'audio' | 'document';
+
+/** Lowercase shortcut without the leading slash; null when it has other characters */
+export function normalizeShortcut(raw: string): string | null {
+    const shortcut = (raw || '').trim().replace(/^\//, '').toLowerCase();
+    return /^[a-z0-9_-]{1,32}$/.test(shortcut) ? shortcut : null;
+}
+
+/** Shortcut when the whole composer text is a single "/shortcut" */
+export function parseShortcut(text?: string | null): string | null {
+    const match = (text || '').trim().match(/^\/(\S+)$/);
+    return match ? normalizeShortcut(match[1]) : null;
+}
+
+/** WhatsApp send type for a stored media file */
+export function mediaTypeFromMime(mimeType: string): SavedResponseMediaType {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('video/')) return 'video';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    return 'document';
+}
+
+/**
+ * Context a saved response is interpolated against: the contact's last
+ * execution context with its current name, tags and stage on top.
+ */
+export function buildResponseContext(
+    tenantId: string,
+    lastContext: Partial<ExecutionContext> | null | undefined,
+    contact: { name?: string | null; phoneNumber: string; tags: string[]; stage?: string | null; fields?: Record<string, any> },
+): ExecutionContext {
+    const variables = { ...(lastContext?.variables || {}) };
+    variables.contactTags = contact.tags;
+    variables.contact = { ...(variables.contact || {}), ...(contact.fields || {}), phoneNumber: contact.phoneNumber };
+    if (contact.name) {
+        variables.contactName = contact.name;
+        variables.contact.name = contact.name;
+    }
+    if (contact.stage) {
+        variables.etapa = contact.stage;
+        variables.contactStage = contact.stage;
+    }
+
+    return {
+        tenantId,
+        globals: lastContext?.globals || {},
+        input: lastContext?.input || {},
+        output: lastContext?.output || {},
+        variables,
+    };
+}
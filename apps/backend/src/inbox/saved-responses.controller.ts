@@ -0,0 +1,39 @@
+import { Controller, Get, Post, Put, Delete, Param, Body, UseGuards, Request } from '@nestjs/common';
+import { SavedResponsesService, SavedResponseInput } from './saved-responses.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Audit } from '../audit/audit.decorator';
+
+@Controller('saved-responses')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('inbox:view')
+export class SavedResponsesController {
+    constructor(private readonly savedResponsesService: SavedResponsesService) { }
+
+    @Get()
+    async list(@Request() req: any) {
+        return this.savedResponsesService.list(req.user.tenantId);
+    }
+
+    @Post()
+    @RequirePermissions('inbox:edit')
+    @Audit('saved_response.create')
+    async create(@Request() req: any, @Body() body: SavedResponseInput) {
+        return this.savedResponsesService.create(req.user.tenantId, body);
+    }
+
+    @Put(':id')
+    @RequirePermissions('inbox:edit')
+    @Audit('saved_response.update')
+    async update(@Request() req: any, @Param('id') id: string, @Body() body: SavedResponseInput) {
+        return this.savedResponsesService.update(req.user.tenantId, id, body);
+    }
+
+    @Delete(':id')
+    @RequirePermissions('inbox:edit')
+    @Audit('saved_response.delete')
+    async remove(@Request() req: any, @Param('id') id: string) {
+        return this.savedResponsesService.remove(req.user.tenantId, id);
+    }
+}
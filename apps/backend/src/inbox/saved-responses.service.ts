@@ -0,0 +1,155 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { Conversation } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ContextService } from '../execution/context.service';
+import { ContactTagsService } from '../execution/contact-tags.service';
+import { ContactsService } from '../contacts/contacts.service';
+import { normalizeShortcut, mediaTypeFromMime, buildResponseContext, SavedResponseMediaType } from './saved-response.util';
+
+export interface SavedResponseInput {
+    shortcut: string;
+    title: string;
+    content: string;
+    mediaFileId?: string | null;
+}
+
+export interface ExpandedResponse {
+    text: string;
+    mediaUrl?: string;
+    mediaType?: SavedResponseMediaType;
+    fileName?: string;
+}
+
+/**
+ * Tenant-level saved responses for the inbox composer
+ */
+@Injectable()
+export class SavedResponsesService {
+    constructor(
+        private prisma: PrismaService,
+        private contextService: ContextService,
+        private contactTagsService: ContactTagsService,
+        private contactsService: ContactsService,
+    ) { }
+
+    async list(tenantId: string) {
+        const responses = await this.prisma.savedResponse.findMany({
+            where: { tenantId },
+            orderBy: { shortcut: 'asc' },
+        });
+
+        const mediaIds = responses.map((r) => r.mediaFileId).filter(Boolean) as string[];
+        const media = mediaIds.length
+            ? await this.prisma.mediaFile.findMany({
+                where: { id: { in: mediaIds }, tenantId },
+                select: { id: true, url: true, originalName: true, mimeType: true },
+            })
+            : [];
+
+        return responses.map((r) => ({ ...r, media: media.find((m) => m.id === r.mediaFileId) || null }));
+    }
+
+    async create(tenantId: string, input: SavedResponseInput) {
+        const data = await this.validate(tenantId, input);
+        return this.prisma.savedResponse.create({ data: { tenantId, ...data } });
+    }
+
+    async update(tenantId: string, id: string, input: SavedResponseInput) {
+        await this.get(tenantId, id);
+        const data = await this.validate(tenantId, input, id);
+        return this.prisma.savedResponse.update({ where: { id }, data });
+    }
+
+    async remove(tenantId: string, id: string) {
+        await this.get(tenantId, id);
+        await this.prisma.savedResponse.delete({ where: { id } });
+        return { success: true };
+    }
+
+    async findByShortcut(tenantId: string, shortcut: string) {
+        return this.prisma.savedResponse.findUnique({
+            where: { tenantId_shortcut: { tenantId, shortcut } },
+        });
+    }
+
+    /**
+     * Fill a saved response for a conversation: interpolates the content against
+     * the contact's tags and last execution context and resolves the attachment.
+     */
+    async expand(tenantId: string, conversation: Conversation, idOrShortcut: string): Promise<ExpandedResponse> {
+        const shortcut = normalizeShortcut(idOrShortcut);
+        const response = await this.prisma.savedResponse.findFirst({
+            where: {
+                tenantId,
+                OR: [{ id: idOrShortcut }, ...(shortcut ? [{ shortcut }] : [])],
+            },
+        });
+        if (!response) throw new NotFoundException('Saved response not found');
+
+        const { sessionId, contactPhone } = conversation;
+        const [lastExecution, tags, stage, contact] = await Promise.all([
+            this.prisma.workflowExecution.findFirst({
+                where: { tenantId, sessionId, contactPhone },
+                orderBy: { updatedAt: 'desc' },
+                select: { context: true },
+            }),
+            this.contactTagsService.getTags(tenantId, sessionId, contactPhone),
+            this.contactTagsService.getStage(tenantId, sessionId, contactPhone),
+            this.contactsService.getForFlow(tenantId, contactPhone),
+        ]);
+
+        const context = buildResponseContext(tenantId, lastExecution?.context as any, {
+            name: conversation.contactName,
+            phoneNumber: conversation.phoneNumber,
+            tags,
+            stage,
+            fields: contact || undefined,
+        });
+        const expanded: ExpandedResponse = { text: this.contextService.interpolate(response.content, context) };
+
+        if (response.mediaFileId) {
+            const media = await this.prisma.mediaFile.findFirst({ where: { id: response.mediaFileId, tenantId } });
+            if (media) {
+                expanded.mediaUrl = media.url;
+                expanded.mediaType = mediaTypeFromMime(media.mimeType);
+                expanded.fileName = media.originalName;
+            }
+        }
+
+        return expanded;
+    }
+
+    private async get(tenantId: string, id: string) {
+        const response = await this.prisma.savedResponse.findFirst({ where: { id, tenantId } });
+        if (!response) throw new NotFoundException('Saved response not found');
+        return response;
+    }
+
+    private async validate(tenantId: string, input: SavedResponseInput, id?: string) {
+        const shortcut = normalizeShortcut(input?.shortcut);
+        if (!shortcut) {
+            throw new BadRequestException('Shortcut must be 1-32 letters, numbers, "-" or "_"');
+        }
+
+        const existing = await this.findByShortcut(tenantId, shortcut);
+        if (existing && existing.id !== id) {
+            throw new ConflictException(`Shortcut /${shortcut} already exists`);
+        }
+        if (!input.title?.trim()) throw new BadRequestException('Title is required');
+        if (!input.content?.trim() && !input.mediaFileId) {
+            throw new BadRequestException('Content or media is required');
+        }
+
+        if (input.mediaFileId) {
+            const media = await this.prisma.mediaFile.findFirst({ where: { id: input.mediaFileId, tenantId } });
+            if (!media) throw new BadRequestException('Media file not found');
+        }
+
+        return {
+            shortcut,
+            title: input.title.trim(),
+            content: input.content || '',
+            mediaFileId: input.mediaFileId || null,
+        };
+    }
+}
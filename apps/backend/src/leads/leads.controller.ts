@@ -1,9 +1,13 @@
 import { Controller, Get, Post, Put, Delete, Patch, Body, Query, UseGuards, Request, Param } from '@nestjs/common';
 import { LeadsService } from './leads.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Audit } from '../audit/audit.decorator';
 
 @Controller('leads')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('settings:view')
 export class LeadsController {
     constructor(private leadsService: LeadsService) { }
 
@@ -28,16 +32,21 @@ export class LeadsController {
     }
 
     @Get('pixels')
+    @RequirePermissions('settings:view', 'workflows:edit')
     async findAllPixels(@Request() req: any) {
         return this.leadsService.findAllPixels(req.user.tenantId);
     }
 
     @Post('pixels')
+    @RequirePermissions('settings:edit')
+    @Audit('pixel.create')
     async createPixel(@Request() req: any, @Body() dto: any) {
         return this.leadsService.createPixel(req.user.tenantId, dto);
     }
 
     @Put('pixels/:id')
+    @RequirePermissions('settings:edit')
+    @Audit('pixel.update')
     async updatePixel(
         @Request() req: any,
         @Param('id') id: string,
@@ -47,11 +56,15 @@ export class LeadsController {
     }
 
     @Delete('pixels/:id')
+    @RequirePermissions('settings:edit')
+    @Audit('pixel.delete')
     async deletePixel(@Request() req: any, @Param('id') id: string) {
         return this.leadsService.deletePixel(req.user.tenantId, id);
     }
 
     @Patch('pixels/:id/default')
+    @RequirePermissions('settings:edit')
+    @Audit('pixel.set_default')
     async setDefaultPixel(@Request() req: any, @Param('id') id: string) {
         return this.leadsService.setDefaultPixel(req.user.tenantId, id);
     }
@@ -1,9 +1,13 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { VaultService, pixelOwner } from '../vault/vault.service';
 
 @Injectable()
 export class LeadsService {
-    constructor(private prisma: PrismaService) { }
+    constructor(
+        private prisma: PrismaService,
+        private vault: VaultService,
+    ) { }
 
     async getOrigins(tenantId: string, query: {
         period?: 'today' | '7d' | '30d';
@@ -129,6 +133,7 @@ export class LeadsService {
                 id: true,
                 name: true,
                 pixelId: true,
+                credentialId: true,
                 isDefault: true,
                 autoSendLead: true,
                 includeState: true,
@@ -159,7 +164,7 @@ export class LeadsService {
 
         return (this.prisma as any).tenantPixelConfig.create({
             data: {
-                ...dto,
+                ...(await this.withCredential(tenantId, dto)),
                 tenantId,
                 isDefault,
             },
@@ -167,6 +172,7 @@ export class LeadsService {
     }
 
     async updatePixel(tenantId: string, id: string, dto: any) {
+        const current = await (this.prisma as any).tenantPixelConfig.findFirst({ where: { id, tenantId } });
         if (dto.isDefault) {
             await (this.prisma as any).tenantPixelConfig.updateMany({
                 where: { tenantId, id: { not: id } },
@@ -176,7 +182,7 @@ export class LeadsService {
 
         return (this.prisma as any).tenantPixelConfig.update({
             where: { id, tenantId },
-            data: dto,
+            data: await this.withCredential(tenantId, dto, current),
         });
     }
 
@@ -203,4 +209,29 @@ export class LeadsService {
             where: { tenantId, isDefault: true },
         });
     }
+
+    /**
+     * The access token never reaches the table: a new value goes to the
+     * pixel's vault credential, otherwise an existing credential can be linked by id.
+     */
+    private async withCredential(tenantId: string, dto: any, current?: { name: string; pixelId: string; credentialId: string | null }) {
+        const { accessToken, credentialId, ...data } = dto;
+        if (accessToken?.trim()) {
+            return {
+                ...data,
+                credentialId: await this.vault.store(tenantId, {
+                    id: current?.credentialId,
+                    owner: pixelOwner(data.pixelId || current?.pixelId),
+                    name: `Pixel ${data.name || current?.name || data.pixelId}`,
+                    type: 'meta_pixel',
+                    value: accessToken,
+                }),
+            };
+        }
+        if (credentialId) {
+            await this.vault.assertOwned(tenantId, credentialId);
+            return { ...data, credentialId };
+        }
+        return data;
+    }
 }
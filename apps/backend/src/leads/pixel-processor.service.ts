@@ -3,12 +3,14 @@ import { EventBusService } from '../event-bus/event-bus.service';
 import { EventType, PixelEvent } from '@n9n/shared';
 import { createHash } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
+import { VaultService } from '../vault/vault.service';
 
 @Injectable()
 export class PixelProcessor implements OnModuleInit {
     constructor(
         private eventBus: EventBusService,
         private prisma: PrismaService,
+        private vault: VaultService,
     ) { }
 
     onModuleInit() {
@@ -22,7 +24,7 @@ export class PixelProcessor implements OnModuleInit {
     private async handlePixelEvent(event: PixelEvent) {
         const {
             pixelId,
-            accessToken,
+            credentialId,
             eventType,
             contactPhone,
             metadata,
@@ -31,6 +33,8 @@ export class PixelProcessor implements OnModuleInit {
             sessionId
         } = event;
 
+        // Events carry the credential id; the token is only decrypted here
+        const accessToken = event.accessToken || await this.vault.resolve(tenantId, credentialId);
         if (!pixelId || !accessToken) return;
 
         // 1. Prepare User Data (Hashing sensitive data as per Meta requirement)
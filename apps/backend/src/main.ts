@@ -13,8 +13,10 @@ import cookieParser from 'cookie-parser';
 import { json, urlencoded } from 'express';
 import { AppModule } from './app.module';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
+import { ApiKeysService } from './api-keys/api-keys.service';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 import { RequestIdMiddleware } from './common/middleware/request-id.middleware';
+import { RedisIoAdapter } from './websocket/redis-io.adapter';
 
 const parseOrigins = (value?: string): string[] =>
   (value || '')
@@ -64,7 +66,7 @@ async function bootstrap() {
   app.use(json({
     limit: '10mb',
     verify: (req: any, res, buf) => {
-      if (req.url.includes('/webhook')) {
+      if (req.url.includes('/webhook') || req.url.includes('/hooks/')) {
         req.rawBody = buf;
       }
     },
@@ -75,7 +77,7 @@ async function bootstrap() {
   app.use(new RequestIdMiddleware().use);
 
   // Global Guards & Interceptors
-  app.useGlobalGuards(new JwtAuthGuard(reflector));
+  app.useGlobalGuards(new JwtAuthGuard(reflector, app.get(ApiKeysService)));
   app.useGlobalInterceptors(new LoggingInterceptor());
 
   const defaultOrigins = [
@@ -134,6 +136,11 @@ async function bootstrap() {
     }),
   );
 
+  // WebSocket fan-out across replicas
+  const redisIoAdapter = new RedisIoAdapter(app);
+  await redisIoAdapter.connectToRedis();
+  app.useWebSocketAdapter(redisIoAdapter);
+
   const port = process.env.PORT || 3001;
   await app.listen(port, '0.0.0.0');
 
@@ -0,0 +1,19 @@
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import { PollService } from './poll.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Tenant } from '../auth/decorators/tenant.decorator';
+
+@Controller('polls')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('inbox:view')
+export class PollController {
+    constructor(private service: PollService) {}
+
+    /** Per-option counts and voters (each voter's latest selection) */
+    @Get(':id/results')
+    getResults(@Tenant() tenantId: string, @Param('id') id: string) {
+        return this.service.getResults(tenantId, id);
+    }
+}
@@ -0,0 +1,122 @@
+import { Injectable, Inject, NotFoundException, forwardRef } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ExecutionService } from '../execution/execution.service';
+import { ExecutionEngineService } from '../execution/execution-engine.service';
+import { ExecutionStatus, PollResults } from '@n9n/shared';
+import { resolvePollSelection, tallyPollVotes } from './poll.util';
+
+export interface SentPollInput {
+    tenantId: string;
+    sessionId: string;
+    chatJid: string;
+    messageId: string;
+    creatorJid?: string;
+    messageSecret?: string;
+    name: string;
+    options: string[];
+    selectableCount: number;
+    executionId?: string;
+    nodeId?: string;
+}
+
+@Injectable()
+export class PollService {
+    constructor(
+        private prisma: PrismaService,
+        private executionService: ExecutionService,
+        @Inject(forwardRef(() => ExecutionEngineService))
+        private executionEngine: ExecutionEngineService,
+    ) {}
+
+    /** Persist a poll we just sent, so its votes can be decrypted later */
+    async registerSentPoll(data: SentPollInput) {
+        return this.prisma.poll.create({
+            data: {
+                tenantId: data.tenantId,
+                sessionId: data.sessionId,
+                chatJid: data.chatJid,
+                messageId: data.messageId,
+                creatorJid: data.creatorJid,
+                messageSecret: data.messageSecret,
+                name: data.name,
+                options: data.options,
+                selectableCount: data.selectableCount,
+                executionId: data.executionId,
+                nodeId: data.nodeId,
+            },
+        });
+    }
+
+    findBySessionMessage(sessionId: string, messageId: string) {
+        return this.prisma.poll.findUnique({
+            where: { sessionId_messageId: { sessionId, messageId } },
+        });
+    }
+
+    /**
+     * Store a voter's latest selection (hashes from the decrypted vote) and
+     * resume the WAIT_POLL_VOTE execution waiting on this poll, if any.
+     */
+    async recordVote(pollId: string, voterJid: string, selectedHashes: Uint8Array[]): Promise<string[]> {
+        const poll = await this.prisma.poll.findUnique({ where: { id: pollId } });
+        if (!poll) throw new NotFoundException('Poll not found');
+
+        const selectedOptions = resolvePollSelection(poll.options as string[], selectedHashes);
+
+        await this.prisma.pollVote.upsert({
+            where: { pollId_voterJid: { pollId, voterJid } },
+            create: { pollId, voterJid, selectedOptions },
+            update: { selectedOptions },
+        });
+
+        // A withdrawn vote never moves a flow
+        if (poll.executionId && selectedOptions.length > 0) {
+            await this.resumeWaitingExecution(poll, selectedOptions);
+        }
+
+        return selectedOptions;
+    }
+
+    async getResults(tenantId: string, pollId: string): Promise<PollResults> {
+        const poll = await this.prisma.poll.findFirst({
+            where: { id: pollId, tenantId },
+            include: { votes: { select: { voterJid: true, selectedOptions: true } } },
+        });
+        if (!poll) throw new NotFoundException('Poll not found');
+
+        const votes = poll.votes
+            .map((v) => ({ voterJid: v.voterJid, selectedOptions: v.selectedOptions as string[] }))
+            .filter((v) => v.selectedOptions.length > 0);
+
+        return {
+            id: poll.id,
+            name: poll.name,
+            chatJid: poll.chatJid,
+            selectableCount: poll.selectableCount,
+            totalVoters: votes.length,
+            options: tallyPollVotes(poll.options as string[], votes),
+            createdAt: poll.createdAt,
+        };
+    }
+
+    private async resumeWaitingExecution(
+        poll: { id: string; tenantId: string; executionId: string | null; nodeId: string | null },
+        selectedOptions: string[],
+    ): Promise<void> {
+        const execution = await this.executionService.getExecution(poll.tenantId, poll.executionId!);
+        if (!execution || execution.status !== ExecutionStatus.WAITING || execution.currentNodeId !== poll.nodeId) {
+            return;
+        }
+
+        console.log(`[POLL] Vote on poll ${poll.id} resumes execution ${execution.id}: ${selectedOptions.join(', ')}`);
+        try {
+            await this.executionEngine.resumeExecution(execution, selectedOptions.join(', '), {
+                type: 'poll_vote',
+                pollId: poll.id,
+                selectedOptions,
+            });
+        } catch (error) {
+            console.error(`[POLL] Failed to resume execution ${execution.id}:`, error);
+        }
+    }
+}
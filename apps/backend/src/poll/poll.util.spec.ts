@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { hashPollOption, resolvePollSelection, tallyPollVotes, matchPollOption } from './poll.util';
+
+describe('poll.util', () => {
+  const options = ['Pizza', 'Hambúrguer', 'Sushi'];
+  const sha = (value: string) => new Uint8Array(createHash('sha256').update(value).digest());
+
+  it('should resolve hashed selections to option names in poll order', () => {
+    expect(hashPollOption('Pizza')).toBe(Buffer.from(sha('Pizza')).toString('hex'));
+    expect(resolvePollSelection(options, [sha('Sushi'), sha('Pizza')])).toEqual(['Pizza', 'Sushi']);
+    expect(resolvePollSelection(options, [sha('Outro')])).toEqual([]);
+    expect(resolvePollSelection(options, [])).toEqual([]);
+  });
+
+  it('should tally the latest selection of each voter', () => {
+    const results = tallyPollVotes(options, [
+      { voterJid: 'a@s.whatsapp.net', selectedOptions: ['Pizza'] },
+      { voterJid: 'b@s.whatsapp.net', selectedOptions: ['Pizza', 'Sushi'] },
+      { voterJid: 'c@s.whatsapp.net', selectedOptions: [] },
+    ]);
+
+    expect(results.map((r) => r.votes)).toEqual([2, 0, 1]);
+    expect(results[2].voters).toEqual(['b@s.whatsapp.net']);
+  });
+
+  it('should match typed replies by number or text', () => {
+    expect(matchPollOption(options, '2')).toBe(1);
+    expect(matchPollOption(options, ' sushi ')).toBe(2);
+    expect(matchPollOption(options, '4')).toBeNull();
+    expect(matchPollOption(options, '0')).toBeNull();
+    expect(matchPollOption(options, 'talvez')).toBeNull();
+    expect(matchPollOption(options, '')).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { createHash } from 'crypto';
+import { PollResultOption } from '@n9n/shared';
+
+/**
+ * WhatsApp poll votes carry the SHA-256 of each picked option name,
+ * never the name itself.
+ */
+export function hashPollOption(option: string): string {
+  return createHash('sha256').update(Buffer.from(option)).digest('hex');
+}
+
+/** Option names picked in a decrypted vote, in poll order */
+export function resolvePollSelection(options: string[], selectedHashes: Uint8Array[]): string[] {
+  const picked = new Set(selectedHashes.map((hash) => Buffer.from(hash).toString('hex')));
+  return options.filter((option) => picked.has(hashPollOption(option)));
+}
+
+/** Per-option counts from each voter's latest selection */
+export function tallyPollVotes(
+  options: string[],
+  votes: { voterJid: string; selectedOptions: string[] }[],
+): PollResultOption[] {
+  return options.map((option) => {
+    const voters = votes.filter((v) => v.selectedOptions.includes(option)).map((v) => v.voterJid);
+    return { option, votes: voters.length, voters };
+  });
+}
+
+/**
+ * Index of the option a typed reply refers to: its 1-based number or its
+ * text (case-insensitive). Null when it matches nothing.
+ */
+export function matchPollOption(options: string[], reply: string): number | null {
+  const text = (reply || '').trim().toLowerCase();
+  if (!text) return null;
+
+  if (/^\d+$/.test(text)) {
+    const index = Number(text) - 1;
+    return index >= 0 && index < options.length ? index : null;
+  }
+
+  const index = options.findIndex((option) => option.trim().toLowerCase() === text);
+  return index >= 0 ? index : null;
+}
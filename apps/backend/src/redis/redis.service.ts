@@ -85,6 +85,19 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     await this.client.del(key);
   }
 
+  /**
+   * Delete key only while it still holds `value` (atomic compare-and-delete)
+   */
+  async deleteIfEquals(key: string, value: string): Promise<boolean> {
+    const result = await this.client.eval(
+      "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+      1,
+      key,
+      value,
+    );
+    return result === 1;
+  }
+
   /**
    * Check if key exists
    */
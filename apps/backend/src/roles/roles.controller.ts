@@ -0,0 +1,49 @@
+import { Controller, Get, Post, Put, Delete, Param, Body, UseGuards, Request } from '@nestjs/common';
+import { RolesService, CustomRoleInput } from './roles.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../auth/types/roles.enum';
+import { Audit } from '../audit/audit.decorator';
+
+/** Role management stays with workspace admins: a custom role cannot grant itself more */
+@Controller('roles')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+export class RolesController {
+    constructor(private readonly rolesService: RolesService) { }
+
+    @Get()
+    async list(@Request() req: any) {
+        return this.rolesService.list(req.user.tenantId);
+    }
+
+    @Post()
+    @Audit('role.create')
+    async create(@Request() req: any, @Body() body: CustomRoleInput) {
+        return this.rolesService.create(req.user.tenantId, body);
+    }
+
+    @Get('members')
+    async listMembers(@Request() req: any) {
+        return this.rolesService.listMembers(req.user.tenantId);
+    }
+
+    @Put('members/:userId')
+    @Audit('member.assign_role', { param: 'userId' })
+    async assign(@Request() req: any, @Param('userId') userId: string, @Body('roleId') roleId?: string | null) {
+        return this.rolesService.assign(req.user.tenantId, userId, roleId || null);
+    }
+
+    @Put(':id')
+    @Audit('role.update')
+    async update(@Request() req: any, @Param('id') id: string, @Body() body: CustomRoleInput) {
+        return this.rolesService.update(req.user.tenantId, id, body);
+    }
+
+    @Delete(':id')
+    @Audit('role.delete')
+    async remove(@Request() req: any, @Param('id') id: string) {
+        return this.rolesService.remove(req.user.tenantId, id);
+    }
+}
@@ -0,0 +1,11 @@
+import { Module, Global } from '@nestjs/common';
+import { RolesController } from './roles.controller';
+import { RolesService } from './roles.service';
+
+@Global()
+@Module({
+    controllers: [RolesController],
+    providers: [RolesService],
+    exports: [RolesService],
+})
+export class RolesModule {}
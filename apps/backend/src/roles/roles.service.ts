@@ -0,0 +1,121 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { Permission } from '@n9n/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { UserRole } from '../auth/types/roles.enum';
+import { normalizePermissions, permissionsForRole } from '../auth/permissions.util';
+
+export interface CustomRoleInput {
+    name?: string;
+    description?: string | null;
+    permissions?: string[];
+}
+
+const ROLE_MEMBER = {
+    id: true,
+    email: true,
+    name: true,
+    role: true,
+    customRoleId: true,
+};
+
+/**
+ * Tenant-defined roles. Users with a custom role get exactly its permissions;
+ * ADMIN and SUPER_ADMIN always have all of them.
+ */
+@Injectable()
+export class RolesService {
+    constructor(private prisma: PrismaService) { }
+
+    async list(tenantId: string) {
+        return this.prisma.customRole.findMany({
+            where: { tenantId },
+            include: { _count: { select: { users: true } } },
+            orderBy: { name: 'asc' },
+        });
+    }
+
+    async create(tenantId: string, input: CustomRoleInput) {
+        const data = this.validateRole(input);
+        await this.assertNameFree(tenantId, data.name);
+        return this.prisma.customRole.create({ data: { tenantId, ...data } });
+    }
+
+    async update(tenantId: string, id: string, input: CustomRoleInput) {
+        const role = await this.getRole(tenantId, id);
+        const data = this.validateRole(input);
+        if (data.name !== role.name) await this.assertNameFree(tenantId, data.name);
+        return this.prisma.customRole.update({ where: { id }, data });
+    }
+
+    /** Members fall back to their built-in role */
+    async remove(tenantId: string, id: string) {
+        await this.getRole(tenantId, id);
+        await this.prisma.customRole.delete({ where: { id } });
+        return { success: true };
+    }
+
+    async listMembers(tenantId: string) {
+        return this.prisma.user.findMany({
+            where: { tenantId },
+            select: ROLE_MEMBER,
+            orderBy: { email: 'asc' },
+        });
+    }
+
+    /** Pass null to return the user to the built-in access of their role */
+    async assign(tenantId: string, userId: string, roleId: string | null) {
+        const user = await this.prisma.user.findFirst({ where: { id: userId, tenantId }, select: ROLE_MEMBER });
+        if (!user) throw new NotFoundException('User not found');
+
+        if (roleId) {
+            if (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN) {
+                throw new BadRequestException('Admins always have every permission');
+            }
+            await this.getRole(tenantId, roleId);
+        }
+
+        return this.prisma.user.update({
+            where: { id: userId },
+            data: { customRoleId: roleId || null },
+            select: ROLE_MEMBER,
+        });
+    }
+
+    /**
+     * Effective permissions of an authenticated user. A role from another
+     * tenant grants nothing.
+     */
+    async permissionsFor(user: { role: string; tenantId: string; customRoleId?: string | null }): Promise<Permission[]> {
+        if (!user.customRoleId || user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN) {
+            return permissionsForRole(user.role);
+        }
+
+        const role = await this.prisma.customRole.findFirst({
+            where: { id: user.customRoleId, tenantId: user.tenantId },
+            select: { permissions: true },
+        });
+        return permissionsForRole(user.role, role?.permissions || []);
+    }
+
+    private async getRole(tenantId: string, id: string) {
+        const role = await this.prisma.customRole.findFirst({ where: { id, tenantId } });
+        if (!role) throw new NotFoundException('Role not found');
+        return role;
+    }
+
+    private async assertNameFree(tenantId: string, name: string) {
+        const existing = await this.prisma.customRole.findUnique({ where: { tenantId_name: { tenantId, name } } });
+        if (existing) throw new ConflictException(`Role "${name}" already exists`);
+    }
+
+    private validateRole(input: CustomRoleInput) {
+        const name = input?.name?.trim();
+        if (!name) throw new BadRequestException('Name is required');
+
+        return {
+            name,
+            description: input.description?.trim() || null,
+            permissions: normalizePermissions(input.permissions),
+        };
+    }
+}
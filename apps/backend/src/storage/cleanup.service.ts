@@ -64,7 +64,8 @@ export class CleanupService {
    *  2. Files whose workflowId points to a workflow/campaign that still exists
    *     AND whose ID is referenced (recursively) somewhere in that workflow's
    *     nodes are kept.
-   *  3. Everything else (no workflowId, workflow deleted, no node references)
+   *  3. Files attached to an inbox saved response are kept.
+   *  4. Everything else (no workflowId, workflow deleted, no node references)
    *     is deleted from MinIO and from the DB.
    */
   async cleanupOrphanedMedia(): Promise<{ deleted: number; skipped: number; errors: number }> {
@@ -85,6 +86,12 @@ export class CleanupService {
         },
       });
 
+      const savedResponses = await this.prisma.savedResponse.findMany({
+        where: { mediaFileId: { not: null } },
+        select: { mediaFileId: true },
+      });
+      const savedResponseMedia = new Set(savedResponses.map((r) => r.mediaFileId));
+
       // Group files by workflowId so we query each workflow only once
       const byWorkflow = new Map<string, typeof mediaFiles>();
       const noWorkflow: typeof mediaFiles = [];
@@ -96,6 +103,11 @@ export class CleanupService {
           continue;
         }
 
+        if (savedResponseMedia.has(media.id)) {
+          skipped++;
+          continue;
+        }
+
         if (!media.workflowId) {
           noWorkflow.push(media);
         } else {
@@ -118,7 +130,7 @@ export class CleanupService {
         const [regularWf, campaignWf] = await Promise.all([
           this.prisma.workflow.findUnique({
             where: { id: workflowId },
-            select: { nodes: true },
+            select: { nodes: true, draftNodes: true, versions: { select: { nodes: true } } },
           }).catch(() => null),
           this.prisma.campaignWorkflow.findUnique({
             where: { campaignId: workflowId },
@@ -139,7 +151,12 @@ export class CleanupService {
 
         // Workflow exists → collect all referenced IDs (recursive, any depth)
         const usedIds = new Set<string>();
-        const nodes = (workflow.nodes ?? []) as any[];
+        // Regular workflows also keep files used by the draft and by older versions
+        const nodes = [
+          ...((workflow.nodes ?? []) as any[]),
+          ...((regularWf?.draftNodes ?? []) as any[]),
+          ...(regularWf?.versions ?? []).flatMap((v) => (v.nodes ?? []) as any[]),
+        ];
         for (const node of nodes) {
           this.collectMediaIds(node.config, usedIds);
         }
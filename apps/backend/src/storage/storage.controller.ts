@@ -18,6 +18,7 @@ import { StorageService } from './storage.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { Public } from '../auth/decorators/public.decorator';
+import { Audit } from '../audit/audit.decorator';
 
 // File size limits per media type (in bytes)
 const SIZE_LIMITS: Record<string, number> = {
@@ -52,6 +53,7 @@ export class StorageController {
   @Post('upload')
   @UseGuards(JwtAuthGuard)
   @UseInterceptors(FileInterceptor('file', { limits: { fileSize: 50 * 1024 * 1024 } }))
+  @Audit('media.upload')
   async uploadMedia(
     @UploadedFile() file: any,
     @Query('tenantId') tenantId: string,
@@ -132,6 +134,7 @@ export class StorageController {
    */
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
+  @Audit('media.delete')
   async deleteMedia(
     @Param('id') id: string,
     @Query('tenantId') tenantId: string,
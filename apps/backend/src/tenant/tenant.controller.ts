@@ -12,12 +12,13 @@ import {
 } from '@nestjs/common';
 import { TenantService, CreateTenantDto, UpdateTenantDto } from './tenant.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { UserRole } from '../auth/types/roles.enum';
+import { Audit } from '../audit/audit.decorator';
 
 @Controller('admin/tenants')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @Roles(UserRole.SUPER_ADMIN)
 export class TenantController {
   constructor(private readonly tenantService: TenantService) { }
@@ -34,17 +35,20 @@ export class TenantController {
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @Audit('tenant.create')
   create(@Body() createTenantDto: CreateTenantDto) {
     return this.tenantService.create(createTenantDto);
   }
 
   @Put(':id')
+  @Audit('tenant.update')
   update(@Param('id') id: string, @Body() updateTenantDto: UpdateTenantDto) {
     return this.tenantService.update(id, updateTenantDto);
   }
 
   @Delete(':id')
   @HttpCode(HttpStatus.OK)
+  @Audit('tenant.delete')
   remove(@Param('id') id: string) {
     return this.tenantService.remove(id);
   }
@@ -12,13 +12,14 @@ import {
 } from '@nestjs/common';
 import { UserService, CreateUserDto, UpdateUserDto } from './user.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/user.decorator';
 import { UserRole } from '../auth/types/roles.enum';
+import { Audit } from '../audit/audit.decorator';
 
 @Controller('admin/users')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class UserController {
   constructor(private readonly userService: UserService) { }
 
@@ -37,12 +38,14 @@ export class UserController {
   @Post()
   @Roles(UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.CREATED)
+  @Audit('member.create')
   create(@Body() createUserDto: CreateUserDto, @CurrentUser() user: any) {
     return this.userService.create(createUserDto, user.role);
   }
 
   @Put(':id')
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @Audit('member.update')
   update(
     @Param('id') id: string,
     @Body() updateUserDto: UpdateUserDto,
@@ -54,6 +57,7 @@ export class UserController {
   @Delete(':id')
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
   @HttpCode(HttpStatus.OK)
+  @Audit('member.delete')
   remove(@Param('id') id: string, @CurrentUser() user: any) {
     return this.userService.remove(id, user.role, user.tenantId);
   }
@@ -66,6 +70,7 @@ export class UserController {
 
   @Put(':id/license')
   @Roles(UserRole.SUPER_ADMIN)
+  @Audit('license.update')
   updateLicense(
     @Param('id') id: string,
     @Body() body: any,
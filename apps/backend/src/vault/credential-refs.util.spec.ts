@@ -0,0 +1,34 @@
+import { moveInlineSecrets, stripCredentialRefs } from './credential-refs.util';
+
+describe('credential-refs.util', () => {
+    const nodes = [
+        { id: 'ocr', type: 'AI_OCR_PIX', config: { model: 'm', apiKey: 'sk-1', fallbackApiKey: ' sk-2 ' } },
+        { id: 'pixel', type: 'PIXEL_EVENT', config: { pixelConfigId: 'px', pixelId: '123', accessToken: '{{variables.token}}' } },
+        { id: 'msg', type: 'SEND_MESSAGE', config: { message: 'oi' } },
+    ];
+
+    it('should move literal secrets to credential references', async () => {
+        const stored: string[] = [];
+        const { nodes: result, moved } = await moveInlineSecrets(nodes, async (s) => {
+            stored.push(`${s.nodeId}.${s.field}=${s.value}`);
+            return `cred-${stored.length}`;
+        });
+
+        expect(moved).toBe(2);
+        expect(stored).toEqual(['ocr.apiKey=sk-1', 'ocr.fallbackApiKey=sk-2']);
+        expect(result[0].config).toEqual({ model: 'm', credentialId: 'cred-1', fallbackCredentialId: 'cred-2' });
+        expect(result[1].config.accessToken).toBe('{{variables.token}}');
+        expect(result[2]).toBe(nodes[2]);
+    });
+
+    it('should strip credential references and secrets for sharing', () => {
+        const result = stripCredentialRefs([
+            { id: 'ocr', type: 'AI_OCR_PIX', config: { model: 'm', credentialId: 'c1', apiKey: 'sk-1' } },
+            ...nodes.slice(1),
+        ]);
+
+        expect(result[0].config).toEqual({ model: 'm' });
+        expect(result[1].config).toEqual({ pixelId: '123', accessToken: '{{variables.token}}' });
+        expect(result[2]).toBe(nodes[2]);
+    });
+});
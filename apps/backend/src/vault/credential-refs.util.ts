@@ -0,0 +1,92 @@
+import { WorkflowNodeType } from '@n9n/shared';
+
+/**
+ * Node config fields that used to hold a secret inline, and the field that
+ * now references its vault credential instead.
+ */
+export const NODE_CREDENTIAL_FIELDS: Partial<Record<WorkflowNodeType, { secret: string; ref: string; type: string }[]>> = {
+    [WorkflowNodeType.AI_OCR_PIX]: [
+        { secret: 'apiKey', ref: 'credentialId', type: 'openrouter' },
+        { secret: 'fallbackApiKey', ref: 'fallbackCredentialId', type: 'openrouter' },
+    ],
+    [WorkflowNodeType.PIXEL_EVENT]: [
+        { secret: 'accessToken', ref: 'credentialId', type: 'meta_pixel' },
+    ],
+};
+
+/** Other tenant-scoped references that point at a stored secret */
+const NODE_SECRET_HOLDER_REFS: Partial<Record<WorkflowNodeType, string[]>> = {
+    [WorkflowNodeType.PIXEL_EVENT]: ['pixelConfigId'],
+};
+
+export interface InlineSecret {
+    nodeId: string;
+    nodeType: string;
+    field: string;
+    type: string;
+    value: string;
+}
+
+/** Literal values only: {{templates}} resolve at run time and are not secrets */
+function isLiteralSecret(value: unknown): value is string {
+    return typeof value === 'string' && value.trim() !== '' && !value.includes('{{');
+}
+
+/**
+ * Move literal secrets out of node configs. `store` saves each one in the
+ * vault and returns the credential id written in its place.
+ */
+export async function moveInlineSecrets(
+    nodes: any[],
+    store: (secret: InlineSecret) => Promise<string>,
+): Promise<{ nodes: any[]; moved: number }> {
+    let moved = 0;
+    const result: any[] = [];
+
+    for (const node of nodes || []) {
+        const fields = NODE_CREDENTIAL_FIELDS[node?.type as WorkflowNodeType];
+        if (!fields || !node.config) {
+            result.push(node);
+            continue;
+        }
+
+        const config = { ...node.config };
+        for (const field of fields) {
+            if (!isLiteralSecret(config[field.secret])) continue;
+            config[field.ref] = await store({
+                nodeId: node.id,
+                nodeType: node.type,
+                field: field.secret,
+                type: field.type,
+                value: config[field.secret].trim(),
+            });
+            delete config[field.secret];
+            moved++;
+        }
+        result.push({ ...node, config });
+    }
+
+    return { nodes: result, moved };
+}
+
+/**
+ * Node configs as they may leave the tenant (shared links, imports):
+ * credential references and any inline secret are removed.
+ */
+export function stripCredentialRefs(nodes: any[]): any[] {
+    return (nodes || []).map((node) => {
+        const type = node?.type as WorkflowNodeType;
+        const fields = NODE_CREDENTIAL_FIELDS[type];
+        if (!fields || !node.config) return node;
+
+        const config = { ...node.config };
+        for (const field of fields) {
+            delete config[field.ref];
+            if (isLiteralSecret(config[field.secret])) delete config[field.secret];
+        }
+        for (const ref of NODE_SECRET_HOLDER_REFS[type] || []) {
+            delete config[ref];
+        }
+        return { ...node, config };
+    });
+}
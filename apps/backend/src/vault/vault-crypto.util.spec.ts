@@ -0,0 +1,43 @@
+import { randomBytes } from 'crypto';
+import { parseMasterKey, loadMasterKeyring, sealSecret, openSecret, rewrapSecret, secretHint } from './vault-crypto.util';
+
+describe('vault-crypto.util', () => {
+    const oldKey = randomBytes(32).toString('hex');
+    const newKey = randomBytes(32).toString('base64');
+
+    it('should parse hex and base64 master keys', () => {
+        expect(parseMasterKey(oldKey)).toHaveLength(32);
+        expect(parseMasterKey(newKey)).toHaveLength(32);
+        expect(() => parseMasterKey('short')).toThrow('32 bytes');
+        expect(loadMasterKeyring({})).toBeNull();
+    });
+
+    it('should seal and open a secret bound to its tenant', () => {
+        const keyring = loadMasterKeyring({ key: oldKey })!;
+        const sealed = sealSecret('sk-or-123456789', keyring, 'tenant-a');
+
+        expect(sealed.keyId).toBe('v1');
+        expect(sealed.ciphertext).not.toContain('sk-or');
+        expect(openSecret(sealed, keyring, 'tenant-a')).toBe('sk-or-123456789');
+        expect(() => openSecret(sealed, keyring, 'tenant-b')).toThrow();
+    });
+
+    it('should re-wrap data keys on rotation without touching the ciphertext', () => {
+        const before = loadMasterKeyring({ key: oldKey, keyId: 'v1' })!;
+        const sealed = sealSecret('token', before, 'tenant-a');
+
+        const after = loadMasterKeyring({ key: newKey, keyId: 'v2', previous: `v1:${oldKey}` })!;
+        const rotated = rewrapSecret(sealed, after);
+
+        expect(rotated.keyId).toBe('v2');
+        expect(rotated.ciphertext).toBe(sealed.ciphertext);
+        expect(rotated.encryptedKey).not.toBe(sealed.encryptedKey);
+        expect(openSecret(rotated, loadMasterKeyring({ key: newKey, keyId: 'v2' })!, 'tenant-a')).toBe('token');
+        expect(() => openSecret(sealed, loadMasterKeyring({ key: newKey, keyId: 'v2' })!, 'tenant-a')).toThrow('"v1" is not configured');
+    });
+
+    it('should only show the last characters as hint', () => {
+        expect(secretHint('EAAGm0PX4ZCpsBAabcd')).toBe('••••abcd');
+        expect(secretHint('short')).toBe('••••');
+    });
+});
@@ -0,0 +1,115 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * Envelope encryption for tenant credentials (AES-256-GCM).
+ * Each secret gets its own random data key; the data key is wrapped by a
+ * master key from env. Rotating the master key only re-wraps data keys.
+ */
+
+export interface MasterKey {
+    id: string;
+    key: Buffer;
+}
+
+export interface MasterKeyring {
+    current: MasterKey;
+    keys: Map<string, Buffer>;
+}
+
+export interface SealedSecret {
+    ciphertext: string;
+    encryptedKey: string;
+    keyId: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/** Accepts 64 hex chars or base64 of 32 bytes */
+export function parseMasterKey(raw: string): Buffer {
+    const value = (raw || '').trim();
+    const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+    if (key.length !== 32) {
+        throw new Error('Master key must be 32 bytes (64 hex chars or base64)');
+    }
+    return key;
+}
+
+/**
+ * Current key plus previous ones ("id:key,id:key") still needed to open
+ * data keys wrapped before a rotation. Null when no current key is set.
+ */
+export function loadMasterKeyring(env: { key?: string; keyId?: string; previous?: string }): MasterKeyring | null {
+    if (!env.key) return null;
+
+    const current: MasterKey = { id: env.keyId?.trim() || 'v1', key: parseMasterKey(env.key) };
+    const keys = new Map<string, Buffer>();
+
+    for (const entry of (env.previous || '').split(',').map((e) => e.trim()).filter(Boolean)) {
+        const separator = entry.indexOf(':');
+        if (separator <= 0) throw new Error(`Invalid previous master key entry "${entry.slice(0, 8)}…"`);
+        keys.set(entry.slice(0, separator), parseMasterKey(entry.slice(separator + 1)));
+    }
+    keys.set(current.id, current.key);
+
+    return { current, keys };
+}
+
+function encrypt(key: Buffer, plaintext: Buffer, aad?: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    if (aad) cipher.setAAD(Buffer.from(aad));
+    const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return [iv, cipher.getAuthTag(), data].map((b) => b.toString('base64')).join('.');
+}
+
+function decrypt(key: Buffer, payload: string, aad?: string): Buffer {
+    const [iv, tag, data] = (payload || '').split('.').map((p) => Buffer.from(p, 'base64'));
+    if (!iv || !tag || !data) throw new Error('Malformed encrypted payload');
+
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    if (aad) decipher.setAAD(Buffer.from(aad));
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+function masterKeyFor(keyring: MasterKeyring, keyId: string): Buffer {
+    const key = keyring.keys.get(keyId);
+    if (!key) throw new Error(`Master key "${keyId}" is not configured`);
+    return key;
+}
+
+/**
+ * Encrypt a secret under a fresh data key. `aad` (the tenant id) binds the
+ * ciphertext to its owner so rows cannot be swapped between tenants.
+ */
+export function sealSecret(plaintext: string, keyring: MasterKeyring, aad?: string): SealedSecret {
+    const dataKey = randomBytes(32);
+    return {
+        ciphertext: encrypt(dataKey, Buffer.from(plaintext, 'utf8'), aad),
+        encryptedKey: encrypt(keyring.current.key, dataKey),
+        keyId: keyring.current.id,
+    };
+}
+
+export function openSecret(sealed: SealedSecret, keyring: MasterKeyring, aad?: string): string {
+    const dataKey = decrypt(masterKeyFor(keyring, sealed.keyId), sealed.encryptedKey);
+    return decrypt(dataKey, sealed.ciphertext, aad).toString('utf8');
+}
+
+/** Re-wrap the data key under the current master key; the ciphertext is untouched */
+export function rewrapSecret(sealed: SealedSecret, keyring: MasterKeyring): SealedSecret {
+    if (sealed.keyId === keyring.current.id) return sealed;
+    const dataKey = decrypt(masterKeyFor(keyring, sealed.keyId), sealed.encryptedKey);
+    return {
+        ciphertext: sealed.ciphertext,
+        encryptedKey: encrypt(keyring.current.key, dataKey),
+        keyId: keyring.current.id,
+    };
+}
+
+/** Last characters for display, e.g. "••••a1b2" */
+export function secretHint(plaintext: string): string {
+    const value = (plaintext || '').trim();
+    return value.length > 8 ? `••••${value.slice(-4)}` : '••••';
+}
@@ -0,0 +1,50 @@
+import { Controller, Get, Post, Patch, Delete, Param, Body, Query, UseGuards, Request } from '@nestjs/common';
+import { VaultService, CredentialInput } from './vault.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Audit } from '../audit/audit.decorator';
+import { UserRole } from '../auth/types/roles.enum';
+
+@Controller('credentials')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('credentials:view')
+export class VaultController {
+    constructor(private readonly vaultService: VaultService) { }
+
+    /** Names, types and hints only — values are never returned */
+    @Get()
+    async list(@Request() req: any, @Query('type') type?: string) {
+        return this.vaultService.list(req.user.tenantId, type);
+    }
+
+    @Post()
+    @RequirePermissions('credentials:edit')
+    @Audit('credential.create')
+    async create(@Request() req: any, @Body() body: CredentialInput) {
+        return this.vaultService.create(req.user.tenantId, body);
+    }
+
+    /** Re-wrap all data keys under the current master key */
+    @Post('rotate')
+    @Roles(UserRole.SUPER_ADMIN)
+    @Audit('credential.rotate_master_key')
+    async rotate() {
+        return this.vaultService.rotate();
+    }
+
+    @Patch(':id')
+    @RequirePermissions('credentials:edit')
+    @Audit('credential.update')
+    async update(@Request() req: any, @Param('id') id: string, @Body() body: CredentialInput) {
+        return this.vaultService.update(req.user.tenantId, id, body);
+    }
+
+    @Delete(':id')
+    @RequirePermissions('credentials:edit')
+    @Audit('credential.delete')
+    async remove(@Request() req: any, @Param('id') id: string) {
+        return this.vaultService.remove(req.user.tenantId, id);
+    }
+}
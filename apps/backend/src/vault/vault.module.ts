@@ -0,0 +1,11 @@
+import { Module, Global } from '@nestjs/common';
+import { VaultController } from './vault.controller';
+import { VaultService } from './vault.service';
+
+@Global()
+@Module({
+    controllers: [VaultController],
+    providers: [VaultService],
+    exports: [VaultService],
+})
+export class VaultModule {}
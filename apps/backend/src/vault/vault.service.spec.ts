@@ -0,0 +1,132 @@
+import { randomBytes } from 'crypto';
+import { ConflictException } from '@nestjs/common';
+import { VaultService, apiConfigOwner } from './vault.service';
+
+describe('VaultService', () => {
+    const env = { ...process.env };
+    let prisma: {
+        credential: { findFirst: jest.Mock; create: jest.Mock; update: jest.Mock; delete: jest.Mock };
+        tenantApiConfig: { findMany: jest.Mock; update: jest.Mock; count: jest.Mock };
+        tenantPixelConfig: { findMany: jest.Mock; update: jest.Mock; count: jest.Mock };
+        $queryRaw: jest.Mock;
+    };
+    let redis: { acquireLock: jest.Mock; releaseLock: jest.Mock };
+    let service: VaultService;
+
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    beforeEach(() => {
+        process.env.VAULT_MASTER_KEY = randomBytes(32).toString('hex');
+        prisma = {
+            credential: {
+                findFirst: jest.fn().mockResolvedValue(null),
+                create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'cred-new', ...data })),
+                update: jest.fn().mockResolvedValue({}),
+                delete: jest.fn().mockResolvedValue({}),
+            },
+            tenantApiConfig: { findMany: jest.fn().mockResolvedValue([]), update: jest.fn(), count: jest.fn().mockResolvedValue(0) },
+            tenantPixelConfig: { findMany: jest.fn().mockResolvedValue([]), update: jest.fn(), count: jest.fn().mockResolvedValue(0) },
+            $queryRaw: jest.fn().mockResolvedValue([]),
+        };
+        redis = { acquireLock: jest.fn().mockResolvedValue(true), releaseLock: jest.fn().mockResolvedValue(undefined) };
+        service = new VaultService(prisma as any, redis as any);
+    });
+
+    afterEach(() => {
+        process.env = { ...env };
+    });
+
+    describe('store', () => {
+        it('should overwrite a credential created for the same owner', async () => {
+            prisma.credential.findFirst.mockResolvedValue({ id: 'cred-1' });
+
+            const id = await service.store('tenant-1', {
+                id: 'cred-1', owner: apiConfigOwner('shopee'), name: 'API shopee', type: 'shopee', value: 'secret-2',
+            });
+
+            expect(id).toBe('cred-1');
+            expect(prisma.credential.findFirst).toHaveBeenCalledWith({
+                where: { id: 'cred-1', tenantId: 'tenant-1', owner: 'api_config:shopee' },
+                select: { id: true },
+            });
+            expect(prisma.credential.update).toHaveBeenCalledWith({ where: { id: 'cred-1' }, data: expect.any(Object) });
+            expect(prisma.credential.create).not.toHaveBeenCalled();
+        });
+
+        it('should create a new credential instead of overwriting one it does not own', async () => {
+            const id = await service.store('tenant-1', {
+                id: 'cred-shared', owner: apiConfigOwner('shopee'), name: 'API shopee', type: 'shopee', value: 'secret-2',
+            });
+
+            expect(id).toBe('cred-new');
+            expect(prisma.credential.update).not.toHaveBeenCalled();
+            expect(prisma.credential.create.mock.calls[0][0].data).toEqual(expect.objectContaining({
+                tenantId: 'tenant-1', owner: 'api_config:shopee', hint: expect.any(String),
+            }));
+        });
+
+        it('should never look up an existing credential without an owner', async () => {
+            await service.store('tenant-1', { id: 'cred-1', name: 'HTTP_REQUEST token', type: 'generic', value: 'abc123456' });
+
+            expect(prisma.credential.findFirst).not.toHaveBeenCalled();
+            expect(prisma.credential.create.mock.calls[0][0].data.owner).toBeNull();
+        });
+    });
+
+    it('should resolve stored values for their tenant only', async () => {
+        await service.store('tenant-1', { name: 'token', type: 'generic', value: ' sk-123456789 ' });
+        const sealed = prisma.credential.create.mock.calls[0][0].data;
+        expect(JSON.stringify(sealed)).not.toContain('sk-123456789');
+
+        prisma.credential.findFirst.mockResolvedValueOnce(sealed);
+        await expect(service.resolve('tenant-1', 'cred-new')).resolves.toBe('sk-123456789');
+        expect(prisma.credential.findFirst).toHaveBeenCalledWith({ where: { id: 'cred-new', tenantId: 'tenant-1' } });
+
+        await expect(service.resolve('tenant-2', 'cred-new')).resolves.toBeNull();
+    });
+
+    it('should refuse to delete a credential an integration still uses', async () => {
+        prisma.credential.findFirst.mockResolvedValue({ id: 'cred-1' });
+        prisma.tenantPixelConfig.count.mockResolvedValue(1);
+
+        await expect(service.remove('tenant-1', 'cred-1')).rejects.toThrow(ConflictException);
+        expect(prisma.credential.delete).not.toHaveBeenCalled();
+    });
+
+    describe('startup migration', () => {
+        it('should run under the migration lock and release it', async () => {
+            service.onModuleInit();
+            await flush();
+
+            expect(redis.acquireLock).toHaveBeenCalledWith('vault:migrate-plaintext', expect.any(Number));
+            expect(prisma.tenantApiConfig.findMany).toHaveBeenCalled();
+            expect(prisma.$queryRaw).toHaveBeenCalledTimes(3);
+            expect(redis.releaseLock).toHaveBeenCalledWith('vault:migrate-plaintext');
+        });
+
+        it('should be skipped while another replica holds the lock', async () => {
+            redis.acquireLock.mockResolvedValue(false);
+
+            service.onModuleInit();
+            await flush();
+
+            expect(prisma.tenantApiConfig.findMany).not.toHaveBeenCalled();
+            expect(redis.releaseLock).not.toHaveBeenCalled();
+        });
+
+        it('should move a plaintext API secret into a credential owned by the config', async () => {
+            prisma.tenantApiConfig.findMany.mockResolvedValue([
+                { id: 'cfg-1', tenantId: 'tenant-1', provider: 'shopee', secret: 'plain', credentialId: null },
+            ]);
+
+            service.onModuleInit();
+            await flush();
+
+            expect(prisma.credential.create.mock.calls[0][0].data.owner).toBe('api_config:shopee');
+            expect(prisma.tenantApiConfig.update).toHaveBeenCalledWith({
+                where: { id: 'cfg-1' },
+                data: { credentialId: 'cred-new', secret: '' },
+            });
+        });
+    });
+});
@@ -0,0 +1,320 @@
+import { Injectable, OnModuleInit, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { MasterKeyring, loadMasterKeyring, sealSecret, openSecret, rewrapSecret, secretHint } from './vault-crypto.util';
+import { NODE_CREDENTIAL_FIELDS, moveInlineSecrets } from './credential-refs.util';
+
+export const CREDENTIAL_TYPES = ['shopee', 'pushcut', 'openrouter', 'meta_pixel', 'generic'];
+
+/** Owners of credentials created by an integration, see store() */
+export const apiConfigOwner = (provider: string) => `api_config:${provider}`;
+export const pixelOwner = (pixelId: string) => `pixel:${pixelId}`;
+
+export interface CredentialInput {
+    name?: string;
+    type?: string;
+    value?: string;
+}
+
+const CREDENTIAL_SUMMARY = {
+    id: true,
+    name: true,
+    type: true,
+    hint: true,
+    keyId: true,
+    createdAt: true,
+    updatedAt: true,
+};
+
+const MIGRATION_LOCK_KEY = 'vault:migrate-plaintext';
+const MIGRATION_LOCK_TTL_SECONDS = 600;
+
+/** Node configs with a non-empty, non-template value in one of the secret fields */
+const INLINE_SECRET_PATTERN = `"(${[...new Set(Object.values(NODE_CREDENTIAL_FIELDS).flat().map((f) => f.secret))].join('|')})"\\s*:\\s*"[^"{]`;
+
+/**
+ * Tenant secrets encrypted at rest. Values are only decrypted server-side
+ * through resolve(); the API never returns them.
+ *
+ * Env: VAULT_MASTER_KEY (32 bytes, hex or base64), VAULT_MASTER_KEY_ID
+ * (default "v1") and VAULT_PREVIOUS_MASTER_KEYS ("id:key,...") during rotation.
+ */
+@Injectable()
+export class VaultService implements OnModuleInit {
+    private readonly keyring: MasterKeyring | null;
+
+    constructor(
+        private prisma: PrismaService,
+        private redis: RedisService,
+    ) {
+        this.keyring = loadMasterKeyring({
+            key: process.env.VAULT_MASTER_KEY,
+            keyId: process.env.VAULT_MASTER_KEY_ID,
+            previous: process.env.VAULT_PREVIOUS_MASTER_KEYS,
+        });
+    }
+
+    onModuleInit() {
+        if (!this.keyring) {
+            console.warn('[VAULT] VAULT_MASTER_KEY is not set: credentials cannot be stored or read');
+            return;
+        }
+        this.runPlaintextMigration().catch((err) =>
+            console.error('[VAULT] Error moving plaintext secrets to the vault:', err.message),
+        );
+    }
+
+    async list(tenantId: string, type?: string) {
+        return this.prisma.credential.findMany({
+            where: { tenantId, ...(type ? { type } : {}) },
+            orderBy: { name: 'asc' },
+            select: CREDENTIAL_SUMMARY,
+        });
+    }
+
+    async create(tenantId: string, input: CredentialInput) {
+        const name = input?.name?.trim();
+        if (!name) throw new BadRequestException('Name is required');
+        if (!input.value?.trim()) throw new BadRequestException('Value is required');
+
+        return this.prisma.credential.create({
+            data: { tenantId, name, type: this.validateType(input.type), ...this.seal(tenantId, input.value) },
+            select: CREDENTIAL_SUMMARY,
+        });
+    }
+
+    /** The value is replaced only when a new one is sent */
+    async update(tenantId: string, id: string, input: CredentialInput) {
+        await this.getCredential(tenantId, id);
+        const name = input?.name?.trim();
+
+        return this.prisma.credential.update({
+            where: { id },
+            data: {
+                ...(name ? { name } : {}),
+                ...(input?.type ? { type: this.validateType(input.type) } : {}),
+                ...(input?.value?.trim() ? this.seal(tenantId, input.value) : {}),
+            },
+            select: CREDENTIAL_SUMMARY,
+        });
+    }
+
+    async remove(tenantId: string, id: string) {
+        await this.getCredential(tenantId, id);
+
+        const [apiConfigs, pixels] = await Promise.all([
+            this.prisma.tenantApiConfig.count({ where: { tenantId, credentialId: id } }),
+            this.prisma.tenantPixelConfig.count({ where: { tenantId, credentialId: id } }),
+        ]);
+        if (apiConfigs || pixels) {
+            throw new ConflictException('Credential is in use by an API integration or pixel');
+        }
+
+        await this.prisma.credential.delete({ where: { id } });
+        return { success: true };
+    }
+
+    /** Decrypted value, or null when the credential does not exist in the tenant */
+    async resolve(tenantId: string | null | undefined, id: string | null | undefined): Promise<string | null> {
+        if (!tenantId || !id) return null;
+        const credential = await this.prisma.credential.findFirst({ where: { id, tenantId } });
+        if (!credential) return null;
+        return openSecret(credential, this.requireKeyring(), tenantId);
+    }
+
+    /**
+     * Write a value into the credential `id` when it was created for the same
+     * owner (e.g. "api_config:shopee"), otherwise create a new one. A credential
+     * picked from Credenciais or created for another integration is never overwritten.
+     */
+    async store(tenantId: string, input: { id?: string | null; owner?: string; name: string; type: string; value: string }): Promise<string> {
+        const sealed = this.seal(tenantId, input.value);
+        const owner = input.owner ?? null;
+        const existing = input.id && owner
+            ? await this.prisma.credential.findFirst({ where: { id: input.id, tenantId, owner }, select: { id: true } })
+            : null;
+
+        if (existing) {
+            await this.prisma.credential.update({ where: { id: existing.id }, data: sealed });
+            return existing.id;
+        }
+
+        const credential = await this.prisma.credential.create({
+            data: { tenantId, name: input.name, type: input.type, owner, ...sealed },
+        });
+        return credential.id;
+    }
+
+    /** Throws when the id is not a credential of the tenant */
+    async assertOwned(tenantId: string, id: string) {
+        await this.getCredential(tenantId, id);
+    }
+
+    /**
+     * Replace literal secrets in node configs with credential references.
+     * `cache` reuses one credential per distinct value within a tenant.
+     */
+    async moveNodeSecrets(tenantId: string, nodes: any[], cache = new Map<string, string>()) {
+        return moveInlineSecrets(nodes, async (secret) => {
+            const cacheKey = `${secret.type}:${secret.value}`;
+            if (!cache.has(cacheKey)) {
+                cache.set(cacheKey, await this.store(tenantId, {
+                    name: `${secret.nodeType} ${secret.field}`,
+                    type: secret.type,
+                    value: secret.value,
+                }));
+            }
+            return cache.get(cacheKey)!;
+        });
+    }
+
+    /**
+     * Re-wrap every data key still under a previous master key. Run after
+     * deploying a new VAULT_MASTER_KEY with the old one in VAULT_PREVIOUS_MASTER_KEYS.
+     */
+    async rotate() {
+        const keyring = this.requireKeyring();
+        const credentials = await this.prisma.credential.findMany({
+            where: { keyId: { not: keyring.current.id } },
+        });
+
+        let rotated = 0;
+        const failed: string[] = [];
+        for (const credential of credentials) {
+            try {
+                const { encryptedKey, keyId } = rewrapSecret(credential, keyring);
+                await this.prisma.credential.update({ where: { id: credential.id }, data: { encryptedKey, keyId } });
+                rotated++;
+            } catch (err: any) {
+                console.error(`[VAULT] Could not rotate credential ${credential.id}:`, err.message);
+                failed.push(credential.id);
+            }
+        }
+
+        console.log(`[VAULT] Rotated ${rotated} credential(s) to master key "${keyring.current.id}"`);
+        return { keyId: keyring.current.id, rotated, failed };
+    }
+
+    // ── Startup migration ────────────────────────────────────────────────────
+
+    /** One replica at a time; the others skip it while the lock is held */
+    private async runPlaintextMigration() {
+        const locked = await this.redis.acquireLock(MIGRATION_LOCK_KEY, MIGRATION_LOCK_TTL_SECONDS);
+        if (!locked) return;
+        try {
+            await this.migratePlaintextSecrets();
+        } finally {
+            await this.redis.releaseLock(MIGRATION_LOCK_KEY);
+        }
+    }
+
+    /** Idempotent: only rows and nodes that still hold plaintext are touched */
+    private async migratePlaintextSecrets() {
+        let moved = 0;
+
+        const apiConfigs = await this.prisma.tenantApiConfig.findMany({ where: { secret: { not: '' } } });
+        for (const config of apiConfigs) {
+            const credentialId = await this.store(config.tenantId, {
+                id: config.credentialId,
+                owner: apiConfigOwner(config.provider),
+                name: `API ${config.provider}`,
+                type: CREDENTIAL_TYPES.includes(config.provider) ? config.provider : 'generic',
+                value: config.secret,
+            });
+            await this.prisma.tenantApiConfig.update({ where: { id: config.id }, data: { credentialId, secret: '' } });
+            moved++;
+        }
+
+        const pixels = await this.prisma.tenantPixelConfig.findMany({ where: { accessToken: { not: '' } } });
+        for (const pixel of pixels) {
+            const credentialId = await this.store(pixel.tenantId, {
+                id: pixel.credentialId,
+                owner: pixelOwner(pixel.pixelId),
+                name: `Pixel ${pixel.name}`,
+                type: 'meta_pixel',
+                value: pixel.accessToken,
+            });
+            await this.prisma.tenantPixelConfig.update({ where: { id: pixel.id }, data: { credentialId, accessToken: '' } });
+            moved++;
+        }
+
+        const caches = new Map<string, Map<string, string>>();
+        const cacheFor = (tenantId: string) => {
+            if (!caches.has(tenantId)) caches.set(tenantId, new Map());
+            return caches.get(tenantId)!;
+        };
+
+        const workflows = await this.prisma.$queryRaw<{ id: string }[]>`
+            SELECT id FROM workflows
+            WHERE nodes::text ~ ${INLINE_SECRET_PATTERN} OR "draftNodes"::text ~ ${INLINE_SECRET_PATTERN}
+        `;
+        for (const { id } of workflows) {
+            const workflow = await this.prisma.workflow.findUnique({ where: { id } });
+            if (!workflow) continue;
+            const cache = cacheFor(workflow.tenantId);
+            const nodes = await this.moveNodeSecrets(workflow.tenantId, workflow.nodes as any[], cache);
+            const draft = workflow.draftNodes
+                ? await this.moveNodeSecrets(workflow.tenantId, workflow.draftNodes as any[], cache)
+                : null;
+            await this.prisma.workflow.update({
+                where: { id },
+                data: { nodes: nodes.nodes, ...(draft ? { draftNodes: draft.nodes } : {}) },
+            });
+            moved += nodes.moved + (draft?.moved || 0);
+        }
+
+        const versions = await this.prisma.$queryRaw<{ id: string; tenantId: string }[]>`
+            SELECT v.id, w."tenantId" FROM workflow_versions v
+            JOIN workflows w ON w.id = v."workflowId"
+            WHERE v.nodes::text ~ ${INLINE_SECRET_PATTERN}
+        `;
+        for (const { id, tenantId } of versions) {
+            const version = await this.prisma.workflowVersion.findUnique({ where: { id } });
+            if (!version) continue;
+            const result = await this.moveNodeSecrets(tenantId, version.nodes as any[], cacheFor(tenantId));
+            await this.prisma.workflowVersion.update({ where: { id }, data: { nodes: result.nodes } });
+            moved += result.moved;
+        }
+
+        const campaignWorkflows = await this.prisma.$queryRaw<{ id: string; tenantId: string }[]>`
+            SELECT cw.id, c."tenantId" FROM "CampaignWorkflow" cw
+            JOIN "Campaign" c ON c.id = cw."campaignId"
+            WHERE cw.nodes::text ~ ${INLINE_SECRET_PATTERN}
+        `;
+        for (const { id, tenantId } of campaignWorkflows) {
+            const campaignWorkflow = await this.prisma.campaignWorkflow.findUnique({ where: { id } });
+            if (!campaignWorkflow) continue;
+            const result = await this.moveNodeSecrets(tenantId, campaignWorkflow.nodes as any[], cacheFor(tenantId));
+            await this.prisma.campaignWorkflow.update({ where: { id }, data: { nodes: result.nodes } });
+            moved += result.moved;
+        }
+
+        if (moved) console.log(`[VAULT] Moved ${moved} plaintext secret(s) to the vault`);
+    }
+
+    // ── Helpers ──────────────────────────────────────────────────────────────
+
+    private requireKeyring(): MasterKeyring {
+        if (!this.keyring) throw new Error('Credential vault is not configured (VAULT_MASTER_KEY)');
+        return this.keyring;
+    }
+
+    private seal(tenantId: string, value: string) {
+        const plaintext = value.trim();
+        return { ...sealSecret(plaintext, this.requireKeyring(), tenantId), hint: secretHint(plaintext) };
+    }
+
+    private validateType(type?: string) {
+        const value = type || 'generic';
+        if (!CREDENTIAL_TYPES.includes(value)) {
+            throw new BadRequestException(`Type must be one of: ${CREDENTIAL_TYPES.join(', ')}`);
+        }
+        return value;
+    }
+
+    private async getCredential(tenantId: string, id: string) {
+        const credential = await this.prisma.credential.findFirst({ where: { id, tenantId }, select: { id: true } });
+        if (!credential) throw new NotFoundException('Credential not found');
+        return credential;
+    }
+}
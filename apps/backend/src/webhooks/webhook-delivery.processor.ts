@@ -0,0 +1,88 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job, UnrecoverableError } from 'bullmq';
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { WebhooksService, WEBHOOK_DELIVERY_QUEUE } from './webhooks.service';
+import { signWebhookPayload } from './webhook-signature.util';
+import { assertPublicWebhookUrl } from './webhook-url.util';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+@Processor(WEBHOOK_DELIVERY_QUEUE)
+@Injectable()
+export class WebhookDeliveryProcessor extends WorkerHost {
+    private readonly logger = new Logger(WebhookDeliveryProcessor.name);
+
+    constructor(
+        private prisma: PrismaService,
+        private webhooksService: WebhooksService,
+    ) {
+        super();
+    }
+
+    async process(job: Job<any, any, string>): Promise<any> {
+        try {
+            return await this.deliver(job);
+        } catch (error) {
+            const lastAttempt = error instanceof UnrecoverableError || job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+            if (lastAttempt) {
+                await this.webhooksService.recordDeadLetter(job, error.message).catch((err) =>
+                    this.logger.error(`Failed to record dead letter for delivery ${job.id}: ${err.message}`),
+                );
+            }
+            throw error;
+        }
+    }
+
+    private async deliver(job: Job<any, any, string>) {
+        const { webhookId, tenantId, event } = job.data;
+
+        const webhook = await this.prisma.externalWebhook.findFirst({
+            where: { id: webhookId, tenantId },
+        });
+
+        // Deleted or disabled after the job was queued — drop silently
+        if (!webhook || !webhook.isActive) {
+            this.logger.warn(`Webhook ${webhookId} not found or inactive, skipping delivery ${job.id}`);
+            return;
+        }
+
+        const body = JSON.stringify({ deliveryId: job.id, ...event });
+        const timestamp = Math.floor(Date.now() / 1000);
+
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'User-Agent': 'x1bot-webhooks/1.0',
+            'x-timestamp': String(timestamp),
+            'x-webhook-event': String(event?.type ?? ''),
+            'x-webhook-delivery': String(job.id),
+        };
+        if (webhook.secret) {
+            headers['x-hmac-signature'] = signWebhookPayload(webhook.secret, timestamp, body);
+        }
+
+        // The host may resolve differently than when the webhook was saved
+        try {
+            await assertPublicWebhookUrl(webhook.url);
+        } catch (error) {
+            throw new UnrecoverableError(error.message);
+        }
+
+        const response = await fetch(webhook.url, {
+            method: 'POST',
+            headers,
+            body,
+            // A redirect could point back at an internal address
+            redirect: 'manual',
+            signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+            // Throwing lets BullMQ apply the exponential backoff
+            throw new Error(`Webhook responded with HTTP ${response.status}`);
+        }
+
+        this.logger.log(`Delivered ${event?.type} to webhook ${webhookId} (attempt ${job.attemptsMade + 1})`);
+        return { status: response.status };
+    }
+}
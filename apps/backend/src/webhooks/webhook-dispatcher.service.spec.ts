@@ -0,0 +1,57 @@
+import { EventType } from '@n9n/shared';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+
+describe('WebhookDispatcherService', () => {
+    let handlers: Map<string, (event: any) => void>;
+    let prisma: { externalWebhook: { findMany: jest.Mock } };
+    let webhooksService: { enqueueDelivery: jest.Mock };
+
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    const emit = async (event: Record<string, any>) => {
+        handlers.get(event.type)?.(event);
+        await flush();
+    };
+
+    beforeEach(() => {
+        handlers = new Map();
+        prisma = { externalWebhook: { findMany: jest.fn().mockResolvedValue([{ id: 'hook-1' }]) } };
+        webhooksService = { enqueueDelivery: jest.fn().mockResolvedValue(undefined) };
+
+        const eventBus = { on: jest.fn((type: string, handler: (event: any) => void) => handlers.set(type, handler)) };
+        new WebhookDispatcherService(eventBus as any, prisma as any, webhooksService as any).onModuleInit();
+    });
+
+    it('should deliver received inbox messages to the tenant webhooks', async () => {
+        await emit({
+            type: EventType.INBOX_MESSAGE_RECEIVED,
+            tenantId: 'tenant-1',
+            conversationId: 'conv-1',
+            message: { id: 'msg-1', content: 'Oi', isInternal: false },
+        });
+
+        expect(prisma.externalWebhook.findMany).toHaveBeenCalledWith(expect.objectContaining({
+            where: expect.objectContaining({ tenantId: 'tenant-1', events: { hasSome: [EventType.INBOX_MESSAGE_RECEIVED, '*'] } }),
+        }));
+        expect(webhooksService.enqueueDelivery).toHaveBeenCalledWith('hook-1', 'tenant-1', expect.objectContaining({
+            message: expect.objectContaining({ id: 'msg-1' }),
+        }));
+    });
+
+    it('should never deliver private operator notes', async () => {
+        await emit({
+            type: EventType.INBOX_NOTE_ADDED,
+            tenantId: 'tenant-1',
+            conversationId: 'conv-1',
+            message: { id: 'note-1', content: 'Cliente difícil', isInternal: true },
+        });
+
+        expect(handlers.has(EventType.INBOX_NOTE_ADDED)).toBe(false);
+        expect(prisma.externalWebhook.findMany).not.toHaveBeenCalled();
+        expect(webhooksService.enqueueDelivery).not.toHaveBeenCalled();
+    });
+
+    it('should never deliver QR codes', () => {
+        expect(handlers.has(EventType.WHATSAPP_QR_CODE)).toBe(false);
+    });
+});
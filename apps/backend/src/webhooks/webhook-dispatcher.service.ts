@@ -0,0 +1,55 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { WorkflowEvent } from '@n9n/shared';
+import { EventBusService } from '../event-bus/event-bus.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { WebhooksService, WEBHOOK_ALL_EVENTS, WEBHOOK_EVENT_TYPES } from './webhooks.service';
+import { sanitizeWebhookEvent } from './webhook-signature.util';
+
+/**
+ * Fans EventBus events out to the tenant's registered ExternalWebhooks.
+ * Delivery itself happens in WebhookDeliveryProcessor.
+ */
+@Injectable()
+export class WebhookDispatcherService implements OnModuleInit {
+    private readonly logger = new Logger(WebhookDispatcherService.name);
+
+    constructor(
+        private eventBus: EventBusService,
+        private prisma: PrismaService,
+        private webhooksService: WebhooksService,
+    ) {}
+
+    onModuleInit() {
+        WEBHOOK_EVENT_TYPES.forEach((eventType) => {
+            this.eventBus.on(eventType, (event: WorkflowEvent) => {
+                this.dispatch(event).catch(err =>
+                    this.logger.error(`Failed to dispatch ${eventType}: ${err.message}`),
+                );
+            });
+        });
+    }
+
+    private async dispatch(event: WorkflowEvent) {
+        if (!event?.tenantId) return;
+
+        const sessionId = 'sessionId' in event ? event.sessionId : undefined;
+
+        const webhooks = await this.prisma.externalWebhook.findMany({
+            where: {
+                tenantId: event.tenantId,
+                isActive: true,
+                events: { hasSome: [event.type, WEBHOOK_ALL_EVENTS] },
+                // Session-scoped events only go to that session's webhooks
+                ...(sessionId ? { sessionId } : {}),
+            },
+            select: { id: true },
+        });
+
+        if (webhooks.length === 0) return;
+
+        const payload = sanitizeWebhookEvent(event as any);
+        for (const webhook of webhooks) {
+            await this.webhooksService.enqueueDelivery(webhook.id, event.tenantId, payload);
+        }
+    }
+}
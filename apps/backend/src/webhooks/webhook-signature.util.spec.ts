@@ -0,0 +1,27 @@
+import { createHmac } from 'crypto';
+import { signWebhookPayload, sanitizeWebhookEvent } from './webhook-signature.util';
+
+describe('webhook-signature.util', () => {
+    describe('signWebhookPayload', () => {
+        it('should sign timestamp.body with HMAC-SHA256 hex', () => {
+            const body = JSON.stringify({ type: 'execution.completed' });
+            const expected = createHmac('sha256', 'secret')
+                .update(`1700000000.${body}`)
+                .digest('hex');
+
+            expect(signWebhookPayload('secret', 1700000000, body)).toBe(expected);
+        });
+
+        it('should produce different signatures for different timestamps', () => {
+            const body = '{}';
+            expect(signWebhookPayload('secret', 1, body)).not.toBe(signWebhookPayload('secret', 2, body));
+        });
+    });
+
+    describe('sanitizeWebhookEvent', () => {
+        it('should strip access tokens from the payload', () => {
+            const result = sanitizeWebhookEvent({ type: 'marketing.pixel_event', pixelId: 'p1', accessToken: 'tok' });
+            expect(result).toEqual({ type: 'marketing.pixel_event', pixelId: 'p1' });
+        });
+    });
+});
@@ -0,0 +1,21 @@
+import { createHmac } from 'crypto';
+
+/**
+ * Signs an outbound webhook body using the same `timestamp.body` scheme
+ * validated by HmacGuard, so receivers can share verification code.
+ */
+export function signWebhookPayload(secret: string, timestamp: number | string, body: string): string {
+    return createHmac('sha256', secret)
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+}
+
+/**
+ * Removes credentials from an event before it leaves the platform
+ * (e.g. the Meta access token carried by pixel events).
+ */
+export function sanitizeWebhookEvent(event: Record<string, any>): Record<string, any> {
+    const sanitized = { ...event };
+    delete sanitized.accessToken;
+    return sanitized;
+}
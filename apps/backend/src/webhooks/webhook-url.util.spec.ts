@@ -0,0 +1,50 @@
+import { isPrivateAddress, assertPublicWebhookUrl } from './webhook-url.util';
+
+describe('webhook-url.util', () => {
+    describe('isPrivateAddress', () => {
+        it.each([
+            '127.0.0.1',
+            '10.1.2.3',
+            '172.16.0.1',
+            '192.168.1.10',
+            '169.254.169.254',
+            '100.64.0.1',
+            '0.0.0.0',
+            '::1',
+            '::',
+            'fd00::1',
+            'fe80::1',
+            '::ffff:127.0.0.1',
+            '::ffff:a9fe:a9fe',
+        ])('should reject %s', (address) => {
+            expect(isPrivateAddress(address)).toBe(true);
+        });
+
+        it.each(['8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8'])('should accept %s', (address) => {
+            expect(isPrivateAddress(address)).toBe(false);
+        });
+    });
+
+    describe('assertPublicWebhookUrl', () => {
+        const resolveTo = (...addresses: string[]) => async () => addresses;
+
+        it('should accept hosts that resolve to public addresses', async () => {
+            await expect(assertPublicWebhookUrl('https://hooks.example.com/x', resolveTo('93.184.216.34')))
+                .resolves.toBeUndefined();
+        });
+
+        it('should reject IP literals and hosts resolving to private addresses', async () => {
+            await expect(assertPublicWebhookUrl('http://169.254.169.254/latest/meta-data')).rejects.toThrow('public address');
+            await expect(assertPublicWebhookUrl('http://[::1]:3000/')).rejects.toThrow('public address');
+            await expect(assertPublicWebhookUrl('https://internal.example.com', resolveTo('93.184.216.34', '10.0.0.5')))
+                .rejects.toThrow('public address');
+        });
+
+        it('should reject non-http protocols and unresolvable hosts', async () => {
+            await expect(assertPublicWebhookUrl('ftp://example.com')).rejects.toThrow('http(s)');
+            await expect(assertPublicWebhookUrl('not a url')).rejects.toThrow('http(s)');
+            await expect(assertPublicWebhookUrl('https://nowhere.invalid', async () => { throw new Error('ENOTFOUND'); }))
+                .rejects.toThrow('Could not resolve');
+        });
+    });
+});
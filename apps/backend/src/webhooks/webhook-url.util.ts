@@ -0,0 +1,76 @@
+import { isIP } from 'net';
+import { lookup } from 'dns/promises';
+
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const resolveHost: HostResolver = async (hostname) =>
+    (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+
+function isPrivateIpv4(address: string): boolean {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0
+        || a === 10
+        || a === 127
+        || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+        || (a === 169 && b === 254) // link-local, cloud metadata
+        || (a === 172 && b >= 16 && b <= 31)
+        || (a === 192 && b === 168)
+        || (a === 198 && (b === 18 || b === 19))
+        || a >= 224; // multicast and reserved
+}
+
+/**
+ * True for addresses an outgoing webhook must never reach: loopback,
+ * RFC1918, link-local, CGNAT, multicast and their IPv6 counterparts.
+ * Anything that is not an IP literal counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+    const version = isIP(address);
+    if (version === 4) return isPrivateIpv4(address);
+    if (version !== 6) return true;
+
+    const lower = address.toLowerCase();
+    const mappedDotted = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mappedDotted) return isPrivateIpv4(mappedDotted[1]);
+    const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+        const high = parseInt(mappedHex[1], 16);
+        const low = parseInt(mappedHex[2], 16);
+        return isPrivateIpv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+
+    return lower === '::'
+        || lower === '::1'
+        || /^f[cd]/.test(lower) // unique local fc00::/7
+        || /^fe[89ab]/.test(lower) // link-local fe80::/10
+        || lower.startsWith('ff'); // multicast
+}
+
+/**
+ * Throws unless the URL is http(s) and every address its host resolves to
+ * is public. Checked on save and again before each delivery, since DNS
+ * can change in between.
+ */
+export async function assertPublicWebhookUrl(url: string, resolve: HostResolver = resolveHost): Promise<void> {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new Error('url must be a valid http(s) URL');
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+        throw new Error('url must be a valid http(s) URL');
+    }
+
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+    let addresses: string[];
+    try {
+        addresses = isIP(hostname) ? [hostname] : await resolve(hostname);
+    } catch {
+        throw new Error(`Could not resolve ${hostname}`);
+    }
+
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+        throw new Error('url must point to a public address');
+    }
+}
@@ -0,0 +1,98 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { WebhooksService, WebhookInput, WEBHOOK_ALL_EVENTS, WEBHOOK_EVENT_TYPES } from './webhooks.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Tenant } from '../auth/decorators/tenant.decorator';
+import { Audit } from '../audit/audit.decorator';
+
+@Controller('webhooks')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('settings:view')
+export class WebhooksController {
+    constructor(private service: WebhooksService) {}
+
+    /** List registered webhooks (secrets omitted) */
+    @Get()
+    getAll(@Tenant() tenantId: string, @Query('sessionId') sessionId?: string) {
+        return this.service.getAll(tenantId, sessionId);
+    }
+
+    /** Event types that can be subscribed to */
+    @Get('events')
+    getEvents() {
+        return [WEBHOOK_ALL_EVENTS, ...WEBHOOK_EVENT_TYPES];
+    }
+
+    /** Deliveries that exhausted all retries */
+    @Get('dead-letters')
+    getDeadLetters(
+        @Tenant() tenantId: string,
+        @Query('webhookId') webhookId?: string,
+        @Query('page') page: string = '1',
+        @Query('limit') limit: string = '50',
+    ) {
+        return this.service.getDeadLetters(
+            tenantId,
+            webhookId,
+            Math.max(1, Number(page) || 1),
+            Math.min(200, Math.max(1, Number(limit) || 50)),
+        );
+    }
+
+    /** Re-enqueue a failed delivery */
+    @Post('dead-letters/:id/retry')
+    @RequirePermissions('settings:edit')
+    @Audit('webhook_dead_letter.retry')
+    retryDeadLetter(@Tenant() tenantId: string, @Param('id') id: string) {
+        return this.service.retryDeadLetter(tenantId, id);
+    }
+
+    @Delete('dead-letters/:id')
+    @RequirePermissions('settings:edit')
+    @Audit('webhook_dead_letter.discard')
+    discardDeadLetter(@Tenant() tenantId: string, @Param('id') id: string) {
+        return this.service.discardDeadLetter(tenantId, id);
+    }
+
+    @Get(':id')
+    getById(@Tenant() tenantId: string, @Param('id') id: string) {
+        return this.service.getById(tenantId, id);
+    }
+
+    /** Register a webhook — the response is the only time the secret is shown */
+    @Post()
+    @RequirePermissions('settings:edit')
+    @Audit('webhook.create')
+    create(@Tenant() tenantId: string, @Body() body: WebhookInput) {
+        return this.service.create(tenantId, body);
+    }
+
+    @Put(':id')
+    @RequirePermissions('settings:edit')
+    @Audit('webhook.update')
+    update(@Tenant() tenantId: string, @Param('id') id: string, @Body() body: WebhookInput) {
+        return this.service.update(tenantId, id, body);
+    }
+
+    @Post(':id/rotate-secret')
+    @RequirePermissions('settings:edit')
+    @Audit('webhook_secret.rotate')
+    rotateSecret(@Tenant() tenantId: string, @Param('id') id: string) {
+        return this.service.rotateSecret(tenantId, id);
+    }
+
+    /** Send a `webhook.test` event to the endpoint */
+    @Post(':id/test')
+    @RequirePermissions('settings:edit')
+    sendTest(@Tenant() tenantId: string, @Param('id') id: string) {
+        return this.service.sendTest(tenantId, id);
+    }
+
+    @Delete(':id')
+    @RequirePermissions('settings:edit')
+    @Audit('webhook.delete')
+    delete(@Tenant() tenantId: string, @Param('id') id: string) {
+        return this.service.delete(tenantId, id);
+    }
+}
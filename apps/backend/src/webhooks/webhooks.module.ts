@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService, WEBHOOK_DELIVERY_QUEUE } from './webhooks.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { WebhookDeliveryProcessor } from './webhook-delivery.processor';
+
+@Module({
+    imports: [BullModule.registerQueue({ name: WEBHOOK_DELIVERY_QUEUE })],
+    controllers: [WebhooksController],
+    providers: [WebhooksService, WebhookDispatcherService, WebhookDeliveryProcessor],
+    exports: [WebhooksService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,246 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Job, Queue } from 'bullmq';
+import { randomBytes } from 'crypto';
+import { EventType } from '@n9n/shared';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { assertPublicWebhookUrl } from './webhook-url.util';
+
+export const WEBHOOK_DELIVERY_QUEUE = 'webhook-delivery';
+
+/** Wildcard subscription: receive every event type */
+export const WEBHOOK_ALL_EVENTS = '*';
+
+/** Event types that never leave the platform: QR codes and private operator notes */
+const INTERNAL_EVENT_TYPES: string[] = [EventType.WHATSAPP_QR_CODE, EventType.INBOX_NOTE_ADDED];
+
+/** Event types that can be delivered externally */
+export const WEBHOOK_EVENT_TYPES: string[] = Object.values(EventType).filter(
+    type => !INTERNAL_EVENT_TYPES.includes(type),
+);
+
+export interface WebhookInput {
+    sessionId?: string;
+    url?: string;
+    events?: string[];
+    secret?: string;
+    isActive?: boolean;
+}
+
+const webhookSelect = {
+    id: true,
+    sessionId: true,
+    tenantId: true,
+    url: true,
+    events: true,
+    isActive: true,
+    createdAt: true,
+};
+
+@Injectable()
+export class WebhooksService {
+    constructor(
+        private prisma: PrismaService,
+        @InjectQueue(WEBHOOK_DELIVERY_QUEUE) private deliveryQueue: Queue,
+    ) {}
+
+    /** List webhooks for a tenant (secrets omitted) */
+    async getAll(tenantId: string, sessionId?: string) {
+        return this.prisma.externalWebhook.findMany({
+            where: { tenantId, ...(sessionId ? { sessionId } : {}) },
+            orderBy: { createdAt: 'desc' },
+            select: webhookSelect,
+        });
+    }
+
+    async getById(tenantId: string, id: string) {
+        const webhook = await this.prisma.externalWebhook.findFirst({
+            where: { id, tenantId },
+            select: webhookSelect,
+        });
+        if (!webhook) throw new NotFoundException('Webhook not found');
+        return webhook;
+    }
+
+    /**
+     * Register a webhook. The secret is generated when not provided and is
+     * only returned by this call.
+     */
+    async create(tenantId: string, data: WebhookInput) {
+        if (!data.sessionId) throw new BadRequestException('sessionId is required');
+        await this.assertSession(tenantId, data.sessionId);
+
+        const url = await this.validateUrl(data.url);
+        const events = this.validateEvents(data.events);
+        const secret = data.secret || randomBytes(32).toString('hex');
+
+        const webhook = await this.prisma.externalWebhook.create({
+            data: {
+                tenantId,
+                sessionId: data.sessionId,
+                url,
+                events,
+                secret,
+                isActive: data.isActive ?? true,
+            },
+            select: webhookSelect,
+        });
+
+        return { ...webhook, secret };
+    }
+
+    async update(tenantId: string, id: string, data: WebhookInput) {
+        await this.getById(tenantId, id);
+
+        const updateData: Record<string, any> = {};
+        if (data.sessionId !== undefined) {
+            await this.assertSession(tenantId, data.sessionId);
+            updateData.sessionId = data.sessionId;
+        }
+        if (data.url !== undefined) updateData.url = await this.validateUrl(data.url);
+        if (data.events !== undefined) updateData.events = this.validateEvents(data.events);
+        if (data.secret) updateData.secret = data.secret;
+        if (data.isActive !== undefined) updateData.isActive = !!data.isActive;
+
+        return this.prisma.externalWebhook.update({
+            where: { id },
+            data: updateData,
+            select: webhookSelect,
+        });
+    }
+
+    /** Generate a new signing secret, returned once */
+    async rotateSecret(tenantId: string, id: string) {
+        await this.getById(tenantId, id);
+        const secret = randomBytes(32).toString('hex');
+        await this.prisma.externalWebhook.update({ where: { id }, data: { secret } });
+        return { id, secret };
+    }
+
+    async delete(tenantId: string, id: string) {
+        await this.getById(tenantId, id);
+        await this.prisma.externalWebhook.delete({ where: { id } });
+        return { success: true };
+    }
+
+    /** Enqueue a synthetic event so integrators can verify their endpoint */
+    async sendTest(tenantId: string, id: string) {
+        const webhook = await this.getById(tenantId, id);
+        const job = await this.enqueueDelivery(webhook.id, tenantId, {
+            type: 'webhook.test',
+            tenantId,
+            sessionId: webhook.sessionId,
+            timestamp: new Date(),
+        });
+        return { jobId: job.id };
+    }
+
+    /**
+     * Add a delivery job. Deliveries that exhaust their attempts are moved
+     * to webhook_dead_letters by WebhookDeliveryProcessor.
+     */
+    async enqueueDelivery(webhookId: string, tenantId: string, event: Record<string, any>) {
+        return this.deliveryQueue.add(
+            'deliver',
+            { webhookId, tenantId, event },
+            {
+                attempts: 8,
+                backoff: { type: 'exponential', delay: 10000 },
+                removeOnComplete: true,
+                removeOnFail: true,
+            },
+        );
+    }
+
+    /** Deliveries that exhausted all retries, newest first */
+    async getDeadLetters(tenantId: string, webhookId: string | undefined, page: number, limit: number) {
+        const where = { tenantId, ...(webhookId ? { webhookId } : {}) };
+        const [data, total] = await Promise.all([
+            this.prisma.webhookDeadLetter.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            this.prisma.webhookDeadLetter.count({ where }),
+        ]);
+
+        return {
+            data,
+            meta: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    }
+
+    /** Called on a job's final failed attempt */
+    async recordDeadLetter(job: Job, failedReason: string) {
+        const { webhookId, tenantId, event } = job.data;
+        await this.prisma.webhookDeadLetter.create({
+            data: {
+                tenantId,
+                webhookId,
+                jobId: String(job.id),
+                eventType: event?.type ?? null,
+                event: (event ?? {}) as Prisma.InputJsonValue,
+                attemptsMade: job.attemptsMade + 1,
+                failedReason,
+                queuedAt: new Date(job.timestamp),
+            },
+        });
+    }
+
+    /** Re-enqueue a failed delivery with a fresh set of attempts */
+    async retryDeadLetter(tenantId: string, id: string) {
+        const deadLetter = await this.getDeadLetter(tenantId, id);
+        const job = await this.enqueueDelivery(deadLetter.webhookId, tenantId, deadLetter.event as Record<string, any>);
+        await this.prisma.webhookDeadLetter.delete({ where: { id } });
+        return { jobId: job.id };
+    }
+
+    async discardDeadLetter(tenantId: string, id: string) {
+        await this.getDeadLetter(tenantId, id);
+        await this.prisma.webhookDeadLetter.delete({ where: { id } });
+        return { success: true };
+    }
+
+    private async getDeadLetter(tenantId: string, id: string) {
+        const deadLetter = await this.prisma.webhookDeadLetter.findFirst({ where: { id, tenantId } });
+        if (!deadLetter) throw new NotFoundException('Failed delivery not found');
+        return deadLetter;
+    }
+
+    private async assertSession(tenantId: string, sessionId: string) {
+        const session = await this.prisma.whatsappSession.findFirst({
+            where: { id: sessionId, tenantId },
+            select: { id: true },
+        });
+        if (!session) throw new NotFoundException('Session not found');
+    }
+
+    private async validateUrl(url?: string): Promise<string> {
+        if (!url) throw new BadRequestException('url is required');
+        try {
+            await assertPublicWebhookUrl(url);
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+        return url;
+    }
+
+    private validateEvents(events?: string[]): string[] {
+        if (!Array.isArray(events) || events.length === 0) {
+            throw new BadRequestException('events must be a non-empty array');
+        }
+        const known = new Set<string>([WEBHOOK_ALL_EVENTS, ...WEBHOOK_EVENT_TYPES]);
+        const invalid = events.filter(e => !known.has(e));
+        if (invalid.length > 0) {
+            throw new BadRequestException(`Unknown events: ${invalid.join(', ')}`);
+        }
+        return Array.from(new Set(events));
+    }
+}
@@ -0,0 +1,42 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { Redis } from 'ioredis';
+import { ServerOptions } from 'socket.io';
+
+/**
+ * socket.io adapter backed by Redis pub/sub, so an event emitted on one
+ * replica reaches sockets connected to any other.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private adapterConstructor: ReturnType<typeof createAdapter>;
+
+  constructor(private app: INestApplicationContext) {
+    super(app);
+  }
+
+  async connectToRedis(): Promise<void> {
+    const config = this.app.get(ConfigService);
+    const pubClient = new Redis({
+      host: config.get<string>('REDIS_HOST', 'localhost'),
+      port: config.get<number>('REDIS_PORT', 6379),
+      password: config.get<string>('REDIS_PASSWORD'),
+    });
+    const subClient = pubClient.duplicate();
+
+    await Promise.all([
+      new Promise((resolve) => pubClient.once('ready', resolve)),
+      new Promise((resolve) => subClient.once('ready', resolve)),
+    ]);
+
+    this.adapterConstructor = createAdapter(pubClient, subClient);
+    console.log('✅ WebSocket Redis adapter connected');
+  }
+
+  createIOServer(port: number, options?: ServerOptions): any {
+    const server = super.createIOServer(port, options);
+    server.adapter(this.adapterConstructor);
+    return server;
+  }
+}
@@ -0,0 +1,50 @@
+import { parseRoom, eventRooms, eventFeed } from './websocket-rooms.util';
+
+describe('websocket-rooms.util', () => {
+  describe('parseRoom', () => {
+    it('should parse known room kinds', () => {
+      expect(parseRoom('inbox:t1')).toEqual({ kind: 'inbox', id: 't1' });
+      expect(parseRoom('execution:e-1')).toEqual({ kind: 'execution', id: 'e-1' });
+      expect(parseRoom('conversation:c1')).toEqual({ kind: 'conversation', id: 'c1' });
+    });
+
+    it('should reject unknown kinds, empty ids and non-strings', () => {
+      expect(parseRoom('tenant:t1')).toBeNull();
+      expect(parseRoom('session:s1')).toBeNull();
+      expect(parseRoom('workflow:')).toBeNull();
+      expect(parseRoom(':w1')).toBeNull();
+      expect(parseRoom('w1')).toBeNull();
+      expect(parseRoom({ room: 'inbox:t1' })).toBeNull();
+    });
+  });
+
+  describe('eventFeed', () => {
+    it('should map event types to their tenant feed', () => {
+      expect(eventFeed('inbox:message-received')).toBe('inbox');
+      expect(eventFeed('whatsapp.message.received')).toBe('inbox');
+      expect(eventFeed('whatsapp.qr.code')).toBe('sessions');
+      expect(eventFeed('campaign.paused')).toBe('campaigns');
+      expect(eventFeed('execution.started')).toBeNull();
+      expect(eventFeed('node.executed')).toBeNull();
+    });
+  });
+
+  describe('eventRooms', () => {
+    it('should keep execution events out of tenant-wide rooms', () => {
+      expect(eventRooms({ type: 'execution.started', tenantId: 't1', workflowId: 'w1', executionId: 'e1' })).toEqual([
+        'workflow:w1', 'execution:e1',
+      ]);
+    });
+
+    it('should send inbox events to the inbox feed and their conversation', () => {
+      expect(eventRooms({ type: 'inbox:conversation-updated', tenantId: 't1', conversationId: 'c1' })).toEqual([
+        'inbox:t1', 'conversation:c1',
+      ]);
+    });
+
+    it('should return no rooms for events without a feed or ids', () => {
+      expect(eventRooms({ tenantId: 't1' })).toEqual([]);
+      expect(eventRooms({})).toEqual([]);
+    });
+  });
+});
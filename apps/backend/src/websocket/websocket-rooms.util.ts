@@ -0,0 +1,57 @@
+// Tenant-wide feeds ("inbox:<tenantId>") and single-record rooms ("workflow:<id>")
+export const TENANT_FEEDS = ['inbox', 'sessions', 'campaigns'] as const;
+export const ROOM_KINDS = [...TENANT_FEEDS, 'workflow', 'execution', 'conversation'] as const;
+
+export type TenantFeed = (typeof TENANT_FEEDS)[number];
+export type RoomKind = (typeof ROOM_KINDS)[number];
+
+export interface ParsedRoom {
+  kind: RoomKind;
+  id: string;
+}
+
+/**
+ * "kind:id" room names clients may subscribe to. Null for anything else,
+ * including socket.io's own per-socket rooms.
+ */
+export function parseRoom(room: unknown): ParsedRoom | null {
+  if (typeof room !== 'string') return null;
+
+  const separator = room.indexOf(':');
+  if (separator <= 0) return null;
+
+  const kind = room.slice(0, separator) as RoomKind;
+  const id = room.slice(separator + 1).trim();
+  if (!ROOM_KINDS.includes(kind) || !id || id.length > 128) return null;
+
+  return { kind, id };
+}
+
+export function isTenantFeed(kind: RoomKind): kind is TenantFeed {
+  return (TENANT_FEEDS as readonly string[]).includes(kind);
+}
+
+/**
+ * Tenant-wide feed an event type belongs to. Execution and node events have
+ * none: they only reach the workflow and execution rooms.
+ */
+export function eventFeed(type: string): TenantFeed | null {
+  if (type.startsWith('inbox:') || type.startsWith('whatsapp.message.')) return 'inbox';
+  if (type.startsWith('whatsapp.session.') || type.startsWith('whatsapp.qr.')) return 'sessions';
+  if (type.startsWith('campaign.') || type.startsWith('marketing.')) return 'campaigns';
+  return null;
+}
+
+/**
+ * Rooms an event is delivered to: its tenant feed, plus the workflow,
+ * execution and conversation it belongs to when it carries their ids.
+ */
+export function eventRooms(event: { type?: string; tenantId?: string; [key: string]: any }): string[] {
+  const rooms: string[] = [];
+  const feed = event.type ? eventFeed(String(event.type)) : null;
+  if (feed && event.tenantId) rooms.push(`${feed}:${event.tenantId}`);
+  if (event.workflowId) rooms.push(`workflow:${event.workflowId}`);
+  if (event.executionId) rooms.push(`execution:${event.executionId}`);
+  if (event.conversationId) rooms.push(`conversation:${event.conversationId}`);
+  return rooms;
+}
@@ -0,0 +1,97 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { WebsocketGateway } from './websocket.gateway';
+import { UserRole } from '../auth/types/roles.enum';
+
+// The strategy is passed in below; its module pulls the whole auth service
+jest.mock('../auth/jwt.strategy', () => ({ JwtStrategy: class {} }));
+
+describe('WebsocketGateway - room authorization', () => {
+  let jwtStrategy: { validate: jest.Mock };
+  let rolesService: { permissionsFor: jest.Mock };
+  let prisma: {
+    workflow: { findFirst: jest.Mock };
+    workflowExecution: { findFirst: jest.Mock };
+    conversation: { findFirst: jest.Mock };
+  };
+  let gateway: WebsocketGateway;
+
+  const client = (payload: Record<string, any> | undefined = { sub: 'u1', tenantId: 't1', role: UserRole.USER }) => ({
+    data: { payload },
+    join: jest.fn().mockResolvedValue(undefined),
+  }) as any;
+
+  const subscribe = (socket: any, room: string) => gateway.handleSubscribe(socket, { room });
+
+  beforeEach(() => {
+    jwtStrategy = { validate: jest.fn().mockResolvedValue({ id: 'u1', tenantId: 't1', role: UserRole.USER, customRoleId: 'r1' }) };
+    rolesService = { permissionsFor: jest.fn().mockResolvedValue(['inbox:view', 'workflows:view']) };
+    prisma = {
+      workflow: { findFirst: jest.fn().mockResolvedValue({ id: 'w1' }) },
+      workflowExecution: { findFirst: jest.fn().mockResolvedValue(null) },
+      conversation: { findFirst: jest.fn().mockResolvedValue({ id: 'c1' }) },
+    };
+    gateway = new WebsocketGateway(
+      { on: jest.fn() } as any,
+      {} as any,
+      jwtStrategy as any,
+      prisma as any,
+      rolesService as any,
+    );
+  });
+
+  it('should join the feeds of the own tenant the user may view', async () => {
+    const socket = client();
+
+    await expect(subscribe(socket, 'inbox:t1')).resolves.toEqual({ ok: true, room: 'inbox:t1' });
+    expect(socket.join).toHaveBeenCalledWith('inbox:t1');
+  });
+
+  it('should refuse feeds of another tenant and feeds without permission', async () => {
+    const socket = client();
+
+    await expect(subscribe(socket, 'inbox:t2')).resolves.toEqual({ ok: false, error: 'Forbidden' });
+    await expect(subscribe(socket, 'sessions:t1')).resolves.toEqual({ ok: false, error: 'Forbidden' });
+    expect(socket.join).not.toHaveBeenCalled();
+  });
+
+  it('should only join records that belong to the tenant', async () => {
+    const socket = client();
+
+    await expect(subscribe(socket, 'workflow:w1')).resolves.toEqual({ ok: true, room: 'workflow:w1' });
+    expect(prisma.workflow.findFirst).toHaveBeenCalledWith({ where: { id: 'w1', tenantId: 't1' }, select: { id: true } });
+
+    await expect(subscribe(socket, 'execution:e-other')).resolves.toEqual({ ok: false, error: 'Forbidden' });
+  });
+
+  it('should let SUPER_ADMIN follow any tenant', async () => {
+    jwtStrategy.validate.mockResolvedValue({ id: 'root', tenantId: 't-admin', role: UserRole.SUPER_ADMIN });
+    rolesService.permissionsFor.mockResolvedValue(['inbox:view', 'sessions:view', 'workflows:view']);
+    const socket = client({ sub: 'root', tenantId: 't-admin', role: UserRole.SUPER_ADMIN });
+
+    await expect(subscribe(socket, 'sessions:t1')).resolves.toEqual({ ok: true, room: 'sessions:t1' });
+    await subscribe(socket, 'conversation:c1');
+    expect(prisma.conversation.findFirst).toHaveBeenCalledWith({ where: { id: 'c1' }, select: { id: true } });
+  });
+
+  it('should check permissions again on every join', async () => {
+    const socket = client();
+    await expect(subscribe(socket, 'conversation:c1')).resolves.toEqual({ ok: true, room: 'conversation:c1' });
+
+    rolesService.permissionsFor.mockResolvedValue(['workflows:view']);
+    await expect(subscribe(socket, 'conversation:c1')).resolves.toEqual({ ok: false, error: 'Forbidden' });
+    expect(rolesService.permissionsFor).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refuse joins once the user is deactivated or the token expired', async () => {
+    jwtStrategy.validate.mockRejectedValueOnce(new UnauthorizedException());
+    await expect(subscribe(client(), 'inbox:t1')).resolves.toEqual({ ok: false, error: 'Forbidden' });
+
+    const expired = client({ sub: 'u1', tenantId: 't1', role: UserRole.USER, exp: Math.floor(Date.now() / 1000) - 1 });
+    await expect(subscribe(expired, 'inbox:t1')).resolves.toEqual({ ok: false, error: 'Forbidden' });
+    expect(jwtStrategy.validate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject rooms that are not known kinds', async () => {
+    await expect(subscribe(client(), 'tenant:t1')).resolves.toEqual({ ok: false, error: 'Invalid room' });
+  });
+});
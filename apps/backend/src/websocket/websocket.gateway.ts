@@ -1,13 +1,24 @@
 import {
   WebSocketGateway,
   WebSocketServer,
+  OnGatewayInit,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  SubscribeMessage,
+  ConnectedSocket,
+  MessageBody,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { OnEvent } from '@nestjs/event-emitter';
+import { JwtService } from '@nestjs/jwt';
 import { EventBusService } from '../event-bus/event-bus.service';
-import { WorkflowEvent, EventType } from '@n9n/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { JwtStrategy, JwtPayload } from '../auth/jwt.strategy';
+import { UserRole } from '../auth/types/roles.enum';
+import { WorkflowEvent, EventType, Permission } from '@n9n/shared';
+import { RolesService } from '../roles/roles.service';
+import { hasPermission } from '../auth/permissions.util';
+import { ParsedRoom, RoomKind, parseRoom, eventRooms, isTenantFeed } from './websocket-rooms.util';
 
 const parseOrigins = (value?: string): string[] =>
   (value || '')
@@ -33,6 +44,33 @@ const allowedOrigins = Array.from(
   ),
 );
 
+interface SocketUser {
+  id: string;
+  tenantId: string;
+  role: string;
+  permissions: Permission[];
+}
+
+// Permission needed to follow each kind of room
+const ROOM_PERMISSIONS: Record<RoomKind, Permission> = {
+  inbox: 'inbox:view',
+  sessions: 'sessions:view',
+  campaigns: 'campaigns:view',
+  workflow: 'workflows:view',
+  execution: 'workflows:view',
+  conversation: 'inbox:view',
+};
+
+type RoomAck = { ok: true; room: string } | { ok: false; error: string };
+
+/**
+ * Sockets authenticate with the same access token as the REST API
+ * (handshake `auth.token` or a Bearer Authorization header) and receive
+ * nothing until they subscribe to a room: a tenant feed (inbox:<tenantId>,
+ * sessions:<tenantId>, campaigns:<tenantId>) or workflow:<id>,
+ * execution:<id>, conversation:<id>. Each subscription is checked against
+ * the user's tenant and current permissions.
+ */
 @WebSocketGateway({
   cors: {
     origin: (origin, callback) => {
@@ -45,32 +83,119 @@ const allowedOrigins = Array.from(
     credentials: true,
   },
 })
-export class WebsocketGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class WebsocketGateway implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect {
   @WebSocketServer()
   server: Server;
 
-  private clientTenants: Map<string, string> = new Map();
-
-  constructor(private eventBus: EventBusService) {
+  constructor(
+    private eventBus: EventBusService,
+    private jwtService: JwtService,
+    private jwtStrategy: JwtStrategy,
+    private prisma: PrismaService,
+    private rolesService: RolesService,
+  ) {
     this.setupEventListeners();
   }
 
+  afterInit(server: Server) {
+    server.use(async (socket, next) => {
+      try {
+        socket.data.user = await this.authenticate(socket);
+        next();
+      } catch (error) {
+        console.warn(`[WS] Rejected socket ${socket.id}: ${error.message}`);
+        next(new Error('Unauthorized'));
+      }
+    });
+  }
+
   handleConnection(client: Socket) {
-    // Extract tenantId from query or auth
-    const tenantId = client.handshake.query.tenantId as string;
+    const user: SocketUser = client.data.user;
+    console.log(`WebSocket client connected: ${client.id}, user: ${user?.id}, tenantId: ${user?.tenantId}`);
+  }
 
-    console.log(`WebSocket client connected: ${client.id}, tenantId: ${tenantId}`);
+  handleDisconnect(client: Socket) {
+    console.log(`WebSocket client disconnected: ${client.id}`);
+  }
+
+  @SubscribeMessage('subscribe')
+  async handleSubscribe(@ConnectedSocket() client: Socket, @MessageBody() body: { room?: string }): Promise<RoomAck> {
+    const room = parseRoom(body?.room);
+    if (!room) return { ok: false, error: 'Invalid room' };
 
-    if (tenantId) {
-      this.clientTenants.set(client.id, tenantId);
-      client.join(`tenant:${tenantId}`);
-      console.log(`Client ${client.id} joined room: tenant:${tenantId}`);
+    if (!(await this.canJoin(client, room))) {
+      return { ok: false, error: 'Forbidden' };
     }
+
+    await client.join(body.room!);
+    return { ok: true, room: body.room! };
   }
 
-  handleDisconnect(client: Socket) {
-    console.log(`WebSocket client disconnected: ${client.id}`);
-    this.clientTenants.delete(client.id);
+  @SubscribeMessage('unsubscribe')
+  async handleUnsubscribe(@ConnectedSocket() client: Socket, @MessageBody() body: { room?: string }): Promise<RoomAck> {
+    if (!parseRoom(body?.room)) return { ok: false, error: 'Invalid room' };
+
+    await client.leave(body.room!);
+    return { ok: true, room: body.room! };
+  }
+
+  private async authenticate(socket: Socket): Promise<SocketUser> {
+    const header = socket.handshake.headers?.authorization;
+    const token = socket.handshake.auth?.token
+      || (typeof header === 'string' && header.startsWith('Bearer ') ? header.slice(7) : null);
+    if (!token) throw new Error('Missing token');
+
+    const payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+    socket.data.payload = payload;
+    return this.resolveUser(payload);
+  }
+
+  private async resolveUser(payload: JwtPayload): Promise<SocketUser> {
+    const user = await this.jwtStrategy.validate(payload);
+    return {
+      id: user.id,
+      tenantId: user.tenantId,
+      role: user.role,
+      permissions: await this.rolesService.permissionsFor(user),
+    };
+  }
+
+  /**
+   * Users only join rooms of their own tenant they have permission to
+   * view; SUPER_ADMIN may join any. The user and its permissions are
+   * loaded again, so a revoked role or deactivated user stops at the next join.
+   */
+  private async canJoin(client: Socket, room: ParsedRoom): Promise<boolean> {
+    const payload: (JwtPayload & { exp?: number }) | undefined = client.data.payload;
+    if (!payload || (payload.exp && payload.exp * 1000 <= Date.now())) return false;
+
+    let user: SocketUser;
+    try {
+      user = await this.resolveUser(payload);
+    } catch {
+      return false;
+    }
+    client.data.user = user;
+    const isSuperAdmin = user.role === UserRole.SUPER_ADMIN;
+
+    if (!hasPermission(user.permissions, ROOM_PERMISSIONS[room.kind])) return false;
+
+    if (isTenantFeed(room.kind)) {
+      return isSuperAdmin || room.id === user.tenantId;
+    }
+
+    const where = { id: room.id, ...(isSuperAdmin ? {} : { tenantId: user.tenantId }) };
+    const select = { id: true };
+    switch (room.kind) {
+      case 'workflow':
+        return !!(await this.prisma.workflow.findFirst({ where, select }));
+      case 'execution':
+        return !!(await this.prisma.workflowExecution.findFirst({ where, select }));
+      case 'conversation':
+        return !!(await this.prisma.conversation.findFirst({ where, select }));
+      default:
+        return false;
+    }
   }
 
   /**
@@ -80,36 +205,32 @@ export class WebsocketGateway implements OnGatewayConnection, OnGatewayDisconnec
     // Listen to all event types
     Object.values(EventType).forEach((eventType) => {
       this.eventBus.on(eventType, (event: WorkflowEvent) => {
-        this.broadcastToTenant(event.tenantId, event);
+        this.broadcast(event);
       });
     });
   }
 
   /**
-   * Broadcast event to all clients of a tenant
+   * Broadcast event to the tenant feed, workflow, execution and conversation
+   * rooms it belongs to. Sockets in several of them still receive it once.
    */
-  private broadcastToTenant(tenantId: string, event: WorkflowEvent) {
-    console.log(`Broadcasting event ${event.type} to tenant:${tenantId}`);
-    this.server.to(`tenant:${tenantId}`).emit('workflow:event', event);
+  private broadcast(event: WorkflowEvent) {
+    const rooms = eventRooms(event);
+    if (!rooms.length) return;
+
+    console.log(`Broadcasting event ${event.type} to ${rooms.join(', ')}`);
+    this.server.to(rooms).emit('workflow:event', event);
 
     // Also emit with the event type as the event name for onRaw listeners
     if (event.type.toString().startsWith('inbox:')) {
-      this.server.to(`tenant:${tenantId}`).emit(event.type, event);
+      this.server.to(rooms).emit(event.type, event);
     }
   }
 
-  /**
-   * Send event to specific execution
-   */
-  sendToExecution(tenantId: string, executionId: string, event: any) {
-    this.server.to(`tenant:${tenantId}`).emit(`execution:${executionId}`, event);
-  }
-
   @OnEvent('session.disconnected')
   handleSessionDisconnected(payload: any) {
     this.server
-      .to(`tenant:${payload.tenantId}`)
+      .to(`sessions:${payload.tenantId}`)
       .emit('session.disconnected', payload);
   }
 }
-
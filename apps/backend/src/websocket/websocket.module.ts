@@ -1,12 +1,9 @@
 import { Module } from '@nestjs/common';
 import { WebsocketGateway } from './websocket.gateway';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
+  imports: [AuthModule],
   providers: [WebsocketGateway],
 })
 export class WebsocketModule {}
-
-
-
-
-
@@ -0,0 +1,122 @@
+import { Injectable, Inject, forwardRef } from '@nestjs/common';
+import { MessageStatus } from '@prisma/client';
+import { TriggerCallConfig, WhatsappCallPolicy, WorkflowNodeType } from '@n9n/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { InboxService } from '../inbox/inbox.service';
+import { ExecutionEngineService } from '../execution/execution-engine.service';
+import { WhatsappSenderService } from '../execution/whatsapp-sender.service';
+import { matchesCallTrigger, getCallNotice } from './call.util';
+
+/** The parts of a Baileys call offer we use */
+export interface IncomingCall {
+  id: string;
+  from: string;
+  isVideo?: boolean;
+  isGroup?: boolean;
+  date?: Date;
+}
+
+/**
+ * Applies the session call policy to incoming calls, logs them to the inbox
+ * and starts TRIGGER_CALL workflows.
+ */
+@Injectable()
+export class CallHandlerService {
+  constructor(
+    private prisma: PrismaService,
+    @Inject(forwardRef(() => InboxService))
+    private inboxService: InboxService,
+    private executionEngine: ExecutionEngineService,
+    private whatsappSender: WhatsappSenderService,
+  ) { }
+
+  async handleCall(tenantId: string, sessionId: string, call: IncomingCall, reject: () => Promise<void>): Promise<void> {
+    const session = await this.prisma.whatsappSession.findUnique({
+      where: { id: sessionId },
+      select: { callPolicy: true, callRejectMessage: true },
+    });
+    const policy = (session?.callPolicy || 'ignore') as WhatsappCallPolicy;
+    const rejected = policy !== 'ignore';
+    const isVideo = !!call.isVideo;
+
+    console.log(`[CALL] Session ${sessionId}: ${isVideo ? 'video' : 'voice'} call ${call.id} from ${call.from} (policy: ${policy})`);
+
+    if (rejected) {
+      await reject();
+    }
+
+    // Group calls have no single contact to log or answer
+    if (call.isGroup) return;
+
+    const contactPhone = call.from;
+    const timestamp = call.date ? new Date(call.date) : new Date();
+    const notice = getCallNotice(isVideo, rejected);
+
+    const conversation = await this.inboxService.upsertConversation(tenantId, sessionId, contactPhone, {
+      lastMessage: notice,
+      lastMessageAt: timestamp,
+      unreadCount: { increment: 1 } as any,
+    });
+    await this.inboxService.saveMessage(conversation.id, {
+      whatsappMessageId: `call-${call.id}`,
+      content: notice,
+      fromMe: false,
+      isSystem: true,
+      timestamp,
+      status: MessageStatus.DELIVERED,
+    });
+
+    const rejectMessage = session?.callRejectMessage?.trim();
+    if (policy === 'reject_message' && rejectMessage) {
+      await this.whatsappSender.sendMessage(sessionId, contactPhone, rejectMessage)
+        .catch((e) => console.error(`[CALL] Failed to send reject message to ${contactPhone}:`, e.message));
+    }
+
+    await this.startCallWorkflows(tenantId, sessionId, contactPhone, call, rejected);
+  }
+
+  /**
+   * Start the first active workflow whose TRIGGER_CALL matches the call
+   */
+  private async startCallWorkflows(
+    tenantId: string,
+    sessionId: string,
+    contactPhone: string,
+    call: IncomingCall,
+    rejected: boolean,
+  ): Promise<void> {
+    const workflows = await this.prisma.workflow.findMany({
+      where: { tenantId, isActive: true, NOT: { id: { startsWith: 'shadow-' } } },
+    });
+
+    for (const workflow of workflows) {
+      const nodes = (workflow.nodes as any[]) || [];
+      const edges = (workflow.edges as any[]) || [];
+      const triggerNode = nodes.find((n) => n.type === WorkflowNodeType.TRIGGER_CALL && edges.some((e) => e.source === n.id));
+      if (!triggerNode) continue;
+
+      const config = (triggerNode.config || {}) as TriggerCallConfig;
+      if (!matchesCallTrigger(config, sessionId, !!call.isVideo)) continue;
+
+      const callInfo = { id: call.id, isVideo: !!call.isVideo, rejected };
+      try {
+        console.log(`[CALL] Starting workflow ${workflow.id} for call ${call.id} from ${contactPhone}`);
+        await this.executionEngine.startExecution(
+          tenantId,
+          workflow.id,
+          sessionId,
+          contactPhone,
+          undefined,
+          { type: 'call', callId: call.id, from: contactPhone, isVideo: callInfo.isVideo, rejected, timestamp: Date.now() },
+          {
+            triggerType: WorkflowNodeType.TRIGGER_CALL,
+            initialContext: { variables: { call: callInfo } },
+          },
+        );
+      } catch (error) {
+        console.warn(`[CALL] Could not start workflow ${workflow.id} for ${contactPhone}: ${error.message}`);
+      }
+      break; // Only the first matching workflow, as with message triggers
+    }
+  }
+}
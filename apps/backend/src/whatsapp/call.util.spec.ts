@@ -0,0 +1,16 @@
+import { matchesCallTrigger, getCallNotice } from './call.util';
+
+describe('call.util', () => {
+  it('should match call triggers by session and call type', () => {
+    expect(matchesCallTrigger({}, 's1', false)).toBe(true);
+    expect(matchesCallTrigger({ sessionId: 's2' }, 's1', false)).toBe(false);
+    expect(matchesCallTrigger({ callType: 'voice' }, 's1', true)).toBe(false);
+    expect(matchesCallTrigger({ callType: 'video' }, 's1', true)).toBe(true);
+    expect(matchesCallTrigger({ callType: 'any' }, 's1', true)).toBe(true);
+  });
+
+  it('should describe the call for the inbox', () => {
+    expect(getCallNotice(false, false)).toBe('📞 Chamada de voz recebida');
+    expect(getCallNotice(true, true)).toBe('📞 Chamada de vídeo recebida (rejeitada automaticamente)');
+  });
+});
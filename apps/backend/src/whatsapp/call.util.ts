@@ -0,0 +1,17 @@
+import { TriggerCallConfig, WhatsappCallPolicy } from '@n9n/shared';
+
+export const CALL_POLICIES: WhatsappCallPolicy[] = ['ignore', 'reject', 'reject_message'];
+
+/** Whether a TRIGGER_CALL listens to this session and kind of call */
+export function matchesCallTrigger(config: Partial<TriggerCallConfig>, sessionId: string, isVideo: boolean): boolean {
+  if (config.sessionId && config.sessionId !== sessionId) return false;
+  if (config.callType === 'voice') return !isVideo;
+  if (config.callType === 'video') return isVideo;
+  return true;
+}
+
+/** Inbox notice for an incoming call */
+export function getCallNotice(isVideo: boolean, rejected: boolean): string {
+  const kind = isVideo ? 'Chamada de vídeo' : 'Chamada de voz';
+  return rejected ? `📞 ${kind} recebida (rejeitada automaticamente)` : `📞 ${kind} recebida`;
+}
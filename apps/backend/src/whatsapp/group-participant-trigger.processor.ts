@@ -0,0 +1,29 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { Injectable, Logger } from '@nestjs/common';
+import {
+    GroupParticipantsService,
+    GROUP_PARTICIPANT_TRIGGER_QUEUE,
+    ParticipantTriggerJobData,
+} from './group-participants.service';
+
+/**
+ * Fires TRIGGER_GROUP_JOIN / TRIGGER_GROUP_LEAVE workflows once their debounce
+ * window ends. Jobs live in Redis, so pending batches survive restarts and are
+ * fired by exactly one replica.
+ */
+@Processor(GROUP_PARTICIPANT_TRIGGER_QUEUE, { concurrency: 5 })
+@Injectable()
+export class GroupParticipantTriggerProcessor extends WorkerHost {
+    private readonly logger = new Logger(GroupParticipantTriggerProcessor.name);
+
+    constructor(private groupParticipants: GroupParticipantsService) {
+        super();
+    }
+
+    async process(job: Job<ParticipantTriggerJobData>): Promise<void> {
+        const { triggerType, workflowId, groupJid } = job.data;
+        this.logger.log(`Firing ${triggerType} for workflow ${workflowId} in ${groupJid}`);
+        await this.groupParticipants.flushTrigger(job.data);
+    }
+}
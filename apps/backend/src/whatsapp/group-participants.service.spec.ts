@@ -0,0 +1,115 @@
+import { WorkflowNodeType } from '@n9n/shared';
+import { GroupParticipantsService } from './group-participants.service';
+
+describe('GroupParticipantsService - trigger debounce', () => {
+  let pending: Map<string, Set<string>>;
+  let prisma: {
+    groupMembershipEvent: { createMany: jest.Mock };
+    workflow: { findMany: jest.Mock };
+    whatsappGroupConfig: { findMany: jest.Mock; findFirst: jest.Mock };
+  };
+  let queue: { add: jest.Mock };
+  let executionEngine: { startExecution: jest.Mock };
+  let service: GroupParticipantsService;
+
+  // Enough of an ioredis MULTI for SADD/EXPIRE/SMEMBERS/DEL on sets
+  const multi = () => {
+    const ops: (() => [null, unknown])[] = [];
+    const chain = {
+      sadd: (key: string, ...members: string[]) => {
+        ops.push(() => {
+          const set = pending.get(key) || new Set<string>();
+          members.forEach((m) => set.add(m));
+          pending.set(key, set);
+          return [null, members.length];
+        });
+        return chain;
+      },
+      expire: () => { ops.push(() => [null, 1]); return chain; },
+      smembers: (key: string) => { ops.push(() => [null, Array.from(pending.get(key) || [])]); return chain; },
+      del: (key: string) => { ops.push(() => [null, pending.delete(key) ? 1 : 0]); return chain; },
+      exec: async () => ops.map((op) => op()),
+    };
+    return chain;
+  };
+
+  const join = (participants: string[]) => service.handleUpdate('tenant-1', 'session-1', {
+    id: 'group-1@g.us',
+    action: 'add',
+    participants,
+  }, 'bot@s.whatsapp.net');
+
+  beforeEach(() => {
+    pending = new Map();
+    prisma = {
+      groupMembershipEvent: { createMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      workflow: {
+        findMany: jest.fn().mockResolvedValue([{
+          id: 'wf-1',
+          nodes: [{ id: 'trigger', type: WorkflowNodeType.TRIGGER_GROUP_JOIN, config: { target: 'dm', debounceSeconds: 30 } }],
+          edges: [{ source: 'trigger', target: 'welcome' }],
+        }]),
+      },
+      whatsappGroupConfig: {
+        findMany: jest.fn().mockResolvedValue([{ groupId: 'group-1@g.us' }]),
+        findFirst: jest.fn().mockResolvedValue({ name: 'Clientes VIP' }),
+      },
+    };
+    queue = { add: jest.fn().mockResolvedValue({}) };
+    executionEngine = { startExecution: jest.fn().mockResolvedValue(undefined) };
+
+    service = new GroupParticipantsService(
+      prisma as any,
+      { getClient: () => ({ multi }) } as any,
+      {} as any,
+      executionEngine as any,
+      queue as any,
+    );
+  });
+
+  it('should collect participants of the window under one delayed job', async () => {
+    await join(['5511111111111@s.whatsapp.net', 'bot@s.whatsapp.net']);
+    await join(['5522222222222@s.whatsapp.net']);
+
+    const jobIds = queue.add.mock.calls.map(([, , opts]) => opts.jobId);
+    expect(jobIds).toEqual([
+      'participants-wf-1-group-1@g.us-TRIGGER_GROUP_JOIN',
+      'participants-wf-1-group-1@g.us-TRIGGER_GROUP_JOIN',
+    ]);
+    expect(queue.add).toHaveBeenCalledWith('flush', expect.objectContaining({ workflowId: 'wf-1', target: 'dm' }), expect.objectContaining({
+      delay: 30000,
+      removeOnComplete: true,
+    }));
+    expect(Array.from(pending.get('group-participants:pending:wf-1:group-1@g.us:TRIGGER_GROUP_JOIN') || [])).toEqual([
+      '5511111111111@s.whatsapp.net',
+      '5522222222222@s.whatsapp.net',
+    ]);
+  });
+
+  it('should start one DM execution per collected participant when the job fires', async () => {
+    await join(['5511111111111@s.whatsapp.net', '5522222222222@s.whatsapp.net']);
+
+    await service.flushTrigger(queue.add.mock.calls[0][1]);
+
+    expect(executionEngine.startExecution).toHaveBeenCalledTimes(2);
+    expect(executionEngine.startExecution).toHaveBeenCalledWith(
+      'tenant-1', 'wf-1', 'session-1', '5511111111111@s.whatsapp.net', undefined,
+      expect.objectContaining({ type: 'group_participants', action: 'add' }),
+      expect.objectContaining({
+        triggerType: WorkflowNodeType.TRIGGER_GROUP_JOIN,
+        initialContext: { variables: { groupParticipant: expect.objectContaining({ groupName: 'Clientes VIP', phone: '5511111111111' }) } },
+      }),
+    );
+    expect(pending.size).toBe(0);
+  });
+
+  it('should do nothing when the window was already flushed', async () => {
+    await join(['5511111111111@s.whatsapp.net']);
+    const data = queue.add.mock.calls[0][1];
+
+    await service.flushTrigger(data);
+    await service.flushTrigger(data);
+
+    expect(executionEngine.startExecution).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,263 @@
+import { Injectable } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import {
+  ExecutionStatus,
+  GroupParticipantAction,
+  GroupParticipantTriggerConfig,
+  GrupoWaitConfig,
+  WorkflowNodeType,
+} from '@n9n/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { ExecutionService } from '../execution/execution.service';
+import { ExecutionEngineService } from '../execution/execution-engine.service';
+import {
+  DEFAULT_PARTICIPANT_DEBOUNCE_SECONDS,
+  getParticipantTriggerType,
+  matchesParticipantTrigger,
+  toParticipantJid,
+} from './group-participants.util';
+
+export interface GroupParticipantsUpdate {
+  id: string;
+  author?: string;
+  participants: (string | { id?: string; phoneNumber?: string })[];
+  action: GroupParticipantAction | string;
+}
+
+export const GROUP_PARTICIPANT_TRIGGER_QUEUE = 'group-participant-triggers';
+
+export interface ParticipantTriggerJobData {
+  tenantId: string;
+  sessionId: string;
+  workflowId: string;
+  triggerType: WorkflowNodeType;
+  target: 'dm' | 'group';
+  groupJid: string;
+  action: GroupParticipantAction;
+}
+
+/**
+ * Consumes group-participants.update: keeps the membership history, fires
+ * TRIGGER_GROUP_JOIN / TRIGGER_GROUP_LEAVE workflows and cancels GRUPO_WAIT
+ * nodes set to stop when the participant leaves.
+ */
+@Injectable()
+export class GroupParticipantsService {
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private executionService: ExecutionService,
+    private executionEngine: ExecutionEngineService,
+    @InjectQueue(GROUP_PARTICIPANT_TRIGGER_QUEUE) private triggerQueue: Queue,
+  ) { }
+
+  async handleUpdate(tenantId: string, sessionId: string, update: GroupParticipantsUpdate, ownJid?: string): Promise<void> {
+    const groupJid = update.id;
+    const action = update.action as GroupParticipantAction;
+    if (!['add', 'remove', 'promote', 'demote'].includes(action)) return;
+
+    const participantJids = (update.participants || [])
+      .map((p) => toParticipantJid(p))
+      .filter((jid): jid is string => !!jid);
+    if (participantJids.length === 0) return;
+
+    console.log(`[GROUP PARTICIPANTS] ${action} ${participantJids.length} participant(s) in ${groupJid} (session ${sessionId})`);
+
+    await this.prisma.groupMembershipEvent.createMany({
+      data: participantJids.map((participantJid) => ({
+        tenantId,
+        sessionId,
+        groupJid,
+        participantJid,
+        action,
+        authorJid: update.author && update.author !== participantJid ? update.author : null,
+      })),
+    });
+
+    if (action === 'remove') {
+      await this.cancelLeftGroupWaits(tenantId, sessionId, groupJid, participantJids, ownJid);
+    }
+
+    const triggerType = getParticipantTriggerType(action);
+    if (!triggerType) return;
+
+    // The bot joining or leaving a group is not a member event for flows
+    const members = participantJids.filter((jid) => jid !== ownJid);
+    if (members.length > 0) {
+      await this.queueTriggers(tenantId, sessionId, groupJid, action, triggerType, members);
+    }
+  }
+
+  /**
+   * Latest membership events of a group, newest first
+   */
+  async getMembershipHistory(tenantId: string, groupJid: string, limit = 100) {
+    return this.prisma.groupMembershipEvent.findMany({
+      where: { tenantId, groupJid },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(limit, 1), 500),
+    });
+  }
+
+  private async queueTriggers(
+    tenantId: string,
+    sessionId: string,
+    groupJid: string,
+    action: GroupParticipantAction,
+    triggerType: WorkflowNodeType,
+    participantJids: string[],
+  ): Promise<void> {
+    const workflows = await this.prisma.workflow.findMany({
+      where: { tenantId, isActive: true, NOT: { id: { startsWith: 'shadow-' } } },
+    });
+    if (workflows.length === 0) return;
+
+    const enabledGroups = await this.prisma.whatsappGroupConfig.findMany({
+      where: { sessionId, enabled: true },
+      select: { groupId: true },
+    });
+    const enabledGroupJids = enabledGroups.map((g) => g.groupId);
+
+    for (const workflow of workflows) {
+      const nodes = (workflow.nodes as any[]) || [];
+      const edges = (workflow.edges as any[]) || [];
+      const triggerNode = nodes.find((n) => n.type === triggerType && edges.some((e) => e.source === n.id));
+      if (!triggerNode) continue;
+
+      const config = (triggerNode.config || {}) as GroupParticipantTriggerConfig;
+      if (!matchesParticipantTrigger(config, sessionId, groupJid, enabledGroupJids)) continue;
+
+      const data: ParticipantTriggerJobData = {
+        tenantId,
+        sessionId,
+        workflowId: workflow.id,
+        triggerType,
+        target: config.target === 'group' ? 'group' : 'dm',
+        groupJid,
+        action,
+      };
+      const debounceSeconds = Math.max(0, config.debounceSeconds ?? DEFAULT_PARTICIPANT_DEBOUNCE_SECONDS);
+
+      // Participants of the window live in Redis; the delayed job has one id per
+      // workflow+group+trigger, so events arriving while it is pending only join the set
+      const pendingKey = this.pendingKey(data);
+      await this.redis.getClient().multi()
+        .sadd(pendingKey, ...participantJids)
+        .expire(pendingKey, debounceSeconds + 3600)
+        .exec();
+
+      await this.triggerQueue.add('flush', data, {
+        jobId: `participants-${workflow.id}-${groupJid}-${triggerType}`,
+        delay: debounceSeconds * 1000,
+        removeOnComplete: true,
+        removeOnFail: true,
+      });
+    }
+  }
+
+  /**
+   * Start the workflow for everyone collected in the window: once in the
+   * group, or one DM execution per participant. Called by GroupParticipantTriggerProcessor.
+   */
+  async flushTrigger(data: ParticipantTriggerJobData): Promise<void> {
+    const pendingKey = this.pendingKey(data);
+    const results = await this.redis.getClient().multi().smembers(pendingKey).del(pendingKey).exec();
+    const jids = (results?.[0]?.[1] as string[]) || [];
+    if (jids.length === 0) return;
+
+    const { tenantId, sessionId, workflowId, triggerType, groupJid, action } = data;
+    const participants = jids.map((jid) => ({
+      jid,
+      phone: jid.split('@')[0],
+    }));
+
+    const groupConfig = await this.prisma.whatsappGroupConfig.findFirst({
+      where: { sessionId, groupId: groupJid },
+      select: { name: true },
+    });
+    const groupName = groupConfig?.name || groupJid;
+    const triggerPayload = { type: 'group_participants', action, groupJid, participants: participants.map((p) => p.jid) };
+
+    if (data.target === 'group') {
+      console.log(`[GROUP PARTICIPANTS] Firing ${triggerType} workflow ${workflowId} in group ${groupJid} for ${participants.length} participant(s)`);
+      await this.executionEngine.startExecution(tenantId, workflowId, sessionId, groupJid, undefined, triggerPayload, {
+        triggerType,
+        initialContext: {
+          variables: {
+            groupJid,
+            groupName,
+            groupParticipants: participants,
+          },
+        },
+      });
+      return;
+    }
+
+    for (const participant of participants) {
+      try {
+        console.log(`[GROUP PARTICIPANTS] Firing ${triggerType} workflow ${workflowId} for ${participant.jid} (group ${groupJid})`);
+        await this.executionEngine.startExecution(tenantId, workflowId, sessionId, participant.jid, undefined, triggerPayload, {
+          triggerType,
+          initialContext: {
+            variables: {
+              // Not `groupJid`: that would turn this into a group flow
+              groupParticipant: { groupJid, groupName, action, ...participant },
+            },
+          },
+        });
+      } catch (error) {
+        console.warn(`[GROUP PARTICIPANTS] Could not start workflow ${workflowId} for ${participant.jid}: ${error.message}`);
+      }
+    }
+  }
+
+  private pendingKey(data: ParticipantTriggerJobData): string {
+    return `group-participants:pending:${data.workflowId}:${data.groupJid}:${data.triggerType}`;
+  }
+
+  /**
+   * Cancel waiting GRUPO_WAIT nodes with cancelIfLeftGroup: DM flows of the
+   * participants who left, or the group's own flows when the bot was removed
+   */
+  private async cancelLeftGroupWaits(
+    tenantId: string,
+    sessionId: string,
+    groupJid: string,
+    participantJids: string[],
+    ownJid?: string,
+  ): Promise<void> {
+    const botLeft = !!ownJid && participantJids.includes(ownJid);
+    const contactPhones = botLeft ? [groupJid, ...participantJids] : participantJids;
+
+    const waiting = await this.prisma.workflowExecution.findMany({
+      where: { tenantId, sessionId, status: ExecutionStatus.WAITING, contactPhone: { in: contactPhones } },
+      select: { id: true },
+    });
+
+    for (const { id } of waiting) {
+      try {
+        const execution = await this.executionService.getExecution(tenantId, id);
+        if (!execution) continue;
+
+        const workflow = await this.executionEngine.getExecutionWorkflow(execution);
+        const node = workflow?.nodes.find((n) => n.id === execution.currentNodeId);
+        if (node?.type !== WorkflowNodeType.GRUPO_WAIT) continue;
+
+        const config = node.config as GrupoWaitConfig;
+        if (!config.cancelIfLeftGroup) continue;
+
+        const waitGroupJid = config.groupJid
+          || execution.context?.variables?.groupJid
+          || execution.context?.variables?.groupParticipant?.groupJid;
+        if (waitGroupJid !== groupJid) continue;
+
+        console.log(`[GROUP PARTICIPANTS] Cancelling execution ${execution.id}: ${execution.contactPhone} left ${groupJid}`);
+        await this.executionEngine.cancelExecution(execution);
+      } catch (error) {
+        console.error(`[GROUP PARTICIPANTS] Failed to cancel execution ${id}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { WorkflowNodeType } from '@n9n/shared';
+import { toParticipantJid, getParticipantTriggerType, matchesParticipantTrigger } from './group-participants.util';
+
+describe('group-participants.util', () => {
+  it('should read participant jids from strings and objects', () => {
+    expect(toParticipantJid('5511999999999@s.whatsapp.net')).toBe('5511999999999@s.whatsapp.net');
+    expect(toParticipantJid({ id: '123@lid', phoneNumber: '5511999999999@s.whatsapp.net' })).toBe('5511999999999@s.whatsapp.net');
+    expect(toParticipantJid({ id: '123@lid' })).toBe('123@lid');
+    expect(toParticipantJid(null)).toBeNull();
+  });
+
+  it('should only fire triggers for joins and leaves', () => {
+    expect(getParticipantTriggerType('add')).toBe(WorkflowNodeType.TRIGGER_GROUP_JOIN);
+    expect(getParticipantTriggerType('remove')).toBe(WorkflowNodeType.TRIGGER_GROUP_LEAVE);
+    expect(getParticipantTriggerType('promote')).toBeNull();
+  });
+
+  it('should match explicit groups, or enabled groups when none are listed', () => {
+    expect(matchesParticipantTrigger({ groupJids: ['g1@g.us'] }, 's1', 'g1@g.us', [])).toBe(true);
+    expect(matchesParticipantTrigger({ groupJids: ['g1@g.us'] }, 's1', 'g2@g.us', ['g2@g.us'])).toBe(false);
+    expect(matchesParticipantTrigger({}, 's1', 'g2@g.us', ['g2@g.us'])).toBe(true);
+    expect(matchesParticipantTrigger({}, 's1', 'g3@g.us', ['g2@g.us'])).toBe(false);
+    expect(matchesParticipantTrigger({ sessionId: 's2' }, 's1', 'g2@g.us', ['g2@g.us'])).toBe(false);
+  });
+});
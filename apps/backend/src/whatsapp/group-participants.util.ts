@@ -0,0 +1,36 @@
+import { GroupParticipantAction, GroupParticipantTriggerConfig, WorkflowNodeType } from '@n9n/shared';
+
+export const DEFAULT_PARTICIPANT_DEBOUNCE_SECONDS = 10;
+
+/**
+ * Baileys 7 emits participant objects (with phoneNumber for LID groups);
+ * older versions emit plain jids.
+ */
+export function toParticipantJid(participant: string | { id?: string; phoneNumber?: string } | null | undefined): string | null {
+  if (!participant) return null;
+  if (typeof participant === 'string') return participant;
+  return participant.phoneNumber || participant.id || null;
+}
+
+/** Trigger node type fired by a participant action, if any */
+export function getParticipantTriggerType(action: GroupParticipantAction): WorkflowNodeType | null {
+  if (action === 'add') return WorkflowNodeType.TRIGGER_GROUP_JOIN;
+  if (action === 'remove') return WorkflowNodeType.TRIGGER_GROUP_LEAVE;
+  return null;
+}
+
+/**
+ * Whether a participant trigger listens to this session and group. Without an
+ * explicit group list, only groups with the bot enabled count.
+ */
+export function matchesParticipantTrigger(
+  config: Partial<GroupParticipantTriggerConfig>,
+  sessionId: string,
+  groupJid: string,
+  enabledGroupJids: string[],
+): boolean {
+  if (config.sessionId && config.sessionId !== sessionId) return false;
+
+  const groupJids = (config.groupJids || []).filter(Boolean);
+  return groupJids.length > 0 ? groupJids.includes(groupJid) : enabledGroupJids.includes(groupJid);
+}
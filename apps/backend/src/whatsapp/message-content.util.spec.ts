@@ -0,0 +1,33 @@
+import { parseLocation, parseVcardPhones, parseContactCards } from './message-content.util';
+
+describe('message-content.util', () => {
+  it('should parse locations and live locations', () => {
+    expect(parseLocation({ locationMessage: { degreesLatitude: -23.5, degreesLongitude: -46.6, name: 'Loja', address: 'Rua A, 1' } }))
+      .toEqual({ latitude: -23.5, longitude: -46.6, name: 'Loja', address: 'Rua A, 1', url: undefined });
+    expect(parseLocation({ liveLocationMessage: { degreesLatitude: 1, degreesLongitude: 2 } }))
+      .toEqual({ latitude: 1, longitude: 2, name: undefined, live: true });
+    expect(parseLocation({ conversation: 'oi' })).toBeNull();
+  });
+
+  it('should read vCard phones, preferring the WhatsApp id', () => {
+    const vcard = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Maria',
+      'item1.TEL;waid=5511999999999:+55 11 99999-9999',
+      'TEL;type=HOME:+55 (21) 3333-4444',
+      'END:VCARD',
+    ].join('\n');
+    expect(parseVcardPhones(vcard)).toEqual(['5511999999999', '552133334444']);
+    expect(parseVcardPhones('')).toEqual([]);
+  });
+
+  it('should parse single and multiple contact cards', () => {
+    const vcard = 'BEGIN:VCARD\nTEL;waid=5511988887777:+55 11 98888-7777\nEND:VCARD';
+    expect(parseContactCards({ contactMessage: { displayName: 'João', vcard } }))
+      .toEqual([{ name: 'João', phones: ['5511988887777'], vcard }]);
+    expect(parseContactCards({ contactsArrayMessage: { contacts: [{ displayName: 'A', vcard }, { displayName: 'B' }] } }))
+      .toHaveLength(2);
+    expect(parseContactCards({ conversation: 'oi' })).toBeNull();
+  });
+});
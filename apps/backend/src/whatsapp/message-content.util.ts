@@ -0,0 +1,57 @@
+import type { proto } from '@whiskeysockets/baileys';
+import { MessageContactCard, MessageLocation } from '@n9n/shared';
+
+/** Location or live location share, null for anything else */
+export function parseLocation(m: proto.IMessage): MessageLocation | null {
+  const location = m.locationMessage;
+  if (location && location.degreesLatitude != null && location.degreesLongitude != null) {
+    return {
+      latitude: Number(location.degreesLatitude),
+      longitude: Number(location.degreesLongitude),
+      name: location.name || undefined,
+      address: location.address || undefined,
+      url: location.url || undefined,
+    };
+  }
+
+  const live = m.liveLocationMessage;
+  if (live && live.degreesLatitude != null && live.degreesLongitude != null) {
+    return {
+      latitude: Number(live.degreesLatitude),
+      longitude: Number(live.degreesLongitude),
+      name: live.caption || undefined,
+      live: true,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Phone numbers of a vCard. WhatsApp adds `waid=<digits>` to numbers that
+ * have an account; that id is preferred over the formatted number.
+ */
+export function parseVcardPhones(vcard: string): string[] {
+  const phones: string[] = [];
+  for (const line of (vcard || '').split(/\r?\n/)) {
+    if (!/^(item\d+\.)?TEL/i.test(line)) continue;
+    const waid = line.match(/waid=(\d+)/i);
+    const phone = waid ? waid[1] : line.slice(line.lastIndexOf(':') + 1).replace(/\D/g, '');
+    if (phone && !phones.includes(phone)) phones.push(phone);
+  }
+  return phones;
+}
+
+/** Shared contact card(s), null for anything else */
+export function parseContactCards(m: proto.IMessage): MessageContactCard[] | null {
+  const cards = m.contactMessage
+    ? [m.contactMessage]
+    : m.contactsArrayMessage?.contacts || null;
+  if (!cards || cards.length === 0) return null;
+
+  return cards.map((card) => ({
+    name: card.displayName || '',
+    phones: parseVcardPhones(card.vcard || ''),
+    vcard: card.vcard || '',
+  }));
+}
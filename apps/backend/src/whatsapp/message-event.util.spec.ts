@@ -0,0 +1,33 @@
+import { parseMessageEvent, applyReaction } from './message-event.util';
+
+describe('message-event.util', () => {
+  it('should parse reactions, including removals', () => {
+    expect(parseMessageEvent({ reactionMessage: { key: { id: 'M1' }, text: '👍' } }))
+      .toEqual({ type: 'reaction', targetMessageId: 'M1', text: '👍' });
+    expect(parseMessageEvent({ reactionMessage: { key: { id: 'M1' }, text: '' } }))
+      .toEqual({ type: 'reaction', targetMessageId: 'M1', text: '' });
+  });
+
+  it('should parse revokes and edits, wrapped or not', () => {
+    expect(parseMessageEvent({ protocolMessage: { key: { id: 'M2' }, type: 0 } }))
+      .toEqual({ type: 'delete', targetMessageId: 'M2', text: null });
+    expect(parseMessageEvent({
+      editedMessage: { message: { protocolMessage: { key: { id: 'M3' }, type: 14, editedMessage: { conversation: 'fixed' } } } },
+    })).toEqual({ type: 'edit', targetMessageId: 'M3', text: 'fixed' });
+    expect(parseMessageEvent({
+      protocolMessage: { key: { id: 'M4' }, type: 14, editedMessage: { extendedTextMessage: { text: 'again' } } },
+    })).toEqual({ type: 'edit', targetMessageId: 'M4', text: 'again' });
+  });
+
+  it('should ignore regular messages and other protocol messages', () => {
+    expect(parseMessageEvent({ conversation: 'hi' })).toBeNull();
+    expect(parseMessageEvent({ protocolMessage: { type: 3 } as any })).toBeNull();
+    expect(parseMessageEvent(null)).toBeNull();
+  });
+
+  it('should set and remove reactions per reactor', () => {
+    const reactions = applyReaction(null, 'a@s.whatsapp.net', '👍');
+    expect(reactions).toEqual({ 'a@s.whatsapp.net': '👍' });
+    expect(applyReaction({ ...reactions, me: '❤️' }, 'a@s.whatsapp.net', '')).toEqual({ me: '❤️' });
+  });
+});
@@ -0,0 +1,65 @@
+import type { proto } from '@whiskeysockets/baileys';
+
+/** Baileys proto.Message.ProtocolMessage.Type values */
+const PROTOCOL_REVOKE = 0;
+const PROTOCOL_MESSAGE_EDIT = 14;
+
+export interface ParsedMessageEvent {
+  type: 'reaction' | 'edit' | 'delete';
+  targetMessageId: string;
+  /** reaction: emoji ('' when removed); edit: new text; delete: null */
+  text: string | null;
+}
+
+/**
+ * Recognise reactions, edits and revokes, which arrive as regular upserts.
+ * Returns null for anything that is an actual message.
+ */
+export function parseMessageEvent(m: proto.IMessage | null | undefined): ParsedMessageEvent | null {
+  if (!m) return null;
+
+  if (m.reactionMessage) {
+    const targetMessageId = m.reactionMessage.key?.id;
+    if (!targetMessageId) return null;
+    return { type: 'reaction', targetMessageId, text: m.reactionMessage.text || '' };
+  }
+
+  // Edits may come wrapped in editedMessage (and messages in ephemeral chats in ephemeralMessage)
+  const protocol = m.protocolMessage
+    || m.editedMessage?.message?.protocolMessage
+    || m.ephemeralMessage?.message?.protocolMessage;
+  const targetMessageId = protocol?.key?.id;
+  if (!protocol || !targetMessageId) return null;
+
+  if (protocol.type === PROTOCOL_REVOKE) {
+    return { type: 'delete', targetMessageId, text: null };
+  }
+
+  if (protocol.type === PROTOCOL_MESSAGE_EDIT) {
+    const edited = protocol.editedMessage;
+    const text = edited?.conversation
+      || edited?.extendedTextMessage?.text
+      || edited?.imageMessage?.caption
+      || edited?.videoMessage?.caption
+      || edited?.documentMessage?.caption
+      || '';
+    return { type: 'edit', targetMessageId, text };
+  }
+
+  return null;
+}
+
+/** Next reactions map for a message after `reactor` reacted with `emoji` */
+export function applyReaction(
+  reactions: Record<string, string> | null | undefined,
+  reactor: string,
+  emoji: string,
+): Record<string, string> {
+  const next = { ...(reactions || {}) };
+  if (emoji) {
+    next[reactor] = emoji;
+  } else {
+    delete next[reactor];
+  }
+  return next;
+}
@@ -0,0 +1,25 @@
+import { statusFromUpdate, statusFromReceipt, getStatusesBefore } from './message-receipt.util';
+
+describe('message-receipt.util', () => {
+  it('should map message status updates', () => {
+    expect(statusFromUpdate(1)).toBeNull();
+    expect(statusFromUpdate(2)).toBeNull();
+    expect(statusFromUpdate(3)).toBe('DELIVERED');
+    expect(statusFromUpdate(4)).toBe('READ');
+    expect(statusFromUpdate(5)).toBe('READ');
+    expect(statusFromUpdate(undefined)).toBeNull();
+  });
+
+  it('should map per-recipient receipts', () => {
+    expect(statusFromReceipt({ receiptTimestamp: 1700000000 })).toBe('DELIVERED');
+    expect(statusFromReceipt({ receiptTimestamp: 1700000000, readTimestamp: 1700000100 })).toBe('READ');
+    expect(statusFromReceipt({ playedTimestamp: 1700000200 })).toBe('READ');
+    expect(statusFromReceipt({})).toBeNull();
+  });
+
+  it('should only let statuses move forward', () => {
+    expect(getStatusesBefore('SENT')).toEqual([]);
+    expect(getStatusesBefore('DELIVERED')).toEqual(['SENT']);
+    expect(getStatusesBefore('READ')).toEqual(['SENT', 'DELIVERED']);
+  });
+});
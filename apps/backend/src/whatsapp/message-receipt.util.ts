@@ -0,0 +1,36 @@
+import { MessageStatus } from '@prisma/client';
+import type { proto } from '@whiskeysockets/baileys';
+
+/** Baileys proto.WebMessageInfo.Status values */
+const WA_STATUS_DELIVERY_ACK = 3;
+const WA_STATUS_READ = 4;
+const WA_STATUS_PLAYED = 5;
+
+/** Receipts only move a message forward in this order */
+const STATUS_ORDER: MessageStatus[] = ['SENT', 'DELIVERED', 'READ'];
+
+/**
+ * Map a `messages.update` status to a MessageStatus.
+ * Pending/server acks are already SENT, so they map to null.
+ */
+export function statusFromUpdate(status?: number | null): MessageStatus | null {
+  if (status === WA_STATUS_READ || status === WA_STATUS_PLAYED) return 'READ';
+  if (status === WA_STATUS_DELIVERY_ACK) return 'DELIVERED';
+  return null;
+}
+
+/**
+ * Map a `message-receipt.update` receipt to a MessageStatus
+ */
+export function statusFromReceipt(
+  receipt: Pick<proto.IUserReceipt, 'receiptTimestamp' | 'readTimestamp' | 'playedTimestamp'>,
+): MessageStatus | null {
+  if (receipt.readTimestamp || receipt.playedTimestamp) return 'READ';
+  if (receipt.receiptTimestamp) return 'DELIVERED';
+  return null;
+}
+
+/** Statuses a message may be in for `status` to be an advance */
+export function getStatusesBefore(status: MessageStatus): MessageStatus[] {
+  return STATUS_ORDER.slice(0, STATUS_ORDER.indexOf(status));
+}
@@ -0,0 +1,91 @@
+import { ExecutionStatus } from '@n9n/shared';
+import { WhatsappMessageHandler } from './whatsapp-message-handler.service';
+import { HandoffService } from '../inbox/handoff.service';
+
+// Passed in below; its module pulls the Baileys session manager
+jest.mock('../inbox/inbox.service', () => ({ InboxService: class {} }));
+
+describe('WhatsappMessageHandler - human handoff', () => {
+  let prisma: {
+    conversation: { findUnique: jest.Mock };
+    contactFlowState: { findUnique: jest.Mock };
+    campaignLog: { findFirst: jest.Mock };
+    workflow: { findMany: jest.Mock };
+  };
+  let executionService: { getExecution: jest.Mock; getActiveExecution: jest.Mock };
+  let executionEngine: { resumeExecution: jest.Mock; startExecution: jest.Mock };
+  let inboxService: { upsertConversation: jest.Mock; saveMessage: jest.Mock };
+  let handler: WhatsappMessageHandler;
+
+  const waiting = {
+    id: 'exec-1',
+    tenantId: 'tenant-1',
+    workflowId: 'wf-1',
+    sessionId: 'session-1',
+    contactPhone: '5511999999999@s.whatsapp.net',
+    status: ExecutionStatus.WAITING,
+  };
+
+  const receive = () => handler.handleMessage('tenant-1', 'session-1', '5511999999999@s.whatsapp.net', 'oi');
+
+  beforeEach(() => {
+    prisma = {
+      conversation: { findUnique: jest.fn().mockResolvedValue({ handoffAt: null }) },
+      contactFlowState: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'state-1',
+          sessionId: 'session-1',
+          contactPhone: '5511999999999@s.whatsapp.net',
+          executionId: 'exec-1',
+          expiresAt: new Date(Date.now() + 60000),
+        }),
+      },
+      campaignLog: { findFirst: jest.fn().mockResolvedValue(null) },
+      workflow: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    executionService = {
+      getExecution: jest.fn().mockResolvedValue(waiting),
+      getActiveExecution: jest.fn().mockResolvedValue(null),
+    };
+    executionEngine = {
+      resumeExecution: jest.fn().mockResolvedValue(undefined),
+      startExecution: jest.fn().mockResolvedValue(undefined),
+    };
+    inboxService = {
+      upsertConversation: jest.fn().mockResolvedValue({ id: 'conv-1' }),
+      saveMessage: jest.fn().mockResolvedValue({}),
+    };
+    const handoffService = new HandoffService(prisma as any, {} as any, {} as any, {} as any);
+
+    handler = new WhatsappMessageHandler(
+      prisma as any,
+      executionService as any,
+      executionEngine as any,
+      inboxService as any,
+      handoffService,
+      { emit: jest.fn() } as any,
+    );
+  });
+
+  it('should resume the waiting execution while the bot owns the conversation', async () => {
+    await receive();
+
+    expect(executionEngine.resumeExecution).toHaveBeenCalledWith(waiting, 'oi', expect.objectContaining({ text: 'oi' }));
+  });
+
+  it('should neither resume nor trigger flows while a human handles the conversation', async () => {
+    prisma.conversation.findUnique.mockResolvedValue({ handoffAt: new Date() });
+
+    await receive();
+
+    expect(prisma.conversation.findUnique).toHaveBeenCalledWith({
+      where: { sessionId_contactPhone: { sessionId: 'session-1', contactPhone: '5511999999999@s.whatsapp.net' } },
+      select: { handoffAt: true },
+    });
+    expect(inboxService.saveMessage).toHaveBeenCalled();
+    expect(prisma.contactFlowState.findUnique).not.toHaveBeenCalled();
+    expect(executionEngine.resumeExecution).not.toHaveBeenCalled();
+    expect(prisma.workflow.findMany).not.toHaveBeenCalled();
+    expect(executionEngine.startExecution).not.toHaveBeenCalled();
+  });
+});
@@ -4,6 +4,7 @@ import { ExecutionService } from '../execution/execution.service';
 import { ExecutionEngineService } from '../execution/execution-engine.service';
 import { WorkflowNodeType, ExecutionStatus, TriggerMessagePayload } from '@n9n/shared';
 import { InboxService } from '../inbox/inbox.service';
+import { HandoffService } from '../inbox/handoff.service';
 import { MessageStatus } from '@prisma/client';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 
@@ -15,6 +16,8 @@ export class WhatsappMessageHandler {
     private executionEngine: ExecutionEngineService,
     @Inject(forwardRef(() => InboxService))
     private inboxService: InboxService,
+    @Inject(forwardRef(() => HandoffService))
+    private handoffService: HandoffService,
     private eventEmitter: EventEmitter2,
   ) { }
 
@@ -42,34 +45,50 @@ export class WhatsappMessageHandler {
       }
       : payload;
 
-    // --- CRM / Inbox Registration ---
-    const mediaPayload = normalizedPayload.media as any;
     const isGroup = contactPhone.endsWith('@g.us');
-    const messageContent = normalizedPayload.text || (normalizedPayload.media ? `[${mediaPayload?.mediaType || mediaPayload?.type || 'media'}]` : '');
 
-    const contactName = !normalizedPayload.fromMe ? ((normalizedPayload as any).contactName || undefined) : undefined;
+    // --- Reactions, edits and revokes ---
+    // They update the message they target instead of adding one to the inbox
+    const isMessageEvent = ['reaction', 'edit', 'delete'].includes(normalizedPayload.type);
+    if (isMessageEvent) {
+      const reactor = normalizedPayload.fromMe ? 'me' : ((normalizedPayload as any).participant || contactPhone);
+      await this.inboxService.applyMessageEvent(sessionId, normalizedPayload, reactor);
 
-    // Use InboxService to upsert conversation and save message
-    const conversation = await this.inboxService.upsertConversation(tenantId, sessionId, contactPhone, {
-      contactName,
-      lastMessage: messageContent,
-      lastMessageAt: new Date(normalizedPayload.timestamp),
-      unreadCount: normalizedPayload.fromMe ? undefined : { increment: 1 } as any,
-    });
+      // Only a reaction being added can answer or start a flow
+      if (normalizedPayload.type !== 'reaction' || !normalizedPayload.reaction) return;
+    } else {
+      // --- CRM / Inbox Registration ---
+      const mediaPayload = normalizedPayload.media as any;
+      const messageContent = normalizedPayload.text
+        || (normalizedPayload.media ? `[${mediaPayload?.mediaType || mediaPayload?.type || 'media'}]` : '')
+        || (['location', 'contacts', 'sticker'].includes(normalizedPayload.type) ? `[${normalizedPayload.type}]` : '');
+
+      const contactName = !normalizedPayload.fromMe ? ((normalizedPayload as any).contactName || undefined) : undefined;
+
+      // Use InboxService to upsert conversation and save message
+      const conversation = await this.inboxService.upsertConversation(tenantId, sessionId, contactPhone, {
+        contactName,
+        lastMessage: messageContent,
+        lastMessageAt: new Date(normalizedPayload.timestamp),
+        unreadCount: normalizedPayload.fromMe ? undefined : { increment: 1 } as any,
+      });
 
-    await this.inboxService.saveMessage(conversation.id, {
-      whatsappMessageId: normalizedPayload.messageId || undefined,
-      content: normalizedPayload.text || '',
-      mediaUrl: normalizedPayload.media?.url,
-      mediaType: mediaPayload?.mediaType || mediaPayload?.type || undefined,
-      fromMe: normalizedPayload.fromMe,
-      timestamp: new Date(normalizedPayload.timestamp),
-      status: MessageStatus.DELIVERED,
-    } as any);
-    // --- End CRM / Inbox Registration ---
+      await this.inboxService.saveMessage(conversation.id, {
+        whatsappMessageId: normalizedPayload.messageId || undefined,
+        content: normalizedPayload.text || '',
+        mediaUrl: normalizedPayload.media?.url || normalizedPayload.sticker?.url,
+        mediaType: mediaPayload?.mediaType || mediaPayload?.type || (normalizedPayload.sticker ? 'sticker' : undefined),
+        location: normalizedPayload.location,
+        contacts: normalizedPayload.contacts,
+        fromMe: normalizedPayload.fromMe,
+        timestamp: new Date(normalizedPayload.timestamp),
+        status: MessageStatus.DELIVERED,
+      } as any);
+      // --- End CRM / Inbox Registration ---
+    }
 
     // ── Reputation: detect contact reply for score boost ──────────────────
-    if (!normalizedPayload.fromMe && !skipTrigger && !contactPhone.endsWith('@g.us')) {
+    if (!normalizedPayload.fromMe && !skipTrigger && !isMessageEvent && !contactPhone.endsWith('@g.us')) {
       try {
         // Find the last campaign log for this phone to compute response time
         const lastCampaignLog = await this.prisma.campaignLog.findFirst({
@@ -116,6 +135,12 @@ export class WhatsappMessageHandler {
       return;
     }
 
+    // Human handoff: while an agent owns the conversation the bot neither resumes nor triggers
+    if (await this.handoffService.isHumanHandling(sessionId, contactPhone)) {
+      console.log(`[HANDOFF] Session ${sessionId}: ${contactPhone} is with a human agent, bot paused`);
+      return;
+    }
+
     // 2. Group Filtering: Check if message is from a group
     let whitelistedWorkflows: string[] = [];
     let isGroupEnabled = false;
@@ -538,7 +563,8 @@ export class WhatsappMessageHandler {
           // If no pattern is configured, only accept if media message without text or if we intentionally want catch-all
           // Actually, many users use empty pattern as "all messages".
           // We'll keep it but only if NOT explicitly disabled or if we're a specific trigger type.
-          matches = true;
+          // Reactions are not messages: they only start flows whose pattern names the emoji.
+          matches = payload.type !== 'reaction';
         } else {
           const fullPattern = pattern.toLowerCase();
 
@@ -31,6 +31,13 @@ import { MessageQueueService } from './message-queue.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { InboxService } from '../inbox/inbox.service';
 import { PushNotificationService } from './push-notification.service';
+import { statusFromUpdate, statusFromReceipt } from './message-receipt.util';
+import { parseMessageEvent } from './message-event.util';
+import { parseLocation, parseContactCards } from './message-content.util';
+import { MessageStatus } from '@prisma/client';
+import { PollService } from '../poll/poll.service';
+import { GroupParticipantsService } from './group-participants.service';
+import { CallHandlerService } from './call-handler.service';
 
 /**
  * Map of DDDs to Brazilian states
@@ -111,6 +118,9 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
     private pushNotification: PushNotificationService,
     @Inject(forwardRef(() => InboxService))
     private inboxService: InboxService,
+    private pollService: PollService,
+    private groupParticipants: GroupParticipantsService,
+    private callHandler: CallHandlerService,
   ) {
     this.readyPromise = new Promise((resolve) => {
       this.resolveReady = resolve;
@@ -164,8 +174,8 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
 
     // Register send poll callback
     this.whatsappSender.registerSendPoll(
-      (sessionId: string, contactPhone: string, name: string, values: string[], selectableCount: number) =>
-        this.sendPoll(sessionId, contactPhone, name, values, selectableCount)
+      (sessionId: string, contactPhone: string, name: string, values: string[], selectableCount: number, track?: { executionId?: string; nodeId?: string }) =>
+        this.sendPoll(sessionId, contactPhone, name, values, selectableCount, track)
     );
 
     // Register send message with mentions callback
@@ -337,9 +347,9 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Send message
+   * Send message. Resolves with the WhatsApp message id.
    */
-  async sendMessage(sessionId: string, contactPhone: string, message: string, bypassDelay: boolean = false): Promise<void> {
+  async sendMessage(sessionId: string, contactPhone: string, message: string, bypassDelay: boolean = false): Promise<string | undefined> {
     const sessionClient = this.resolveSessionClient(sessionId);
 
     if (!sessionClient) {
@@ -352,13 +362,14 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
 
     const jid = this.formatJid(contactPhone);
 
-    await this.messageQueue.enqueue(
+    return this.messageQueue.enqueue(
       sessionId,
       jid,
       sessionClient.socket,
       { type: 'text', payload: { text: message } },
       async () => {
-        await sessionClient.socket.sendMessage(jid, { text: message });
+        const sent = await sessionClient.socket.sendMessage(jid, { text: message });
+        return sent?.key?.id ?? undefined;
       },
       bypassDelay
     );
@@ -585,7 +596,7 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Send WhatsApp media (image, video, audio, document)
+   * Send WhatsApp media (image, video, audio, document). Resolves with the WhatsApp message id.
    */
   async sendMedia(
     sessionId: string,
@@ -601,7 +612,7 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
       ptt?: boolean;
       bypassDelay?: boolean;
     }
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     const sessionClient = this.resolveSessionClient(sessionId);
 
     if (!sessionClient) {
@@ -614,7 +625,7 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
 
     const jid = this.formatJid(contactPhone);
 
-    await this.messageQueue.enqueue(
+    return this.messageQueue.enqueue(
       sessionId,
       jid,
       sessionClient.socket,
@@ -663,7 +674,8 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
           messageContent.mentions = options.mentions;
         }
 
-        await sessionClient.socket.sendMessage(jid, messageContent);
+        const sent = await sessionClient.socket.sendMessage(jid, messageContent);
+        return sent?.key?.id ?? undefined;
       },
       options?.bypassDelay || false
     );
@@ -941,11 +953,57 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
           const remoteJid = msg.key.remoteJid || '';
           if (remoteJid === 'status@broadcast') continue;
 
+          // Poll votes arrive encrypted and are not regular messages
+          if (msg.message?.pollUpdateMessage) {
+            await this.handlePollUpdate(sessionId, msg);
+            continue;
+          }
+
           await this.handleIncomingMessage(tenantId, sessionId, msg);
         }
       }
     });
 
+    // Delivery/read receipts for messages we sent
+    socket.ev.on('messages.update', async (updates) => {
+      for (const { key, update } of updates) {
+        if (!key.fromMe || !key.id || key.remoteJid === 'status@broadcast') continue;
+        const status = statusFromUpdate(update.status);
+        if (status) await this.handleMessageReceipt(sessionId, key.id, status);
+      }
+    });
+
+    // Per-recipient receipts (groups, and read receipts on some clients)
+    socket.ev.on('message-receipt.update', async (updates) => {
+      for (const { key, receipt } of updates) {
+        if (!key.fromMe || !key.id || key.remoteJid === 'status@broadcast') continue;
+        const status = statusFromReceipt(receipt);
+        if (status) await this.handleMessageReceipt(sessionId, key.id, status);
+      }
+    });
+
+    // Joins, leaves, promotions and demotions in groups
+    socket.ev.on('group-participants.update', async (update) => {
+      try {
+        const ownJid = this.sessions.get(sessionId)?.ownJid;
+        await this.groupParticipants.handleUpdate(tenantId, sessionId, update, ownJid);
+      } catch (error) {
+        console.error(`[GROUP PARTICIPANTS] Failed to handle update for ${update.id}:`, error);
+      }
+    });
+
+    // Incoming voice/video calls: only the initial offer is acted upon
+    socket.ev.on('call', async (calls) => {
+      for (const call of calls) {
+        if (call.status !== 'offer') continue;
+        try {
+          await this.callHandler.handleCall(tenantId, sessionId, call, () => socket.rejectCall(call.id, call.from));
+        } catch (error) {
+          console.error(`[CALL] Failed to handle call ${call.id} from ${call.from}:`, error);
+        }
+      }
+    });
+
     socket.ev.on('messaging-history.set', async ({ messages, chats }) => {
       console.log(`[HISTORY] Session ${sessionId}: Received historical data (${messages.length} messages, ${chats.length} chats)`);
 
@@ -1017,6 +1075,25 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
     });
   }
 
+  /**
+   * Apply a receipt to the inbox message and the campaign log that sent it
+   */
+  private async handleMessageReceipt(sessionId: string, messageId: string, status: MessageStatus): Promise<void> {
+    try {
+      await this.inboxService.updateMessageStatus(sessionId, messageId, status);
+
+      const now = new Date();
+      const where = { sessionId, whatsappMessageId: messageId };
+      // Read implies delivered; some clients skip the delivery receipt
+      await this.prisma.campaignLog.updateMany({ where: { ...where, deliveredAt: null }, data: { deliveredAt: now } });
+      if (status === MessageStatus.READ) {
+        await this.prisma.campaignLog.updateMany({ where: { ...where, readAt: null }, data: { readAt: now } });
+      }
+    } catch (error) {
+      console.error(`[RECEIPT] Error applying ${status} receipt for message ${messageId}:`, error);
+    }
+  }
+
   /**
    * Handle incoming message
    */
@@ -1125,6 +1202,8 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
 
       // Attach pushName so inbox can store contactName
       (payload as any).contactName = msg.pushName || undefined;
+      // Group reactions are kept per participant
+      (payload as any).participant = msg.key.participant || undefined;
 
       await this.messageHandler.handleMessage(tenantId, sessionId, contactPhone, payload, skipTrigger, sessionClient?.ownJid);
     } catch (error) {
@@ -1194,7 +1273,7 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
         contactPhone,
         eventType: 'Lead',
         pixelId: pixel.pixelId,
-        accessToken: pixel.accessToken,
+        credentialId: pixel.credentialId,
         testEventCode: pixel.testEventCode,
         metadata: {
           adSourceId: externalAdReply?.sourceId || null,
@@ -1223,6 +1302,22 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
       return { messageId, from, fromMe: !!msg.key.fromMe, type: 'text', text: '', media: null, timestamp };
     }
 
+    // Reactions, edits and revokes act on an earlier message
+    const event = parseMessageEvent(m);
+    if (event) {
+      return {
+        messageId,
+        from,
+        fromMe: !!msg.key.fromMe,
+        type: event.type,
+        text: event.text,
+        media: null,
+        timestamp,
+        targetMessageId: event.targetMessageId,
+        ...(event.type === 'reaction' ? { reaction: event.text || '' } : {}),
+      };
+    }
+
     // Extract quoted message ID if exists
     const contextInfo = m.extendedTextMessage?.contextInfo ||
       (m as any).imageMessage?.contextInfo ||
@@ -1263,6 +1358,55 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
       text = m.interactiveMessage.body?.text || text;
     }
 
+    // Locations and contact cards are structured, with a readable text for matching
+    const location = parseLocation(m);
+    if (location) {
+      return {
+        messageId,
+        from,
+        fromMe: !!msg.key.fromMe,
+        type: 'location',
+        text: text || location.name || location.address || '',
+        media: null,
+        timestamp,
+        quotedMessageId,
+        location,
+      };
+    }
+
+    const contacts = parseContactCards(m);
+    if (contacts) {
+      return {
+        messageId,
+        from,
+        fromMe: !!msg.key.fromMe,
+        type: 'contacts',
+        text: text || contacts.map((c) => c.name).filter(Boolean).join(', '),
+        media: null,
+        timestamp,
+        quotedMessageId,
+        contacts,
+      };
+    }
+
+    if (m.stickerMessage) {
+      const stickerPayload: TriggerMessagePayload = { messageId, from, fromMe: !!msg.key.fromMe, type: 'sticker', text: '', media: null, timestamp, quotedMessageId };
+      try {
+        const stream = await this.baileys.downloadContentFromMessage(m.stickerMessage, 'sticker');
+        let buffer = Buffer.from([]);
+        for await (const chunk of stream) {
+          buffer = Buffer.concat([buffer, chunk]);
+        }
+
+        const mimeType = m.stickerMessage.mimetype || 'image/webp';
+        const uploadResult = await this.storageService.uploadMedia(buffer, mimeType, `sticker-${Date.now()}.webp`);
+        stickerPayload.sticker = { mimeType, url: uploadResult.url, animated: !!m.stickerMessage.isAnimated };
+      } catch (error: any) {
+        console.error('[BAILEYS] Sticker download failed:', error.message);
+      }
+      return stickerPayload;
+    }
+
     // Check for media
     const mediaType = this.getBaileysMediaType(m);
 
@@ -1469,21 +1613,64 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Decrypt a poll vote and record the voter's current selection
+   */
+  private async handlePollUpdate(sessionId: string, msg: WAMessage): Promise<void> {
+    const update = msg.message!.pollUpdateMessage!;
+    const pollMessageId = update.pollCreationMessageKey?.id;
+    if (!pollMessageId || !update.vote) return;
+
+    try {
+      const poll = await this.pollService.findBySessionMessage(sessionId, pollMessageId);
+      if (!poll) return;
+      if (!poll.messageSecret) {
+        console.warn(`[POLL] Poll ${poll.id} has no message secret, vote ignored`);
+        return;
+      }
+
+      const sessionClient = this.sessions.get(sessionId);
+      const voterJid = this.baileys.jidNormalizedUser(
+        msg.key.fromMe ? sessionClient?.ownJid : (msg.key.participant || msg.key.remoteJid),
+      );
+      const pollCreatorJid = this.baileys.jidNormalizedUser(poll.creatorJid || sessionClient?.ownJid);
+
+      const vote = this.baileys.decryptPollVote(update.vote, {
+        pollCreatorJid,
+        pollMsgId: poll.messageId,
+        pollEncKey: Buffer.from(poll.messageSecret, 'base64'),
+        voterJid,
+      });
+
+      await this.pollService.recordVote(poll.id, voterJid, vote.selectedOptions || []);
+      console.log(`[POLL] Vote from ${voterJid} recorded for poll ${poll.id}`);
+    } catch (error) {
+      console.error(`[POLL] Failed to process vote for poll message ${pollMessageId}:`, error);
+    }
+  }
+
   /**
    * Send WhatsApp poll message
    */
-  async sendPoll(sessionId: string, contactPhone: string, name: string, values: string[], selectableCount: number): Promise<void> {
+  async sendPoll(
+    sessionId: string,
+    contactPhone: string,
+    name: string,
+    values: string[],
+    selectableCount: number,
+    track?: { executionId?: string; nodeId?: string },
+  ): Promise<string | undefined> {
     const sessionClient = this.resolveSessionClient(sessionId);
     if (!sessionClient) throw new Error(`Session ${sessionId} not found`);
 
     const jid = this.formatJid(contactPhone);
-    await this.messageQueue.enqueue(
+    const sent = await this.messageQueue.enqueue(
       sessionId,
       jid,
       sessionClient.socket,
       { type: 'poll', payload: { name, values, selectableCount } },
       async () => {
-        await sessionClient.socket.sendMessage(jid, {
+        return sessionClient.socket.sendMessage(jid, {
           poll: {
             name,
             values,
@@ -1492,6 +1679,30 @@ export class WhatsappSessionManager implements OnModuleInit, OnModuleDestroy {
         });
       }
     );
+
+    if (!sent?.key?.id) return undefined;
+
+    // Keep the poll so incoming votes can be decrypted and counted
+    try {
+      const secret = sent.message?.messageContextInfo?.messageSecret;
+      const poll = await this.pollService.registerSentPoll({
+        tenantId: sessionClient.tenantId,
+        sessionId,
+        chatJid: jid,
+        messageId: sent.key.id,
+        creatorJid: sessionClient.ownJid,
+        messageSecret: secret ? Buffer.from(secret).toString('base64') : undefined,
+        name,
+        options: values,
+        selectableCount,
+        executionId: track?.executionId,
+        nodeId: track?.nodeId,
+      });
+      return poll.id;
+    } catch (error) {
+      console.error(`[POLL] Failed to register poll ${sent.key.id}:`, error);
+      return undefined;
+    }
   }
 
   /**
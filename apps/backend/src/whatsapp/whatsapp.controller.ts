@@ -9,38 +9,43 @@ import {
     HttpStatus,
     Delete,
     Param,
+    Query,
 } from '@nestjs/common';
 import { Tenant } from '../auth/decorators/tenant.decorator';
 import { WhatsappService } from './whatsapp.service';
 import { SessionHealthMonitorService } from './session-health-monitor.service';
+import { GroupParticipantsService } from './group-participants.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
-import { Roles } from '../auth/decorators/roles.decorator';
-import { UserRole } from '../auth/types/roles.enum';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Audit } from '../audit/audit.decorator';
+import { WhatsappCallPolicy } from '@n9n/shared';
 
 @Controller('whatsapp')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('sessions:view')
 export class WhatsappController {
     constructor(
         private readonly whatsappService: WhatsappService,
         private readonly healthMonitor: SessionHealthMonitorService,
+        private readonly groupParticipants: GroupParticipantsService,
     ) { }
 
     @Get('config')
-    @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+    @RequirePermissions('sessions:edit')
     async getGlobalConfig() {
         return this.whatsappService.getGlobalConfig();
     }
 
     @Post('config')
-    @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+    @RequirePermissions('sessions:edit')
     @HttpCode(HttpStatus.OK)
+    @Audit('whatsapp_config.update')
     async updateGlobalConfig(@Body() body: any) {
         return this.whatsappService.updateGlobalConfig(body);
     }
 
     @Get('groups/links')
-    @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
     async getGroupLinks(@Body() body: any, @Body('tenantId') bodyTenantId: string, @Body() req: any) {
         // We'll use a custom decorator or just extract tenantId from req in a real app,
         // but for now let's assume it's passed or available.
@@ -49,20 +54,34 @@ export class WhatsappController {
     }
 
     @Post('groups/links')
-    @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+    @RequirePermissions('sessions:edit')
+    @Audit('group_link.create')
     async createGroupLink(@Body() body: { groupJid: string, workflowId: string, tenantId: string }) {
         return this.whatsappService.createGroupLink(body.tenantId, body.groupJid, body.workflowId);
     }
 
     @Get('groups/offers')
-    @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
     async getGroupOffers(@Body('tenantId') tenantId: string) {
         return this.whatsappService.getGroupOffers(tenantId);
     }
 
+    /**
+     * GET /whatsapp/groups/:groupJid/membership
+     * Join/leave/promote/demote history of a group, newest first.
+     */
+    @Get('groups/:groupJid/membership')
+    async getGroupMembership(
+        @Tenant() tenantId: string,
+        @Param('groupJid') groupJid: string,
+        @Query('limit') limit?: string,
+    ) {
+        return this.groupParticipants.getMembershipHistory(tenantId, groupJid, limit ? parseInt(limit, 10) || 100 : 100);
+    }
+
     @Delete(':id')
-    @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+    @RequirePermissions('sessions:edit')
     @HttpCode(HttpStatus.OK)
+    @Audit('group_link.delete')
     async deleteGroupLink(@Param('id') id: string, @Body('tenantId') tenantId: string) {
         return this.whatsappService.deleteGroupLink(tenantId, id);
     }
@@ -81,7 +100,8 @@ export class WhatsappController {
      * Set or clear warmup override for a pre-warmed session.
      */
     @Put('sessions/:sessionId/warmup-override')
-    @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+    @RequirePermissions('sessions:edit')
+    @Audit('session.warmup_override', { param: 'sessionId' })
     async setWarmupOverride(
         @Tenant() tenantId: string,
         @Param('sessionId') sessionId: string,
@@ -89,4 +109,19 @@ export class WhatsappController {
     ) {
         return this.whatsappService.setWarmupOverride(tenantId, sessionId, body.override, body.userId);
     }
+
+    /**
+     * PUT /whatsapp/sessions/:sessionId/call-policy
+     * What the session does with incoming calls: ignore, reject, or reject and send a message.
+     */
+    @Put('sessions/:sessionId/call-policy')
+    @RequirePermissions('sessions:edit')
+    @Audit('session.call_policy', { param: 'sessionId' })
+    async setCallPolicy(
+        @Tenant() tenantId: string,
+        @Param('sessionId') sessionId: string,
+        @Body() body: { policy: WhatsappCallPolicy; message?: string },
+    ) {
+        return this.whatsappService.setCallPolicy(tenantId, sessionId, body.policy, body.message);
+    }
 }
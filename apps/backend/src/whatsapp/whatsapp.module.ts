@@ -1,4 +1,5 @@
 import { Module, OnModuleInit, forwardRef } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
 import { WhatsappService } from './whatsapp.service';
 import { WhatsappSessionManager } from './whatsapp-session-manager.service';
 import { WhatsappMessageHandler } from './whatsapp-message-handler.service';
@@ -14,12 +15,18 @@ import { PushNotificationService } from './push-notification.service';
 import { PushController } from './push.controller';
 import { InboxModule } from '../inbox/inbox.module';
 import { PrismaModule } from '../prisma/prisma.module';
+import { PollModule } from '../poll/poll.module';
+import { GroupParticipantsService, GROUP_PARTICIPANT_TRIGGER_QUEUE } from './group-participants.service';
+import { GroupParticipantTriggerProcessor } from './group-participant-trigger.processor';
+import { CallHandlerService } from './call-handler.service';
 
 @Module({
   imports: [
     ExecutionModule,
     StorageModule,
     PrismaModule,
+    PollModule,
+    BullModule.registerQueue({ name: GROUP_PARTICIPANT_TRIGGER_QUEUE }),
     forwardRef(() => InboxModule)
   ],
   controllers: [WhatsappController, PushController],
@@ -31,6 +38,9 @@ import { PrismaModule } from '../prisma/prisma.module';
     MessageQueueService,
     SessionHealthMonitorService,
     PushNotificationService,
+    GroupParticipantsService,
+    GroupParticipantTriggerProcessor,
+    CallHandlerService,
   ],
   exports: [WhatsappService, WhatsappSessionManager, MessageQueueService, SessionHealthMonitorService, PushNotificationService],
 })
@@ -1,6 +1,7 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { WhatsappSession, WhatsappSessionStatus } from '@n9n/shared';
+import { WhatsappSession, WhatsappSessionStatus, WhatsappCallPolicy } from '@n9n/shared';
+import { CALL_POLICIES } from './call.util';
 
 @Injectable()
 export class WhatsappService {
@@ -441,6 +442,8 @@ export class WhatsappService {
       qrCode: data.qrCode,
       phoneNumber: data.phoneNumber,
       isBusiness: data.isBusiness || false,
+      callPolicy: data.callPolicy,
+      callRejectMessage: data.callRejectMessage,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
     };
@@ -456,5 +459,28 @@ export class WhatsappService {
       },
     });
   }
+
+  async setCallPolicy(tenantId: string, sessionId: string, policy: WhatsappCallPolicy, message?: string): Promise<WhatsappSession> {
+    if (!CALL_POLICIES.includes(policy)) {
+      throw new BadRequestException(`Invalid call policy "${policy}"`);
+    }
+    if (policy === 'reject_message' && !message?.trim()) {
+      throw new BadRequestException('A message is required to reject calls with a message');
+    }
+
+    const existing = await this.prisma.whatsappSession.findFirst({
+      where: { id: sessionId, tenantId },
+      select: { id: true },
+    });
+    if (!existing) {
+      throw new NotFoundException('Session not found');
+    }
+
+    const session = await this.prisma.whatsappSession.update({
+      where: { id: existing.id },
+      data: { callPolicy: policy, callRejectMessage: message?.trim() || null },
+    });
+    return this.mapToSession(session);
+  }
 }
 
@@ -0,0 +1,40 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { Injectable, Logger } from '@nestjs/common';
+import {
+    ScheduleWorker,
+    SCHEDULE_QUEUE,
+    ScheduleJobData,
+    ScheduleJobName,
+} from './schedule.worker';
+
+/**
+ * Runs jobs produced by the schedule queue's job schedulers. Each scheduled
+ * run becomes a single job, so only one replica executes it.
+ */
+@Processor(SCHEDULE_QUEUE, { concurrency: 5 })
+@Injectable()
+export class ScheduleProcessor extends WorkerHost {
+    private readonly logger = new Logger(ScheduleProcessor.name);
+
+    constructor(private scheduleWorker: ScheduleWorker) {
+        super();
+    }
+
+    async process(job: Job<ScheduleJobData, any, ScheduleJobName>): Promise<any> {
+        switch (job.name) {
+            case 'scheduled-workflow':
+                await this.scheduleWorker.executeScheduledWorkflow(
+                    job.data.tenantId,
+                    job.data.workflowId,
+                    job.data.sessionId,
+                );
+                break;
+            case 'group-triggers':
+                await this.scheduleWorker.processGroupTriggers();
+                break;
+            default:
+                this.logger.warn(`Unknown schedule job ${job.name}`);
+        }
+    }
+}
@@ -0,0 +1,58 @@
+import {
+  DEFAULT_SCHEDULE_TIMEZONE,
+  getNextScheduleRuns,
+  resolveScheduleTimezone,
+} from './schedule.util';
+
+describe('schedule.util', () => {
+  const from = new Date('2026-01-01T00:00:00Z');
+
+  describe('resolveScheduleTimezone', () => {
+    it('should keep valid IANA timezones', () => {
+      expect(resolveScheduleTimezone('Europe/Lisbon')).toBe('Europe/Lisbon');
+    });
+
+    it('should fall back to the default for missing or unknown timezones', () => {
+      expect(resolveScheduleTimezone()).toBe(DEFAULT_SCHEDULE_TIMEZONE);
+      expect(resolveScheduleTimezone('Not/AZone')).toBe(DEFAULT_SCHEDULE_TIMEZONE);
+    });
+  });
+
+  describe('getNextScheduleRuns', () => {
+    it('should evaluate cron expressions in the configured timezone', () => {
+      const runs = getNextScheduleRuns(
+        { scheduleType: 'cron', cronExpression: '0 9 * * *', timezone: 'UTC' },
+        2,
+        from,
+      );
+      expect(runs.map(d => d.toISOString())).toEqual([
+        '2026-01-01T09:00:00.000Z',
+        '2026-01-02T09:00:00.000Z',
+      ]);
+    });
+
+    it('should default to America/Sao_Paulo', () => {
+      const [first] = getNextScheduleRuns({ scheduleType: 'cron', cronExpression: '0 9 * * *' }, 1, from);
+      expect(first.toISOString()).toBe('2026-01-01T12:00:00.000Z');
+    });
+
+    it('should return five runs by default', () => {
+      expect(getNextScheduleRuns({ scheduleType: 'cron', cronExpression: '*/15 * * * *' }, undefined, from)).toHaveLength(5);
+    });
+
+    it('should space interval schedules by intervalMinutes', () => {
+      const runs = getNextScheduleRuns({ scheduleType: 'interval', intervalMinutes: 30 }, 3, from);
+      expect(runs.map(d => d.toISOString())).toEqual([
+        '2026-01-01T00:30:00.000Z',
+        '2026-01-01T01:00:00.000Z',
+        '2026-01-01T01:30:00.000Z',
+      ]);
+    });
+
+    it('should throw on invalid input', () => {
+      expect(() => getNextScheduleRuns({ scheduleType: 'cron', cronExpression: 'bad cron' }, 5, from)).toThrow();
+      expect(() => getNextScheduleRuns({ scheduleType: 'cron' }, 5, from)).toThrow();
+      expect(() => getNextScheduleRuns({ scheduleType: 'interval', intervalMinutes: 0 }, 5, from)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { parseExpression } from 'cron-parser';
+import { TriggerScheduleConfig } from '@n9n/shared';
+
+export const DEFAULT_SCHEDULE_TIMEZONE = 'America/Sao_Paulo';
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Timezone a schedule runs in. Unknown zones fall back to the platform default
+ * so a typo never silently turns into UTC.
+ */
+export function resolveScheduleTimezone(timezone?: string): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_SCHEDULE_TIMEZONE;
+}
+
+/**
+ * Compute the next `count` fire times of a TRIGGER_SCHEDULE config.
+ * Uses the same cron parser as BullMQ, so the preview matches what actually runs.
+ * Throws on an invalid cron expression or missing interval.
+ */
+export function getNextScheduleRuns(
+  config: Partial<TriggerScheduleConfig>,
+  count: number = 5,
+  from: Date = new Date(),
+): Date[] {
+  if (config.scheduleType === 'interval') {
+    const intervalMinutes = Number(config.intervalMinutes);
+    if (!intervalMinutes || intervalMinutes <= 0) {
+      throw new Error('intervalMinutes must be a positive number');
+    }
+    const intervalMs = intervalMinutes * 60 * 1000;
+    return Array.from({ length: count }, (_, i) => new Date(from.getTime() + intervalMs * (i + 1)));
+  }
+
+  if (!config.cronExpression) {
+    throw new Error('cronExpression is required');
+  }
+
+  const interval = parseExpression(config.cronExpression, {
+    currentDate: from,
+    tz: resolveScheduleTimezone(config.timezone),
+  });
+
+  const runs: Date[] = [];
+  for (let i = 0; i < count; i++) {
+    runs.push(interval.next().toDate());
+  }
+  return runs;
+}
@@ -1,59 +1,73 @@
 import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue, JobSchedulerJson } from 'bullmq';
 import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
 import { ExecutionEngineService } from '../execution/execution-engine.service';
-import { WorkflowNodeType } from '@n9n/shared';
-import * as cron from 'node-cron';
+import { TriggerScheduleConfig, WorkflowNodeType } from '@n9n/shared';
+import { getNextScheduleRuns, resolveScheduleTimezone } from './schedule.util';
 
-interface ScheduledWorkflow {
-  workflowId: string;
+export const SCHEDULE_QUEUE = 'workflow-schedules';
+
+export type ScheduleJobName = 'scheduled-workflow' | 'group-triggers';
+
+export interface ScheduleJobData {
   tenantId: string;
-  cronExpression?: string;
-  intervalMinutes?: number;
+  workflowId: string;
   sessionId?: string;
-  task?: cron.ScheduledTask;
-  intervalId?: NodeJS.Timeout;
 }
 
+/** Job scheduler ids are `schedule-<tenantId>-<workflowId>`, one per workflow */
+const WORKFLOW_SCHEDULER_PREFIX = 'schedule-';
+const GROUP_TRIGGER_SCHEDULER_ID = 'group-triggers';
+const SYNC_LOCK_KEY = 'schedule-worker:sync';
+
+interface ScheduleDefinition {
+  id: string;
+  repeat: { pattern?: string; tz?: string; every?: number };
+  data: ScheduleJobData;
+}
+
+/**
+ * Keeps TRIGGER_SCHEDULE workflows registered as BullMQ job schedulers.
+ * Schedules live in Redis, so with several replicas each run fires once
+ * (see ScheduleProcessor) and survives restarts.
+ */
 @Injectable()
 export class ScheduleWorker implements OnModuleInit, OnModuleDestroy {
-  private scheduledWorkflows: Map<string, ScheduledWorkflow> = new Map();
   private checkIntervalId: NodeJS.Timeout | null = null;
-  private groupTriggerIntervalId: NodeJS.Timeout | null = null;
   private isLoadingWorkflows = false;
 
   constructor(
     private prisma: PrismaService,
+    private redis: RedisService,
     private executionEngine: ExecutionEngineService,
+    // Job names are not narrowed here: BullMQ types scheduler ids with the same parameter
+    @InjectQueue(SCHEDULE_QUEUE) private scheduleQueue: Queue<ScheduleJobData>,
   ) { }
 
   async onModuleInit() {
     console.log('[SCHEDULE WORKER] Initializing...');
-    await this.loadScheduledWorkflows();
 
-    // Run immediately on startup (handles server restarts within target minute)
-    this.processGroupTriggers().catch(err =>
-      console.error('[SCHEDULE WORKER] Error in initial processGroupTriggers:', err),
+    // Group triggers are evaluated every minute by whichever replica picks up the job
+    await this.scheduleQueue.upsertJobScheduler(
+      GROUP_TRIGGER_SCHEDULER_ID,
+      { pattern: '* * * * *' },
+      { name: 'group-triggers', opts: { removeOnComplete: true, removeOnFail: 100 } },
     );
 
+    await this.loadScheduledWorkflows();
+
     // Check for new/updated workflows every minute
     this.checkIntervalId = setInterval(() => {
       this.loadScheduledWorkflows();
     }, 60 * 1000);
-
-    // Check group triggers every minute
-    this.groupTriggerIntervalId = setInterval(() => {
-      this.processGroupTriggers();
-    }, 60 * 1000);
   }
 
   onModuleDestroy() {
     console.log('[SCHEDULE WORKER] Shutting down...');
-    // Collect keys before iterating — stopScheduledWorkflow deletes from the Map
-    for (const key of Array.from(this.scheduledWorkflows.keys())) {
-      this.stopScheduledWorkflow(key);
-    }
+    // Schedulers stay in Redis for the remaining replicas
     if (this.checkIntervalId) clearInterval(this.checkIntervalId);
-    if (this.groupTriggerIntervalId) clearInterval(this.groupTriggerIntervalId);
   }
 
   /**
@@ -61,7 +75,7 @@ export class ScheduleWorker implements OnModuleInit, OnModuleDestroy {
    * Source of truth: GroupWorkflowLink (unifying system as requested).
    * Also keeps checking WhatsappGroupConfig.workflowIds for temporary backward compatibility.
    */
-  private async processGroupTriggers(): Promise<void> {
+  async processGroupTriggers(): Promise<void> {
     try {
       const now = new Date();
       const currentHour = now.getHours();
@@ -336,115 +350,112 @@ export class ScheduleWorker implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Load all active workflows with TRIGGER_SCHEDULE and schedule them.
+   * Reconcile job schedulers with the active TRIGGER_SCHEDULE workflows.
+   * Guarded by a Redis lock so only one replica syncs at a time.
    */
   private async loadScheduledWorkflows(): Promise<void> {
     if (this.isLoadingWorkflows) return;
     this.isLoadingWorkflows = true;
+    let locked = false;
     try {
+      locked = await this.redis.acquireLock(SYNC_LOCK_KEY, 50);
+      if (!locked) return;
+
       const workflows = await this.prisma.workflow.findMany({ where: { isActive: true } });
-      const currentScheduledKeys = new Set<string>();
+      const desired = new Map<string, ScheduleDefinition>();
 
       for (const workflowData of workflows) {
-        const workflow = {
-          ...workflowData,
-          nodes: workflowData.nodes as any,
-          edges: workflowData.edges as any,
-        };
-
-        const triggerNode = workflow.nodes.find(
+        const nodes = workflowData.nodes as any[];
+        const triggerNode = nodes.find(
           (n: any) => n.type === WorkflowNodeType.TRIGGER_SCHEDULE,
         );
         if (!triggerNode || !triggerNode.config) continue;
 
-        const config = triggerNode.config;
-        const scheduleKey = `${workflow.tenantId}:${workflow.id}`;
-        currentScheduledKeys.add(scheduleKey);
-
-        const existing = this.scheduledWorkflows.get(scheduleKey);
-        if (existing) {
-          const configChanged =
-            existing.cronExpression !== config.cronExpression ||
-            existing.intervalMinutes !== config.intervalMinutes ||
-            existing.sessionId !== config.sessionId;
+        const definition = this.buildScheduleDefinition(
+          workflowData.tenantId,
+          workflowData.id,
+          triggerNode.config,
+        );
+        if (definition) desired.set(definition.id, definition);
+      }
 
-          if (!configChanged) continue;
-          this.stopScheduledWorkflow(scheduleKey);
+      const existing = new Map<string, JobSchedulerJson<ScheduleJobData>>();
+      for (const scheduler of await this.scheduleQueue.getJobSchedulers(0, -1)) {
+        if (scheduler.key.startsWith(WORKFLOW_SCHEDULER_PREFIX)) {
+          existing.set(scheduler.key, scheduler);
         }
+      }
 
-        await this.scheduleWorkflow(
-          workflow.tenantId,
-          workflow.id,
-          config.scheduleType,
-          config.cronExpression,
-          config.intervalMinutes,
-          config.sessionId,
-        );
+      for (const definition of desired.values()) {
+        const current = existing.get(definition.id);
+        if (current && !this.hasScheduleChanged(current, definition)) continue;
+
+        await this.scheduleQueue.upsertJobScheduler(definition.id, definition.repeat, {
+          name: 'scheduled-workflow',
+          data: definition.data,
+          opts: { removeOnComplete: true, removeOnFail: 100 },
+        });
+        const description = definition.repeat.pattern
+          ? `cron: ${definition.repeat.pattern} (${definition.repeat.tz})`
+          : `interval: ${definition.repeat.every! / 60000} minutes`;
+        console.log(`[SCHEDULE WORKER] Scheduled ${definition.data.workflowId} with ${description}`);
       }
 
-      for (const key of this.scheduledWorkflows.keys()) {
-        if (!currentScheduledKeys.has(key)) {
-          this.stopScheduledWorkflow(key);
-        }
+      for (const [id, scheduler] of existing) {
+        if (desired.has(id)) continue;
+        await this.scheduleQueue.removeJobScheduler(id);
+        console.log(`[SCHEDULE WORKER] Stopped workflow ${scheduler.template?.data?.workflowId ?? id}`);
       }
     } catch (error) {
       console.error('[SCHEDULE WORKER] Error loading scheduled workflows:', error);
     } finally {
+      if (locked) await this.redis.releaseLock(SYNC_LOCK_KEY).catch(() => undefined);
       this.isLoadingWorkflows = false;
     }
   }
 
-  private async scheduleWorkflow(
+  private buildScheduleDefinition(
     tenantId: string,
     workflowId: string,
-    scheduleType: 'cron' | 'interval',
-    cronExpression?: string,
-    intervalMinutes?: number,
-    sessionId?: string,
-  ): Promise<void> {
-    const scheduleKey = `${tenantId}:${workflowId}`;
-    // Guard against duplicate registration (e.g. concurrent loadScheduledWorkflows calls)
-    if (this.scheduledWorkflows.has(scheduleKey)) {
-      console.warn(`[SCHEDULE WORKER] Duplicate schedule attempt for ${workflowId}, skipping.`);
-      return;
+    config: TriggerScheduleConfig,
+  ): ScheduleDefinition | null {
+    const id = `${WORKFLOW_SCHEDULER_PREFIX}${tenantId}-${workflowId}`;
+    const data: ScheduleJobData = { tenantId, workflowId, sessionId: config.sessionId || undefined };
+
+    if (config.scheduleType === 'cron' && config.cronExpression) {
+      try {
+        getNextScheduleRuns(config, 1);
+      } catch {
+        console.error(`[SCHEDULE WORKER] Invalid cron for workflow ${workflowId}: ${config.cronExpression}`);
+        return null;
+      }
+      return {
+        id,
+        repeat: { pattern: config.cronExpression, tz: resolveScheduleTimezone(config.timezone) },
+        data,
+      };
     }
-    try {
-      if (scheduleType === 'cron' && cronExpression) {
-        if (!cron.validate(cronExpression)) {
-          console.error(`[SCHEDULE WORKER] Invalid cron for workflow ${workflowId}: ${cronExpression}`);
-          return;
-        }
-
-        const task = cron.schedule(cronExpression, async () => {
-          await this.executeScheduledWorkflow(tenantId, workflowId, sessionId);
-        }, { timezone: 'America/Sao_Paulo' });
-
-        this.scheduledWorkflows.set(scheduleKey, { workflowId, tenantId, cronExpression, sessionId, task });
-        console.log(`[SCHEDULE WORKER] Scheduled ${workflowId} with cron: ${cronExpression}`);
-      } else if (scheduleType === 'interval' && intervalMinutes) {
-        const intervalMs = intervalMinutes * 60 * 1000;
-        const intervalId = setInterval(async () => {
-          await this.executeScheduledWorkflow(tenantId, workflowId, sessionId);
-        }, intervalMs);
 
-        this.scheduledWorkflows.set(scheduleKey, { workflowId, tenantId, intervalMinutes, sessionId, intervalId });
-        console.log(`[SCHEDULE WORKER] Scheduled ${workflowId} with interval: ${intervalMinutes} minutes`);
-      }
-    } catch (error) {
-      console.error(`[SCHEDULE WORKER] Error scheduling workflow ${workflowId}:`, error);
+    if (config.scheduleType === 'interval' && config.intervalMinutes) {
+      return { id, repeat: { every: Number(config.intervalMinutes) * 60 * 1000 }, data };
     }
+
+    return null;
   }
 
-  private stopScheduledWorkflow(scheduleKey: string): void {
-    const scheduled = this.scheduledWorkflows.get(scheduleKey);
-    if (!scheduled) return;
-    if (scheduled.task) scheduled.task.stop();
-    if (scheduled.intervalId) clearInterval(scheduled.intervalId);
-    this.scheduledWorkflows.delete(scheduleKey);
-    console.log(`[SCHEDULE WORKER] Stopped workflow ${scheduled.workflowId}`);
+  private hasScheduleChanged(
+    current: JobSchedulerJson<ScheduleJobData>,
+    definition: ScheduleDefinition,
+  ): boolean {
+    return (
+      (current.pattern || undefined) !== definition.repeat.pattern ||
+      (current.tz || undefined) !== definition.repeat.tz ||
+      Number(current.every || 0) !== Number(definition.repeat.every || 0) ||
+      current.template?.data?.sessionId !== definition.data.sessionId
+    );
   }
 
-  private async executeScheduledWorkflow(
+  async executeScheduledWorkflow(
     tenantId: string,
     workflowId: string,
     configuredSessionId?: string,
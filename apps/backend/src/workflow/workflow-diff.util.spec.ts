@@ -0,0 +1,69 @@
+import { WorkflowNode, WorkflowNodeType } from '@n9n/shared';
+import { diffWorkflowGraphs } from './workflow-diff.util';
+
+describe('diffWorkflowGraphs', () => {
+  const trigger: WorkflowNode = {
+    id: 'n1',
+    type: WorkflowNodeType.TRIGGER_MESSAGE,
+    config: { pattern: 'oi', matchType: 'contains' },
+    position: { x: 0, y: 0 },
+  };
+  const message: WorkflowNode = {
+    id: 'n2',
+    type: WorkflowNodeType.SEND_MESSAGE,
+    config: { message: 'Olá!' },
+    position: { x: 200, y: 0 },
+  };
+  const end: WorkflowNode = { id: 'n3', type: WorkflowNodeType.END, config: {}, position: { x: 400, y: 0 } };
+
+  it('should report added, removed and changed nodes', () => {
+    const diff = diffWorkflowGraphs(
+      { version: 1, nodes: [trigger, message], edges: [] },
+      {
+        version: 2,
+        nodes: [{ ...trigger, config: { matchType: 'contains', pattern: 'oi' } }, { ...message, config: { message: 'Oi!' } }, end],
+        edges: [],
+      },
+    );
+
+    expect(diff.from).toBe(1);
+    expect(diff.to).toBe(2);
+    expect(diff.nodes.added.map((n) => n.id)).toEqual(['n3']);
+    expect(diff.nodes.removed).toEqual([]);
+    expect(diff.nodes.changed.map((c) => [c.id, c.fields])).toEqual([['n2', ['config.message']]]);
+  });
+
+  it('should report moved nodes and removed nodes', () => {
+    const diff = diffWorkflowGraphs(
+      { version: 2, nodes: [trigger, message, end], edges: [] },
+      { version: 3, nodes: [trigger, { ...message, position: { x: 250, y: 40 } }], edges: [] },
+    );
+
+    expect(diff.nodes.removed.map((n) => n.id)).toEqual(['n3']);
+    expect(diff.nodes.changed[0].fields).toEqual(['position']);
+  });
+
+  it('should compare edges by what they connect', () => {
+    const diff = diffWorkflowGraphs(
+      {
+        version: 1,
+        nodes: [trigger, message, end],
+        edges: [
+          { id: 'e1', source: 'n1', target: 'n2' },
+          { id: 'e2', source: 'n2', target: 'n3' },
+        ],
+      },
+      {
+        version: 2,
+        nodes: [trigger, message, end],
+        edges: [
+          { id: 'e1-new', source: 'n1', target: 'n2' },
+          { id: 'e3', source: 'n1', target: 'n3', condition: 'error' },
+        ],
+      },
+    );
+
+    expect(diff.edges.added.map((e) => e.id)).toEqual(['e3']);
+    expect(diff.edges.removed.map((e) => e.id)).toEqual(['e2']);
+  });
+});
@@ -0,0 +1,85 @@
+import { WorkflowNode, WorkflowEdge, WorkflowVersionDiff } from '@n9n/shared';
+
+interface WorkflowGraph {
+  version: number;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+}
+
+/** JSON with sorted object keys, so key order does not count as a change */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function isEqual(a: any, b: any): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+/** Changed fields of a node; config keys are reported as `config.<key>` */
+function getChangedFields(before: WorkflowNode, after: WorkflowNode): string[] {
+  const fields: string[] = [];
+
+  if (before.type !== after.type) fields.push('type');
+  if (!isEqual(before.position, after.position)) fields.push('position');
+
+  const beforeConfig = before.config || {};
+  const afterConfig = after.config || {};
+  const keys = Array.from(new Set([...Object.keys(beforeConfig), ...Object.keys(afterConfig)])).sort();
+  for (const key of keys) {
+    if (!isEqual(beforeConfig[key], afterConfig[key])) {
+      fields.push(`config.${key}`);
+    }
+  }
+
+  return fields;
+}
+
+/** Edges are compared by what they connect; ids are regenerated by the editor */
+function edgeKey(edge: WorkflowEdge): string {
+  return [edge.source, edge.target, edge.condition || '', edge.targetHandle || ''].join('|');
+}
+
+/**
+ * Node-by-node diff between two workflow graphs (nodes matched by id)
+ */
+export function diffWorkflowGraphs(from: WorkflowGraph, to: WorkflowGraph): WorkflowVersionDiff {
+  const fromNodes = new Map((from.nodes || []).map((n) => [n.id, n]));
+  const toNodes = new Map((to.nodes || []).map((n) => [n.id, n]));
+
+  const added = (to.nodes || []).filter((n) => !fromNodes.has(n.id));
+  const removed = (from.nodes || []).filter((n) => !toNodes.has(n.id));
+  const changed: WorkflowVersionDiff['nodes']['changed'] = [];
+
+  for (const after of to.nodes || []) {
+    const before = fromNodes.get(after.id);
+    if (!before) continue;
+
+    const fields = getChangedFields(before, after);
+    if (fields.length > 0) {
+      changed.push({ id: after.id, type: after.type, fields, before, after });
+    }
+  }
+
+  const fromEdges = new Set((from.edges || []).map(edgeKey));
+  const toEdges = new Set((to.edges || []).map(edgeKey));
+
+  return {
+    from: from.version,
+    to: to.version,
+    nodes: { added, removed, changed },
+    edges: {
+      added: (to.edges || []).filter((e) => !fromEdges.has(edgeKey(e))),
+      removed: (from.edges || []).filter((e) => !toEdges.has(edgeKey(e))),
+    },
+  };
+}
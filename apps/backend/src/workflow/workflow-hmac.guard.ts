@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HmacGuard } from '../common/guards/hmac.guard';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * HmacGuard variant for inbound workflow webhooks: the signature is checked
+ * against the workflow's own secret instead of the global WEBHOOK_SECRET.
+ */
+@Injectable()
+export class WorkflowHmacGuard extends HmacGuard {
+    constructor(
+        configService: ConfigService,
+        private prisma: PrismaService,
+    ) {
+        super(configService);
+    }
+
+    protected async resolveSecret(request: any): Promise<string | null | undefined> {
+        const workflowId = request.params?.workflowId;
+        if (!workflowId) return null;
+
+        const workflow = await this.prisma.workflow.findUnique({
+            where: { id: workflowId },
+            select: { webhookSecret: true },
+        });
+        return workflow?.webhookSecret;
+    }
+}
@@ -0,0 +1,33 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { WorkflowService } from './workflow.service';
+import { Public } from '../auth/decorators/public.decorator';
+import { WorkflowHmacGuard } from './workflow-hmac.guard';
+
+/**
+ * Public endpoints for external systems (checkout platforms, CRMs) to start
+ * workflows. Requests must be signed with the workflow's webhook secret.
+ */
+@Controller('hooks')
+@Public()
+@UseGuards(WorkflowHmacGuard)
+export class WorkflowHooksController {
+  constructor(private workflowService: WorkflowService) { }
+
+  @Post(':workflowId/:nodeId')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async triggerWebhook(
+    @Param('workflowId') workflowId: string,
+    @Param('nodeId') nodeId: string,
+    @Body() body: any,
+  ) {
+    return this.workflowService.triggerWebhookExecution(workflowId, nodeId, body);
+  }
+}
@@ -0,0 +1,97 @@
+import { WorkflowNode, WorkflowEdge, WorkflowNodeType } from '@n9n/shared';
+import { validateWorkflowGraph } from './workflow-validator.util';
+
+describe('validateWorkflowGraph', () => {
+  const node = (id: string, type: WorkflowNodeType, config: Record<string, any> = {}): WorkflowNode => ({ id, type, config });
+  const edge = (source: string, target: string, condition?: string): WorkflowEdge => ({ id: `${source}-${target}`, source, target, condition });
+  const codes = (issues: { code: string }[]) => issues.map((i) => i.code);
+
+  const trigger = node('t1', WorkflowNodeType.TRIGGER_MESSAGE, { pattern: 'oi' });
+  const end = node('end', WorkflowNodeType.END);
+
+  it('should accept a connected workflow', () => {
+    const result = validateWorkflowGraph([trigger, end], [edge('t1', 'end')]);
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should reject empty workflows and missing trigger or END', () => {
+    expect(codes(validateWorkflowGraph([], []).errors)).toEqual(['EMPTY_WORKFLOW']);
+    expect(codes(validateWorkflowGraph([node('m', WorkflowNodeType.SEND_MESSAGE)], []).errors)).toEqual(['NO_TRIGGER', 'NO_END']);
+  });
+
+  it('should report disconnected triggers and dangling edges', () => {
+    const result = validateWorkflowGraph([trigger, end], [edge('t1', 'gone')]);
+
+    expect(codes(result.errors)).toEqual(['DANGLING_EDGE']);
+    expect(result.errors[0].nodeId).toBe('t1');
+    expect(codes(result.warnings)).toEqual(['UNREACHABLE_NODE']);
+
+    const disconnected = validateWorkflowGraph([trigger, end], []);
+    expect(codes(disconnected.errors)).toEqual(['NO_CONNECTED_TRIGGER']);
+    expect(codes(disconnected.warnings)).toContain('DISCONNECTED_TRIGGER');
+  });
+
+  it('should report SWITCH rules without a matching edge', () => {
+    const switchNode = node('s', WorkflowNodeType.SWITCH, {
+      mode: 'rules',
+      rules: [
+        { id: 'r1', value1: 'variables.opcao', operator: '==', value2: '1', outputKey: '0' },
+        { id: 'r2', value1: 'variables.opcao', operator: '==', value2: '2', outputKey: '1' },
+      ],
+    });
+    const result = validateWorkflowGraph([trigger, switchNode, end], [edge('t1', 's'), edge('s', 'end', '0')]);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      { code: 'SWITCH_RULE_UNCONNECTED', severity: 'warning', message: 'Output "2" is not connected', nodeId: 's' },
+    ]);
+  });
+
+  it('should require a timeout target for WAIT_REPLY GOTO_NODE', () => {
+    const missing = node('w', WorkflowNodeType.WAIT_REPLY, { saveAs: 'r', onTimeout: 'GOTO_NODE' });
+    expect(codes(validateWorkflowGraph([trigger, missing, end], [edge('t1', 'w'), edge('w', 'end')]).errors)).toEqual(['TIMEOUT_TARGET_MISSING']);
+
+    const unknown = node('w', WorkflowNodeType.WAIT_REPLY, { saveAs: 'r', onTimeout: 'GOTO_NODE', timeoutTargetNodeId: 'x' });
+    expect(codes(validateWorkflowGraph([trigger, unknown, end], [edge('t1', 'w'), edge('w', 'end')]).errors)).toEqual(['TIMEOUT_TARGET_NOT_FOUND']);
+  });
+
+  it('should treat the timeout target as reachable', () => {
+    const wait = node('w', WorkflowNodeType.WAIT_REPLY, { saveAs: 'r', onTimeout: 'GOTO_NODE', timeoutTargetNodeId: 'end' });
+    const result = validateWorkflowGraph([trigger, wait, end], [edge('t1', 'w')]);
+
+    expect(result.valid).toBe(true);
+    expect(codes(result.warnings)).not.toContain('UNREACHABLE_NODE');
+  });
+
+  it('should check sessions and sub-workflows against the tenant', () => {
+    const manual = node('t1', WorkflowNodeType.TRIGGER_MANUAL, { sessionId: 'gone' });
+    const call = node('c', WorkflowNodeType.CALL_WORKFLOW, { workflowId: 'wf-x' });
+    const result = validateWorkflowGraph(
+      [manual, call, end],
+      [edge('t1', 'c'), edge('c', 'end', 'success')],
+      { sessionIds: ['s1'], workflowIds: ['wf-a'] },
+    );
+
+    expect(codes(result.errors)).toEqual(['UNKNOWN_SESSION', 'CALL_WORKFLOW_NOT_FOUND']);
+
+    const noSession = validateWorkflowGraph([{ ...manual, config: {} }, end], [edge('t1', 'end')]);
+    expect(codes(noSession.warnings)).toEqual(['MISSING_SESSION']);
+  });
+
+  it('should check UPDATE_CONTACT field mappings', () => {
+    const check = (config: Record<string, any>) =>
+      validateWorkflowGraph([trigger, node('u', WorkflowNodeType.UPDATE_CONTACT, config), end], [edge('t1', 'u'), edge('u', 'end')]);
+
+    expect(codes(check({ fields: [{ key: '', value: 'x' }] }).errors)).toEqual(['UPDATE_CONTACT_FIELD_MISSING']);
+    expect(codes(check({}).warnings)).toEqual(['UPDATE_CONTACT_EMPTY']);
+    expect(check({ fields: [{ key: 'plano', value: 'Pro' }] }).valid).toBe(true);
+  });
+
+  it('should reject unknown node types', () => {
+    const result = validateWorkflowGraph([trigger, node('x', 'NOPE' as WorkflowNodeType), end], [edge('t1', 'x'), edge('x', 'end')]);
+    expect(codes(result.errors)).toEqual(['UNKNOWN_NODE_TYPE']);
+  });
+});
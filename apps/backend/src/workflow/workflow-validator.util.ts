@@ -0,0 +1,202 @@
+import {
+  WorkflowNode,
+  WorkflowEdge,
+  WorkflowNodeType,
+  WorkflowValidationIssue,
+  WorkflowValidationResult,
+  WorkflowIssueSeverity,
+  SwitchConfig,
+  WaitReplyConfig,
+  WaitPollVoteConfig,
+} from '@n9n/shared';
+
+/**
+ * Static checks over a workflow graph. Everything here would otherwise only
+ * surface at runtime (trigger matching logs, 'Current node not found', ...).
+ */
+export interface WorkflowValidationOptions {
+  /** Tenant session ids; when given, configured sessionIds must be among them */
+  sessionIds?: string[];
+  /** Tenant workflow ids; when given, CALL_WORKFLOW targets must be among them */
+  workflowIds?: string[];
+}
+
+const KNOWN_NODE_TYPES = new Set<string>(Object.values(WorkflowNodeType));
+
+/** Triggers that run without a session picked by an incoming message */
+const SESSION_FALLBACK_TRIGGERS = new Set<string>([
+  WorkflowNodeType.TRIGGER_MANUAL,
+  WorkflowNodeType.TRIGGER_WEBHOOK,
+]);
+
+function isTriggerNode(node: WorkflowNode): boolean {
+  return typeof node.type === 'string' && node.type.startsWith('TRIGGER_');
+}
+
+export function validateWorkflowGraph(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  options: WorkflowValidationOptions = {},
+): WorkflowValidationResult {
+  const issues: WorkflowValidationIssue[] = [];
+  const add = (severity: WorkflowIssueSeverity, code: string, message: string, ids: { nodeId?: string; edgeId?: string } = {}) =>
+    issues.push({ code, severity, message, ...ids });
+
+  nodes = nodes || [];
+  edges = edges || [];
+
+  if (nodes.length === 0) {
+    add('error', 'EMPTY_WORKFLOW', 'Workflow has no nodes');
+    return toResult(issues);
+  }
+
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const outgoing = (nodeId: string) => edges.filter((e) => e.source === nodeId);
+
+  // Edges
+  for (const edge of edges) {
+    if (!nodeIds.has(edge.source)) {
+      add('error', 'DANGLING_EDGE', `Edge starts at missing node "${edge.source}"`, { edgeId: edge.id, nodeId: nodeIds.has(edge.target) ? edge.target : undefined });
+    }
+    if (!nodeIds.has(edge.target)) {
+      add('error', 'DANGLING_EDGE', `Edge points to missing node "${edge.target}"`, { edgeId: edge.id, nodeId: nodeIds.has(edge.source) ? edge.source : undefined });
+    }
+  }
+
+  // Triggers and END
+  const triggers = nodes.filter(isTriggerNode);
+  if (triggers.length === 0) {
+    add('error', 'NO_TRIGGER', 'Workflow must have at least one trigger node');
+  } else if (!triggers.some((t) => outgoing(t.id).length > 0)) {
+    add('error', 'NO_CONNECTED_TRIGGER', 'No trigger is connected to the rest of the workflow');
+  }
+  if (!nodes.some((n) => n.type === WorkflowNodeType.END)) {
+    add('error', 'NO_END', 'Workflow must have at least one END node');
+  }
+
+  // Per node
+  for (const node of nodes) {
+    const config: Record<string, any> = node.config || {};
+    const nodeOutgoing = outgoing(node.id);
+
+    if (!KNOWN_NODE_TYPES.has(node.type)) {
+      add('error', 'UNKNOWN_NODE_TYPE', `Unknown node type "${node.type}"`, { nodeId: node.id });
+      continue;
+    }
+
+    if (isTriggerNode(node) && nodeOutgoing.length === 0) {
+      add('warning', 'DISCONNECTED_TRIGGER', 'Trigger is not connected to any node', { nodeId: node.id });
+    }
+
+    if (config.sessionId && options.sessionIds && !options.sessionIds.includes(config.sessionId)) {
+      add('error', 'UNKNOWN_SESSION', `WhatsApp session "${config.sessionId}" does not exist`, { nodeId: node.id });
+    } else if (!config.sessionId && SESSION_FALLBACK_TRIGGERS.has(node.type)) {
+      add('warning', 'MISSING_SESSION', 'No WhatsApp session selected; the first connected session will be used', { nodeId: node.id });
+    }
+
+    switch (node.type) {
+      case WorkflowNodeType.SWITCH: {
+        const switchConfig = config as SwitchConfig;
+        for (const rule of switchConfig.rules || []) {
+          if (!rule.outputKey) {
+            add('error', 'SWITCH_RULE_NO_OUTPUT', `Rule "${rule.value2 ?? rule.id}" has no output`, { nodeId: node.id });
+          } else if (!nodeOutgoing.some((e) => e.condition === rule.outputKey)) {
+            add('warning', 'SWITCH_RULE_UNCONNECTED', `Output "${rule.value2 || rule.outputKey}" is not connected`, { nodeId: node.id });
+          }
+        }
+        break;
+      }
+
+      case WorkflowNodeType.CONDITION:
+        for (const branch of ['true', 'false']) {
+          if (!nodeOutgoing.some((e) => e.condition === branch)) {
+            add('warning', 'CONDITION_BRANCH_UNCONNECTED', `Branch "${branch}" is not connected`, { nodeId: node.id });
+          }
+        }
+        break;
+
+      case WorkflowNodeType.WAIT_REPLY: {
+        const waitConfig = config as WaitReplyConfig;
+        if (waitConfig.onTimeout === 'GOTO_NODE') {
+          if (!waitConfig.timeoutTargetNodeId) {
+            add('error', 'TIMEOUT_TARGET_MISSING', 'Timeout is set to go to a node but no node is selected', { nodeId: node.id });
+          } else if (!nodeIds.has(waitConfig.timeoutTargetNodeId)) {
+            add('error', 'TIMEOUT_TARGET_NOT_FOUND', `Timeout target node "${waitConfig.timeoutTargetNodeId}" does not exist`, { nodeId: node.id });
+          }
+        }
+        break;
+      }
+
+      case WorkflowNodeType.WAIT_POLL_VOTE: {
+        const pollConfig = config as WaitPollVoteConfig;
+        const options = pollConfig.opcoes || [];
+        if (options.filter((opt) => opt && opt.trim()).length < 2) {
+          add('error', 'POLL_TOO_FEW_OPTIONS', 'Poll needs at least 2 options', { nodeId: node.id });
+        }
+        options.forEach((opt, i) => {
+          if (!nodeOutgoing.some((e) => e.condition === String(i))) {
+            add('warning', 'POLL_OPTION_UNCONNECTED', `Option "${opt || i + 1}" is not connected`, { nodeId: node.id });
+          }
+        });
+        break;
+      }
+
+      case WorkflowNodeType.LOOP:
+        if (!nodeOutgoing.some((e) => e.condition === 'loop')) {
+          add('warning', 'LOOP_BODY_UNCONNECTED', 'Loop output is not connected', { nodeId: node.id });
+        }
+        break;
+
+      case WorkflowNodeType.CALL_WORKFLOW:
+        if (!config.workflowId) {
+          add('error', 'CALL_WORKFLOW_MISSING', 'No workflow selected', { nodeId: node.id });
+        } else if (options.workflowIds && !options.workflowIds.includes(config.workflowId)) {
+          add('error', 'CALL_WORKFLOW_NOT_FOUND', `Workflow "${config.workflowId}" does not exist`, { nodeId: node.id });
+        }
+        break;
+
+      case WorkflowNodeType.UPDATE_CONTACT: {
+        const fields: { key?: string }[] = config.fields || [];
+        if (fields.some((f) => !f?.key)) {
+          add('error', 'UPDATE_CONTACT_FIELD_MISSING', 'A contact field mapping has no field selected', { nodeId: node.id });
+        } else if (!config.name && fields.length === 0) {
+          add('warning', 'UPDATE_CONTACT_EMPTY', 'Nothing to update on the contact', { nodeId: node.id });
+        }
+        break;
+      }
+    }
+  }
+
+  // Nodes no trigger can reach never run
+  const reachable = new Set<string>();
+  const queue = triggers.map((t) => t.id);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    for (const edge of outgoing(id)) queue.push(edge.target);
+
+    // WAIT_REPLY timeouts jump without an edge
+    const node = nodes.find((n) => n.id === id);
+    const timeoutTarget = node?.type === WorkflowNodeType.WAIT_REPLY ? node.config?.timeoutTargetNodeId : undefined;
+    if (timeoutTarget) queue.push(timeoutTarget);
+  }
+  if (triggers.length > 0) {
+    for (const node of nodes) {
+      if (!reachable.has(node.id)) {
+        add('warning', 'UNREACHABLE_NODE', 'Node cannot be reached from any trigger', { nodeId: node.id });
+      }
+    }
+  }
+
+  return toResult(issues);
+}
+
+function toResult(issues: WorkflowValidationIssue[]): WorkflowValidationResult {
+  const errors = issues.filter((i) => i.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter((i) => i.severity === 'warning'),
+  };
+}
@@ -17,15 +17,20 @@ import { TagService, CreateTagDto, UpdateTagDto } from './tag.service';
 import { WhatsappService } from '../whatsapp/whatsapp.service';
 import { WhatsappSessionManager } from '../whatsapp/whatsapp-session-manager.service';
 import { ExecutionService } from '../execution/execution.service';
-import { ExecutionStatus } from '@n9n/shared';
+import { ExecutionEngineService } from '../execution/execution-engine.service';
+import { ExecutionStatus, TriggerScheduleConfig, ApiKeyScope } from '@n9n/shared';
 import { EventBusService } from '../event-bus/event-bus.service';
 import { Tenant } from '../auth/decorators/tenant.decorator';
 import { Public } from '../auth/decorators/public.decorator';
 import { CurrentUser } from '../auth/decorators/user.decorator';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { AllowApiKey } from '../auth/decorators/api-key-scope.decorator';
+import { Audit } from '../audit/audit.decorator';
 
 @Controller()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class WorkflowController {
   constructor(
     private workflowService: WorkflowService,
@@ -33,6 +38,7 @@ export class WorkflowController {
     private whatsappService: WhatsappService,
     private whatsappSessionManager: WhatsappSessionManager,
     private executionService: ExecutionService,
+    private executionEngine: ExecutionEngineService,
     private eventBus: EventBusService,
   ) { }
 
@@ -51,16 +57,20 @@ export class WorkflowController {
   // Workflows
 
   @Get('workflows')
+  @RequirePermissions('workflows:view')
   async getWorkflows(@Tenant() tenantId: string) {
     return this.workflowService.getWorkflows(tenantId);
   }
 
   @Get('workflows/:id')
+  @RequirePermissions('workflows:view')
   async getWorkflow(@Tenant() tenantId: string, @Param('id') id: string) {
     return this.workflowService.getWorkflow(tenantId, id);
   }
 
   @Post('workflows')
+  @RequirePermissions('workflows:edit')
+  @Audit('workflow.create')
   async createWorkflow(
     @Tenant() tenantId: string,
     @Body() body: { name: string; description?: string },
@@ -69,21 +79,89 @@ export class WorkflowController {
   }
 
   @Put('workflows/:id')
+  @RequirePermissions('workflows:edit')
+  @Audit('workflow.update')
   async updateWorkflow(
     @Tenant() tenantId: string,
     @Param('id') id: string,
     @Body() body: any,
+    @CurrentUser() user: any,
+  ) {
+    return this.workflowService.updateWorkflow(tenantId, id, body, user?.id);
+  }
+
+  @Post('workflows/:id/publish')
+  @RequirePermissions('workflows:edit')
+  @Audit('workflow.publish')
+  async publishWorkflow(
+    @Tenant() tenantId: string,
+    @Param('id') id: string,
+    @Body() body: { note?: string },
+    @CurrentUser() user: any,
+  ) {
+    return this.workflowService.publishWorkflow(tenantId, id, body?.note, user?.id);
+  }
+
+  @Post('workflows/:id/validate')
+  @RequirePermissions('workflows:view')
+  async validateWorkflow(
+    @Tenant() tenantId: string,
+    @Param('id') id: string,
+    @Body() body: { nodes?: any[]; edges?: any[] },
+  ) {
+    return this.workflowService.validateWorkflowById(tenantId, id, body || {});
+  }
+
+  @Get('workflows/:id/versions')
+  @RequirePermissions('workflows:view')
+  async getWorkflowVersions(@Tenant() tenantId: string, @Param('id') id: string) {
+    return this.workflowService.getVersions(tenantId, id);
+  }
+
+  @Get('workflows/:id/versions/diff')
+  @RequirePermissions('workflows:view')
+  async diffWorkflowVersions(
+    @Tenant() tenantId: string,
+    @Param('id') id: string,
+    @Query('from') from: string,
+    @Query('to') to: string,
+  ) {
+    return this.workflowService.diffVersions(tenantId, id, Number(from), Number(to));
+  }
+
+  @Get('workflows/:id/versions/:version')
+  @RequirePermissions('workflows:view')
+  async getWorkflowVersion(
+    @Tenant() tenantId: string,
+    @Param('id') id: string,
+    @Param('version') version: string,
   ) {
-    return this.workflowService.updateWorkflow(tenantId, id, body);
+    return this.workflowService.getVersion(tenantId, id, Number(version));
+  }
+
+  @Post('workflows/:id/versions/:version/rollback')
+  @RequirePermissions('workflows:edit')
+  @Audit('workflow.rollback')
+  async rollbackWorkflow(
+    @Tenant() tenantId: string,
+    @Param('id') id: string,
+    @Param('version') version: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.workflowService.rollbackWorkflow(tenantId, id, Number(version), user?.id);
   }
 
   @Delete('workflows/:id')
+  @RequirePermissions('workflows:edit')
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Audit('workflow.delete')
   async deleteWorkflow(@Tenant() tenantId: string, @Param('id') id: string) {
     await this.workflowService.deleteWorkflow(tenantId, id);
   }
 
   @Post('workflows/:id/trigger-manual')
+  @RequirePermissions('workflows:execute')
+  @AllowApiKey(ApiKeyScope.WORKFLOWS_TRIGGER)
   async triggerManualExecution(
     @Tenant() tenantId: string,
     @Param('id') workflowId: string,
@@ -96,7 +174,35 @@ export class WorkflowController {
     );
   }
 
+  @Get('workflows/:id/webhook-secret')
+  @RequirePermissions('workflows:edit')
+  async getWebhookSecret(
+    @Tenant() tenantId: string,
+    @Param('id') workflowId: string,
+  ) {
+    return this.workflowService.getWebhookSecret(tenantId, workflowId);
+  }
+
+  @Post('workflows/:id/webhook-secret/rotate')
+  @RequirePermissions('workflows:edit')
+  @Audit('workflow_webhook_secret.rotate')
+  async rotateWebhookSecret(
+    @Tenant() tenantId: string,
+    @Param('id') workflowId: string,
+  ) {
+    return this.workflowService.rotateWebhookSecret(tenantId, workflowId);
+  }
+
+  @Post('workflows/schedule/preview')
+  @RequirePermissions('workflows:view')
+  async previewSchedule(
+    @Body() body: TriggerScheduleConfig & { count?: number },
+  ) {
+    return this.workflowService.previewSchedule(body, body.count);
+  }
+
   @Post('workflows/:id/execute-group-test')
+  @RequirePermissions('workflows:execute')
   async executeGroupTest(
     @Tenant() tenantId: string,
     @Param('id') workflowId: string,
@@ -110,6 +216,8 @@ export class WorkflowController {
   }
 
   @Post('executions/:executionId/cancel')
+  @RequirePermissions('workflows:execute')
+  @Audit('execution.cancel', { param: 'executionId' })
   async cancelExecution(
     @Tenant() tenantId: string,
     @Param('executionId') executionId: string,
@@ -121,13 +229,12 @@ export class WorkflowController {
     if (execution.status !== ExecutionStatus.RUNNING && execution.status !== ExecutionStatus.WAITING) {
       return { success: false, message: 'Execution is not active' };
     }
-    await this.executionService.updateExecution(executionId, {
-      status: ExecutionStatus.CANCELLED,
-    });
+    await this.executionEngine.cancelExecution(execution);
     return { success: true, executionId };
   }
 
   @Post('workflows/:id/test-node')
+  @RequirePermissions('workflows:execute')
   async testNodeFromContext(
     @Tenant() tenantId: string,
     @Param('id') workflowId: string,
@@ -143,11 +250,15 @@ export class WorkflowController {
   }
 
   @Post('workflows/:id/duplicate')
+  @RequirePermissions('workflows:edit')
+  @Audit('workflow.duplicate', { resultId: true })
   async duplicateWorkflow(@Tenant() tenantId: string, @Param('id') id: string) {
     return this.workflowService.duplicateWorkflow(tenantId, id);
   }
 
   @Post('workflows/duplicate-to')
+  @RequirePermissions('workflows:edit')
+  @Audit('workflow.duplicate_to')
   async duplicateWorkflowTo(
     @Tenant() tenantId: string,
     @Body() body: { sourceId: string; sourceType: 'campaign' | 'group' | 'normal'; targetType: 'campaign' | 'group' | 'normal'; name: string },
@@ -156,6 +267,7 @@ export class WorkflowController {
   }
 
   @Get('workflows/:id/insights')
+  @RequirePermissions('workflows:view')
   async getWorkflowInsights(
     @Tenant() tenantId: string,
     @Param('id') id: string,
@@ -177,6 +289,7 @@ export class WorkflowController {
   // WhatsApp Sessions
 
   @Get('whatsapp/sessions')
+  @RequirePermissions('sessions:view')
   async getSessions(@Tenant() tenantId: string) {
     const sessions = await this.whatsappService.getSessions(tenantId);
 
@@ -205,6 +318,7 @@ export class WorkflowController {
   }
 
   @Get('whatsapp/sessions/:id')
+  @RequirePermissions('sessions:view')
   async getSession(@Tenant() tenantId: string, @Param('id') id: string) {
     const session = await this.whatsappService.getSession(tenantId, id);
 
@@ -231,6 +345,8 @@ export class WorkflowController {
   }
 
   @Post('whatsapp/sessions')
+  @RequirePermissions('sessions:edit')
+  @Audit('session.create')
   async createSession(@Tenant() tenantId: string, @Body() body: { name: string }) {
     const session = await this.whatsappService.createSession(tenantId, body.name);
 
@@ -241,6 +357,7 @@ export class WorkflowController {
   }
 
   @Post('whatsapp/sessions/:id/reconnect')
+  @RequirePermissions('sessions:edit')
   async reconnectSession(@Tenant() tenantId: string, @Param('id') id: string) {
     const session = await this.whatsappService.getSession(tenantId, id);
 
@@ -258,13 +375,16 @@ export class WorkflowController {
   }
 
   @Delete('whatsapp/sessions/:id')
+  @RequirePermissions('sessions:edit')
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Audit('session.delete')
   async deleteSession(@Tenant() tenantId: string, @Param('id') id: string) {
     await this.whatsappSessionManager.disconnectSession(id);
     await this.whatsappService.deleteSession(tenantId, id);
   }
 
   @Get('whatsapp/sessions/:id/labels')
+  @RequirePermissions('sessions:view')
   async getSessionLabels(@Param('id') sessionId: string) {
     try {
       const labels = await this.whatsappSessionManager.getAllLabels(sessionId);
@@ -276,16 +396,27 @@ export class WorkflowController {
   }
 
   @Post('whatsapp/sessions/:id/send')
+  @RequirePermissions('sessions:edit')
+  @AllowApiKey(ApiKeyScope.MESSAGES_SEND)
+  @Audit('message.send')
   async sendMessage(
+    @Tenant() tenantId: string,
     @Param('id') sessionId: string,
     @Body() body: { contactPhone: string; message: string },
   ) {
+    if (!(await this.whatsappService.getSession(tenantId, sessionId))) {
+      throw new NotFoundException('Session not found');
+    }
     await this.whatsappSessionManager.sendMessage(sessionId, body.contactPhone, body.message);
     return { success: true };
   }
 
   @Post('whatsapp/sessions/:id/send-media')
+  @RequirePermissions('sessions:edit')
+  @AllowApiKey(ApiKeyScope.MESSAGES_SEND)
+  @Audit('message.send_media')
   async sendMedia(
+    @Tenant() tenantId: string,
     @Param('id') sessionId: string,
     @Body() body: {
       contactPhone: string;
@@ -296,6 +427,9 @@ export class WorkflowController {
       sendAudioAsVoice?: boolean;
     },
   ) {
+    if (!(await this.whatsappService.getSession(tenantId, sessionId))) {
+      throw new NotFoundException('Session not found');
+    }
     await this.whatsappSessionManager.sendMedia(
       sessionId,
       body.contactPhone,
@@ -313,16 +447,20 @@ export class WorkflowController {
   // Group Management
 
   @Get('whatsapp/sessions/:id/groups')
+  @RequirePermissions('sessions:view')
   async getGroupConfigs(@Param('id') sessionId: string) {
     return this.whatsappService.getGroupConfigs(sessionId);
   }
 
   @Post('whatsapp/sessions/:id/groups/sync')
+  @RequirePermissions('sessions:edit')
   async syncGroups(@Param('id') sessionId: string) {
     return this.whatsappSessionManager.syncGroups(sessionId);
   }
 
   @Put('whatsapp/sessions/:id/groups/:configId')
+  @RequirePermissions('sessions:edit')
+  @Audit('group_config.update', { param: 'configId' })
   async updateGroupConfig(
     @Param('configId') configId: string,
     @Body() body: { enabled: boolean; workflowIds: string[] },
@@ -333,6 +471,8 @@ export class WorkflowController {
   // Executions
 
   @Get('workflows/:workflowId/executions')
+  @RequirePermissions('workflows:view')
+  @AllowApiKey(ApiKeyScope.EXECUTIONS_READ)
   async getWorkflowExecutions(
     @Tenant() tenantId: string,
     @Param('workflowId') workflowId: string,
@@ -342,12 +482,15 @@ export class WorkflowController {
   }
 
   @Get('executions')
+  @RequirePermissions('workflows:view')
   async getExecutions(@Tenant() tenantId: string) {
     // This would need pagination in production
     return { message: 'Use specific execution endpoints' };
   }
 
   @Get('executions/:id')
+  @RequirePermissions('workflows:view')
+  @AllowApiKey(ApiKeyScope.EXECUTIONS_READ)
   async getExecution(@Tenant() tenantId: string, @Param('id') id: string) {
     const execution = await this.executionService.getExecution(tenantId, id);
     if (!execution) {
@@ -357,6 +500,8 @@ export class WorkflowController {
   }
 
   @Get('executions/:id/logs')
+  @RequirePermissions('workflows:view')
+  @AllowApiKey(ApiKeyScope.EXECUTIONS_READ)
   async getExecutionLogs(@Tenant() tenantId: string, @Param('id') id: string) {
     const logs = await this.eventBus.getExecutionLogs(tenantId, id);
     return logs;
@@ -365,21 +510,27 @@ export class WorkflowController {
   // ==================== TAG ENDPOINTS ====================
 
   @Get('tags')
+  @RequirePermissions('workflows:view')
   async getTags(@Tenant() tenantId: string) {
     return this.tagService.getTags(tenantId);
   }
 
   @Get('tags/:id')
+  @RequirePermissions('workflows:view')
   async getTag(@Tenant() tenantId: string, @Param('id') id: string) {
     return this.tagService.getTag(tenantId, id);
   }
 
   @Post('tags')
+  @RequirePermissions('workflows:edit')
+  @Audit('tag.create')
   async createTag(@Tenant() tenantId: string, @Body() data: CreateTagDto) {
     return this.tagService.createTag(tenantId, data);
   }
 
   @Put('tags/:id')
+  @RequirePermissions('workflows:edit')
+  @Audit('tag.update')
   async updateTag(
     @Tenant() tenantId: string,
     @Param('id') id: string,
@@ -389,11 +540,14 @@ export class WorkflowController {
   }
 
   @Delete('tags/:id')
+  @RequirePermissions('workflows:edit')
+  @Audit('tag.delete')
   async deleteTag(@Tenant() tenantId: string, @Param('id') id: string) {
     return this.tagService.deleteTag(tenantId, id);
   }
 
   @Get('tags/:id/usage')
+  @RequirePermissions('workflows:view')
   async getTagUsage(@Tenant() tenantId: string, @Param('id') id: string) {
     const tag = await this.tagService.getTag(tenantId, id);
     if (!tag) {
@@ -406,6 +560,8 @@ export class WorkflowController {
   // Workflow Sharing
 
   @Post('workflows/:id/share')
+  @RequirePermissions('workflows:edit')
+  @Audit('workflow_share.create')
   async shareWorkflow(
     @CurrentUser() user: any,
     @Param('id') id: string,
@@ -420,6 +576,8 @@ export class WorkflowController {
   }
 
   @Post('workflows/import/:shareId')
+  @RequirePermissions('workflows:edit')
+  @Audit('workflow.import')
   async importWorkflow(
     @Tenant() tenantId: string,
     @CurrentUser() user: any,
@@ -429,6 +587,7 @@ export class WorkflowController {
   }
 
   @Get('workflows/:id/share/stats')
+  @RequirePermissions('workflows:view')
   async getWorkflowShareStats(
     @Tenant() tenantId: string,
     @Param('id') id: string,
@@ -438,6 +597,7 @@ export class WorkflowController {
 
   // Dashboard Stats
   @Get('dashboard-stats')
+  @RequirePermissions('workflows:view')
   async getDashboardStats(@Tenant() tenantId: string) {
     return this.workflowService.getDashboardStats(tenantId);
   }
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { WorkflowService } from './workflow.service';
 import { TagService } from './tag.service';
 import { WorkflowController } from './workflow.controller';
+import { WorkflowHooksController } from './workflow-hooks.controller';
 import { WhatsappModule } from '../whatsapp/whatsapp.module';
 import { ExecutionModule } from '../execution/execution.module';
 import { StorageModule } from '../storage/storage.module';
@@ -9,7 +10,7 @@ import { StorageModule } from '../storage/storage.module';
 @Module({
   imports: [WhatsappModule, ExecutionModule, StorageModule],
   providers: [WorkflowService, TagService],
-  controllers: [WorkflowController],
+  controllers: [WorkflowController, WorkflowHooksController],
   exports: [TagService],
 })
 export class WorkflowModule { }
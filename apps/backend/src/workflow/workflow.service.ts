@@ -1,9 +1,17 @@
-import { Injectable, Inject, forwardRef } from '@nestjs/common';
+import { Injectable, Inject, forwardRef, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CampaignType, Prisma } from '@prisma/client';
-import { Workflow, WorkflowNode, WorkflowEdge, WorkflowNodeType, TriggerManualConfig, WorkflowExecution } from '@n9n/shared';
+import { Workflow, WorkflowNode, WorkflowEdge, WorkflowNodeType, TriggerManualConfig, TriggerScheduleConfig, TriggerWebhookConfig, WorkflowExecution, WorkflowVersion, WorkflowVersionDiff, WorkflowValidationResult } from '@n9n/shared';
+import { randomBytes } from 'crypto';
 import { ExecutionEngineService } from '../execution/execution-engine.service';
 import { StorageService } from '../storage/storage.service';
+import { getNextScheduleRuns, isValidTimezone, resolveScheduleTimezone } from '../worker/schedule.util';
+import { MAX_ITERATIONS_LIMIT } from '../execution/loop-frames';
+import { MAX_CALL_DEPTH, getCalledWorkflowIds, findCallCycle, getCallChainDepth } from '../execution/sub-workflow.util';
+import { diffWorkflowGraphs } from './workflow-diff.util';
+import { validateWorkflowGraph } from './workflow-validator.util';
+import { VaultService } from '../vault/vault.service';
+import { stripCredentialRefs } from '../vault/credential-refs.util';
 import { startOfDay, endOfDay, subDays, format } from 'date-fns';
 
 @Injectable()
@@ -13,6 +21,7 @@ export class WorkflowService {
     @Inject(forwardRef(() => ExecutionEngineService))
     private executionEngine: ExecutionEngineService,
     private storageService: StorageService,
+    private vault: VaultService,
   ) { }
 
   /**
@@ -99,37 +108,59 @@ export class WorkflowService {
       nodes: WorkflowNode[];
       edges: WorkflowEdge[];
       isActive: boolean;
+      maxIterations: number | null;
     }>,
+    userId?: string,
   ): Promise<Workflow> {
-    // Validate workflow structure only when activating
+    // null resets to the engine default
+    if (data.maxIterations !== undefined && data.maxIterations !== null) {
+      const maxIterations = Number(data.maxIterations);
+      if (!Number.isInteger(maxIterations) || maxIterations < 1 || maxIterations > MAX_ITERATIONS_LIMIT) {
+        throw new BadRequestException(`maxIterations must be an integer between 1 and ${MAX_ITERATIONS_LIMIT}`);
+      }
+      data.maxIterations = maxIterations;
+    }
+
+    const { nodes: draftNodes, edges: draftEdges, ...fields } = data;
+
+    // Validate the published graph only when activating
     if (data.isActive === true) {
       const workflow = await this.getWorkflow(tenantId, workflowId);
       if (!workflow) {
         throw new Error('Workflow not found');
       }
 
-      const nodes = data.nodes || workflow.nodes;
-      const edges = data.edges || workflow.edges;
-
-      this.validateWorkflow(nodes, edges);
+      await this.validateWorkflow(tenantId, workflow.nodes, workflow.edges);
     }
 
-    // Validate edges reference existing nodes when updating structure
-    if (data.nodes || data.edges) {
+    // Structure edits go to the draft; publishWorkflow makes them live
+    let draft: { nodes: WorkflowNode[]; edges: WorkflowEdge[] } | undefined;
+    if (draftNodes || draftEdges) {
       const workflow = await this.getWorkflow(tenantId, workflowId);
       if (!workflow) {
         throw new Error('Workflow not found');
       }
 
-      const nodes = data.nodes || workflow.nodes;
-      const edges = data.edges || workflow.edges;
+      draft = {
+        nodes: draftNodes || workflow.draft?.nodes || workflow.nodes,
+        edges: draftEdges || workflow.draft?.edges || workflow.edges,
+      };
+
+      this.validateEdges(draft.nodes, draft.edges);
 
-      this.validateEdges(nodes, edges);
+      // Inline secrets are replaced by vault credentials
+      if (draftNodes) {
+        draft.nodes = (await this.vault.moveNodeSecrets(tenantId, draftNodes)).nodes;
+      }
+    }
+
+    if (draftNodes) {
+      await this.validateSubWorkflowCalls(tenantId, workflowId, draftNodes);
     }
 
     // Cleanup orphaned media if nodes are being updated
-    if (data.nodes) {
-      await this.cleanupOrphanedMedia(tenantId, workflowId, data.nodes);
+    if (draftNodes) {
+      await this.cleanupOrphanedMedia(tenantId, workflowId, draftNodes);
     }
 
     const workflow = await this.prisma.workflow.update({
@@ -138,16 +169,230 @@ export class WorkflowService {
         tenantId,
       },
       data: {
-        ...data,
-        nodes: data.nodes as any,
-        edges: data.edges as any,
+        ...fields,
+        ...(draft ? { draftNodes: draft.nodes as any, draftEdges: draft.edges as any } : {}),
         updatedAt: new Date(),
+        ...(userId ? { updatedById: userId } : {}),
       },
     });
 
+    // The editor shows the issues of what was just saved
+    if (draft) {
+      return {
+        ...this.mapToWorkflow(workflow),
+        validation: await this.checkWorkflowGraph(tenantId, draft.nodes, draft.edges),
+      };
+    }
+
+    return this.mapToWorkflow(workflow);
+  }
+
+  /**
+   * Validate a workflow without saving. Defaults to the graph open in the
+   * editor (draft, or published when there is none).
+   */
+  async validateWorkflowById(
+    tenantId: string,
+    workflowId: string,
+    graph: { nodes?: WorkflowNode[]; edges?: WorkflowEdge[] } = {},
+  ): Promise<WorkflowValidationResult> {
+    const workflow = await this.getWorkflow(tenantId, workflowId);
+    if (!workflow) {
+      throw new NotFoundException('Workflow not found');
+    }
+
+    const nodes = graph.nodes || workflow.draft?.nodes || workflow.nodes;
+    const edges = graph.edges || workflow.draft?.edges || workflow.edges;
+
+    return this.checkWorkflowGraph(tenantId, nodes, edges);
+  }
+
+  /**
+   * Publish the draft as a new immutable version and make it live.
+   * Running executions keep the version they started on.
+   */
+  async publishWorkflow(tenantId: string, workflowId: string, note?: string, userId?: string): Promise<Workflow> {
+    const workflow = await this.getWorkflow(tenantId, workflowId);
+    if (!workflow) {
+      throw new NotFoundException('Workflow not found');
+    }
+    if (!workflow.draft && workflow.publishedVersion) {
+      throw new BadRequestException('No unpublished changes');
+    }
+
+    const nodes = workflow.draft?.nodes || workflow.nodes;
+    const edges = workflow.draft?.edges || workflow.edges;
+
+    this.validateEdges(nodes, edges);
+    if (workflow.isActive) {
+      await this.validateWorkflow(tenantId, nodes, edges);
+    }
+
+    return this.releaseVersion(workflowId, nodes, edges, note, userId);
+  }
+
+  /**
+   * Publish a copy of an older version as the newest one. History stays
+   * immutable and any unpublished draft is discarded.
+   */
+  async rollbackWorkflow(tenantId: string, workflowId: string, version: number, userId?: string): Promise<Workflow> {
+    const target = await this.getVersion(tenantId, workflowId, version);
+    const workflow = await this.getWorkflow(tenantId, workflowId);
+    if (workflow?.publishedVersion === target.version && !workflow.draft) {
+      throw new BadRequestException(`Version ${version} is already published`);
+    }
+
+    await this.validateSubWorkflowCalls(tenantId, workflowId, target.nodes);
+
+    return this.releaseVersion(workflowId, target.nodes, target.edges, `Rollback to version ${version}`, userId);
+  }
+
+  async getVersions(tenantId: string, workflowId: string) {
+    await this.ensureWorkflow(tenantId, workflowId);
+
+    return this.prisma.workflowVersion.findMany({
+      where: { workflowId },
+      select: { id: true, version: true, note: true, createdById: true, createdAt: true },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  async getVersion(tenantId: string, workflowId: string, version: number): Promise<WorkflowVersion> {
+    if (!Number.isInteger(version) || version < 1) {
+      throw new BadRequestException('Version must be a positive integer');
+    }
+    await this.ensureWorkflow(tenantId, workflowId);
+
+    const data = await this.prisma.workflowVersion.findUnique({
+      where: { workflowId_version: { workflowId, version } },
+    });
+    if (!data) {
+      throw new NotFoundException(`Version ${version} not found`);
+    }
+
+    return {
+      id: data.id,
+      workflowId: data.workflowId,
+      version: data.version,
+      nodes: data.nodes as any,
+      edges: data.edges as any,
+      note: data.note ?? undefined,
+      createdById: data.createdById ?? undefined,
+      createdAt: data.createdAt,
+    };
+  }
+
+  /**
+   * Node-by-node diff between two versions
+   */
+  async diffVersions(tenantId: string, workflowId: string, from: number, to: number): Promise<WorkflowVersionDiff> {
+    const [fromVersion, toVersion] = await Promise.all([
+      this.getVersion(tenantId, workflowId, from),
+      this.getVersion(tenantId, workflowId, to),
+    ]);
+
+    return diffWorkflowGraphs(fromVersion, toVersion);
+  }
+
+  private async ensureWorkflow(tenantId: string, workflowId: string): Promise<void> {
+    const workflow = await this.prisma.workflow.findFirst({
+      where: { id: workflowId, tenantId },
+      select: { id: true },
+    });
+    if (!workflow) {
+      throw new NotFoundException('Workflow not found');
+    }
+  }
+
+  /** Store the graph as the next version and make it the live one */
+  private async releaseVersion(
+    workflowId: string,
+    nodes: WorkflowNode[],
+    edges: WorkflowEdge[],
+    note?: string,
+    userId?: string,
+  ): Promise<Workflow> {
+    const workflow = await this.prisma.$transaction(async (tx) => {
+      const latest = await tx.workflowVersion.findFirst({
+        where: { workflowId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+      const version = (latest?.version ?? 0) + 1;
+
+      await tx.workflowVersion.create({
+        data: {
+          workflowId,
+          version,
+          nodes: nodes as any,
+          edges: edges as any,
+          note: note?.trim() || null,
+          createdById: userId,
+        },
+      });
+
+      const updated = await tx.workflow.update({
+        where: { id: workflowId },
+        data: {
+          nodes: nodes as any,
+          edges: edges as any,
+          draftNodes: Prisma.DbNull,
+          draftEdges: Prisma.DbNull,
+          publishedVersion: version,
+          updatedAt: new Date(),
+          ...(userId ? { updatedById: userId } : {}),
+        },
+      });
+
+      // A live TRIGGER_WEBHOOK needs a signing secret; the null check keeps an existing one
+      if (!updated.webhookSecret && nodes.some((n) => n.type === WorkflowNodeType.TRIGGER_WEBHOOK)) {
+        await tx.workflow.updateMany({
+          where: { id: workflowId, webhookSecret: null },
+          data: { webhookSecret: randomBytes(32).toString('hex') },
+        });
+      }
+
+      return updated;
+    });
+
+    console.log(`[WORKFLOW] Published version ${workflow.publishedVersion} of workflow ${workflowId}`);
     return this.mapToWorkflow(workflow);
   }
 
+  /**
+   * CALL_WORKFLOW targets must exist in the tenant, must not call back into
+   * this workflow, and the deepest call chain must stay within MAX_CALL_DEPTH
+   */
+  private async validateSubWorkflowCalls(tenantId: string, workflowId: string, nodes: WorkflowNode[]) {
+    const called = getCalledWorkflowIds(nodes);
+    if (called.length === 0) return;
+
+    const workflows = await this.prisma.workflow.findMany({
+      where: { tenantId },
+      select: { id: true, nodes: true },
+    });
+
+    const calls = new Map<string, string[]>();
+    for (const workflow of workflows) {
+      calls.set(workflow.id, getCalledWorkflowIds((workflow.nodes as any) || []));
+    }
+    calls.set(workflowId, called);
+
+    const missing = called.filter((id) => !calls.has(id));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Sub-workflow not found: ${missing.join(', ')}`);
+    }
+
+    const cycle = findCallCycle(calls, workflowId);
+    if (cycle) {
+      throw new BadRequestException(`Sub-workflow cycle detected: ${cycle.join(' → ')}`);
+    }
+
+    if (getCallChainDepth(calls, workflowId) > MAX_CALL_DEPTH) {
+      throw new BadRequestException(`Sub-workflow calls nest deeper than ${MAX_CALL_DEPTH} levels`);
+    }
+  }
+
   private async cleanupOrphanedMedia(tenantId: string, workflowId: string, nodes: WorkflowNode[]) {
     try {
       // 1. Collect all media IDs currently in use in the workflow nodes
@@ -170,7 +415,18 @@ export class WorkflowService {
         }
       };
 
-      for (const node of nodes) {
+      // Published graph and older versions may still be live or rolled back to
+      const [published, versions] = await Promise.all([
+        this.prisma.workflow.findUnique({ where: { id: workflowId }, select: { nodes: true } }),
+        this.prisma.workflowVersion.findMany({ where: { workflowId }, select: { nodes: true } }),
+      ]);
+      const allNodes = [
+        ...nodes,
+        ...((published?.nodes as any[]) || []),
+        ...versions.flatMap((v) => (v.nodes as any[]) || []),
+      ];
+
+      for (const node of allNodes) {
         if (node.config) {
           findMediaIds(node.config);
         }
@@ -236,36 +492,31 @@ export class WorkflowService {
   /**
    * Validate workflow structure (for activation)
    */
-  private validateWorkflow(nodes: WorkflowNode[], edges: WorkflowEdge[]): void {
-    // Allow empty workflows (under construction)
-    if (nodes.length === 0) {
-      throw new Error('Cannot activate an empty workflow');
-    }
-
-    // Check for at least one trigger node
-    const hasTrigger = nodes.some(
-      (n) =>
-        n.type === WorkflowNodeType.TRIGGER_MESSAGE ||
-        n.type === WorkflowNodeType.TRIGGER_WHATSAPP ||
-        n.type === WorkflowNodeType.TRIGGER_KEYWORD ||
-        n.type === WorkflowNodeType.TRIGGER_SCHEDULE ||
-        n.type === WorkflowNodeType.TRIGGER_GRUPO ||
-        n.type === WorkflowNodeType.TRIGGER_MANUAL,
-    );
-
-    if (!hasTrigger) {
-      throw new Error('Workflow must have at least one trigger node');
-    }
-
-    // Check for at least one END node
-    const hasEnd = nodes.some((n) => n.type === WorkflowNodeType.END);
-
-    if (!hasEnd) {
-      throw new Error('Workflow must have at least one END node');
+  private async validateWorkflow(tenantId: string, nodes: WorkflowNode[], edges: WorkflowEdge[]): Promise<void> {
+    const result = await this.checkWorkflowGraph(tenantId, nodes, edges);
+
+    if (!result.valid) {
+      throw new BadRequestException({
+        message: result.errors.map((e) => e.message).join('; '),
+        errors: result.errors,
+        warnings: result.warnings,
+      });
     }
+  }
 
-    // Validate edges reference existing nodes
-    this.validateEdges(nodes, edges);
+  /**
+   * Run the static validator against the tenant's sessions and workflows
+   */
+  private async checkWorkflowGraph(tenantId: string, nodes: WorkflowNode[], edges: WorkflowEdge[]): Promise<WorkflowValidationResult> {
+    const [sessions, workflows] = await Promise.all([
+      this.prisma.whatsappSession.findMany({ where: { tenantId }, select: { id: true } }),
+      this.prisma.workflow.findMany({ where: { tenantId }, select: { id: true } }),
+    ]);
+
+    return validateWorkflowGraph(nodes || [], edges || [], {
+      sessionIds: sessions.map((s) => s.id),
+      workflowIds: workflows.map((w) => w.id),
+    });
   }
 
   /**
@@ -293,6 +544,11 @@ export class WorkflowService {
       nodes: data.nodes as WorkflowNode[],
       edges: data.edges as WorkflowEdge[],
       isActive: data.isActive,
+      maxIterations: data.maxIterations,
+      publishedVersion: data.publishedVersion ?? null,
+      draft: data.draftNodes || data.draftEdges
+        ? { nodes: (data.draftNodes ?? data.nodes) as WorkflowNode[], edges: (data.draftEdges ?? data.edges) as WorkflowEdge[] }
+        : null,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
     };
@@ -400,6 +656,168 @@ export class WorkflowService {
     return { executionId: execution.id };
   }
 
+  /**
+   * Preview the next run times of a TRIGGER_SCHEDULE config (editor helper)
+   */
+  previewSchedule(config: Partial<TriggerScheduleConfig>, count: number = 5) {
+    if (config.timezone && !isValidTimezone(config.timezone)) {
+      throw new BadRequestException(`Unknown timezone "${config.timezone}"`);
+    }
+    const limit = Math.min(Math.max(Math.floor(count) || 5, 1), 20);
+    try {
+      const runs = getNextScheduleRuns(config, limit);
+      return {
+        timezone: resolveScheduleTimezone(config.timezone),
+        runs: runs.map(date => date.toISOString()),
+      };
+    } catch (error) {
+      throw new BadRequestException(`Invalid schedule: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the HMAC secret used by TRIGGER_WEBHOOK nodes. It is created when a
+   * version with a webhook trigger is published, or by rotateWebhookSecret.
+   */
+  async getWebhookSecret(tenantId: string, workflowId: string): Promise<{ secret: string | null }> {
+    const workflow = await this.prisma.workflow.findFirst({
+      where: { id: workflowId, tenantId },
+      select: { id: true, webhookSecret: true },
+    });
+    if (!workflow) {
+      throw new NotFoundException(`Workflow ${workflowId} not found`);
+    }
+    return { secret: workflow.webhookSecret };
+  }
+
+  /**
+   * Replace the webhook HMAC secret, invalidating the previous one
+   */
+  async rotateWebhookSecret(tenantId: string, workflowId: string): Promise<{ secret: string }> {
+    const secret = randomBytes(32).toString('hex');
+    const result = await this.prisma.workflow.updateMany({
+      where: { id: workflowId, tenantId },
+      data: { webhookSecret: secret },
+    });
+    if (result.count === 0) {
+      throw new NotFoundException(`Workflow ${workflowId} not found`);
+    }
+    return { secret };
+  }
+
+  /**
+   * Start an execution from a signed inbound webhook (TRIGGER_WEBHOOK).
+   * The signature is checked by WorkflowHmacGuard before this runs.
+   */
+  async triggerWebhookExecution(
+    workflowId: string,
+    nodeId: string,
+    body: any,
+  ): Promise<{ executionId: string }> {
+    const workflowData = await this.prisma.workflow.findUnique({ where: { id: workflowId } });
+    if (!workflowData || !workflowData.isActive) {
+      throw new NotFoundException('Workflow not found or inactive');
+    }
+
+    const nodes = workflowData.nodes as unknown as WorkflowNode[];
+    const triggerNode = nodes.find((n) => n.id === nodeId && n.type === WorkflowNodeType.TRIGGER_WEBHOOK);
+    if (!triggerNode) {
+      throw new NotFoundException(`Webhook trigger ${nodeId} not found`);
+    }
+
+    const tenantId = workflowData.tenantId;
+    const config = (triggerNode.config || {}) as TriggerWebhookConfig;
+    const payload = body && typeof body === 'object' ? body : {};
+
+    if (!config.phonePath) {
+      throw new BadRequestException('Webhook trigger has no phone path configured');
+    }
+    const rawPhone = this.getValueByPath(payload, config.phonePath);
+    const contactPhone = this.normalizeWebhookPhone(rawPhone);
+    if (!contactPhone) {
+      throw new BadRequestException(`No phone number found at "${config.phonePath}"`);
+    }
+
+    let sessionId: string;
+    if (config.sessionId) {
+      const session = await this.prisma.whatsappSession.findFirst({
+        where: { id: config.sessionId, tenantId },
+        select: { id: true },
+      });
+      if (!session) {
+        throw new BadRequestException(`Configured session ${config.sessionId} not found`);
+      }
+      sessionId = session.id;
+    } else {
+      const session = await this.prisma.whatsappSession.findFirst({
+        where: { tenantId, status: 'CONNECTED' },
+        select: { id: true },
+      });
+      if (!session) {
+        throw new BadRequestException('No connected WhatsApp session found');
+      }
+      sessionId = session.id;
+    }
+
+    const contactName = config.contactNamePath
+      ? this.getValueByPath(payload, config.contactNamePath)
+      : undefined;
+
+    // JSON body is exposed as {{input.*}} and {{variables.webhook.*}}
+    const initialContext = {
+      globals: {},
+      input: payload,
+      output: {},
+      variables: { webhook: payload } as any,
+      tenantId,
+    };
+
+    const execution = await this.executionEngine.startExecution(
+      tenantId,
+      workflowId,
+      sessionId,
+      contactPhone,
+      undefined,
+      {
+        messageId: `webhook-${Date.now()}`,
+        from: contactPhone,
+        fromMe: false,
+        type: 'text',
+        text: '',
+        media: null,
+        timestamp: Date.now(),
+        contactName: typeof contactName === 'string' ? contactName : undefined,
+      },
+      {
+        initialContext,
+        triggerNodeId: triggerNode.id,
+        triggerType: WorkflowNodeType.TRIGGER_WEBHOOK,
+      },
+    );
+
+    console.log(`[WEBHOOK TRIGGER] Started execution ${execution.id} for workflow ${workflowId} to ${contactPhone}`);
+
+    return { executionId: execution.id };
+  }
+
+  private getValueByPath(obj: any, path: string): any {
+    return path
+      .split('.')
+      .filter(Boolean)
+      .reduce((current, key) => (current == null ? undefined : current[key]), obj);
+  }
+
+  /**
+   * Accepts raw numbers ("+55 (11) 99999-0000") or full JIDs
+   */
+  private normalizeWebhookPhone(value: any): string | null {
+    if (value === undefined || value === null) return null;
+    const raw = String(value).trim();
+    if (raw.includes('@')) return raw;
+    const digits = raw.replace(/\D/g, '');
+    return digits ? `${digits}@s.whatsapp.net` : null;
+  }
+
   /**
    * Execute a group workflow immediately (Test Now)
    */
@@ -483,6 +901,12 @@ export class WorkflowService {
       throw new Error(`Workflow ${workflowId} not found`);
     }
 
+    // Tests run against what the editor shows
+    if (workflow.draft) {
+      workflow.nodes = workflow.draft.nodes;
+      workflow.edges = workflow.draft.edges;
+    }
+
     // Find the node
     const node = workflow.nodes.find((n) => n.id === nodeId);
     if (!node) {
@@ -590,6 +1014,8 @@ export class WorkflowService {
         description: original.description,
         nodes: original.nodes as any,
         edges: original.edges as any,
+        draftNodes: (original.draftNodes ?? undefined) as any,
+        draftEdges: (original.draftEdges ?? undefined) as any,
         isActive: false, // Don't activate duplicated workflows by default
       },
     });
@@ -743,7 +1169,8 @@ export class WorkflowService {
     }
 
     const originalWorkflow = shareable.workflow;
-    const originalNodes = originalWorkflow.nodes as any[];
+    // Credentials belong to the sharing tenant and never travel with the copy
+    const originalNodes = stripCredentialRefs(originalWorkflow.nodes as any[]);
     const originalEdges = originalWorkflow.edges as any[];
 
     // Create a mapping of old IDs to new IDs
@@ -14,7 +14,8 @@ import {
   AlertCircle,
   Calendar,
   ChevronDown,
-  Phone
+  Phone,
+  CheckCheck
 } from 'lucide-react'
 import { apiClient } from '@/lib/api-client'
 import { AuthGuard } from '@/components/AuthGuard'
@@ -37,6 +38,10 @@ interface CampaignStats {
   blocked: number
   pending: number
   progress: number
+  delivered: number
+  read: number
+  deliveryRate: number
+  readRate: number
 }
 
 interface CampaignInsights {
@@ -214,13 +219,31 @@ export default function CampaignInsightsPage() {
                         <h3 className="text-sm font-bold flex items-center gap-2 mb-6 text-gray-300">
                           <Clock size={16} className="text-gray-500" /> Detalhes da Entrega
                         </h3>
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                        <div className="grid grid-cols-2 md:grid-cols-6 gap-6">
                           <div className="space-y-1">
                             <p className="text-[10px] text-gray-500 font-bold uppercase tracking-tighter flex items-center gap-1.5">
                               <CheckCircle2 size={10} className="text-green-500" /> Sucesso
                             </p>
                             <p className="text-lg font-black">{stats?.sent || 0}</p>
                           </div>
+                          <div className="space-y-1">
+                            <p className="text-[10px] text-gray-500 font-bold uppercase tracking-tighter flex items-center gap-1.5">
+                              <CheckCheck size={10} className="text-gray-400" /> Entregues
+                            </p>
+                            <p className="text-lg font-black">
+                              {stats?.delivered || 0}
+                              <span className="text-gray-600 text-xs font-normal ml-1">({(stats?.deliveryRate || 0).toFixed(1)}%)</span>
+                            </p>
+                          </div>
+                          <div className="space-y-1">
+                            <p className="text-[10px] text-gray-500 font-bold uppercase tracking-tighter flex items-center gap-1.5">
+                              <CheckCheck size={10} className="text-blue-400" /> Lidas
+                            </p>
+                            <p className="text-lg font-black">
+                              {stats?.read || 0}
+                              <span className="text-gray-600 text-xs font-normal ml-1">({(stats?.readRate || 0).toFixed(1)}%)</span>
+                            </p>
+                          </div>
                           <div className="space-y-1">
                             <p className="text-[10px] text-gray-500 font-bold uppercase tracking-tighter flex items-center gap-1.5">
                               <RefreshCw size={10} className="text-blue-500" /> Pendentes
@@ -41,6 +41,7 @@ interface Workflow { id: string; name: string; isActive: boolean }
 
 interface Stats {
   total: number; sent: number; failed: number; blocked: number; pending: number; progress: number
+  delivered: number; read: number; deliveryRate: number; readRate: number
 }
 
 interface Session { id: string; name: string; status: string; phoneNumber?: string }
@@ -137,10 +138,12 @@ function StatsModal({ campaignId, onClose }: { campaignId: string; onClose: () =
                   <div className="relative h-3 bg-white/10 rounded-full overflow-hidden mb-4">
                     <div className="absolute inset-y-0 left-0 bg-[#00ff88] rounded-full transition-all duration-1000" style={{ width: `${stats.progress}%` }} />
                   </div>
-                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                  <div className="grid grid-cols-2 md:grid-cols-7 gap-3">
                     {[
                       { label: 'Total', value: stats.total, color: 'text-white' },
                       { label: 'Enviados', value: stats.sent, color: 'text-green-400' },
+                      { label: `Entregues (${(stats.deliveryRate ?? 0).toFixed(0)}%)`, value: stats.delivered ?? 0, color: 'text-gray-300' },
+                      { label: `Lidas (${(stats.readRate ?? 0).toFixed(0)}%)`, value: stats.read ?? 0, color: 'text-blue-400' },
                       { label: 'Pendentes', value: stats.pending, color: 'text-yellow-400' },
                       { label: 'Falhas', value: stats.failed, color: 'text-red-400' },
                       { label: 'Bloqueados', value: stats.blocked, color: 'text-orange-400' },
@@ -17,7 +17,7 @@ const WorkflowCanvas = dynamic(() => import('@/components/WorkflowCanvas'), { ss
 const BLOCKED_NODES = new Set([
   'MENCIONAR_TODOS', 'INICIO_DE_GRUPO', 'FLUXO_DE_GRUPO', 'PROMO_ML', 'PROMO_SHOPEE',
   'TRIGGER_WHATSAPP', 'TRIGGER_KEYWORD', 'TRIGGER_MESSAGE', 'TRIGGER_SCHEDULE',
-  'TRIGGER_MANUAL', 'TRIGGER_GRUPO',
+  'TRIGGER_MANUAL', 'TRIGGER_GRUPO', 'TRIGGER_WEBHOOK', 'TRIGGER_GROUP_JOIN', 'TRIGGER_GROUP_LEAVE', 'TRIGGER_CALL',
 ])
 
 // Campaign-specific node types
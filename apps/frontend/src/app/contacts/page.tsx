@@ -0,0 +1,515 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, Search, Trash2, Edit2, X, Contact as ContactIcon, Settings2 } from 'lucide-react'
+import { apiClient } from '@/lib/api-client'
+import { AuthGuard } from '@/components/AuthGuard'
+import AppHeader from '@/components/AppHeader'
+
+type FieldType = 'text' | 'number' | 'date' | 'select'
+
+interface ContactField {
+  id: string
+  key: string
+  label: string
+  type: FieldType
+  options: string[]
+}
+
+interface Contact {
+  id: string
+  phone: string
+  name?: string | null
+  avatarUrl?: string | null
+  fields: Record<string, any>
+  updatedAt: string
+}
+
+interface ContactDetail extends Contact {
+  conversations: { id: string; status: string; lastMessage?: string; lastMessageAt?: string; session?: { name: string } }[]
+  tags: { sessionId: string; tags: string[]; stage?: string | null }[]
+  reputation: { score: number; quarantineUntil?: string | null } | null
+  leadOrigins: { id: string; isFromAd: boolean; adTitle?: string | null; contactState?: string | null; receivedAt: string }[]
+  lists: { id: string; name: string }[]
+}
+
+const fieldTypeLabels: Record<FieldType, string> = {
+  text: 'Texto',
+  number: 'Número',
+  date: 'Data',
+  select: 'Seleção',
+}
+
+function formatFieldValue(field: ContactField, value: any) {
+  if (value === undefined || value === null || value === '') return '—'
+  if (field.type === 'date') {
+    const [y, m, d] = String(value).split('-')
+    return d ? `${d}/${m}/${y}` : String(value)
+  }
+  return String(value)
+}
+
+// ─── Fields modal ─────────────────────────────────────────────────────────────
+
+function FieldsModal({ fields, onClose, onChange }: { fields: ContactField[]; onClose: () => void; onChange: () => void }) {
+  const emptyForm = { label: '', key: '', type: 'text' as FieldType, options: '' }
+  const [editing, setEditing] = useState<ContactField | null>(null)
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const startEdit = (field: ContactField) => {
+    setEditing(field)
+    setForm({ label: field.label, key: field.key, type: field.type, options: field.options.join(', ') })
+  }
+
+  const reset = () => {
+    setEditing(null)
+    setForm(emptyForm)
+  }
+
+  const handleSave = async () => {
+    const body = {
+      label: form.label,
+      type: form.type,
+      options: form.type === 'select' ? form.options.split(',').map((o) => o.trim()).filter(Boolean) : [],
+    }
+    try {
+      setSaving(true)
+      if (editing) await apiClient.updateContactField(editing.id, body)
+      else await apiClient.createContactField({ ...body, key: form.key || undefined })
+      reset()
+      onChange()
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Erro ao salvar campo')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (field: ContactField) => {
+    if (!confirm(`Excluir o campo "${field.label}"? Os valores salvos nos contatos serão apagados.`)) return
+    try {
+      await apiClient.deleteContactField(field.id)
+      if (editing?.id === field.id) reset()
+      onChange()
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Erro ao excluir campo')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-[#1a1a1a] border border-gray-800 rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold">Campos personalizados</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        <div className="space-y-2 mb-6">
+          {fields.length === 0 && <p className="text-sm text-gray-500">Nenhum campo criado.</p>}
+          {fields.map((field) => (
+            <div key={field.id} className="flex items-center justify-between bg-[#0a0a0a] border border-gray-800 rounded px-3 py-2">
+              <div>
+                <p className="text-sm text-white">{field.label} <span className="text-xs text-gray-500">· {fieldTypeLabels[field.type]}</span></p>
+                <code className="text-[11px] text-gray-500">{`{{contact.${field.key}}}`}</code>
+              </div>
+              <div className="flex items-center gap-1">
+                <button onClick={() => startEdit(field)} className="p-2 hover:bg-gray-800 rounded transition">
+                  <Edit2 size={14} className="text-gray-400" />
+                </button>
+                <button onClick={() => handleDelete(field)} className="p-2 hover:bg-red-500/20 rounded transition">
+                  <Trash2 size={14} className="text-red-400" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 border-t border-gray-800 pt-4">
+          <h3 className="text-sm font-semibold">{editing ? `Editar "${editing.label}"` : 'Novo campo'}</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+              placeholder="Nome do campo"
+              className="px-3 py-2 bg-[#0a0a0a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white"
+            />
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as FieldType })}
+              className="px-3 py-2 bg-[#0a0a0a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white"
+            >
+              {Object.entries(fieldTypeLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          {!editing && (
+            <input
+              type="text"
+              value={form.key}
+              onChange={(e) => setForm({ ...form, key: e.target.value })}
+              placeholder="Chave (opcional, gerada a partir do nome)"
+              className="w-full px-3 py-2 bg-[#0a0a0a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white font-mono"
+            />
+          )}
+          {form.type === 'select' && (
+            <input
+              type="text"
+              value={form.options}
+              onChange={(e) => setForm({ ...form, options: e.target.value })}
+              placeholder="Opções separadas por vírgula"
+              className="w-full px-3 py-2 bg-[#0a0a0a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white"
+            />
+          )}
+          <div className="flex gap-3">
+            {editing && (
+              <button onClick={reset} className="flex-1 px-4 py-2 bg-gray-800 text-white rounded hover:bg-gray-700 transition text-sm">
+                Cancelar
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.label.trim()}
+              className="flex-1 px-4 py-2 bg-primary text-black rounded hover:bg-primary/80 transition font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {editing ? 'Salvar' : 'Criar campo'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// ─── Contact drawer ───────────────────────────────────────────────────────────
+
+function ContactDrawer({
+  contactId,
+  fields,
+  onClose,
+  onSaved,
+}: {
+  contactId: string
+  fields: ContactField[]
+  onClose: () => void
+  onSaved: (contact: Contact) => void
+}) {
+  const [contact, setContact] = useState<ContactDetail | null>(null)
+  const [name, setName] = useState('')
+  const [values, setValues] = useState<Record<string, any>>({})
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    apiClient.getContact(contactId)
+      .then((data: ContactDetail) => {
+        setContact(data)
+        setName(data.name || '')
+        setValues(data.fields || {})
+      })
+      .catch((e) => console.error(e))
+  }, [contactId])
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      // Send every defined field so cleared inputs are removed
+      const fieldValues = Object.fromEntries(fields.map((f) => [f.key, values[f.key] ?? '']))
+      const updated = await apiClient.updateContact(contactId, { name: name || null, fields: fieldValues })
+      onSaved(updated)
+      onClose()
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Erro ao salvar contato')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 bg-[#0a0a0a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex justify-end z-50" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-[#1a1a1a] border-l border-gray-800 overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-5 border-b border-gray-800">
+          <h2 className="text-lg font-bold">Contato</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        {!contact ? (
+          <div className="flex items-center justify-center py-20 text-gray-400">Carregando...</div>
+        ) : (
+          <div className="p-5 space-y-6">
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs font-medium mb-1.5 text-gray-400">Nome</label>
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium mb-1.5 text-gray-400">Número</label>
+                <p className="text-sm text-gray-300 font-mono">{contact.phone}</p>
+              </div>
+
+              {fields.map((field) => (
+                <div key={field.id}>
+                  <label className="block text-xs font-medium mb-1.5 text-gray-400">{field.label}</label>
+                  {field.type === 'select' ? (
+                    <select
+                      value={values[field.key] ?? ''}
+                      onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">—</option>
+                      {field.options.map((o) => <option key={o} value={o}>{o}</option>)}
+                    </select>
+                  ) : (
+                    <input
+                      type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+                      value={values[field.key] ?? ''}
+                      onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                      className={inputClass}
+                    />
+                  )}
+                </div>
+              ))}
+
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="w-full px-4 py-2 bg-primary text-black rounded hover:bg-primary/80 transition font-semibold text-sm disabled:opacity-50"
+              >
+                {saving ? 'Salvando...' : 'Salvar'}
+              </button>
+            </div>
+
+            <section>
+              <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-2">Conversas</h3>
+              {contact.conversations.length === 0 && <p className="text-sm text-gray-600">Nenhuma conversa</p>}
+              {contact.conversations.map((c) => (
+                <Link key={c.id} href="/inbox" className="block bg-[#0a0a0a] border border-gray-800 rounded px-3 py-2 mb-2 hover:border-gray-700">
+                  <p className="text-xs text-gray-400">{c.session?.name} · {c.status}</p>
+                  <p className="text-sm text-gray-300 truncate">{c.lastMessage || '—'}</p>
+                </Link>
+              ))}
+            </section>
+
+            <section>
+              <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-2">Tags e etapa</h3>
+              {contact.tags.every((t) => t.tags.length === 0 && !t.stage) && <p className="text-sm text-gray-600">Sem tags</p>}
+              <div className="flex flex-wrap gap-1.5">
+                {contact.tags.flatMap((t) => [
+                  ...(t.stage ? [<span key={`${t.sessionId}-stage`} className="px-2 py-0.5 rounded text-xs bg-blue-500/20 text-blue-300">Etapa: {t.stage}</span>] : []),
+                  ...t.tags.map((tag) => <span key={`${t.sessionId}-${tag}`} className="px-2 py-0.5 rounded text-xs bg-purple-500/20 text-purple-300">{tag}</span>),
+                ])}
+              </div>
+            </section>
+
+            <section className="grid grid-cols-2 gap-3">
+              <div className="bg-[#0a0a0a] border border-gray-800 rounded px-3 py-2">
+                <p className="text-xs text-gray-500">Reputação</p>
+                <p className="text-lg font-semibold">{contact.reputation ? contact.reputation.score : '—'}</p>
+              </div>
+              <div className="bg-[#0a0a0a] border border-gray-800 rounded px-3 py-2">
+                <p className="text-xs text-gray-500">Origem</p>
+                <p className="text-sm truncate">
+                  {contact.leadOrigins[0]
+                    ? contact.leadOrigins[0].isFromAd ? `Anúncio${contact.leadOrigins[0].adTitle ? `: ${contact.leadOrigins[0].adTitle}` : ''}` : 'Orgânico'
+                    : '—'}
+                </p>
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-2">Listas</h3>
+              {contact.lists.length === 0 ? (
+                <p className="text-sm text-gray-600">Não está em nenhuma lista</p>
+              ) : (
+                <div className="flex flex-wrap gap-1.5">
+                  {contact.lists.map((l) => <span key={l.id} className="px-2 py-0.5 rounded text-xs bg-white/10 text-gray-300">{l.name}</span>)}
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+function ContactsPageContent() {
+  const router = useRouter()
+  const [contacts, setContacts] = useState<Contact[]>([])
+  const [fields, setFields] = useState<ContactField[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [showFields, setShowFields] = useState(false)
+
+  const loadContacts = useCallback(async () => {
+    try {
+      setLoading(true)
+      const result = await apiClient.getContacts({ search: search || undefined, page, limit: 50 })
+      setContacts(result.data || [])
+      setTotalPages(result.meta?.totalPages || 1)
+      setTotal(result.meta?.total || 0)
+    } catch (error) {
+      console.error('Error loading contacts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [search, page])
+
+  const loadFields = async () => {
+    try {
+      setFields(await apiClient.getContactFields())
+    } catch (error) {
+      console.error('Error loading contact fields:', error)
+    }
+  }
+
+  useEffect(() => {
+    const timeout = setTimeout(loadContacts, 300)
+    return () => clearTimeout(timeout)
+  }, [loadContacts])
+
+  useEffect(() => {
+    loadFields()
+  }, [])
+
+  const visibleFields = fields.slice(0, 3)
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-white">
+      <AppHeader />
+      <div className="max-w-6xl mx-auto p-8">
+        <button
+          onClick={() => router.back()}
+          className="flex items-center gap-1.5 text-gray-400 hover:text-white text-sm transition mb-6"
+        >
+          <ArrowLeft size={16} /> Voltar
+        </button>
+
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">👤 Contatos</h1>
+            <p className="text-gray-400">
+              Um registro por número, com conversas, tags e campos personalizados
+            </p>
+          </div>
+          <button
+            onClick={() => setShowFields(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-black rounded-lg hover:bg-primary/80 transition font-semibold"
+          >
+            <Settings2 size={18} />
+            Campos
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 bg-[#151515] rounded-lg px-3 py-2 border border-gray-800 focus-within:border-primary/50 mb-4 max-w-md">
+          <Search size={16} className="text-gray-500" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => { setSearch(e.target.value); setPage(1) }}
+            placeholder="Buscar por nome ou número..."
+            className="flex-1 bg-transparent text-sm text-white placeholder-gray-600 outline-none"
+          />
+        </div>
+
+        {loading && contacts.length === 0 ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="text-gray-400">Carregando...</div>
+          </div>
+        ) : contacts.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-gray-500">
+            <ContactIcon size={64} className="mb-4 opacity-20" />
+            <p className="text-lg mb-2">Nenhum contato encontrado</p>
+            <p className="text-sm">Os contatos são criados automaticamente quando alguém conversa com suas sessões</p>
+          </div>
+        ) : (
+          <div className="bg-[#151515] border border-gray-800 rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-800">
+                  <th className="px-4 py-3 font-medium">Nome</th>
+                  <th className="px-4 py-3 font-medium">Número</th>
+                  {visibleFields.map((f) => <th key={f.id} className="px-4 py-3 font-medium">{f.label}</th>)}
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {contacts.map((contact) => (
+                  <tr
+                    key={contact.id}
+                    onClick={() => setSelectedId(contact.id)}
+                    className="border-b border-gray-800/60 last:border-0 hover:bg-white/[0.02] cursor-pointer"
+                  >
+                    <td className="px-4 py-3 text-white">{contact.name || <span className="text-gray-600">Sem nome</span>}</td>
+                    <td className="px-4 py-3 text-gray-400 font-mono">{contact.phone}</td>
+                    {visibleFields.map((f) => (
+                      <td key={f.id} className="px-4 py-3 text-gray-300">{formatFieldValue(f, contact.fields?.[f.key])}</td>
+                    ))}
+                    <td className="px-4 py-3 text-right">
+                      <Edit2 size={14} className="inline text-gray-500" />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-400">
+            <span>{total} contatos</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page <= 1}
+                className="px-3 py-1.5 bg-gray-800 rounded hover:bg-gray-700 disabled:opacity-40"
+              >
+                Anterior
+              </button>
+              <span>{page} / {totalPages}</span>
+              <button
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page >= totalPages}
+                className="px-3 py-1.5 bg-gray-800 rounded hover:bg-gray-700 disabled:opacity-40"
+              >
+                Próxima
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {showFields && (
+        <FieldsModal fields={fields} onClose={() => setShowFields(false)} onChange={() => { loadFields(); loadContacts() }} />
+      )}
+
+      {selectedId && (
+        <ContactDrawer
+          contactId={selectedId}
+          fields={fields}
+          onClose={() => setSelectedId(null)}
+          onSaved={(updated) => setContacts((prev) => prev.map((c) => (c.id === updated.id ? { ...c, ...updated } : c)))}
+        />
+      )}
+    </div>
+  )
+}
+
+export default function ContactsPage() {
+  return (
+    <AuthGuard>
+      <ContactsPageContent />
+    </AuthGuard>
+  )
+}
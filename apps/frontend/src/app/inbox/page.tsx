@@ -9,7 +9,7 @@ import { wsClient } from '@/lib/websocket'
 import {
     MessageSquare, Search, Filter, Send, ChevronDown, Check, CheckCheck,
     ArrowLeft, Users, User, Zap, RefreshCw, X, Image,
-    FileText, Mic, Play
+    FileText, Mic, Play, MapPin, Lock, StickyNote, Bookmark, Paperclip, Trash2, Plus, TextSearch
 } from 'lucide-react'
 
 // ─── Types ───────────────────────────────────────────────────────────────────
@@ -33,6 +33,53 @@ interface Conversation {
     activeFlowId?: string
     labels: string[]
     session?: { name: string }
+    assignedToId?: string | null
+    assignedTo?: { id: string; name?: string; email: string } | null
+    handoffQueue?: string | null
+    handoffAt?: string | null
+}
+
+interface SearchHit {
+    id: string
+    conversationId: string
+    snippet: string
+    fromMe: boolean
+    isInternal: boolean
+    timestamp: string
+    conversation: { id: string; contactName?: string | null; contactPhone: string; phoneNumber?: string; status: ConversationStatus }
+    context: {
+        before: { content: string; fromMe: boolean } | null
+        after: { content: string; fromMe: boolean } | null
+    }
+}
+
+interface SavedResponse {
+    id: string
+    shortcut: string
+    title: string
+    content: string
+    mediaFileId?: string | null
+    media?: { id: string; url: string; originalName: string; mimeType: string } | null
+}
+
+interface Attachment {
+    url: string
+    type: 'image' | 'video' | 'audio' | 'document'
+    fileName?: string
+}
+
+interface Agent {
+    id: string
+    name?: string
+    email: string
+}
+
+interface HandoffState {
+    assignedToId: string | null
+    queue: string | null
+    handoffAt: string | null
+    pausedExecution: { id: string; workflowId: string; currentNodeId: string | null; nodes: { id: string; type: string }[] } | null
+    history: { id: string; action: string; userId?: string | null; queue?: string | null; byUserId?: string | null; createdAt: string }[]
 }
 
 interface Message {
@@ -42,8 +89,16 @@ interface Message {
     mediaUrl?: string
     mediaType?: string
     fromMe: boolean
+    isSystem?: boolean
+    isInternal?: boolean
+    authorId?: string | null
     timestamp: string
     status: MessageStatus
+    editedAt?: string | null
+    deletedAt?: string | null
+    reactions?: Record<string, string> | null
+    location?: { latitude: number; longitude: number; name?: string; address?: string; live?: boolean } | null
+    contacts?: { name: string; phones: string[] }[] | null
 }
 
 interface Workflow {
@@ -68,6 +123,13 @@ const statusLabels: Record<ConversationStatus, string> = {
     BOT: 'Bot',
 }
 
+const assignmentActionLabels: Record<string, string> = {
+    handoff: 'Transferido pelo fluxo',
+    assign: 'Atribuído',
+    unassign: 'Atribuição removida',
+    return_to_bot: 'Devolvido ao bot',
+}
+
 function formatTime(ts?: string | null) {
     if (!ts) return ''
     const d = new Date(ts)
@@ -236,7 +298,12 @@ function MediaMessage({ msg }: { msg: Message }) {
             </div>
         )
     }
-    // document / sticker / etc
+    if (msg.mediaType === 'sticker') {
+        return msg.mediaUrl
+            ? <img src={msg.mediaUrl} alt="figurinha" className="w-32 h-32 object-contain" />
+            : <span className="text-sm opacity-60">Figurinha</span>
+    }
+    // document / etc
     return (
         <div className="flex items-center gap-2">
             <FileText size={16} />
@@ -255,7 +322,43 @@ function MediaMessage({ msg }: { msg: Message }) {
 
 function MessageBubble({ msg, prevMsg }: { msg: Message; prevMsg?: Message }) {
     const isFromMe = msg.fromMe
-    const sameSender = prevMsg && prevMsg.fromMe === msg.fromMe
+    const sameSender = prevMsg && !prevMsg.isSystem && !prevMsg.isInternal && prevMsg.fromMe === msg.fromMe
+
+    // Call notices and other events that were not sent over WhatsApp
+    if (msg.isSystem) {
+        return (
+            <div className="flex justify-center mt-3">
+                <span className="px-3 py-1 rounded-full bg-[#1a1a1a] text-xs text-gray-400">
+                    {msg.content} · {new Date(msg.timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
+                </span>
+            </div>
+        )
+    }
+
+    // Internal notes are only visible to operators
+    if (msg.isInternal) {
+        return (
+            <div className="flex justify-end mt-3">
+                <div className="max-w-[70%] px-3 py-2 text-sm bg-amber-500/10 border border-amber-500/30 text-amber-100 rounded-[18px] rounded-br-[4px]">
+                    <p className="flex items-center gap-1 text-[10px] font-semibold uppercase tracking-wider text-amber-400 mb-1">
+                        <Lock size={10} /> Nota interna
+                    </p>
+                    <p className="whitespace-pre-wrap break-words">{msg.content}</p>
+                    <p className="text-[10px] opacity-50 mt-1 text-right">
+                        {new Date(msg.timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                </div>
+            </div>
+        )
+    }
+
+    // Emoji -> how many people reacted with it
+    const reactions = Object.entries(
+        Object.values(msg.reactions || {}).reduce<Record<string, number>>((acc, emoji) => {
+            acc[emoji] = (acc[emoji] || 0) + 1
+            return acc
+        }, {})
+    )
 
     return (
         <div className={`flex ${isFromMe ? 'justify-end' : 'justify-start'} ${sameSender ? 'mt-0.5' : 'mt-3'}`}>
@@ -265,14 +368,30 @@ function MessageBubble({ msg, prevMsg }: { msg: Message; prevMsg?: Message }) {
                     : 'bg-[#1a1a1a] text-white rounded-[18px] rounded-bl-[4px]'
                     }`}
             >
-                {msg.mediaUrl ? <MediaMessage msg={msg} /> : <p className="whitespace-pre-wrap break-words">{msg.content}</p>}
+                {msg.deletedAt
+                    ? <p className="italic opacity-60">🚫 Mensagem apagada</p>
+                    : msg.location ? <LocationMessage location={msg.location} />
+                    : msg.contacts?.length ? <ContactCards contacts={msg.contacts} />
+                    : msg.mediaUrl ? <MediaMessage msg={msg} /> : <p className="whitespace-pre-wrap break-words">{msg.content}</p>}
+                {reactions.length > 0 && (
+                    <div className={`flex gap-1 mt-1 ${isFromMe ? 'justify-end' : 'justify-start'}`}>
+                        {reactions.map(([emoji, count]) => (
+                            <span key={emoji} className="px-1.5 py-0.5 rounded-full bg-black/30 text-xs">
+                                {emoji}{count > 1 && <span className="ml-0.5 opacity-70">{count}</span>}
+                            </span>
+                        ))}
+                    </div>
+                )}
                 <div className={`flex items-center gap-1 mt-1 ${isFromMe ? 'justify-end' : 'justify-start'}`}>
+                    {msg.editedAt && !msg.deletedAt && <span className="text-[10px] opacity-50">editada</span>}
                     <span className="text-[10px] opacity-50">
                         {new Date(msg.timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
                     </span>
                     {isFromMe && (
                         <span className="opacity-60">
-                            {msg.status === 'READ' ? <CheckCheck size={12} className="text-blue-300" /> : <Check size={12} />}
+                            {msg.status === 'READ'
+                                ? <CheckCheck size={12} className="text-blue-300" />
+                                : msg.status === 'DELIVERED' ? <CheckCheck size={12} /> : <Check size={12} />}
                         </span>
                     )}
                 </div>
@@ -281,16 +400,361 @@ function MessageBubble({ msg, prevMsg }: { msg: Message; prevMsg?: Message }) {
     )
 }
 
+function LocationMessage({ location }: { location: NonNullable<Message['location']> }) {
+    const mapsUrl = `https://www.google.com/maps?q=${location.latitude},${location.longitude}`
+    return (
+        <a href={mapsUrl} target="_blank" rel="noopener noreferrer" className="flex items-start gap-2">
+            <MapPin size={16} className="mt-0.5 shrink-0" />
+            <span>
+                <span className="block text-sm underline">
+                    {location.name || (location.live ? 'Localização em tempo real' : 'Localização')}
+                </span>
+                {location.address && <span className="block text-xs opacity-70">{location.address}</span>}
+                <span className="block text-[10px] opacity-50">{location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}</span>
+            </span>
+        </a>
+    )
+}
+
+function ContactCards({ contacts }: { contacts: NonNullable<Message['contacts']> }) {
+    return (
+        <div className="space-y-1.5">
+            {contacts.map((contact, i) => (
+                <div key={i} className="flex items-start gap-2">
+                    <User size={16} className="mt-0.5 shrink-0" />
+                    <span>
+                        <span className="block text-sm font-medium">{contact.name || 'Contato'}</span>
+                        {contact.phones.map((phone) => (
+                            <span key={phone} className="block text-xs opacity-70">+{phone}</span>
+                        ))}
+                    </span>
+                </div>
+            ))}
+        </div>
+    )
+}
+
 // ─── ChatArea ─────────────────────────────────────────────────────────────────
 
+function HandoffPanel({ conversation }: { conversation: Conversation }) {
+    const [agents, setAgents] = useState<Agent[]>([])
+    const [handoff, setHandoff] = useState<HandoffState | null>(null)
+    const [resumeNodeId, setResumeNodeId] = useState('')
+    const [busy, setBusy] = useState(false)
+
+    const loadHandoff = useCallback(() => {
+        apiClient.getConversationHandoff(conversation.id).then(setHandoff).catch(() => { })
+    }, [conversation.id])
+
+    useEffect(() => {
+        setResumeNodeId('')
+        loadHandoff()
+        apiClient.getInboxAgents().then(setAgents).catch(() => { })
+    }, [loadHandoff])
+
+    useEffect(() => {
+        const handler = (data: any) => {
+            if (data.conversationId === conversation.id) loadHandoff()
+        }
+        wsClient.onRaw('inbox:conversation-updated', handler)
+        return () => wsClient.offRaw('inbox:conversation-updated', handler)
+    }, [conversation.id, loadHandoff])
+
+    const agentName = (id?: string | null) => {
+        const agent = agents.find((a) => a.id === id)
+        return agent ? agent.name || agent.email : 'Usuário removido'
+    }
+
+    const handleAssign = async (userId: string) => {
+        setBusy(true)
+        try {
+            await apiClient.assignConversation(conversation.id, userId || null)
+            loadHandoff()
+        } catch (e) {
+            console.error(e)
+            alert('Erro ao atribuir conversa.')
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    const handleReturnToBot = async () => {
+        setBusy(true)
+        try {
+            await apiClient.returnConversationToBot(conversation.id, resumeNodeId || undefined)
+            setResumeNodeId('')
+            loadHandoff()
+        } catch (e: any) {
+            console.error(e)
+            alert(e?.response?.data?.message || 'Erro ao devolver ao bot.')
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    if (!handoff) return null
+
+    const paused = handoff.pausedExecution
+    const withHuman = !!handoff.handoffAt
+
+    return (
+        <div>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Atendimento</h4>
+            <div className="bg-[#1a1a1a] border border-white/5 rounded-xl p-3 space-y-3">
+                <div className="flex justify-between items-center text-sm">
+                    <span className="text-gray-500">Bot</span>
+                    <span className={`font-medium ${withHuman ? 'text-yellow-400' : 'text-violet-400'}`}>
+                        {withHuman ? 'Pausado (humano)' : 'Ativo'}
+                    </span>
+                </div>
+                {handoff.queue && (
+                    <div className="flex justify-between items-center text-sm">
+                        <span className="text-gray-500">Fila</span>
+                        <span className="text-white font-medium">{handoff.queue}</span>
+                    </div>
+                )}
+                <div>
+                    <label className="block text-[11px] text-gray-500 mb-1">Responsável</label>
+                    <select
+                        value={handoff.assignedToId || ''}
+                        onChange={(e) => handleAssign(e.target.value)}
+                        disabled={busy}
+                        className="w-full bg-[#111] border border-white/10 text-sm text-white rounded-lg px-2 py-1.5 outline-none"
+                    >
+                        <option value="">Ninguém</option>
+                        {agents.map((a) => (
+                            <option key={a.id} value={a.id}>{a.name || a.email}</option>
+                        ))}
+                    </select>
+                </div>
+                {withHuman && (
+                    <div className="space-y-2 pt-1">
+                        {paused && (
+                            <select
+                                value={resumeNodeId}
+                                onChange={(e) => setResumeNodeId(e.target.value)}
+                                disabled={busy}
+                                className="w-full bg-[#111] border border-white/10 text-xs text-gray-300 rounded-lg px-2 py-1.5 outline-none"
+                            >
+                                <option value="">Continuar de onde parou</option>
+                                {paused.nodes.map((n) => (
+                                    <option key={n.id} value={n.id}>{n.type} · {n.id}</option>
+                                ))}
+                            </select>
+                        )}
+                        <button
+                            onClick={handleReturnToBot}
+                            disabled={busy}
+                            className="w-full flex items-center justify-center gap-1.5 px-3 py-2 bg-violet-500/20 border border-violet-500/30 text-violet-300 rounded-lg text-xs hover:bg-violet-500/30 disabled:opacity-40 transition-colors"
+                        >
+                            <Zap size={12} />
+                            Devolver ao bot
+                        </button>
+                    </div>
+                )}
+            </div>
+            {handoff.history.length > 0 && (
+                <div className="mt-3 space-y-1.5">
+                    {handoff.history.map((h) => (
+                        <div key={h.id} className="text-[11px] text-gray-500 flex justify-between gap-2">
+                            <span className="truncate">
+                                {assignmentActionLabels[h.action] || h.action}
+                                {h.action === 'assign' && ` a ${agentName(h.userId)}`}
+                                {h.action === 'handoff' && h.queue && ` (${h.queue})`}
+                                {h.byUserId && ` · por ${agentName(h.byUserId)}`}
+                            </span>
+                            <span className="shrink-0">{formatTime(h.createdAt)}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
+function uploadTypeFor(file: File): Attachment['type'] {
+    if (file.type.startsWith('image/')) return 'image'
+    if (file.type.startsWith('video/')) return 'video'
+    if (file.type.startsWith('audio/')) return 'audio'
+    return 'document'
+}
+
+function SavedResponsesModal({
+    responses,
+    onChange,
+    onClose,
+}: {
+    responses: SavedResponse[]
+    onChange: (responses: SavedResponse[]) => void
+    onClose: () => void
+}) {
+    const { tenant } = useAuth()
+    const empty = { id: '', shortcut: '', title: '', content: '', mediaFileId: null, media: null }
+    const [editing, setEditing] = useState<SavedResponse | null>(null)
+    const [saving, setSaving] = useState(false)
+    const [uploading, setUploading] = useState(false)
+
+    const reload = () => apiClient.getSavedResponses().then(onChange).catch(() => { })
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        if (!file || !editing || !tenant?.id) return
+        setUploading(true)
+        try {
+            const data = await apiClient.uploadMedia(file, tenant.id, uploadTypeFor(file), '', '')
+            setEditing({ ...editing, mediaFileId: data.id, media: { id: data.id, url: data.url, originalName: data.originalName, mimeType: data.mimeType } })
+        } catch (err: any) {
+            alert(err.response?.data?.message || 'Erro ao fazer upload do arquivo')
+        } finally {
+            setUploading(false)
+            e.target.value = ''
+        }
+    }
+
+    const handleSave = async () => {
+        if (!editing) return
+        setSaving(true)
+        try {
+            const body = { shortcut: editing.shortcut, title: editing.title, content: editing.content, mediaFileId: editing.mediaFileId || null }
+            if (editing.id) await apiClient.updateSavedResponse(editing.id, body)
+            else await apiClient.createSavedResponse(body)
+            setEditing(null)
+            reload()
+        } catch (err: any) {
+            alert(err.response?.data?.message || 'Erro ao salvar resposta.')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleDelete = async (response: SavedResponse) => {
+        if (!confirm(`Excluir a resposta /${response.shortcut}?`)) return
+        try {
+            await apiClient.deleteSavedResponse(response.id)
+            reload()
+        } catch (e) {
+            console.error(e)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 px-4">
+            <div className="bg-[#111] border border-white/10 rounded-2xl w-full max-w-lg max-h-[80vh] flex flex-col">
+                <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+                    <h3 className="font-semibold text-white">Respostas salvas</h3>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white"><X size={18} /></button>
+                </div>
+
+                {editing ? (
+                    <div className="p-5 space-y-3 overflow-y-auto">
+                        <div className="flex gap-2">
+                            <div className="w-1/3">
+                                <label className="block text-[11px] text-gray-500 mb-1">Atalho</label>
+                                <input
+                                    value={editing.shortcut}
+                                    onChange={(e) => setEditing({ ...editing, shortcut: e.target.value })}
+                                    placeholder="/pix"
+                                    className="w-full bg-[#1a1a1a] border border-white/10 rounded-lg px-3 py-2 text-sm text-white font-mono outline-none focus:border-violet-500/50"
+                                />
+                            </div>
+                            <div className="flex-1">
+                                <label className="block text-[11px] text-gray-500 mb-1">Título</label>
+                                <input
+                                    value={editing.title}
+                                    onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                                    placeholder="Instruções de pagamento PIX"
+                                    className="w-full bg-[#1a1a1a] border border-white/10 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-violet-500/50"
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-[11px] text-gray-500 mb-1">Mensagem</label>
+                            <textarea
+                                value={editing.content}
+                                onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                                rows={5}
+                                placeholder="Olá {{contact.name}}! Segue a chave PIX..."
+                                className="w-full bg-[#1a1a1a] border border-white/10 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-violet-500/50"
+                            />
+                            <p className="text-[10px] text-gray-600 mt-1">
+                                Variáveis: {'{{contact.name}}'}, {'{{contact.phoneNumber}}'}, {'{{variables.contactTags}}'}, {'{{variables.etapa}}'} e as variáveis da última execução do contato.
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs">
+                            {editing.media ? (
+                                <span className="flex items-center gap-1 px-2.5 py-1 rounded-lg bg-white/5 text-gray-300 min-w-0">
+                                    <Paperclip size={12} className="shrink-0" />
+                                    <span className="truncate">{editing.media.originalName}</span>
+                                    <button onClick={() => setEditing({ ...editing, mediaFileId: null, media: null })} className="text-gray-500 hover:text-white shrink-0">
+                                        <X size={12} />
+                                    </button>
+                                </span>
+                            ) : (
+                                <label className="flex items-center gap-1 px-2.5 py-1 rounded-lg border border-white/10 text-gray-400 hover:text-white cursor-pointer">
+                                    <Paperclip size={12} />
+                                    {uploading ? 'Enviando...' : 'Anexar mídia'}
+                                    <input type="file" className="hidden" onChange={handleUpload} disabled={uploading} />
+                                </label>
+                            )}
+                        </div>
+                        <div className="flex justify-end gap-2 pt-2">
+                            <button onClick={() => setEditing(null)} className="px-4 py-2 text-sm text-gray-400 hover:text-white">Cancelar</button>
+                            <button
+                                onClick={handleSave}
+                                disabled={saving || uploading}
+                                className="px-4 py-2 text-sm bg-[#00ff88] text-black rounded-lg font-medium disabled:opacity-40"
+                            >
+                                {saving ? 'Salvando...' : 'Salvar'}
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex-1 overflow-y-auto">
+                        {responses.length === 0 ? (
+                            <div className="px-5 py-8 text-center text-sm text-gray-500">Nenhuma resposta salva ainda</div>
+                        ) : responses.map((r) => (
+                            <div key={r.id} className="px-5 py-3 border-b border-white/5 flex items-start gap-3">
+                                <button onClick={() => setEditing(r)} className="flex-1 text-left min-w-0">
+                                    <p className="text-sm text-white truncate">
+                                        <span className="font-mono text-violet-400 mr-2">/{r.shortcut}</span>
+                                        {r.title}
+                                    </p>
+                                    <p className="text-xs text-gray-500 truncate mt-0.5">
+                                        {r.media && <Paperclip size={10} className="inline mr-1" />}
+                                        {r.content}
+                                    </p>
+                                </button>
+                                <button onClick={() => handleDelete(r)} className="text-gray-600 hover:text-red-400 p-1">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ))}
+                        <div className="p-4">
+                            <button
+                                onClick={() => setEditing({ ...empty })}
+                                className="w-full flex items-center justify-center gap-1.5 px-3 py-2 border border-dashed border-white/10 rounded-lg text-sm text-gray-400 hover:text-white"
+                            >
+                                <Plus size={14} />
+                                Nova resposta
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
+
 function ChatArea({
     conversation,
+    focusMessageId,
     onBack,
     onStatusUpdate,
     onToggleProfile,
     showProfile,
 }: {
     conversation: Conversation
+    focusMessageId?: string | null
     onBack: () => void
     onStatusUpdate: (conv: Conversation) => void
     onToggleProfile: () => void
@@ -299,6 +763,9 @@ function ChatArea({
     const [messages, setMessages] = useState<Message[]>([])
     const [loading, setLoading] = useState(true)
     const [nextCursor, setNextCursor] = useState<string | undefined>(undefined)
+    // Set while the thread was opened around a search hit and newer messages are not loaded yet
+    const [newerCursor, setNewerCursor] = useState<string | undefined>(undefined)
+    const newerCursorRef = useRef<string | undefined>(undefined)
     const [loadingMore, setLoadingMore] = useState(false)
     const [text, setText] = useState('')
     const [sending, setSending] = useState(false)
@@ -306,13 +773,19 @@ function ChatArea({
     const [showFlowMenu, setShowFlowMenu] = useState(false)
     const [showStatusMenu, setShowStatusMenu] = useState(false)
     const [currentStatus, setCurrentStatus] = useState<ConversationStatus>(conversation.status)
+    const [noteMode, setNoteMode] = useState(false)
+    const [attachment, setAttachment] = useState<Attachment | null>(null)
+    const [savedResponses, setSavedResponses] = useState<SavedResponse[]>([])
+    const [showSavedResponses, setShowSavedResponses] = useState(false)
     const messagesEndRef = useRef<HTMLDivElement>(null)
     const messagesContainerRef = useRef<HTMLDivElement>(null)
     const inputRef = useRef<HTMLTextAreaElement>(null)
 
     const loadMessages = useCallback(async (cursor?: string) => {
         try {
-            const result = await apiClient.getInboxMessages(conversation.id, cursor, 50)
+            // A search hit opens the thread around that message
+            const around = !cursor && focusMessageId ? focusMessageId : undefined
+            const result = await apiClient.getInboxMessages(conversation.id, cursor, around ? 25 : 50, around)
             if (cursor) {
                 const node = messagesContainerRef.current
                 const oldScrollHeight = node ? node.scrollHeight : 0
@@ -325,18 +798,37 @@ function ChatArea({
                 }, 0)
             } else {
                 setMessages(result.data)
-                setTimeout(() => messagesEndRef.current?.scrollIntoView({ behavior: 'instant' }), 0)
+                newerCursorRef.current = result.newerCursor
+                setNewerCursor(result.newerCursor)
+                setTimeout(() => {
+                    const target = around ? document.getElementById(`msg-${around}`) : null
+                    if (target) target.scrollIntoView({ behavior: 'instant', block: 'center' })
+                    else messagesEndRef.current?.scrollIntoView({ behavior: 'instant' })
+                }, 0)
             }
             setNextCursor(result.nextCursor)
         } catch (e) {
             console.error(e)
         }
+    }, [conversation.id, focusMessageId])
+
+    const loadNewerMessages = useCallback(async (cursor: string) => {
+        try {
+            const result = await apiClient.getInboxMessages(conversation.id, undefined, 50, undefined, cursor)
+            setMessages((prev) => [...prev, ...result.data.filter((m: Message) => !prev.some((p) => p.id === m.id))])
+            newerCursorRef.current = result.newerCursor
+            setNewerCursor(result.newerCursor)
+        } catch (e) {
+            console.error(e)
+        }
     }, [conversation.id])
 
     useEffect(() => {
         setLoading(true)
         setMessages([])
         setNextCursor(undefined)
+        newerCursorRef.current = undefined
+        setNewerCursor(undefined)
         loadMessages().finally(() => setLoading(false))
         // mark as read
         apiClient.markConversationRead(conversation.id).catch(() => { })
@@ -344,12 +836,15 @@ function ChatArea({
         apiClient.getWorkflows().then((data: any[]) =>
             setWorkflows(data.filter((w) => w.isActive))
         ).catch(() => { })
+        apiClient.getSavedResponses().then(setSavedResponses).catch(() => { })
     }, [conversation.id, loadMessages])
 
     // Real-time new message listener
     useEffect(() => {
         const handler = (data: any) => {
             if (data.conversationId !== conversation.id) return
+            // Older window still open: the message shows up when paging forward
+            if (newerCursorRef.current) return
             
             // Prefer the message object sent in the event
             if (data.message) {
@@ -379,17 +874,65 @@ function ChatArea({
             }
         }
         wsClient.onRaw('inbox:message-received', handler)
-        return () => wsClient.offRaw('inbox:message-received', handler)
+        wsClient.onRaw('inbox:note-added', handler)
+        return () => {
+            wsClient.offRaw('inbox:message-received', handler)
+            wsClient.offRaw('inbox:note-added', handler)
+        }
     }, [conversation.id])
 
+    // Delivery/read receipts
+    useEffect(() => {
+        const handler = (data: any) => {
+            if (data.conversationId !== conversation.id) return
+            setMessages((prev) => prev.map((m) => (m.id === data.messageId ? { ...m, status: data.status } : m)))
+        }
+        wsClient.onRaw('inbox:message-status', handler)
+        return () => wsClient.offRaw('inbox:message-status', handler)
+    }, [conversation.id])
+
+    // Reactions, edits and deletions
+    useEffect(() => {
+        const handler = (data: any) => {
+            if (data.conversationId !== conversation.id || !data.message) return
+            setMessages((prev) => prev.map((m) => (m.id === data.message.id ? { ...m, ...data.message } : m)))
+        }
+        wsClient.onRaw('inbox:message-updated', handler)
+        return () => wsClient.offRaw('inbox:message-updated', handler)
+    }, [conversation.id])
+
+    // "/atalho" in the composer lists matching saved responses
+    const shortcutQuery = !noteMode && /^\/\S*$/.test(text) ? text.slice(1).toLowerCase() : null
+    const suggestions = shortcutQuery === null ? [] : savedResponses
+        .filter((r) => r.shortcut.startsWith(shortcutQuery) || r.title.toLowerCase().includes(shortcutQuery))
+        .slice(0, 6)
+
+    const applySavedResponse = async (response: SavedResponse) => {
+        try {
+            const expanded = await apiClient.expandSavedResponse(conversation.id, response.id)
+            setText(expanded.text || '')
+            setAttachment(expanded.mediaUrl ? { url: expanded.mediaUrl, type: expanded.mediaType, fileName: expanded.fileName } : null)
+            inputRef.current?.focus()
+        } catch (e) {
+            console.error(e)
+        }
+    }
+
     const handleSend = async () => {
-        if (!text.trim() || sending) return
         const content = text.trim()
+        if (sending || (!content && (noteMode || !attachment))) return
         setText('')
         setSending(true)
         try {
-            const msg = await apiClient.sendInboxMessage(conversation.id, { text: content })
-            setMessages((prev) => [...prev, msg])
+            const msg = noteMode
+                ? await apiClient.addConversationNote(conversation.id, content)
+                : await apiClient.sendInboxMessage(conversation.id, attachment
+                    ? { text: content, mediaUrl: attachment.url, mediaType: attachment.type, fileName: attachment.fileName }
+                    : { text: content })
+            if (!noteMode) setAttachment(null)
+            // Notes also arrive over the websocket
+            if (newerCursorRef.current) return
+            setMessages((prev) => (prev.find((m) => m.id === msg.id) ? prev : [...prev, msg]))
             setTimeout(() => messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' }), 50)
         } catch (e) {
             console.error(e)
@@ -402,6 +945,10 @@ function ChatArea({
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault()
+            if (suggestions.length > 0) {
+                applySavedResponse(suggestions[0])
+                return
+            }
             handleSend()
         }
     }
@@ -558,30 +1105,92 @@ function ChatArea({
                                 <div className="flex-1 h-px bg-white/5" />
                             </div>
                             {group.messages.map((msg, i) => (
-                                <MessageBubble key={msg.id} msg={msg} prevMsg={group.messages[i - 1]} />
+                                <div
+                                    key={msg.id}
+                                    id={`msg-${msg.id}`}
+                                    className={msg.id === focusMessageId ? 'rounded-2xl bg-yellow-400/10 ring-1 ring-yellow-400/40 px-1 pb-1' : undefined}
+                                >
+                                    <MessageBubble msg={msg} prevMsg={group.messages[i - 1]} />
+                                </div>
                             ))}
                         </div>
                     ))
                 )}
+                {!loading && newerCursor && (
+                    <div className="text-center mt-3">
+                        <button
+                            onClick={async () => {
+                                setLoadingMore(true)
+                                await loadNewerMessages(newerCursor)
+                                setLoadingMore(false)
+                            }}
+                            disabled={loadingMore}
+                            className="text-xs text-gray-500 hover:text-gray-300 transition-colors px-4 py-1.5 bg-white/5 rounded-full"
+                        >
+                            {loadingMore ? 'Carregando...' : 'Carregar mensagens mais recentes'}
+                        </button>
+                    </div>
+                )}
                 <div ref={messagesEndRef} />
             </div>
 
             {/* Input */}
-            <div className="px-4 py-3 border-t border-white/5 bg-[#111] flex-shrink-0">
-                <div className="flex items-end gap-2 bg-[#1a1a1a] rounded-2xl px-4 py-2 border border-white/5 focus-within:border-violet-500/50 transition-colors">
+            <div className="px-4 py-3 border-t border-white/5 bg-[#111] flex-shrink-0 relative">
+                {suggestions.length > 0 && (
+                    <div className="absolute left-4 right-4 bottom-full mb-1 bg-[#1a1a1a] border border-white/10 rounded-xl shadow-xl z-20 overflow-hidden">
+                        {suggestions.map((r) => (
+                            <button
+                                key={r.id}
+                                onClick={() => applySavedResponse(r)}
+                                className="w-full text-left px-4 py-2 text-sm hover:bg-white/5 transition-colors flex items-center gap-2"
+                            >
+                                <span className="font-mono text-violet-400">/{r.shortcut}</span>
+                                <span className="text-gray-300 truncate">{r.title}</span>
+                                {r.media && <Paperclip size={12} className="text-gray-500 shrink-0" />}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <div className="flex items-center gap-2 mb-2">
+                    <button
+                        onClick={() => setNoteMode((v) => !v)}
+                        className={`flex items-center gap-1 px-2.5 py-1 rounded-lg text-[11px] border transition-colors ${noteMode ? 'bg-amber-500/20 border-amber-500/40 text-amber-300' : 'border-white/5 text-gray-500 hover:text-white'}`}
+                        title="Notas internas ficam só no Inbox e nunca são enviadas ao contato"
+                    >
+                        <StickyNote size={12} />
+                        Nota interna
+                    </button>
+                    <button
+                        onClick={() => setShowSavedResponses(true)}
+                        className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-[11px] border border-white/5 text-gray-500 hover:text-white transition-colors"
+                    >
+                        <Bookmark size={12} />
+                        Respostas salvas
+                    </button>
+                    {attachment && !noteMode && (
+                        <span className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-[11px] bg-white/5 text-gray-300 min-w-0">
+                            <Paperclip size={12} className="shrink-0" />
+                            <span className="truncate">{attachment.fileName || attachment.type}</span>
+                            <button onClick={() => setAttachment(null)} className="text-gray-500 hover:text-white shrink-0">
+                                <X size={12} />
+                            </button>
+                        </span>
+                    )}
+                </div>
+                <div className={`flex items-end gap-2 rounded-2xl px-4 py-2 border transition-colors ${noteMode ? 'bg-amber-500/5 border-amber-500/30' : 'bg-[#1a1a1a] border-white/5 focus-within:border-violet-500/50'}`}>
                     <textarea
                         ref={inputRef}
                         value={text}
                         onChange={(e) => setText(e.target.value)}
                         onKeyDown={handleKeyDown}
-                        placeholder="Digite uma mensagem..."
+                        placeholder={noteMode ? 'Escreva uma nota interna...' : 'Digite uma mensagem ou / para respostas salvas...'}
                         rows={1}
                         className="flex-1 bg-transparent text-sm text-white placeholder-gray-600 resize-none outline-none max-h-28 py-1 leading-relaxed"
                         style={{ scrollbarWidth: 'none' }}
                     />
                     <button
                         onClick={handleSend}
-                        disabled={!text.trim() || sending}
+                        disabled={(!text.trim() && (noteMode || !attachment)) || sending}
                         className="p-2 bg-[#00ff88] text-black rounded-xl hover:bg-[#00ff88]/90 disabled:opacity-30 disabled:cursor-not-allowed transition-all flex-shrink-0 mb-0.5"
                     >
                         {sending ? (
@@ -593,10 +1202,216 @@ function ChatArea({
                 </div>
                 <p className="text-[10px] text-gray-700 mt-1.5 text-center">Enter para enviar · Shift+Enter para nova linha</p>
             </div>
+
+            {showSavedResponses && (
+                <SavedResponsesModal
+                    responses={savedResponses}
+                    onChange={setSavedResponses}
+                    onClose={() => setShowSavedResponses(false)}
+                />
+            )}
         </div>
     )
 }
 
+// ─── MessageSearchPanel ───────────────────────────────────────────────────────
+
+/** Renders a ts_headline snippet, highlighting the <<…>> matches */
+function Snippet({ text }: { text: string }) {
+    const parts = text.split(/<<|>>/)
+    return (
+        <>
+            {parts.map((part, i) =>
+                i % 2 === 1
+                    ? <mark key={i} className="bg-yellow-400/20 text-yellow-200 rounded px-0.5">{part}</mark>
+                    : <span key={i}>{part}</span>
+            )}
+        </>
+    )
+}
+
+function MessageSearchPanel({
+    sessionId,
+    status,
+    onClose,
+    onOpen,
+}: {
+    sessionId: string
+    status: string
+    onClose: () => void
+    onOpen: (conversationId: string, messageId?: string) => void
+}) {
+    const [query, setQuery] = useState('')
+    const [tag, setTag] = useState('')
+    const [from, setFrom] = useState('')
+    const [to, setTo] = useState('')
+    const [page, setPage] = useState(1)
+    const [searching, setSearching] = useState(false)
+    const [searched, setSearched] = useState(false)
+    const [contacts, setContacts] = useState<any[]>([])
+    const [hits, setHits] = useState<SearchHit[]>([])
+    const [hasMore, setHasMore] = useState(false)
+
+    const runSearch = async (nextPage = 1) => {
+        if (query.trim().length < 2) return
+        setSearching(true)
+        try {
+            const result = await apiClient.searchInbox({
+                q: query.trim(),
+                sessionId: sessionId || undefined,
+                status: status || undefined,
+                tag: tag.trim() || undefined,
+                from: from || undefined,
+                to: to || undefined,
+                page: nextPage,
+            })
+            if (nextPage === 1) {
+                setContacts(result.conversations || [])
+                setHits(result.messages || [])
+            } else {
+                setHits((prev) => [...prev, ...(result.messages || [])])
+            }
+            setHasMore(!!result.meta?.hasMore)
+            setPage(nextPage)
+            setSearched(true)
+        } catch (e) {
+            console.error(e)
+        } finally {
+            setSearching(false)
+        }
+    }
+
+    return (
+        <>
+            <div className="p-3 border-b border-white/5 bg-[#0d0d0d] space-y-2">
+                <div className="flex items-center gap-2">
+                    <div className="flex-1 flex items-center gap-2 bg-[#1a1a1a] rounded-xl px-3 py-2 border border-white/5 focus-within:border-[#00ff88]/40 transition-colors">
+                        <Search size={14} className="text-gray-500 flex-shrink-0" />
+                        <input
+                            type="text"
+                            autoFocus
+                            placeholder="Buscar nas mensagens..."
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') runSearch(1) }}
+                            className="flex-1 bg-transparent text-sm text-white placeholder-gray-600 outline-none min-w-0"
+                        />
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-xl border bg-[#1a1a1a] border-white/5 text-gray-400 hover:text-white transition-colors flex-shrink-0"
+                        title="Fechar busca"
+                    >
+                        <X size={15} />
+                    </button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                    <input
+                        type="text"
+                        placeholder="Tag"
+                        value={tag}
+                        onChange={(e) => setTag(e.target.value)}
+                        className="bg-[#1a1a1a] border border-white/5 text-xs text-gray-300 rounded-lg px-2 py-1.5 outline-none"
+                    />
+                    <input
+                        type="date"
+                        value={from}
+                        onChange={(e) => setFrom(e.target.value)}
+                        title="De"
+                        className="bg-[#1a1a1a] border border-white/5 text-xs text-gray-300 rounded-lg px-2 py-1.5 outline-none"
+                    />
+                    <input
+                        type="date"
+                        value={to}
+                        onChange={(e) => setTo(e.target.value)}
+                        title="Até"
+                        className="bg-[#1a1a1a] border border-white/5 text-xs text-gray-300 rounded-lg px-2 py-1.5 outline-none"
+                    />
+                </div>
+                <p className="text-[10px] text-gray-600">Sessão e status seguem os filtros da lista. Use &quot;aspas&quot; para frases exatas.</p>
+            </div>
+
+            <div className="flex-1 overflow-y-auto" style={{ scrollbarWidth: 'thin', scrollbarColor: '#222 transparent' }}>
+                {searching && hits.length === 0 ? (
+                    <div className="flex justify-center items-center h-32">
+                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#00ff88]" />
+                    </div>
+                ) : searched && contacts.length === 0 && hits.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center h-48 gap-3 text-center px-6">
+                        <Search size={32} className="text-gray-700" />
+                        <p className="text-gray-500 text-sm font-medium">Nenhum resultado</p>
+                    </div>
+                ) : (
+                    <div>
+                        {contacts.length > 0 && (
+                            <div className="border-b border-white/5">
+                                <p className="px-4 pt-3 pb-1 text-[10px] font-bold uppercase tracking-widest text-gray-600">Contatos</p>
+                                {contacts.map((c) => (
+                                    <button
+                                        key={c.id}
+                                        onClick={() => onOpen(c.id)}
+                                        className="w-full flex items-center gap-3 px-4 py-2 text-left hover:bg-white/[0.03] transition-colors"
+                                    >
+                                        <Avatar name={c.contactName} phone={c.contactPhone} size="sm" />
+                                        <div className="min-w-0">
+                                            <p className="text-sm text-white truncate">{contactDisplay(c as Conversation)}</p>
+                                            <p className="text-xs text-gray-600 truncate">{c.lastMessage}</p>
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {hits.length > 0 && (
+                            <p className="px-4 pt-3 pb-1 text-[10px] font-bold uppercase tracking-widest text-gray-600">Mensagens</p>
+                        )}
+                        {hits.map((hit) => (
+                            <button
+                                key={hit.id}
+                                onClick={() => onOpen(hit.conversationId, hit.id)}
+                                className="w-full px-4 py-3 text-left border-b border-white/[0.03] hover:bg-white/[0.03] transition-colors"
+                            >
+                                <div className="flex items-center justify-between gap-2 mb-1">
+                                    <span className="text-xs font-semibold text-white truncate">
+                                        {contactDisplay(hit.conversation as Conversation)}
+                                    </span>
+                                    <span className="text-[10px] text-gray-600 flex-shrink-0">
+                                        {new Date(hit.timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' })}
+                                    </span>
+                                </div>
+                                {hit.context.before && (
+                                    <p className="text-[11px] text-gray-600 truncate">
+                                        {hit.context.before.fromMe ? 'Você: ' : ''}{hit.context.before.content}
+                                    </p>
+                                )}
+                                <p className={`text-xs leading-relaxed ${hit.isInternal ? 'text-yellow-100/80' : 'text-gray-300'}`}>
+                                    {hit.isInternal ? '📝 ' : hit.fromMe ? 'Você: ' : ''}
+                                    <Snippet text={hit.snippet} />
+                                </p>
+                                {hit.context.after && (
+                                    <p className="text-[11px] text-gray-600 truncate">
+                                        {hit.context.after.fromMe ? 'Você: ' : ''}{hit.context.after.content}
+                                    </p>
+                                )}
+                            </button>
+                        ))}
+
+                        {hasMore && (
+                            <button
+                                onClick={() => runSearch(page + 1)}
+                                disabled={searching}
+                                className="w-full py-3 text-xs text-gray-500 hover:text-white transition-colors disabled:opacity-50"
+                            >
+                                {searching ? 'Carregando...' : 'Carregar mais resultados'}
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </>
+    )
+}
+
 // ─── Main Inbox Page ──────────────────────────────────────────────────────────
 
 function InboxContent() {
@@ -614,7 +1429,10 @@ function InboxContent() {
     const [filterSession, setFilterSession] = useState('')
     const [filterStatus, setFilterStatus] = useState('')
     const [filterType, setFilterType] = useState('')
+    const [filterAssigned, setFilterAssigned] = useState('')
     const [showFilters, setShowFilters] = useState(false)
+    const [searchMode, setSearchMode] = useState(false)
+    const [focusMessageId, setFocusMessageId] = useState<string | null>(null)
 
     // Counts
     const openCount = conversations.filter((c) => c.status === 'OPEN').length
@@ -626,13 +1444,14 @@ function InboxContent() {
             if (filterSession) params.sessionId = filterSession
             if (filterStatus) params.status = filterStatus
             if (filterType) params.type = filterType
+            if (filterAssigned) params.assignedTo = filterAssigned
             params.limit = 50
             const result = await apiClient.getConversations(params)
             setConversations(result.data || [])
         } catch (e) {
             console.error(e)
         }
-    }, [filterSession, filterStatus, filterType])
+    }, [filterSession, filterStatus, filterType, filterAssigned])
 
     useEffect(() => {
         setLoading(true)
@@ -665,6 +1484,7 @@ function InboxContent() {
 
     const handleSelectConv = (conv: Conversation) => {
         setSelectedConv(conv)
+        setFocusMessageId(null)
         setShowChat(true)
         // Reset unread in local state
         setConversations((prev) =>
@@ -672,6 +1492,19 @@ function InboxContent() {
         )
     }
 
+    // Search result: open the conversation, scrolled to the matching message
+    const handleOpenSearchResult = async (conversationId: string, messageId?: string) => {
+        try {
+            const conv = conversations.find((c) => c.id === conversationId)
+                || await apiClient.getConversation(conversationId)
+            setSelectedConv(conv)
+            setFocusMessageId(messageId || null)
+            setShowChat(true)
+        } catch (e) {
+            console.error(e)
+        }
+    }
+
     const handleStatusUpdate = (updated: Conversation) => {
         setConversations((prev) =>
             prev.map((c) => (c.id === updated.id ? { ...c, ...updated } : c))
@@ -738,6 +1571,14 @@ function InboxContent() {
                 {/* ── Conversation list (left panel) ── */}
                 <div className={`${showChat ? 'hidden md:flex' : 'flex'} w-full md:w-[340px] lg:w-[380px] flex-col border-r border-white/5 flex-shrink-0`}>
 
+                    {searchMode ? (
+                        <MessageSearchPanel
+                            sessionId={filterSession}
+                            status={filterStatus}
+                            onClose={() => setSearchMode(false)}
+                            onOpen={handleOpenSearchResult}
+                        />
+                    ) : (<>
                     {/* Search + Filter bar */}
                     <div className="p-3 border-b border-white/5 bg-[#0d0d0d]">
                         <div className="flex items-center gap-2">
@@ -756,6 +1597,13 @@ function InboxContent() {
                                     </button>
                                 )}
                             </div>
+                            <button
+                                onClick={() => setSearchMode(true)}
+                                className="p-2 rounded-xl border bg-[#1a1a1a] border-white/5 text-gray-400 hover:text-white transition-colors flex-shrink-0"
+                                title="Buscar nas mensagens"
+                            >
+                                <TextSearch size={15} />
+                            </button>
                             <button
                                 onClick={() => setShowFilters((v) => !v)}
                                 className={`p-2 rounded-xl border transition-colors flex-shrink-0 ${showFilters ? 'bg-[#00ff88]/20 border-[#00ff88]/40 text-[#00ff88]' : 'bg-[#1a1a1a] border-white/5 text-gray-400 hover:text-white'}`}
@@ -797,6 +1645,14 @@ function InboxContent() {
                                     <option value="individual">Individual</option>
                                     <option value="group">Grupo</option>
                                 </select>
+                                <select
+                                    value={filterAssigned}
+                                    onChange={(e) => setFilterAssigned(e.target.value)}
+                                    className="bg-[#1a1a1a] border border-white/5 text-xs text-gray-300 rounded-lg px-2 py-1.5 outline-none"
+                                >
+                                    <option value="">Todos responsáveis</option>
+                                    <option value="me">Atribuídas a mim</option>
+                                </select>
                             </div>
                         )}
                     </div>
@@ -828,14 +1684,16 @@ function InboxContent() {
                             </div>
                         )}
                     </div>
+                    </>)}
                 </div>
 
                 {/* ── Chat area (middle panel) ── */}
                 <div className={`${showChat ? 'flex' : 'hidden md:flex'} flex-1 flex-col min-w-0 overflow-hidden`}>
                     {selectedConv ? (
                         <ChatArea
-                            key={selectedConv.id}  // remount when conv changes
+                            key={`${selectedConv.id}:${focusMessageId || ''}`}  // remount when conv or focused message changes
                             conversation={selectedConv}
+                            focusMessageId={focusMessageId}
                             onBack={() => setShowChat(false)}
                             onStatusUpdate={handleStatusUpdate}
                             onToggleProfile={() => setShowProfile(p => !p)}
@@ -922,6 +1780,8 @@ function InboxContent() {
                                 </div>
                             )}
 
+                            <HandoffPanel conversation={selectedConv} />
+
                             {/* Funil / Workflow */}
                             {selectedConv.activeFlowId && (
                                 <div>
@@ -7,6 +7,63 @@ import { useAuth } from '@/contexts/AuthContext'
 import { AuthGuard } from '@/components/AuthGuard'
 import AppHeader from '@/components/AppHeader'
 
+function CallPolicyEditor({ session, tenantId }: { session: any; tenantId?: string }) {
+  // Local state: the session list refreshes every few seconds
+  const [policy, setPolicy] = useState<string>(session.callPolicy || 'ignore')
+  const [message, setMessage] = useState<string>(session.callRejectMessage || '')
+  const [saved, setSaved] = useState({ policy, message })
+  const [saving, setSaving] = useState(false)
+
+  const dirty = policy !== saved.policy || message !== saved.message
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      await apiClient.setSessionCallPolicy(session.id, policy, message, tenantId)
+      setSaved({ policy, message })
+    } catch (error: any) {
+      alert(error?.response?.data?.message || 'Failed to save call policy')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      <div className="flex items-center gap-3">
+        <label className="text-sm text-gray-400">📞 Incoming calls</label>
+        <select
+          value={policy}
+          onChange={(e) => setPolicy(e.target.value)}
+          className="px-3 py-1.5 bg-background border border-border rounded text-sm"
+        >
+          <option value="ignore">Ignore</option>
+          <option value="reject">Reject</option>
+          <option value="reject_message">Reject and send a message</option>
+        </select>
+        {dirty && (
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-3 py-1.5 bg-primary text-black rounded text-sm font-semibold hover:bg-primary/80 transition disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        )}
+      </div>
+      {policy === 'reject_message' && (
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="We don't take calls on this number, but we're happy to help here in the chat!"
+          rows={2}
+          className="mt-2 w-full px-3 py-2 bg-background border border-border rounded text-sm"
+        />
+      )}
+    </div>
+  )
+}
+
 function SessionsPageContent() {
   const router = useRouter()
   const { token, tenant } = useAuth()
@@ -174,6 +231,8 @@ function SessionsPageContent() {
                     </div>
                   </div>
 
+                  <CallPolicyEditor session={session} tenantId={tenant?.id} />
+
                   {session.status === 'DISCONNECTED' && (
                     <div className="mt-4 p-3 bg-yellow-500/10 border border-yellow-500 rounded">
                       <p className="text-sm text-yellow-500">
@@ -0,0 +1,407 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { apiClient } from '@/lib/api-client'
+import { AuthGuard } from '@/components/AuthGuard'
+import AppHeader from '@/components/AppHeader'
+import { useAuth } from '@/contexts/AuthContext'
+import { isAdmin } from '@/lib/permissions'
+import { ApiKeyScope } from '@n9n/shared'
+import {
+    KeyRound,
+    Plus,
+    Ban,
+    Edit2,
+    Loader2,
+    X,
+    Save,
+    AlertCircle,
+    Info,
+    Copy,
+    Check,
+    FileJson,
+} from 'lucide-react'
+
+interface ApiKey {
+    id: string
+    name: string
+    prefix: string
+    scopes: string[]
+    rateLimitPerMinute: number
+    lastUsedAt: string | null
+    lastUsedIp: string | null
+    revokedAt: string | null
+    createdAt: string
+}
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+    [ApiKeyScope.MESSAGES_SEND]: 'Enviar mensagens',
+    [ApiKeyScope.WORKFLOWS_TRIGGER]: 'Disparar fluxos',
+    [ApiKeyScope.EXECUTIONS_READ]: 'Ler execuções',
+    [ApiKeyScope.CONTACTS_MANAGE]: 'Gerenciar contatos',
+}
+
+const OPENAPI_URL = `${process.env.NEXT_PUBLIC_API_URL || ''}/api/public-api/openapi.json`
+
+function ApiKeysContent() {
+    const { user } = useAuth()
+    const router = useRouter()
+    const [loading, setLoading] = useState(true)
+    const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
+    const [isModalOpen, setIsModalOpen] = useState(false)
+    const [editing, setEditing] = useState<ApiKey | null>(null)
+    const [formName, setFormName] = useState('')
+    const [formScopes, setFormScopes] = useState<string[]>([])
+    const [formRateLimit, setFormRateLimit] = useState(60)
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [createdKey, setCreatedKey] = useState<string | null>(null)
+    const [copied, setCopied] = useState(false)
+
+    useEffect(() => {
+        if (user && !isAdmin(user.role)) {
+            router.push('/')
+            return
+        }
+        loadApiKeys()
+    }, [user, router])
+
+    const loadApiKeys = async () => {
+        try {
+            setLoading(true)
+            setApiKeys(await apiClient.getApiKeys())
+        } catch (e) {
+            console.error('Error loading API keys:', e)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const openModal = (apiKey?: ApiKey) => {
+        setEditing(apiKey || null)
+        setFormName(apiKey?.name || '')
+        setFormScopes(apiKey?.scopes || [])
+        setFormRateLimit(apiKey?.rateLimitPerMinute || 60)
+        setCreatedKey(null)
+        setCopied(false)
+        setError(null)
+        setIsModalOpen(true)
+    }
+
+    const toggleScope = (scope: string) => {
+        setFormScopes((current) =>
+            current.includes(scope)
+                ? current.filter((s) => s !== scope)
+                : [...current, scope]
+        )
+    }
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!formName.trim()) { setError('Nome é obrigatório.'); return }
+        if (formScopes.length === 0) { setError('Selecione ao menos um escopo.'); return }
+
+        const payload = {
+            name: formName.trim(),
+            scopes: formScopes,
+            rateLimitPerMinute: formRateLimit,
+        }
+
+        try {
+            setSaving(true)
+            setError(null)
+            if (editing) {
+                await apiClient.updateApiKey(editing.id, payload)
+                setIsModalOpen(false)
+            } else {
+                const created = await apiClient.createApiKey(payload)
+                setCreatedKey(created.key)
+            }
+            await loadApiKeys()
+        } catch (e: any) {
+            setError(e.response?.data?.message || 'Erro ao salvar chave.')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleRevoke = async (apiKey: ApiKey) => {
+        if (!confirm(`Revogar a chave "${apiKey.name}"? Integrações que usam esta chave deixarão de funcionar imediatamente.`)) return
+        try {
+            await apiClient.revokeApiKey(apiKey.id)
+            await loadApiKeys()
+        } catch (e: any) {
+            alert(e.response?.data?.message || 'Erro ao revogar chave.')
+        }
+    }
+
+    const handleCopy = async () => {
+        if (!createdKey) return
+        await navigator.clipboard.writeText(createdKey)
+        setCopied(true)
+    }
+
+    if (loading && apiKeys.length === 0) {
+        return (
+            <div className="flex-1 flex items-center justify-center bg-[#0a0a0a]">
+                <Loader2 className="animate-spin text-primary" size={48} />
+            </div>
+        )
+    }
+
+    return (
+        <div className="flex-1 flex flex-col min-h-screen bg-[#0a0a0a] text-white">
+            <AppHeader />
+
+            <main className="flex-1 overflow-y-auto p-4 md:p-8">
+                <div className="max-w-4xl mx-auto space-y-8">
+
+                    {/* Header */}
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                        <div className="flex items-center gap-4">
+                            <div className="p-3 bg-primary/10 border border-primary/20 rounded-2xl">
+                                <KeyRound className="text-primary" size={24} />
+                            </div>
+                            <div>
+                                <h1 className="text-2xl font-black text-white px-1">Chaves de <span className="text-primary italic">API</span></h1>
+                                <p className="text-gray-500 text-sm px-1">Integre sistemas externos à API pública do workspace.</p>
+                            </div>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <a
+                                href={OPENAPI_URL}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center justify-center gap-2 px-4 py-3 border border-gray-800 text-gray-400 rounded-xl font-bold text-xs uppercase tracking-widest hover:bg-white/5 transition-all"
+                            >
+                                <FileJson size={16} />
+                                OpenAPI
+                            </a>
+                            <button
+                                onClick={() => openModal()}
+                                className="flex items-center justify-center gap-2 px-6 py-3 bg-primary text-black rounded-xl font-black text-xs uppercase tracking-widest hover:shadow-[0_0_20px_rgba(0,186,124,0.4)] transition-all hover:-translate-y-0.5"
+                            >
+                                <Plus size={18} strokeWidth={3} />
+                                Nova Chave
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* List */}
+                    <div className="grid grid-cols-1 gap-4">
+                        {apiKeys.length > 0 ? apiKeys.map((apiKey) => (
+                            <div
+                                key={apiKey.id}
+                                className={`bg-[#111111] border border-gray-800 rounded-2xl p-6 flex flex-col md:flex-row md:items-center justify-between gap-6 transition-all hover:bg-[#151515] ${apiKey.revokedAt ? 'opacity-50' : ''}`}
+                            >
+                                <div className="space-y-2">
+                                    <div className="flex items-center gap-2">
+                                        <h3 className="font-bold text-lg">{apiKey.name}</h3>
+                                        {apiKey.revokedAt ? (
+                                            <span className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full bg-red-500/10 text-red-400">
+                                                Revogada
+                                            </span>
+                                        ) : (
+                                            <span className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full bg-gray-800 text-gray-400">
+                                                {apiKey.rateLimitPerMinute}/min
+                                            </span>
+                                        )}
+                                    </div>
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {apiKey.scopes.map((scope) => (
+                                            <span key={scope} className="text-[10px] font-mono px-2 py-0.5 rounded-md bg-primary/10 text-primary border border-primary/20">
+                                                {scope}
+                                            </span>
+                                        ))}
+                                    </div>
+                                    <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500 font-mono">
+                                        <span>{apiKey.prefix}••••</span>
+                                        <span>
+                                            {apiKey.lastUsedAt
+                                                ? `Último uso em ${new Date(apiKey.lastUsedAt).toLocaleString('pt-BR')}${apiKey.lastUsedIp ? ` (${apiKey.lastUsedIp})` : ''}`
+                                                : 'Nunca usada'}
+                                        </span>
+                                        {apiKey.revokedAt && (
+                                            <span>Revogada em {new Date(apiKey.revokedAt).toLocaleDateString('pt-BR')}</span>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {!apiKey.revokedAt && (
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => openModal(apiKey)}
+                                            title="Editar"
+                                            className="p-2.5 text-gray-500 hover:text-white hover:bg-white/5 rounded-xl transition-all"
+                                        >
+                                            <Edit2 size={18} />
+                                        </button>
+                                        <button
+                                            onClick={() => handleRevoke(apiKey)}
+                                            title="Revogar"
+                                            className="p-2.5 text-gray-500 hover:text-red-500 hover:bg-red-500/10 rounded-xl transition-all"
+                                        >
+                                            <Ban size={18} />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        )) : (
+                            <div className="bg-[#111111] border border-gray-800 border-dashed rounded-3xl p-20 text-center space-y-4">
+                                <div className="w-16 h-16 bg-gray-900 border border-gray-800 rounded-2xl flex items-center justify-center mx-auto text-gray-600">
+                                    <KeyRound size={32} />
+                                </div>
+                                <div>
+                                    <h3 className="font-bold text-gray-300">Nenhuma Chave</h3>
+                                    <p className="text-sm text-gray-600">Crie uma chave para enviar mensagens, disparar fluxos ou consultar execuções a partir de outros sistemas.</p>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Info box */}
+                    <div className="bg-[#111111] border border-gray-800 rounded-2xl p-6">
+                        <div className="flex items-start gap-4">
+                            <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-xl text-blue-400 shrink-0">
+                                <Info size={20} />
+                            </div>
+                            <div className="space-y-1">
+                                <h3 className="font-bold text-sm">Como funciona</h3>
+                                <p className="text-xs text-gray-500 leading-relaxed">
+                                    Envie a chave no cabeçalho <span className="font-mono text-gray-400">X-API-Key</span> (ou como Bearer token).
+                                    Ela só acessa as rotas dos escopos marcados e é guardada apenas como hash — copie-a ao criar, pois não será exibida novamente.
+                                    Chaves revogadas param de funcionar na hora e continuam listadas para consulta.
+                                </p>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            </main>
+
+            {/* Modal */}
+            {isModalOpen && (
+                <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+                    <div className="w-full max-w-lg bg-[#0d0d0d] border border-gray-800 rounded-3xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+                        <div className="p-6 border-b border-gray-800 flex items-center justify-between">
+                            <h2 className="text-lg font-black">{createdKey ? 'Chave Criada' : `${editing ? 'Editar' : 'Nova'} Chave`}</h2>
+                            <button onClick={() => setIsModalOpen(false)} className="p-2 text-gray-500 hover:text-white hover:bg-white/5 rounded-full transition-all">
+                                <X size={20} />
+                            </button>
+                        </div>
+
+                        {createdKey ? (
+                            <div className="p-6 space-y-5">
+                                <div className="flex items-center gap-2 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-xl text-yellow-400 text-xs font-bold">
+                                    <AlertCircle size={16} className="shrink-0" />
+                                    Copie a chave agora. Por segurança, ela não será exibida novamente.
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="text"
+                                        readOnly
+                                        value={createdKey}
+                                        onFocus={(e) => e.target.select()}
+                                        className="flex-1 bg-[#151515] border border-gray-800 rounded-xl px-4 py-3 text-sm outline-none font-mono"
+                                    />
+                                    <button
+                                        onClick={handleCopy}
+                                        title="Copiar"
+                                        className="p-3 border border-gray-800 text-gray-400 rounded-xl hover:bg-white/5 hover:text-white transition-all"
+                                    >
+                                        {copied ? <Check size={16} className="text-primary" /> : <Copy size={16} />}
+                                    </button>
+                                </div>
+                                <button
+                                    onClick={() => setIsModalOpen(false)}
+                                    className="w-full px-6 py-3 bg-primary text-black rounded-xl font-black text-xs uppercase tracking-widest hover:shadow-[0_0_20px_rgba(0,186,124,0.4)] transition-all"
+                                >
+                                    Concluir
+                                </button>
+                            </div>
+                        ) : (
+                            <form onSubmit={handleSave} className="p-6 space-y-5">
+                                <div className="space-y-2">
+                                    <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">Nome</label>
+                                    <input
+                                        type="text"
+                                        value={formName}
+                                        onChange={(e) => setFormName(e.target.value)}
+                                        placeholder="Ex: ERP da loja"
+                                        className="w-full bg-[#151515] border border-gray-800 rounded-xl px-4 py-3 text-sm focus:border-primary focus:ring-1 focus:ring-primary/20 outline-none transition-all"
+                                    />
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">Escopos</label>
+                                    <div className="border border-gray-800 rounded-xl divide-y divide-gray-800">
+                                        {Object.values(ApiKeyScope).map((scope) => (
+                                            <label key={scope} className="flex items-center justify-between px-4 py-3 cursor-pointer">
+                                                <span className="text-sm">
+                                                    {SCOPE_LABELS[scope]}
+                                                    <span className="ml-2 text-[10px] font-mono text-gray-600">{scope}</span>
+                                                </span>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={formScopes.includes(scope)}
+                                                    onChange={() => toggleScope(scope)}
+                                                    className="accent-primary"
+                                                />
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">Limite por minuto</label>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={600}
+                                        value={formRateLimit}
+                                        onChange={(e) => setFormRateLimit(parseInt(e.target.value) || 1)}
+                                        className="w-full bg-[#151515] border border-gray-800 rounded-xl px-4 py-3 text-sm focus:border-primary focus:ring-1 focus:ring-primary/20 outline-none transition-all"
+                                    />
+                                </div>
+
+                                {error && (
+                                    <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs font-bold">
+                                        <AlertCircle size={16} />
+                                        {error}
+                                    </div>
+                                )}
+
+                                <div className="pt-2 flex gap-3">
+                                    <button
+                                        type="button"
+                                        onClick={() => setIsModalOpen(false)}
+                                        className="flex-1 px-6 py-3 border border-gray-800 text-gray-400 rounded-xl font-bold text-xs uppercase tracking-widest hover:bg-white/5 transition-all"
+                                    >
+                                        Cancelar
+                                    </button>
+                                    <button
+                                        type="submit"
+                                        disabled={saving}
+                                        className="flex-[2] px-6 py-3 bg-primary text-black rounded-xl font-black text-xs uppercase tracking-widest hover:shadow-[0_0_20px_rgba(0,186,124,0.4)] disabled:opacity-50 transition-all flex items-center justify-center gap-2"
+                                    >
+                                        {saving ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />}
+                                        Salvar Chave
+                                    </button>
+                                </div>
+                            </form>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
+
+export default function ApiKeysSettingsPage() {
+    return (
+        <AuthGuard>
+            <ApiKeysContent />
+        </AuthGuard>
+    )
+}
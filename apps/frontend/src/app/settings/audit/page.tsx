@@ -0,0 +1,278 @@
+'use client'
+
+import { Fragment, useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Download, History, ChevronDown, ChevronRight } from 'lucide-react'
+import { apiClient } from '@/lib/api-client'
+import { AuthGuard } from '@/components/AuthGuard'
+import AppHeader from '@/components/AppHeader'
+import { useAuth } from '@/contexts/AuthContext'
+import { isAdmin } from '@/lib/permissions'
+
+interface AuditLog {
+  id: string
+  userId: string | null
+  userEmail: string | null
+  action: string
+  resource: string
+  resourceId: string | null
+  before: Record<string, any> | null
+  after: Record<string, any> | null
+  changes: Record<string, { from: any; to: any }> | null
+  ip: string | null
+  requestId: string | null
+  method: string
+  path: string
+  createdAt: string
+}
+
+interface Filters {
+  resource: string
+  action: string
+  from: string
+  to: string
+}
+
+const resourceLabels: Record<string, string> = {
+  workflow: 'Fluxo',
+  campaign: 'Campanha',
+  campaign_settings: 'Config. de campanhas',
+  blacklist: 'Blacklist',
+  emergency: 'Modo de emergência',
+  session: 'Sessão WhatsApp',
+  credential: 'Credencial',
+  role: 'Perfil de acesso',
+  member: 'Membro',
+  api_config: 'Integração',
+}
+
+function formatValue(value: any) {
+  if (value === null || value === undefined || value === '') return '—'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+// Date inputs are local days; the API filters on full timestamps
+function toQuery(filters: Filters) {
+  return {
+    resource: filters.resource || undefined,
+    action: filters.action || undefined,
+    from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+  }
+}
+
+function AuditPageContent() {
+  const router = useRouter()
+  const { user } = useAuth()
+  const [logs, setLogs] = useState<AuditLog[]>([])
+  const [facets, setFacets] = useState<{ resources: string[]; actions: string[] }>({ resources: [], actions: [] })
+  const [filters, setFilters] = useState<Filters>({ resource: '', action: '', from: '', to: '' })
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const loadLogs = useCallback(async () => {
+    try {
+      setLoading(true)
+      const result = await apiClient.getAuditLogs({ ...toQuery(filters), page, limit: 50 })
+      setLogs(result.data || [])
+      setTotalPages(result.meta?.totalPages || 1)
+      setTotal(result.meta?.total || 0)
+    } catch (error) {
+      console.error('Error loading audit log:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, page])
+
+  useEffect(() => {
+    if (user && !isAdmin(user.role)) {
+      router.push('/')
+      return
+    }
+    apiClient.getAuditFacets().then(setFacets).catch(() => {})
+  }, [user, router])
+
+  useEffect(() => {
+    loadLogs()
+  }, [loadLogs])
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }))
+    setPage(1)
+  }
+
+  const handleExport = async () => {
+    try {
+      setExporting(true)
+      const blob = await apiClient.exportAuditLogs(toQuery(filters))
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `auditoria-${new Date().toISOString().slice(0, 10)}.csv`
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      alert('Erro ao exportar o log de auditoria.')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const visibleActions = facets.actions.filter((a) => !filters.resource || a.startsWith(`${filters.resource}.`))
+  const selectClass = 'bg-[#151515] border border-gray-800 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-primary/50'
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-white">
+      <AppHeader />
+      <div className="max-w-6xl mx-auto p-8">
+        <button
+          onClick={() => router.back()}
+          className="flex items-center gap-1.5 text-gray-400 hover:text-white text-sm transition mb-6"
+        >
+          <ArrowLeft size={16} /> Voltar
+        </button>
+
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">🕵️ Auditoria</h1>
+            <p className="text-gray-400">
+              Quem alterou fluxos, campanhas, sessões e configurações do workspace
+            </p>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-black rounded-lg hover:bg-primary/80 transition font-semibold disabled:opacity-50"
+          >
+            <Download size={18} />
+            {exporting ? 'Exportando...' : 'Exportar CSV'}
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <select value={filters.resource} onChange={(e) => { setFilters((c) => ({ ...c, resource: e.target.value, action: '' })); setPage(1) }} className={selectClass}>
+            <option value="">Todos os recursos</option>
+            {facets.resources.map((r) => <option key={r} value={r}>{resourceLabels[r] || r}</option>)}
+          </select>
+          <select value={filters.action} onChange={(e) => updateFilter('action', e.target.value)} className={selectClass}>
+            <option value="">Todas as ações</option>
+            {visibleActions.map((a) => <option key={a} value={a}>{a}</option>)}
+          </select>
+          <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={selectClass} />
+          <span className="text-gray-600 text-sm">até</span>
+          <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={selectClass} />
+        </div>
+
+        {loading && logs.length === 0 ? (
+          <div className="flex items-center justify-center py-20">
+            <div className="text-gray-400">Carregando...</div>
+          </div>
+        ) : logs.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-gray-500">
+            <History size={64} className="mb-4 opacity-20" />
+            <p className="text-lg mb-2">Nenhum registro encontrado</p>
+            <p className="text-sm">Ações como ativar fluxos, iniciar campanhas e editar a blacklist aparecem aqui</p>
+          </div>
+        ) : (
+          <div className="bg-[#151515] border border-gray-800 rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-800">
+                  <th className="px-4 py-3" />
+                  <th className="px-4 py-3 font-medium">Data</th>
+                  <th className="px-4 py-3 font-medium">Usuário</th>
+                  <th className="px-4 py-3 font-medium">Ação</th>
+                  <th className="px-4 py-3 font-medium">Recurso</th>
+                  <th className="px-4 py-3 font-medium">IP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {logs.map((log) => (
+                  <Fragment key={log.id}>
+                    <tr
+                      onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                      className="border-b border-gray-800/60 last:border-0 hover:bg-white/[0.02] cursor-pointer"
+                    >
+                      <td className="px-4 py-3 text-gray-500">
+                        {expandedId === log.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                      </td>
+                      <td className="px-4 py-3 text-gray-400 whitespace-nowrap">{new Date(log.createdAt).toLocaleString('pt-BR')}</td>
+                      <td className="px-4 py-3 text-white">{log.userEmail || <span className="text-gray-600">Sistema</span>}</td>
+                      <td className="px-4 py-3 font-mono text-primary">{log.action}</td>
+                      <td className="px-4 py-3 text-gray-300">
+                        {resourceLabels[log.resource] || log.resource}
+                        {log.resourceId && <span className="ml-2 text-xs text-gray-600 font-mono">{log.resourceId}</span>}
+                      </td>
+                      <td className="px-4 py-3 text-gray-500 font-mono">{log.ip || '—'}</td>
+                    </tr>
+                    {expandedId === log.id && (
+                      <tr className="border-b border-gray-800/60 bg-black/20">
+                        <td colSpan={6} className="px-8 py-4 space-y-3">
+                          {log.changes ? (
+                            <table className="text-xs">
+                              <tbody>
+                                {Object.entries(log.changes).map(([field, change]) => (
+                                  <tr key={field}>
+                                    <td className="pr-4 py-1 text-gray-500 font-mono">{field}</td>
+                                    <td className="pr-4 py-1 text-red-400 line-through">{formatValue(change.from)}</td>
+                                    <td className="py-1 text-green-400">{formatValue(change.to)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          ) : log.after ? (
+                            <pre className="text-xs text-gray-400 whitespace-pre-wrap">{JSON.stringify(log.after, null, 2)}</pre>
+                          ) : (
+                            <p className="text-xs text-gray-600">Sem alterações registradas</p>
+                          )}
+                          <p className="text-[11px] text-gray-600 font-mono">
+                            {log.method} {log.path} · request {log.requestId || '—'}
+                          </p>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-400">
+            <span>{total} registros</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page <= 1}
+                className="px-3 py-1.5 bg-gray-800 rounded hover:bg-gray-700 disabled:opacity-40"
+              >
+                Anterior
+              </button>
+              <span>{page} / {totalPages}</span>
+              <button
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page >= totalPages}
+                className="px-3 py-1.5 bg-gray-800 rounded hover:bg-gray-700 disabled:opacity-40"
+              >
+                Próxima
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function AuditPage() {
+  return (
+    <AuthGuard>
+      <AuditPageContent />
+    </AuthGuard>
+  )
+}
@@ -0,0 +1,343 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { apiClient } from '@/lib/api-client'
+import { AuthGuard } from '@/components/AuthGuard'
+import AppHeader from '@/components/AppHeader'
+import { useAuth } from '@/contexts/AuthContext'
+import { isSuperAdmin } from '@/lib/permissions'
+import {
+    Lock,
+    Plus,
+    Trash2,
+    Edit2,
+    Loader2,
+    X,
+    Save,
+    AlertCircle,
+    Info,
+    Eye,
+    EyeOff,
+    RefreshCw,
+} from 'lucide-react'
+
+interface Credential {
+    id: string
+    name: string
+    type: string
+    hint: string | null
+    keyId: string
+    createdAt: string
+    updatedAt: string
+}
+
+const CREDENTIAL_TYPE_LABELS: Record<string, string> = {
+    openrouter: 'OpenRouter (IA)',
+    meta_pixel: 'Meta Pixel',
+    shopee: 'Shopee Affiliate',
+    pushcut: 'Pushcut',
+    generic: 'Genérica',
+}
+
+function CredentialsContent() {
+    const { user } = useAuth()
+    const [loading, setLoading] = useState(true)
+    const [credentials, setCredentials] = useState<Credential[]>([])
+    const [isModalOpen, setIsModalOpen] = useState(false)
+    const [editing, setEditing] = useState<Credential | null>(null)
+    const [formName, setFormName] = useState('')
+    const [formType, setFormType] = useState('openrouter')
+    const [formValue, setFormValue] = useState('')
+    const [showValue, setShowValue] = useState(false)
+    const [saving, setSaving] = useState(false)
+    const [rotating, setRotating] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        loadCredentials()
+    }, [])
+
+    const loadCredentials = async () => {
+        try {
+            setLoading(true)
+            setCredentials(await apiClient.getCredentials())
+        } catch (e) {
+            console.error('Error loading credentials:', e)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const openModal = (credential?: Credential) => {
+        setEditing(credential || null)
+        setFormName(credential?.name || '')
+        setFormType(credential?.type || 'openrouter')
+        setFormValue('')
+        setShowValue(false)
+        setError(null)
+        setIsModalOpen(true)
+    }
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!formName.trim()) { setError('Nome é obrigatório.'); return }
+        if (!editing && !formValue.trim()) { setError('Valor é obrigatório ao criar.'); return }
+
+        try {
+            setSaving(true)
+            setError(null)
+            if (editing) {
+                await apiClient.updateCredential(editing.id, { name: formName.trim(), value: formValue.trim() || undefined })
+            } else {
+                await apiClient.createCredential({ name: formName.trim(), type: formType, value: formValue.trim() })
+            }
+            await loadCredentials()
+            setIsModalOpen(false)
+        } catch (e: any) {
+            setError(e.response?.data?.message || 'Erro ao salvar credencial.')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleDelete = async (credential: Credential) => {
+        if (!confirm(`Excluir a credencial "${credential.name}"? Nodes que usam esta credencial deixarão de funcionar.`)) return
+        try {
+            await apiClient.deleteCredential(credential.id)
+            await loadCredentials()
+        } catch (e: any) {
+            alert(e.response?.data?.message || 'Erro ao excluir credencial.')
+        }
+    }
+
+    const handleRotate = async () => {
+        if (!confirm('Recriptografar todas as chaves de dados com a chave mestra atual?')) return
+        try {
+            setRotating(true)
+            const result = await apiClient.rotateCredentials()
+            alert(`${result.rotated} credencial(is) migrada(s) para a chave "${result.keyId}".${result.failed?.length ? ` Falhas: ${result.failed.length}.` : ''}`)
+            await loadCredentials()
+        } catch (e: any) {
+            alert(e.response?.data?.message || 'Erro ao rotacionar chave mestra.')
+        } finally {
+            setRotating(false)
+        }
+    }
+
+    if (loading && credentials.length === 0) {
+        return (
+            <div className="flex-1 flex items-center justify-center bg-[#0a0a0a]">
+                <Loader2 className="animate-spin text-primary" size={48} />
+            </div>
+        )
+    }
+
+    return (
+        <div className="flex-1 flex flex-col min-h-screen bg-[#0a0a0a] text-white">
+            <AppHeader />
+
+            <main className="flex-1 overflow-y-auto p-4 md:p-8">
+                <div className="max-w-4xl mx-auto space-y-8">
+
+                    {/* Header */}
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                        <div className="flex items-center gap-4">
+                            <div className="p-3 bg-primary/10 border border-primary/20 rounded-2xl">
+                                <Lock className="text-primary" size={24} />
+                            </div>
+                            <div>
+                                <h1 className="text-2xl font-black text-white px-1">Credenciais <span className="text-primary italic">Seguras</span></h1>
+                                <p className="text-gray-500 text-sm px-1">Chaves e tokens criptografados, usados pelos nodes sem expor o valor.</p>
+                            </div>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            {isSuperAdmin(user?.role) && (
+                                <button
+                                    onClick={handleRotate}
+                                    disabled={rotating}
+                                    title="Rotacionar chave mestra"
+                                    className="flex items-center justify-center gap-2 px-4 py-3 border border-gray-800 text-gray-400 rounded-xl font-bold text-xs uppercase tracking-widest hover:bg-white/5 disabled:opacity-50 transition-all"
+                                >
+                                    {rotating ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                                    Rotacionar
+                                </button>
+                            )}
+                            <button
+                                onClick={() => openModal()}
+                                className="flex items-center justify-center gap-2 px-6 py-3 bg-primary text-black rounded-xl font-black text-xs uppercase tracking-widest hover:shadow-[0_0_20px_rgba(0,186,124,0.4)] transition-all hover:-translate-y-0.5"
+                            >
+                                <Plus size={18} strokeWidth={3} />
+                                Nova Credencial
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* List */}
+                    <div className="grid grid-cols-1 gap-4">
+                        {credentials.length > 0 ? credentials.map((credential) => (
+                            <div
+                                key={credential.id}
+                                className="bg-[#111111] border border-gray-800 rounded-2xl p-6 flex flex-col md:flex-row md:items-center justify-between gap-6 transition-all hover:bg-[#151515]"
+                            >
+                                <div>
+                                    <div className="flex items-center gap-2 mb-1">
+                                        <h3 className="font-bold text-lg">{credential.name}</h3>
+                                        <span className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full bg-gray-800 text-gray-400">
+                                            {CREDENTIAL_TYPE_LABELS[credential.type] || credential.type}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center gap-4 text-xs text-gray-500 font-mono">
+                                        <span>{credential.hint || '••••'}</span>
+                                        <span>Atualizada em {new Date(credential.updatedAt).toLocaleDateString('pt-BR')}</span>
+                                    </div>
+                                </div>
+
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => openModal(credential)}
+                                        title="Editar"
+                                        className="p-2.5 text-gray-500 hover:text-white hover:bg-white/5 rounded-xl transition-all"
+                                    >
+                                        <Edit2 size={18} />
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(credential)}
+                                        title="Excluir"
+                                        className="p-2.5 text-gray-500 hover:text-red-500 hover:bg-red-500/10 rounded-xl transition-all"
+                                    >
+                                        <Trash2 size={18} />
+                                    </button>
+                                </div>
+                            </div>
+                        )) : (
+                            <div className="bg-[#111111] border border-gray-800 border-dashed rounded-3xl p-20 text-center space-y-4">
+                                <div className="w-16 h-16 bg-gray-900 border border-gray-800 rounded-2xl flex items-center justify-center mx-auto text-gray-600">
+                                    <Lock size={32} />
+                                </div>
+                                <div>
+                                    <h3 className="font-bold text-gray-300">Nenhuma Credencial</h3>
+                                    <p className="text-sm text-gray-600">Cadastre chaves de API e tokens para selecioná-los nos nodes.</p>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Info box */}
+                    <div className="bg-[#111111] border border-gray-800 rounded-2xl p-6">
+                        <div className="flex items-start gap-4">
+                            <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-xl text-blue-400 shrink-0">
+                                <Info size={20} />
+                            </div>
+                            <div className="space-y-1">
+                                <h3 className="font-bold text-sm">Como funciona</h3>
+                                <p className="text-xs text-gray-500 leading-relaxed">
+                                    O valor é criptografado ao salvar e nunca volta para o navegador — para trocar, informe um novo valor.
+                                    Os nodes guardam apenas a referência da credencial, que é removida ao compartilhar ou importar fluxos.
+                                </p>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            </main>
+
+            {/* Modal */}
+            {isModalOpen && (
+                <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+                    <div className="w-full max-w-lg bg-[#0d0d0d] border border-gray-800 rounded-3xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+                        <div className="p-6 border-b border-gray-800 flex items-center justify-between">
+                            <h2 className="text-lg font-black">{editing ? 'Editar' : 'Nova'} Credencial</h2>
+                            <button onClick={() => setIsModalOpen(false)} className="p-2 text-gray-500 hover:text-white hover:bg-white/5 rounded-full transition-all">
+                                <X size={20} />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleSave} className="p-6 space-y-5">
+                            <div className="space-y-2">
+                                <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">Nome</label>
+                                <input
+                                    type="text"
+                                    value={formName}
+                                    onChange={(e) => setFormName(e.target.value)}
+                                    placeholder="Ex: OpenRouter principal"
+                                    className="w-full bg-[#151515] border border-gray-800 rounded-xl px-4 py-3 text-sm focus:border-primary focus:ring-1 focus:ring-primary/20 outline-none transition-all"
+                                />
+                            </div>
+
+                            {!editing && (
+                                <div className="space-y-2">
+                                    <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">Tipo</label>
+                                    <select
+                                        value={formType}
+                                        onChange={(e) => setFormType(e.target.value)}
+                                        className="w-full bg-[#151515] border border-gray-800 rounded-xl px-4 py-3 text-sm focus:border-primary focus:ring-1 focus:ring-primary/20 outline-none transition-all"
+                                    >
+                                        {Object.entries(CREDENTIAL_TYPE_LABELS).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            <div className="space-y-2">
+                                <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">
+                                    Valor {editing && <span className="text-gray-600 normal-case font-normal">(deixe vazio para manter)</span>}
+                                </label>
+                                <div className="relative group">
+                                    <input
+                                        type={showValue ? 'text' : 'password'}
+                                        value={formValue}
+                                        onChange={(e) => setFormValue(e.target.value)}
+                                        placeholder={editing ? (editing.hint || '••••••••••••••••') : 'Chave ou token'}
+                                        autoComplete="off"
+                                        className="w-full bg-[#151515] border border-gray-800 rounded-xl pl-4 pr-12 py-3 text-sm focus:border-primary focus:ring-1 focus:ring-primary/20 outline-none transition-all font-mono"
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => setShowValue(!showValue)}
+                                        className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-300 p-1"
+                                    >
+                                        {showValue ? <EyeOff size={16} /> : <Eye size={16} />}
+                                    </button>
+                                </div>
+                            </div>
+
+                            {error && (
+                                <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs font-bold">
+                                    <AlertCircle size={16} />
+                                    {error}
+                                </div>
+                            )}
+
+                            <div className="pt-2 flex gap-3">
+                                <button
+                                    type="button"
+                                    onClick={() => setIsModalOpen(false)}
+                                    className="flex-1 px-6 py-3 border border-gray-800 text-gray-400 rounded-xl font-bold text-xs uppercase tracking-widest hover:bg-white/5 transition-all"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={saving}
+                                    className="flex-[2] px-6 py-3 bg-primary text-black rounded-xl font-black text-xs uppercase tracking-widest hover:shadow-[0_0_20px_rgba(0,186,124,0.4)] disabled:opacity-50 transition-all flex items-center justify-center gap-2"
+                                >
+                                    {saving ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />}
+                                    Salvar Credencial
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
+
+export default function CredentialsSettingsPage() {
+    return (
+        <AuthGuard>
+            <CredentialsContent />
+        </AuthGuard>
+    )
+}
@@ -0,0 +1,397 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { apiClient } from '@/lib/api-client'
+import { AuthGuard } from '@/components/AuthGuard'
+import AppHeader from '@/components/AppHeader'
+import { useAuth } from '@/contexts/AuthContext'
+import { isAdmin } from '@/lib/permissions'
+import { PERMISSION_ACTIONS, PermissionAction, PermissionResource } from '@n9n/shared'
+import {
+    UserCog,
+    Plus,
+    Trash2,
+    Edit2,
+    Loader2,
+    X,
+    Save,
+    AlertCircle,
+    Info,
+    Users,
+} from 'lucide-react'
+
+interface CustomRole {
+    id: string
+    name: string
+    description: string | null
+    permissions: string[]
+    _count?: { users: number }
+}
+
+interface Member {
+    id: string
+    email: string
+    name: string | null
+    role: string
+    customRoleId: string | null
+}
+
+const RESOURCE_LABELS: Record<PermissionResource, string> = {
+    [PermissionResource.WORKFLOWS]: 'Fluxos',
+    [PermissionResource.CAMPAIGNS]: 'Campanhas',
+    [PermissionResource.INBOX]: 'Inbox e Contatos',
+    [PermissionResource.SESSIONS]: 'Sessões WhatsApp',
+    [PermissionResource.SETTINGS]: 'Configurações',
+    [PermissionResource.CREDENTIALS]: 'Credenciais',
+}
+
+const ACTION_LABELS: Record<PermissionAction, string> = {
+    [PermissionAction.VIEW]: 'Ver',
+    [PermissionAction.EDIT]: 'Editar',
+    [PermissionAction.EXECUTE]: 'Executar',
+}
+
+function RolesContent() {
+    const { user } = useAuth()
+    const router = useRouter()
+    const [loading, setLoading] = useState(true)
+    const [roles, setRoles] = useState<CustomRole[]>([])
+    const [members, setMembers] = useState<Member[]>([])
+    const [isModalOpen, setIsModalOpen] = useState(false)
+    const [editing, setEditing] = useState<CustomRole | null>(null)
+    const [formName, setFormName] = useState('')
+    const [formDescription, setFormDescription] = useState('')
+    const [formPermissions, setFormPermissions] = useState<string[]>([])
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        if (user && !isAdmin(user.role)) {
+            router.push('/')
+            return
+        }
+        loadData()
+    }, [user, router])
+
+    const loadData = async () => {
+        try {
+            setLoading(true)
+            const [rolesData, membersData] = await Promise.all([
+                apiClient.getRoles(),
+                apiClient.getRoleMembers(),
+            ])
+            setRoles(rolesData)
+            setMembers(membersData)
+        } catch (e) {
+            console.error('Error loading roles:', e)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const openModal = (role?: CustomRole) => {
+        setEditing(role || null)
+        setFormName(role?.name || '')
+        setFormDescription(role?.description || '')
+        setFormPermissions(role?.permissions || [])
+        setError(null)
+        setIsModalOpen(true)
+    }
+
+    const togglePermission = (permission: string) => {
+        setFormPermissions((current) =>
+            current.includes(permission)
+                ? current.filter((p) => p !== permission)
+                : [...current, permission]
+        )
+    }
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!formName.trim()) { setError('Nome é obrigatório.'); return }
+
+        const payload = {
+            name: formName.trim(),
+            description: formDescription.trim() || undefined,
+            permissions: formPermissions,
+        }
+
+        try {
+            setSaving(true)
+            setError(null)
+            if (editing) {
+                await apiClient.updateRole(editing.id, payload)
+            } else {
+                await apiClient.createRole(payload)
+            }
+            await loadData()
+            setIsModalOpen(false)
+        } catch (e: any) {
+            setError(e.response?.data?.message || 'Erro ao salvar perfil.')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleDelete = async (role: CustomRole) => {
+        if (!confirm(`Excluir o perfil "${role.name}"? Os membros voltam a ter acesso completo.`)) return
+        try {
+            await apiClient.deleteRole(role.id)
+            await loadData()
+        } catch (e: any) {
+            alert(e.response?.data?.message || 'Erro ao excluir perfil.')
+        }
+    }
+
+    const handleAssign = async (member: Member, roleId: string) => {
+        try {
+            await apiClient.assignRole(member.id, roleId || null)
+            await loadData()
+        } catch (e: any) {
+            alert(e.response?.data?.message || 'Erro ao atribuir perfil.')
+        }
+    }
+
+    if (loading && roles.length === 0 && members.length === 0) {
+        return (
+            <div className="flex-1 flex items-center justify-center bg-[#0a0a0a]">
+                <Loader2 className="animate-spin text-primary" size={48} />
+            </div>
+        )
+    }
+
+    return (
+        <div className="flex-1 flex flex-col min-h-screen bg-[#0a0a0a] text-white">
+            <AppHeader />
+
+            <main className="flex-1 overflow-y-auto p-4 md:p-8">
+                <div className="max-w-4xl mx-auto space-y-8">
+
+                    {/* Header */}
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                        <div className="flex items-center gap-4">
+                            <div className="p-3 bg-primary/10 border border-primary/20 rounded-2xl">
+                                <UserCog className="text-primary" size={24} />
+                            </div>
+                            <div>
+                                <h1 className="text-2xl font-black text-white px-1">Perfis de <span className="text-primary italic">Acesso</span></h1>
+                                <p className="text-gray-500 text-sm px-1">Defina o que cada membro do workspace pode ver, editar e executar.</p>
+                            </div>
+                        </div>
+
+                        <button
+                            onClick={() => openModal()}
+                            className="flex items-center justify-center gap-2 px-6 py-3 bg-primary text-black rounded-xl font-black text-xs uppercase tracking-widest hover:shadow-[0_0_20px_rgba(0,186,124,0.4)] transition-all hover:-translate-y-0.5"
+                        >
+                            <Plus size={18} strokeWidth={3} />
+                            Novo Perfil
+                        </button>
+                    </div>
+
+                    {/* Roles */}
+                    <div className="grid grid-cols-1 gap-4">
+                        {roles.length > 0 ? roles.map((role) => (
+                            <div
+                                key={role.id}
+                                className="bg-[#111111] border border-gray-800 rounded-2xl p-6 flex flex-col md:flex-row md:items-center justify-between gap-6 transition-all hover:bg-[#151515]"
+                            >
+                                <div className="space-y-2">
+                                    <div className="flex items-center gap-2">
+                                        <h3 className="font-bold text-lg">{role.name}</h3>
+                                        <span className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full bg-gray-800 text-gray-400">
+                                            {role._count?.users || 0} membro(s)
+                                        </span>
+                                    </div>
+                                    {role.description && <p className="text-xs text-gray-500">{role.description}</p>}
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {role.permissions.length > 0 ? role.permissions.map((permission) => (
+                                            <span key={permission} className="text-[10px] font-mono px-2 py-0.5 rounded-md bg-primary/10 text-primary border border-primary/20">
+                                                {permission}
+                                            </span>
+                                        )) : (
+                                            <span className="text-[10px] text-gray-600">Sem permissões</span>
+                                        )}
+                                    </div>
+                                </div>
+
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => openModal(role)}
+                                        title="Editar"
+                                        className="p-2.5 text-gray-500 hover:text-white hover:bg-white/5 rounded-xl transition-all"
+                                    >
+                                        <Edit2 size={18} />
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(role)}
+                                        title="Excluir"
+                                        className="p-2.5 text-gray-500 hover:text-red-500 hover:bg-red-500/10 rounded-xl transition-all"
+                                    >
+                                        <Trash2 size={18} />
+                                    </button>
+                                </div>
+                            </div>
+                        )) : (
+                            <div className="bg-[#111111] border border-gray-800 border-dashed rounded-3xl p-20 text-center space-y-4">
+                                <div className="w-16 h-16 bg-gray-900 border border-gray-800 rounded-2xl flex items-center justify-center mx-auto text-gray-600">
+                                    <UserCog size={32} />
+                                </div>
+                                <div>
+                                    <h3 className="font-bold text-gray-300">Nenhum Perfil</h3>
+                                    <p className="text-sm text-gray-600">Crie perfis como &quot;Atendente&quot; ou &quot;Editor de fluxos&quot; para restringir o acesso dos membros.</p>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Members */}
+                    <div className="bg-[#111111] border border-gray-800 rounded-2xl overflow-hidden">
+                        <div className="p-6 border-b border-gray-800 flex items-center gap-3">
+                            <Users size={18} className="text-gray-400" />
+                            <h2 className="font-bold">Membros</h2>
+                        </div>
+                        <div className="divide-y divide-gray-800">
+                            {members.map((member) => (
+                                <div key={member.id} className="p-4 px-6 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                                    <div>
+                                        <p className="font-medium text-sm">{member.name || member.email}</p>
+                                        <p className="text-xs text-gray-500">{member.email}</p>
+                                    </div>
+                                    {isAdmin(member.role) ? (
+                                        <span className="text-[10px] font-black uppercase tracking-widest text-gray-500">Administrador</span>
+                                    ) : (
+                                        <select
+                                            value={member.customRoleId || ''}
+                                            onChange={(e) => handleAssign(member, e.target.value)}
+                                            className="bg-[#151515] border border-gray-800 rounded-xl px-4 py-2 text-sm focus:border-primary focus:ring-1 focus:ring-primary/20 outline-none transition-all"
+                                        >
+                                            <option value="">Acesso completo</option>
+                                            {roles.map((role) => (
+                                                <option key={role.id} value={role.id}>{role.name}</option>
+                                            ))}
+                                        </select>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Info box */}
+                    <div className="bg-[#111111] border border-gray-800 rounded-2xl p-6">
+                        <div className="flex items-start gap-4">
+                            <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-xl text-blue-400 shrink-0">
+                                <Info size={20} />
+                            </div>
+                            <div className="space-y-1">
+                                <h3 className="font-bold text-sm">Como funciona</h3>
+                                <p className="text-xs text-gray-500 leading-relaxed">
+                                    Administradores sempre têm acesso completo. Membros sem perfil mantêm acesso a tudo;
+                                    ao atribuir um perfil, só podem usar os recursos marcados. Editar ou executar um recurso já inclui visualizá-lo.
+                                </p>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            </main>
+
+            {/* Modal */}
+            {isModalOpen && (
+                <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+                    <div className="w-full max-w-lg bg-[#0d0d0d] border border-gray-800 rounded-3xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+                        <div className="p-6 border-b border-gray-800 flex items-center justify-between">
+                            <h2 className="text-lg font-black">{editing ? 'Editar' : 'Novo'} Perfil</h2>
+                            <button onClick={() => setIsModalOpen(false)} className="p-2 text-gray-500 hover:text-white hover:bg-white/5 rounded-full transition-all">
+                                <X size={20} />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleSave} className="p-6 space-y-5">
+                            <div className="space-y-2">
+                                <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">Nome</label>
+                                <input
+                                    type="text"
+                                    value={formName}
+                                    onChange={(e) => setFormName(e.target.value)}
+                                    placeholder="Ex: Atendente"
+                                    className="w-full bg-[#151515] border border-gray-800 rounded-xl px-4 py-3 text-sm focus:border-primary focus:ring-1 focus:ring-primary/20 outline-none transition-all"
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">Descrição</label>
+                                <input
+                                    type="text"
+                                    value={formDescription}
+                                    onChange={(e) => setFormDescription(e.target.value)}
+                                    placeholder="Opcional"
+                                    className="w-full bg-[#151515] border border-gray-800 rounded-xl px-4 py-3 text-sm focus:border-primary focus:ring-1 focus:ring-primary/20 outline-none transition-all"
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">Permissões</label>
+                                <div className="border border-gray-800 rounded-xl divide-y divide-gray-800">
+                                    {Object.values(PermissionResource).map((resource) => (
+                                        <div key={resource} className="flex items-center justify-between px-4 py-3">
+                                            <span className="text-sm">{RESOURCE_LABELS[resource]}</span>
+                                            <div className="flex items-center gap-4">
+                                                {PERMISSION_ACTIONS[resource].map((action) => {
+                                                    const permission = `${resource}:${action}`
+                                                    return (
+                                                        <label key={permission} className="flex items-center gap-1.5 text-xs text-gray-400 cursor-pointer">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={formPermissions.includes(permission)}
+                                                                onChange={() => togglePermission(permission)}
+                                                                className="accent-primary"
+                                                            />
+                                                            {ACTION_LABELS[action]}
+                                                        </label>
+                                                    )
+                                                })}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {error && (
+                                <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs font-bold">
+                                    <AlertCircle size={16} />
+                                    {error}
+                                </div>
+                            )}
+
+                            <div className="pt-2 flex gap-3">
+                                <button
+                                    type="button"
+                                    onClick={() => setIsModalOpen(false)}
+                                    className="flex-1 px-6 py-3 border border-gray-800 text-gray-400 rounded-xl font-bold text-xs uppercase tracking-widest hover:bg-white/5 transition-all"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={saving}
+                                    className="flex-[2] px-6 py-3 bg-primary text-black rounded-xl font-black text-xs uppercase tracking-widest hover:shadow-[0_0_20px_rgba(0,186,124,0.4)] disabled:opacity-50 transition-all flex items-center justify-center gap-2"
+                                >
+                                    {saving ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />}
+                                    Salvar Perfil
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
+
+export default function RolesSettingsPage() {
+    return (
+        <AuthGuard>
+            <RolesContent />
+        </AuthGuard>
+    )
+}
@@ -1,11 +1,11 @@
 'use client'
 
-import { useCallback, useEffect, useState, useRef } from 'react'
+import { useCallback, useEffect, useMemo, useState, useRef } from 'react'
 import { useParams, useRouter, useSearchParams } from 'next/navigation'
 import dynamic from 'next/dynamic'
 import { apiClient } from '@/lib/api-client'
 import { wsClient } from '@/lib/websocket'
-import { WorkflowNode, WorkflowEdge, EventType, WorkflowNodeType } from '@n9n/shared'
+import { WorkflowNode, WorkflowEdge, EventType, WorkflowNodeType, WorkflowValidationIssue, WorkflowValidationResult } from '@n9n/shared'
 import NodeConfigModal from '@/components/NodeConfigModal'
 import ExecutionHistory from '@/components/ExecutionHistory'
 import NodeExecutionPanel from '@/components/NodeExecutionPanel'
@@ -15,11 +15,16 @@ import { AuthGuard } from '@/components/AuthGuard'
 import AppHeader from '@/components/AppHeader'
 import { Copy, Share2, Info, Layout, BarChart3 } from 'lucide-react'
 import WorkflowInsights from '@/components/WorkflowInsights'
+import WorkflowVersions from '@/components/WorkflowVersions'
 
 const WorkflowCanvas = dynamic(() => import('@/components/WorkflowCanvas'), {
   ssr: false,
 })
 
+// The editor works on the unpublished draft when there is one
+const toEditorWorkflow = (data: any) =>
+  data?.draft ? { ...data, nodes: data.draft.nodes, edges: data.draft.edges } : data
+
 function WorkflowPageContent() {
   const params = useParams()
   const router = useRouter()
@@ -51,6 +56,9 @@ function WorkflowPageContent() {
   const [isViewingHistory, setIsViewingHistory] = useState(false)
   const [historicalExecutionId, setHistoricalExecutionId] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState<'editor' | 'insights'>('editor')
+  const [showVersions, setShowVersions] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+  const [validation, setValidation] = useState<WorkflowValidationResult | null>(null)
 
   // Sharing states
   const [showShareModal, setShowShareModal] = useState(false)
@@ -73,6 +81,8 @@ function WorkflowPageContent() {
       // Connect websocket with the actual tenantId being used
       wsClient.connect(tenantId, token)
     }
+    // Execution events are only delivered to the workflow's room
+    wsClient.subscribe(`workflow:${workflowId}`)
 
     // Listen for execution events
     const handleExecutionStarted = (event: any) => {
@@ -272,6 +282,7 @@ function WorkflowPageContent() {
     wsClient.on(EventType.EXECUTION_ERROR, handleExecutionError)
 
     return () => {
+      wsClient.unsubscribe(`workflow:${workflowId}`)
       wsClient.off(EventType.EXECUTION_STARTED, handleExecutionStarted)
       wsClient.off(EventType.NODE_EXECUTED, handleNodeExecuted)
       wsClient.off(EventType.EXECUTION_WAITING, handleExecutionWaiting)
@@ -285,12 +296,14 @@ function WorkflowPageContent() {
     try {
       setError(null)
       // Pass tenantId if available (for SUPER_ADMIN viewing other workspaces)
-      const data = await apiClient.getWorkflow(workflowId, tenantId || undefined)
+      const data = toEditorWorkflow(await apiClient.getWorkflow(workflowId, tenantId || undefined))
       setWorkflow(data)
 
       // Initialize refs with loaded data
       currentNodesRef.current = data.nodes || []
       currentEdgesRef.current = data.edges || []
+
+      refreshValidation()
     } catch (err: any) {
       console.error('Error loading workflow:', err)
       if (err.response?.status === 404) {
@@ -303,6 +316,24 @@ function WorkflowPageContent() {
     }
   }
 
+  const refreshValidation = async () => {
+    try {
+      setValidation(await apiClient.validateWorkflow(workflowId, undefined, tenantId || undefined))
+    } catch (err) {
+      console.error('Error validating workflow:', err)
+    }
+  }
+
+  // Validation issues grouped by node, for the canvas badges
+  const nodeIssues = useMemo(() => {
+    const byNode: Record<string, WorkflowValidationIssue[]> = {}
+    for (const issue of [...(validation?.errors || []), ...(validation?.warnings || [])]) {
+      if (!issue.nodeId) continue
+      byNode[issue.nodeId] = [...(byNode[issue.nodeId] || []), issue]
+    }
+    return byNode
+  }, [validation])
+
   const handleSave = async (nodes: WorkflowNode[], edges: WorkflowEdge[]) => {
     // Update refs with latest data
     currentNodesRef.current = nodes
@@ -311,10 +342,11 @@ function WorkflowPageContent() {
     try {
       setSaveStatus('saving')
       // Pass tenantId if available (for SUPER_ADMIN viewing other workspaces)
-      await apiClient.updateWorkflow(workflowId, { nodes, edges }, tenantId || undefined)
+      const saved = await apiClient.updateWorkflow(workflowId, { nodes, edges }, tenantId || undefined)
+      if (saved?.validation) setValidation(saved.validation)
       // Sync parent state so initialNodes/initialEdges stay current
       // This is critical for pasted/deleted nodes to be recognized by the parent
-      setWorkflow((prev: any) => ({ ...prev, nodes, edges }))
+      setWorkflow((prev: any) => ({ ...prev, nodes, edges, draft: { nodes, edges } }))
       setSaveStatus('saved')
       setTimeout(() => setSaveStatus('idle'), 2000)
     } catch (error) {
@@ -352,13 +384,14 @@ function WorkflowPageContent() {
       )
 
       // Pass tenantId if available (for SUPER_ADMIN viewing other workspaces)
-      await apiClient.updateWorkflow(workflowId, { nodes: updatedNodes, edges: currentEdges }, tenantId || undefined)
+      const saved = await apiClient.updateWorkflow(workflowId, { nodes: updatedNodes, edges: currentEdges }, tenantId || undefined)
+      if (saved?.validation) setValidation(saved.validation)
 
       // Update refs
       currentNodesRef.current = updatedNodes
 
       // Update state
-      setWorkflow({ ...workflow, nodes: updatedNodes, edges: currentEdges })
+      setWorkflow({ ...workflow, nodes: updatedNodes, edges: currentEdges, draft: { nodes: updatedNodes, edges: currentEdges } })
       setSaveStatus('saved')
       setTimeout(() => setSaveStatus('idle'), 2000)
     } catch (error) {
@@ -445,7 +478,7 @@ function WorkflowPageContent() {
     try {
       setSaveStatus('saving')
 
-      await apiClient.updateWorkflow(
+      const saved = await apiClient.updateWorkflow(
         workflowId,
         {
           nodes: updatedNodes,
@@ -453,12 +486,13 @@ function WorkflowPageContent() {
         },
         tenantId || undefined
       )
+      if (saved?.validation) setValidation(saved.validation)
 
       // Update refs
       currentNodesRef.current = updatedNodes
 
       // Update state
-      setWorkflow({ ...workflow, nodes: updatedNodes, edges: currentEdges })
+      setWorkflow({ ...workflow, nodes: updatedNodes, edges: currentEdges, draft: { nodes: updatedNodes, edges: currentEdges } })
       setSaveStatus('saved')
       setTimeout(() => setSaveStatus('idle'), 2000)
     } catch (error: any) {
@@ -559,13 +593,14 @@ function WorkflowPageContent() {
 
     try {
       setSaveStatus('saving')
-      await apiClient.updateWorkflow(
+      const saved = await apiClient.updateWorkflow(
         workflowId,
         { nodes: updatedNodes, edges: currentEdges || [] },
         tenantId || undefined
       )
+      if (saved?.validation) setValidation(saved.validation)
       currentNodesRef.current = updatedNodes
-      setWorkflow((prev: any) => ({ ...prev, nodes: updatedNodes, edges: currentEdges || [] }))
+      setWorkflow((prev: any) => ({ ...prev, nodes: updatedNodes, edges: currentEdges || [], draft: { nodes: updatedNodes, edges: currentEdges || [] } }))
       setSaveStatus('saved')
       setTimeout(() => setSaveStatus('idle'), 2000)
     } catch (error: any) {
@@ -585,12 +620,51 @@ function WorkflowPageContent() {
         },
         tenantId || undefined
       )
-      setWorkflow(updated)
-    } catch (error) {
+      setWorkflow(toEditorWorkflow(updated))
+    } catch (error: any) {
       console.error('Error toggling workflow:', error)
+      alert(`Não foi possível ativar o fluxo: ${error?.response?.data?.message || error.message}`)
+    }
+  }
+
+  const updateMaxIterations = async (value: string) => {
+    try {
+      const updated = await apiClient.updateWorkflow(
+        workflowId,
+        { maxIterations: value.trim() ? Number(value) : null },
+        tenantId || undefined
+      )
+      setWorkflow(toEditorWorkflow(updated))
+    } catch (error: any) {
+      console.error('Error updating iteration limit:', error)
+      alert(error?.response?.data?.message || 'Erro ao salvar limite de iterações')
     }
   }
 
+  const handlePublish = async () => {
+    const note = prompt('Descrição desta versão (opcional):')
+    if (note === null) return
+    try {
+      setPublishing(true)
+      const updated = await apiClient.publishWorkflow(workflowId, note.trim() || undefined, tenantId || undefined)
+      setWorkflow(toEditorWorkflow(updated))
+      refreshValidation()
+    } catch (error: any) {
+      console.error('Error publishing workflow:', error)
+      alert(error?.response?.data?.message || 'Erro ao publicar fluxo')
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  const handleRollback = (updated: any) => {
+    const data = toEditorWorkflow(updated)
+    currentNodesRef.current = data.nodes || []
+    currentEdgesRef.current = data.edges || []
+    setWorkflow(data)
+    refreshValidation()
+  }
+
   const handleDuplicate = () => {
     setDupName(`${workflow?.name ?? 'Fluxo'} (Cópia)`)
     setDupTargetType('normal')
@@ -758,6 +832,27 @@ function WorkflowPageContent() {
             </div>
           )}
 
+          <label
+            className="flex items-center gap-2 px-3 py-2 bg-surface border border-border rounded text-sm text-gray-400"
+            title="Máximo de nós executados por execução (proteção contra loops infinitos). Vazio = padrão (1000)."
+          >
+            Limite
+            <input
+              key={workflow.maxIterations ?? 'default'}
+              type="number"
+              min={1}
+              max={100000}
+              defaultValue={workflow.maxIterations ?? ''}
+              placeholder="1000"
+              onBlur={(e) => {
+                if (e.target.value !== String(workflow.maxIterations ?? '')) {
+                  updateMaxIterations(e.target.value)
+                }
+              }}
+              className="w-20 bg-transparent text-white focus:outline-none"
+            />
+          </label>
+
           <button
             onClick={() => setShowNodesSidebar(!showNodesSidebar)}
             className={`px-4 py-2 bg-surface border border-border rounded hover:border-primary transition flex items-center gap-2 ${showNodesSidebar ? 'border-primary text-primary' : ''}`}
@@ -792,6 +887,13 @@ function WorkflowPageContent() {
             📊 History
           </button>
 
+          <button
+            onClick={() => setShowVersions(true)}
+            className="px-4 py-2 bg-surface border border-border rounded hover:border-primary transition"
+          >
+            🗂️ Versões
+          </button>
+
           <button
             onClick={handleShare}
             className="px-4 py-2 bg-surface border border-border rounded hover:border-primary transition flex items-center gap-2"
@@ -808,6 +910,36 @@ function WorkflowPageContent() {
             <span>Duplicate</span>
           </button>
 
+          {validation && (validation.errors.length > 0 || validation.warnings.length > 0) && (
+            <span
+              title={[...validation.errors, ...validation.warnings].map((issue) => `• ${issue.message}`).join('\n')}
+              className={`px-3 py-2 rounded text-sm border ${validation.errors.length > 0
+                ? 'border-red-500/50 text-red-400 bg-red-500/10'
+                : 'border-yellow-500/50 text-yellow-400 bg-yellow-500/10'
+                }`}
+            >
+              {validation.errors.length > 0 && `${validation.errors.length} erro${validation.errors.length > 1 ? 's' : ''}`}
+              {validation.errors.length > 0 && validation.warnings.length > 0 && ' · '}
+              {validation.warnings.length > 0 && `${validation.warnings.length} aviso${validation.warnings.length > 1 ? 's' : ''}`}
+            </span>
+          )}
+
+          <button
+            onClick={handlePublish}
+            disabled={publishing || (!workflow.draft && !!workflow.publishedVersion)}
+            title={workflow.publishedVersion ? `Versão publicada: v${workflow.publishedVersion}` : 'Nenhuma versão publicada'}
+            className={`px-4 py-2 rounded transition disabled:opacity-60 ${workflow.draft || !workflow.publishedVersion
+              ? 'bg-yellow-500 text-black hover:bg-yellow-400'
+              : 'bg-surface border border-border text-gray-400'
+              }`}
+          >
+            {publishing
+              ? 'Publicando...'
+              : workflow.draft || !workflow.publishedVersion
+                ? 'Publicar alterações'
+                : `Publicado v${workflow.publishedVersion}`}
+          </button>
+
           <button
             onClick={toggleActive}
             className={`px-4 py-2 rounded transition ${workflow.isActive
@@ -848,6 +980,7 @@ function WorkflowPageContent() {
                 onAddNode={handleAddNode}
                 onManualTrigger={handleManualTrigger}
                 onDuplicateNode={handleDuplicateNode}
+                nodeIssues={nodeIssues}
               />
             </div>
           </>
@@ -888,6 +1021,16 @@ function WorkflowPageContent() {
         />
       )}
 
+      {showVersions && (
+        <WorkflowVersions
+          workflowId={workflowId}
+          tenantId={tenantId || undefined}
+          publishedVersion={workflow.publishedVersion}
+          onClose={() => setShowVersions(false)}
+          onRollback={handleRollback}
+        />
+      )}
+
       {/* Duplicate Workflow Modal */}
       {showDupModal && (
         <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4">
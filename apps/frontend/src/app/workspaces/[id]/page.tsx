@@ -11,6 +11,7 @@ import { useAuth } from '@/contexts/AuthContext'
 import { AuthGuard } from '@/components/AuthGuard'
 import { isSuperAdmin, UserRole } from '@/lib/permissions'
 import AppHeader from '@/components/AppHeader'
+import CommandPolicyPanel from '@/components/CommandPolicyPanel'
 
 interface Workspace {
   id: string
@@ -59,8 +60,8 @@ function WorkspaceDetailsPageContent() {
   const { user: currentUser } = useAuth()
 
   // Get initial tab from URL query param
-  const tabFromUrl = searchParams?.get('tab') as 'overview' | 'users' | 'workflows' | 'sessions' | 'course' | 'inbox' | null
-  const initialTab = tabFromUrl && ['overview', 'users', 'workflows', 'sessions', 'course', 'inbox'].includes(tabFromUrl)
+  const tabFromUrl = searchParams?.get('tab') as 'overview' | 'users' | 'workflows' | 'sessions' | 'course' | 'inbox' | 'commands' | null
+  const initialTab = tabFromUrl && ['overview', 'users', 'workflows', 'sessions', 'course', 'inbox', 'commands'].includes(tabFromUrl)
     ? tabFromUrl
     : 'overview'
 
@@ -80,7 +81,7 @@ function WorkspaceDetailsPageContent() {
   const [dashStats, setDashStats] = useState<any>(null)
   const [activeCampaigns, setActiveCampaigns] = useState<any[]>([])
   const [loading, setLoading] = useState(true)
-  const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'workflows' | 'sessions' | 'course' | 'inbox'>(initialTab)
+  const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'workflows' | 'sessions' | 'course' | 'inbox' | 'commands'>(initialTab)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
   const [showCreateModal, setShowCreateModal] = useState(false)
@@ -139,8 +140,8 @@ function WorkspaceDetailsPageContent() {
 
   // Update activeTab when URL query param changes
   useEffect(() => {
-    const tabFromUrl = searchParams?.get('tab') as 'overview' | 'users' | 'workflows' | 'sessions' | 'course' | 'inbox' | null
-    if (tabFromUrl && ['overview', 'users', 'workflows', 'sessions', 'course', 'inbox'].includes(tabFromUrl)) {
+    const tabFromUrl = searchParams?.get('tab') as 'overview' | 'users' | 'workflows' | 'sessions' | 'course' | 'inbox' | 'commands' | null
+    if (tabFromUrl && ['overview', 'users', 'workflows', 'sessions', 'course', 'inbox', 'commands'].includes(tabFromUrl)) {
       setActiveTab(tabFromUrl)
     }
   }, [searchParams])
@@ -730,6 +731,22 @@ function WorkspaceDetailsPageContent() {
                 <Rocket size={16} />
                 Do 0 aos 10K
               </button>
+              {isSuperAdmin(currentUser?.role) && (
+                <button
+                  onClick={() => {
+                    setActiveTab('commands')
+                    const url = new URL(window.location.href)
+                    url.searchParams.set('tab', 'commands')
+                    window.history.pushState({}, '', url.toString())
+                  }}
+                  className={`px-4 py-2 border-b-2 transition ${activeTab === 'commands'
+                    ? 'border-primary text-primary'
+                    : 'border-transparent text-gray-400 hover:text-gray-300'
+                    }`}
+                >
+                  Comandos
+                </button>
+              )}
             </div>
           </div>
 
@@ -1093,6 +1110,10 @@ function WorkspaceDetailsPageContent() {
             </div>
           )}
 
+          {activeTab === 'commands' && isSuperAdmin(currentUser?.role) && (
+            <CommandPolicyPanel tenantId={workspaceId} />
+          )}
+
           {activeTab === 'inbox' && (
             <div className="bg-[#151515] border border-gray-800 rounded-lg overflow-hidden flex flex-col items-center justify-center p-12 text-center">
               <div className="w-16 h-16 bg-[#00ff88]/10 rounded-full flex items-center justify-center mb-4 border border-[#00ff88]/20">
@@ -2,8 +2,8 @@
 
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
-import { LogOut, User, ShieldCheck, Star, MessageSquare, Menu, X, Building2, Shield, Users, BarChart3, Target, Key, Tag, Megaphone, ShoppingBag } from 'lucide-react'
-import { isSuperAdmin, UserRole } from '@/lib/permissions'
+import { LogOut, User, ShieldCheck, Star, MessageSquare, Menu, X, Building2, Shield, Users, BarChart3, Target, Key, Tag, Megaphone, ShoppingBag, Contact, Lock, UserCog, History, KeyRound } from 'lucide-react'
+import { isSuperAdmin, isAdmin, hasPermission, UserRole } from '@/lib/permissions'
 import Link from 'next/link'
 import { apiClient } from '@/lib/api-client'
 import { wsClient } from '@/lib/websocket'
@@ -14,7 +14,7 @@ export default function AppHeader() {
   const [isMenuOpen, setIsMenuOpen] = useState(false)
 
   const loadStats = async () => {
-    if (!user || !tenant) return;
+    if (!user || !tenant || !hasPermission(user, 'inbox:view')) return;
     try {
       const stats = await apiClient.getInboxStats()
       setUnreadCount(stats.totalUnread || 0)
@@ -55,19 +55,21 @@ export default function AppHeader() {
 
           {/* Desktop Navigation */}
           <nav className="hidden md:flex items-center gap-4 overflow-x-auto">
-            <Link
-              href="/inbox"
-              title="Inbox"
-              className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium relative py-1 whitespace-nowrap"
-            >
-              <MessageSquare size={16} />
-              Inbox
-              {unreadCount > 0 && (
-                <span className="absolute -top-1 -right-2 bg-[#00ff88] text-black text-[9px] font-bold rounded-full min-w-[15px] h-[15px] flex items-center justify-center border-2 border-[#151515]">
-                  {unreadCount > 99 ? '99+' : unreadCount}
-                </span>
-              )}
-            </Link>
+            {hasPermission(user, 'inbox:view') && (
+              <Link
+                href="/inbox"
+                title="Inbox"
+                className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium relative py-1 whitespace-nowrap"
+              >
+                <MessageSquare size={16} />
+                Inbox
+                {unreadCount > 0 && (
+                  <span className="absolute -top-1 -right-2 bg-[#00ff88] text-black text-[9px] font-bold rounded-full min-w-[15px] h-[15px] flex items-center justify-center border-2 border-[#151515]">
+                    {unreadCount > 99 ? '99+' : unreadCount}
+                  </span>
+                )}
+              </Link>
+            )}
 
             <Link
               href="/analytics"
@@ -78,14 +80,16 @@ export default function AppHeader() {
               Analytics
             </Link>
 
-            <Link
-              href="/campaigns/simple"
-              title="Campanhas"
-              className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
-            >
-              <Megaphone size={16} />
-              Campanhas
-            </Link>
+            {hasPermission(user, 'campaigns:view') && (
+              <Link
+                href="/campaigns/simple"
+                title="Campanhas"
+                className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
+              >
+                <Megaphone size={16} />
+                Campanhas
+              </Link>
+            )}
 
             <Link
               href="/products"
@@ -96,44 +100,107 @@ export default function AppHeader() {
               Vitrine
             </Link>
 
-            <Link
-              href="/workflows/groups"
-              title="Fluxos de Grupo"
-              className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
-            >
-              <Users size={16} />
-              Fluxos de Grupo
-            </Link>
+            {hasPermission(user, 'workflows:view') && (
+              <Link
+                href="/workflows/groups"
+                title="Fluxos de Grupo"
+                className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
+              >
+                <Users size={16} />
+                Fluxos de Grupo
+              </Link>
+            )}
 
             {/* Settings divider */}
             <div className="w-px h-4 bg-white/10 flex-shrink-0" />
 
-            <Link
-              href="/settings/pixel"
-              title="Configuração de Pixel"
-              className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
-            >
-              <Target size={16} />
-              Pixel
-            </Link>
+            {hasPermission(user, 'settings:view') && (
+              <Link
+                href="/settings/pixel"
+                title="Configuração de Pixel"
+                className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
+              >
+                <Target size={16} />
+                Pixel
+              </Link>
+            )}
 
-            <Link
-              href="/settings/apis"
-              title="Configuração de APIs"
-              className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
-            >
-              <Key size={16} />
-              APIs
-            </Link>
+            {hasPermission(user, 'settings:view') && (
+              <Link
+                href="/settings/apis"
+                title="Configuração de APIs"
+                className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
+              >
+                <Key size={16} />
+                APIs
+              </Link>
+            )}
 
-            <Link
-              href="/tags"
-              title="Gerenciar Tags do Sistema"
-              className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
-            >
-              <Tag size={16} />
-              Tags
-            </Link>
+            {hasPermission(user, 'credentials:view') && (
+              <Link
+                href="/settings/credentials"
+                title="Credenciais criptografadas"
+                className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
+              >
+                <Lock size={16} />
+                Credenciais
+              </Link>
+            )}
+
+            {isAdmin(user?.role) && (
+              <Link
+                href="/settings/roles"
+                title="Perfis de acesso"
+                className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
+              >
+                <UserCog size={16} />
+                Perfis
+              </Link>
+            )}
+
+            {isAdmin(user?.role) && (
+              <Link
+                href="/settings/audit"
+                title="Log de auditoria"
+                className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
+              >
+                <History size={16} />
+                Auditoria
+              </Link>
+            )}
+
+            {isAdmin(user?.role) && (
+              <Link
+                href="/settings/api-keys"
+                title="Chaves de API"
+                className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
+              >
+                <KeyRound size={16} />
+                API Keys
+              </Link>
+            )}
+
+            {hasPermission(user, 'workflows:view') && (
+              <Link
+                href="/tags"
+                title="Gerenciar Tags do Sistema"
+                className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
+              >
+                <Tag size={16} />
+                Tags
+              </Link>
+            )}
+
+            {hasPermission(user, 'inbox:view') && (
+              <Link
+                href="/contacts"
+                title="Contatos"
+                className="flex items-center gap-2 text-gray-400 hover:text-white transition text-sm font-medium whitespace-nowrap"
+              >
+                <Contact size={16} />
+                Contatos
+              </Link>
+            )}
 
             {isSuperAdmin(user?.role) && (
               <>
@@ -243,37 +310,83 @@ export default function AppHeader() {
               <BarChart3 size={18} />
               <span className="font-medium">Analytics</span>
             </Link>
-            <Link
-              href="/inbox"
-              onClick={() => setIsMenuOpen(false)}
-              className="flex items-center justify-between px-4 py-3 text-gray-300 hover:text-[#00ff88] hover:bg-white/5 rounded-xl transition"
-            >
-              <div className="flex items-center gap-3">
-                <MessageSquare size={18} />
-                <span className="font-medium">Inbox</span>
-              </div>
-              {unreadCount > 0 && (
-                <span className="bg-[#00ff88] text-black text-[10px] font-bold rounded-full px-2 py-0.5">
-                  {unreadCount} novo
-                </span>
-              )}
-            </Link>
-            <Link
-              href="/tags"
-              onClick={() => setIsMenuOpen(false)}
-              className="flex items-center gap-3 px-4 py-3 text-gray-300 hover:text-[#00ff88] hover:bg-white/5 rounded-xl transition"
-            >
-              <Tag size={18} />
-              <span className="font-medium">Tags do Sistema</span>
-            </Link>
-            <Link
-              href="/campaigns/simple"
-              onClick={() => setIsMenuOpen(false)}
-              className="flex items-center gap-3 px-4 py-3 text-gray-300 hover:text-[#00ff88] hover:bg-white/5 rounded-xl transition"
-            >
-              <Megaphone size={18} />
-              <span className="font-medium">Campanhas</span>
-            </Link>
+            {hasPermission(user, 'inbox:view') && (
+              <Link
+                href="/inbox"
+                onClick={() => setIsMenuOpen(false)}
+                className="flex items-center justify-between px-4 py-3 text-gray-300 hover:text-[#00ff88] hover:bg-white/5 rounded-xl transition"
+              >
+                <div className="flex items-center gap-3">
+                  <MessageSquare size={18} />
+                  <span className="font-medium">Inbox</span>
+                </div>
+                {unreadCount > 0 && (
+                  <span className="bg-[#00ff88] text-black text-[10px] font-bold rounded-full px-2 py-0.5">
+                    {unreadCount} novo
+                  </span>
+                )}
+              </Link>
+            )}
+            {hasPermission(user, 'workflows:view') && (
+              <Link
+                href="/tags"
+                onClick={() => setIsMenuOpen(false)}
+                className="flex items-center gap-3 px-4 py-3 text-gray-300 hover:text-[#00ff88] hover:bg-white/5 rounded-xl transition"
+              >
+                <Tag size={18} />
+                <span className="font-medium">Tags do Sistema</span>
+              </Link>
+            )}
+            {hasPermission(user, 'inbox:view') && (
+              <Link
+                href="/contacts"
+                onClick={() => setIsMenuOpen(false)}
+                className="flex items-center gap-3 px-4 py-3 text-gray-300 hover:text-[#00ff88] hover:bg-white/5 rounded-xl transition"
+              >
+                <Contact size={18} />
+                <span className="font-medium">Contatos</span>
+              </Link>
+            )}
+            {isAdmin(user?.role) && (
+              <Link
+                href="/settings/roles"
+                onClick={() => setIsMenuOpen(false)}
+                className="flex items-center gap-3 px-4 py-3 text-gray-300 hover:text-[#00ff88] hover:bg-white/5 rounded-xl transition"
+              >
+                <UserCog size={18} />
+                <span className="font-medium">Perfis de Acesso</span>
+              </Link>
+            )}
+            {isAdmin(user?.role) && (
+              <Link
+                href="/settings/audit"
+                onClick={() => setIsMenuOpen(false)}
+                className="flex items-center gap-3 px-4 py-3 text-gray-300 hover:text-[#00ff88] hover:bg-white/5 rounded-xl transition"
+              >
+                <History size={18} />
+                <span className="font-medium">Auditoria</span>
+              </Link>
+            )}
+            {isAdmin(user?.role) && (
+              <Link
+                href="/settings/api-keys"
+                onClick={() => setIsMenuOpen(false)}
+                className="flex items-center gap-3 px-4 py-3 text-gray-300 hover:text-[#00ff88] hover:bg-white/5 rounded-xl transition"
+              >
+                <KeyRound size={18} />
+                <span className="font-medium">Chaves de API</span>
+              </Link>
+            )}
+            {hasPermission(user, 'campaigns:view') && (
+              <Link
+                href="/campaigns/simple"
+                onClick={() => setIsMenuOpen(false)}
+                className="flex items-center gap-3 px-4 py-3 text-gray-300 hover:text-[#00ff88] hover:bg-white/5 rounded-xl transition"
+              >
+                <Megaphone size={18} />
+                <span className="font-medium">Campanhas</span>
+              </Link>
+            )}
             <Link
               href="/products"
               onClick={() => setIsMenuOpen(false)}
@@ -311,6 +424,14 @@ export default function AppHeader() {
                 <Key size={18} />
                 <span className="font-medium">APIs Externas</span>
               </Link>
+              <Link
+                href="/settings/credentials"
+                onClick={() => setIsMenuOpen(false)}
+                className="flex items-center gap-3 px-4 py-3 text-gray-300 hover:text-white hover:bg-white/5 rounded-xl transition"
+              >
+                <Lock size={18} />
+                <span className="font-medium">Credenciais</span>
+              </Link>
               <Link
                 href="/settings/whatsapp"
                 onClick={() => setIsMenuOpen(false)}
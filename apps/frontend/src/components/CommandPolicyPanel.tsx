@@ -0,0 +1,192 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Terminal, Plus, X, RefreshCw } from 'lucide-react'
+import { apiClient } from '@/lib/api-client'
+
+interface CommandPolicy {
+  tenantId: string
+  enabled: boolean
+  allowedBinaries: string[]
+  updatedAt: string | null
+}
+
+interface CommandAuditLog {
+  id: string
+  workflowId?: string
+  nodeId?: string
+  userId?: string
+  binary: string
+  args: string[]
+  status: 'EXECUTED' | 'FAILED' | 'DENIED'
+  exitCode?: number
+  durationMs?: number
+  error?: string
+  createdAt: string
+}
+
+const statusStyles: Record<string, string> = {
+  EXECUTED: 'bg-green-500/10 text-green-300 border-green-500/30',
+  FAILED: 'bg-amber-500/10 text-amber-300 border-amber-500/30',
+  DENIED: 'bg-red-500/10 text-red-300 border-red-500/30',
+}
+
+/** Super admin panel: COMMAND node policy and audit log for one workspace */
+export default function CommandPolicyPanel({ tenantId }: { tenantId: string }) {
+  const [policy, setPolicy] = useState<CommandPolicy | null>(null)
+  const [logs, setLogs] = useState<CommandAuditLog[]>([])
+  const [newBinary, setNewBinary] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const load = async () => {
+    try {
+      const [policyData, logsData] = await Promise.all([
+        apiClient.getCommandPolicy(tenantId),
+        apiClient.getCommandAuditLogs(tenantId, { limit: 100 }),
+      ])
+      setPolicy(policyData)
+      setLogs(logsData || [])
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Erro ao carregar política de comandos')
+    }
+  }
+
+  useEffect(() => {
+    if (tenantId) load()
+  }, [tenantId])
+
+  const save = async (updates: { enabled?: boolean; allowedBinaries?: string[] }) => {
+    try {
+      setSaving(true)
+      setError('')
+      const updated = await apiClient.updateCommandPolicy(tenantId, updates)
+      setPolicy(updated)
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Erro ao salvar política')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addBinary = () => {
+    const binary = newBinary.trim()
+    if (!binary || !policy || policy.allowedBinaries.includes(binary)) return
+    save({ allowedBinaries: [...policy.allowedBinaries, binary] })
+    setNewBinary('')
+  }
+
+  if (!policy) {
+    return (
+      <div className="bg-[#151515] border border-gray-800 rounded-lg p-6 text-gray-400 text-sm">
+        {error || 'Carregando...'}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-[#151515] border border-gray-800 rounded-lg p-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Terminal className="text-primary" size={22} />
+            <div>
+              <h2 className="text-xl font-bold">Node de Comando</h2>
+              <p className="text-sm text-gray-400">Executa apenas binários da lista abaixo, sem shell.</p>
+            </div>
+          </div>
+          <button
+            onClick={() => save({ enabled: !policy.enabled })}
+            disabled={saving}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold transition ${policy.enabled
+              ? 'bg-green-600 hover:bg-green-700 text-white'
+              : 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+              }`}
+          >
+            {policy.enabled ? 'Habilitado' : 'Desabilitado'}
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div>
+          <label className="block text-sm font-medium mb-2 text-gray-200">Binários permitidos</label>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {policy.allowedBinaries.length === 0 && (
+              <span className="text-xs text-gray-500">Nenhum binário permitido</span>
+            )}
+            {policy.allowedBinaries.map(binary => (
+              <span key={binary} className="flex items-center gap-1 px-2 py-1 bg-[#0a0a0a] border border-gray-700 rounded text-xs font-mono text-white">
+                {binary}
+                <button
+                  onClick={() => save({ allowedBinaries: policy.allowedBinaries.filter(b => b !== binary) })}
+                  className="text-gray-500 hover:text-red-400"
+                  disabled={saving}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newBinary}
+              onChange={e => setNewBinary(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && addBinary()}
+              placeholder="curl ou /usr/bin/curl"
+              className="flex-1 px-3 py-2 bg-[#0a0a0a] border border-gray-700 rounded text-sm text-white font-mono focus:outline-none focus:border-primary"
+            />
+            <button
+              onClick={addBinary}
+              disabled={saving || !newBinary.trim()}
+              className="px-3 py-2 bg-primary text-black rounded text-sm font-semibold disabled:opacity-50 flex items-center gap-1"
+            >
+              <Plus size={14} /> Adicionar
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-[#151515] border border-gray-800 rounded-lg overflow-hidden">
+        <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+          <h2 className="text-lg font-bold">Auditoria</h2>
+          <button onClick={load} className="text-gray-400 hover:text-white" title="Atualizar">
+            <RefreshCw size={16} />
+          </button>
+        </div>
+        {logs.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">Nenhuma execução registrada.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-[#0a0a0a] text-gray-400 text-xs uppercase">
+              <tr>
+                <th className="text-left px-4 py-2">Data</th>
+                <th className="text-left px-4 py-2">Status</th>
+                <th className="text-left px-4 py-2">Comando</th>
+                <th className="text-left px-4 py-2">Workflow</th>
+                <th className="text-left px-4 py-2">Usuário</th>
+              </tr>
+            </thead>
+            <tbody>
+              {logs.map(log => (
+                <tr key={log.id} className="border-t border-gray-800 align-top">
+                  <td className="px-4 py-2 text-gray-400 whitespace-nowrap">{new Date(log.createdAt).toLocaleString('pt-BR')}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded border text-xs ${statusStyles[log.status] || ''}`}>{log.status}</span>
+                  </td>
+                  <td className="px-4 py-2 font-mono text-xs text-white">
+                    {[log.binary, ...(log.args || [])].join(' ')}
+                    {log.error && <div className="text-red-400 mt-1">{log.error}</div>}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-400 font-mono">{log.workflowId || '-'}</td>
+                  <td className="px-4 py-2 text-xs text-gray-400 font-mono">{log.userId || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
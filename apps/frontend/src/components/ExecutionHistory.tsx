@@ -56,6 +56,8 @@ export default function ExecutionHistory({
         return 'text-blue-500'
       case 'WAITING':
         return 'text-yellow-500'
+      case 'PAUSED':
+        return 'text-purple-400'
       case 'ERROR':
         return 'text-red-500'
       case 'EXPIRED':
@@ -132,6 +134,12 @@ export default function ExecutionHistory({
                       <span className="text-gray-500">Sessão:</span>
                       <span className="font-mono">{execution.sessionId?.substring(0, 8) || 'N/A'}...</span>
                     </div>
+                    {execution.workflowVersion && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500">Versão:</span>
+                        <span className="font-mono">v{execution.workflowVersion}</span>
+                      </div>
+                    )}
                   </div>
 
                   <div className="mt-2 text-xs text-gray-500 group-hover:text-primary transition">
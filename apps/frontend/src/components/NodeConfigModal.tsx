@@ -951,6 +951,39 @@ function PixRecognitionConfig({ config, setConfig }: any) {
   )
 }
 
+// Vault credential picker: nodes keep only the credential id, never the secret
+function CredentialSelect({ type, value, onChange, emptyLabel, className }: {
+  type: string
+  value?: string
+  onChange: (credentialId: string | undefined) => void
+  emptyLabel: string
+  className: string
+}) {
+  const [credentials, setCredentials] = useState<any[]>([])
+
+  useEffect(() => {
+    apiClient.getCredentials(type)
+      .then((data: any[]) => setCredentials(data || []))
+      .catch((err: any) => console.error('Error loading credentials:', err))
+  }, [type])
+
+  return (
+    <select
+      value={value || ''}
+      onChange={e => onChange(e.target.value || undefined)}
+      className={className}
+    >
+      <option value="">{emptyLabel}</option>
+      {value && !credentials.some(c => c.id === value) && (
+        <option value={value}>Credencial indisponível</option>
+      )}
+      {credentials.map(c => (
+        <option key={c.id} value={c.id}>{c.name} {c.hint ? `(${c.hint})` : ''}</option>
+      ))}
+    </select>
+  )
+}
+
 function AiOcrPixConfig({ config, setConfig }: any) {
   const saveAs = config.saveResponseAs || 'pixResult'
   const valueRules: any[] = config.valueRules || []
@@ -1059,6 +1092,23 @@ function AiOcrPixConfig({ config, setConfig }: any) {
         <p className="text-[10px] text-gray-500 mt-1">Exibindo apenas modelos com suporte a Imagens e PDF.</p>
       </div>
 
+      {/* Chave OpenRouter */}
+      <div>
+        <div className="flex justify-between items-center mb-1.5">
+          <label className="block text-xs font-medium text-gray-400">🔑 Chave OpenRouter</label>
+          <a href="/settings/credentials" target="_blank" rel="noopener noreferrer" className="text-[10px] text-indigo-400 hover:underline">
+            Gerenciar credenciais →
+          </a>
+        </div>
+        <CredentialSelect
+          type="openrouter"
+          value={config.credentialId}
+          onChange={credentialId => setConfig((prev: any) => ({ ...prev, credentialId, apiKey: undefined }))}
+          emptyLabel="Usar a chave das APIs Externas do workspace"
+          className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white"
+        />
+      </div>
+
       {/* Salvar como */}
       <div>
         <label className="block text-xs font-medium mb-1.5 text-gray-400">Salvar resultado como (Variável)</label>
@@ -1222,13 +1272,13 @@ function AiOcrPixConfig({ config, setConfig }: any) {
               </select>
             </div>
             <div>
-              <label className="block text-xs font-medium mb-1 text-gray-400">API Key do Fallback (opcional)</label>
-              <input
-                type="password"
-                value={config.fallbackApiKey || ''}
-                onChange={e => setConfig((prev: any) => ({ ...prev, fallbackApiKey: e.target.value }))}
-                placeholder="Deixe vazio para usar a mesma key do workspace"
-                className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white placeholder-gray-500 font-mono"
+              <label className="block text-xs font-medium mb-1 text-gray-400">Chave do Fallback (opcional)</label>
+              <CredentialSelect
+                type="openrouter"
+                value={config.fallbackCredentialId}
+                onChange={fallbackCredentialId => setConfig((prev: any) => ({ ...prev, fallbackCredentialId, fallbackApiKey: undefined }))}
+                emptyLabel="Usar a mesma key do workspace"
+                className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white"
               />
             </div>
           </div>
@@ -2137,6 +2187,107 @@ function EnqueteGrupoConfig({ config, setConfig }: any) {
   );
 }
 
+function WaitPollVoteConfig({ config, setConfig }: any) {
+  const addOption = () => {
+    const opcoes = [...(config.opcoes || []), ''];
+    setConfig({ ...config, opcoes });
+  };
+
+  const updateOption = (index: number, value: string) => {
+    const opcoes = [...(config.opcoes || [])];
+    opcoes[index] = value;
+    setConfig({ ...config, opcoes });
+  };
+
+  const removeOption = (index: number) => {
+    const opcoes = (config.opcoes || []).filter((_: any, i: number) => i !== index);
+    setConfig({ ...config, opcoes });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-1.5 text-gray-200">🗳️ Pergunta da Enquete</label>
+        <input
+          type="text"
+          value={config.pergunta || ''}
+          onChange={(e) => setConfig({ ...config, pergunta: e.target.value })}
+          placeholder="Ex: Qual horário prefere?"
+          className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-200">🔘 Opções</label>
+        {(config.opcoes || []).map((opt: string, i: number) => (
+          <div key={i} className="flex gap-2">
+            <input
+              type="text"
+              value={opt}
+              onChange={(e) => updateOption(i, e.target.value)}
+              className="flex-1 px-3 py-2 bg-[#151515] border border-gray-700 rounded text-sm text-white"
+            />
+            <button onClick={() => removeOption(i)} className="p-2 text-red-500 hover:bg-red-500/10 rounded">✕</button>
+          </div>
+        ))}
+        <button
+          onClick={addOption}
+          className="w-full py-2 border border-dashed border-gray-600 rounded text-xs text-gray-400 hover:border-primary hover:text-primary transition-colors"
+        >
+          + Adicionar Opção
+        </button>
+        <p className="text-xs text-gray-500">
+          Cada opção tem sua própria saída. O contato também pode responder digitando o número ou o texto da opção.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between p-3 bg-[#151515] border border-gray-700 rounded-lg">
+        <span className="text-xs text-gray-300">Múltipla escolha? (segue pela primeira opção marcada)</span>
+        <button
+          onClick={() => setConfig({ ...config, multiplas: !config.multiplas })}
+          className={`w-9 h-5 rounded-full relative ${config.multiplas ? 'bg-primary' : 'bg-gray-600'}`}
+        >
+          <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${config.multiplas ? 'left-4.5' : 'left-0.5'}`} />
+        </button>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1.5 text-gray-200">Salvar voto em</label>
+        <input
+          type="text"
+          value={config.saveAs || ''}
+          onChange={(e) => setConfig({ ...config, saveAs: e.target.value })}
+          placeholder="Exemplo: opcaoEscolhida"
+          className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white placeholder-gray-500"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1.5 text-gray-200">Tempo de Espera</label>
+        <div className="flex gap-3">
+          <input
+            type="number"
+            value={config.timeoutAmount || 5}
+            onChange={(e) => setConfig({ ...config, timeoutAmount: parseInt(e.target.value) || 1 })}
+            min="1"
+            className="flex-1 px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white"
+          />
+          <select
+            value={config.timeoutUnit || 'minutes'}
+            onChange={(e) => setConfig({ ...config, timeoutUnit: e.target.value })}
+            className="px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white"
+          >
+            <option value="seconds">Segundos</option>
+            <option value="minutes">Minutos</option>
+            <option value="hours">Horas</option>
+            <option value="days">Dias</option>
+          </select>
+        </div>
+        <p className="text-xs text-gray-500 mt-1.5">Sem voto nesse prazo, o fluxo segue pela saída timeout</p>
+      </div>
+    </div>
+  );
+}
 
 function PromoMLApiConfig({ config, setConfig }: any) {
   const [activeTab, setActiveTab] = useState<'params' | 'filters' | 'message'>('params');
@@ -2761,14 +2912,19 @@ function PixelEventConfig({ config, setConfig }: any) {
               />
             </div>
             <div>
-              <label className="block text-[10px] font-black text-gray-500 uppercase tracking-widest mb-2 px-1">
-                Access Token Manual
-              </label>
-              <input
-                type="password"
-                value={config.accessToken || ''}
-                onChange={(e) => setConfig({ ...config, accessToken: e.target.value })}
-                placeholder="EAAB..."
+              <div className="flex justify-between items-center mb-2 px-1">
+                <label className="block text-[10px] font-black text-gray-500 uppercase tracking-widest">
+                  Access Token
+                </label>
+                <a href="/settings/credentials" target="_blank" className="text-[10px] text-primary font-bold hover:underline flex items-center gap-1">
+                  Credenciais <ExternalLink size={10} />
+                </a>
+              </div>
+              <CredentialSelect
+                type="meta_pixel"
+                value={config.credentialId}
+                onChange={(credentialId) => setConfig({ ...config, credentialId, accessToken: undefined })}
+                emptyLabel="Selecione uma credencial"
                 className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded-xl focus:border-primary text-white text-sm outline-none transition-all"
               />
             </div>
@@ -3106,6 +3262,296 @@ function SequenciaLancamentoConfig({ config, setConfig, tenantId, node, workflow
   );
 }
 
+// Component for TRIGGER_CALL configuration
+function CallTriggerConfig({ config, setConfig, sessions, loading }: any) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-2 text-gray-200">Sessão WhatsApp</label>
+        <select
+          value={config.sessionId || ''}
+          onChange={(e) => setConfig({ ...config, sessionId: e.target.value })}
+          className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white"
+          disabled={loading}
+        >
+          <option value="">Todas as Sessões</option>
+          {sessions.map((s: any) => (
+            <option key={s.id} value={s.id}>{s.name} ({s.phoneNumber})</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2 text-gray-200">Tipo de chamada</label>
+        <select
+          value={config.callType || 'any'}
+          onChange={(e) => setConfig({ ...config, callType: e.target.value })}
+          className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white"
+        >
+          <option value="any">Voz ou vídeo</option>
+          <option value="voice">Somente voz</option>
+          <option value="video">Somente vídeo</option>
+        </select>
+        <p className="text-xs text-gray-500 mt-1.5">
+          Recusar a chamada é configurado na sessão. Variáveis: {'{{variables.call.isVideo}}'} e {'{{variables.call.rejected}}'}
+        </p>
+      </div>
+    </div>
+  )
+}
+
+// Component for TRIGGER_GROUP_JOIN / TRIGGER_GROUP_LEAVE configuration
+function GroupParticipantTriggerConfig({ config, setConfig, sessions, loading, isJoin }: any) {
+  const [groups, setGroups] = useState<any[]>([])
+  const [loadingGroups, setLoadingGroups] = useState(false)
+
+  useEffect(() => {
+    if (!config.sessionId) {
+      setGroups([])
+      return
+    }
+    setLoadingGroups(true)
+    apiClient.getGroupConfigs(config.sessionId)
+      .then((data) => setGroups(Array.isArray(data) ? data : []))
+      .catch((error) => console.error('Error loading groups:', error))
+      .finally(() => setLoadingGroups(false))
+  }, [config.sessionId])
+
+  const selected: string[] = config.groupJids || []
+  const toggleGroup = (groupJid: string) => {
+    const groupJids = selected.includes(groupJid)
+      ? selected.filter((jid) => jid !== groupJid)
+      : [...selected, groupJid]
+    setConfig({ ...config, groupJids })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-2 text-gray-200">Sessão WhatsApp</label>
+        <select
+          value={config.sessionId || ''}
+          onChange={(e) => setConfig({ ...config, sessionId: e.target.value, groupJids: [] })}
+          className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white"
+          disabled={loading}
+        >
+          <option value="">Todas as Sessões</option>
+          {sessions.map((s: any) => (
+            <option key={s.id} value={s.id}>{s.name} ({s.phoneNumber})</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2 text-gray-200">Grupos</label>
+        {!config.sessionId ? (
+          <p className="text-xs text-gray-500">Todos os grupos com o bot ativo. Selecione uma sessão para escolher grupos específicos.</p>
+        ) : loadingGroups ? (
+          <p className="text-xs text-gray-500">Carregando grupos...</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto space-y-1 p-2 bg-[#151515] border border-gray-700 rounded">
+            {groups.length === 0 && <p className="text-xs text-gray-500">Nenhum grupo sincronizado</p>}
+            {groups.map((group: any) => (
+              <label key={group.groupId} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(group.groupId)}
+                  onChange={() => toggleGroup(group.groupId)}
+                />
+                {group.name || group.groupId}
+              </label>
+            ))}
+          </div>
+        )}
+        {config.sessionId && selected.length === 0 && !loadingGroups && (
+          <p className="text-xs text-gray-500 mt-1.5">Nenhum selecionado: vale para todos os grupos com o bot ativo</p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2 text-gray-200">Executar fluxo</label>
+        <select
+          value={config.target || 'dm'}
+          onChange={(e) => setConfig({ ...config, target: e.target.value })}
+          className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white"
+        >
+          <option value="dm">No privado de cada participante</option>
+          <option value="group">Uma vez no grupo</option>
+        </select>
+        <p className="text-xs text-gray-500 mt-1.5">
+          {config.target === 'group'
+            ? 'Variáveis: {{variables.groupName}} e {{variables.groupParticipants}}'
+            : 'Variáveis: {{variables.groupParticipant.groupName}} e {{variables.groupParticipant.phone}}'}
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2 text-gray-200">Agrupar eventos por (segundos)</label>
+        <input
+          type="number"
+          min="0"
+          value={config.debounceSeconds ?? 10}
+          onChange={(e) => setConfig({ ...config, debounceSeconds: Math.max(0, parseInt(e.target.value) || 0) })}
+          className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white"
+        />
+        <p className="text-xs text-gray-500 mt-1.5">
+          {isJoin
+            ? 'Quem entrar nesse intervalo recebe uma única boas-vindas, evitando spam em entradas em massa'
+            : 'Saídas nesse intervalo são tratadas juntas'}
+        </p>
+      </div>
+    </div>
+  )
+}
+
+// Component for TRIGGER_WEBHOOK configuration
+function TriggerWebhookConfig({ config, setConfig, sessions, loading, node, workflowId }: any) {
+  const [secret, setSecret] = useState<string>('')
+  const [showSecret, setShowSecret] = useState(false)
+  const [loadingSecret, setLoadingSecret] = useState(false)
+  const [copied, setCopied] = useState<'url' | 'secret' | null>(null)
+
+  const API_URL = (process.env.NEXT_PUBLIC_API_URL || '').replace(/\/$/, '')
+  const hookUrl = workflowId && node?.id ? `${API_URL}/api/hooks/${workflowId}/${node.id}` : ''
+
+  useEffect(() => {
+    if (!workflowId) return
+    const loadSecret = async () => {
+      try {
+        setLoadingSecret(true)
+        const data = await apiClient.getWorkflowWebhookSecret(workflowId)
+        setSecret(data?.secret || '')
+      } catch (error) {
+        console.error('Error loading webhook secret:', error)
+      } finally {
+        setLoadingSecret(false)
+      }
+    }
+    loadSecret()
+  }, [workflowId])
+
+  const rotateSecret = async () => {
+    if (!workflowId) return
+    if (secret && !confirm('Gerar um novo segredo? Integrações usando o segredo atual deixarão de funcionar.')) return
+    try {
+      setLoadingSecret(true)
+      const data = await apiClient.rotateWorkflowWebhookSecret(workflowId)
+      setSecret(data?.secret || '')
+      setShowSecret(true)
+    } catch (error) {
+      console.error('Error rotating webhook secret:', error)
+    } finally {
+      setLoadingSecret(false)
+    }
+  }
+
+  const copy = (value: string, field: 'url' | 'secret') => {
+    navigator.clipboard.writeText(value)
+    setCopied(field)
+    setTimeout(() => setCopied(null), 1500)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-2 text-gray-200">URL do Webhook</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            readOnly
+            value={hookUrl || 'Salve o fluxo para gerar a URL'}
+            className="flex-1 px-4 py-2.5 bg-[#151515] border border-gray-700 rounded text-gray-300 font-mono text-xs"
+          />
+          <button
+            onClick={() => hookUrl && copy(hookUrl, 'url')}
+            disabled={!hookUrl}
+            className="px-3 py-2 bg-[#151515] border border-gray-700 rounded text-xs text-gray-300 hover:border-primary disabled:opacity-50"
+          >
+            {copied === 'url' ? '✓' : 'Copiar'}
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2 text-gray-200">Segredo HMAC</label>
+        <div className="flex gap-2">
+          <input
+            type={showSecret ? 'text' : 'password'}
+            readOnly
+            value={loadingSecret ? '' : secret}
+            placeholder={loadingSecret ? 'Carregando...' : 'Gerado ao publicar o fluxo'}
+            className="flex-1 px-4 py-2.5 bg-[#151515] border border-gray-700 rounded text-gray-300 font-mono text-xs"
+          />
+          <button
+            onClick={() => setShowSecret(!showSecret)}
+            className="px-3 py-2 bg-[#151515] border border-gray-700 rounded text-xs text-gray-300 hover:border-primary"
+          >
+            {showSecret ? 'Ocultar' : 'Mostrar'}
+          </button>
+          <button
+            onClick={() => secret && copy(secret, 'secret')}
+            disabled={!secret}
+            className="px-3 py-2 bg-[#151515] border border-gray-700 rounded text-xs text-gray-300 hover:border-primary disabled:opacity-50"
+          >
+            {copied === 'secret' ? '✓' : 'Copiar'}
+          </button>
+        </div>
+        <button
+          onClick={rotateSecret}
+          disabled={!workflowId || loadingSecret}
+          className="mt-2 text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+        >
+          {secret ? '🔄 Gerar novo segredo' : '🔑 Gerar segredo'}
+        </button>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2 text-gray-200">Sessão WhatsApp</label>
+        <select
+          value={config.sessionId || ''}
+          onChange={(e) => setConfig({ ...config, sessionId: e.target.value })}
+          className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white"
+          disabled={loading}
+        >
+          <option value="">Primeira sessão conectada</option>
+          {sessions.map((s: any) => (
+            <option key={s.id} value={s.id}>{s.name} ({s.phoneNumber})</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2 text-gray-200">Caminho do Telefone no JSON</label>
+        <input
+          type="text"
+          value={config.phonePath || ''}
+          onChange={(e) => setConfig({ ...config, phonePath: e.target.value })}
+          placeholder="customer.phone"
+          className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white font-mono text-sm"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2 text-gray-200">Caminho do Nome (opcional)</label>
+        <input
+          type="text"
+          value={config.contactNamePath || ''}
+          onChange={(e) => setConfig({ ...config, contactNamePath: e.target.value })}
+          placeholder="customer.name"
+          className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white font-mono text-sm"
+        />
+      </div>
+
+      <div className="border rounded-lg p-3 bg-cyan-500/10 border-cyan-500/30">
+        <p className="text-xs leading-relaxed text-cyan-300">
+          💡 <strong>Assinatura:</strong> envie os headers <code>x-timestamp</code> (segundos UNIX) e <code>x-hmac-signature</code> = HMAC-SHA256 hex de <code>{'{timestamp}.{corpo}'}</code> usando o segredo acima.
+          O corpo JSON fica disponível em <code>{'{{input.*}}'}</code> e <code>{'{{variables.webhook.*}}'}</code>. O fluxo precisa estar ativo.
+        </p>
+      </div>
+    </div>
+  )
+}
+
 function ScheduleTriggerConfig({ config, setConfig, sessions, loading }: any) {
   const scheduleModes = [
     { id: 'datetime', label: '📅 Data e Hora Específica', desc: 'Executar uma vez em data e hora específica' },
@@ -3204,6 +3650,41 @@ function ScheduleTriggerConfig({ config, setConfig, sessions, loading }: any) {
     { label: 'Qua', val: 3 }, { label: 'Qui', val: 4 }, { label: 'Sex', val: 5 }, { label: 'Sáb', val: 6 }
   ];
 
+  const timezones = [
+    'America/Sao_Paulo', 'America/Manaus', 'America/Cuiaba', 'America/Belem', 'America/Fortaleza',
+    'America/Recife', 'America/Noronha', 'America/Rio_Branco', 'America/Argentina/Buenos_Aires',
+    'America/Santiago', 'America/Bogota', 'America/Mexico_City', 'America/New_York', 'Europe/Lisbon',
+    'Europe/Madrid', 'Europe/London', 'UTC'
+  ];
+  const timezone = config.timezone || 'America/Sao_Paulo';
+
+  const [nextRuns, setNextRuns] = useState<string[]>([]);
+  const [previewError, setPreviewError] = useState('');
+
+  // Ask the backend for the next run times whenever the schedule changes
+  useEffect(() => {
+    if (!config.cronExpression && !config.intervalMinutes) {
+      setNextRuns([]);
+      return;
+    }
+    const handle = setTimeout(async () => {
+      try {
+        const data = await apiClient.previewSchedule({
+          scheduleType: config.scheduleType || 'cron',
+          cronExpression: config.cronExpression,
+          intervalMinutes: config.intervalMinutes,
+          timezone,
+        });
+        setNextRuns(data?.runs || []);
+        setPreviewError('');
+      } catch (error: any) {
+        setNextRuns([]);
+        setPreviewError(error?.response?.data?.message || 'Agendamento inválido');
+      }
+    }, 400);
+    return () => clearTimeout(handle);
+  }, [config.scheduleType, config.cronExpression, config.intervalMinutes, timezone]);
+
   return (
     <div className="space-y-6">
       {/* Session Selection */}
@@ -3226,6 +3707,23 @@ function ScheduleTriggerConfig({ config, setConfig, sessions, loading }: any) {
         </select>
       </div>
 
+      {/* Timezone */}
+      <div>
+        <label className="block text-sm font-medium mb-2 text-gray-200">
+          Fuso Horário
+        </label>
+        <select
+          value={timezone}
+          onChange={(e) => updateField('timezone', e.target.value)}
+          className="w-full px-4 py-2 bg-[#151515] border border-gray-700 rounded-lg focus:outline-none focus:ring-1 focus:ring-primary text-sm text-white"
+        >
+          {!timezones.includes(timezone) && <option value={timezone}>{timezone}</option>}
+          {timezones.map(tz => (
+            <option key={tz} value={tz}>{tz}</option>
+          ))}
+        </select>
+      </div>
+
       {/* Mode Selector */}
       <div className="bg-[#151515] p-1 rounded-lg border border-gray-800 flex flex-col gap-1">
         {scheduleModes.map(m => (
@@ -3321,6 +3819,24 @@ function ScheduleTriggerConfig({ config, setConfig, sessions, loading }: any) {
           <code className="text-xs text-white font-mono bg-black/40 px-2 py-0.5 rounded">{config.cronExpression || '* * * * *'}</code>
         </div>
       </div>
+
+      {/* Next Runs */}
+      <div className="p-3 bg-[#151515] border border-gray-800 rounded-lg">
+        <p className="text-xs text-gray-400 font-semibold uppercase tracking-widest mb-2">Próximas Execuções</p>
+        {previewError ? (
+          <p className="text-xs text-red-400">{previewError}</p>
+        ) : nextRuns.length === 0 ? (
+          <p className="text-xs text-gray-500">Nenhuma execução prevista</p>
+        ) : (
+          <ul className="space-y-1">
+            {nextRuns.map(run => (
+              <li key={run} className="text-xs text-white font-mono">
+                {new Date(run).toLocaleString('pt-BR', { timeZone: timezone, dateStyle: 'short', timeStyle: 'short' })}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   );
 }
@@ -3785,6 +4301,243 @@ function LembreteRecorrenteConfig({ config, setConfig, tenantId, node, workflowI
 }
 
 // Editor de código Monaco (VS Code)
+function CallWorkflowConfig({ config, setConfig, tenantId, workflowId }: any) {
+  const [workflows, setWorkflows] = useState<any[]>([])
+  const [loadingWorkflows, setLoadingWorkflows] = useState(false)
+  const inputMappings: any[] = config.inputMappings || []
+
+  useEffect(() => {
+    const loadWorkflows = async () => {
+      try {
+        setLoadingWorkflows(true)
+        const data = await apiClient.getWorkflows(tenantId)
+        setWorkflows((data || []).filter((w: any) => w.id !== workflowId))
+      } catch (error) {
+        console.error('Error loading workflows:', error)
+      } finally {
+        setLoadingWorkflows(false)
+      }
+    }
+    loadWorkflows()
+  }, [tenantId, workflowId])
+
+  const selectWorkflow = (id: string) => {
+    const selected = workflows.find((w: any) => w.id === id)
+    setConfig((prev: any) => ({ ...prev, workflowId: id, workflowName: selected?.name || '' }))
+  }
+
+  const addMapping = () => {
+    setConfig((prev: any) => ({
+      ...prev,
+      inputMappings: [...(prev.inputMappings || []), { name: '', value: '' }],
+    }))
+  }
+
+  const removeMapping = (i: number) => {
+    setConfig((prev: any) => {
+      const next = [...(prev.inputMappings || [])]
+      next.splice(i, 1)
+      return { ...prev, inputMappings: next }
+    })
+  }
+
+  const updateMapping = (i: number, field: string, val: string) => {
+    setConfig((prev: any) => {
+      const next = [...(prev.inputMappings || [])]
+      next[i] = { ...next[i], [field]: val }
+      return { ...prev, inputMappings: next }
+    })
+  }
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <label className="block text-xs font-medium mb-1.5 text-gray-400">Fluxo a executar</label>
+        <select
+          value={config.workflowId || ''}
+          onChange={e => selectWorkflow(e.target.value)}
+          disabled={loadingWorkflows}
+          className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white"
+        >
+          <option value="">{loadingWorkflows ? 'Carregando...' : 'Selecione um fluxo'}</option>
+          {workflows.map((w: any) => (
+            <option key={w.id} value={w.id}>{w.name}</option>
+          ))}
+        </select>
+        <p className="text-[10px] text-gray-500 mt-1">
+          O sub-fluxo roda para o mesmo contato, inclusive aguardando respostas, e volta para cá quando chegar ao END.
+        </p>
+      </div>
+
+      <div className="bg-[#151515] border border-gray-700 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-white">📥 Variáveis de entrada</h3>
+          <button
+            type="button"
+            onClick={addMapping}
+            className="text-xs text-violet-400 hover:text-violet-300 border border-violet-400/30 rounded px-2 py-1 transition-colors"
+          >
+            + Adicionar variável
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {inputMappings.map((mapping: any, i: number) => (
+            <div key={i} className="flex items-center gap-2 bg-white/5 border border-white/10 rounded-lg p-2.5">
+              <input
+                value={mapping.name}
+                onChange={e => updateMapping(i, 'name', e.target.value)}
+                placeholder="nome"
+                className="w-28 bg-transparent border border-white/10 rounded px-2 py-1 text-xs text-gray-200 font-mono focus:outline-none focus:border-primary"
+              />
+              <span className="text-gray-500 text-xs shrink-0">←</span>
+              <input
+                value={mapping.value}
+                onChange={e => updateMapping(i, 'value', e.target.value)}
+                placeholder="{{variables.nome}}"
+                className="flex-1 bg-transparent border border-white/10 rounded px-2 py-1 text-xs text-gray-200 font-mono focus:outline-none focus:border-primary"
+              />
+              <button type="button" onClick={() => removeMapping(i)} className="text-red-400 hover:text-red-300 text-xs shrink-0">✕</button>
+            </div>
+          ))}
+          {inputMappings.length === 0 && (
+            <p className="text-xs text-gray-500">Nenhuma variável é enviada ao sub-fluxo.</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium mb-1.5 text-gray-400">Salvar retorno como (opcional)</label>
+        <input
+          type="text"
+          value={config.saveOutputAs || ''}
+          onChange={e => setConfig((prev: any) => ({ ...prev, saveOutputAs: e.target.value }))}
+          placeholder="subfluxo"
+          className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white placeholder-gray-500 font-mono"
+        />
+        <p className="text-[10px] text-gray-500 mt-1">
+          As variáveis de saída do END do sub-fluxo são mescladas nas variáveis deste fluxo, ou salvas dentro desta variável se preenchida.
+        </p>
+      </div>
+    </div>
+  )
+}
+
+// Component for UPDATE_CONTACT configuration
+function UpdateContactConfig({ config, setConfig }: any) {
+  const [fields, setFields] = useState<any[]>([])
+  const [loadingFields, setLoadingFields] = useState(false)
+  const mappings: any[] = config.fields || []
+
+  useEffect(() => {
+    const loadFields = async () => {
+      try {
+        setLoadingFields(true)
+        setFields(await apiClient.getContactFields())
+      } catch (error) {
+        console.error('Error loading contact fields:', error)
+      } finally {
+        setLoadingFields(false)
+      }
+    }
+    loadFields()
+  }, [])
+
+  const addMapping = () => {
+    setConfig((prev: any) => ({ ...prev, fields: [...(prev.fields || []), { key: '', value: '' }] }))
+  }
+
+  const removeMapping = (i: number) => {
+    setConfig((prev: any) => {
+      const next = [...(prev.fields || [])]
+      next.splice(i, 1)
+      return { ...prev, fields: next }
+    })
+  }
+
+  const updateMapping = (i: number, field: string, val: string) => {
+    setConfig((prev: any) => {
+      const next = [...(prev.fields || [])]
+      next[i] = { ...next[i], [field]: val }
+      return { ...prev, fields: next }
+    })
+  }
+
+  const placeholderFor = (key: string) => {
+    const field = fields.find((f: any) => f.key === key)
+    if (field?.type === 'number') return '10'
+    if (field?.type === 'date') return 'AAAA-MM-DD ou DD/MM/AAAA'
+    if (field?.type === 'select') return (field.options || []).join(' | ')
+    return '{{variables.resposta}}'
+  }
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <label className="block text-xs font-medium mb-1.5 text-gray-400">Nome (opcional)</label>
+        <input
+          type="text"
+          value={config.name || ''}
+          onChange={e => setConfig((prev: any) => ({ ...prev, name: e.target.value }))}
+          placeholder="{{variables.nome}}"
+          className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white placeholder-gray-500"
+        />
+        <p className="text-[10px] text-gray-500 mt-1">Vazio mantém o nome atual do contato.</p>
+      </div>
+
+      <div className="bg-[#151515] border border-gray-700 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-white">🗂️ Campos personalizados</h3>
+          <button
+            type="button"
+            onClick={addMapping}
+            className="text-xs text-purple-400 hover:text-purple-300 border border-purple-400/30 rounded px-2 py-1 transition-colors"
+          >
+            + Adicionar campo
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {mappings.map((mapping: any, i: number) => (
+            <div key={i} className="flex items-center gap-2 bg-white/5 border border-white/10 rounded-lg p-2.5">
+              <select
+                value={mapping.key}
+                onChange={e => updateMapping(i, 'key', e.target.value)}
+                className="w-36 bg-[#1a1a1a] border border-white/10 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-primary"
+              >
+                <option value="">{loadingFields ? 'Carregando...' : 'Campo'}</option>
+                {fields.map((f: any) => (
+                  <option key={f.id} value={f.key}>{f.label}</option>
+                ))}
+              </select>
+              <span className="text-gray-500 text-xs shrink-0">←</span>
+              <input
+                value={mapping.value}
+                onChange={e => updateMapping(i, 'value', e.target.value)}
+                placeholder={placeholderFor(mapping.key)}
+                className="flex-1 bg-transparent border border-white/10 rounded px-2 py-1 text-xs text-gray-200 font-mono focus:outline-none focus:border-primary"
+              />
+              <button type="button" onClick={() => removeMapping(i)} className="text-red-400 hover:text-red-300 text-xs shrink-0">✕</button>
+            </div>
+          ))}
+          {mappings.length === 0 && (
+            <p className="text-xs text-gray-500">
+              {fields.length === 0 && !loadingFields
+                ? 'Nenhum campo personalizado criado. Crie campos na página Contatos.'
+                : 'Nenhum campo será alterado.'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <p className="text-[10px] text-gray-500">
+        Use <code className="bg-white/10 px-1 rounded">{'{{contact.chave}}'}</code> em qualquer nó para ler os campos do contato.
+        Valor vazio limpa o campo; valores inválidos para o tipo do campo fazem o nó falhar.
+      </p>
+    </div>
+  )
+}
+
 function CodeEditor({ value, onChange, language = 'javascript' }: any) {
 
   const handleEditorChange = (newValue: string | undefined) => {
@@ -4352,6 +5105,7 @@ export default function NodeConfigModal({
   const [testingLoop, setTestingLoop] = useState(false)
   const [commandTestResult, setCommandTestResult] = useState<any>(null)
   const [testingCommand, setTestingCommand] = useState(false)
+  const [commandPolicy, setCommandPolicy] = useState<{ enabled: boolean; allowedBinaries: string[] } | null>(null)
   const [showCodeVarPicker, setShowCodeVarPicker] = useState(false)
   const [codeVarInput, setCodeVarInput] = useState('')
   const messageTextareaRef = useRef<HTMLTextAreaElement>(null)
@@ -4390,6 +5144,10 @@ export default function NodeConfigModal({
       if (node.type === WorkflowNodeType.TRIGGER_MESSAGE ||
         node.type === WorkflowNodeType.TRIGGER_SCHEDULE ||
         node.type === 'TRIGGER_MANUAL' ||
+        node.type === 'TRIGGER_WEBHOOK' ||
+        node.type === 'TRIGGER_GROUP_JOIN' ||
+        node.type === 'TRIGGER_GROUP_LEAVE' ||
+        node.type === 'TRIGGER_CALL' ||
         node.type === 'MANAGE_LABELS' ||
         node.type === WorkflowNodeType.SEND_MESSAGE ||
         node.type === WorkflowNodeType.SEND_MEDIA ||
@@ -4397,6 +5155,12 @@ export default function NodeConfigModal({
         node.type === WorkflowNodeType.SEND_LIST) {
         loadSessions()
       }
+
+      if (node.type === 'COMMAND') {
+        apiClient.getCommandPolicy(tenantId)
+          .then(setCommandPolicy)
+          .catch((error) => console.error('Error loading command policy:', error))
+      }
     }
   }, [node])
 
@@ -4501,6 +5265,9 @@ export default function NodeConfigModal({
       case WorkflowNodeType.ENQUETE_GRUPO:
         return <EnqueteGrupoConfig config={config} setConfig={setConfig} />
 
+      case WorkflowNodeType.WAIT_POLL_VOTE:
+        return <WaitPollVoteConfig config={config} setConfig={setConfig} />
+
       case WorkflowNodeType.SEQUENCIA_LANCAMENTO:
         return <SequenciaLancamentoConfig config={config} setConfig={setConfig} tenantId={tenantId} node={node} workflowId={workflowId} />
 
@@ -4617,6 +5384,40 @@ export default function NodeConfigModal({
         )
 
 
+      case 'TRIGGER_GROUP_JOIN':
+      case 'TRIGGER_GROUP_LEAVE':
+        return (
+          <GroupParticipantTriggerConfig
+            config={config}
+            setConfig={setConfig}
+            sessions={sessions}
+            loading={loading}
+            isJoin={node.type === 'TRIGGER_GROUP_JOIN'}
+          />
+        )
+
+      case 'TRIGGER_CALL':
+        return (
+          <CallTriggerConfig
+            config={config}
+            setConfig={setConfig}
+            sessions={sessions}
+            loading={loading}
+          />
+        )
+
+      case 'TRIGGER_WEBHOOK':
+        return (
+          <TriggerWebhookConfig
+            config={config}
+            setConfig={setConfig}
+            sessions={sessions}
+            loading={loading}
+            node={node}
+            workflowId={workflowId}
+          />
+        )
+
       case 'TRIGGER_SCHEDULE':
         return (
           <ScheduleTriggerConfig
@@ -5370,6 +6171,28 @@ export default function NodeConfigModal({
               </p>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium mb-2 text-gray-200">
+                Tipo de Resposta Esperada
+              </label>
+              <select
+                value={config.expectedType || 'any'}
+                onChange={(e) => setConfig({ ...config, expectedType: e.target.value })}
+                className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white"
+              >
+                <option value="any">Qualquer</option>
+                <option value="text">Texto</option>
+                <option value="media">Mídia (imagem, vídeo, áudio, documento)</option>
+                <option value="location">Localização</option>
+                <option value="contacts">Contato</option>
+                <option value="sticker">Figurinha</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1.5">
+                Respostas de outro tipo seguem pela saída &quot;Tipo errado&quot;; sem ela, são ignoradas e o nó continua aguardando.
+                Localização e contato são salvos como objeto (ex: {`{{${config.saveAs || 'resposta'}.latitude}}`}).
+              </p>
+            </div>
+
             <div>
               <label className="block text-sm font-medium mb-2 text-gray-200">
                 Tempo de Espera (Principal)
@@ -7524,6 +8347,64 @@ return produtos;`}
       case 'PIX_RECOGNITION':
         return <PixRecognitionConfig config={config} setConfig={setConfig} />
 
+      case 'CALL_WORKFLOW':
+        return <CallWorkflowConfig config={config} setConfig={setConfig} tenantId={tenantId} workflowId={workflowId} />
+
+      case 'UPDATE_CONTACT':
+        return <UpdateContactConfig config={config} setConfig={setConfig} />
+
+      case 'HANDOFF':
+        return (
+          <div className="space-y-5">
+            <div>
+              <label className="block text-xs font-medium mb-1.5 text-gray-400">Fila</label>
+              <input
+                type="text"
+                value={config.queue || ''}
+                onChange={e => setConfig({ ...config, queue: e.target.value })}
+                placeholder="suporte"
+                className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white placeholder-gray-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium mb-1.5 text-gray-400">Mensagem ao contato (opcional)</label>
+              <textarea
+                value={config.message || ''}
+                onChange={e => setConfig({ ...config, message: e.target.value })}
+                placeholder="Um atendente vai continuar seu atendimento em instantes."
+                rows={3}
+                className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white placeholder-gray-500"
+              />
+            </div>
+            <p className="text-[10px] text-gray-500">
+              A conversa vai para a fila no Inbox e o bot fica pausado até um atendente clicar em &quot;Devolver ao bot&quot;.
+              O fluxo continua pela saída deste nó, ou pelo nó escolhido na devolução.
+            </p>
+          </div>
+        )
+
+      case 'END':
+        return (
+          <div className="space-y-5">
+            <div>
+              <label className="block text-xs font-medium mb-1.5 text-gray-400">Variáveis de saída</label>
+              <input
+                type="text"
+                value={(config.outputVariables || []).join(', ')}
+                onChange={e => setConfig({
+                  ...config,
+                  outputVariables: e.target.value.split(',').map((v: string) => v.trim()),
+                })}
+                placeholder="pedido, total"
+                className="w-full px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded focus:outline-none focus:border-primary text-sm text-white placeholder-gray-500 font-mono"
+              />
+              <p className="text-[10px] text-gray-500 mt-1">
+                Separadas por vírgula. Quando este fluxo é chamado por um nó Sub-fluxo, estas variáveis voltam para o fluxo que chamou.
+              </p>
+            </div>
+          </div>
+        )
+
       case WorkflowNodeType.AI_OCR_PIX:
         return <AiOcrPixConfig config={config} setConfig={setConfig} />
 
@@ -7707,11 +8588,11 @@ return produtos;`}
             <div>
               <div className="flex items-center justify-between mb-2">
                 <label className="block text-sm font-medium text-gray-200">
-                  Comando
+                  Binário
                 </label>
                 <button
                   onClick={async () => {
-                    if (!config.command || !config.command.trim()) {
+                    if (!config.binary?.trim() && !config.command?.trim()) {
                       setCommandTestResult({ error: 'Por favor, insira um comando para testar' })
                       return
                     }
@@ -7810,18 +8691,82 @@ return produtos;`}
                   )}
                 </button>
               </div>
-              <textarea
-                value={config.command || ''}
-                onChange={(e) => setConfig({ ...config, command: e.target.value })}
-                placeholder="curl -X GET https://api.example.com/data"
-                rows={6}
-                className="w-full px-4 py-3 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary resize-none text-white placeholder-gray-500 font-mono text-sm"
+              {commandPolicy && !commandPolicy.enabled && (
+                <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 mb-3">
+                  <p className="text-xs text-red-300">
+                    O node de comando está desabilitado para este workspace. Peça a um super admin para habilitá-lo.
+                  </p>
+                </div>
+              )}
+              <input
+                type="text"
+                list="command-allowed-binaries"
+                value={config.binary || ''}
+                onChange={(e) => setConfig({ ...config, binary: e.target.value })}
+                placeholder="curl"
+                className="w-full px-4 py-2.5 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white placeholder-gray-500 font-mono text-sm"
               />
+              <datalist id="command-allowed-binaries">
+                {(commandPolicy?.allowedBinaries || []).map(binary => <option key={binary} value={binary} />)}
+              </datalist>
               <p className="text-xs text-gray-500 mt-1.5">
-                Cole o comando completo aqui. Suporta variáveis como <code className="px-1.5 py-0.5 bg-gray-800 rounded text-primary">{`{{variables.url}}`}</code>
+                Binários permitidos: {commandPolicy?.allowedBinaries?.length ? commandPolicy.allowedBinaries.join(', ') : 'nenhum'}
               </p>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium mb-2 text-gray-200">
+                Argumentos
+              </label>
+              <div className="space-y-2">
+                {(config.args || []).map((arg: string, index: number) => (
+                  <div key={index} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={arg}
+                      onChange={(e) => {
+                        const args = [...(config.args || [])]
+                        args[index] = e.target.value
+                        setConfig({ ...config, args })
+                      }}
+                      placeholder={index === 0 ? '-X' : '{{variables.url}}'}
+                      className="flex-1 px-3 py-2 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary text-white placeholder-gray-500 font-mono text-sm"
+                    />
+                    <button
+                      onClick={() => setConfig({ ...config, args: (config.args || []).filter((_: string, i: number) => i !== index) })}
+                      className="px-2 text-gray-500 hover:text-red-400"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setConfig({ ...config, args: [...(config.args || []), ''] })}
+                  className="px-3 py-1.5 bg-[#151515] border border-gray-700 hover:border-primary text-gray-300 text-xs rounded transition"
+                >
+                  + Adicionar argumento
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1.5">
+                Um argumento por campo, sem shell. Suporta variáveis como <code className="px-1.5 py-0.5 bg-gray-800 rounded text-primary">{`{{variables.url}}`}</code>
+              </p>
+
+              {config.command && !config.binary && (
+                <div className="mt-3">
+                  <label className="block text-xs font-medium mb-1 text-gray-400">Comando (formato legado)</label>
+                  <textarea
+                    value={config.command}
+                    onChange={(e) => setConfig({ ...config, command: e.target.value })}
+                    rows={3}
+                    className="w-full px-4 py-3 bg-[#151515] border border-gray-700 rounded focus:outline-none focus:border-primary resize-none text-white font-mono text-sm"
+                  />
+                  <p className="text-xs text-gray-500 mt-1.5">
+                    Será dividido em binário e argumentos. Operadores de shell (|, ;, &&, &gt;) não são suportados.
+                  </p>
+                </div>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm font-medium mb-2 text-gray-200">
                 Timeout (ms)
@@ -7841,7 +8786,7 @@ return produtos;`}
 
             <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3">
               <p className="text-xs text-yellow-300 leading-relaxed">
-                ⚠️ <strong>Atenção:</strong> Este node executa comandos do sistema. Use com cuidado e apenas comandos confiáveis.
+                ⚠️ <strong>Atenção:</strong> Este node executa comandos do sistema. Apenas binários liberados pelo super admin podem ser usados e toda execução é registrada em auditoria.
               </p>
             </div>
 
@@ -16,6 +16,16 @@ interface NodeExecutionPanelProps {
 
 type ViewMode = 'json' | 'table' | 'schema'
 
+/** Item/index variable names of the innermost active loop (frames live in `_loopStack`) */
+function getLoopVariableNames(variables: Record<string, any>) {
+  const stack = Array.isArray(variables?._loopStack) ? variables._loopStack : []
+  const frame = stack[stack.length - 1]
+  return {
+    itemVar: frame?.itemVariable || 'item',
+    indexVar: frame?.indexVariable || 'index',
+  }
+}
+
 export default function NodeExecutionPanel({
   node,
   executionId,
@@ -139,8 +149,7 @@ export default function NodeExecutionPanel({
         if (nodeType === 'LOOP') {
           // Get variables from context to find the current item
           const variables = eventData?.variables || eventData?.data?.variables || {}
-          const loopItemVar = variables._loopItemVariable || 'item'
-          const loopIndexVar = variables._loopIndexVariable || 'index'
+          const { itemVar: loopItemVar, indexVar: loopIndexVar } = getLoopVariableNames(variables)
           
           // Build result with item and index
           const result: Record<string, any> = {}
@@ -191,8 +200,7 @@ export default function NodeExecutionPanel({
       const variables = eventData?.variables || eventData?.data?.variables || {}
       
       // Extract loop variables (item, index) if we're inside a loop
-      const loopItemVar = variables._loopItemVariable || 'item'
-      const loopIndexVar = variables._loopIndexVariable || 'index'
+      const { itemVar: loopItemVar, indexVar: loopIndexVar } = getLoopVariableNames(variables)
       const loopVariables: Record<string, any> = {}
       
       if (variables[loopItemVar]) {
@@ -239,8 +247,7 @@ export default function NodeExecutionPanel({
     const contextVariables = context.variables || {}
     
     // Extract loop variables if inside loop
-    const loopItemVar = contextVariables._loopItemVariable || 'item'
-    const loopIndexVar = contextVariables._loopIndexVariable || 'index'
+    const { itemVar: loopItemVar, indexVar: loopIndexVar } = getLoopVariableNames(contextVariables)
     const loopVars: Record<string, any> = {}
     if (contextVariables[loopItemVar]) {
       loopVars[loopItemVar] = contextVariables[loopItemVar]
@@ -816,8 +823,7 @@ export default function NodeExecutionPanel({
       if (nodeType === 'LOOP') {
         // Get variables from context to find the current item
         const variables = eventData?.variables || eventData?.data?.variables || {}
-        const loopItemVar = variables._loopItemVariable || 'item'
-        const loopIndexVar = variables._loopIndexVariable || 'index'
+        const { itemVar: loopItemVar, indexVar: loopIndexVar } = getLoopVariableNames(variables)
         
         // Build result with item and index
         const result: Record<string, any> = {}
@@ -65,6 +65,42 @@ export default function NodesSidebar({ onAddNode, onClose, hasTrigger = false }:
         bgColor: 'bg-[#1e1b4b]',
         borderColor: 'border-[#6366f1]',
         description: 'Dispara em dias específicos após ativar no grupo'
+      },
+      {
+        type: 'TRIGGER_WEBHOOK' as WorkflowNodeType,
+        label: 'Webhook',
+        icon: '🔗',
+        color: 'from-cyan-500 to-cyan-600',
+        bgColor: 'bg-[#13282e]',
+        borderColor: 'border-[#2f7c8f]',
+        description: 'Dispara via requisição HTTP assinada (checkout, CRM)'
+      },
+      {
+        type: 'TRIGGER_GROUP_JOIN' as WorkflowNodeType,
+        label: 'Entrou no Grupo',
+        icon: '🙋',
+        color: 'from-indigo-500 to-indigo-600',
+        bgColor: 'bg-[#1e1b4b]',
+        borderColor: 'border-[#6366f1]',
+        description: 'Dispara quando alguém entra em um grupo'
+      },
+      {
+        type: 'TRIGGER_GROUP_LEAVE' as WorkflowNodeType,
+        label: 'Saiu do Grupo',
+        icon: '🚪',
+        color: 'from-indigo-500 to-indigo-600',
+        bgColor: 'bg-[#1e1b4b]',
+        borderColor: 'border-[#6366f1]',
+        description: 'Dispara quando alguém sai ou é removido de um grupo'
+      },
+      {
+        type: 'TRIGGER_CALL' as WorkflowNodeType,
+        label: 'Chamada Recebida',
+        icon: '📞',
+        color: 'from-indigo-500 to-indigo-600',
+        bgColor: 'bg-[#1e1b4b]',
+        borderColor: 'border-[#6366f1]',
+        description: 'Dispara quando alguém liga para o número'
       }
     ],
     ACTIONS: [
@@ -239,6 +275,15 @@ export default function NodesSidebar({ onAddNode, onClose, hasTrigger = false }:
         borderColor: 'border-[#6b3b7d]',
         description: 'Adiciona ou remove tags internas do contato'
       },
+      {
+        type: 'UPDATE_CONTACT' as WorkflowNodeType,
+        label: 'Atualizar Contato',
+        icon: '👤',
+        color: 'from-purple-500 to-purple-600',
+        bgColor: 'bg-[#2a1a2e]',
+        borderColor: 'border-[#6b3b7d]',
+        description: 'Atualiza o nome e os campos personalizados do contato'
+      },
       {
         type: 'MANAGE_LABELS' as WorkflowNodeType,
         label: 'Gerenciar Etiquetas',
@@ -257,6 +302,15 @@ export default function NodesSidebar({ onAddNode, onClose, hasTrigger = false }:
         borderColor: 'border-[#7d5d39]',
         description: 'Aguarda resposta do usuário'
       },
+      {
+        type: 'WAIT_POLL_VOTE' as WorkflowNodeType,
+        label: 'Aguardar Voto',
+        icon: '🗳️',
+        color: 'from-orange-500 to-orange-600',
+        bgColor: 'bg-[#2e2419]',
+        borderColor: 'border-[#7d5d39]',
+        description: 'Envia uma enquete e segue pela opção votada'
+      },
       {
         type: 'WAIT' as WorkflowNodeType,
         label: 'Aguardar Tempo',
@@ -275,6 +329,24 @@ export default function NodesSidebar({ onAddNode, onClose, hasTrigger = false }:
         borderColor: 'border-[#3b5d8d]',
         description: 'Itera sobre arrays ou executa N vezes'
       },
+      {
+        type: 'CALL_WORKFLOW' as WorkflowNodeType,
+        label: 'Sub-fluxo',
+        icon: '🧩',
+        color: 'from-violet-500 to-violet-600',
+        bgColor: 'bg-[#1f1a3a]',
+        borderColor: 'border-[#5b4d9d]',
+        description: 'Executa outro fluxo e retorna as variáveis do END'
+      },
+      {
+        type: 'HANDOFF' as WorkflowNodeType,
+        label: 'Atendimento Humano',
+        icon: '🙋',
+        color: 'from-violet-500 to-violet-600',
+        bgColor: 'bg-[#1f1a3a]',
+        borderColor: 'border-[#5b4d9d]',
+        description: 'Pausa o bot e coloca o contato na fila de atendimento'
+      },
       {
         type: 'CONDITION' as WorkflowNodeType,
         label: 'Condição',
@@ -16,7 +16,7 @@ import ReactFlow, {
   ReactFlowInstance,
 } from 'reactflow'
 import 'reactflow/dist/style.css'
-import { WorkflowNode, WorkflowEdge, WorkflowNodeType } from '@n9n/shared'
+import { WorkflowNode, WorkflowEdge, WorkflowNodeType, WorkflowValidationIssue } from '@n9n/shared'
 import CustomNode from './nodes/CustomNode'
 import CustomEdge from './edges/CustomEdge'
 import { Trash2, ZoomIn, ZoomOut, Maximize, MousePointer2, Plus } from 'lucide-react'
@@ -31,6 +31,7 @@ const edgeTypes: EdgeTypes = {
 
 // Stable empty set — prevents infinite re-renders when parent doesn't pass these props
 const EMPTY_SET = new Set<string>()
+const EMPTY_ISSUES: Record<string, WorkflowValidationIssue[]> = {}
 
 interface WorkflowCanvasProps {
   initialNodes: WorkflowNode[]
@@ -47,6 +48,7 @@ interface WorkflowCanvasProps {
   failedNodes?: Set<string>
   executedEdges?: Set<string>
   failedEdges?: Set<string>
+  nodeIssues?: Record<string, WorkflowValidationIssue[]>
 }
 
 function WorkflowCanvas({
@@ -64,6 +66,7 @@ function WorkflowCanvas({
   failedNodes = EMPTY_SET,
   executedEdges = EMPTY_SET,
   failedEdges = EMPTY_SET,
+  nodeIssues = EMPTY_ISSUES,
 }: WorkflowCanvasProps) {
   // 1. STATE HOOKS (CRITICAL: Fixed order)
   const [nodes, setNodes, onNodesChange] = useNodesState([])
@@ -125,6 +128,7 @@ function WorkflowCanvas({
             target: e.target,
             label: typeof e.label === 'string' ? e.label : undefined,
             condition: e.sourceHandle || undefined,
+            targetHandle: e.targetHandle || undefined,
           }))
           onChangeRef.current(workflowNodes, workflowEdges)
         }
@@ -146,12 +150,13 @@ function WorkflowCanvas({
         executionStatus,
         hasExecuted: executedNodes.has(node.id),
         executionSuccess: executedNodes.has(node.id) && !failedNodes.has(node.id),
+        validationIssues: nodeIssues[node.id],
         onManualTrigger: stableOnManualTrigger,
         onDuplicateNode: stableOnDuplicateNode,
         onRemoveNode,
       },
     }))
-  }, [currentNodeId, executionStatus, executedNodes, failedNodes, stableOnManualTrigger, stableOnDuplicateNode, onRemoveNode])
+  }, [currentNodeId, executionStatus, executedNodes, failedNodes, nodeIssues, stableOnManualTrigger, stableOnDuplicateNode, onRemoveNode])
 
   const buildFlowEdges = useCallback((workflowEdges: WorkflowEdge[]): Edge[] => {
     return workflowEdges.map((edge) => {
@@ -188,7 +193,9 @@ function WorkflowCanvas({
         source: edge.source,
         target: edge.target,
         sourceHandle: edge.condition || undefined,
-        label: edge.label || (edge.condition === 'true' ? 'True' : edge.condition === 'false' ? 'False' : undefined),
+        targetHandle: edge.targetHandle || undefined,
+        label: edge.label || (edge.condition === 'true' ? 'True' : edge.condition === 'false' ? 'False'
+          : edge.targetHandle === 'break' ? 'Break' : edge.targetHandle === 'continue' ? 'Continue' : undefined),
         animated: isCurrentlyActive,
         style: edgeStyle,
       }
@@ -233,6 +240,7 @@ function WorkflowCanvas({
               target: e.target,
               label: typeof e.label === 'string' ? e.label : undefined,
               condition: e.sourceHandle || undefined,
+              targetHandle: e.targetHandle || undefined,
             }))
             onChangeRef.current(workflowNodes, workflowEdges)
           }
@@ -295,6 +303,7 @@ function WorkflowCanvas({
             target: e.target,
             label: typeof e.label === 'string' ? e.label : undefined,
             condition: e.sourceHandle || undefined,
+            targetHandle: e.targetHandle || undefined,
           }))
           onChangeRef.current(workflowNodes, workflowEdges)
         }
@@ -317,6 +326,7 @@ function WorkflowCanvas({
         id: e.id, source: e.source, target: e.target,
         label: typeof e.label === 'string' ? e.label : undefined,
         condition: e.sourceHandle || undefined,
+        targetHandle: e.targetHandle || undefined,
       }))
       try {
         const result = onChangeRef.current?.(workflowNodes, workflowEdges)
@@ -370,7 +380,7 @@ function WorkflowCanvas({
             id: node.id, type: node.data.type, config: node.data.config, position: node.position,
           }))
           const workflowEdges: WorkflowEdge[] = updatedEdges.map((e) => ({
-            id: e.id, source: e.source, target: e.target, label: typeof e.label === 'string' ? e.label : undefined, condition: e.sourceHandle || undefined,
+            id: e.id, source: e.source, target: e.target, label: typeof e.label === 'string' ? e.label : undefined, condition: e.sourceHandle || undefined, targetHandle: e.targetHandle || undefined,
           }))
           onChangeRef.current!(workflowNodes, workflowEdges)
           return nds
@@ -467,10 +477,11 @@ function WorkflowCanvas({
           executionStatus,
           hasExecuted: executedNodes.has(node.id),
           executionSuccess: executedNodes.has(node.id) && !failedNodes.has(node.id),
+          validationIssues: nodeIssues[node.id],
         },
       }))
     )
-  }, [currentNodeId, executionStatus, executedNodes, failedNodes, setNodes])
+  }, [currentNodeId, executionStatus, executedNodes, failedNodes, nodeIssues, setNodes])
 
   useEffect(() => {
     setEdges((eds) =>
@@ -627,7 +638,7 @@ function WorkflowCanvas({
                     if (onChangeRef.current) {
                       setNodes((nds) => {
                         const workflowNodes: WorkflowNode[] = nds.map((node) => ({ id: node.id, type: node.data.type, config: node.data.config, position: node.position }))
-                        const workflowEdges: WorkflowEdge[] = newEdges.map((e) => ({ id: e.id, source: e.source, target: e.target, label: typeof e.label === 'string' ? e.label : undefined, condition: e.sourceHandle || undefined }))
+                        const workflowEdges: WorkflowEdge[] = newEdges.map((e) => ({ id: e.id, source: e.source, target: e.target, label: typeof e.label === 'string' ? e.label : undefined, condition: e.sourceHandle || undefined, targetHandle: e.targetHandle || undefined }))
                         onChangeRef.current!(workflowNodes, workflowEdges)
                         return nds
                       })
@@ -0,0 +1,177 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { apiClient } from '@/lib/api-client'
+
+interface WorkflowVersionsProps {
+  workflowId: string
+  tenantId?: string
+  publishedVersion?: number | null
+  onClose: () => void
+  onRollback: (workflow: any) => void
+}
+
+export default function WorkflowVersions({
+  workflowId,
+  tenantId,
+  publishedVersion,
+  onClose,
+  onRollback,
+}: WorkflowVersionsProps) {
+  const [versions, setVersions] = useState<any[]>([])
+  const [loading, setLoading] = useState(true)
+  const [diff, setDiff] = useState<any>(null)
+  const [loadingDiff, setLoadingDiff] = useState<number | null>(null)
+  const [rollingBack, setRollingBack] = useState<number | null>(null)
+
+  useEffect(() => {
+    loadVersions()
+  }, [workflowId])
+
+  const loadVersions = async () => {
+    try {
+      setLoading(true)
+      const data = await apiClient.getWorkflowVersions(workflowId, tenantId)
+      setVersions(data)
+    } catch (error) {
+      console.error('Error loading versions:', error)
+      setVersions([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDiff = async (version: number) => {
+    if (!publishedVersion) return
+    try {
+      setLoadingDiff(version)
+      const data = await apiClient.diffWorkflowVersions(workflowId, version, publishedVersion, tenantId)
+      setDiff(data)
+    } catch (error: any) {
+      alert(error?.response?.data?.message || 'Erro ao comparar versões')
+    } finally {
+      setLoadingDiff(null)
+    }
+  }
+
+  const handleRollback = async (version: number) => {
+    if (!confirm(`Publicar novamente a versão ${version}? Alterações não publicadas serão descartadas.`)) return
+    try {
+      setRollingBack(version)
+      const updated = await apiClient.rollbackWorkflow(workflowId, version, tenantId)
+      onRollback(updated)
+      onClose()
+    } catch (error: any) {
+      alert(error?.response?.data?.message || 'Erro ao restaurar versão')
+    } finally {
+      setRollingBack(null)
+    }
+  }
+
+  const nodeLabel = (node: any) => `${node.type}${node.config?.label ? ` · ${node.config.label}` : ''} (${node.id})`
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface border border-border rounded-lg w-full max-w-2xl h-[70vh] mx-4 flex flex-col">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-border">
+          <h2 className="text-xl font-bold">Versões Publicadas</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {loading ? (
+            <div className="p-8 text-center text-gray-400">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+              Carregando...
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="p-8 text-center text-gray-400">
+              <div className="text-4xl mb-4">🗂️</div>
+              <p>Nenhuma versão publicada ainda</p>
+              <p className="text-sm mt-2">Publique o fluxo para que ele passe a rodar</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-border">
+              {versions.map((version) => (
+                <div key={version.id} className="p-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-semibold">
+                      v{version.version}
+                      {version.version === publishedVersion && (
+                        <span className="ml-2 px-2 py-0.5 text-[10px] rounded bg-primary/20 text-primary">PUBLICADA</span>
+                      )}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {new Date(version.createdAt).toLocaleString('pt-BR', {
+                        day: '2-digit',
+                        month: '2-digit',
+                        year: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                  </div>
+                  {version.note && <p className="text-xs text-gray-400 mb-2">{version.note}</p>}
+                  {version.version !== publishedVersion && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleDiff(version.version)}
+                        disabled={loadingDiff !== null}
+                        className="px-3 py-1 text-xs bg-background border border-border rounded hover:border-primary transition"
+                      >
+                        {loadingDiff === version.version ? 'Comparando...' : 'Comparar com publicada'}
+                      </button>
+                      <button
+                        onClick={() => handleRollback(version.version)}
+                        disabled={rollingBack !== null}
+                        className="px-3 py-1 text-xs bg-background border border-border rounded hover:border-yellow-500 text-yellow-400 transition"
+                      >
+                        {rollingBack === version.version ? 'Restaurando...' : 'Restaurar'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Diff */}
+        {diff && (
+          <div className="border-t border-border p-4 max-h-[40%] overflow-y-auto text-xs space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-semibold text-sm">v{diff.from} → v{diff.to}</span>
+              <button onClick={() => setDiff(null)} className="text-gray-400 hover:text-white">✕</button>
+            </div>
+            {diff.nodes.added.map((node: any) => (
+              <div key={`a-${node.id}`} className="text-green-400">+ {nodeLabel(node)}</div>
+            ))}
+            {diff.nodes.removed.map((node: any) => (
+              <div key={`r-${node.id}`} className="text-red-400">− {nodeLabel(node)}</div>
+            ))}
+            {diff.nodes.changed.map((change: any) => (
+              <div key={`c-${change.id}`} className="text-yellow-400">
+                ~ {nodeLabel(change.after)}: <span className="font-mono text-gray-400">{change.fields.join(', ')}</span>
+              </div>
+            ))}
+            {(diff.edges.added.length > 0 || diff.edges.removed.length > 0) && (
+              <div className="text-gray-400">
+                Conexões: +{diff.edges.added.length} / −{diff.edges.removed.length}
+              </div>
+            )}
+            {diff.nodes.added.length + diff.nodes.removed.length + diff.nodes.changed.length === 0 &&
+              diff.edges.added.length + diff.edges.removed.length === 0 && (
+                <div className="text-gray-500">Sem diferenças</div>
+              )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
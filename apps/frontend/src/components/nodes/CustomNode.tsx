@@ -2,7 +2,7 @@
 
 import { memo, useState } from 'react'
 import { Handle, Position } from 'reactflow'
-import { WorkflowNodeType } from '@n9n/shared'
+import { WorkflowNodeType, WorkflowValidationIssue } from '@n9n/shared'
 import { Trash2, Play, Copy } from 'lucide-react'
 
 function renderWhatsAppPreview(text: string): string {
@@ -52,6 +52,38 @@ const nodeConfig: Record<string, any> = {
     borderColor: 'border-[#3b7d3b]',
     iconBg: 'bg-gradient-to-br from-green-500 to-green-600',
   },
+  'TRIGGER_WEBHOOK': {
+    label: 'Webhook',
+    subtitle: 'TRIGGER',
+    icon: '🔗',
+    bgColor: 'bg-[#13282e]',
+    borderColor: 'border-[#2f7c8f]',
+    iconBg: 'bg-gradient-to-br from-cyan-500 to-cyan-600',
+  },
+  'TRIGGER_GROUP_JOIN': {
+    label: 'Entrou no Grupo',
+    subtitle: 'GATILHO',
+    icon: '🙋',
+    bgColor: 'bg-[#1e1b4b]',
+    borderColor: 'border-[#6366f1]',
+    iconBg: 'bg-gradient-to-br from-indigo-500 to-indigo-600',
+  },
+  'TRIGGER_GROUP_LEAVE': {
+    label: 'Saiu do Grupo',
+    subtitle: 'GATILHO',
+    icon: '🚪',
+    bgColor: 'bg-[#1e1b4b]',
+    borderColor: 'border-[#6366f1]',
+    iconBg: 'bg-gradient-to-br from-indigo-500 to-indigo-600',
+  },
+  'TRIGGER_CALL': {
+    label: 'Chamada Recebida',
+    subtitle: 'GATILHO',
+    icon: '📞',
+    bgColor: 'bg-[#1e1b4b]',
+    borderColor: 'border-[#6366f1]',
+    iconBg: 'bg-gradient-to-br from-indigo-500 to-indigo-600',
+  },
   'SEND_MESSAGE': {
     label: 'Enviar Mensagem',
     subtitle: 'AÇÃO',
@@ -180,6 +212,14 @@ const nodeConfig: Record<string, any> = {
     borderColor: 'border-[#6b3b7d]',
     iconBg: 'bg-gradient-to-br from-purple-500 to-purple-600',
   },
+  'UPDATE_CONTACT': {
+    label: 'Atualizar Contato',
+    subtitle: 'AÇÃO',
+    icon: '👤',
+    bgColor: 'bg-[#2a1a2e]',
+    borderColor: 'border-[#6b3b7d]',
+    iconBg: 'bg-gradient-to-br from-purple-500 to-purple-600',
+  },
   'CONDITION': {
     label: 'Condição',
     subtitle: 'LÓGICA',
@@ -204,6 +244,14 @@ const nodeConfig: Record<string, any> = {
     borderColor: 'border-[#7d5d39]',
     iconBg: 'bg-gradient-to-br from-orange-500 to-orange-600',
   },
+  'WAIT_POLL_VOTE': {
+    label: 'Aguardar Voto',
+    subtitle: 'AÇÃO',
+    icon: '🗳️',
+    bgColor: 'bg-[#2e2419]',
+    borderColor: 'border-[#7d5d39]',
+    iconBg: 'bg-gradient-to-br from-orange-500 to-orange-600',
+  },
   'WAIT': {
     label: 'Aguardar Tempo',
     subtitle: 'AÇÃO',
@@ -220,6 +268,22 @@ const nodeConfig: Record<string, any> = {
     borderColor: 'border-[#3b5d8d]',
     iconBg: 'bg-gradient-to-br from-blue-500 to-blue-600',
   },
+  'CALL_WORKFLOW': {
+    label: 'Sub-fluxo',
+    subtitle: 'LÓGICA',
+    icon: '🧩',
+    bgColor: 'bg-[#1f1a3a]',
+    borderColor: 'border-[#5b4d9d]',
+    iconBg: 'bg-gradient-to-br from-violet-500 to-violet-600',
+  },
+  'HANDOFF': {
+    label: 'Atendimento Humano',
+    subtitle: 'AÇÃO',
+    icon: '🙋',
+    bgColor: 'bg-[#1f1a3a]',
+    borderColor: 'border-[#5b4d9d]',
+    iconBg: 'bg-gradient-to-br from-violet-500 to-violet-600',
+  },
   'PIX_RECOGNITION': {
     label: 'Reconhecer PIX',
     subtitle: 'AÇÃO',
@@ -385,6 +449,7 @@ interface CustomNodeProps {
     executionStatus?: 'idle' | 'running' | 'waiting' | 'completed' | 'failed'
     hasExecuted?: boolean
     executionSuccess?: boolean
+    validationIssues?: WorkflowValidationIssue[]
     onManualTrigger?: (nodeId: string) => void
     onDuplicateNode?: (nodeId: string) => void
     onRemoveNode?: (nodeId: string) => void
@@ -407,7 +472,11 @@ function CustomNode({ data, id, selected }: CustomNodeProps & { id: string }) {
   const isTrigger =
     data.type === 'TRIGGER_MESSAGE' ||
     data.type === 'TRIGGER_SCHEDULE' ||
-    data.type === 'TRIGGER_MANUAL'
+    data.type === 'TRIGGER_MANUAL' ||
+    data.type === 'TRIGGER_WEBHOOK' ||
+    data.type === 'TRIGGER_GROUP_JOIN' ||
+    data.type === 'TRIGGER_GROUP_LEAVE' ||
+    data.type === 'TRIGGER_CALL'
 
   const isEnd = data.type === 'END'
   const isCondition = data.type === 'CONDITION'
@@ -417,12 +486,14 @@ function CustomNode({ data, id, selected }: CustomNodeProps & { id: string }) {
   const isButtons = data.type === 'SEND_BUTTONS'
   const isPix = data.type === 'SEND_PIX'
   const isPixRecognition = data.type === 'PIX_RECOGNITION' || data.type === 'AI_OCR_PIX'
+  const isPollVote = data.type === 'WAIT_POLL_VOTE'
 
   // Get switch/randomizer rules for dynamic handles
   const switchRules = isSwitch && data.config.rules ? data.config.rules : []
   const randomizerSaidas = isRandomizer && data.config.saidas ? data.config.saidas : []
   const buttonsNode = isButtons && data.config.buttons ? data.config.buttons : []
   const pixValueRules: any[] = isPixRecognition && data.config?.valueRules ? data.config.valueRules : []
+  const pollOptions: string[] = isPollVote && data.config?.opcoes ? data.config.opcoes : []
 
   const handleDelete = (e: React.MouseEvent) => {
     e.preventDefault()
@@ -485,6 +556,18 @@ function CustomNode({ data, id, selected }: CustomNodeProps & { id: string }) {
     if (type === 'TRIGGER_MANUAL') {
       return '▶️ Clique para executar'
     }
+    if (type === 'TRIGGER_GROUP_JOIN' || type === 'TRIGGER_GROUP_LEAVE') {
+      const groupCount = config.groupJids?.length || 0
+      const where = groupCount > 0 ? `${groupCount} grupo${groupCount !== 1 ? 's' : ''}` : 'grupos ativos'
+      return `${config.target === 'group' ? '👥 No grupo' : '💬 No privado'} · ${where}`
+    }
+    if (type === 'TRIGGER_CALL') {
+      const callTypes: Record<string, string> = { voice: '📞 Chamadas de voz', video: '📹 Chamadas de vídeo' }
+      return callTypes[config.callType] || '📞 Qualquer chamada'
+    }
+    if (type === 'TRIGGER_WEBHOOK') {
+      return config.phonePath ? `📞 Telefone em: ${config.phonePath}` : '🔗 Configure o caminho do telefone'
+    }
     if (type === 'WAIT') {
       const amount = config.amount || 1
       const unit = config.unit || 'seconds'
@@ -583,6 +666,19 @@ function CustomNode({ data, id, selected }: CustomNodeProps & { id: string }) {
         return `🔁 Iterar: ${source.length > 20 ? source.substring(0, 20) + '...' : source}`
       }
     }
+    if (type === 'CALL_WORKFLOW') {
+      if (!config.workflowName && !config.workflowId) return 'Selecione um fluxo'
+      return `🧩 ${config.workflowName || config.workflowId}`
+    }
+    if (type === 'HANDOFF') {
+      return `🙋 Fila: ${config.queue || 'geral'}`
+    }
+    if (type === 'UPDATE_CONTACT') {
+      const keys = (config.fields || []).map((f: any) => f.key).filter(Boolean)
+      if (config.name) keys.unshift('nome')
+      if (keys.length === 0) return 'Configure os campos'
+      return `👤 ${keys.join(', ')}`
+    }
     if (type === 'PIX_RECOGNITION' || type === 'AI_OCR_PIX') {
       const rules: any[] = config.valueRules || []
       if (rules.length > 0) {
@@ -677,6 +773,10 @@ function CustomNode({ data, id, selected }: CustomNodeProps & { id: string }) {
     if (data.type === 'LEMBRETE_RECORRENTE') {
       return `⏰ Diariamente às ${data.config.horario || '09:00'}`
     }
+    if (data.type === 'WAIT_POLL_VOTE') {
+      const count = data.config.opcoes?.length || 0
+      return `🗳️ ${data.config.pergunta?.substring(0, 20) || 'Enquete'} (${count} opç${count !== 1 ? 'ões' : 'ão'})`
+    }
     if (data.type === 'ENQUETE_GRUPO') {
       return `📊 Pergunta: ${data.config.question?.substring(0, 20)}...`
     }
@@ -708,6 +808,22 @@ function CustomNode({ data, id, selected }: CustomNodeProps & { id: string }) {
 
   const previewText = getPreviewText()
 
+  // Validation badge: red when the node blocks activation, yellow for warnings only
+  const getValidationBadge = () => {
+    const issues = data.validationIssues || []
+    if (issues.length === 0) return null
+
+    const hasErrors = issues.some((issue) => issue.severity === 'error')
+    return (
+      <div
+        title={issues.map((issue) => `${issue.severity === 'error' ? '⛔' : '⚠️'} ${issue.message}`).join('\n')}
+        className={`absolute -top-2 -left-2 min-w-[24px] h-6 px-1.5 rounded-full flex items-center justify-center shadow-lg z-10 cursor-help ${hasErrors ? 'bg-red-500' : 'bg-yellow-500'}`}
+      >
+        <span className={`text-xs font-bold ${hasErrors ? 'text-white' : 'text-black'}`}>!{issues.length > 1 ? issues.length : ''}</span>
+      </div>
+    )
+  }
+
   // Get execution badge
   const getExecutionBadge = () => {
     if (!data.hasExecuted) return null
@@ -779,6 +895,8 @@ function CustomNode({ data, id, selected }: CustomNodeProps & { id: string }) {
 
       {/* Execution Badge */}
       {getExecutionBadge()}
+      {/* Validation Badge */}
+      {getValidationBadge()}
       {/* Input Handle */}
       {!isTrigger && (
         <Handle
@@ -788,6 +906,26 @@ function CustomNode({ data, id, selected }: CustomNodeProps & { id: string }) {
         />
       )}
 
+      {/* Loop control handles: edges from the loop body end here */}
+      {isLoop && (
+        <>
+          <Handle
+            type="target"
+            position={Position.Top}
+            id="continue"
+            title="Continue: próxima iteração"
+            className="!w-3 !h-3 !bg-blue-400 !border-2 !border-blue-600 hover:!bg-blue-300 transition-colors"
+          />
+          <Handle
+            type="target"
+            position={Position.Bottom}
+            id="break"
+            title="Break: sair do loop"
+            className="!w-3 !h-3 !bg-red-400 !border-2 !border-red-600 hover:!bg-red-300 transition-colors"
+          />
+        </>
+      )}
+
       {/* Node Content */}
       <div className="p-3">
         {/* Header with Icon and Title */}
@@ -1145,6 +1283,41 @@ function CustomNode({ data, id, selected }: CustomNodeProps & { id: string }) {
                 );
               })()}
             </>
+          ) : isPollVote ? (
+            <>
+              {/* One handle per option (id = option index) + timeout */}
+              {pollOptions.map((option: string, index: number) => (
+                <Handle
+                  key={index}
+                  type="source"
+                  position={Position.Right}
+                  id={String(index)}
+                  style={{ top: `${((index + 1) / (pollOptions.length + 2)) * 100}%` }}
+                  className="!w-3 !h-3 !bg-emerald-400 !border-2 !border-emerald-600 hover:!bg-emerald-300 transition-colors"
+                />
+              ))}
+              <Handle
+                type="source"
+                position={Position.Right}
+                id="timeout"
+                style={{ top: `${((pollOptions.length + 1) / (pollOptions.length + 2)) * 100}%` }}
+                className="!w-3 !h-3 !bg-orange-400 !border-2 !border-orange-600 hover:!bg-orange-300 transition-colors"
+              />
+              <div className="absolute -right-2 top-0 bottom-0 flex flex-col justify-around text-[8px] font-bold py-2 translate-x-full">
+                {pollOptions.map((option: string, index: number) => (
+                  <div key={index} className="flex items-center">
+                    <div className="bg-[#151515] px-1.5 py-0.5 rounded border border-emerald-900/50 text-emerald-400 truncate max-w-[80px] shadow-sm">
+                      {option || `Opção ${index + 1}`}
+                    </div>
+                  </div>
+                ))}
+                <div className="flex items-center">
+                  <div className="bg-[#151515] px-1.5 py-0.5 rounded border border-orange-900/50 text-orange-400 shadow-sm">
+                    timeout
+                  </div>
+                </div>
+              </div>
+            </>
           ) : data.type === 'WAIT_REPLY' ? (
             <div className="absolute -right-3 top-3 bottom-3 flex flex-col justify-between pointer-events-none w-28">
               <div className="relative flex items-center justify-end translate-x-3">
@@ -1169,6 +1342,19 @@ function CustomNode({ data, id, selected }: CustomNodeProps & { id: string }) {
                   className="w-3 h-3 !bg-blue-500 border-2 border-[#1a1c2e] hover:!bg-blue-400 transition-colors !cursor-crosshair pointer-events-auto"
                 />
               </div>
+              {data.config?.expectedType && data.config.expectedType !== 'any' && (
+                <div className="relative flex items-center justify-end translate-x-3">
+                  <span className="mr-2 text-[10px] font-bold text-red-400 bg-[#0f172a] px-1.5 py-0.5 rounded border border-red-500/30 whitespace-nowrap shadow-sm backdrop-blur-sm">
+                    TIPO ERRADO
+                  </span>
+                  <Handle
+                    type="source"
+                    position={Position.Right}
+                    id="invalid"
+                    className="w-3 h-3 !bg-red-500 border-2 border-[#1a1c2e] hover:!bg-red-400 transition-colors !cursor-crosshair pointer-events-auto"
+                  />
+                </div>
+              )}
               <div className="relative flex items-center justify-end translate-x-3">
                 <span className="mr-2 text-[10px] font-bold text-orange-400 bg-[#0f172a] px-1.5 py-0.5 rounded border border-orange-500/30 whitespace-nowrap shadow-sm backdrop-blur-sm">
                   TIMEOUT
@@ -1181,6 +1367,31 @@ function CustomNode({ data, id, selected }: CustomNodeProps & { id: string }) {
                 />
               </div>
             </div>
+          ) : data.type === 'CALL_WORKFLOW' ? (
+            <div className="absolute -right-3 top-3 bottom-3 flex flex-col justify-between pointer-events-none w-28">
+              <div className="relative flex items-center justify-end translate-x-3">
+                <span className="mr-2 text-[10px] font-bold text-green-400 bg-[#0f172a] px-1.5 py-0.5 rounded border border-green-500/30 whitespace-nowrap shadow-sm backdrop-blur-sm">
+                  CONCLUÍDO
+                </span>
+                <Handle
+                  type="source"
+                  position={Position.Right}
+                  id="success"
+                  className="w-3 h-3 !bg-green-500 border-2 border-[#1a1c2e] hover:!bg-green-400 transition-colors !cursor-crosshair pointer-events-auto"
+                />
+              </div>
+              <div className="relative flex items-center justify-end translate-x-3">
+                <span className="mr-2 text-[10px] font-bold text-red-400 bg-[#0f172a] px-1.5 py-0.5 rounded border border-red-500/30 whitespace-nowrap shadow-sm backdrop-blur-sm">
+                  ERRO
+                </span>
+                <Handle
+                  type="source"
+                  position={Position.Right}
+                  id="error"
+                  className="w-3 h-3 !bg-red-500 border-2 border-[#1a1c2e] hover:!bg-red-400 transition-colors !cursor-crosshair pointer-events-auto"
+                />
+              </div>
+            </div>
           ) : (
             <Handle
               type="source"
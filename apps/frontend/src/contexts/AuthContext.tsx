@@ -9,6 +9,8 @@ interface User {
   name?: string
   tenantId: string
   role?: string
+  customRoleId?: string | null
+  permissions?: string[]
   trialStartedAt?: string
   trialEndsAt?: string
   licenseStatus?: string
@@ -79,6 +81,24 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setIsLoading(false)
   }, [])
 
+  // Custom roles can change after login: refresh the stored permissions
+  useEffect(() => {
+    if (!token) return
+
+    apiClient.getMyPermissions()
+      .then(({ customRoleId, permissions }) => {
+        setUser((current) => {
+          if (!current) return current
+          const updated = { ...current, customRoleId, permissions }
+          localStorage.setItem(USER_KEY, JSON.stringify(updated))
+          return updated
+        })
+      })
+      .catch(() => {
+        // Keep the permissions from login
+      })
+  }, [token])
+
   // Stabilize functions to avoid unnecessary effect re-runs
   const logout = React.useCallback(() => {
     setToken(null)
@@ -147,6 +147,11 @@ export const apiClient = {
     return data
   },
 
+  getMyPermissions: async () => {
+    const { data } = await client.get('/auth/permissions')
+    return data as { role: string; customRoleId: string | null; permissions: string[] }
+  },
+
   // Workflows
   getWorkflows: async (tenantId?: string) => {
     const params = tenantId ? { tenantId } : {}
@@ -172,6 +177,36 @@ export const apiClient = {
     return data
   },
 
+  publishWorkflow: async (workflowId: string, note?: string, tenantId?: string) => {
+    const params = tenantId ? { tenantId } : {}
+    const { data } = await client.post(`/workflows/${workflowId}/publish`, { note }, { params })
+    return data
+  },
+
+  getWorkflowVersions: async (workflowId: string, tenantId?: string) => {
+    const params = tenantId ? { tenantId } : {}
+    const { data } = await client.get(`/workflows/${workflowId}/versions`, { params })
+    return data
+  },
+
+  diffWorkflowVersions: async (workflowId: string, from: number, to: number, tenantId?: string) => {
+    const params = { from, to, ...(tenantId ? { tenantId } : {}) }
+    const { data } = await client.get(`/workflows/${workflowId}/versions/diff`, { params })
+    return data
+  },
+
+  rollbackWorkflow: async (workflowId: string, version: number, tenantId?: string) => {
+    const params = tenantId ? { tenantId } : {}
+    const { data } = await client.post(`/workflows/${workflowId}/versions/${version}/rollback`, {}, { params })
+    return data
+  },
+
+  validateWorkflow: async (workflowId: string, graph?: { nodes?: any[]; edges?: any[] }, tenantId?: string) => {
+    const params = tenantId ? { tenantId } : {}
+    const { data } = await client.post(`/workflows/${workflowId}/validate`, graph || {}, { params })
+    return data
+  },
+
   deleteWorkflow: async (workflowId: string, tenantId?: string) => {
     const params = tenantId ? { tenantId } : {}
     await client.delete(`/workflows/${workflowId}`, { params })
@@ -233,6 +268,12 @@ export const apiClient = {
     return data
   },
 
+  setSessionCallPolicy: async (sessionId: string, policy: string, message?: string, tenantId?: string) => {
+    const params = tenantId ? { tenantId } : {}
+    const { data } = await client.put(`/whatsapp/sessions/${sessionId}/call-policy`, { policy, message }, { params })
+    return data
+  },
+
   getSessionLabels: async (sessionId: string) => {
     const { data } = await client.get(`/whatsapp/sessions/${sessionId}/labels`)
     return data
@@ -289,6 +330,12 @@ export const apiClient = {
     })
   },
 
+  getGroupMembership: async (groupJid: string, tenantId?: string) => {
+    const params = tenantId ? { tenantId } : {}
+    const { data } = await client.get(`/whatsapp/groups/${encodeURIComponent(groupJid)}/membership`, { params })
+    return data
+  },
+
   getGroupOffers: async (tenantId: string) => {
     const { data } = await client.get('/whatsapp/groups/offers', {
       params: { tenantId }
@@ -336,6 +383,22 @@ export const apiClient = {
     return data
   },
 
+  // Webhook Trigger
+  async getWorkflowWebhookSecret(workflowId: string) {
+    const { data } = await client.get(`/workflows/${workflowId}/webhook-secret`)
+    return data
+  },
+
+  async rotateWorkflowWebhookSecret(workflowId: string) {
+    const { data } = await client.post(`/workflows/${workflowId}/webhook-secret/rotate`, {})
+    return data
+  },
+
+  async previewSchedule(config: { scheduleType: string; cronExpression?: string; intervalMinutes?: number; timezone?: string; count?: number }) {
+    const { data } = await client.post('/workflows/schedule/preview', config)
+    return data
+  },
+
   async cancelExecution(executionId: string) {
     const { data } = await client.post(`/executions/${executionId}/cancel`, {});
     return data;
@@ -412,6 +475,22 @@ export const apiClient = {
     await client.delete(`/admin/tenants/${tenantId}`)
   },
 
+  // COMMAND node policy
+  getCommandPolicy: async (tenantId?: string) => {
+    const { data } = await client.get('/command-policy', { params: tenantId ? { tenantId } : {} })
+    return data
+  },
+
+  updateCommandPolicy: async (tenantId: string, updates: { enabled?: boolean; allowedBinaries?: string[] }) => {
+    const { data } = await client.put('/command-policy', updates, { params: { tenantId } })
+    return data
+  },
+
+  getCommandAuditLogs: async (tenantId?: string, filters?: { workflowId?: string; status?: string; limit?: number }) => {
+    const { data } = await client.get('/command-policy/audit', { params: { ...(tenantId ? { tenantId } : {}), ...filters } })
+    return data
+  },
+
   // Admin - Users
   getUsers: async () => {
     const { data } = await client.get('/admin/users')
@@ -443,6 +522,73 @@ export const apiClient = {
     await client.delete(`/admin/users/${userId}`)
   },
 
+  // Custom roles (workspace admins)
+  getRoles: async () => {
+    const { data } = await client.get('/roles')
+    return data
+  },
+
+  createRole: async (payload: { name: string; description?: string; permissions: string[] }) => {
+    const { data } = await client.post('/roles', payload)
+    return data
+  },
+
+  updateRole: async (id: string, payload: { name: string; description?: string; permissions: string[] }) => {
+    const { data } = await client.put(`/roles/${id}`, payload)
+    return data
+  },
+
+  deleteRole: async (id: string) => {
+    await client.delete(`/roles/${id}`)
+  },
+
+  getRoleMembers: async () => {
+    const { data } = await client.get('/roles/members')
+    return data
+  },
+
+  assignRole: async (userId: string, roleId: string | null) => {
+    const { data } = await client.put(`/roles/members/${userId}`, { roleId })
+    return data
+  },
+
+  // Audit log (workspace admins)
+  getAuditLogs: async (params?: { resource?: string; action?: string; from?: string; to?: string; page?: number; limit?: number }) => {
+    const { data } = await client.get('/audit-logs', { params })
+    return data
+  },
+
+  getAuditFacets: async () => {
+    const { data } = await client.get('/audit-logs/facets')
+    return data
+  },
+
+  exportAuditLogs: async (params?: { resource?: string; action?: string; from?: string; to?: string }): Promise<Blob> => {
+    const { data } = await client.get('/audit-logs/export', { params, responseType: 'blob' })
+    return data
+  },
+
+  // API keys (workspace admins); the full key is only returned by create
+  getApiKeys: async () => {
+    const { data } = await client.get('/api-keys')
+    return data
+  },
+
+  createApiKey: async (payload: { name: string; scopes: string[]; rateLimitPerMinute?: number }) => {
+    const { data } = await client.post('/api-keys', payload)
+    return data
+  },
+
+  updateApiKey: async (id: string, payload: { name: string; scopes: string[]; rateLimitPerMinute?: number }) => {
+    const { data } = await client.put(`/api-keys/${id}`, payload)
+    return data
+  },
+
+  revokeApiKey: async (id: string) => {
+    const { data } = await client.delete(`/api-keys/${id}`)
+    return data
+  },
+
   // WhatsApp Global Config
   getWhatsappConfig: async () => {
     const { data } = await client.get('/whatsapp/config')
@@ -471,6 +617,7 @@ export const apiClient = {
     status?: string
     label?: string
     type?: string
+    assignedTo?: string
     page?: number
     limit?: number
     search?: string
@@ -484,21 +631,64 @@ export const apiClient = {
     return data
   },
 
-  getInboxMessages: async (conversationId: string, cursor?: string, limit?: number) => {
+  getInboxMessages: async (conversationId: string, cursor?: string, limit?: number, around?: string, after?: string) => {
     const { data } = await client.get(`/inbox/${conversationId}/messages`, {
-      params: { cursor, limit },
+      params: { cursor, limit, around, after },
     })
     return data
   },
 
+  searchInbox: async (params: {
+    q: string
+    sessionId?: string
+    status?: string
+    tag?: string
+    from?: string
+    to?: string
+    page?: number
+  }) => {
+    const { data } = await client.get('/inbox/search', { params })
+    return data
+  },
+
   sendInboxMessage: async (
     conversationId: string,
-    body: { text?: string; mediaUrl?: string; mediaType?: string }
+    body: { text?: string; mediaUrl?: string; mediaType?: string; fileName?: string }
   ) => {
     const { data } = await client.post(`/inbox/${conversationId}/send`, body)
     return data
   },
 
+  addConversationNote: async (conversationId: string, text: string) => {
+    const { data } = await client.post(`/inbox/${conversationId}/notes`, { text })
+    return data
+  },
+
+  expandSavedResponse: async (conversationId: string, response: string) => {
+    const { data } = await client.post(`/inbox/${conversationId}/expand-response`, { response })
+    return data
+  },
+
+  getSavedResponses: async () => {
+    const { data } = await client.get('/saved-responses')
+    return data
+  },
+
+  createSavedResponse: async (body: { shortcut: string; title: string; content: string; mediaFileId?: string | null }) => {
+    const { data } = await client.post('/saved-responses', body)
+    return data
+  },
+
+  updateSavedResponse: async (id: string, body: { shortcut: string; title: string; content: string; mediaFileId?: string | null }) => {
+    const { data } = await client.put(`/saved-responses/${id}`, body)
+    return data
+  },
+
+  deleteSavedResponse: async (id: string) => {
+    const { data } = await client.delete(`/saved-responses/${id}`)
+    return data
+  },
+
   triggerInboxFlow: async (conversationId: string, workflowId: string) => {
     const { data } = await client.post(`/inbox/${conversationId}/trigger-flow`, { workflowId })
     return data
@@ -519,6 +709,26 @@ export const apiClient = {
     return data
   },
 
+  getInboxAgents: async () => {
+    const { data } = await client.get('/inbox/agents')
+    return data
+  },
+
+  getConversationHandoff: async (conversationId: string) => {
+    const { data } = await client.get(`/inbox/${conversationId}/handoff`)
+    return data
+  },
+
+  assignConversation: async (conversationId: string, userId: string | null) => {
+    const { data } = await client.post(`/inbox/${conversationId}/assign`, { userId })
+    return data
+  },
+
+  returnConversationToBot: async (conversationId: string, nodeId?: string) => {
+    const { data } = await client.post(`/inbox/${conversationId}/return-to-bot`, { nodeId })
+    return data
+  },
+
   getInboxStats: async () => {
     const { data } = await client.get('/inbox/stats')
     return data
@@ -530,6 +740,42 @@ export const apiClient = {
     return data
   },
 
+  // Contacts
+  getContacts: async (params?: { search?: string; page?: number; limit?: number }) => {
+    const { data } = await client.get('/contacts', { params })
+    return data
+  },
+
+  getContact: async (id: string) => {
+    const { data } = await client.get(`/contacts/${id}`)
+    return data
+  },
+
+  updateContact: async (id: string, body: { name?: string | null; fields?: Record<string, any> }) => {
+    const { data } = await client.patch(`/contacts/${id}`, body)
+    return data
+  },
+
+  getContactFields: async () => {
+    const { data } = await client.get('/contacts/fields')
+    return data
+  },
+
+  createContactField: async (body: { key?: string; label: string; type: string; options?: string[] }) => {
+    const { data } = await client.post('/contacts/fields', body)
+    return data
+  },
+
+  updateContactField: async (id: string, body: { label: string; type: string; options?: string[] }) => {
+    const { data } = await client.put(`/contacts/fields/${id}`, body)
+    return data
+  },
+
+  deleteContactField: async (id: string) => {
+    const { data } = await client.delete(`/contacts/fields/${id}`)
+    return data
+  },
+
   // Generic
   get: async (url: string, params?: any) => {
     const path = url.startsWith('/api') ? url.replace(/^\/api/, '') : url
@@ -587,8 +833,8 @@ export const apiClient = {
     return data;
   },
 
-  upsertApiConfig: async (provider: string, appId: string, secret: string) => {
-    const { data } = await client.post(`/api-configs/${provider}`, { appId, secret });
+  upsertApiConfig: async (provider: string, appId: string, secret: string, credentialId?: string) => {
+    const { data } = await client.post(`/api-configs/${provider}`, { appId, secret, credentialId });
     return data;
   },
 
@@ -601,6 +847,31 @@ export const apiClient = {
     await client.delete(`/api-configs/${provider}`);
   },
 
+  // Credentials (encrypted vault; values are write-only)
+  getCredentials: async (type?: string) => {
+    const { data } = await client.get('/credentials', { params: { type } });
+    return data;
+  },
+
+  createCredential: async (payload: { name: string; type: string; value: string }) => {
+    const { data } = await client.post('/credentials', payload);
+    return data;
+  },
+
+  updateCredential: async (id: string, payload: { name?: string; value?: string }) => {
+    const { data } = await client.patch(`/credentials/${id}`, payload);
+    return data;
+  },
+
+  deleteCredential: async (id: string) => {
+    await client.delete(`/credentials/${id}`);
+  },
+
+  rotateCredentials: async () => {
+    const { data } = await client.post('/credentials/rotate');
+    return data;
+  },
+
   // Campaigns
   getCampaigns: async (type?: string, isTemplate?: boolean) => {
     const { data } = await client.get('/campaigns', { params: { type, isTemplate } });
@@ -890,4 +1161,11 @@ export const apiClient = {
     })
     return data
   },
+
+  // Polls
+  getPollResults: async (pollId: string, tenantId?: string) => {
+    const params = tenantId ? { tenantId } : {}
+    const { data } = await client.get(`/polls/${pollId}/results`, { params })
+    return data
+  },
 }
@@ -1,3 +1,5 @@
+import { Permission, PermissionAction } from '@n9n/shared'
+
 export enum UserRole {
   SUPER_ADMIN = 'SUPER_ADMIN',
   ADMIN = 'ADMIN',
@@ -26,3 +28,19 @@ export const isAdmin = (userRole: string | undefined): boolean => {
   return userRole === UserRole.ADMIN || userRole === UserRole.SUPER_ADMIN
 }
 
+/**
+ * Mirrors the backend PermissionsGuard: admins can do everything, other users
+ * need the permission in their role; edit and execute imply view. Users saved
+ * before permissions were returned keep full access, as on the server.
+ */
+export const hasPermission = (
+  user: { role?: string; permissions?: string[] } | null | undefined,
+  permission: Permission,
+): boolean => {
+  if (!user) return false
+  if (isAdmin(user.role) || !user.permissions) return true
+  if (user.permissions.includes(permission)) return true
+
+  const [resource, action] = permission.split(':')
+  return action === PermissionAction.VIEW && user.permissions.some((p) => p.startsWith(`${resource}:`))
+}
@@ -13,25 +13,36 @@ try {
   }
 } catch(e) {}
 
+// Tenant-wide event feeds, joined on connect
+const TENANT_FEEDS = ['inbox', 'sessions', 'campaigns']
+
 class WebSocketClient {
   private socket: Socket | null = null
   private listeners: Map<string, Set<(event: WorkflowEvent) => void>> = new Map()
   private rawListeners: Map<string, Set<(data: any) => void>> = new Map()
+  // Rooms to (re)join on every connect: inbox:<tenantId>, sessions:<tenantId>, campaigns:<tenantId>,
+  // workflow:<id>, execution:<id>, conversation:<id>
+  private rooms: Set<string> = new Set()
+  private tenantRooms: string[] = []
 
   connect(tenantId: string, token?: string) {
-    if (this.socket?.connected) {
-      console.log('WebSocket already connected')
+    this.setTenant(tenantId)
+
+    if (this.socket) {
+      // Connections refused by the server are not retried automatically
+      if (!this.socket.connected) this.socket.connect()
       return
     }
 
-    const authToken = token || (typeof window !== 'undefined' ? localStorage.getItem('n9n_token') : null)
-
     console.log('Connecting to WebSocket origin:', wsOrigin, 'path:', wsPath, 'with tenantId:', tenantId)
 
     this.socket = io(wsOrigin, {
       path: wsPath,
-      query: { tenantId },
-      auth: authToken ? { token: authToken } : undefined,
+      // Read on every (re)connect so refreshed access tokens are picked up
+      auth: (cb) => {
+        const authToken = (typeof window !== 'undefined' ? localStorage.getItem('n9n_token') : null) || token
+        cb(authToken ? { token: authToken } : {})
+      },
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionDelay: 1000,
@@ -46,6 +57,8 @@ class WebSocketClient {
           this.socket?.on(eventName, handler)
         })
       })
+      // Rooms are per connection on the server
+      this.rooms.forEach((room) => this.emitSubscribe(room))
     })
 
     this.socket.on('connect_error', (error) => {
@@ -82,6 +95,38 @@ class WebSocketClient {
       this.socket.disconnect()
       this.socket = null
     }
+    this.rooms.clear()
+    this.tenantRooms = []
+  }
+
+  /**
+   * Receive events of a workflow, execution or conversation only.
+   * Rooms outside the user's workspace are refused by the server.
+   */
+  subscribe(room: string) {
+    if (this.rooms.has(room)) return
+    this.rooms.add(room)
+    if (this.socket?.connected) this.emitSubscribe(room)
+  }
+
+  unsubscribe(room: string) {
+    if (!this.rooms.delete(room)) return
+    this.socket?.emit('unsubscribe', { room })
+  }
+
+  // Feeds the user lacks permission for are refused by the server
+  private setTenant(tenantId: string) {
+    const rooms = TENANT_FEEDS.map((feed) => `${feed}:${tenantId}`)
+    if (this.tenantRooms[0] === rooms[0]) return
+    this.tenantRooms.forEach((room) => this.unsubscribe(room))
+    this.tenantRooms = rooms
+    rooms.forEach((room) => this.subscribe(room))
+  }
+
+  private emitSubscribe(room: string) {
+    this.socket?.emit('subscribe', { room }, (ack: { ok: boolean; error?: string }) => {
+      if (!ack?.ok) console.warn(`WebSocket subscribe to ${room} refused:`, ack?.error)
+    })
   }
 
   on(eventType: string, handler: (event: WorkflowEvent) => void) {
@@ -1,5 +1,6 @@
 export * from './types/workflow.types';
 export * from './types/events.types';
+export * from './types/permissions.types';
 
 
 
@@ -21,6 +21,9 @@ export enum EventType {
   // Inbox events
   INBOX_CONVERSATION_UPDATED = 'inbox:conversation-updated',
   INBOX_MESSAGE_RECEIVED = 'inbox:message-received',
+  INBOX_MESSAGE_STATUS = 'inbox:message-status',
+  INBOX_MESSAGE_UPDATED = 'inbox:message-updated',
+  INBOX_NOTE_ADDED = 'inbox:note-added',
 
   // Marketing events
   PIXEL_EVENT = 'marketing.pixel_event',
@@ -109,7 +112,8 @@ export interface PixelEvent extends BaseEvent {
   contactPhone: string;
   eventType: string;
   pixelId: string;
-  accessToken: string;
+  credentialId?: string; // Vault credential with the access token, resolved by the pixel processor
+  accessToken?: string;
   testEventCode?: string;
   metadata?: Record<string, any>;
   data?: Record<string, any>;
@@ -0,0 +1,35 @@
+export enum PermissionResource {
+  WORKFLOWS = 'workflows',
+  CAMPAIGNS = 'campaigns',
+  INBOX = 'inbox',
+  SESSIONS = 'sessions',
+  SETTINGS = 'settings',
+  CREDENTIALS = 'credentials',
+}
+
+export enum PermissionAction {
+  VIEW = 'view',
+  EDIT = 'edit',
+  EXECUTE = 'execute', // Run workflows, launch/pause campaigns
+}
+
+// "resource:action", e.g. "inbox:edit"
+export type Permission = `${PermissionResource}:${PermissionAction}`;
+
+// Actions that exist for each resource; edit and execute imply view
+export const PERMISSION_ACTIONS: Record<PermissionResource, PermissionAction[]> = {
+  [PermissionResource.WORKFLOWS]: [PermissionAction.VIEW, PermissionAction.EDIT, PermissionAction.EXECUTE],
+  [PermissionResource.CAMPAIGNS]: [PermissionAction.VIEW, PermissionAction.EDIT, PermissionAction.EXECUTE],
+  [PermissionResource.INBOX]: [PermissionAction.VIEW, PermissionAction.EDIT],
+  [PermissionResource.SESSIONS]: [PermissionAction.VIEW, PermissionAction.EDIT],
+  [PermissionResource.SETTINGS]: [PermissionAction.VIEW, PermissionAction.EDIT],
+  [PermissionResource.CREDENTIALS]: [PermissionAction.VIEW, PermissionAction.EDIT],
+};
+
+// What a tenant API key may call; each public route requires exactly one
+export enum ApiKeyScope {
+  MESSAGES_SEND = 'messages:send',
+  WORKFLOWS_TRIGGER = 'workflows:trigger',
+  EXECUTIONS_READ = 'executions:read',
+  CONTACTS_MANAGE = 'contacts:manage',
+}
@@ -5,6 +5,10 @@ export enum WorkflowNodeType {
   TRIGGER_SCHEDULE = 'TRIGGER_SCHEDULE',
   TRIGGER_MANUAL = 'TRIGGER_MANUAL',
   TRIGGER_GRUPO = 'TRIGGER_GRUPO',
+  TRIGGER_WEBHOOK = 'TRIGGER_WEBHOOK',
+  TRIGGER_GROUP_JOIN = 'TRIGGER_GROUP_JOIN',
+  TRIGGER_GROUP_LEAVE = 'TRIGGER_GROUP_LEAVE',
+  TRIGGER_CALL = 'TRIGGER_CALL',
   SEND_MESSAGE = 'SEND_MESSAGE',
   SEND_MEDIA = 'SEND_MEDIA',
   SEND_BUTTONS = 'SEND_BUTTONS',
@@ -43,12 +47,17 @@ export enum WorkflowNodeType {
   NOTIFICACAO = 'NOTIFICACAO',
   SEND_PWA_NOTIFICATION = 'SEND_PWA_NOTIFICATION',
   AI_OCR_PIX = 'AI_OCR_PIX',
+  CALL_WORKFLOW = 'CALL_WORKFLOW',
+  WAIT_POLL_VOTE = 'WAIT_POLL_VOTE',
+  HANDOFF = 'HANDOFF',
+  UPDATE_CONTACT = 'UPDATE_CONTACT',
   END = 'END',
 }
 
 export enum ExecutionStatus {
   RUNNING = 'RUNNING',
   WAITING = 'WAITING',
+  PAUSED = 'PAUSED', // Human handoff; resumed by 'return to bot'
   COMPLETED = 'COMPLETED',
   EXPIRED = 'EXPIRED',
   ERROR = 'ERROR',
@@ -76,6 +85,7 @@ export interface WorkflowEdge {
   target: string;
   label?: string;
   condition?: string;
+  targetHandle?: string; // LOOP control edges end on 'continue' or 'break'
 }
 
 export interface Workflow {
@@ -86,10 +96,55 @@ export interface Workflow {
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
   isActive: boolean;
+  maxIterations?: number | null; // Node budget per run (infinite loop guard)
+  publishedVersion?: number | null; // nodes/edges are this version's graph
+  draft?: { nodes: WorkflowNode[]; edges: WorkflowEdge[] } | null; // Unpublished edits
+  validation?: WorkflowValidationResult; // Returned by saves, for the editor graph
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type WorkflowIssueSeverity = 'error' | 'warning';
+
+export interface WorkflowValidationIssue {
+  code: string; // e.g. DANGLING_EDGE, SWITCH_RULE_UNCONNECTED
+  severity: WorkflowIssueSeverity;
+  message: string;
+  nodeId?: string; // Node the issue is shown on (absent for workflow-level issues)
+  edgeId?: string;
+}
+
+export interface WorkflowValidationResult {
+  valid: boolean; // No errors (warnings don't block activation)
+  errors: WorkflowValidationIssue[];
+  warnings: WorkflowValidationIssue[];
+}
+
+export interface WorkflowVersion {
+  id: string;
+  workflowId: string;
+  version: number;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  note?: string;
+  createdById?: string;
+  createdAt: Date;
+}
+
+export interface WorkflowVersionDiff {
+  from: number;
+  to: number;
+  nodes: {
+    added: WorkflowNode[];
+    removed: WorkflowNode[];
+    changed: { id: string; type: WorkflowNodeType; fields: string[]; before: WorkflowNode; after: WorkflowNode }[];
+  };
+  edges: {
+    added: WorkflowEdge[];
+    removed: WorkflowEdge[];
+  };
+}
+
 export interface ExecutionContext {
   globals: Record<string, any>;
   input: Record<string, any>;
@@ -109,6 +164,8 @@ export interface WorkflowExecution {
   sessionId: string;
   contactPhone: string;
   campaignId?: string;
+  parentExecutionId?: string; // Caller execution when started by CALL_WORKFLOW
+  workflowVersion?: number; // Workflow version the execution is pinned to
   currentNodeId: string | null;
   status: ExecutionStatus;
   context: ExecutionContext;
@@ -129,10 +186,15 @@ export interface WhatsappSession {
   qrCode?: string;
   phoneNumber?: string;
   isBusiness: boolean;
+  callPolicy?: WhatsappCallPolicy;
+  callRejectMessage?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/** What a session does with incoming voice/video calls */
+export type WhatsappCallPolicy = 'ignore' | 'reject' | 'reject_message';
+
 export interface GroupMessageConfig {
   type: 'text' | 'image' | 'video' | 'audio';
   text?: string;
@@ -154,12 +216,27 @@ export interface TriggerMessageConfig {
   sessionId?: string; // WhatsApp session to listen to (optional, if empty listens to all)
 }
 
+export interface MessageLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+  url?: string;
+  live?: boolean; // live location share (first update)
+}
+
+export interface MessageContactCard {
+  name: string;
+  phones: string[]; // digits only, WhatsApp id when the card has one
+  vcard: string;
+}
+
 export interface TriggerMessagePayload {
   messageId: string;
   from: string;
   fromMe: boolean;
-  type: 'text' | 'media';
-  text: string | null;
+  type: 'text' | 'media' | 'location' | 'contacts' | 'sticker' | 'reaction' | 'edit' | 'delete';
+  text: string | null; // reaction: the emoji; edit: the new text
   media: {
     mediaType: 'image' | 'video' | 'audio' | 'document';
     mimeType: string;
@@ -169,6 +246,15 @@ export interface TriggerMessagePayload {
   } | null;
   timestamp: number;
   quotedMessageId?: string;
+  targetMessageId?: string; // reaction/edit/delete: WhatsApp id of the message acted upon
+  reaction?: string; // reaction: emoji, empty when the reaction was removed
+  location?: MessageLocation;
+  contacts?: MessageContactCard[];
+  sticker?: {
+    mimeType: string;
+    url: string;
+    animated?: boolean;
+  };
 }
 
 export interface TriggerScheduleConfig {
@@ -233,8 +319,12 @@ export interface ConditionConfig {
   };
 }
 
+export type WaitReplyExpectedType = 'any' | 'text' | 'media' | 'location' | 'contacts' | 'sticker';
+
 export interface WaitReplyConfig {
   saveAs: string; // variable name to save response
+  // Replies of another kind go to the "invalid" edge (or are ignored when it is not connected)
+  expectedType?: WaitReplyExpectedType;
   // Primary Time
   timeoutAmount?: number;
   timeoutUnit?: 'seconds' | 'minutes' | 'hours' | 'days';
@@ -263,7 +353,48 @@ export interface WaitReplyConfig {
 }
 
 export interface EndConfig {
-  outputVariables?: string[]; // variables to include in final output
+  outputVariables?: string[]; // variables to include in final output (returned to the caller of a sub-workflow)
+}
+
+export interface CallWorkflowConfig {
+  workflowId: string; // Workflow in the same tenant, run for the same contact
+  inputMappings?: { name: string; value: string }[]; // child variable name <- value (supports {{variables.name}} syntax)
+  saveOutputAs?: string; // Nest the child's END outputVariables under this variable instead of merging them
+}
+
+export interface HandoffConfig {
+  queue?: string; // Queue the conversation moves to (supports {{variables.name}} syntax)
+  message?: string; // Optional notice sent to the contact before pausing
+}
+
+export interface UpdateContactConfig {
+  name?: string; // New contact name (supports {{variables.name}} syntax); empty keeps the current name
+  fields?: { key: string; value: string }[]; // Custom field key <- value (supports {{variables.name}} syntax); an empty value clears the field
+}
+
+export interface WaitPollVoteConfig {
+  pergunta: string; // Poll question (supports {{variables.name}} syntax)
+  opcoes: string[]; // Option i is routed through the edge with condition String(i)
+  multiplas?: boolean; // Allow several options; routing follows the first one picked
+  saveAs?: string; // Variable for the picked option (array when multiplas)
+  timeoutAmount?: number;
+  timeoutUnit?: 'seconds' | 'minutes' | 'hours' | 'days';
+}
+
+export interface PollResultOption {
+  option: string;
+  votes: number;
+  voters: string[];
+}
+
+export interface PollResults {
+  id: string;
+  name: string;
+  chatJid: string;
+  selectableCount: number;
+  totalVoters: number;
+  options: PollResultOption[];
+  createdAt: Date;
 }
 
 export interface SwitchRule {
@@ -333,7 +464,9 @@ export interface CodeConfig {
 }
 
 export interface CommandConfig {
-  command: string; // Full command to execute (can include arguments), supports {{variables.name}} syntax
+  binary?: string; // Executable to run — must be on the tenant's allow-list
+  args?: string[]; // One entry per argument, each supports {{variables.name}} syntax (no shell)
+  command?: string; // Legacy: full command line, split into binary + args (shell operators rejected)
   timeout?: number; // Timeout in milliseconds, default 30000
   saveOutputAs?: string; // Variable name to save stdout, default 'commandOutput'
   saveErrorAs?: string; // Variable name to save stderr, default 'commandError'
@@ -358,6 +491,28 @@ export interface TriggerManualConfig {
   customVariables?: Array<{ key: string; value: string }>;
 }
 
+export interface TriggerWebhookConfig {
+  sessionId: string;         // WhatsApp session used by the execution
+  phonePath: string;         // Dot path in the JSON body holding the contact phone (e.g. "customer.phone")
+  contactNamePath?: string;  // Optional dot path for {{contact.name}}
+}
+
+export type GroupParticipantAction = 'add' | 'remove' | 'promote' | 'demote';
+
+/** Config for TRIGGER_GROUP_JOIN / TRIGGER_GROUP_LEAVE */
+export interface GroupParticipantTriggerConfig {
+  sessionId?: string;
+  groupJids?: string[];      // Empty = every group with the bot enabled
+  target: 'dm' | 'group';    // DM each participant, or run once in the group
+  debounceSeconds?: number;  // Participants within this window are handled together (default 10)
+}
+
+/** Config for TRIGGER_CALL */
+export interface TriggerCallConfig {
+  sessionId?: string;
+  callType?: 'any' | 'voice' | 'video';
+}
+
 export interface EditFieldsOperation {
   id: string;
   name: string; // Field name
@@ -413,10 +568,12 @@ export interface AiOcrPixConfig {
   valueRules?: { id: string; label: string; value: number; tolerance?: number; operator?: 'equals' | 'greater_or_equal' | 'less_than' }[];
   saveResponseAs?: string;
   model?: string; // e.g., 'google/gemini-2.0-flash-exp:free' or 'openai/gpt-4o-mini'
-  apiKey?: string; // OpenRouter API Key
+  credentialId?: string; // Vault credential with the OpenRouter API key; tenant config when empty
+  apiKey?: string; // Legacy inline key, moved to the vault on save
   useFallback?: boolean;
   fallbackModel?: string;
-  fallbackApiKey?: string;
+  fallbackCredentialId?: string;
+  fallbackApiKey?: string; // Legacy inline key, moved to the vault on save
   useInvalidOutput?: boolean;
   validateDate?: boolean;
   maxAgeHours?: number;
@@ -643,9 +800,11 @@ export interface RandomizerConfig {
 }
 
 export interface PixelEventConfig {
-  // Pixel credentials
+  // Pixel credentials: a saved pixel, or a pixel ID with a vault credential
+  pixelConfigId?: string; // 'manual' uses pixelId + credentialId
   pixelId: string;
-  accessToken: string;
+  credentialId?: string; // Vault credential with the access token
+  accessToken?: string; // Legacy inline token, moved to the vault on save; {{templates}} allowed
   testEventCode?: string;
 
   // Event configuration